@@ -3,7 +3,7 @@ import type { NextConfig } from "next";
 const nextConfig: NextConfig = {
   /* config options here */
   reactCompiler: true,
-  serverExternalPackages: ["node-pptx-parser", "unzipper"],
+  serverExternalPackages: ["node-pptx-parser", "unzipper", "snowflake-sdk"],
   images: {
     remotePatterns: [
       {
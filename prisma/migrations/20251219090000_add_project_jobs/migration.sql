@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "ProjectJobType" AS ENUM ('ANSWER_ROWS');
+
+-- CreateEnum
+CREATE TYPE "JobStatus" AS ENUM ('QUEUED', 'RUNNING', 'COMPLETED', 'FAILED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "ProjectJob" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "type" "ProjectJobType" NOT NULL DEFAULT 'ANSWER_ROWS',
+    "status" "JobStatus" NOT NULL DEFAULT 'QUEUED',
+    "options" JSONB,
+    "totalRows" INTEGER NOT NULL DEFAULT 0,
+    "processedRows" INTEGER NOT NULL DEFAULT 0,
+    "failedRows" INTEGER NOT NULL DEFAULT 0,
+    "cursor" INTEGER NOT NULL DEFAULT -1,
+    "batchRetries" INTEGER NOT NULL DEFAULT 0,
+    "nextRunAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockedAt" TIMESTAMP(3),
+    "lockedBy" TEXT,
+    "lastError" TEXT,
+    "createdById" TEXT,
+    "createdByEmail" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProjectJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProjectJob_projectId_createdAt_idx" ON "ProjectJob"("projectId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ProjectJob_status_nextRunAt_idx" ON "ProjectJob"("status", "nextRunAt");
+
+-- AddForeignKey
+ALTER TABLE "ProjectJob" ADD CONSTRAINT "ProjectJob_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "BulkProject"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "BulkRow" ADD COLUMN "sourceTab" TEXT,
+ADD COLUMN "sourceRowNumber" INTEGER;
+
+-- CreateTable
+CREATE TABLE "ProjectSourceFile" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "filename" TEXT NOT NULL,
+    "fileSize" INTEGER NOT NULL,
+    "fileData" BYTEA NOT NULL,
+    "sheetMappings" JSONB NOT NULL,
+    "uploadedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProjectSourceFile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProjectSourceFile_projectId_key" ON "ProjectSourceFile"("projectId");
+
+-- AddForeignKey
+ALTER TABLE "ProjectSourceFile" ADD CONSTRAINT "ProjectSourceFile_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "BulkProject"("id") ON DELETE CASCADE ON UPDATE CASCADE;
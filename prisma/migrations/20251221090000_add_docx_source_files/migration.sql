@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "BulkRow" ADD COLUMN "sourceLocation" JSONB;
+
+-- AlterTable
+ALTER TABLE "ProjectSourceFile" ADD COLUMN "fileType" TEXT NOT NULL DEFAULT 'xlsx',
+ADD COLUMN "documentOutline" JSONB;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "BulkRow" ADD COLUMN "section" TEXT,
+ADD COLUMN "questionId" TEXT;
@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "ProjectSection" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "parentId" TEXT,
+    "title" TEXT NOT NULL,
+    "externalId" TEXT,
+    "sourceTab" TEXT,
+    "position" INTEGER NOT NULL,
+    "assignedReviewerId" TEXT,
+    "assignedReviewerName" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProjectSection_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "BulkRow" ADD COLUMN "sectionId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "ProjectSection_projectId_idx" ON "ProjectSection"("projectId");
+
+-- CreateIndex
+CREATE INDEX "ProjectSection_parentId_idx" ON "ProjectSection"("parentId");
+
+-- CreateIndex
+CREATE INDEX "BulkRow_sectionId_idx" ON "BulkRow"("sectionId");
+
+-- AddForeignKey
+ALTER TABLE "BulkRow" ADD CONSTRAINT "BulkRow_sectionId_fkey" FOREIGN KEY ("sectionId") REFERENCES "ProjectSection"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProjectSection" ADD CONSTRAINT "ProjectSection_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "BulkProject"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProjectSection" ADD CONSTRAINT "ProjectSection_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "ProjectSection"("id") ON DELETE CASCADE ON UPDATE CASCADE;
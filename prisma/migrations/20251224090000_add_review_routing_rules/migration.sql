@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "ReviewRoutingRule" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "categoryId" TEXT,
+    "keywords" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "reviewerId" TEXT NOT NULL,
+    "reviewerName" TEXT,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReviewRoutingRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReviewRoutingRule_isActive_priority_idx" ON "ReviewRoutingRule"("isActive", "priority");
+
+-- CreateIndex
+CREATE INDEX "ReviewRoutingRule_categoryId_idx" ON "ReviewRoutingRule"("categoryId");
+
+-- CreateIndex
+CREATE INDEX "ReviewRoutingRule_reviewerId_idx" ON "ReviewRoutingRule"("reviewerId");
+
+-- AddForeignKey
+ALTER TABLE "ReviewRoutingRule" ADD CONSTRAINT "ReviewRoutingRule_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "SkillCategory"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReviewRoutingRule" ADD CONSTRAINT "ReviewRoutingRule_reviewerId_fkey" FOREIGN KEY ("reviewerId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
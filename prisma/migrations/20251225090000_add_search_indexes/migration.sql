@@ -0,0 +1,24 @@
+-- Full-text search indexes for global search (src/lib/search.ts).
+-- Expression indexes are not modeled in schema.prisma; each expression must
+-- match the vector the search query uses.
+
+-- CreateIndex
+CREATE INDEX "Skill_search_idx" ON "Skill" USING GIN ((setweight(to_tsvector('english', coalesce("title", '')), 'A') || setweight(to_tsvector('english', coalesce("content", '')), 'B')));
+
+-- CreateIndex
+CREATE INDEX "KnowledgeDocument_search_idx" ON "KnowledgeDocument" USING GIN ((setweight(to_tsvector('english', coalesce("title", '') || ' ' || coalesce("filename", '')), 'A') || setweight(to_tsvector('english', coalesce("description", '') || ' ' || coalesce("content", '')), 'B')));
+
+-- CreateIndex
+CREATE INDEX "ReferenceUrl_search_idx" ON "ReferenceUrl" USING GIN ((setweight(to_tsvector('english', coalesce("title", '') || ' ' || coalesce("url", '')), 'A') || setweight(to_tsvector('english', coalesce("description", '')), 'B')));
+
+-- CreateIndex
+CREATE INDEX "CustomerProfile_search_idx" ON "CustomerProfile" USING GIN ((setweight(to_tsvector('english', coalesce("name", '')), 'A') || setweight(to_tsvector('english', coalesce("overview", '') || ' ' || coalesce("content", '')), 'B')));
+
+-- CreateIndex
+CREATE INDEX "BulkRow_search_idx" ON "BulkRow" USING GIN ((setweight(to_tsvector('english', coalesce("question", '')), 'A') || setweight(to_tsvector('english', coalesce("response", '')), 'B')));
+
+-- CreateIndex
+CREATE INDEX "QuestionHistory_search_idx" ON "QuestionHistory" USING GIN ((setweight(to_tsvector('english', coalesce("question", '')), 'A') || setweight(to_tsvector('english', coalesce("response", '')), 'B')));
+
+-- CreateIndex
+CREATE INDEX "CollateralOutput_search_idx" ON "CollateralOutput" USING GIN ((setweight(to_tsvector('english', coalesce("name", '') || ' ' || coalesce("customerName", '')), 'A') || setweight(to_tsvector('english', coalesce("generatedMarkdown", '')), 'B')));
@@ -0,0 +1,26 @@
+-- Add LOCKED/UNLOCKED to AuditAction enum
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'LOCKED';
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'UNLOCKED';
+
+-- AlterTable
+ALTER TABLE "BulkProject" ADD COLUMN "locked" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "lockedAt" TIMESTAMP(3),
+ADD COLUMN "lockedBy" TEXT,
+ADD COLUMN "lockedById" TEXT,
+ADD COLUMN "lockReason" TEXT;
+
+-- AlterTable
+ALTER TABLE "BulkRow" ADD COLUMN "locked" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "lockedAt" TIMESTAMP(3),
+ADD COLUMN "lockedBy" TEXT,
+ADD COLUMN "lockedById" TEXT,
+ADD COLUMN "lockReason" TEXT;
+
+-- CreateIndex
+CREATE INDEX "BulkRow_projectId_locked_idx" ON "BulkRow"("projectId", "locked");
+
+-- Lock answers on projects that are already finalized
+UPDATE "BulkProject" SET "locked" = true, "lockedAt" = NOW(), "lockedBy" = 'system', "lockReason" = 'Project finalized'
+WHERE "status" = 'FINALIZED';
+UPDATE "BulkRow" SET "locked" = true, "lockedAt" = NOW(), "lockedBy" = 'system', "lockReason" = 'Project finalized'
+WHERE "projectId" IN (SELECT "id" FROM "BulkProject" WHERE "status" = 'FINALIZED');
@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "Skill" ADD COLUMN "version" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "SkillVersion" (
+    "id" TEXT NOT NULL,
+    "skillId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "quickFacts" JSONB,
+    "edgeCases" TEXT[],
+    "categories" TEXT[],
+    "action" TEXT NOT NULL,
+    "summary" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdBy" TEXT,
+    "createdById" TEXT,
+
+    CONSTRAINT "SkillVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SkillVersion_skillId_version_key" ON "SkillVersion"("skillId", "version");
+
+-- CreateIndex
+CREATE INDEX "SkillVersion_skillId_createdAt_idx" ON "SkillVersion"("skillId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "SkillVersion" ADD CONSTRAINT "SkillVersion_skillId_fkey" FOREIGN KEY ("skillId") REFERENCES "Skill"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Existing skills start at version 1 with their current content (earlier content was never stored)
+INSERT INTO "SkillVersion" ("id", "skillId", "version", "title", "content", "quickFacts", "edgeCases", "categories", "action", "summary", "createdAt", "createdBy")
+SELECT gen_random_uuid()::text, "id", 1, "title", "content", "quickFacts", "edgeCases", "categories", 'created', 'Version history started', "updatedAt", "createdBy"
+FROM "Skill";
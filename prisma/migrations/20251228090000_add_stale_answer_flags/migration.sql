@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "BulkRow" ADD COLUMN "possiblyStale" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "staleSkills" JSONB,
+ADD COLUMN "staleDetectedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "QuestionHistory" ADD COLUMN "possiblyStale" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "staleSkills" JSONB,
+ADD COLUMN "staleDetectedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "BulkRow_projectId_possiblyStale_idx" ON "BulkRow"("projectId", "possiblyStale");
+
+-- CreateIndex
+CREATE INDEX "QuestionHistory_possiblyStale_idx" ON "QuestionHistory"("possiblyStale");
@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "RefreshDraftStatus" AS ENUM ('PENDING', 'APPLIED', 'DISMISSED', 'SUPERSEDED');
+
+-- CreateTable
+CREATE TABLE "SkillRefreshDraft" (
+    "id" TEXT NOT NULL,
+    "skillId" TEXT NOT NULL,
+    "status" "RefreshDraftStatus" NOT NULL DEFAULT 'PENDING',
+    "baseVersion" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "summary" TEXT NOT NULL,
+    "changeHighlights" TEXT[],
+    "changedUrls" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "reviewedAt" TIMESTAMP(3),
+    "reviewedBy" TEXT,
+    "reviewedById" TEXT,
+
+    CONSTRAINT "SkillRefreshDraft_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SkillRefreshDraft_status_createdAt_idx" ON "SkillRefreshDraft"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "SkillRefreshDraft_skillId_status_idx" ON "SkillRefreshDraft"("skillId", "status");
+
+-- AddForeignKey
+ALTER TABLE "SkillRefreshDraft" ADD CONSTRAINT "SkillRefreshDraft_skillId_fkey" FOREIGN KEY ("skillId") REFERENCES "Skill"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "KnowledgeGapReport" (
+    "id" TEXT NOT NULL,
+    "status" "JobStatus" NOT NULL DEFAULT 'QUEUED',
+    "periodDays" INTEGER NOT NULL,
+    "questionCount" INTEGER NOT NULL DEFAULT 0,
+    "clusters" JSONB,
+    "unclustered" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "createdById" TEXT,
+    "createdByEmail" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "KnowledgeGapReport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "KnowledgeGapReport_createdAt_idx" ON "KnowledgeGapReport"("createdAt");
@@ -0,0 +1,45 @@
+-- CreateEnum
+CREATE TYPE "SkillProposalType" AS ENUM ('UPDATE', 'NEW');
+
+-- CreateEnum
+CREATE TYPE "SkillProposalStatus" AS ENUM ('PENDING', 'ACCEPTED', 'REJECTED', 'SUPERSEDED');
+
+-- CreateTable
+CREATE TABLE "SkillProposal" (
+    "id" TEXT NOT NULL,
+    "type" "SkillProposalType" NOT NULL,
+    "status" "SkillProposalStatus" NOT NULL DEFAULT 'PENDING',
+    "skillId" TEXT,
+    "baseVersion" INTEGER,
+    "title" TEXT NOT NULL,
+    "additions" TEXT NOT NULL,
+    "categories" TEXT[],
+    "question" TEXT NOT NULL,
+    "originalAnswer" TEXT NOT NULL,
+    "correctedAnswer" TEXT NOT NULL,
+    "bulkRowId" TEXT,
+    "questionHistoryId" TEXT,
+    "correctedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "reviewedAt" TIMESTAMP(3),
+    "reviewedBy" TEXT,
+    "reviewedById" TEXT,
+    "reviewNote" TEXT,
+
+    CONSTRAINT "SkillProposal_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SkillProposal_status_createdAt_idx" ON "SkillProposal"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "SkillProposal_skillId_status_idx" ON "SkillProposal"("skillId", "status");
+
+-- CreateIndex
+CREATE INDEX "SkillProposal_bulkRowId_idx" ON "SkillProposal"("bulkRowId");
+
+-- CreateIndex
+CREATE INDEX "SkillProposal_questionHistoryId_idx" ON "SkillProposal"("questionHistoryId");
+
+-- AddForeignKey
+ALTER TABLE "SkillProposal" ADD CONSTRAINT "SkillProposal_skillId_fkey" FOREIGN KEY ("skillId") REFERENCES "Skill"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "BulkProject" ADD COLUMN "customerDocumentIds" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "BulkRow" ADD COLUMN "usedCustomerContext" JSONB;
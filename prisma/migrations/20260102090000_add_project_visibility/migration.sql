@@ -0,0 +1,22 @@
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'COLLABORATOR_ADDED';
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'COLLABORATOR_REMOVED';
+
+-- CreateEnum
+CREATE TYPE "ProjectVisibility" AS ENUM ('PRIVATE', 'TEAM', 'ORG');
+
+-- AlterTable
+ALTER TABLE "BulkProject" ADD COLUMN "visibility" "ProjectVisibility" NOT NULL DEFAULT 'ORG';
+
+-- Convert assignedUsers from an array of user IDs to { userId, role } entries
+UPDATE "BulkProject"
+SET "assignedUsers" = (
+  SELECT COALESCE(jsonb_agg(
+    CASE WHEN jsonb_typeof(entry) = 'string'
+      THEN jsonb_build_object('userId', entry #>> '{}', 'role', 'EDITOR')
+      ELSE entry
+    END
+  ), '[]'::jsonb)
+  FROM jsonb_array_elements("assignedUsers") AS entry
+)
+WHERE jsonb_typeof("assignedUsers") = 'array';
@@ -0,0 +1,45 @@
+-- CreateTable
+CREATE TABLE "Comment" (
+    "id" TEXT NOT NULL,
+    "bulkRowId" TEXT,
+    "questionHistoryId" TEXT,
+    "collateralOutputId" TEXT,
+    "parentId" TEXT,
+    "content" TEXT NOT NULL,
+    "mentions" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "authorId" TEXT,
+    "authorName" TEXT,
+    "authorEmail" TEXT,
+    "readBy" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "resolved" BOOLEAN NOT NULL DEFAULT false,
+    "resolvedAt" TIMESTAMP(3),
+    "resolvedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Comment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Comment_bulkRowId_createdAt_idx" ON "Comment"("bulkRowId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Comment_questionHistoryId_createdAt_idx" ON "Comment"("questionHistoryId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Comment_collateralOutputId_createdAt_idx" ON "Comment"("collateralOutputId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Comment_parentId_idx" ON "Comment"("parentId");
+
+-- AddForeignKey
+ALTER TABLE "Comment" ADD CONSTRAINT "Comment_bulkRowId_fkey" FOREIGN KEY ("bulkRowId") REFERENCES "BulkRow"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Comment" ADD CONSTRAINT "Comment_questionHistoryId_fkey" FOREIGN KEY ("questionHistoryId") REFERENCES "QuestionHistory"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Comment" ADD CONSTRAINT "Comment_collateralOutputId_fkey" FOREIGN KEY ("collateralOutputId") REFERENCES "CollateralOutput"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Comment" ADD CONSTRAINT "Comment_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Comment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "NotificationType" AS ENUM ('REVIEW_REQUESTED', 'REVIEW_ASSIGNED', 'FLAG_RAISED', 'FLAG_RESOLVED', 'PRESET_APPROVED', 'PRESET_REJECTED', 'SKILL_REFRESH_READY', 'COMMENT_MENTION', 'DIGEST');
+
+-- AlterTable
+ALTER TABLE "UserPreference" ADD COLUMN "notificationSettings" JSONB;
+
+-- CreateTable
+CREATE TABLE "Notification" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" "NotificationType" NOT NULL,
+    "title" TEXT NOT NULL,
+    "body" TEXT,
+    "link" TEXT,
+    "actorName" TEXT,
+    "readAt" TIMESTAMP(3),
+    "pendingDigest" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Notification_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Notification_userId_createdAt_idx" ON "Notification"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Notification_userId_readAt_idx" ON "Notification"("userId", "readAt");
+
+-- CreateIndex
+CREATE INDEX "Notification_pendingDigest_userId_idx" ON "Notification"("pendingDigest", "userId");
+
+-- AddForeignKey
+ALTER TABLE "Notification" ADD CONSTRAINT "Notification_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
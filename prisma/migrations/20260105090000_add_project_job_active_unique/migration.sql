@@ -0,0 +1,13 @@
+-- Keep only the newest active job per project before enforcing one at a time
+UPDATE "ProjectJob" AS j
+SET "status" = 'CANCELLED', "completedAt" = CURRENT_TIMESTAMP, "lockedAt" = NULL, "lockedBy" = NULL
+WHERE j."status" IN ('QUEUED', 'RUNNING')
+  AND EXISTS (
+    SELECT 1 FROM "ProjectJob" newer
+    WHERE newer."projectId" = j."projectId"
+      AND newer."status" IN ('QUEUED', 'RUNNING')
+      AND (newer."createdAt" > j."createdAt" OR (newer."createdAt" = j."createdAt" AND newer."id" > j."id"))
+  );
+
+-- CreateIndex (partial; not expressible in schema.prisma)
+CREATE UNIQUE INDEX "ProjectJob_projectId_active_key" ON "ProjectJob"("projectId") WHERE "status" IN ('QUEUED', 'RUNNING');
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "BulkRow" ADD COLUMN "answeredAt" TIMESTAMP(3);
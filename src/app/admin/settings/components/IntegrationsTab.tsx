@@ -136,6 +136,18 @@ export default function IntegrationsTab({ settings, onSave }: IntegrationsTabPro
               {settings?.integrations?.anthropic?.configured ? "Configured" : "Missing"}
             </span>
           </div>
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-600">AWS Bedrock</span>
+            <span
+              className={`px-2 py-0.5 text-xs rounded-full ${
+                settings?.integrations?.bedrock?.configured
+                  ? "bg-green-100 text-green-700"
+                  : "bg-gray-100 text-gray-600"
+              }`}
+            >
+              {settings?.integrations?.bedrock?.configured ? "Configured" : "Not configured"}
+            </span>
+          </div>
           <div className="flex justify-between text-sm">
             <span className="text-gray-600">Google OAuth</span>
             <span
@@ -21,6 +21,10 @@ const FEATURE_LABELS: Record<LLMFeature, { label: string; description: string }>
     label: "Bulk Questions (RFP)",
     description: "Processing multiple RFP questions at once"
   },
+  "projects-extract": {
+    label: "PDF Questionnaire Import",
+    description: "Finding questions in uploaded PDF questionnaires"
+  },
   "skills-suggest": {
     label: "Skill Generation",
     description: "Creating or updating knowledge skills"
@@ -41,6 +45,10 @@ const FEATURE_LABELS: Record<LLMFeature, { label: string; description: string }>
     label: "Skill Refresh",
     description: "Refreshing skills from sources"
   },
+  "knowledge-gaps": {
+    label: "Knowledge Gap Report",
+    description: "Grouping weakly answered questions into gaps"
+  },
   "customers-analyze": {
     label: "Customer URL Analysis",
     description: "Analyzing URLs for customer matching"
@@ -67,11 +75,11 @@ const FEATURE_LABELS: Record<LLMFeature, { label: string; description: string }>
 const FEATURE_GROUPS = [
   {
     name: "Chat & Questions",
-    features: ["chat", "questions", "questions-batch"] as LLMFeature[],
+    features: ["chat", "questions", "questions-batch", "projects-extract"] as LLMFeature[],
   },
   {
     name: "Knowledge Management",
-    features: ["skills-suggest", "skills-analyze", "skills-analyze-rfp", "skills-analyze-library", "skills-refresh"] as LLMFeature[],
+    features: ["skills-suggest", "skills-analyze", "skills-analyze-rfp", "skills-analyze-library", "skills-refresh", "knowledge-gaps"] as LLMFeature[],
   },
   {
     name: "Customer Profiles",
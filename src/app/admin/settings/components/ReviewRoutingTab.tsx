@@ -0,0 +1,405 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Plus, Pencil, Trash2, X, Check, AlertCircle, Route } from "lucide-react";
+import { InlineLoader } from "@/components/ui/loading";
+import UserSelector, { SelectableUser } from "@/components/UserSelector";
+import { useApiQuery, useApiMutation } from "@/hooks/use-api";
+import { useQueryClient } from "@tanstack/react-query";
+
+interface RoutingRule {
+  id: string;
+  name: string;
+  categoryId: string | null;
+  category: { id: string; name: string; color: string | null } | null;
+  keywords: string[];
+  reviewerId: string;
+  reviewerName: string | null;
+  priority: number;
+  isActive: boolean;
+}
+
+interface Category {
+  id: string;
+  name: string;
+}
+
+interface ReviewerWorkload {
+  id: string;
+  name: string | null;
+  email: string | null;
+  pending: number;
+}
+
+export default function ReviewRoutingTab() {
+  const queryClient = useQueryClient();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [showUserSelector, setShowUserSelector] = useState(false);
+
+  // Form state
+  const [formName, setFormName] = useState("");
+  const [formCategoryId, setFormCategoryId] = useState("");
+  const [formKeywords, setFormKeywords] = useState("");
+  const [formReviewer, setFormReviewer] = useState<{ id: string; name: string | null } | null>(null);
+  const [formPriority, setFormPriority] = useState(0);
+
+  const { data: rules = [], isLoading: loading } = useApiQuery<RoutingRule[]>({
+    queryKey: ["review-routing"],
+    url: "/api/review-routing",
+    responseKey: "rules",
+    transform: (data) => (Array.isArray(data) ? data : []),
+  });
+
+  const { data: categories = [] } = useApiQuery<Category[]>({
+    queryKey: ["skill-categories"],
+    url: "/api/skill-categories",
+    responseKey: "categories",
+    transform: (data) => (Array.isArray(data) ? data : []),
+  });
+
+  const { data: workload = [] } = useApiQuery<ReviewerWorkload[]>({
+    queryKey: ["review-workload"],
+    url: "/api/reviews/workload",
+    responseKey: "reviewers",
+    transform: (data) => (Array.isArray(data) ? data : []),
+  });
+
+  const deleteMutation = useApiMutation<void, string>({
+    url: (id) => `/api/review-routing/${id}`,
+    method: "DELETE",
+    invalidateKeys: [["review-routing"]],
+    onSuccess: () => {
+      toast.success("Rule deleted");
+    },
+    onError: (err) => {
+      toast.error(err.message || "Failed to delete");
+    },
+  });
+
+  const saving = isSaving || deleteMutation.isPending;
+
+  const resetForm = () => {
+    setFormName("");
+    setFormCategoryId("");
+    setFormKeywords("");
+    setFormReviewer(null);
+    setFormPriority(0);
+    setEditingId(null);
+    setShowAddForm(false);
+    setShowUserSelector(false);
+  };
+
+  const handleEdit = (rule: RoutingRule) => {
+    setFormName(rule.name);
+    setFormCategoryId(rule.categoryId || "");
+    setFormKeywords(rule.keywords.join(", "));
+    setFormReviewer({ id: rule.reviewerId, name: rule.reviewerName });
+    setFormPriority(rule.priority);
+    setEditingId(rule.id);
+    setShowAddForm(true);
+  };
+
+  const saveRule = async (id: string | null, body: Record<string, unknown>) => {
+    const res = await fetch(id ? `/api/review-routing/${id}` : "/api/review-routing", {
+      method: id ? "PATCH" : "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    if (!res.ok) {
+      const json = await res.json();
+      throw new Error(json.error?.message || "Failed to save");
+    }
+    await queryClient.invalidateQueries({ queryKey: ["review-routing"] });
+  };
+
+  const handleSave = async () => {
+    const keywords = formKeywords.split(",").map((k) => k.trim()).filter(Boolean);
+    if (!formName.trim()) {
+      toast.error("Name is required");
+      return;
+    }
+    if (!formCategoryId && keywords.length === 0) {
+      toast.error("Choose a category or enter at least one keyword");
+      return;
+    }
+    if (!formReviewer) {
+      toast.error("Reviewer is required");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await saveRule(editingId, {
+        name: formName.trim(),
+        categoryId: formCategoryId || null,
+        keywords,
+        reviewerId: formReviewer.id,
+        reviewerName: formReviewer.name,
+        priority: formPriority,
+      });
+      toast.success(editingId ? "Rule updated" : "Rule created");
+      resetForm();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (rule: RoutingRule) => {
+    try {
+      await saveRule(rule.id, { isActive: !rule.isActive });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to update");
+    }
+  };
+
+  const handleDelete = (id: string) => {
+    if (!confirm("Are you sure you want to delete this routing rule?")) return;
+    deleteMutation.mutate(id);
+  };
+
+  const handleSelectReviewer = (user: SelectableUser) => {
+    setFormReviewer({ id: user.id, name: user.name || user.email });
+    setShowUserSelector(false);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <InlineLoader size="md" className="mr-2" />
+        <span className="text-gray-500">Loading routing rules...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Review Routing</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Send answers to the right subject matter expert automatically when a project finishes generating.
+          </p>
+        </div>
+        <button
+          onClick={() => setShowAddForm(true)}
+          disabled={showAddForm}
+          className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 flex items-center gap-1"
+        >
+          <Plus className="w-4 h-4" />
+          Add Rule
+        </button>
+      </div>
+
+      {/* Info box */}
+      <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+        <div className="flex gap-2">
+          <AlertCircle className="w-5 h-5 text-blue-600 flex-shrink-0 mt-0.5" />
+          <div className="text-sm text-blue-800">
+            <p className="font-medium">How reviewers are chosen</p>
+            <ul className="mt-1 space-y-1 text-blue-700">
+              <li>A reviewer assigned to the question&apos;s section always wins.</li>
+              <li>Otherwise the owners of the skills used for the answer are preferred.</li>
+              <li>Otherwise the highest-priority rule matching a skill category or question keyword applies.</li>
+              <li>When several reviewers qualify, the one with the fewest open reviews is chosen.</li>
+            </ul>
+          </div>
+        </div>
+      </div>
+
+      {/* Add/Edit Form */}
+      {showAddForm && (
+        <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="font-medium text-gray-900">
+              {editingId ? "Edit Routing Rule" : "Add Routing Rule"}
+            </h3>
+            <button onClick={resetForm} className="text-gray-400 hover:text-gray-600">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+              <input
+                type="text"
+                value={formName}
+                onChange={(e) => setFormName(e.target.value)}
+                placeholder="e.g., Security questions"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Skill Category</label>
+              <select
+                value={formCategoryId}
+                onChange={(e) => setFormCategoryId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">Any category</option>
+                {categories.map((category) => (
+                  <option key={category.id} value={category.id}>
+                    {category.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Priority</label>
+              <input
+                type="number"
+                min={0}
+                max={1000}
+                value={formPriority}
+                onChange={(e) => setFormPriority(parseInt(e.target.value, 10) || 0)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Question Keywords</label>
+            <input
+              type="text"
+              value={formKeywords}
+              onChange={(e) => setFormKeywords(e.target.value)}
+              placeholder="Comma-separated, e.g., SOC 2, encryption, penetration test"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Reviewer *</label>
+            {showUserSelector ? (
+              <UserSelector
+                onSelect={handleSelectReviewer}
+                onCancel={() => setShowUserSelector(false)}
+                placeholder="Search for a reviewer..."
+              />
+            ) : (
+              <button
+                onClick={() => setShowUserSelector(true)}
+                className="px-3 py-2 text-sm border border-gray-300 rounded-md bg-white hover:bg-gray-50 text-gray-700"
+              >
+                {formReviewer ? formReviewer.name || "Selected user" : "Choose reviewer..."}
+              </button>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <button
+              onClick={resetForm}
+              className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 flex items-center gap-1"
+            >
+              {saving ? <InlineLoader size="sm" /> : <Check className="w-4 h-4" />}
+              {editingId ? "Update" : "Create"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Rules Table */}
+      {rules.length === 0 && !showAddForm ? (
+        <div className="text-center py-12 text-gray-500">
+          <Route className="w-12 h-12 mx-auto mb-3 text-gray-300" />
+          <p className="font-medium">No routing rules configured</p>
+          <p className="text-sm mt-1">Reviews are still routed to section reviewers and skill owners.</p>
+        </div>
+      ) : (
+        <div className="border border-gray-200 rounded-lg overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="text-left px-4 py-3 font-medium text-gray-700">Name</th>
+                <th className="text-left px-4 py-3 font-medium text-gray-700">Matches</th>
+                <th className="text-left px-4 py-3 font-medium text-gray-700">Reviewer</th>
+                <th className="text-left px-4 py-3 font-medium text-gray-700">Priority</th>
+                <th className="text-left px-4 py-3 font-medium text-gray-700">Active</th>
+                <th className="text-right px-4 py-3 font-medium text-gray-700">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {rules.map((rule) => (
+                <tr key={rule.id} className={`hover:bg-gray-50 ${rule.isActive ? "" : "opacity-60"}`}>
+                  <td className="px-4 py-3 text-gray-900">{rule.name}</td>
+                  <td className="px-4 py-3">
+                    <div className="flex flex-wrap gap-1">
+                      {rule.category && (
+                        <span className="px-1.5 py-0.5 text-xs rounded bg-purple-100 text-purple-700">
+                          {rule.category.name}
+                        </span>
+                      )}
+                      {rule.keywords.map((keyword) => (
+                        <span key={keyword} className="px-1.5 py-0.5 text-xs rounded bg-gray-100 text-gray-700">
+                          {keyword}
+                        </span>
+                      ))}
+                    </div>
+                  </td>
+                  <td className="px-4 py-3 text-gray-600">{rule.reviewerName || "-"}</td>
+                  <td className="px-4 py-3 text-gray-600">{rule.priority}</td>
+                  <td className="px-4 py-3">
+                    <input
+                      type="checkbox"
+                      checked={rule.isActive}
+                      onChange={() => handleToggleActive(rule)}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    <div className="flex items-center justify-end gap-1">
+                      <button
+                        onClick={() => handleEdit(rule)}
+                        className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded"
+                        title="Edit"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(rule.id)}
+                        className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded"
+                        title="Delete"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Reviewer workload */}
+      {workload.length > 0 && (
+        <div>
+          <h3 className="font-medium text-gray-900 mb-2">Open Reviews by Reviewer</h3>
+          <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+            {workload.map((reviewer) => (
+              <div key={reviewer.id} className="flex items-center justify-between px-4 py-2 text-sm">
+                <span className="text-gray-900">{reviewer.name || reviewer.email || reviewer.id}</span>
+                <span className="px-2 py-0.5 text-xs rounded-full bg-amber-100 text-amber-800">
+                  {reviewer.pending} pending
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,10 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { ChevronDown, ChevronRight, Database, Table, Columns, Eye, RefreshCw, Check, X } from "lucide-react";
+import { ChevronDown, ChevronRight, Database, Table, Columns, Eye, RefreshCw, Check, X, Link2 } from "lucide-react";
 import { toast } from "sonner";
-import { parseApiData } from "@/lib/apiClient";
+import { parseApiData, getApiErrorMessage } from "@/lib/apiClient";
+import type { GtmMappings } from "@/lib/snowflake";
 
 type TableInfo = {
   tableName: string;
@@ -29,6 +30,47 @@ type ConnectionStatus = {
   };
 };
 
+type MappingGroup = keyof GtmMappings;
+
+// Field labels per GTM source; required fields must have a column
+const MAPPING_FIELDS: Record<MappingGroup, { title: string; fields: { key: string; label: string; required?: boolean }[] }> = {
+  gongCalls: {
+    title: "Gong Calls",
+    fields: [
+      { key: "accountId", label: "Salesforce Account ID", required: true },
+      { key: "id", label: "Call ID", required: true },
+      { key: "title", label: "Title", required: true },
+      { key: "date", label: "Date", required: true },
+      { key: "duration", label: "Duration (seconds)" },
+      { key: "participants", label: "Participants" },
+      { key: "transcript", label: "Transcript" },
+      { key: "summary", label: "Summary" },
+      { key: "sentiment", label: "Sentiment" },
+      { key: "topics", label: "Topics" },
+    ],
+  },
+  hubspotActivities: {
+    title: "HubSpot Activities",
+    fields: [
+      { key: "accountId", label: "Salesforce Account ID", required: true },
+      { key: "id", label: "Activity ID", required: true },
+      { key: "type", label: "Type" },
+      { key: "date", label: "Date", required: true },
+      { key: "subject", label: "Subject", required: true },
+      { key: "content", label: "Content" },
+      { key: "associatedDeal", label: "Deal" },
+      { key: "owner", label: "Owner" },
+    ],
+  },
+  lookerMetrics: {
+    title: "Looker Metrics",
+    fields: [
+      { key: "accountId", label: "Salesforce Account ID", required: true },
+      { key: "period", label: "Period", required: true },
+    ],
+  },
+};
+
 export default function SnowflakeExplorer() {
   const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus | null>(null);
   const [testing, setTesting] = useState(false);
@@ -40,6 +82,8 @@ export default function SnowflakeExplorer() {
   const [previewData, setPreviewData] = useState<Record<string, unknown>[] | null>(null);
   const [loading, setLoading] = useState<"schemas" | "tables" | "columns" | "preview" | null>(null);
   const [expandedSections, setExpandedSections] = useState<Set<string>>(new Set(["connection"]));
+  const [mappings, setMappings] = useState<GtmMappings | null>(null);
+  const [savingMappings, setSavingMappings] = useState(false);
 
   const toggleSection = (section: string) => {
     const newExpanded = new Set(expandedSections);
@@ -65,6 +109,7 @@ export default function SnowflakeExplorer() {
       if (data.connected) {
         toast.success("Connected to Snowflake!");
         loadSchemas();
+        loadMappings();
       }
     } catch (error) {
       setConnectionStatus({
@@ -149,6 +194,56 @@ export default function SnowflakeExplorer() {
     }
   };
 
+  const loadMappings = async () => {
+    try {
+      const res = await fetch("/api/snowflake/mappings");
+      const json = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(getApiErrorMessage(json, "Failed to load mappings"));
+      setMappings(parseApiData<GtmMappings>(json, "mappings"));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to load mappings");
+    }
+  };
+
+  const saveMappings = async () => {
+    if (!mappings) return;
+    setSavingMappings(true);
+    try {
+      const res = await fetch("/api/snowflake/mappings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(mappings),
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(getApiErrorMessage(json, "Failed to save mappings"));
+      setMappings(parseApiData<GtmMappings>(json, "mappings"));
+      toast.success("GTM mappings saved");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save mappings");
+    } finally {
+      setSavingMappings(false);
+    }
+  };
+
+  const updateMappingTable = (group: MappingGroup, table: string) => {
+    if (!mappings) return;
+    setMappings({ ...mappings, [group]: { ...mappings[group], table } });
+  };
+
+  const updateMappingColumn = (group: MappingGroup, field: string, column: string) => {
+    if (!mappings) return;
+    setMappings({
+      ...mappings,
+      [group]: { ...mappings[group], columns: { ...mappings[group].columns, [field]: column } },
+    });
+  };
+
+  const updateMetricColumns = (value: string) => {
+    if (!mappings) return;
+    const metricColumns = value.split(",").map((column) => column.trim()).filter(Boolean);
+    setMappings({ ...mappings, lookerMetrics: { ...mappings.lookerMetrics, metricColumns } });
+  };
+
   // Test connection on mount
   useEffect(() => {
     testConnection();
@@ -389,6 +484,94 @@ export default function SnowflakeExplorer() {
               )}
             </div>
           )}
+
+          {/* GTM Mappings */}
+          {mappings && (
+            <div className="mt-4">
+              <button
+                onClick={() => toggleSection("mappings")}
+                className="flex items-center gap-2 text-sm font-medium text-blue-800"
+              >
+                {expandedSections.has("mappings") ? (
+                  <ChevronDown className="h-4 w-4" />
+                ) : (
+                  <ChevronRight className="h-4 w-4" />
+                )}
+                <Link2 className="h-4 w-4" />
+                GTM Data Mappings
+              </button>
+              {expandedSections.has("mappings") && (
+                <div className="mt-2 pl-6 space-y-4">
+                  <p className="text-xs text-blue-700">
+                    Which table and columns hold each field. Leave optional columns blank to skip them.
+                    Column suggestions come from the table selected above.
+                  </p>
+                  <datalist id="snowflake-column-options">
+                    {columns.map((col) => (
+                      <option key={col.columnName} value={col.columnName} />
+                    ))}
+                  </datalist>
+                  {(Object.keys(MAPPING_FIELDS) as MappingGroup[]).map((group) => (
+                    <div key={group} className="bg-white rounded-md border border-blue-200 p-3">
+                      <div className="flex items-center justify-between gap-2 mb-2">
+                        <h5 className="text-sm font-medium text-blue-900">{MAPPING_FIELDS[group].title}</h5>
+                        {selectedSchema && selectedTable && (
+                          <button
+                            onClick={() => updateMappingTable(group, `${selectedSchema}.${selectedTable}`)}
+                            className="text-xs text-blue-600 hover:underline"
+                          >
+                            Use {selectedSchema}.{selectedTable}
+                          </button>
+                        )}
+                      </div>
+                      <label className="block text-xs text-gray-600 mb-2">
+                        Table
+                        <input
+                          type="text"
+                          value={mappings[group].table}
+                          onChange={(e) => updateMappingTable(group, e.target.value)}
+                          className="mt-1 w-full px-2 py-1 text-sm font-mono border border-gray-300 rounded-md"
+                        />
+                      </label>
+                      <div className="grid grid-cols-2 gap-2">
+                        {MAPPING_FIELDS[group].fields.map(({ key, label, required }) => (
+                          <label key={key} className="block text-xs text-gray-600">
+                            {label}
+                            {required && <span className="text-red-500"> *</span>}
+                            <input
+                              type="text"
+                              list="snowflake-column-options"
+                              value={(mappings[group].columns as Record<string, string>)[key] || ""}
+                              onChange={(e) => updateMappingColumn(group, key, e.target.value)}
+                              className="mt-1 w-full px-2 py-1 text-sm font-mono border border-gray-300 rounded-md"
+                            />
+                          </label>
+                        ))}
+                      </div>
+                      {group === "lookerMetrics" && (
+                        <label className="block text-xs text-gray-600 mt-2">
+                          Metric columns (comma-separated; blank reads every other column)
+                          <input
+                            type="text"
+                            defaultValue={mappings.lookerMetrics.metricColumns.join(", ")}
+                            onBlur={(e) => updateMetricColumns(e.target.value)}
+                            className="mt-1 w-full px-2 py-1 text-sm font-mono border border-gray-300 rounded-md"
+                          />
+                        </label>
+                      )}
+                    </div>
+                  ))}
+                  <button
+                    onClick={saveMappings}
+                    disabled={savingMappings}
+                    className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    {savingMappings ? "Saving..." : "Save Mappings"}
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
         </>
       )}
     </div>
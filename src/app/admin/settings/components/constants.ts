@@ -77,12 +77,17 @@ export const actionConfig: Record<AuditAction, { label: string; color: string }>
   REVIEW_REQUESTED: { label: "Review Requested", color: "#8b5cf6" },
   FLAG_RESOLVED: { label: "Flag Resolved", color: "#22c55e" },
   CLARIFY_USED: { label: "Clarify Used", color: "#0ea5e9" },
+  LOCKED: { label: "Locked", color: "#64748b" },
+  UNLOCKED: { label: "Unlocked", color: "#f97316" },
+  COLLABORATOR_ADDED: { label: "Collaborator Added", color: "#10b981" },
+  COLLABORATOR_REMOVED: { label: "Collaborator Removed", color: "#ef4444" },
 };
 
 export const TABS = [
   { id: "branding", label: "Branding" },
   { id: "integrations", label: "Integrations" },
   { id: "auth-groups", label: "Auth Groups" },
+  { id: "review-routing", label: "Review Routing" },
   { id: "llm-speed", label: "LLM Speed" },
   { id: "rate-limits", label: "Rate Limits" },
   { id: "categories", label: "Categories" },
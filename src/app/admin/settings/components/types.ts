@@ -16,7 +16,9 @@ export type SettingsResponse = {
     salesforce: IntegrationStatus;
     slack: IntegrationStatus;
     anthropic: IntegrationStatus;
+    bedrock?: IntegrationStatus;
     google: IntegrationStatus;
+    snowflake?: IntegrationStatus;
   };
   appSettings: {
     maxFileUploadMb: number;
@@ -103,7 +105,11 @@ export type AuditAction =
   | "APPROVED"
   | "REVIEW_REQUESTED"
   | "FLAG_RESOLVED"
-  | "CLARIFY_USED";
+  | "CLARIFY_USED"
+  | "LOCKED"
+  | "UNLOCKED"
+  | "COLLABORATOR_ADDED"
+  | "COLLABORATOR_REMOVED";
 
 export type AuditLogEntry = {
   id: string;
@@ -12,6 +12,7 @@ import {
   BrandingTab,
   IntegrationsTab,
   AuthGroupsTab,
+  ReviewRoutingTab,
   LLMSpeedTab,
   RateLimitsTab,
   CategoriesTab,
@@ -180,6 +181,7 @@ function AdminSettingsContent() {
             <IntegrationsTab settings={settings} onSave={handleSaveIntegration} />
           )}
           {activeTab === "auth-groups" && <AuthGroupsTab />}
+          {activeTab === "review-routing" && <ReviewRoutingTab />}
           {activeTab === "llm-speed" && <LLMSpeedTab />}
           {activeTab === "rate-limits" && <RateLimitsTab />}
           {activeTab === "categories" && <CategoriesTab />}
@@ -1,18 +1,11 @@
-import { NextRequest } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
-import { apiSuccess, errors } from "@/lib/apiResponse";
+import { apiSuccess, createRoute, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
 
 // GET /api/accuracy/stats - Get AI accuracy statistics from implicit signals
-export async function GET(request: NextRequest) {
+// Org-wide data: requires VIEW_ORG_DATA (see routePermissions.ts)
+export const GET = createRoute({ route: "/api/accuracy/stats" }, async (request) => {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return errors.unauthorized();
-    }
-
     const { searchParams } = new URL(request.url);
     const days = parseInt(searchParams.get("days") || "30", 10);
 
@@ -352,4 +345,4 @@ export async function GET(request: NextRequest) {
     logger.error("Error fetching accuracy stats", error, { route: "/api/accuracy/stats" });
     return errors.internal("Failed to fetch accuracy stats");
   }
-}
+});
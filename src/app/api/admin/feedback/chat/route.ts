@@ -1,24 +1,13 @@
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { prisma } from "@/lib/prisma";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 
 // GET /api/admin/feedback/chat - Get all chat feedback (admin only)
 export async function GET() {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user?.id) {
-      return errors.unauthorized();
-    }
-
-    // Check for admin access
-    const userCapabilities = session.user.capabilities || [];
-    const isAdmin = userCapabilities.includes("ADMIN") ||
-      userCapabilities.includes("MANAGE_PROMPTS") ||
-      (session.user as { role?: string }).role === "ADMIN";
-
-    if (!isAdmin) {
-      return errors.forbidden("Admin access required");
+    const auth = await requireRoutePermission("/api/admin/feedback/chat", "GET");
+    if (!auth.authorized) {
+      return auth.response;
     }
 
     const feedbacks = await prisma.chatFeedback.findMany({
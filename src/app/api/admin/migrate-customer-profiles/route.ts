@@ -1,6 +1,6 @@
 import { NextRequest } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { requireAuth } from "@/lib/apiAuth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
 
@@ -19,7 +19,7 @@ type KeyFact = {
  * This is idempotent - profiles that already have content are skipped.
  */
 export async function POST(request: NextRequest) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/admin/migrate-customer-profiles", "POST");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -131,7 +131,7 @@ function buildContentFromLegacyFields(profile: {
 
 // GET endpoint to check migration status
 export async function GET() {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/admin/migrate-customer-profiles", "GET");
   if (!auth.authorized) {
     return auth.response;
   }
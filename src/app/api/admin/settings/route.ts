@@ -1,10 +1,12 @@
 import { NextRequest } from "next/server";
-import { requireAdmin } from "@/lib/apiAuth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { prisma } from "@/lib/prisma";
 import { createAuditLog, getUserFromSession } from "@/lib/auditLog";
 import { encrypt, isEncryptionConfigured } from "@/lib/encryption";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
+import { loadSalesforceConfig } from "@/lib/salesforce";
+import { loadSnowflakeConfig } from "@/lib/snowflake";
 
 // Settings are stored in a simple key-value table
 // Sensitive values (secrets, tokens, keys) are encrypted at rest using AES-256-GCM
@@ -27,7 +29,9 @@ type SettingsResponse = {
     salesforce: IntegrationStatus;
     slack: IntegrationStatus;
     anthropic: IntegrationStatus;
+    bedrock: IntegrationStatus;
     google: IntegrationStatus;
+    snowflake: IntegrationStatus;
   };
   // Non-sensitive settings that can be displayed
   appSettings: {
@@ -38,7 +42,7 @@ type SettingsResponse = {
 
 // GET /api/admin/settings - Get current settings status (admin only)
 export async function GET() {
-  const auth = await requireAdmin();
+  const auth = await requireRoutePermission("/api/admin/settings", "GET");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -46,12 +50,8 @@ export async function GET() {
   const response: SettingsResponse = {
     integrations: {
       salesforce: {
-        configured: !!(
-          process.env.SALESFORCE_CLIENT_ID &&
-          process.env.SALESFORCE_CLIENT_SECRET &&
-          process.env.SALESFORCE_REFRESH_TOKEN &&
-          process.env.SALESFORCE_INSTANCE_URL
-        ),
+        // Saved settings (Integrations tab) or environment variables
+        configured: !!(await loadSalesforceConfig().catch(() => null)),
       },
       slack: {
         configured: !!process.env.SLACK_WEBHOOK_URL,
@@ -59,9 +59,15 @@ export async function GET() {
       anthropic: {
         configured: !!process.env.ANTHROPIC_API_KEY,
       },
+      bedrock: {
+        configured: !!(process.env.BEDROCK_AWS_REGION || process.env.AWS_REGION),
+      },
       google: {
         configured: !!(process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET),
       },
+      snowflake: {
+        configured: !!(await loadSnowflakeConfig().catch(() => null)),
+      },
     },
     appSettings: {
       maxFileUploadMb: 10,
@@ -75,7 +81,7 @@ export async function GET() {
 // POST /api/admin/settings - Update settings (admin only)
 // Sensitive values are encrypted using AES-256-GCM before storage
 export async function POST(request: NextRequest) {
-  const auth = await requireAdmin();
+  const auth = await requireRoutePermission("/api/admin/settings", "POST");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -100,6 +106,12 @@ export async function POST(request: NextRequest) {
       "OKTA_CLIENT_ID",
       "OKTA_CLIENT_SECRET",
       "OKTA_ISSUER",
+      "SNOWFLAKE_ACCOUNT",
+      "SNOWFLAKE_USER",
+      "SNOWFLAKE_PASSWORD",
+      "SNOWFLAKE_WAREHOUSE",
+      "SNOWFLAKE_DATABASE",
+      "SNOWFLAKE_SCHEMA",
     ];
 
     if (!allowedKeys.includes(key)) {
@@ -159,7 +171,7 @@ export async function POST(request: NextRequest) {
 
 // DELETE /api/admin/settings - Remove a setting (admin only)
 export async function DELETE(request: NextRequest) {
-  const auth = await requireAdmin();
+  const auth = await requireRoutePermission("/api/admin/settings", "DELETE");
   if (!auth.authorized) {
     return auth.response;
   }
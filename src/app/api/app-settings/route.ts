@@ -1,6 +1,6 @@
 import { NextRequest } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { requireAdmin } from "@/lib/apiAuth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { createAuditLog, getUserFromSession } from "@/lib/auditLog";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
@@ -16,7 +16,7 @@ export const DEFAULT_RATE_LIMIT_SETTINGS = {
 
 // GET /api/app-settings - Get all app settings (admin only)
 export async function GET() {
-  const auth = await requireAdmin();
+  const auth = await requireRoutePermission("/api/app-settings", "GET");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -48,7 +48,7 @@ export async function GET() {
 
 // POST /api/app-settings - Update app settings (admin only)
 export async function POST(request: NextRequest) {
-  const auth = await requireAdmin();
+  const auth = await requireRoutePermission("/api/app-settings", "POST");
   if (!auth.authorized) {
     return auth.response;
   }
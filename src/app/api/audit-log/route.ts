@@ -1,13 +1,13 @@
 import { NextRequest } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { requireAuth } from "@/lib/apiAuth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { AuditEntityType, AuditAction } from "@prisma/client";
 import { logger } from "@/lib/logger";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 
 // GET /api/audit-log - Get audit log entries with filtering
 export async function GET(request: NextRequest) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/audit-log", "GET");
   if (!auth.authorized) {
     return auth.response;
   }
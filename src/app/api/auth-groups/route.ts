@@ -1,25 +1,18 @@
 import { NextRequest } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { prisma } from "@/lib/prisma";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
-import { hasCapability } from "@/lib/capabilities";
 import { Capability } from "@prisma/client";
 
 // GET /api/auth-groups - List all auth group mappings
 export async function GET() {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return errors.unauthorized("Authentication required");
+    const auth = await requireRoutePermission("/api/auth-groups", "GET");
+    if (!auth.authorized) {
+      return auth.response;
     }
 
-    // Check for MANAGE_USERS or ADMIN capability
-    const userCapabilities = session.user.capabilities || [];
-    if (!hasCapability(userCapabilities, "MANAGE_USERS")) {
-      return errors.forbidden("MANAGE_USERS capability required");
-    }
 
     const mappings = await prisma.authGroupMapping.findMany({
       orderBy: [{ provider: "asc" }, { groupId: "asc" }],
@@ -35,15 +28,12 @@ export async function GET() {
 // POST /api/auth-groups - Create a new auth group mapping
 export async function POST(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return errors.unauthorized("Authentication required");
+    const auth = await requireRoutePermission("/api/auth-groups", "POST");
+    if (!auth.authorized) {
+      return auth.response;
     }
+    const session = auth.session;
 
-    const userCapabilities = session.user.capabilities || [];
-    if (!hasCapability(userCapabilities, "MANAGE_USERS")) {
-      return errors.forbidden("MANAGE_USERS capability required");
-    }
 
     const body = await request.json();
     const { provider, groupId, groupName, capabilities } = body;
@@ -92,15 +82,12 @@ export async function POST(request: NextRequest) {
 // PUT /api/auth-groups - Update an auth group mapping
 export async function PUT(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return errors.unauthorized("Authentication required");
+    const auth = await requireRoutePermission("/api/auth-groups", "PUT");
+    if (!auth.authorized) {
+      return auth.response;
     }
+    const session = auth.session;
 
-    const userCapabilities = session.user.capabilities || [];
-    if (!hasCapability(userCapabilities, "MANAGE_USERS")) {
-      return errors.forbidden("MANAGE_USERS capability required");
-    }
 
     const body = await request.json();
     const { id, groupName, capabilities, isActive } = body;
@@ -146,15 +133,12 @@ export async function PUT(request: NextRequest) {
 // DELETE /api/auth-groups - Delete an auth group mapping
 export async function DELETE(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return errors.unauthorized("Authentication required");
+    const auth = await requireRoutePermission("/api/auth-groups", "DELETE");
+    if (!auth.authorized) {
+      return auth.response;
     }
+    const session = auth.session;
 
-    const userCapabilities = session.user.capabilities || [];
-    if (!hasCapability(userCapabilities, "MANAGE_USERS")) {
-      return errors.forbidden("MANAGE_USERS capability required");
-    }
 
     const { searchParams } = new URL(request.url);
     const id = searchParams.get("id");
@@ -1,23 +1,19 @@
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { prisma } from "@/lib/prisma";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
-import { hasCapability, defaultGroupMappings } from "@/lib/capabilities";
+import { defaultGroupMappings } from "@/lib/capabilities";
 
 // POST /api/auth-groups/seed - Seed default auth group mappings
 // Only creates mappings that don't already exist
 export async function POST() {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return errors.unauthorized("Authentication required");
+    const auth = await requireRoutePermission("/api/auth-groups/seed", "POST");
+    if (!auth.authorized) {
+      return auth.response;
     }
+    const session = auth.session;
 
-    const userCapabilities = session.user.capabilities || [];
-    if (!hasCapability(userCapabilities, "ADMIN")) {
-      return errors.forbidden("ADMIN capability required");
-    }
 
     // Default provider for seeded mappings (can be configured via env)
     const defaultProvider = process.env.DEFAULT_SSO_PROVIDER || "okta";
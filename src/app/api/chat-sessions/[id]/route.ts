@@ -1,6 +1,5 @@
 import { NextRequest } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { prisma } from "@/lib/prisma";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
@@ -10,8 +9,13 @@ export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRoutePermission("/api/chat-sessions/[id]", "GET");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+  const session = auth.session;
+
   try {
-    const session = await getServerSession(authOptions);
     const userId = session?.user?.id;
 
     const { id } = await params;
@@ -36,8 +40,13 @@ export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRoutePermission("/api/chat-sessions/[id]", "PUT");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+  const session = auth.session;
+
   try {
-    const session = await getServerSession(authOptions);
     const userId = session?.user?.id;
 
     const { id } = await params;
@@ -79,12 +88,11 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await getServerSession(authOptions);
-    const userId = session?.user?.id;
-
-    if (!userId) {
-      return errors.unauthorized();
+    const auth = await requireRoutePermission("/api/chat-sessions/[id]", "DELETE");
+    if (!auth.authorized) {
+      return auth.response;
     }
+    const userId = auth.session.user.id;
 
     const { id } = await params;
 
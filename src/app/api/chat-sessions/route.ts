@@ -1,19 +1,18 @@
 import { NextRequest } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { prisma } from "@/lib/prisma";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
 
 // GET - Fetch chat sessions for the current user
 export async function GET(request: NextRequest) {
-  try {
-    const session = await getServerSession(authOptions);
-    const userId = session?.user?.id;
+  const auth = await requireRoutePermission("/api/chat-sessions", "GET");
+  if (!auth.authorized) {
+    return auth.response;
+  }
 
-    if (!userId) {
-      return apiSuccess({ sessions: [] });
-    }
+  try {
+    const userId = auth.session.user.id;
 
     const searchParams = request.nextUrl.searchParams;
     const limit = parseInt(searchParams.get("limit") || "50", 10);
@@ -50,8 +49,13 @@ export async function GET(request: NextRequest) {
 
 // POST - Create a new chat session
 export async function POST(request: NextRequest) {
+  const auth = await requireRoutePermission("/api/chat-sessions", "POST");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+  const session = auth.session;
+
   try {
-    const session = await getServerSession(authOptions);
     const userId = session?.user?.id;
     const userEmail = session?.user?.email;
 
@@ -88,12 +92,11 @@ export async function POST(request: NextRequest) {
 // DELETE - Clear all chat sessions for current user
 export async function DELETE() {
   try {
-    const session = await getServerSession(authOptions);
-    const userId = session?.user?.id;
-
-    if (!userId) {
-      return errors.unauthorized();
+    const auth = await requireRoutePermission("/api/chat-sessions", "DELETE");
+    if (!auth.authorized) {
+      return auth.response;
     }
+    const userId = auth.session.user.id;
 
     await prisma.chatSession.deleteMany({
       where: { userId },
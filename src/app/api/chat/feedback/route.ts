@@ -1,16 +1,16 @@
 import { NextRequest } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { prisma } from "@/lib/prisma";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 
 // POST /api/chat/feedback - Save feedback for a chat message
 export async function POST(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user?.id) {
-      return errors.unauthorized();
+    const auth = await requireRoutePermission("/api/chat/feedback", "POST");
+    if (!auth.authorized) {
+      return auth.response;
     }
+    const session = auth.session;
 
     const body = await request.json();
     const {
@@ -78,10 +78,11 @@ export async function POST(request: NextRequest) {
 // GET /api/chat/feedback - Get feedback for a session or message
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user?.id) {
-      return errors.unauthorized();
+    const auth = await requireRoutePermission("/api/chat/feedback", "GET");
+    if (!auth.authorized) {
+      return auth.response;
     }
+    const session = auth.session;
 
     const { searchParams } = new URL(request.url);
     const sessionId = searchParams.get("sessionId");
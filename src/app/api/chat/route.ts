@@ -10,12 +10,12 @@
 import { NextRequest } from 'next/server';
 import { getModel, getEffectiveSpeed } from '@/lib/config';
 import { simpleChatSchema, validateBody } from '@/lib/validations';
-import { getAnthropicClient } from '@/lib/apiHelpers';
-import { requireAuth } from '@/lib/apiAuth';
+import { getLLMClient } from '@/lib/llmProvider';
+import { requireRoutePermission } from '@/lib/routePermissions';
 import { checkRateLimit, getRateLimitIdentifier } from '@/lib/rateLimit';
 import { apiSuccess, errors } from '@/lib/apiResponse';
 import { logger } from '@/lib/logger';
-import Anthropic from '@anthropic-ai/sdk';
+import type Anthropic from '@anthropic-ai/sdk';
 
 export const maxDuration = 60;
 
@@ -48,7 +48,7 @@ export const maxDuration = 60;
  */
 export async function POST(req: NextRequest) {
   // Require authentication - this route gives access to Claude API
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission('/api/chat', 'POST');
   if (!auth.authorized) {
     return auth.response;
   }
@@ -70,7 +70,7 @@ export async function POST(req: NextRequest) {
 
     const { messages, systemPrompt, quickMode } = validation.data;
 
-    const anthropic = getAnthropicClient();
+    const anthropic = await getLLMClient();
 
     // Determine model speed (request override > user preference > system default)
     const speed = getEffectiveSpeed("chat", quickMode);
@@ -1,5 +1,5 @@
 import { NextRequest } from "next/server";
-import { requireAuth } from "@/lib/apiAuth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
 import { prisma } from "@/lib/prisma";
@@ -42,7 +42,7 @@ const updateCollateralSchema = z.object({
  * GET /api/collateral/output/[id] - Get a specific collateral output
  */
 export async function GET(request: NextRequest, context: RouteContext) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/collateral/output/[id]", "GET");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -77,7 +77,7 @@ export async function GET(request: NextRequest, context: RouteContext) {
  * PATCH /api/collateral/output/[id] - Update a collateral output
  */
 export async function PATCH(request: NextRequest, context: RouteContext) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/collateral/output/[id]", "PATCH");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -212,7 +212,7 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
  * DELETE /api/collateral/output/[id] - Delete a collateral output
  */
 export async function DELETE(request: NextRequest, context: RouteContext) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/collateral/output/[id]", "DELETE");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -1,5 +1,5 @@
 import { NextRequest } from "next/server";
-import { requireAuth } from "@/lib/apiAuth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
 import { prisma } from "@/lib/prisma";
@@ -37,7 +37,7 @@ const createCollateralSchema = z.object({
  * GET /api/collateral/output - List user's collateral outputs
  */
 export async function GET(request: NextRequest) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/collateral/output", "GET");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -91,7 +91,7 @@ export async function GET(request: NextRequest) {
  * POST /api/collateral/output - Create a new collateral output
  */
 export async function POST(request: NextRequest) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/collateral/output", "POST");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -1,6 +1,7 @@
 import { NextRequest } from "next/server";
-import Anthropic from "@anthropic-ai/sdk";
-import { requireAuth } from "@/lib/apiAuth";
+import type Anthropic from "@anthropic-ai/sdk";
+import { getLLMClient } from "@/lib/llmProvider";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
 import { getModel } from "@/lib/config";
@@ -218,7 +219,7 @@ function parseKeyValueLines(content: string, data: Record<string, string>): void
 
 // GET - Fetch the system prompt for transparency
 export async function GET() {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/collateral/plan", "GET");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -257,7 +258,7 @@ export async function GET() {
 }
 
 export async function POST(request: NextRequest) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/collateral/plan", "POST");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -302,7 +303,7 @@ ${contextStr}`;
       { role: "user" as const, content: message },
     ];
 
-    const anthropic = new Anthropic();
+    const anthropic = await getLLMClient();
     const model = getModel("quality"); // Use quality model for better planning
 
     // Use higher token limit when filling templates with many placeholders
@@ -0,0 +1,133 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireRoutePermission } from "@/lib/routePermissions";
+import { updateCommentSchema, validateBody } from "@/lib/validations";
+import { apiSuccess, errors } from "@/lib/apiResponse";
+import { logger } from "@/lib/logger";
+import { getCommentTarget, loadCommentTarget, toComment } from "@/lib/comments";
+import { extractMentionIds } from "@/lib/commentMentions";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * PATCH /api/comments/[id] - Edit a comment or resolve/reopen its thread
+ *
+ * @description Only the author edits a comment. Threads are resolved on their
+ * root comment by the thread's author or a moderator (reviewers of the
+ * project, the question's asker, the collateral's owner). Editing doesn't
+ * notify newly mentioned users.
+ *
+ * @authentication Required (access to the target)
+ * @body {{ content?: string, resolved?: boolean }}
+ * @returns {{ comment: Comment }} 200
+ * @returns 400 if resolving a reply
+ * @returns 403 if the user can't make the change
+ * @returns 404 if the comment doesn't exist
+ */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const auth = await requireRoutePermission("/api/comments/[id]", "PATCH");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  try {
+    const { id } = await context.params;
+    const validation = validateBody(updateCommentSchema, await request.json());
+    if (!validation.success) {
+      return errors.validation(validation.error);
+    }
+    const { content, resolved } = validation.data;
+
+    const existing = await prisma.comment.findUnique({ where: { id } });
+    const targetRef = existing && getCommentTarget(existing);
+    if (!existing || !targetRef) {
+      return errors.notFound("Comment");
+    }
+    const result = await loadCommentTarget(targetRef.type, targetRef.id, auth.session.user);
+    if (!result.allowed) {
+      return result.response;
+    }
+
+    const isAuthor = existing.authorId === auth.session.user.id;
+    if (content !== undefined && !isAuthor) {
+      return errors.forbidden("Only the author can edit a comment");
+    }
+    if (resolved !== undefined) {
+      if (existing.parentId) {
+        return errors.badRequest("Resolve the thread from its first comment");
+      }
+      if (!isAuthor && !result.target.canModerate) {
+        return errors.forbidden("You can't resolve this thread");
+      }
+    }
+
+    const mentionIds = content !== undefined ? extractMentionIds(content) : [];
+    const mentioned = mentionIds.length > 0
+      ? await prisma.user.findMany({ where: { id: { in: mentionIds } }, select: { id: true } })
+      : [];
+    const userName = auth.session.user.name || auth.session.user.email || "Unknown";
+    const comment = await prisma.comment.update({
+      where: { id },
+      data: {
+        ...(content !== undefined && { content, mentions: mentioned.map((u) => u.id) }),
+        ...(resolved !== undefined && {
+          resolved,
+          resolvedAt: resolved ? new Date() : null,
+          resolvedBy: resolved ? userName : null,
+        }),
+      },
+    });
+
+    return apiSuccess({
+      comment: {
+        ...toComment(comment, auth.session.user.id),
+        resolved: comment.resolved,
+        resolvedAt: comment.resolvedAt?.toISOString(),
+        resolvedBy: comment.resolvedBy ?? undefined,
+      },
+    });
+  } catch (error) {
+    logger.error("Error updating comment", error, { route: "/api/comments/[id]" });
+    return errors.internal("Failed to update comment");
+  }
+}
+
+/**
+ * DELETE /api/comments/[id] - Delete a comment (and its replies, for a thread root)
+ *
+ * @authentication Required (the author or a moderator of the target)
+ * @returns {{ deleted: true }} 200
+ * @returns 403 if the user can't delete the comment
+ * @returns 404 if the comment doesn't exist
+ */
+export async function DELETE(_request: NextRequest, context: RouteContext) {
+  const auth = await requireRoutePermission("/api/comments/[id]", "DELETE");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  try {
+    const { id } = await context.params;
+    const existing = await prisma.comment.findUnique({ where: { id } });
+    const targetRef = existing && getCommentTarget(existing);
+    if (!existing || !targetRef) {
+      return errors.notFound("Comment");
+    }
+    const result = await loadCommentTarget(targetRef.type, targetRef.id, auth.session.user);
+    if (!result.allowed) {
+      return result.response;
+    }
+    if (existing.authorId !== auth.session.user.id && !result.target.canModerate) {
+      return errors.forbidden("Only the author or a moderator can delete this comment");
+    }
+
+    await prisma.comment.delete({ where: { id } });
+
+    return apiSuccess({ deleted: true });
+  } catch (error) {
+    logger.error("Error deleting comment", error, { route: "/api/comments/[id]" });
+    return errors.internal("Failed to delete comment");
+  }
+}
@@ -0,0 +1,175 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireRoutePermission } from "@/lib/routePermissions";
+import { createCommentSchema, validateBody } from "@/lib/validations";
+import { apiSuccess, errors } from "@/lib/apiResponse";
+import { logger } from "@/lib/logger";
+import { buildThreads, filterUsersWithTargetAccess, loadCommentTarget, markCommentsRead, toComment } from "@/lib/comments";
+import { extractMentionIds, toPlainText } from "@/lib/commentMentions";
+import { notifyUsers } from "@/lib/notifications";
+import { sendSlackNotification, toAppUrl } from "@/lib/slackNotify";
+import type { CommentTargetType } from "@/types/comment";
+
+const TARGET_TYPES: CommentTargetType[] = ["row", "question", "collateral"];
+
+/**
+ * GET /api/comments - Comment threads on a project row, quick question or collateral output
+ *
+ * @description Opening the threads marks every comment on the target as read
+ * by the current user.
+ *
+ * @authentication Required (access to the target)
+ * @query {string} targetType - row | question | collateral
+ * @query {string} targetId - ID of the row, question or collateral output
+ * @returns {{ threads: CommentThread[], canModerate: boolean }} 200
+ * @returns 400 if the target is missing or unknown
+ * @returns 404 if the target doesn't exist
+ */
+export async function GET(request: NextRequest) {
+  const auth = await requireRoutePermission("/api/comments", "GET");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const targetType = searchParams.get("targetType") as CommentTargetType | null;
+    const targetId = searchParams.get("targetId");
+    if (!targetType || !TARGET_TYPES.includes(targetType) || !targetId) {
+      return errors.badRequest("targetType (row, question or collateral) and targetId are required");
+    }
+
+    const result = await loadCommentTarget(targetType, targetId, auth.session.user);
+    if (!result.allowed) {
+      return result.response;
+    }
+    const { target } = result;
+
+    const comments = await prisma.comment.findMany({
+      where: target.key,
+      orderBy: { createdAt: "asc" },
+    });
+    // Unread flags are computed before the comments are marked read
+    const threads = buildThreads(comments, auth.session.user.id);
+    await markCommentsRead(target, auth.session.user.id);
+
+    return apiSuccess({ threads, canModerate: target.canModerate });
+  } catch (error) {
+    logger.error("Error fetching comments", error, { route: "/api/comments" });
+    return errors.internal("Failed to fetch comments");
+  }
+}
+
+/**
+ * POST /api/comments - Start a thread or reply to one
+ *
+ * @description Mentions are written as @[Name](userId). Mentioned users that
+ * exist are stored on the comment; those who can see the target are notified
+ * in the app and announced in Slack, the rest are returned as notNotified.
+ *
+ * @authentication Required (access to the target)
+ * @body {{ targetType: "row" | "question" | "collateral", targetId: string, content: string, parentId?: string }}
+ * @returns {{ comment: Comment, mentioned: { id, name }[], notNotified: { id, name }[], slackSent: boolean }} 201
+ * @returns 404 if the target doesn't exist, or parentId isn't a thread on it
+ */
+export async function POST(request: NextRequest) {
+  const auth = await requireRoutePermission("/api/comments", "POST");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  try {
+    const validation = validateBody(createCommentSchema, await request.json());
+    if (!validation.success) {
+      return errors.validation(validation.error);
+    }
+    const data = validation.data;
+
+    const result = await loadCommentTarget(data.targetType, data.targetId, auth.session.user);
+    if (!result.allowed) {
+      return result.response;
+    }
+    const { target } = result;
+
+    // Replies go to a root comment on the same target
+    if (data.parentId) {
+      const parent = await prisma.comment.findFirst({ where: { id: data.parentId, parentId: null, ...target.key } });
+      if (!parent) {
+        return errors.notFound("Thread");
+      }
+    }
+
+    // Only mentions of real users are kept and notified
+    const mentionIds = extractMentionIds(data.content).filter((id) => id !== auth.session.user.id);
+    const mentioned = mentionIds.length > 0
+      ? await prisma.user.findMany({
+          where: { id: { in: mentionIds } },
+          select: { id: true, name: true, email: true, role: true, capabilities: true },
+        })
+      : [];
+    // Mentioning someone doesn't share the target with them
+    const notified = await filterUsersWithTargetAccess(target, mentioned);
+    const notNotified = mentioned.filter((u) => !notified.includes(u));
+
+    const comment = await prisma.comment.create({
+      data: {
+        ...target.key,
+        parentId: data.parentId,
+        content: data.content,
+        mentions: mentioned.map((u) => u.id),
+        authorId: auth.session.user.id,
+        authorName: auth.session.user.name,
+        authorEmail: auth.session.user.email,
+        readBy: [auth.session.user.id],
+      },
+    });
+
+    // Replying reopens a resolved thread
+    if (data.parentId) {
+      await prisma.comment.updateMany({
+        where: { id: data.parentId, resolved: true },
+        data: { resolved: false, resolvedAt: null, resolvedBy: null },
+      });
+    }
+
+    const authorName = auth.session.user.name || auth.session.user.email || "Someone";
+    await notifyUsers(notified.map((u) => u.id), {
+      type: "COMMENT_MENTION",
+      title: `${authorName} mentioned you on ${target.title}`,
+      body: toPlainText(data.content),
+      link: target.path,
+      actorName: authorName,
+    });
+
+    let slackSent = false;
+    if (notified.length > 0) {
+      try {
+        const result = await sendSlackNotification({
+          type: "mention",
+          projectName: target.title,
+          projectUrl: toAppUrl(target.path, request.url),
+          requesterName: authorName,
+          mentionedNames: notified.map((u) => u.name || u.email || "Unknown user"),
+          comment: toPlainText(data.content),
+          subject: target.type === "collateral" ? undefined : target.label,
+        });
+        slackSent = result === "sent";
+      } catch (slackError) {
+        logger.warn("Slack mention notification failed", slackError);
+      }
+    }
+
+    return apiSuccess(
+      {
+        comment: toComment(comment, auth.session.user.id),
+        mentioned: notified.map((u) => ({ id: u.id, name: u.name || u.email || "Unknown user" })),
+        notNotified: notNotified.map((u) => ({ id: u.id, name: u.name || u.email || "Unknown user" })),
+        slackSent,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    logger.error("Error creating comment", error, { route: "/api/comments" });
+    return errors.internal("Failed to create comment");
+  }
+}
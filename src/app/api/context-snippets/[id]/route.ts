@@ -1,6 +1,6 @@
 import { NextRequest } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { requireAuth } from "@/lib/apiAuth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { updateContextSnippetSchema, validateBody } from "@/lib/validations";
 import { logContextSnippetChange, getUserFromSession, computeChanges } from "@/lib/auditLog";
 import { apiSuccess, errors } from "@/lib/apiResponse";
@@ -12,7 +12,7 @@ type RouteContext = {
 
 // GET /api/context-snippets/[id] - Get a single context snippet
 export async function GET(request: NextRequest, context: RouteContext) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/context-snippets/[id]", "GET");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -37,7 +37,7 @@ export async function GET(request: NextRequest, context: RouteContext) {
 
 // PUT /api/context-snippets/[id] - Update a context snippet
 export async function PUT(request: NextRequest, context: RouteContext) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/context-snippets/[id]", "PUT");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -106,7 +106,7 @@ export async function PUT(request: NextRequest, context: RouteContext) {
 
 // DELETE /api/context-snippets/[id] - Delete a context snippet
 export async function DELETE(request: NextRequest, context: RouteContext) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/context-snippets/[id]", "DELETE");
   if (!auth.authorized) {
     return auth.response;
   }
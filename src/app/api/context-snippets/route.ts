@@ -10,7 +10,7 @@ import {
 
 // GET /api/context-snippets - List all context snippets
 export const GET = createRoute(
-  { auth: "authenticated", rateLimit: "read" },
+  { route: "/api/context-snippets", rateLimit: "read" },
   async (request) => {
     const { searchParams } = new URL(request.url);
     const category = searchParams.get("category");
@@ -30,7 +30,7 @@ export const GET = createRoute(
 
 // POST /api/context-snippets - Create a new context snippet
 export const POST = createRoute(
-  { auth: "authenticated", rateLimit: "standard" },
+  { route: "/api/context-snippets", rateLimit: "standard" },
   async (request, context) => {
     const parsed = await parseAndValidate(request, createContextSnippetSchema);
     if (!parsed.success) {
@@ -1,6 +1,6 @@
 import { NextRequest } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { requireAuth } from "@/lib/apiAuth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
 
@@ -10,7 +10,7 @@ interface RouteContext {
 
 // GET /api/customers/[id]/documents/[docId] - Get a single document with content
 export async function GET(request: NextRequest, context: RouteContext) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/customers/[id]/documents/[docId]", "GET");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -39,7 +39,7 @@ export async function GET(request: NextRequest, context: RouteContext) {
 
 // PUT /api/customers/[id]/documents/[docId] - Update document metadata
 export async function PUT(request: NextRequest, context: RouteContext) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/customers/[id]/documents/[docId]", "PUT");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -92,7 +92,7 @@ export async function PUT(request: NextRequest, context: RouteContext) {
 
 // DELETE /api/customers/[id]/documents/[docId] - Delete a document
 export async function DELETE(request: NextRequest, context: RouteContext) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/customers/[id]/documents/[docId]", "DELETE");
   if (!auth.authorized) {
     return auth.response;
   }
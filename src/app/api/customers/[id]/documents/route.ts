@@ -1,7 +1,7 @@
 import { NextRequest } from "next/server";
 import { prisma } from "@/lib/prisma";
 import * as mammoth from "mammoth";
-import { requireAuth } from "@/lib/apiAuth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
 
@@ -13,7 +13,7 @@ interface RouteContext {
 
 // GET /api/customers/[id]/documents - List documents for a customer
 export async function GET(request: NextRequest, context: RouteContext) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/customers/[id]/documents", "GET");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -69,7 +69,7 @@ export async function GET(request: NextRequest, context: RouteContext) {
 
 // POST /api/customers/[id]/documents - Upload a document for a customer
 export async function POST(request: NextRequest, context: RouteContext) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/customers/[id]/documents", "POST");
   if (!auth.authorized) {
     return auth.response;
   }
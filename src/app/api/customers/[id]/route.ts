@@ -1,7 +1,7 @@
 import { NextRequest } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { CustomerProfileHistoryEntry } from "@/types/customerProfile";
-import { requireAuth } from "@/lib/apiAuth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { updateCustomerSchema, validateBody } from "@/lib/validations";
 import { logCustomerChange, getUserFromSession, computeChanges } from "@/lib/auditLog";
 import { apiSuccess, errors } from "@/lib/apiResponse";
@@ -13,6 +13,11 @@ interface RouteContext {
 
 // GET /api/customers/[id] - Get single customer profile
 export async function GET(request: NextRequest, context: RouteContext) {
+  const auth = await requireRoutePermission("/api/customers/[id]", "GET");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
   try {
     const params = await context.params;
     const { id } = params;
@@ -50,7 +55,7 @@ export async function GET(request: NextRequest, context: RouteContext) {
 
 // PUT /api/customers/[id] - Update customer profile
 export async function PUT(request: NextRequest, context: RouteContext) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/customers/[id]", "PUT");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -147,7 +152,7 @@ export async function PUT(request: NextRequest, context: RouteContext) {
 
 // DELETE /api/customers/[id] - Delete customer profile
 export async function DELETE(request: NextRequest, context: RouteContext) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/customers/[id]", "DELETE");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -0,0 +1,60 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireRoutePermission } from "@/lib/routePermissions";
+import { apiSuccess, errors } from "@/lib/apiResponse";
+import { getUserFromSession } from "@/lib/auditLog";
+import { logger } from "@/lib/logger";
+import { createSalesforceClient, loadSalesforceConfig, syncCustomerFromSalesforce } from "@/lib/salesforce";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * POST /api/customers/[id]/salesforce-sync - Re-sync static fields from Salesforce
+ *
+ * @description Refreshes region, tier, employee count, revenue, account type and
+ * billing location from the linked Salesforce Account and records
+ * lastSalesforceSync. Profiles are also re-synced on a schedule.
+ *
+ * @authentication Required - MANAGE_KNOWLEDGE capability
+ * @returns {{ profile: CustomerProfile }} 200
+ * @returns 400 if the profile isn't linked to a Salesforce Account
+ * @returns 501 if Salesforce is not configured
+ */
+export async function POST(_request: NextRequest, context: RouteContext) {
+  const auth = await requireRoutePermission("/api/customers/[id]/salesforce-sync", "POST");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  const { id } = await context.params;
+
+  try {
+    const existing = await prisma.customerProfile.findUnique({
+      where: { id },
+      select: { salesforceId: true },
+    });
+    if (!existing) {
+      return errors.notFound("Customer profile");
+    }
+    if (!existing.salesforceId) {
+      return errors.badRequest("Customer is not linked to a Salesforce account");
+    }
+
+    const config = await loadSalesforceConfig();
+    if (!config) {
+      return errors.notImplemented("Salesforce is not configured");
+    }
+
+    const profile = await syncCustomerFromSalesforce(
+      id,
+      createSalesforceClient(config),
+      getUserFromSession(auth.session)
+    );
+    return apiSuccess({ profile });
+  } catch (error) {
+    logger.error("Salesforce sync failed", error, { route: "/api/customers/[id]/salesforce-sync", customerId: id });
+    return errors.badGateway(error instanceof Error ? error.message : "Salesforce sync failed");
+  }
+}
@@ -1,8 +1,10 @@
 import { NextRequest } from "next/server";
 import { getModel, getEffectiveSpeed } from "@/lib/config";
 import { prisma } from "@/lib/prisma";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { validateUrlForSSRF } from "@/lib/ssrfProtection";
-import { getAnthropicClient, parseJsonResponse } from "@/lib/apiHelpers";
+import { parseJsonResponse } from "@/lib/apiHelpers";
+import { getLLMClient } from "@/lib/llmProvider";
 import { loadSystemPrompt } from "@/lib/loadSystemPrompt";
 import { checkRateLimit, getRateLimitIdentifier } from "@/lib/rateLimit";
 import { apiSuccess, errors } from "@/lib/apiResponse";
@@ -52,6 +54,11 @@ type AnalyzeResponse = {
 };
 
 export async function POST(request: NextRequest) {
+  const auth = await requireRoutePermission("/api/customers/analyze", "POST");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
   // Rate limit - LLM routes are expensive
   const identifier = await getRateLimitIdentifier(request);
   const rateLimit = await checkRateLimit(identifier, "llm");
@@ -229,7 +236,7 @@ async function analyzeContent(
   existingProfiles: ExistingProfileInfo[],
   documentNames: string[] = []
 ): Promise<AnalyzeResponse> {
-  const anthropic = getAnthropicClient();
+  const anthropic = await getLLMClient();
 
   const profilesSummary =
     existingProfiles.length > 0
@@ -0,0 +1,58 @@
+import { NextRequest } from "next/server";
+import { requireRoutePermission } from "@/lib/routePermissions";
+import { apiSuccess, errors } from "@/lib/apiResponse";
+import { logger } from "@/lib/logger";
+import { createSalesforceClient, loadSalesforceConfig, mapAccountToEnrichment } from "@/lib/salesforce";
+
+/**
+ * GET /api/customers/enrich-from-salesforce - Search or fetch Salesforce Accounts
+ *
+ * @description With `search`, returns matching Accounts by name. With
+ * `accountId`, returns the Account mapped to customer profile fields
+ * (overview, key facts and the static Salesforce fields).
+ *
+ * @authentication Required
+ * @query {string} [search] - Account name (at least 2 characters)
+ * @query {string} [accountId] - Salesforce Account ID
+ * @returns {{ results: SalesforceSearchResult[] }} 200
+ * @returns {{ enrichment: SalesforceEnrichment }} 200
+ * @returns 501 if Salesforce is not configured
+ */
+export async function GET(request: NextRequest) {
+  const auth = await requireRoutePermission("/api/customers/enrich-from-salesforce", "GET");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  const { searchParams } = new URL(request.url);
+  const search = searchParams.get("search")?.trim();
+  const accountId = searchParams.get("accountId")?.trim();
+
+  try {
+    const config = await loadSalesforceConfig();
+    if (!config) {
+      return errors.notImplemented("Salesforce is not configured. Add the SALESFORCE_* settings in Admin → Settings → Integrations.");
+    }
+    const client = createSalesforceClient(config);
+
+    if (accountId) {
+      if (!/^[a-zA-Z0-9]{15,18}$/.test(accountId)) {
+        return errors.badRequest("Invalid Salesforce account ID");
+      }
+      const account = await client.getAccount(accountId);
+      return apiSuccess({ enrichment: mapAccountToEnrichment(account) });
+    }
+
+    if (!search || search.length < 2) {
+      return errors.badRequest("search must be at least 2 characters, or pass accountId");
+    }
+    const results = await client.searchAccounts(search, Number(searchParams.get("limit")) || 10);
+    return apiSuccess({ results });
+  } catch (error) {
+    logger.error("Salesforce enrichment failed", error, {
+      route: "/api/customers/enrich-from-salesforce",
+      accountId,
+    });
+    return errors.badGateway(error instanceof Error ? error.message : "Salesforce request failed");
+  }
+}
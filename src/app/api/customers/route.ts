@@ -10,7 +10,7 @@
 
 import { NextRequest } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { requireAuth } from "@/lib/apiAuth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { createCustomerSchema, validateBody } from "@/lib/validations";
 import { logCustomerChange, getUserFromSession } from "@/lib/auditLog";
 import { apiSuccess, errors } from "@/lib/apiResponse";
@@ -38,7 +38,7 @@ import { logger } from "@/lib/logger";
  * GET /api/customers?active=true&industry=Healthcare&limit=20
  */
 export async function GET(request: NextRequest) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/customers", "GET");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -96,7 +96,7 @@ export async function GET(request: NextRequest) {
  * @description Creates a new customer profile in the database.
  * Customer profiles store key information about clients/prospects.
  *
- * @authentication Required - returns 401 if not authenticated
+ * @authentication Required - MANAGE_KNOWLEDGE capability
  *
  * @body {string} name - Customer/company name (required)
  * @body {string} overview - Summary of the customer (required)
@@ -117,7 +117,7 @@ export async function GET(request: NextRequest) {
  * { "name": "Acme Corp", "overview": "Enterprise software company..." }
  */
 export async function POST(request: NextRequest) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/customers", "POST");
   if (!auth.authorized) {
     return auth.response;
   }
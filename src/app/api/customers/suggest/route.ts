@@ -1,11 +1,11 @@
 import { NextRequest } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { getModel, getEffectiveSpeed } from "@/lib/config";
 import { CustomerProfileDraft } from "@/types/customerProfile";
 import { logUsage } from "@/lib/usageTracking";
 import { loadSystemPrompt } from "@/lib/loadSystemPrompt";
-import { getAnthropicClient, parseJsonResponse, fetchUrlContent } from "@/lib/apiHelpers";
+import { parseJsonResponse, fetchUrlContent } from "@/lib/apiHelpers";
+import { getLLMClient } from "@/lib/llmProvider";
 import { checkRateLimit, getRateLimitIdentifier } from "@/lib/rateLimit";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
@@ -26,6 +26,12 @@ type SuggestRequestBody = {
 };
 
 export async function POST(request: NextRequest) {
+  const auth = await requireRoutePermission("/api/customers/suggest", "POST");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+  const authSession = auth.session;
+
   // Rate limit check - LLM tier for expensive AI calls
   const identifier = await getRateLimitIdentifier(request);
   const rateLimitResult = await checkRateLimit(identifier, "llm");
@@ -52,7 +58,6 @@ export async function POST(request: NextRequest) {
   }
 
   try {
-    const authSession = await getServerSession(authOptions);
     const sourceContent = await buildSourceMaterial(sourceUrls, documentContent);
 
     // Load prompt from database (block system) or use default
@@ -105,7 +110,7 @@ async function generateProfileDraft(
   documentNames: string[] = [],
   authSession: { user?: { id?: string; email?: string | null } } | null = null
 ): Promise<GenerateResult> {
-  const anthropic = getAnthropicClient();
+  const anthropic = await getLLMClient();
 
   // Build source info
   const sourceInfo = [];
@@ -183,7 +188,7 @@ async function generateProfileUpdate(
   hasChanges: boolean;
   changeHighlights: string[];
 }> {
-  const anthropic = getAnthropicClient();
+  const anthropic = await getLLMClient();
 
   // Use content field if available, otherwise build from legacy fields
   const existingContent = existingProfile.content || [
@@ -1,6 +1,6 @@
 import { NextRequest } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { requireAuth } from "@/lib/apiAuth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { logDocumentChange, getUserFromSession, computeChanges } from "@/lib/auditLog";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
@@ -10,6 +10,11 @@ export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRoutePermission("/api/documents/[id]", "GET");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
   try {
     const { id } = await params;
 
@@ -33,7 +38,7 @@ export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/documents/[id]", "DELETE");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -73,7 +78,7 @@ export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/documents/[id]", "PATCH");
   if (!auth.authorized) {
     return auth.response;
   }
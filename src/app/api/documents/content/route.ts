@@ -1,12 +1,12 @@
 import { prisma } from "@/lib/prisma";
-import { requireAuth } from "@/lib/apiAuth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
 
 // GET - Get all documents with content (for LLM context)
 // Requires authentication: exposes full document content
 export async function GET() {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/documents/content", "GET");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -1,18 +1,19 @@
 import { NextRequest } from "next/server";
 import { prisma } from "@/lib/prisma";
 import * as mammoth from "mammoth";
-import { requireAuth } from "@/lib/apiAuth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { logDocumentChange, getUserFromSession } from "@/lib/auditLog";
-import { getAnthropicClient } from "@/lib/apiHelpers";
+import { getLLMClient } from "@/lib/llmProvider";
 import { CLAUDE_MODEL } from "@/lib/config";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
+import { extractPdfWithClaude } from "@/lib/pdfText";
 
 export const maxDuration = 60;
 
 // GET - List all documents
 export async function GET(request: NextRequest) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/documents", "GET");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -54,7 +55,7 @@ export async function GET(request: NextRequest) {
 
 // POST - Upload a new document
 export async function POST(request: NextRequest) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/documents", "POST");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -188,59 +189,6 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// Extract text from PDF using Claude's native document support
-async function extractPdfWithClaude(buffer: Buffer): Promise<string> {
-  const anthropic = getAnthropicClient();
-
-  const base64Data = buffer.toString("base64");
-
-  const response = await anthropic.messages.create({
-    model: CLAUDE_MODEL,
-    max_tokens: 16000,
-    messages: [
-      {
-        role: "user",
-        content: [
-          {
-            type: "document",
-            source: {
-              type: "base64",
-              media_type: "application/pdf",
-              data: base64Data,
-            },
-          },
-          {
-            type: "text",
-            text: `Extract ALL text content from this PDF document.
-
-IMPORTANT RULES:
-1. Extract the complete text content, preserving the document structure
-2. Include headers, paragraphs, bullet points, tables, and any other text
-3. Preserve the logical reading order
-4. For tables, format them clearly with columns separated by | characters
-5. Do NOT summarize or interpret - extract the actual text verbatim
-6. Do NOT add any commentary or explanations
-7. If there are multiple pages, extract all pages
-
-Return ONLY the extracted text content, nothing else.`,
-          },
-        ],
-      },
-    ],
-  });
-
-  const textContent = response.content[0];
-  if (textContent.type !== "text") {
-    throw new Error("Unexpected response format from Claude");
-  }
-
-  if (!textContent.text || textContent.text.trim().length === 0) {
-    throw new Error("PDF appears to be image-based or contains no extractable text");
-  }
-
-  return textContent.text;
-}
-
 // Sanitize extracted text to remove problematic characters
 function sanitizeExtractedText(text: string): string {
   return text
@@ -319,7 +267,7 @@ async function extractTextContent(buffer: Buffer, fileType: string): Promise<str
 
 // Generate a markdown template from document content using LLM
 async function generateMarkdownTemplate(content: string, title: string): Promise<string> {
-  const anthropic = getAnthropicClient();
+  const anthropic = await getLLMClient();
 
   const systemPrompt = `You are a template builder. Your job is to convert a document (like a presentation deck or report) into a reusable markdown template.
 
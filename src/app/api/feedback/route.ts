@@ -1,7 +1,6 @@
 import { NextRequest } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { z } from "zod";
 import { logger } from "@/lib/logger";
 import { apiSuccess, errors } from "@/lib/apiResponse";
@@ -28,8 +27,13 @@ const feedbackSchema = z.object({
 
 // POST /api/feedback - Submit feedback on an AI response
 export async function POST(request: NextRequest) {
+  const auth = await requireRoutePermission("/api/feedback", "POST");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+  const session = auth.session;
+
   try {
-    const session = await getServerSession(authOptions);
     const body = await request.json();
 
     const result = feedbackSchema.safeParse(body);
@@ -70,9 +74,9 @@ export async function POST(request: NextRequest) {
 // GET /api/feedback - Get feedback history (for admin)
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return errors.unauthorized();
+    const auth = await requireRoutePermission("/api/feedback", "GET");
+    if (!auth.authorized) {
+      return auth.response;
     }
 
     const { searchParams } = new URL(request.url);
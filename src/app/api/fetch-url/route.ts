@@ -1,4 +1,5 @@
 import { NextRequest } from "next/server";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { validateUrlForSSRF } from "@/lib/ssrfProtection";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
@@ -15,6 +16,11 @@ type FetchUrlRequest = {
  * Protected against SSRF attacks.
  */
 export async function POST(request: NextRequest) {
+  const auth = await requireRoutePermission("/api/fetch-url", "POST");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
   let body: FetchUrlRequest;
   try {
     body = await request.json();
@@ -0,0 +1,105 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireRoutePermission } from "@/lib/routePermissions";
+import { googleSlidesFillSchema, validateBody } from "@/lib/validations";
+import { apiSuccess, errors } from "@/lib/apiResponse";
+import { logger } from "@/lib/logger";
+import {
+  REAUTH_MESSAGE,
+  createSlidesClient,
+  extractSlidePlaceholders,
+  fillPresentation,
+  getGoogleAccessToken,
+  resolveSlidePlaceholders,
+} from "@/lib/googleSlides";
+import type { TemplateFillContext } from "@/types/template";
+
+/**
+ * POST /api/google/slides/fill - Fill a Google Slides deck
+ *
+ * @description Copies the presentation (unless copyFirst is false) and replaces
+ * every {{placeholder}} with its value in one batch update. Explicit
+ * replacements win; remaining placeholders are resolved from `context` with the
+ * template engine. With collateralOutputId, the filled deck is recorded on that
+ * collateral output.
+ *
+ * @authentication Required (Google sign-in with Slides/Drive scopes)
+ * @body {{ presentationId: string, replacements?: { placeholder: string, value: string }[], context?: TemplateFillContext, copyFirst?: boolean, copyTitle?: string, collateralOutputId?: string }}
+ * @returns {{ presentationId: string, webViewLink: string, replacementCount: number, copied: boolean }} 200
+ * @returns 400 if there is nothing to replace
+ * @returns 403 if the user has no usable Google access token
+ */
+export async function POST(request: NextRequest) {
+  const auth = await requireRoutePermission("/api/google/slides/fill", "POST");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return errors.badRequest("Invalid JSON body");
+  }
+
+  const validation = validateBody(googleSlidesFillSchema, body);
+  if (!validation.success) {
+    return errors.validation(validation.error);
+  }
+  const { presentationId, context, copyFirst, copyTitle, collateralOutputId } = validation.data;
+
+  if (collateralOutputId) {
+    const output = await prisma.collateralOutput.findUnique({
+      where: { id: collateralOutputId },
+      select: { id: true },
+    });
+    if (!output) {
+      return errors.notFound("Collateral output");
+    }
+  }
+
+  try {
+    const accessToken = await getGoogleAccessToken(auth.session.user.id);
+    const client = createSlidesClient(accessToken);
+
+    const replacements = (validation.data.replacements || []).filter((r) => r.value.trim());
+    if (context) {
+      const explicit = new Set(replacements.map((r) => r.placeholder));
+      const presentation = await client.getPresentation(presentationId);
+      const remaining = extractSlidePlaceholders(presentation).filter((p) => !explicit.has(p));
+      replacements.push(...resolveSlidePlaceholders(remaining, context as TemplateFillContext));
+    }
+
+    if (replacements.length === 0) {
+      return errors.badRequest("No replacements to fill");
+    }
+
+    const result = await fillPresentation(client, { presentationId, replacements, copyFirst, copyTitle });
+
+    if (collateralOutputId) {
+      await prisma.collateralOutput.update({
+        where: { id: collateralOutputId },
+        data: { googleSlidesId: result.presentationId, googleSlidesUrl: result.webViewLink },
+      });
+    }
+
+    logger.info("Filled Google Slides presentation", {
+      sourcePresentationId: presentationId,
+      presentationId: result.presentationId,
+      replacementCount: result.replacementCount,
+      userId: auth.session.user.id,
+    });
+
+    return apiSuccess(result);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to fill presentation";
+    if (message === REAUTH_MESSAGE) {
+      return errors.forbidden(message);
+    }
+    logger.error("Failed to fill Google Slides presentation", error, {
+      route: "/api/google/slides/fill",
+      presentationId,
+    });
+    return errors.badGateway(message);
+  }
+}
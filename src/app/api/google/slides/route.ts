@@ -0,0 +1,66 @@
+import { NextRequest } from "next/server";
+import { requireRoutePermission } from "@/lib/routePermissions";
+import { apiSuccess, errors } from "@/lib/apiResponse";
+import { logger } from "@/lib/logger";
+import {
+  REAUTH_MESSAGE,
+  createSlidesClient,
+  extractSlidePlaceholders,
+  getGoogleAccessToken,
+} from "@/lib/googleSlides";
+
+/**
+ * GET /api/google/slides - List presentations or scan one for placeholders
+ *
+ * @description Without presentationId, lists the user's Google Slides decks
+ * (most recently modified first, optionally filtered by name). With
+ * presentationId and placeholders=true, returns the unique {{placeholder}}
+ * names found in that deck's slides.
+ *
+ * @authentication Required (Google sign-in with Slides/Drive scopes)
+ * @query {string} [q] - Name filter
+ * @query {number} [limit=30] - Maximum presentations (1-100)
+ * @query {string} [presentationId] - Presentation to scan
+ * @query {boolean} [placeholders] - Return placeholders for presentationId
+ * @returns {{ presentations: DrivePresentation[] }} 200
+ * @returns {{ presentationId: string, title?: string, placeholders: string[] }} 200
+ * @returns 403 if the user has no usable Google access token
+ */
+export async function GET(request: NextRequest) {
+  const auth = await requireRoutePermission("/api/google/slides", "GET");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  const { searchParams } = new URL(request.url);
+  const presentationId = searchParams.get("presentationId");
+
+  try {
+    const accessToken = await getGoogleAccessToken(auth.session.user.id);
+    const client = createSlidesClient(accessToken);
+
+    if (presentationId && searchParams.get("placeholders") === "true") {
+      const presentation = await client.getPresentation(presentationId);
+      return apiSuccess({
+        presentationId,
+        title: presentation.title,
+        placeholders: extractSlidePlaceholders(presentation),
+      });
+    }
+
+    const limit = Math.min(Math.max(parseInt(searchParams.get("limit") || "30", 10) || 30, 1), 100);
+    const presentations = await client.listPresentations({
+      query: searchParams.get("q") || undefined,
+      limit,
+    });
+
+    return apiSuccess({ presentations });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to reach Google Slides";
+    if (message === REAUTH_MESSAGE) {
+      return errors.forbidden(message);
+    }
+    logger.error("Failed to load Google Slides", error, { route: "/api/google/slides", presentationId });
+    return errors.badGateway(message);
+  }
+}
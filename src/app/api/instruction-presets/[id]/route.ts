@@ -1,18 +1,23 @@
 import { NextRequest } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { prisma } from "@/lib/prisma";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
+import { notifyUsers } from "@/lib/notifications";
 
 // GET /api/instruction-presets/[id] - Get a single preset
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRoutePermission("/api/instruction-presets/[id]", "GET");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+  const session = auth.session;
+
   try {
     const { id } = await params;
-    const session = await getServerSession(authOptions);
     const userId = session?.user?.id;
     const userCapabilities = session?.user?.capabilities || [];
     const isAdmin = userCapabilities.includes("MANAGE_PROMPTS") ||
@@ -50,10 +55,11 @@ export async function PUT(
 ) {
   try {
     const { id } = await params;
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return errors.unauthorized();
+    const auth = await requireRoutePermission("/api/instruction-presets/[id]", "PUT");
+    if (!auth.authorized) {
+      return auth.response;
     }
+    const session = auth.session;
 
     const preset = await prisma.instructionPreset.findUnique({
       where: { id },
@@ -104,6 +110,12 @@ export async function PUT(
             rejectionReason: null,
           },
         });
+        await notifyUsers([preset.createdBy], {
+          type: "PRESET_APPROVED",
+          title: `Your instruction preset "${preset.name}" was approved and is now shared`,
+          link: "/chat/instruction-presets",
+          actorName: session.user.name || session.user.email,
+        }, { excludeUserId: session.user.id });
         return apiSuccess({ preset: updated });
       } else {
         const updated = await prisma.instructionPreset.update({
@@ -116,6 +128,13 @@ export async function PUT(
             rejectionReason: rejectionReason || null,
           },
         });
+        await notifyUsers([preset.createdBy], {
+          type: "PRESET_REJECTED",
+          title: `Your instruction preset "${preset.name}" was not approved for sharing`,
+          body: rejectionReason || null,
+          link: "/chat/instruction-presets",
+          actorName: session.user.name || session.user.email,
+        }, { excludeUserId: session.user.id });
         return apiSuccess({ preset: updated });
       }
     }
@@ -188,10 +207,11 @@ export async function DELETE(
 ) {
   try {
     const { id } = await params;
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return errors.unauthorized();
+    const auth = await requireRoutePermission("/api/instruction-presets/[id]", "DELETE");
+    if (!auth.authorized) {
+      return auth.response;
     }
+    const session = auth.session;
 
     const preset = await prisma.instructionPreset.findUnique({
       where: { id },
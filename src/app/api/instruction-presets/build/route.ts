@@ -1,6 +1,7 @@
 import { NextRequest } from "next/server";
-import Anthropic from "@anthropic-ai/sdk";
-import { requireAuth } from "@/lib/apiAuth";
+import type Anthropic from "@anthropic-ai/sdk";
+import { getLLMClient } from "@/lib/llmProvider";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
 import { getModel } from "@/lib/config";
@@ -8,7 +9,7 @@ import { loadSystemPrompt } from "@/lib/loadSystemPrompt";
 
 // GET - Fetch the system prompts without sending a message (for transparency on page load)
 export async function GET() {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/instruction-presets/build", "GET");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -67,7 +68,7 @@ type Message = {
 };
 
 export async function POST(request: NextRequest) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/instruction-presets/build", "POST");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -98,7 +99,7 @@ export async function POST(request: NextRequest) {
       content: msg.content,
     }));
 
-    const anthropic = new Anthropic();
+    const anthropic = await getLLMClient();
     const model = getModel("quality"); // Use quality model for better results
 
     const response = await anthropic.messages.create({
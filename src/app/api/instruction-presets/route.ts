@@ -1,6 +1,5 @@
 import { NextRequest } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { prisma } from "@/lib/prisma";
 import { InstructionShareStatus, Prisma } from "@prisma/client";
 import { apiSuccess, errors } from "@/lib/apiResponse";
@@ -9,8 +8,13 @@ import { logger } from "@/lib/logger";
 // GET /api/instruction-presets - List all presets (user's own + approved shared presets)
 // Admins also see pending approval requests
 export async function GET(request: NextRequest) {
+  const auth = await requireRoutePermission("/api/instruction-presets", "GET");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+  const session = auth.session;
+
   try {
-    const session = await getServerSession(authOptions);
     const userId = session?.user?.id;
     const userCapabilities = session?.user?.capabilities || [];
     const isAdmin = userCapabilities.includes("MANAGE_PROMPTS") ||
@@ -59,10 +63,11 @@ export async function GET(request: NextRequest) {
 // POST /api/instruction-presets - Create a new preset
 export async function POST(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return errors.unauthorized();
+    const auth = await requireRoutePermission("/api/instruction-presets", "POST");
+    if (!auth.authorized) {
+      return auth.response;
     }
+    const session = auth.session;
 
     const data = await request.json();
     const { name, content, description, requestShare } = data;
@@ -1,17 +1,17 @@
 import { NextRequest } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { loadSystemPrompt } from "@/lib/loadSystemPrompt";
 import { getModel, getEffectiveSpeed } from "@/lib/config";
 import { prisma } from "@/lib/prisma";
 import { logUsage } from "@/lib/usageTracking";
 import { knowledgeChatSchema, validateBody } from "@/lib/validations";
-import { getAnthropicClient } from "@/lib/apiHelpers";
+import { getLLMClient } from "@/lib/llmProvider";
 import { interpolateSnippets } from "@/lib/snippetInterpolation";
 import { checkRateLimit, getRateLimitIdentifier } from "@/lib/rateLimit";
 import { CONTEXT_LIMITS } from "@/lib/constants";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
+import { encodeSSE, SSE_HEADERS } from "@/lib/sse";
 import { buildGTMContextString, type CustomerGTMData } from "@/types/gtmData";
 
 export const maxDuration = 60;
@@ -29,12 +29,58 @@ function truncateContext(context: string, maxSize: number): { text: string; trun
   return { text: truncated, truncated: true };
 }
 
-type ChatResponse = {
-  response: string;
+const MAX_TOKENS = 4000;
+const TEMPERATURE = 0.3;
+
+type SourcesUsed = {
   skillsUsed: { id: string; title: string }[];
   customersUsed: { id: string; name: string }[];
   documentsUsed: { id: string; title: string }[];
   urlsUsed: { id: string; title: string }[];
+};
+
+/**
+ * Determine which sources were likely used
+ * (simple heuristic: check if the source title/name is mentioned in the response)
+ */
+function detectSourcesUsed(
+  text: string,
+  sources: {
+    skills: { id: string; title: string }[];
+    customerProfiles: { id: string; name: string; industry?: string }[];
+    documents: { id: string; title: string; filename: string }[];
+    referenceUrls: { id: string; title: string; url: string }[];
+  }
+): SourcesUsed {
+  const lowerText = text.toLowerCase();
+
+  return {
+    skillsUsed: sources.skills
+      .filter(skill => lowerText.includes(skill.title.toLowerCase()))
+      .map(skill => ({ id: skill.id, title: skill.title })),
+    customersUsed: sources.customerProfiles
+      .filter(profile =>
+        lowerText.includes(profile.name.toLowerCase()) ||
+        (profile.industry && lowerText.includes(profile.industry.toLowerCase()))
+      )
+      .map(profile => ({ id: profile.id, name: profile.name })),
+    documentsUsed: sources.documents
+      .filter(doc =>
+        lowerText.includes(doc.title.toLowerCase()) ||
+        lowerText.includes(doc.filename.toLowerCase())
+      )
+      .map(doc => ({ id: doc.id, title: doc.title })),
+    urlsUsed: sources.referenceUrls
+      .filter(url =>
+        lowerText.includes(url.title.toLowerCase()) ||
+        lowerText.includes(url.url.toLowerCase())
+      )
+      .map(url => ({ id: url.id, title: url.title })),
+  };
+}
+
+type ChatResponse = SourcesUsed & {
+  response: string;
   contextTruncated?: boolean; // True if context was truncated to fit limits
   // Transparency data
   transparency: {
@@ -53,6 +99,12 @@ type ChatResponse = {
 };
 
 export async function POST(request: NextRequest) {
+  const auth = await requireRoutePermission("/api/knowledge-chat", "POST");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+  const authSession = auth.session;
+
   // Rate limit - LLM routes are expensive
   const identifier = await getRateLimitIdentifier(request);
   const rateLimit = await checkRateLimit(identifier, "llm");
@@ -92,8 +144,7 @@ export async function POST(request: NextRequest) {
   const model = getModel(speed);
 
   try {
-    const authSession = await getServerSession(authOptions);
-    const anthropic = getAnthropicClient();
+    const anthropic = await getLLMClient();
 
     // Fetch documents content from database if any are selected
     // Include fileData for PDFs to enable native Claude document support
@@ -328,13 +379,123 @@ ${profileContent}${considerationsText}${customerDocsText}`;
       messages.push({ role: "user", content: message });
     }
 
-    const response = await anthropic.messages.create({
+    const transparency: ChatResponse["transparency"] = {
+      systemPrompt,
+      baseSystemPrompt,
+      knowledgeContext: combinedKnowledgeContext, // Use combined context for display
+      customerContext: finalCustomerContext,
+      documentContext,
+      urlContext,
+      gtmContext: gtmContext || undefined,
+      nativePdfDocuments: pdfDocuments.length > 0 ? pdfDocuments.map(d => d.title) : undefined,
+      model,
+      maxTokens: MAX_TOKENS,
+      temperature: TEMPERATURE,
+    };
+
+    const sourceCandidates = { skills, customerProfiles, documents, referenceUrls };
+
+    const usageMetadata = {
+      skillCount: skills.length,
+      documentCount: documents.length,
+      customerCount: customerProfiles.length,
+      customerDocCount: customerDocuments.length,
+      urlCount: referenceUrls.length,
+      conversationLength: conversationHistory.length,
+      quickMode: quickMode || false,
+      hasGtmData: !!gtmData,
+      gtmGongCallCount: gtmData?.gongCalls?.length || 0,
+      gtmHubSpotActivityCount: gtmData?.hubspotActivities?.length || 0,
+    };
+
+    const requestParams = {
       model,
-      max_tokens: 4000,
-      temperature: 0.3,
+      max_tokens: MAX_TOKENS,
+      temperature: TEMPERATURE,
       system: systemPrompt,
       messages: messages as Parameters<typeof anthropic.messages.create>[0]["messages"],
-    });
+    };
+
+    // Streaming mode: tokens are sent as SSE "delta" events as they arrive
+    if (data.stream) {
+      const abortController = new AbortController();
+      request.signal?.addEventListener("abort", () => abortController.abort());
+
+      const body = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          let closed = false;
+          const send = (event: string, payload: unknown) => {
+            if (closed) return;
+            try {
+              controller.enqueue(encodeSSE(event, payload));
+            } catch {
+              // Client went away - stop writing
+              closed = true;
+            }
+          };
+
+          send("transparency", { transparency, contextTruncated });
+
+          const stream = anthropic.messages.stream(requestParams, { signal: abortController.signal });
+          let text = "";
+          stream.on("text", (delta) => {
+            text += delta;
+            send("delta", { text: delta });
+          });
+
+          try {
+            const finalMessage = await stream.finalMessage();
+
+            logUsage({
+              userId: authSession?.user?.id,
+              userEmail: authSession?.user?.email,
+              feature: "chat",
+              model,
+              inputTokens: finalMessage.usage?.input_tokens || 0,
+              outputTokens: finalMessage.usage?.output_tokens || 0,
+              metadata: { ...usageMetadata, streamed: true },
+            });
+
+            send("metadata", { ...detectSourcesUsed(text, sourceCandidates), contextTruncated });
+            send("done", { response: text });
+          } catch (error) {
+            if (abortController.signal.aborted) {
+              // Tokens generated before the abort are still billed
+              const partialUsage = stream.currentMessage?.usage;
+              logUsage({
+                userId: authSession?.user?.id,
+                userEmail: authSession?.user?.email,
+                feature: "chat",
+                model,
+                inputTokens: partialUsage?.input_tokens || 0,
+                outputTokens: partialUsage?.output_tokens || 0,
+                metadata: { ...usageMetadata, streamed: true, aborted: true },
+              });
+              logger.info("Knowledge chat stream aborted by client", { route: "/api/knowledge-chat" });
+            } else {
+              logger.error("Knowledge chat stream error", error, { route: "/api/knowledge-chat" });
+              send("error", { message: "Failed to process chat request" });
+            }
+          } finally {
+            if (!closed) {
+              closed = true;
+              try {
+                controller.close();
+              } catch {
+                // Already closed by the client
+              }
+            }
+          }
+        },
+        cancel() {
+          abortController.abort();
+        },
+      });
+
+      return new Response(body, { headers: SSE_HEADERS });
+    }
+
+    const response = await anthropic.messages.create(requestParams);
 
     const content = response.content[0];
     if (content.type !== "text") {
@@ -349,71 +510,14 @@ ${profileContent}${considerationsText}${customerDocsText}`;
       model,
       inputTokens: response.usage?.input_tokens || 0,
       outputTokens: response.usage?.output_tokens || 0,
-      metadata: {
-        skillCount: skills.length,
-        documentCount: documents.length,
-        customerCount: customerProfiles.length,
-        customerDocCount: customerDocuments.length,
-        urlCount: referenceUrls.length,
-        conversationLength: conversationHistory.length,
-        quickMode: quickMode || false,
-        hasGtmData: !!gtmData,
-        gtmGongCallCount: gtmData?.gongCalls?.length || 0,
-        gtmHubSpotActivityCount: gtmData?.hubspotActivities?.length || 0,
-      },
+      metadata: usageMetadata,
     });
 
-    // Determine which skills were likely used (simple heuristic: check if skill title is mentioned in response)
-    const skillsUsed = skills
-      .filter(skill =>
-        content.text.toLowerCase().includes(skill.title.toLowerCase())
-      )
-      .map(skill => ({ id: skill.id, title: skill.title }));
-
-    // Determine which customer profiles were likely used
-    const customersUsed = customerProfiles
-      .filter(profile =>
-        content.text.toLowerCase().includes(profile.name.toLowerCase()) ||
-        (profile.industry && content.text.toLowerCase().includes(profile.industry.toLowerCase()))
-      )
-      .map(profile => ({ id: profile.id, name: profile.name }));
-
-    // Determine which documents were likely used
-    const documentsUsed = documents
-      .filter(doc =>
-        content.text.toLowerCase().includes(doc.title.toLowerCase()) ||
-        content.text.toLowerCase().includes(doc.filename.toLowerCase())
-      )
-      .map(doc => ({ id: doc.id, title: doc.title }));
-
-    // Determine which URLs were likely used
-    const urlsUsed = referenceUrls
-      .filter(url =>
-        content.text.toLowerCase().includes(url.title.toLowerCase()) ||
-        content.text.toLowerCase().includes(url.url.toLowerCase())
-      )
-      .map(url => ({ id: url.id, title: url.title }));
-
     const result: ChatResponse = {
       response: content.text,
-      skillsUsed,
-      customersUsed,
-      documentsUsed,
-      urlsUsed,
+      ...detectSourcesUsed(content.text, sourceCandidates),
       contextTruncated,
-      transparency: {
-        systemPrompt,
-        baseSystemPrompt,
-        knowledgeContext: combinedKnowledgeContext, // Use combined context for display
-        customerContext: finalCustomerContext,
-        documentContext,
-        urlContext,
-        gtmContext: gtmContext || undefined,
-        nativePdfDocuments: pdfDocuments.length > 0 ? pdfDocuments.map(d => d.title) : undefined,
-        model,
-        maxTokens: 4000,
-        temperature: 0.3,
-      },
+      transparency,
     };
 
     return apiSuccess(result);
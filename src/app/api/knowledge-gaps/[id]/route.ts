@@ -0,0 +1,35 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireRoutePermission } from "@/lib/routePermissions";
+import { apiSuccess, errors } from "@/lib/apiResponse";
+import { logger } from "@/lib/logger";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * GET /api/knowledge-gaps/[id] - A knowledge gap report with its clusters
+ *
+ * @authentication Required - MANAGE_KNOWLEDGE or VIEW_ORG_DATA
+ * @returns {{ report: KnowledgeGapReport }} 200
+ * @returns 404 if the report doesn't exist
+ */
+export async function GET(_request: NextRequest, context: RouteContext) {
+  const auth = await requireRoutePermission("/api/knowledge-gaps/[id]", "GET");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  try {
+    const { id } = await context.params;
+    const report = await prisma.knowledgeGapReport.findUnique({ where: { id } });
+    if (!report) {
+      return errors.notFound("Knowledge gap report");
+    }
+    return apiSuccess({ report });
+  } catch (error) {
+    logger.error("Failed to load knowledge gap report", error, { route: "/api/knowledge-gaps/[id]" });
+    return errors.internal("Failed to load knowledge gap report");
+  }
+}
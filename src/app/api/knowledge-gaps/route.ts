@@ -0,0 +1,83 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireRoutePermission } from "@/lib/routePermissions";
+import { createGapReportSchema, validateBody } from "@/lib/validations";
+import { DEFAULT_GAP_PERIOD_DAYS, startKnowledgeGapReport } from "@/lib/knowledgeGaps";
+import { getUserFromSession } from "@/lib/auditLog";
+import { apiSuccess, errors } from "@/lib/apiResponse";
+import { logger } from "@/lib/logger";
+
+/**
+ * GET /api/knowledge-gaps - Latest knowledge gap report
+ *
+ * @description Returns the most recent report (which may still be running)
+ * and a short list of earlier runs.
+ *
+ * @authentication Required - MANAGE_KNOWLEDGE or VIEW_ORG_DATA
+ * @returns {{ report: KnowledgeGapReport | null, history: KnowledgeGapReport[] }} 200 -
+ * history entries omit clusters
+ */
+export async function GET() {
+  const auth = await requireRoutePermission("/api/knowledge-gaps", "GET");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  try {
+    const [report, history] = await Promise.all([
+      prisma.knowledgeGapReport.findFirst({ orderBy: { createdAt: "desc" } }),
+      prisma.knowledgeGapReport.findMany({
+        orderBy: { createdAt: "desc" },
+        take: 10,
+        omit: { clusters: true },
+      }),
+    ]);
+
+    return apiSuccess({ report, history });
+  } catch (error) {
+    logger.error("Failed to load knowledge gap report", error, { route: "/api/knowledge-gaps" });
+    return errors.internal("Failed to load knowledge gap report");
+  }
+}
+
+/**
+ * POST /api/knowledge-gaps - Start a new knowledge gap report
+ *
+ * @description Clusters low-confidence, unmatched, flagged and corrected
+ * questions from the period in the background. If a report is already
+ * running, that report is returned instead of starting another.
+ *
+ * @authentication Required - MANAGE_KNOWLEDGE or VIEW_ORG_DATA
+ * @body {{ days?: number }} - Period to analyze (7-365, default 90)
+ * @returns {{ report: KnowledgeGapReport, alreadyRunning: boolean }} 202
+ */
+export async function POST(request: NextRequest) {
+  const auth = await requireRoutePermission("/api/knowledge-gaps", "POST");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  try {
+    let body = {};
+    try {
+      body = await request.json();
+    } catch {
+      // Empty body uses the default period
+    }
+
+    const validation = validateBody(createGapReportSchema, body);
+    if (!validation.success) {
+      return errors.validation(validation.error);
+    }
+
+    const result = await startKnowledgeGapReport(
+      validation.data.days ?? DEFAULT_GAP_PERIOD_DAYS,
+      getUserFromSession(auth.session)
+    );
+
+    return apiSuccess(result, { status: 202 });
+  } catch (error) {
+    logger.error("Failed to start knowledge gap report", error, { route: "/api/knowledge-gaps" });
+    return errors.internal("Failed to start knowledge gap report");
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireRoutePermission } from "@/lib/routePermissions";
+import { markNotificationsSchema, validateBody } from "@/lib/validations";
+import { apiSuccess, errors } from "@/lib/apiResponse";
+import { logger } from "@/lib/logger";
+import { toUserNotification } from "@/lib/notifications";
+
+const DEFAULT_LIMIT = 30;
+const MAX_LIMIT = 100;
+
+/**
+ * GET /api/notifications - The current user's notifications, newest first
+ *
+ * @description Notifications held for a digest are listed but not counted as
+ * unread.
+ *
+ * @authentication Required
+ * @query {number} [limit=30] - Max notifications (up to 100)
+ * @query {boolean} [unreadOnly] - Only unread notifications
+ * @returns {{ notifications: UserNotification[], unreadCount: number }} 200
+ */
+export async function GET(request: NextRequest) {
+  const auth = await requireRoutePermission("/api/notifications", "GET");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Math.max(Number(searchParams.get("limit")) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+    const unreadOnly = searchParams.get("unreadOnly") === "true";
+    const userId = auth.session.user.id;
+
+    const [notifications, unreadCount] = await Promise.all([
+      prisma.notification.findMany({
+        where: { userId, ...(unreadOnly && { readAt: null }) },
+        orderBy: { createdAt: "desc" },
+        take: limit,
+      }),
+      prisma.notification.count({ where: { userId, readAt: null, pendingDigest: false } }),
+    ]);
+
+    return apiSuccess({ notifications: notifications.map(toUserNotification), unreadCount });
+  } catch (error) {
+    logger.error("Error fetching notifications", error, { route: "/api/notifications" });
+    return errors.internal("Failed to fetch notifications");
+  }
+}
+
+/**
+ * PATCH /api/notifications - Mark notifications read or unread
+ *
+ * @authentication Required
+ * @body {{ ids?: string[], read?: boolean }} - Omit ids for all of the user's notifications
+ * @returns {{ updated: number, unreadCount: number }} 200
+ */
+export async function PATCH(request: NextRequest) {
+  const auth = await requireRoutePermission("/api/notifications", "PATCH");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  try {
+    const validation = validateBody(markNotificationsSchema, await request.json());
+    if (!validation.success) {
+      return errors.validation(validation.error);
+    }
+    const { ids, read } = validation.data;
+    const userId = auth.session.user.id;
+
+    // Scoped to the user, so other users' IDs are ignored
+    const result = await prisma.notification.updateMany({
+      where: { userId, ...(ids && { id: { in: ids } }), readAt: read ? null : { not: null } },
+      data: { readAt: read ? new Date() : null },
+    });
+    const unreadCount = await prisma.notification.count({ where: { userId, readAt: null, pendingDigest: false } });
+
+    return apiSuccess({ updated: result.count, unreadCount });
+  } catch (error) {
+    logger.error("Error updating notifications", error, { route: "/api/notifications" });
+    return errors.internal("Failed to update notifications");
+  }
+}
@@ -0,0 +1,160 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import type { Prisma } from "@prisma/client";
+import { requireRoutePermission } from "@/lib/routePermissions";
+import { updateProjectCollaboratorsSchema, validateBody } from "@/lib/validations";
+import { logProjectChange, getUserFromSession, getRequestContext } from "@/lib/auditLog";
+import { apiSuccess, errors } from "@/lib/apiResponse";
+import { logger } from "@/lib/logger";
+import {
+  diffCollaborators,
+  getCollaborators,
+  getProjectAccess,
+  logCollaboratorChanges,
+  normalizeCollaborators,
+  requireProjectAccess,
+} from "@/lib/projectAccess";
+import type { ProjectCollaborator } from "@/types/bulkProject";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Collaborators with the name and email of each user
+async function withUserDetails(collaborators: ProjectCollaborator[]): Promise<ProjectCollaborator[]> {
+  if (collaborators.length === 0) return [];
+  const users = await prisma.user.findMany({
+    where: { id: { in: collaborators.map((c) => c.userId) } },
+    select: { id: true, name: true, email: true },
+  });
+  const byId = new Map(users.map((u) => [u.id, u]));
+  return collaborators.map((c) => ({
+    ...c,
+    name: byId.get(c.userId)?.name ?? null,
+    email: byId.get(c.userId)?.email ?? null,
+  }));
+}
+
+/**
+ * GET /api/projects/[id]/collaborators - A project's visibility and collaborators
+ *
+ * @authentication Required (any role on the project)
+ * @returns {{ visibility: "PRIVATE" | "TEAM" | "ORG", collaborators: { userId, role, name, email }[], canManage: boolean }} 200
+ * @returns 404 if the project doesn't exist
+ */
+export async function GET(_request: NextRequest, context: RouteContext) {
+  const auth = await requireRoutePermission("/api/projects/[id]/collaborators", "GET");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  try {
+    const { id } = await context.params;
+    const { exists, role } = await getProjectAccess(id, auth.session.user);
+    if (!exists) {
+      return errors.notFound("Project");
+    }
+    if (!role) {
+      return errors.forbidden("You don't have access to this project");
+    }
+
+    const project = await prisma.bulkProject.findUnique({
+      where: { id },
+      select: { visibility: true, assignedUsers: true },
+    });
+    if (!project) {
+      return errors.notFound("Project");
+    }
+
+    return apiSuccess({
+      visibility: project.visibility,
+      collaborators: await withUserDetails(getCollaborators(project.assignedUsers)),
+      canManage: role === "OWNER",
+    });
+  } catch (error) {
+    logger.error("Error fetching project collaborators", error, { route: "/api/projects/[id]/collaborators" });
+    return errors.internal("Failed to fetch collaborators");
+  }
+}
+
+/**
+ * PUT /api/projects/[id]/collaborators - Replace collaborators and/or visibility
+ *
+ * @description Owner or admin only. Each added or removed collaborator gets a
+ * COLLABORATOR_ADDED / COLLABORATOR_REMOVED audit entry; role and visibility
+ * changes are logged as UPDATED.
+ *
+ * @authentication Required (project owner)
+ * @body {{ visibility?: "PRIVATE" | "TEAM" | "ORG", collaborators?: { userId: string, role: "EDITOR" | "REVIEWER" | "VIEWER" }[] }}
+ * @returns {{ visibility, collaborators, canManage: true }} 200
+ * @returns 400 if a collaborator isn't a known user
+ * @returns 403 if the user doesn't own the project
+ * @returns 404 if the project doesn't exist
+ */
+export async function PUT(request: NextRequest, context: RouteContext) {
+  const auth = await requireRoutePermission("/api/projects/[id]/collaborators", "PUT");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  try {
+    const { id } = await context.params;
+    const denied = await requireProjectAccess(id, auth.session.user, "OWNER");
+    if (denied) {
+      return denied;
+    }
+
+    const validation = validateBody(updateProjectCollaboratorsSchema, await request.json());
+    if (!validation.success) {
+      return errors.validation(validation.error);
+    }
+    const data = validation.data;
+
+    const project = await prisma.bulkProject.findUnique({
+      where: { id },
+      select: { id: true, name: true, ownerId: true, visibility: true, assignedUsers: true },
+    });
+    if (!project) {
+      return errors.notFound("Project");
+    }
+
+    const before = getCollaborators(project.assignedUsers);
+    const after = data.collaborators ? normalizeCollaborators(data.collaborators, project.ownerId) : before;
+
+    if (data.collaborators) {
+      const known = await prisma.user.count({ where: { id: { in: after.map((c) => c.userId) } } });
+      if (known !== after.length) {
+        return errors.badRequest("Collaborators must be existing users");
+      }
+    }
+
+    const visibility = data.visibility ?? project.visibility;
+    await prisma.bulkProject.update({
+      where: { id },
+      data: { visibility, assignedUsers: after as unknown as Prisma.InputJsonValue },
+    });
+
+    const user = getUserFromSession(auth.session);
+    await logCollaboratorChanges(project, user, diffCollaborators(before, after));
+    if (visibility !== project.visibility) {
+      await logProjectChange(
+        "UPDATED",
+        id,
+        project.name,
+        user,
+        { visibility: { from: project.visibility, to: visibility } },
+        undefined,
+        getRequestContext(request)
+      );
+    }
+
+    return apiSuccess({
+      visibility,
+      collaborators: await withUserDetails(after),
+      canManage: true,
+    });
+  } catch (error) {
+    logger.error("Error updating project collaborators", error, { route: "/api/projects/[id]/collaborators" });
+    return errors.internal("Failed to update collaborators");
+  }
+}
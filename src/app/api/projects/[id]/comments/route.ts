@@ -0,0 +1,53 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireRoutePermission } from "@/lib/routePermissions";
+import { apiSuccess, errors } from "@/lib/apiResponse";
+import { logger } from "@/lib/logger";
+import { countComments } from "@/lib/comments";
+import { requireProjectAccess } from "@/lib/projectAccess";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/projects/[id]/comments - Comment counts for each row of a project
+ *
+ * @description Rows without comments are left out. Unread counts are for the
+ * current user; open counts are unresolved threads.
+ *
+ * @authentication Required (viewer access to the project)
+ * @returns {{ counts: Record<rowId, { total, unread, open }> }} 200
+ */
+export async function GET(_request: NextRequest, context: RouteContext) {
+  const auth = await requireRoutePermission("/api/projects/[id]/comments", "GET");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  try {
+    const { id } = await context.params;
+    const denied = await requireProjectAccess(id, auth.session.user);
+    if (denied) {
+      return denied;
+    }
+
+    const comments = await prisma.comment.findMany({
+      where: { bulkRow: { projectId: id } },
+      select: {
+        bulkRowId: true,
+        questionHistoryId: true,
+        collateralOutputId: true,
+        parentId: true,
+        resolved: true,
+        authorId: true,
+        readBy: true,
+      },
+    });
+
+    return apiSuccess({ counts: countComments(comments, auth.session.user.id) });
+  } catch (error) {
+    logger.error("Failed to count project comments", error, { route: "/api/projects/[id]/comments" });
+    return errors.internal("Failed to count project comments");
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireRoutePermission } from "@/lib/routePermissions";
+import { cancelJob } from "@/lib/projectJobs";
+import { apiSuccess, errors } from "@/lib/apiResponse";
+import { logger } from "@/lib/logger";
+import { requireProjectAccess } from "@/lib/projectAccess";
+
+interface RouteContext {
+  params: Promise<{ id: string; jobId: string }>;
+}
+
+// GET /api/projects/[id]/jobs/[jobId] - Get a single job with progress
+export async function GET(_request: NextRequest, context: RouteContext) {
+  const auth = await requireRoutePermission("/api/projects/[id]/jobs/[jobId]", "GET");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  try {
+    const { id: projectId, jobId } = await context.params;
+    const denied = await requireProjectAccess(projectId, auth.session.user);
+    if (denied) {
+      return denied;
+    }
+
+    const job = await prisma.projectJob.findFirst({
+      where: { id: jobId, projectId },
+      omit: { options: true, lockedBy: true },
+    });
+    if (!job) {
+      return errors.notFound("Job");
+    }
+
+    return apiSuccess({ job });
+  } catch (error) {
+    logger.error("Failed to fetch project job", error, { route: "/api/projects/[id]/jobs/[jobId]" });
+    return errors.internal("Failed to fetch project job");
+  }
+}
+
+// DELETE /api/projects/[id]/jobs/[jobId] - Cancel a queued or running job
+export async function DELETE(_request: NextRequest, context: RouteContext) {
+  const auth = await requireRoutePermission("/api/projects/[id]/jobs/[jobId]", "DELETE");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  try {
+    const { id: projectId, jobId } = await context.params;
+    const denied = await requireProjectAccess(projectId, auth.session.user, "EDITOR");
+    if (denied) {
+      return denied;
+    }
+
+    const existing = await prisma.projectJob.findFirst({
+      where: { id: jobId, projectId },
+      select: { id: true },
+    });
+    if (!existing) {
+      return errors.notFound("Job");
+    }
+
+    const job = await cancelJob(jobId);
+    if (!job) {
+      return errors.conflict("Job has already finished");
+    }
+
+    return apiSuccess({ job });
+  } catch (error) {
+    logger.error("Failed to cancel project job", error, { route: "/api/projects/[id]/jobs/[jobId]" });
+    return errors.internal("Failed to cancel project job");
+  }
+}
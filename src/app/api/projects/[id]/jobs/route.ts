@@ -0,0 +1,163 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireRoutePermission } from "@/lib/routePermissions";
+import { createAnswerJobSchema, validateBody } from "@/lib/validations";
+import { checkRateLimit, getRateLimitIdentifier } from "@/lib/rateLimit";
+import { enqueueAnswerJob, isActiveJobConflict, isJobActive, kickJobWorker } from "@/lib/projectJobs";
+import { logProjectChange, getUserFromSession } from "@/lib/auditLog";
+import { apiSuccess, errors } from "@/lib/apiResponse";
+import { logger } from "@/lib/logger";
+import { requireProjectAccess } from "@/lib/projectAccess";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/projects/[id]/jobs - List recent jobs for a project
+ *
+ * @description Returns the most recent background jobs (newest first) with
+ * progress counters. The project page polls this while a job is active.
+ * Polling also nudges the worker so jobs progress on deployments without
+ * a long-lived worker loop.
+ *
+ * @authentication Required
+ * @returns {{ jobs: ProjectJob[] }} 200
+ */
+export async function GET(_request: NextRequest, context: RouteContext) {
+  const auth = await requireRoutePermission("/api/projects/[id]/jobs", "GET");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  try {
+    const { id } = await context.params;
+    const denied = await requireProjectAccess(id, auth.session.user);
+    if (denied) {
+      return denied;
+    }
+
+    const jobs = await prisma.projectJob.findMany({
+      where: { projectId: id },
+      orderBy: { createdAt: "desc" },
+      take: 10,
+      omit: { options: true, lockedBy: true },
+    });
+
+    if (jobs.some(isJobActive)) {
+      kickJobWorker();
+    }
+
+    return apiSuccess({ jobs });
+  } catch (error) {
+    logger.error("Failed to fetch project jobs", error, { route: "/api/projects/[id]/jobs" });
+    return errors.internal("Failed to fetch project jobs");
+  }
+}
+
+/**
+ * POST /api/projects/[id]/jobs - Start answering all pending rows on the server
+ *
+ * @description Queues a job that answers every PENDING (or previously ERROR) row
+ * in batches, honoring the LLM batch size/delay settings. With `staleOnly` it
+ * re-answers just the rows flagged as possibly stale. Only one active job is
+ * allowed per project.
+ *
+ * @authentication Required
+ * @body {string} [prompt] - System prompt override
+ * @body {"single"|"bulk"} [mode] - Prompt mode (default "bulk")
+ * @body {string[]} [domains] - Prompt domains ("technical", "legal", "security")
+ * @body {boolean} [quickMode] - Use the fast model
+ * @body {boolean} [staleOnly] - Re-answer only possibly stale rows
+ *
+ * @returns {{ job: ProjectJob }} 201 - Queued job
+ * @returns {{ error: string }} 400 - Validation error, finalized project, or nothing to answer
+ * @returns {{ error: string }} 404 - Project not found
+ * @returns {{ error: string }} 409 - A job is already running, or the project's answers are locked
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  const auth = await requireRoutePermission("/api/projects/[id]/jobs", "POST");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  // Rate limit - each job fans out into many LLM calls
+  const identifier = await getRateLimitIdentifier(request);
+  const rateLimit = await checkRateLimit(identifier, "llm");
+  if (!rateLimit.success && rateLimit.error) {
+    return rateLimit.error;
+  }
+
+  try {
+    const { id } = await context.params;
+    const denied = await requireProjectAccess(id, auth.session.user, "EDITOR");
+    if (denied) {
+      return denied;
+    }
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      body = {};
+    }
+
+    const validation = validateBody(createAnswerJobSchema, body);
+    if (!validation.success) {
+      return errors.validation(validation.error);
+    }
+
+    const project = await prisma.bulkProject.findUnique({
+      where: { id },
+      select: { id: true, name: true, status: true, locked: true },
+    });
+    if (!project) {
+      return errors.notFound("Project");
+    }
+    if (project.status === "FINALIZED") {
+      return errors.badRequest("Project is finalized");
+    }
+    if (project.locked) {
+      return errors.conflict("Project answers are locked");
+    }
+
+    const activeJob = await prisma.projectJob.findFirst({
+      where: { projectId: id, status: { in: ["QUEUED", "RUNNING"] } },
+    });
+    if (activeJob) {
+      return errors.conflict("A job is already running for this project");
+    }
+
+    const job = await enqueueAnswerJob(id, validation.data, {
+      id: auth.session.user.id,
+      email: auth.session.user.email,
+    });
+    if (!job) {
+      return errors.badRequest(
+        validation.data.staleOnly ? "No possibly stale answers to re-answer" : "No pending questions to answer"
+      );
+    }
+
+    await logProjectChange(
+      "UPDATED",
+      project.id,
+      project.name,
+      getUserFromSession(auth.session),
+      undefined,
+      {
+        action: validation.data.staleOnly ? "stale_reanswer_started" : "answer_job_started",
+        jobId: job.id,
+        totalRows: job.totalRows,
+      }
+    );
+
+    return apiSuccess({ job }, { status: 201 });
+  } catch (error) {
+    // Lost a race with another request starting a job
+    if (isActiveJobConflict(error)) {
+      return errors.conflict("A job is already running for this project");
+    }
+    logger.error("Failed to start project job", error, { route: "/api/projects/[id]/jobs" });
+    return errors.internal("Failed to start project job");
+  }
+}
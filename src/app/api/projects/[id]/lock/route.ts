@@ -0,0 +1,155 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireRoutePermission } from "@/lib/routePermissions";
+import { lockAnswersSchema, unlockAnswersSchema, validateBody } from "@/lib/validations";
+import { lockProjectAnswers, unlockProjectAnswers } from "@/lib/answerLocks";
+import { logProjectChange, getUserFromSession, getRequestContext } from "@/lib/auditLog";
+import { apiSuccess, errors } from "@/lib/apiResponse";
+import { logger } from "@/lib/logger";
+import { requireProjectAccess } from "@/lib/projectAccess";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+async function readJson(request: NextRequest): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * POST /api/projects/[id]/lock - Lock all answers in a project
+ *
+ * @description Locks the project and every row in it, so answers can't be
+ * edited, overwritten by autosave or regenerated by answering jobs. Projects
+ * are also locked automatically when they move to FINALIZED.
+ *
+ * @authentication Required
+ * @body {{ reason?: string }}
+ * @returns {{ project: { id, locked, lockedAt, lockedBy, lockReason }, rowsLocked: number }} 200
+ * @returns 404 if the project doesn't exist
+ * @returns 409 if the project is already locked
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  const auth = await requireRoutePermission("/api/projects/[id]/lock", "POST");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  try {
+    const { id } = await context.params;
+    const denied = await requireProjectAccess(id, auth.session.user, "EDITOR");
+    if (denied) {
+      return denied;
+    }
+
+    const validation = validateBody(lockAnswersSchema, await readJson(request));
+    if (!validation.success) {
+      return errors.validation(validation.error);
+    }
+    const { reason } = validation.data;
+
+    const project = await prisma.bulkProject.findUnique({
+      where: { id },
+      select: { id: true, name: true, locked: true },
+    });
+    if (!project) {
+      return errors.notFound("Project");
+    }
+    if (project.locked) {
+      return errors.conflict("Project answers are already locked");
+    }
+
+    const user = getUserFromSession(auth.session);
+    const rowsLocked = await prisma.$transaction((tx) => lockProjectAnswers(tx, id, user, reason));
+
+    await logProjectChange(
+      "LOCKED",
+      id,
+      project.name,
+      user,
+      undefined,
+      { reason: reason || null, rowsLocked },
+      getRequestContext(request)
+    );
+
+    const updated = await prisma.bulkProject.findUnique({
+      where: { id },
+      select: { id: true, locked: true, lockedAt: true, lockedBy: true, lockReason: true },
+    });
+
+    return apiSuccess({ project: updated, rowsLocked });
+  } catch (error) {
+    logger.error("Failed to lock project answers", error, { route: "/api/projects/[id]/lock" });
+    return errors.internal("Failed to lock project answers");
+  }
+}
+
+/**
+ * DELETE /api/projects/[id]/lock - Unlock a project's answers
+ *
+ * @description Releases the project lock and the row locks it took. Rows
+ * that were locked individually stay locked.
+ * The project keeps its status; a project that is finalized again is locked again.
+ *
+ * @authentication Required - REVIEW_ANSWERS capability
+ * @body {{ reason: string }} - Why the answers are being reopened (recorded in the audit log)
+ * @returns {{ project: { id, locked }, rowsUnlocked: number }} 200
+ * @returns 404 if the project doesn't exist
+ * @returns 409 if the project isn't locked
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const auth = await requireRoutePermission("/api/projects/[id]/lock", "DELETE");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  try {
+    const { id } = await context.params;
+    const denied = await requireProjectAccess(id, auth.session.user, "REVIEWER");
+    if (denied) {
+      return denied;
+    }
+
+    const validation = validateBody(unlockAnswersSchema, await readJson(request));
+    if (!validation.success) {
+      return errors.validation(validation.error);
+    }
+    const { reason } = validation.data;
+
+    const project = await prisma.bulkProject.findUnique({
+      where: { id },
+      select: { id: true, name: true, locked: true, lockedAt: true, lockedBy: true, lockReason: true },
+    });
+    if (!project) {
+      return errors.notFound("Project");
+    }
+    if (!project.locked) {
+      return errors.conflict("Project answers are not locked");
+    }
+
+    const rowsUnlocked = await prisma.$transaction((tx) => unlockProjectAnswers(tx, id));
+
+    await logProjectChange(
+      "UNLOCKED",
+      id,
+      project.name,
+      getUserFromSession(auth.session),
+      undefined,
+      {
+        reason,
+        rowsUnlocked,
+        previousLock: { lockedAt: project.lockedAt, lockedBy: project.lockedBy, reason: project.lockReason },
+      },
+      getRequestContext(request)
+    );
+
+    return apiSuccess({ project: { id, locked: false }, rowsUnlocked });
+  } catch (error) {
+    logger.error("Failed to unlock project answers", error, { route: "/api/projects/[id]/lock" });
+    return errors.internal("Failed to unlock project answers");
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireRoutePermission } from "@/lib/routePermissions";
+import { findPriorAnswers } from "@/lib/answerLibrary";
+import { apiSuccess, errors } from "@/lib/apiResponse";
+import { logger } from "@/lib/logger";
+import { getAccessibleProjectIds, requireProjectAccess } from "@/lib/projectAccess";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/projects/[id]/prior-answers - Suggest previously approved answers
+ *
+ * @description For each row in the project that hasn't been reviewed yet,
+ * returns the closest APPROVED/CORRECTED answers from other projects and from
+ * question history, with a 0-1 similarity score, source project and reviewer.
+ * Only projects the user can see are suggested. Rows without a close match
+ * are omitted.
+ *
+ * @authentication Required
+ * @returns {{ matches: Record<string, PriorAnswerMatch[]> }} 200 - keyed by row ID
+ */
+export async function GET(_request: NextRequest, context: RouteContext) {
+  const auth = await requireRoutePermission("/api/projects/[id]/prior-answers", "GET");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  try {
+    const { id } = await context.params;
+    const denied = await requireProjectAccess(id, auth.session.user);
+    if (denied) {
+      return denied;
+    }
+
+    const project = await prisma.bulkProject.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+    if (!project) {
+      return errors.notFound("Project");
+    }
+
+    const rows = await prisma.bulkRow.findMany({
+      where: { projectId: id, reviewStatus: { notIn: ["APPROVED", "CORRECTED"] } },
+      select: { id: true, question: true },
+    });
+
+    const matches = await findPriorAnswers(rows, {
+      excludeProjectId: id,
+      projectIds: await getAccessibleProjectIds(auth.session.user),
+    });
+
+    return apiSuccess({ matches });
+  } catch (error) {
+    logger.error("Failed to find prior answers", error, { route: "/api/projects/[id]/prior-answers" });
+    return errors.internal("Failed to find prior answers");
+  }
+}
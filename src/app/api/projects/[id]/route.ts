@@ -1,10 +1,13 @@
 import { NextRequest } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { ProjectStatus, RowStatus, Prisma } from "@prisma/client";
-import { requireAuth } from "@/lib/apiAuth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { logProjectChange, getUserFromSession, computeChanges } from "@/lib/auditLog";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
+import { FINALIZED_LOCK_REASON, lockProjectAnswers } from "@/lib/answerLocks";
+import { getProjectAccess, hasProjectRole, requireProjectAccess } from "@/lib/projectAccess";
+import { getReviewerIds, notifyUsers } from "@/lib/notifications";
 
 interface RouteContext {
   params: Promise<{ id: string }>;
@@ -12,6 +15,11 @@ interface RouteContext {
 
 interface RowInput {
   rowNumber: number;
+  sourceTab?: string;
+  sourceRowNumber?: number;
+  sourceLocation?: unknown;
+  section?: string;
+  questionId?: string;
   question: string;
   response?: string;
   status?: string;
@@ -29,9 +37,21 @@ interface RowInput {
 
 // GET /api/projects/[id] - Get single project
 export async function GET(request: NextRequest, context: RouteContext) {
+  const auth = await requireRoutePermission("/api/projects/[id]", "GET");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
   try {
     const params = await context.params;
     const { id } = params;
+    const access = await getProjectAccess(id, auth.session.user);
+    if (!access.exists) {
+      return errors.notFound("Project");
+    }
+    if (!access.role) {
+      return errors.forbidden("You don't have access to this project");
+    }
 
     const project = await prisma.bulkProject.findUnique({
       where: { id },
@@ -41,6 +61,11 @@ export async function GET(request: NextRequest, context: RouteContext) {
             rowNumber: "asc",
           },
         },
+        sections: {
+          orderBy: {
+            position: "asc",
+          },
+        },
         owner: {
           select: { id: true, name: true, email: true },
         },
@@ -66,6 +91,8 @@ export async function GET(request: NextRequest, context: RouteContext) {
     const transformedProject = {
       ...project,
       customerProfiles: project.customerProfiles.map((cp) => cp.profile),
+      // The current user's role, so the page can hide what they can't change
+      accessRole: access.role,
     };
 
     return apiSuccess({ project: transformedProject });
@@ -77,7 +104,7 @@ export async function GET(request: NextRequest, context: RouteContext) {
 
 // PUT /api/projects/[id] - Update project
 export async function PUT(request: NextRequest, context: RouteContext) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/projects/[id]", "PUT");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -85,19 +112,39 @@ export async function PUT(request: NextRequest, context: RouteContext) {
   try {
     const params = await context.params;
     const { id } = params;
+    // Reviewers can move the project through review; everything else needs the editor role
+    const { exists, role } = await getProjectAccess(id, auth.session.user);
+    if (!exists) {
+      return errors.notFound("Project");
+    }
+    if (!hasProjectRole(role, "REVIEWER")) {
+      return errors.forbidden("You don't have permission to change this project");
+    }
+    const canEdit = hasProjectRole(role, "EDITOR");
     const body = await request.json();
+    const fields = canEdit
+      ? body
+      : {
+          status: body.status,
+          reviewRequestedAt: body.reviewRequestedAt,
+          reviewRequestedBy: body.reviewRequestedBy,
+          reviewedAt: body.reviewedAt,
+          reviewedBy: body.reviewedBy,
+        };
 
     const {
       name, sheetName, columns, rows, ownerId, ownerName, customerName, notes, status,
       reviewRequestedAt, reviewRequestedBy, reviewedAt, reviewedBy,
-      customerProfileIds
-    } = body;
+      customerProfileIds, customerDocumentIds
+    } = fields;
 
     // Map status string to enum
     const projectStatus: ProjectStatus | undefined = status
       ? (status.toUpperCase().replace(/-/g, "_") as ProjectStatus)
       : undefined;
 
+    const user = getUserFromSession(auth.session);
+
     // Use transaction for atomic updates
     const result = await prisma.$transaction(async (tx) => {
       // Get existing project for audit log
@@ -105,6 +152,10 @@ export async function PUT(request: NextRequest, context: RouteContext) {
       if (!existing) {
         throw new Error("NOT_FOUND");
       }
+      // Only the owner (or an admin) hands the project to someone else
+      if (ownerId !== undefined && (ownerId || null) !== existing.ownerId && role !== "OWNER") {
+        throw new Error("OWNER_ONLY");
+      }
 
       // Handle customer profile associations if provided
       if (customerProfileIds !== undefined) {
@@ -142,6 +193,7 @@ export async function PUT(request: NextRequest, context: RouteContext) {
       if (ownerName !== undefined) updateData.ownerName = ownerName;
       if (customerName !== undefined) updateData.customerName = customerName;
       if (notes !== undefined) updateData.notes = notes;
+      if (Array.isArray(customerDocumentIds)) updateData.customerDocumentIds = customerDocumentIds;
       if (projectStatus) updateData.status = projectStatus;
       if (reviewRequestedAt !== undefined) updateData.reviewRequestedAt = reviewRequestedAt ? new Date(reviewRequestedAt) : null;
       if (reviewRequestedBy !== undefined) updateData.reviewRequestedBy = reviewRequestedBy;
@@ -154,21 +206,31 @@ export async function PUT(request: NextRequest, context: RouteContext) {
         data: updateData,
       });
 
-      // Handle rows separately with upsert for efficiency
-      if (rows && Array.isArray(rows)) {
+      // Handle rows separately with upsert for efficiency. A locked project's rows
+      // are frozen, and locked rows are never overwritten or removed by autosave.
+      if (rows && Array.isArray(rows) && !existing.locked) {
         const rowInputs = rows as RowInput[];
         const newRowNumbers = new Set(rowInputs.map(r => r.rowNumber));
+        const lockedRows = await tx.bulkRow.findMany({
+          where: { projectId: id, locked: true },
+          select: { rowNumber: true },
+        });
+        const lockedRowNumbers = new Set(lockedRows.map(r => r.rowNumber));
 
         // Delete rows that are no longer in the update (removed rows)
         await tx.bulkRow.deleteMany({
           where: {
             projectId: id,
+            locked: false,
             rowNumber: { notIn: [...newRowNumbers] },
           },
         });
 
         // Upsert each row
         for (const row of rowInputs) {
+          if (lockedRowNumbers.has(row.rowNumber)) {
+            continue;
+          }
           const rowStatus = (row.status?.toUpperCase() || "PENDING") as RowStatus;
           const conversationHistory = row.conversationHistory
             ? (row.conversationHistory as Prisma.InputJsonValue)
@@ -179,12 +241,21 @@ export async function PUT(request: NextRequest, context: RouteContext) {
           const clarifyConversation = row.clarifyConversation
             ? (row.clarifyConversation as Prisma.InputJsonValue)
             : Prisma.JsonNull;
+          // Set when the project is created from a .docx; never cleared by autosave
+          const sourceLocation = row.sourceLocation
+            ? (row.sourceLocation as Prisma.InputJsonValue)
+            : undefined;
 
           await tx.bulkRow.upsert({
             where: {
               projectId_rowNumber: { projectId: id, rowNumber: row.rowNumber },
             },
             update: {
+              sourceTab: row.sourceTab,
+              sourceRowNumber: row.sourceRowNumber,
+              sourceLocation,
+              section: row.section,
+              questionId: row.questionId,
               question: row.question,
               response: row.response || "",
               status: rowStatus,
@@ -202,6 +273,11 @@ export async function PUT(request: NextRequest, context: RouteContext) {
             create: {
               projectId: id,
               rowNumber: row.rowNumber,
+              sourceTab: row.sourceTab,
+              sourceRowNumber: row.sourceRowNumber,
+              sourceLocation,
+              section: row.section,
+              questionId: row.questionId,
               question: row.question,
               response: row.response || "",
               status: rowStatus,
@@ -220,11 +296,18 @@ export async function PUT(request: NextRequest, context: RouteContext) {
         }
       }
 
+      // Finalizing a project locks its answers
+      let lockedRowCount: number | null = null;
+      if (projectStatus === "FINALIZED" && existing.status !== "FINALIZED" && !existing.locked) {
+        lockedRowCount = await lockProjectAnswers(tx, id, user, FINALIZED_LOCK_REASON);
+      }
+
       // Fetch updated project with relations
       const project = await tx.bulkProject.findUnique({
         where: { id },
         include: {
           rows: { orderBy: { rowNumber: "asc" } },
+          sections: { orderBy: { position: "asc" } },
           customerProfiles: {
             include: {
               profile: {
@@ -235,7 +318,7 @@ export async function PUT(request: NextRequest, context: RouteContext) {
         },
       });
 
-      return { existing, project: project! };
+      return { existing, project: project!, lockedRowCount };
     });
 
     // Transform customerProfiles to a simpler format
@@ -262,15 +345,40 @@ export async function PUT(request: NextRequest, context: RouteContext) {
       auditAction,
       result.project.id,
       result.project.name,
-      getUserFromSession(auth.session),
+      user,
       Object.keys(changes).length > 0 ? changes : undefined
     );
+    if (result.lockedRowCount !== null) {
+      await logProjectChange(
+        "LOCKED",
+        result.project.id,
+        result.project.name,
+        user,
+        undefined,
+        { reason: FINALIZED_LOCK_REASON, automatic: true, rowsLocked: result.lockedRowCount }
+      );
+    }
+
+    // Requesting a project review notifies the reviewers
+    if (projectStatus === "NEEDS_REVIEW" && result.existing.status !== "NEEDS_REVIEW") {
+      const requesterName = auth.session.user.name || auth.session.user.email || "Someone";
+      await notifyUsers(await getReviewerIds(), {
+        type: "REVIEW_REQUESTED",
+        title: `${requesterName} requested a review of ${result.project.name}`,
+        body: result.project.customerName ? `Customer: ${result.project.customerName}` : null,
+        link: `/projects/${result.project.id}`,
+        actorName: requesterName,
+      }, { excludeUserId: auth.session.user.id });
+    }
 
     return apiSuccess({ project: transformedProject });
   } catch (error) {
     if (error instanceof Error && error.message === "NOT_FOUND") {
       return errors.notFound("Project");
     }
+    if (error instanceof Error && error.message === "OWNER_ONLY") {
+      return errors.forbidden("Only the project owner can change its owner");
+    }
     logger.error("Error updating project", error, { route: "/api/projects/[id]" });
     return errors.internal("Failed to update project");
   }
@@ -278,7 +386,7 @@ export async function PUT(request: NextRequest, context: RouteContext) {
 
 // DELETE /api/projects/[id] - Delete project
 export async function DELETE(request: NextRequest, context: RouteContext) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/projects/[id]", "DELETE");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -286,6 +394,10 @@ export async function DELETE(request: NextRequest, context: RouteContext) {
   try {
     const params = await context.params;
     const { id } = params;
+    const denied = await requireProjectAccess(id, auth.session.user, "OWNER");
+    if (denied) {
+      return denied;
+    }
 
     // Get project before deleting for audit log
     const project = await prisma.bulkProject.findUnique({ where: { id } });
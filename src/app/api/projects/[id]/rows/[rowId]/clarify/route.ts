@@ -1,9 +1,10 @@
 import { NextRequest } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { requireAuth } from "@/lib/apiAuth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { logAnswerChange, getUserFromSession, getRequestContext } from "@/lib/auditLog";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
+import { requireProjectAccess } from "@/lib/projectAccess";
 
 interface RouteContext {
   params: Promise<{ id: string; rowId: string }>;
@@ -16,7 +17,7 @@ interface ClarifyMessage {
 
 // POST /api/projects/[id]/rows/[rowId]/clarify - Log clarify usage and auto-flag
 export async function POST(request: NextRequest, context: RouteContext) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/projects/[id]/rows/[rowId]/clarify", "POST");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -24,6 +25,10 @@ export async function POST(request: NextRequest, context: RouteContext) {
   try {
     const params = await context.params;
     const { id: projectId, rowId } = params;
+    const denied = await requireProjectAccess(projectId, auth.session.user, "EDITOR");
+    if (denied) {
+      return denied;
+    }
     const body = await request.json();
     const { conversation, userMessage } = body as {
       conversation: ClarifyMessage[];
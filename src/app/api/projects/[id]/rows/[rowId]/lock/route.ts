@@ -0,0 +1,155 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireRoutePermission } from "@/lib/routePermissions";
+import { lockAnswersSchema, unlockAnswersSchema, validateBody } from "@/lib/validations";
+import { buildLockData, UNLOCK_DATA } from "@/lib/answerLocks";
+import { logAnswerChange, getUserFromSession, getRequestContext } from "@/lib/auditLog";
+import { apiSuccess, errors } from "@/lib/apiResponse";
+import { logger } from "@/lib/logger";
+import { requireProjectAccess } from "@/lib/projectAccess";
+
+interface RouteContext {
+  params: Promise<{ id: string; rowId: string }>;
+}
+
+async function readJson(request: NextRequest): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * POST /api/projects/[id]/rows/[rowId]/lock - Lock a single answer
+ *
+ * @description Freezes the row's answer: edits, review changes and
+ * regeneration are refused until it is unlocked. Flags can still be raised.
+ *
+ * @authentication Required
+ * @body {{ reason?: string }}
+ * @returns {{ row: BulkRow }} 200
+ * @returns 404 if the row doesn't belong to the project
+ * @returns 409 if the row is already locked
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  const auth = await requireRoutePermission("/api/projects/[id]/rows/[rowId]/lock", "POST");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  try {
+    const { id: projectId, rowId } = await context.params;
+    const denied = await requireProjectAccess(projectId, auth.session.user, "REVIEWER");
+    if (denied) {
+      return denied;
+    }
+
+    const validation = validateBody(lockAnswersSchema, await readJson(request));
+    if (!validation.success) {
+      return errors.validation(validation.error);
+    }
+    const { reason } = validation.data;
+
+    const row = await prisma.bulkRow.findFirst({
+      where: { id: rowId, projectId },
+      include: { project: { select: { name: true } } },
+    });
+    if (!row) {
+      return errors.notFound("Row");
+    }
+    if (row.locked) {
+      return errors.conflict("Answer is already locked");
+    }
+
+    const user = getUserFromSession(auth.session);
+    const updatedRow = await prisma.bulkRow.update({
+      where: { id: rowId },
+      data: buildLockData(user, reason),
+    });
+
+    await logAnswerChange(
+      "LOCKED",
+      rowId,
+      row.question?.substring(0, 100) || "Answer",
+      user,
+      undefined,
+      { projectId, projectName: row.project.name, reason: reason || null, response: row.response },
+      getRequestContext(request)
+    );
+
+    return apiSuccess({ row: updatedRow });
+  } catch (error) {
+    logger.error("Failed to lock answer", error, { route: "/api/projects/[id]/rows/[rowId]/lock" });
+    return errors.internal("Failed to lock answer");
+  }
+}
+
+/**
+ * DELETE /api/projects/[id]/rows/[rowId]/lock - Unlock a single answer
+ *
+ * @authentication Required - REVIEW_ANSWERS capability
+ * @body {{ reason: string }} - Why the answer is being reopened (recorded in the audit log)
+ * @returns {{ row: BulkRow }} 200
+ * @returns 404 if the row doesn't belong to the project
+ * @returns 409 if the row isn't locked, or its project is locked (unlock the project instead)
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const auth = await requireRoutePermission("/api/projects/[id]/rows/[rowId]/lock", "DELETE");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  try {
+    const { id: projectId, rowId } = await context.params;
+    const denied = await requireProjectAccess(projectId, auth.session.user, "REVIEWER");
+    if (denied) {
+      return denied;
+    }
+
+    const validation = validateBody(unlockAnswersSchema, await readJson(request));
+    if (!validation.success) {
+      return errors.validation(validation.error);
+    }
+    const { reason } = validation.data;
+
+    const row = await prisma.bulkRow.findFirst({
+      where: { id: rowId, projectId },
+      include: { project: { select: { name: true, locked: true } } },
+    });
+    if (!row) {
+      return errors.notFound("Row");
+    }
+    if (row.project.locked) {
+      return errors.conflict("The project is locked; unlock the project to reopen its answers");
+    }
+    if (!row.locked) {
+      return errors.conflict("Answer is not locked");
+    }
+
+    const updatedRow = await prisma.bulkRow.update({
+      where: { id: rowId },
+      data: UNLOCK_DATA,
+    });
+
+    await logAnswerChange(
+      "UNLOCKED",
+      rowId,
+      row.question?.substring(0, 100) || "Answer",
+      getUserFromSession(auth.session),
+      undefined,
+      {
+        projectId,
+        projectName: row.project.name,
+        reason,
+        previousLock: { lockedAt: row.lockedAt, lockedBy: row.lockedBy, reason: row.lockReason },
+      },
+      getRequestContext(request)
+    );
+
+    return apiSuccess({ row: updatedRow });
+  } catch (error) {
+    logger.error("Failed to unlock answer", error, { route: "/api/projects/[id]/rows/[rowId]/lock" });
+    return errors.internal("Failed to unlock answer");
+  }
+}
@@ -1,10 +1,16 @@
 import { NextRequest } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { RowReviewStatus } from "@prisma/client";
-import { requireAuth } from "@/lib/apiAuth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { logAnswerChange, computeChanges, getUserFromSession, getRequestContext } from "@/lib/auditLog";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
+import { invalidatePriorAnswerIndex } from "@/lib/answerLibrary";
+import { getBlockedLockedFields, isRowLocked } from "@/lib/answerLocks";
+import { queueCorrectionProposal } from "@/lib/skillProposals";
+import { requireProjectAccess } from "@/lib/projectAccess";
+import { getReviewerIds, notifyUsers } from "@/lib/notifications";
+import { sendSlackNotification, toAppUrl } from "@/lib/slackNotify";
 
 interface RouteContext {
   params: Promise<{ id: string; rowId: string }>;
@@ -12,7 +18,7 @@ interface RouteContext {
 
 // PATCH /api/projects/[id]/rows/[rowId] - Update a specific row
 export async function PATCH(request: NextRequest, context: RouteContext) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/projects/[id]/rows/[rowId]", "PATCH");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -20,6 +26,10 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
   try {
     const params = await context.params;
     const { id: projectId, rowId } = params;
+    const denied = await requireProjectAccess(projectId, auth.session.user, "REVIEWER");
+    if (denied) {
+      return denied;
+    }
     const body = await request.json();
 
     // Verify row exists and belongs to project
@@ -32,6 +42,14 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
       return errors.notFound("Row");
     }
 
+    // Locked answers only accept flag changes
+    if (isRowLocked(row, row.project)) {
+      const blocked = getBlockedLockedFields(body);
+      if (blocked.length > 0) {
+        return errors.conflict(`Answer is locked and can't be changed (${blocked.join(", ")})`);
+      }
+    }
+
     // Build update data based on provided fields
     const updateData: Record<string, unknown> = {};
 
@@ -118,6 +136,11 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
       data: updateData,
     });
 
+    // Review changes add, edit or remove answers in the prior-answer library
+    if (body.reviewStatus !== undefined || body.userEditedAnswer !== undefined) {
+      invalidatePriorAnswerIndex();
+    }
+
     // Log answer changes to audit log
     const user = auth.session ? getUserFromSession(auth.session) : undefined;
     const requestContext = getRequestContext(request);
@@ -153,6 +176,11 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
         },
         requestContext
       );
+
+      // Suggest how the skill library should change so the mistake isn't repeated
+      if (updatedRow.reviewStatus === "CORRECTED") {
+        queueCorrectionProposal({ type: "project", id: rowId });
+      }
     } else if (body.reviewStatus === "APPROVED") {
       // Answer was approved
       await logAnswerChange(
@@ -189,6 +217,20 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
       );
     }
 
+    // Tell the project owner about flags raised or resolved by someone else
+    const raisedFlag = body.flaggedForReview === true && body.flagResolved !== true;
+    if (raisedFlag || body.flagResolved === true) {
+      const actorName = auth.session.user.name || auth.session.user.email || "Someone";
+      const note = raisedFlag ? body.flagNote : body.flagResolutionNote;
+      await notifyUsers([row.project.ownerId], {
+        type: raisedFlag ? "FLAG_RAISED" : "FLAG_RESOLVED",
+        title: `${actorName} ${raisedFlag ? "flagged" : "resolved a flag on"} an answer in ${row.project.name}`,
+        body: [row.question?.substring(0, 200), note].filter(Boolean).join("\n"),
+        link: `/projects/${projectId}#row-${rowId}`,
+        actorName,
+      }, { excludeUserId: auth.session.user.id });
+    }
+
     return apiSuccess({ row: updatedRow });
   } catch (error) {
     logger.error("Failed to update row", error, { route: "/api/projects/[id]/rows/[rowId]" });
@@ -198,7 +240,7 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
 
 // POST /api/projects/[id]/rows/[rowId]/request-review - Request review with Slack notification
 export async function POST(request: NextRequest, context: RouteContext) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/projects/[id]/rows/[rowId]", "POST");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -206,6 +248,10 @@ export async function POST(request: NextRequest, context: RouteContext) {
   try {
     const params = await context.params;
     const { id: projectId, rowId } = params;
+    const denied = await requireProjectAccess(projectId, auth.session.user, "EDITOR");
+    if (denied) {
+      return denied;
+    }
     const body = await request.json();
     const { reviewNote, sendSlack = true, assignedReviewerId, assignedReviewerName } = body;
 
@@ -218,6 +264,9 @@ export async function POST(request: NextRequest, context: RouteContext) {
     if (!row) {
       return errors.notFound("Row");
     }
+    if (isRowLocked(row, row.project)) {
+      return errors.conflict("Answer is locked");
+    }
 
     const requesterName = auth.session?.user?.name || auth.session?.user?.email || "Unknown User";
 
@@ -262,32 +311,31 @@ export async function POST(request: NextRequest, context: RouteContext) {
       requestContext
     );
 
-    // Send Slack notification if enabled
+    // The assigned reviewer, or every reviewer when nobody was picked
+    await notifyUsers(assignedReviewerId ? [assignedReviewerId] : await getReviewerIds(), {
+      type: assignedReviewerId ? "REVIEW_ASSIGNED" : "REVIEW_REQUESTED",
+      title: `${requesterName} requested a review in ${row.project.name}`,
+      body: [row.question?.substring(0, 200), reviewNote].filter(Boolean).join("\n"),
+      link: `/projects/${projectId}#row-${rowId}`,
+      actorName: requesterName,
+    }, { excludeUserId: auth.session.user.id });
+
+    // Send Slack notification if enabled (an unanswered row has nothing to review)
     let slackSent = false;
-    if (sendSlack) {
+    if (sendSlack && row.response.trim()) {
       try {
-        const projectUrl = `${request.headers.get("origin") || ""}/projects/${projectId}?filter=flagged`;
-
-        const slackResponse = await fetch(
-          `${request.headers.get("origin") || ""}/api/slack/notify`,
-          {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              type: "question",
-              projectName: row.project.name,
-              projectUrl,
-              customerName: row.project.customerName,
-              requesterName,
-              question: row.question,
-              answer: row.response,
-              confidence: row.confidence,
-              reviewNote,
-            }),
-          }
-        );
-
-        slackSent = slackResponse.ok;
+        const result = await sendSlackNotification({
+          type: "question",
+          projectName: row.project.name,
+          projectUrl: toAppUrl(`/projects/${projectId}?filter=flagged`, request.url),
+          customerName: row.project.customerName ?? undefined,
+          requesterName,
+          question: row.question,
+          answer: row.response,
+          confidence: row.confidence ?? undefined,
+          reviewNote,
+        });
+        slackSent = result === "sent";
       } catch (slackError) {
         logger.warn("Slack notification failed", slackError);
       }
@@ -0,0 +1,127 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireRoutePermission } from "@/lib/routePermissions";
+import { getPriorAnswer } from "@/lib/answerLibrary";
+import { usePriorAnswerSchema, validateBody } from "@/lib/validations";
+import { logAnswerChange, getUserFromSession, getRequestContext } from "@/lib/auditLog";
+import { apiSuccess, errors } from "@/lib/apiResponse";
+import { logger } from "@/lib/logger";
+import { isRowLocked } from "@/lib/answerLocks";
+import { getProjectAccess, requireProjectAccess } from "@/lib/projectAccess";
+
+interface RouteContext {
+  params: Promise<{ id: string; rowId: string }>;
+}
+
+/**
+ * POST /api/projects/[id]/rows/[rowId]/use-prior-answer - Reuse an approved answer
+ *
+ * @description Copies a previously APPROVED/CORRECTED answer into the row and
+ * marks it completed, so it is answered without an LLM call (background jobs
+ * only pick up pending rows). The row's reasoning and remarks record where the
+ * answer came from and who reviewed it.
+ *
+ * @authentication Required
+ * @body {{ sourceType: "project" | "question", sourceId: string }}
+ * @returns {{ row: BulkRow }} 200
+ * @returns 404 if the row or prior answer doesn't exist (or is no longer approved,
+ *   or belongs to a project the user can't see)
+ * @returns 409 if the project is finalized or the answer is locked
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  const auth = await requireRoutePermission("/api/projects/[id]/rows/[rowId]/use-prior-answer", "POST");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  try {
+    const { id: projectId, rowId } = await context.params;
+    const denied = await requireProjectAccess(projectId, auth.session.user, "EDITOR");
+    if (denied) {
+      return denied;
+    }
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return errors.badRequest("Invalid JSON body");
+    }
+
+    const validation = validateBody(usePriorAnswerSchema, body);
+    if (!validation.success) {
+      return errors.validation(validation.error);
+    }
+    const { sourceType, sourceId } = validation.data;
+
+    const row = await prisma.bulkRow.findFirst({
+      where: { id: rowId, projectId },
+      include: { project: { select: { name: true, status: true, locked: true } } },
+    });
+    if (!row) {
+      return errors.notFound("Row");
+    }
+    if (row.project.status === "FINALIZED") {
+      return errors.conflict("Project is finalized");
+    }
+    if (isRowLocked(row, row.project)) {
+      return errors.conflict("Answer is locked");
+    }
+
+    const prior = await getPriorAnswer(sourceType, sourceId);
+    // Answers from projects the user can't see are reported as missing
+    const source = prior?.projectId ? await getProjectAccess(prior.projectId, auth.session.user) : null;
+    if (!prior || (source && source.role === null)) {
+      return errors.notFound("Approved answer");
+    }
+
+    const origin = prior.projectName ? `project "${prior.projectName}"` : "question history";
+    const reviewer = prior.reviewedBy ? ` (${prior.reviewStatus.toLowerCase()} by ${prior.reviewedBy})` : "";
+
+    const updatedRow = await prisma.bulkRow.update({
+      where: { id: rowId },
+      data: {
+        response: prior.answer,
+        confidence: prior.confidence,
+        sources: prior.sources,
+        reasoning: `Reused a previously approved answer to a similar question: "${prior.question}"`,
+        inference: "None",
+        remarks: `Approved answer reused from ${origin}${reviewer}.`,
+        status: "COMPLETED",
+        error: null,
+        usedSkills: [],
+        answeredAt: new Date(),
+        showRecommendation: false,
+      },
+    });
+
+    const user = getUserFromSession(auth.session);
+    await logAnswerChange(
+      "UPDATED",
+      rowId,
+      row.question?.substring(0, 100) || "Answer",
+      user,
+      { response: { from: row.response, to: prior.answer } },
+      {
+        projectId,
+        projectName: row.project.name,
+        reusedFrom: {
+          sourceType,
+          sourceId,
+          projectId: prior.projectId,
+          projectName: prior.projectName,
+          reviewedBy: prior.reviewedBy,
+          reviewStatus: prior.reviewStatus,
+        },
+      },
+      getRequestContext(request)
+    );
+
+    return apiSuccess({ row: updatedRow });
+  } catch (error) {
+    logger.error("Failed to reuse prior answer", error, {
+      route: "/api/projects/[id]/rows/[rowId]/use-prior-answer",
+    });
+    return errors.internal("Failed to reuse prior answer");
+  }
+}
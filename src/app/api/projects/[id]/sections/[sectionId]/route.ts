@@ -0,0 +1,141 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireRoutePermission } from "@/lib/routePermissions";
+import { assignSectionReviewerSchema, validateBody } from "@/lib/validations";
+import { collectSectionIds } from "@/lib/projectSections";
+import { logProjectChange, getUserFromSession } from "@/lib/auditLog";
+import { apiSuccess, errors } from "@/lib/apiResponse";
+import { logger } from "@/lib/logger";
+import { requireProjectAccess } from "@/lib/projectAccess";
+import { notifyUsers } from "@/lib/notifications";
+
+interface RouteContext {
+  params: Promise<{ id: string; sectionId: string }>;
+}
+
+/**
+ * PATCH /api/projects/[id]/sections/[sectionId] - Assign a reviewer to a section
+ *
+ * @description Records the reviewer responsible for a section. With queueRows,
+ * every row in the section (including nested sections) that is not already
+ * under review is added to the review queue for that reviewer; the project
+ * page sends the queue as usual. A null reviewerId clears the assignment.
+ * The assigned reviewer is notified.
+ *
+ * @authentication Required
+ * @body {{ reviewerId: string | null, reviewerName?: string, queueRows?: boolean, note?: string }}
+ * @returns {{ section: ProjectSection, queuedRowIds: string[] }} 200
+ * @returns 404 if the section doesn't belong to the project
+ */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const auth = await requireRoutePermission("/api/projects/[id]/sections/[sectionId]", "PATCH");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  try {
+    const { id: projectId, sectionId } = await context.params;
+    const denied = await requireProjectAccess(projectId, auth.session.user, "EDITOR");
+    if (denied) {
+      return denied;
+    }
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return errors.badRequest("Invalid JSON body");
+    }
+
+    const validation = validateBody(assignSectionReviewerSchema, body);
+    if (!validation.success) {
+      return errors.validation(validation.error);
+    }
+    const { reviewerId, reviewerName, queueRows, note } = validation.data;
+
+    const sections = await prisma.projectSection.findMany({
+      where: { projectId },
+      select: { id: true, parentId: true, title: true },
+    });
+    const target = sections.find((section) => section.id === sectionId);
+    if (!target) {
+      return errors.notFound("Section");
+    }
+
+    const queuedBy = auth.session.user.name || auth.session.user.email || "Unknown";
+    const sectionIds = [...collectSectionIds(sections, sectionId)];
+
+    const result = await prisma.$transaction(async (tx) => {
+      const section = await tx.projectSection.update({
+        where: { id: sectionId },
+        data: {
+          assignedReviewerId: reviewerId,
+          assignedReviewerName: reviewerId ? reviewerName ?? null : null,
+        },
+      });
+
+      if (!reviewerId || !queueRows) {
+        return { section, queuedRowIds: [] as string[] };
+      }
+
+      // Rows already requested, approved or corrected keep their current reviewer; locked rows are left out
+      const rows = await tx.bulkRow.findMany({
+        where: { projectId, sectionId: { in: sectionIds }, reviewStatus: "NONE", locked: false },
+        select: { id: true },
+      });
+      const queuedRowIds = rows.map((row) => row.id);
+      if (queuedRowIds.length > 0) {
+        await tx.bulkRow.updateMany({
+          where: { id: { in: queuedRowIds } },
+          data: {
+            queuedForReview: true,
+            queuedAt: new Date(),
+            queuedBy,
+            queuedNote: note || null,
+            queuedReviewerId: reviewerId,
+            queuedReviewerName: reviewerName ?? null,
+          },
+        });
+      }
+      return { section, queuedRowIds };
+    });
+
+    const project = await prisma.bulkProject.findUnique({ where: { id: projectId }, select: { name: true } });
+    await logProjectChange(
+      "UPDATED",
+      projectId,
+      project?.name || "Project",
+      getUserFromSession(auth.session),
+      undefined,
+      {
+        sectionId,
+        sectionTitle: target.title,
+        assignedReviewerId: reviewerId,
+        assignedReviewerName: reviewerName ?? null,
+        queuedRows: result.queuedRowIds.length,
+      }
+    );
+
+    if (reviewerId) {
+      await notifyUsers([reviewerId], {
+        type: "REVIEW_ASSIGNED",
+        title: `You're the reviewer for "${target.title}" in ${project?.name || "a project"}`,
+        body: [
+          result.queuedRowIds.length > 0
+            ? `${result.queuedRowIds.length} question${result.queuedRowIds.length === 1 ? "" : "s"} queued for your review`
+            : null,
+          note,
+        ].filter(Boolean).join("\n"),
+        link: `/projects/${projectId}`,
+        actorName: queuedBy,
+      }, { excludeUserId: auth.session.user.id });
+    }
+
+    return apiSuccess(result);
+  } catch (error) {
+    logger.error("Failed to assign section reviewer", error, {
+      route: "/api/projects/[id]/sections/[sectionId]",
+    });
+    return errors.internal("Failed to assign section reviewer");
+  }
+}
@@ -0,0 +1,173 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireRoutePermission } from "@/lib/routePermissions";
+import { buildSheetFills, fillWorkbook } from "@/lib/xlsxFill";
+import { buildAnsweredDocxBuffer, locationKey, type DocumentBlock, type DocumentAnswer } from "@/lib/docxQuestionnaire";
+import { logProjectChange, getUserFromSession } from "@/lib/auditLog";
+import { errors } from "@/lib/apiResponse";
+import { logger } from "@/lib/logger";
+import type { DocumentLocation, SourceSheetMapping } from "@/types/bulkProject";
+import { requireProjectAccess } from "@/lib/projectAccess";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+};
+
+type ExportRow = {
+  rowNumber: number;
+  sourceTab: string | null;
+  sourceRowNumber: number | null;
+  sourceLocation: unknown;
+  response: string;
+  remarks: string | null;
+  reviewStatus: string;
+  locked: boolean;
+  flaggedForReview: boolean;
+  flagResolved: boolean;
+};
+
+// Approved, corrected or locked, and not waiting on an open flag
+function isFinalAnswer(row: ExportRow): boolean {
+  if (row.flaggedForReview && !row.flagResolved) return false;
+  return row.locked || row.reviewStatus === "APPROVED" || row.reviewStatus === "CORRECTED";
+}
+
+// Place each answered row at its position in the parsed document outline
+function buildDocumentAnswers(rows: ExportRow[]): Map<string, DocumentAnswer & { location: DocumentLocation }> {
+  const answers = new Map<string, DocumentAnswer & { location: DocumentLocation }>();
+  for (const row of rows) {
+    const location = row.sourceLocation as DocumentLocation | null;
+    if (!location || !row.response) continue;
+    const key = locationKey({ block: location.block, row: location.kind === "table" ? location.row : undefined });
+    answers.set(key, { response: row.response, remarks: row.remarks, location });
+  }
+  return answers;
+}
+
+/**
+ * GET /api/projects/[id]/source-file/export - Download the filled original file
+ *
+ * @description For an .xlsx, returns a copy of the customer's workbook with
+ * answers written into each tab's answer column (and remarks into the comment
+ * column); formatting, data validation and untouched tabs are preserved.
+ * For a .docx, rebuilds the questionnaire's headings, numbered questions and
+ * tables with each answer placed in its table cell or below its question.
+ * Documents only include final answers (approved, corrected or locked, with
+ * no open flag) unless drafts are requested.
+ *
+ * @authentication Required
+ * @query approvedOnly - "true" to include only final answers, "false" to include
+ *   drafts too (defaults to "true" for .docx and "false" for .xlsx)
+ * @returns .xlsx or .docx file 200
+ * @returns 400 if no tab has an answer or comment column selected
+ * @returns 404 if the project has no stored file
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  const auth = await requireRoutePermission("/api/projects/[id]/source-file/export", "GET");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  try {
+    const { id } = await context.params;
+    const denied = await requireProjectAccess(id, auth.session.user);
+    if (denied) {
+      return denied;
+    }
+
+    const project = await prisma.bulkProject.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        name: true,
+        sourceFile: true,
+        rows: {
+          select: {
+            rowNumber: true,
+            sourceTab: true,
+            sourceRowNumber: true,
+            sourceLocation: true,
+            response: true,
+            remarks: true,
+            reviewStatus: true,
+            locked: true,
+            flaggedForReview: true,
+            flagResolved: true,
+          },
+          orderBy: { rowNumber: "asc" },
+        },
+      },
+    });
+    if (!project) {
+      return errors.notFound("Project");
+    }
+    if (!project.sourceFile) {
+      return errors.notFound("Source file");
+    }
+
+    const { fileType } = project.sourceFile;
+    const approvedOnlyParam = request.nextUrl.searchParams.get("approvedOnly");
+    const approvedOnly = approvedOnlyParam === null ? fileType === "docx" : approvedOnlyParam === "true";
+    const rows = approvedOnly ? project.rows.filter(isFinalAnswer) : project.rows;
+
+    let data: Buffer;
+    if (fileType === "docx") {
+      const answers = buildDocumentAnswers(rows);
+      data = await buildAnsweredDocxBuffer(
+        (project.sourceFile.documentOutline ?? []) as DocumentBlock[],
+        answers,
+        { title: project.name }
+      );
+      await logProjectChange(
+        "EXPORTED",
+        project.id,
+        project.name,
+        getUserFromSession(auth.session),
+        undefined,
+        { format: "original-docx", answeredQuestions: answers.size, approvedOnly }
+      );
+    } else {
+      const mappings = project.sourceFile.sheetMappings as SourceSheetMapping[];
+      if (!mappings.some((m) => m.answerColumn != null || m.commentColumn != null)) {
+        return errors.badRequest("Choose an answer column for at least one tab before exporting");
+      }
+
+      const fills = buildSheetFills(rows, mappings);
+      const result = await fillWorkbook(project.sourceFile.fileData, fills);
+      if (result.missingSheets.length > 0) {
+        logger.warn("Mapped tabs missing from source workbook", {
+          projectId: id,
+          missingSheets: result.missingSheets,
+        });
+      }
+      data = result.data;
+
+      await logProjectChange(
+        "EXPORTED",
+        project.id,
+        project.name,
+        getUserFromSession(auth.session),
+        undefined,
+        { format: "original-xlsx", filledCells: result.filledCells, missingSheets: result.missingSheets, approvedOnly }
+      );
+    }
+
+    const baseName = project.sourceFile.filename.replace(/\.(xlsx|docx)$/i, "");
+    const filename = `${baseName} (answered).${fileType}`;
+    return new Response(new Uint8Array(data), {
+      headers: {
+        "Content-Type": CONTENT_TYPES[fileType] ?? CONTENT_TYPES.xlsx,
+        "Content-Disposition": `attachment; filename="${filename.replace(/[^\x20-\x7e]|"/g, "_")}"; filename*=UTF-8''${encodeURIComponent(filename)}`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    logger.error("Failed to export filled source file", error, { route: "/api/projects/[id]/source-file/export" });
+    return errors.internal("Failed to export filled source file");
+  }
+}
@@ -0,0 +1,225 @@
+import { NextRequest } from "next/server";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { requireRoutePermission } from "@/lib/routePermissions";
+import { sourceSheetMappingSchema, updateSourceFileSchema, validateBody } from "@/lib/validations";
+import { logProjectChange, getUserFromSession } from "@/lib/auditLog";
+import { parseDocxQuestionnaire, type DocumentBlock } from "@/lib/docxQuestionnaire";
+import { apiSuccess, errors } from "@/lib/apiResponse";
+import { logger } from "@/lib/logger";
+import type { SourceSheetMapping } from "@/types/bulkProject";
+import { requireProjectAccess } from "@/lib/projectAccess";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Original files are stored in the database, so keep them bounded
+const MAX_FILE_SIZE = 20 * 1024 * 1024;
+
+// Metadata only - the file bytes are never sent back except as a filled export
+const SOURCE_FILE_SELECT = {
+  filename: true,
+  fileSize: true,
+  fileType: true,
+  uploadedBy: true,
+  createdAt: true,
+  sheetMappings: true,
+} as const;
+
+/**
+ * GET /api/projects/[id]/source-file - Original file metadata
+ *
+ * @description Returns the stored file's name, type and (for workbooks) per-tab
+ * column mapping, or null if the project was not created from an .xlsx or
+ * .docx upload.
+ *
+ * @authentication Required
+ * @returns {{ sourceFile: ProjectSourceFile | null }} 200
+ */
+export async function GET(_request: NextRequest, context: RouteContext) {
+  const auth = await requireRoutePermission("/api/projects/[id]/source-file", "GET");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  try {
+    const { id } = await context.params;
+    const denied = await requireProjectAccess(id, auth.session.user);
+    if (denied) {
+      return denied;
+    }
+
+    const sourceFile = await prisma.projectSourceFile.findUnique({
+      where: { projectId: id },
+      select: SOURCE_FILE_SELECT,
+    });
+
+    return apiSuccess({ sourceFile });
+  } catch (error) {
+    logger.error("Failed to fetch source file", error, { route: "/api/projects/[id]/source-file" });
+    return errors.internal("Failed to fetch source file");
+  }
+}
+
+/**
+ * POST /api/projects/[id]/source-file - Store the original file
+ *
+ * @description Saves the uploaded .xlsx and its per-tab column mapping, or a
+ * .docx and its parsed outline, so answers can later be written back into
+ * the customer's own file. Replaces any previously stored file.
+ *
+ * @authentication Required
+ * @body FormData { file: .xlsx | .docx, sheetMappings: JSON SourceSheetMapping[] (xlsx only) }
+ * @returns {{ sourceFile: ProjectSourceFile }} 201
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  const auth = await requireRoutePermission("/api/projects/[id]/source-file", "POST");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  try {
+    const { id } = await context.params;
+    const denied = await requireProjectAccess(id, auth.session.user, "EDITOR");
+    if (denied) {
+      return denied;
+    }
+
+    const formData = await request.formData();
+    const file = formData.get("file") as File | null;
+    const mappingsRaw = formData.get("sheetMappings") as string | null;
+
+    if (!file) {
+      return errors.badRequest("File is required");
+    }
+    const fileType = file.name.toLowerCase().split(".").pop();
+    if (fileType !== "xlsx" && fileType !== "docx") {
+      return errors.badRequest("Only .xlsx workbooks and .docx documents can be filled on export");
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      return errors.badRequest("File size exceeds 20MB limit");
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer());
+    // .xlsx and .docx files are zip packages
+    if (buffer.length < 4 || buffer.readUInt32LE(0) !== 0x04034b50) {
+      return errors.badRequest(`File is not a valid .${fileType} file`);
+    }
+
+    let sheetMappings: SourceSheetMapping[] = [];
+    let documentOutline: DocumentBlock[] | null = null;
+    if (fileType === "xlsx") {
+      let mappingsInput: unknown;
+      try {
+        mappingsInput = JSON.parse(mappingsRaw || "");
+      } catch {
+        return errors.badRequest("Invalid sheetMappings format");
+      }
+      const validation = validateBody(sourceSheetMappingSchema.array().min(1), mappingsInput);
+      if (!validation.success) {
+        return errors.validation(validation.error);
+      }
+      sheetMappings = validation.data;
+    } else {
+      try {
+        documentOutline = (await parseDocxQuestionnaire(buffer)).blocks;
+      } catch {
+        return errors.badRequest("File is not a valid .docx document");
+      }
+    }
+
+    const project = await prisma.bulkProject.findUnique({ where: { id }, select: { id: true, name: true } });
+    if (!project) {
+      return errors.notFound("Project");
+    }
+
+    const data = {
+      filename: file.name,
+      fileSize: file.size,
+      fileType,
+      fileData: buffer,
+      sheetMappings: sheetMappings as Prisma.InputJsonValue,
+      documentOutline: documentOutline ? (documentOutline as Prisma.InputJsonValue) : Prisma.JsonNull,
+      uploadedBy: auth.session.user.email,
+    };
+    const sourceFile = await prisma.projectSourceFile.upsert({
+      where: { projectId: id },
+      create: { projectId: id, ...data },
+      update: data,
+      select: SOURCE_FILE_SELECT,
+    });
+
+    await logProjectChange(
+      "UPDATED",
+      project.id,
+      project.name,
+      getUserFromSession(auth.session),
+      undefined,
+      { sourceFile: file.name, tabs: sheetMappings.map((m) => m.sheetName) }
+    );
+
+    return apiSuccess({ sourceFile }, { status: 201 });
+  } catch (error) {
+    logger.error("Failed to store source file", error, { route: "/api/projects/[id]/source-file" });
+    return errors.internal("Failed to store source file");
+  }
+}
+
+/**
+ * PATCH /api/projects/[id]/source-file - Update the column mapping
+ *
+ * @description Sets which answer/comment columns each tab is filled into on export.
+ *
+ * @authentication Required
+ * @body {{ sheetMappings: SourceSheetMapping[] }}
+ * @returns {{ sourceFile: ProjectSourceFile }} 200
+ */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const auth = await requireRoutePermission("/api/projects/[id]/source-file", "PATCH");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  try {
+    const { id } = await context.params;
+    const denied = await requireProjectAccess(id, auth.session.user, "EDITOR");
+    if (denied) {
+      return denied;
+    }
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return errors.badRequest("Invalid JSON body");
+    }
+
+    const validation = validateBody(updateSourceFileSchema, body);
+    if (!validation.success) {
+      return errors.validation(validation.error);
+    }
+
+    const existing = await prisma.projectSourceFile.findUnique({
+      where: { projectId: id },
+      select: { fileType: true },
+    });
+    if (!existing) {
+      return errors.notFound("Source file");
+    }
+    if (existing.fileType !== "xlsx") {
+      return errors.badRequest("Column mapping only applies to .xlsx workbooks");
+    }
+
+    const sourceFile = await prisma.projectSourceFile.update({
+      where: { projectId: id },
+      data: { sheetMappings: validation.data.sheetMappings as Prisma.InputJsonValue },
+      select: SOURCE_FILE_SELECT,
+    });
+
+    return apiSuccess({ sourceFile });
+  } catch (error) {
+    logger.error("Failed to update source file mapping", error, { route: "/api/projects/[id]/source-file" });
+    return errors.internal("Failed to update source file mapping");
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireRoutePermission } from "@/lib/routePermissions";
+import { checkStaleAnswers } from "@/lib/staleAnswers";
+import { apiSuccess, errors } from "@/lib/apiResponse";
+import { logger } from "@/lib/logger";
+import type { StaleSkillRef } from "@/types/skill";
+import { requireProjectAccess } from "@/lib/projectAccess";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/projects/[id]/stale-answers - List a project's possibly stale answers
+ *
+ * @description Re-checks the project's answered rows against the current skill
+ * versions, then returns the rows whose source skills changed after the answer
+ * was generated. Locked rows are included but can't be re-answered.
+ *
+ * @authentication Required
+ * @returns {{ rows: Array<{ id, rowNumber, question, locked, staleSkills, staleDetectedAt }> }} 200
+ * @returns 404 if the project doesn't exist
+ */
+export async function GET(_request: NextRequest, context: RouteContext) {
+  const auth = await requireRoutePermission("/api/projects/[id]/stale-answers", "GET");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  try {
+    const { id } = await context.params;
+    const denied = await requireProjectAccess(id, auth.session.user);
+    if (denied) {
+      return denied;
+    }
+
+    const project = await prisma.bulkProject.findUnique({ where: { id }, select: { id: true } });
+    if (!project) {
+      return errors.notFound("Project");
+    }
+
+    await checkStaleAnswers({ projectId: id });
+
+    const rows = await prisma.bulkRow.findMany({
+      where: { projectId: id, possiblyStale: true },
+      select: { id: true, rowNumber: true, question: true, locked: true, staleSkills: true, staleDetectedAt: true },
+      orderBy: { rowNumber: "asc" },
+    });
+
+    return apiSuccess({
+      rows: rows.map((row) => ({
+        ...row,
+        staleSkills: (row.staleSkills as StaleSkillRef[] | null) || [],
+        staleDetectedAt: row.staleDetectedAt?.toISOString(),
+      })),
+    });
+  } catch (error) {
+    logger.error("Failed to list stale answers", error, { route: "/api/projects/[id]/stale-answers" });
+    return errors.internal("Failed to list stale answers");
+  }
+}
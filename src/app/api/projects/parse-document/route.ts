@@ -0,0 +1,86 @@
+import { NextRequest } from "next/server";
+import { requireRoutePermission } from "@/lib/routePermissions";
+import { parseDocxQuestionnaire } from "@/lib/docxQuestionnaire";
+import { extractPdfQuestions, PDF_INPUT_ERRORS } from "@/lib/pdfQuestionnaire";
+import { logUsage } from "@/lib/usageTracking";
+import { checkRateLimit, getRateLimitIdentifier } from "@/lib/rateLimit";
+import { apiSuccess, errors } from "@/lib/apiResponse";
+import { logger } from "@/lib/logger";
+
+const MAX_FILE_SIZE = 20 * 1024 * 1024;
+
+export const maxDuration = 300; // Long PDFs are read in several LLM passes
+
+/**
+ * POST /api/projects/parse-document - Extract questions from a Word or PDF questionnaire
+ *
+ * @description Parses an uploaded questionnaire for the project upload preview.
+ * .docx files are read structurally (question tables and numbered questions);
+ * .pdf text is extracted with pdf-parse (or the shared PDF extractor for
+ * scanned files) and an LLM identifies each question, its printed ID and
+ * section. Nothing is stored; a .docx is sent again to
+ * /api/projects/[id]/source-file once the project is created.
+ *
+ * @authentication Required
+ * @body FormData { file: .docx | .pdf }
+ * @returns {{ questions: ParsedDocumentQuestion[] }} 200
+ * @returns {{ error: string }} 400 - Unreadable or too long PDF, or no questions found
+ */
+export async function POST(request: NextRequest) {
+  const auth = await requireRoutePermission("/api/projects/parse-document", "POST");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  let fileType: string | undefined;
+  try {
+    const formData = await request.formData();
+    const file = formData.get("file") as File | null;
+
+    if (!file) {
+      return errors.badRequest("File is required");
+    }
+    fileType = file.name.toLowerCase().split(".").pop();
+    if (fileType !== "docx" && fileType !== "pdf") {
+      return errors.badRequest("Only .docx and .pdf documents are supported");
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      return errors.badRequest("File size exceeds 20MB limit");
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer());
+
+    if (fileType === "docx") {
+      const { questions } = await parseDocxQuestionnaire(buffer);
+      return apiSuccess({ questions });
+    }
+
+    // Rate limit - PDF extraction calls the LLM
+    const rateLimit = await checkRateLimit(await getRateLimitIdentifier(request), "llm");
+    if (!rateLimit.success && rateLimit.error) {
+      return rateLimit.error;
+    }
+
+    const result = await extractPdfQuestions(buffer);
+    logUsage({
+      userId: auth.session.user.id,
+      userEmail: auth.session.user.email,
+      feature: "projects-extract",
+      model: result.usage.model,
+      inputTokens: result.usage.inputTokens,
+      outputTokens: result.usage.outputTokens,
+      metadata: { filename: file.name, pages: result.pageCount, questions: result.questions.length },
+    });
+
+    return apiSuccess({ questions: result.questions });
+  } catch (error) {
+    if (fileType === "pdf" && error instanceof Error && PDF_INPUT_ERRORS.includes(error.message)) {
+      return errors.badRequest(error.message);
+    }
+    logger.error("Failed to parse document", error, { route: "/api/projects/parse-document", fileType });
+    if (fileType === "pdf") {
+      return errors.internal("Failed to extract questions from PDF");
+    }
+    return errors.badRequest("Could not read this document. Make sure it is a valid .docx file.");
+  }
+}
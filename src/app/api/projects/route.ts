@@ -1,15 +1,23 @@
 import { NextRequest } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { ProjectStatus, RowStatus } from "@prisma/client";
-import { requireAuth } from "@/lib/apiAuth";
+import { ProjectStatus, RowStatus, UserRole } from "@prisma/client";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { createProjectSchema, validateBody } from "@/lib/validations";
 import { logProjectChange, getUserFromSession } from "@/lib/auditLog";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
+import { planProjectSections } from "@/lib/projectSections";
+import {
+  accessibleProjectsWhere,
+  diffCollaborators,
+  getUserGroups,
+  logCollaboratorChanges,
+  normalizeCollaborators,
+} from "@/lib/projectAccess";
 
-// GET /api/projects - Get all projects
+// GET /api/projects - Get the projects the user can access
 export async function GET(request: NextRequest) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/projects", "GET");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -19,11 +27,14 @@ export async function GET(request: NextRequest) {
     const limit = Math.min(parseInt(searchParams.get("limit") || "50", 10), 200);
     const offset = parseInt(searchParams.get("offset") || "0", 10);
 
+    const user = { ...auth.session.user, role: auth.session.user.role as UserRole };
     const projects = await prisma.bulkProject.findMany({
+      where: accessibleProjectsWhere(user, await getUserGroups(user.id)),
       take: limit,
       skip: offset,
       include: {
         rows: true, // Include all rows with the project
+        sections: { orderBy: { position: "asc" } },
         owner: {
           select: { id: true, name: true, email: true },
         },
@@ -59,7 +70,7 @@ export async function GET(request: NextRequest) {
 
 // POST /api/projects - Create new project
 export async function POST(request: NextRequest) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/projects", "POST");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -77,52 +88,87 @@ export async function POST(request: NextRequest) {
     // Map status string to enum
     const projectStatus: ProjectStatus = (data.status?.toUpperCase().replace(/-/g, "_") as ProjectStatus) || "DRAFT";
 
-    const project = await prisma.bulkProject.create({
-      data: {
-        name: data.name,
-        sheetName: data.sheetName,
-        columns: data.columns,
-        ownerName: data.ownerName || auth.session.user.name,
-        ownerId: data.ownerId || auth.session.user.id, // Use provided owner or fall back to current user
-        customerName: data.customerName,
-        notes: data.notes,
-        status: projectStatus,
-        rows: {
-          create: data.rows.map((row) => ({
-            rowNumber: row.rowNumber,
-            question: row.question,
-            response: row.response || "",
-            status: (row.status?.toUpperCase() || "PENDING") as RowStatus,
-            error: row.error,
-            conversationHistory: row.conversationHistory || undefined,
-            confidence: row.confidence,
-            sources: row.sources,
-            reasoning: row.reasoning,
-            inference: row.inference,
-            remarks: row.remarks,
-            usedSkills: row.usedSkills || undefined,
-            showRecommendation: row.showRecommendation || false,
-            // Track who created this question (for org-wide reporting)
-            askedById: auth.session.user.id,
-            askedByName: auth.session.user.name,
-            askedByEmail: auth.session.user.email,
-          })),
+    // Section tree from the headings/tabs captured at upload; rows point at their innermost section
+    const sectionPlan = planProjectSections(data.rows);
+
+    const ownerId = data.ownerId || auth.session.user.id; // Use provided owner or fall back to current user
+    // A creator who hands the project to someone else stays on it as an editor
+    const creator = ownerId !== auth.session.user.id ? [{ userId: auth.session.user.id, role: "EDITOR" as const }] : [];
+    const collaborators = normalizeCollaborators([...creator, ...(data.collaborators ?? [])], ownerId);
+
+    const project = await prisma.$transaction(async (tx) => {
+      const created = await tx.bulkProject.create({
+        data: {
+          name: data.name,
+          sheetName: data.sheetName,
+          columns: data.columns,
+          ownerName: data.ownerName || auth.session.user.name,
+          ownerId,
+          visibility: data.visibility,
+          assignedUsers: collaborators.length > 0 ? collaborators : undefined,
+          customerName: data.customerName,
+          notes: data.notes,
+          status: projectStatus,
+          sections: {
+            createMany: { data: sectionPlan.sections },
+          },
         },
-      },
-      include: {
-        rows: true,
-      },
+      });
+
+      await tx.bulkRow.createMany({
+        data: data.rows.map((row, index) => ({
+          projectId: created.id,
+          rowNumber: row.rowNumber,
+          sourceTab: row.sourceTab,
+          sourceRowNumber: row.sourceRowNumber,
+          sourceLocation: row.sourceLocation,
+          section: row.section,
+          sectionId: sectionPlan.rowSectionIds[index],
+          questionId: row.questionId,
+          question: row.question,
+          response: row.response || "",
+          status: (row.status?.toUpperCase() || "PENDING") as RowStatus,
+          error: row.error,
+          conversationHistory: row.conversationHistory || undefined,
+          confidence: row.confidence,
+          sources: row.sources,
+          reasoning: row.reasoning,
+          inference: row.inference,
+          remarks: row.remarks,
+          usedSkills: row.usedSkills || undefined,
+          showRecommendation: row.showRecommendation || false,
+          // Track who created this question (for org-wide reporting)
+          askedById: auth.session.user.id,
+          askedByName: auth.session.user.name,
+          askedByEmail: auth.session.user.email,
+        })),
+      });
+
+      return tx.bulkProject.findUniqueOrThrow({
+        where: { id: created.id },
+        include: {
+          rows: { orderBy: { rowNumber: "asc" } },
+          sections: { orderBy: { position: "asc" } },
+        },
+      });
     });
 
     // Audit log
+    const auditUser = getUserFromSession(auth.session);
     await logProjectChange(
       "CREATED",
       project.id,
       project.name,
-      getUserFromSession(auth.session),
+      auditUser,
       undefined,
-      { rowCount: data.rows.length, customerName: data.customerName }
+      {
+        rowCount: data.rows.length,
+        sectionCount: sectionPlan.sections.length,
+        customerName: data.customerName,
+        visibility: project.visibility,
+      }
     );
+    await logCollaboratorChanges(project, auditUser, diffCollaborators([], collaborators));
 
     return apiSuccess({ project }, { status: 201 });
   } catch (error) {
@@ -1,5 +1,5 @@
 import { prisma } from "@/lib/prisma";
-import { requireAdmin } from "@/lib/apiAuth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { defaultBlocks, defaultModifiers } from "@/lib/promptBlocks";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
@@ -23,6 +23,11 @@ type ModifierInput = {
 
 // GET /api/prompt-blocks - Load all blocks and modifiers
 export async function GET() {
+  const auth = await requireRoutePermission("/api/prompt-blocks", "GET");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
   try {
     // Load blocks from DB
     let dbBlocks, dbModifiers;
@@ -74,7 +79,7 @@ export async function GET() {
 
 // PUT /api/prompt-blocks - Save all blocks and modifiers
 export async function PUT(request: Request) {
-  const auth = await requireAdmin();
+  const auth = await requireRoutePermission("/api/prompt-blocks", "PUT");
   if (!auth.authorized) {
     return auth.response;
   }
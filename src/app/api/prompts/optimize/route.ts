@@ -1,9 +1,9 @@
 import { NextRequest } from "next/server";
 import { getModel, getEffectiveSpeed } from "@/lib/config";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { logUsage } from "@/lib/usageTracking";
-import { getAnthropicClient, parseJsonResponse } from "@/lib/apiHelpers";
+import { parseJsonResponse } from "@/lib/apiHelpers";
+import { getLLMClient } from "@/lib/llmProvider";
 import { loadSystemPrompt } from "@/lib/loadSystemPrompt";
 import { checkRateLimit, getRateLimitIdentifier } from "@/lib/rateLimit";
 import { apiSuccess, errors } from "@/lib/apiResponse";
@@ -56,6 +56,12 @@ type OptimizePromptResponse = {
 const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
 
 export async function POST(request: NextRequest) {
+  const auth = await requireRoutePermission("/api/prompts/optimize", "POST");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+  const session = auth.session;
+
   // Rate limit - LLM routes are expensive
   const identifier = await getRateLimitIdentifier(request);
   const rateLimit = await checkRateLimit(identifier, "llm");
@@ -63,8 +69,6 @@ export async function POST(request: NextRequest) {
     return rateLimit.error;
   }
 
-  const session = await getServerSession(authOptions);
-
   let body: OptimizePromptRequest;
   try {
     body = (await request.json()) as OptimizePromptRequest;
@@ -88,7 +92,7 @@ export async function POST(request: NextRequest) {
   }
 
   try {
-    const anthropic = getAnthropicClient();
+    const anthropic = await getLLMClient();
 
     const currentTokenEstimate = enabledSections.reduce(
       (sum, s) => sum + estimateTokens(s.text),
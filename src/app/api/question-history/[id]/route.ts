@@ -1,11 +1,13 @@
 import { NextRequest } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { prisma } from "@/lib/prisma";
 import { RowReviewStatus } from "@prisma/client";
 import { logAnswerChange, computeChanges, getUserFromSession, getRequestContext } from "@/lib/auditLog";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
+import { invalidatePriorAnswerIndex } from "@/lib/answerLibrary";
+import { queueCorrectionProposal } from "@/lib/skillProposals";
+import { getReviewerIds, notifyUsers } from "@/lib/notifications";
 
 // GET - Fetch a single question history entry
 export async function GET(
@@ -13,9 +15,9 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return errors.unauthorized();
+    const auth = await requireRoutePermission("/api/question-history/[id]", "GET");
+    if (!auth.authorized) {
+      return auth.response;
     }
 
     const { id } = await params;
@@ -68,10 +70,11 @@ export async function PATCH(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return errors.unauthorized();
+    const auth = await requireRoutePermission("/api/question-history/[id]", "PATCH");
+    if (!auth.authorized) {
+      return auth.response;
     }
+    const session = auth.session;
 
     const { id } = await params;
     const body = await request.json();
@@ -165,6 +168,11 @@ export async function PATCH(
       data: updateData,
     });
 
+    // Review changes add, edit or remove answers in the prior-answer library
+    if (body.reviewStatus !== undefined || body.userEditedAnswer !== undefined) {
+      invalidatePriorAnswerIndex();
+    }
+
     // Log answer changes to audit log
     const user = getUserFromSession(session);
     const requestContext = getRequestContext(request);
@@ -197,6 +205,11 @@ export async function PATCH(
         },
         requestContext
       );
+
+      // Suggest how the skill library should change so the mistake isn't repeated
+      if (updatedEntry.reviewStatus === "CORRECTED") {
+        queueCorrectionProposal({ type: "question", id });
+      }
     } else if (body.reviewStatus === "APPROVED") {
       await logAnswerChange(
         "APPROVED",
@@ -247,6 +260,19 @@ export async function PATCH(
       );
     }
 
+    // A review request goes to the assigned reviewer, or to every reviewer
+    if (body.reviewStatus === "REQUESTED" && entry.reviewStatus !== "REQUESTED") {
+      const requesterName = session.user.name || session.user.email || "Someone";
+      const reviewerId = updatedEntry.assignedReviewerId;
+      await notifyUsers(reviewerId ? [reviewerId] : await getReviewerIds(), {
+        type: reviewerId ? "REVIEW_ASSIGNED" : "REVIEW_REQUESTED",
+        title: `${requesterName} requested a review of a quick question`,
+        body: [entry.question?.substring(0, 200), body.reviewNote].filter(Boolean).join("\n"),
+        link: `/projects/questions?id=${id}`,
+        actorName: requesterName,
+      }, { excludeUserId: session.user.id });
+    }
+
     return apiSuccess({ entry: updatedEntry });
   } catch (error) {
     logger.error("Error updating question history entry", error, { route: "/api/question-history/[id]" });
@@ -260,12 +286,11 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await getServerSession(authOptions);
-    const userId = session?.user?.id;
-
-    if (!userId) {
-      return errors.unauthorized();
+    const auth = await requireRoutePermission("/api/question-history/[id]", "DELETE");
+    if (!auth.authorized) {
+      return auth.response;
     }
+    const userId = auth.session.user.id;
 
     const { id } = await params;
 
@@ -1,19 +1,18 @@
 import { NextRequest } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { prisma } from "@/lib/prisma";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
 
 // GET - Fetch question history for the current user
 export async function GET(request: NextRequest) {
-  try {
-    const session = await getServerSession(authOptions);
-    const userId = session?.user?.id;
+  const auth = await requireRoutePermission("/api/question-history", "GET");
+  if (!auth.authorized) {
+    return auth.response;
+  }
 
-    if (!userId) {
-      return apiSuccess({ history: [] });
-    }
+  try {
+    const userId = auth.session.user.id;
 
     const searchParams = request.nextUrl.searchParams;
     const limit = parseInt(searchParams.get("limit") || "50", 10);
@@ -62,12 +61,16 @@ export async function GET(request: NextRequest) {
 
 // POST - Save a new question to history
 export async function POST(request: NextRequest) {
+  const auth = await requireRoutePermission("/api/question-history", "POST");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+  const session = auth.session;
+
   try {
-    const session = await getServerSession(authOptions);
     const userId = session?.user?.id;
     const userEmail = session?.user?.email;
 
-    // Allow saving even without auth (for anonymous users)
     const body = await request.json();
     const { question, response, confidence, sources, reasoning, inference, remarks, skillsUsed } = body;
 
@@ -100,12 +103,11 @@ export async function POST(request: NextRequest) {
 // DELETE - Clear all history for current user
 export async function DELETE() {
   try {
-    const session = await getServerSession(authOptions);
-    const userId = session?.user?.id;
-
-    if (!userId) {
-      return errors.unauthorized();
+    const auth = await requireRoutePermission("/api/question-history", "DELETE");
+    if (!auth.authorized) {
+      return auth.response;
     }
+    const userId = auth.session.user.id;
 
     await prisma.questionHistory.deleteMany({
       where: { userId },
@@ -1,7 +1,6 @@
 import { NextRequest } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
 import type { QuestionLogEntry, QuestionLogStats, QuestionLogStatus } from "@/app/admin/question-log/types";
@@ -17,6 +16,11 @@ import type { QuestionLogEntry, QuestionLogStats, QuestionLogStatus } from "@/ap
 // User filter:
 // - "userId": Filter by user ID who asked the question
 export async function GET(request: NextRequest) {
+  const auth = await requireRoutePermission("/api/question-log", "GET");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
   try {
     const { searchParams } = new URL(request.url);
     const search = searchParams.get("search")?.trim() || "";
@@ -161,10 +165,12 @@ export async function GET(request: NextRequest) {
     // Helper to get finalized date
     const getFinalizedAt = (item: {
       reviewedAt?: Date | null;
+      lockedAt?: Date | null;
       flagResolvedAt?: Date | null;
       createdAt?: Date | null;
     }): string => {
       if (item.reviewedAt) return item.reviewedAt.toISOString();
+      if (item.lockedAt) return item.lockedAt.toISOString();
       if (item.flagResolvedAt) return item.flagResolvedAt.toISOString();
       return item.createdAt?.toISOString() || new Date().toISOString();
     };
@@ -201,8 +207,8 @@ export async function GET(request: NextRequest) {
       askedBy: row.askedByName || row.project?.ownerName || undefined,
       askedByEmail: row.askedByEmail || undefined,
       // Who finalized
-      finalizedById: row.reviewedBy || row.flagResolvedBy || undefined,
-      finalizedBy: row.reviewedBy || row.flagResolvedBy || undefined,
+      finalizedById: row.reviewedBy || row.lockedBy || row.flagResolvedBy || undefined,
+      finalizedBy: row.reviewedBy || row.lockedBy || row.flagResolvedBy || undefined,
       finalizedByEmail: undefined,
       finalizedAt: getFinalizedAt(row),
       createdAt: row.createdAt?.toISOString() || row.project?.createdAt?.toISOString() || getCreatedAt(row),
@@ -291,20 +297,11 @@ export async function GET(request: NextRequest) {
 // Query params: id, source (project or questions)
 export async function DELETE(request: NextRequest) {
   try {
-    // Check admin auth
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return errors.unauthorized("Authentication required");
-    }
-    const userCapabilities = session.user.capabilities || [];
-    const hasDeleteAccess = userCapabilities.includes("ADMIN") || userCapabilities.includes("VIEW_ORG_DATA");
-    if (!hasDeleteAccess) {
-      // Fall back to legacy role check
-      const userRole = (session.user as { role?: string }).role;
-      if (userRole !== "ADMIN" && userRole !== "PROMPT_ADMIN") {
-        return errors.forbidden("Admin access required to delete questions");
-      }
+    const auth = await requireRoutePermission("/api/question-log", "DELETE");
+    if (!auth.authorized) {
+      return auth.response;
     }
+    const session = auth.session;
 
     const { searchParams } = new URL(request.url);
     const id = searchParams.get("id");
@@ -1,12 +1,10 @@
-import { NextRequest } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
 import { answerQuestionsBatch, type ModelSpeed } from "@/lib/llm";
 import { defaultQuestionPrompt } from "@/lib/questionPrompt";
 import { logUsage } from "@/lib/usageTracking";
 import { loadSystemPrompt } from "@/lib/loadSystemPrompt";
-import { checkRateLimit, getRateLimitIdentifier } from "@/lib/rateLimit";
-import { apiSuccess, errors } from "@/lib/apiResponse";
+import { apiSuccess, createRoute, errors } from "@/lib/apiResponse";
+import { loadCustomerContext, loadProjectCustomerContext } from "@/lib/customerContext";
+import { requireProjectAccess } from "@/lib/projectAccess";
 import { z } from "zod";
 import { logger } from "@/lib/logger";
 
@@ -25,6 +23,10 @@ const batchAnswerSchema = z.object({
     url: z.string(),
     content: z.string(),
   })).optional(),
+  // Customer context: a project's linked profiles and selected documents, or explicit IDs
+  projectId: z.string().optional(),
+  customerProfileIds: z.array(z.string()).max(10).optional(),
+  customerDocumentIds: z.array(z.string()).max(50).optional(),
   prompt: z.string().optional(),
   mode: z.string().optional(),
   domains: z.array(z.string()).optional(),
@@ -32,14 +34,8 @@ const batchAnswerSchema = z.object({
   quickMode: z.boolean().optional(),
 });
 
-export async function POST(request: NextRequest) {
-  // Rate limit - LLM routes are expensive
-  const identifier = await getRateLimitIdentifier(request);
-  const rateLimit = await checkRateLimit(identifier, "llm");
-  if (!rateLimit.success && rateLimit.error) {
-    return rateLimit.error;
-  }
-
+// Rate limited as an LLM route; the caller needs ASK_QUESTIONS or CREATE_PROJECTS (see routePermissions.ts)
+export const POST = createRoute({ route: "/api/questions/answer-batch", rateLimit: "llm" }, async (request, user) => {
   let body;
   try {
     body = await request.json();
@@ -67,14 +63,33 @@ export async function POST(request: NextRequest) {
   const promptText = data.prompt?.trim() || await loadSystemPrompt("questions", defaultQuestionPrompt, promptOptions);
 
   try {
-    const session = await getServerSession(authOptions);
-    const result = await answerQuestionsBatch(questions, promptText, skills, fallbackContent, modelSpeed);
+    if (data.projectId) {
+      const denied = await requireProjectAccess(data.projectId, {
+        id: user.userId!,
+        role: user.userRole!,
+        capabilities: user.userCapabilities,
+      }, "EDITOR");
+      if (denied) {
+        return denied;
+      }
+    }
+    const customerContext = data.projectId
+      ? await loadProjectCustomerContext(data.projectId)
+      : await loadCustomerContext(data.customerProfileIds || [], data.customerDocumentIds);
+    const result = await answerQuestionsBatch(
+      questions,
+      promptText,
+      skills,
+      fallbackContent,
+      modelSpeed,
+      customerContext?.text
+    );
 
     // Log usage asynchronously (don't block the response)
     if (result.usage) {
       logUsage({
-        userId: session?.user?.id,
-        userEmail: session?.user?.email,
+        userId: user.userId,
+        userEmail: user.userEmail,
         feature: "questions-batch",
         model: result.usage.model,
         inputTokens: result.usage.inputTokens,
@@ -82,6 +97,7 @@ export async function POST(request: NextRequest) {
         metadata: {
           questionCount: questions.length,
           skillCount: skills?.length || 0,
+          customerCount: customerContext?.used.profiles.length || 0,
           hasFallback: result.usedFallback,
           mode: data.mode,
           domains: data.domains,
@@ -92,6 +108,7 @@ export async function POST(request: NextRequest) {
     return apiSuccess({
       answers: result.answers,
       usedFallback: result.usedFallback,
+      customerContext: customerContext?.used ?? null,
     });
   } catch (error) {
     logger.error("Failed to answer batch questions", error, { route: "/api/questions/answer-batch" });
@@ -101,4 +118,4 @@ export async function POST(request: NextRequest) {
         : "Unable to generate responses. Please try again later.";
     return errors.internal(message);
   }
-}
+});
@@ -1,23 +1,13 @@
-import { NextRequest } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
 import { answerQuestionWithPrompt, type ModelSpeed } from "@/lib/llm";
 import { defaultQuestionPrompt } from "@/lib/questionPrompt";
 import { logUsage } from "@/lib/usageTracking";
 import { questionAnswerSchema, validateBody } from "@/lib/validations";
 import { loadSystemPrompt } from "@/lib/loadSystemPrompt";
-import { checkRateLimit, getRateLimitIdentifier } from "@/lib/rateLimit";
-import { apiSuccess, errors } from "@/lib/apiResponse";
+import { apiSuccess, createRoute, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
 
-export async function POST(request: NextRequest) {
-  // Rate limit - LLM routes are expensive
-  const identifier = await getRateLimitIdentifier(request);
-  const rateLimit = await checkRateLimit(identifier, "llm");
-  if (!rateLimit.success && rateLimit.error) {
-    return rateLimit.error;
-  }
-
+// Rate limited as an LLM route; the caller needs ASK_QUESTIONS (see routePermissions.ts)
+export const POST = createRoute({ route: "/api/questions/answer", rateLimit: "llm" }, async (request, user) => {
   let body;
   try {
     body = await request.json();
@@ -45,14 +35,13 @@ export async function POST(request: NextRequest) {
   const promptText = data.prompt?.trim() || await loadSystemPrompt("questions", defaultQuestionPrompt, promptOptions);
 
   try {
-    const session = await getServerSession(authOptions);
     const result = await answerQuestionWithPrompt(question, promptText, skills, fallbackContent, modelSpeed);
 
     // Log usage asynchronously (don't block the response)
     if (result.usage) {
       logUsage({
-        userId: session?.user?.id,
-        userEmail: session?.user?.email,
+        userId: user.userId,
+        userEmail: user.userEmail,
         feature: "questions",
         model: result.usage.model,
         inputTokens: result.usage.inputTokens,
@@ -79,4 +68,4 @@ export async function POST(request: NextRequest) {
         : "Unable to generate response. Please try again later.";
     return errors.internal(message);
   }
-}
+});
@@ -1,6 +1,6 @@
 import { NextRequest } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { requireAuth } from "@/lib/apiAuth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { logReferenceUrlChange, getUserFromSession, computeChanges } from "@/lib/auditLog";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
@@ -11,6 +11,11 @@ type RouteContext = {
 
 // GET /api/reference-urls/[id] - Get a single reference URL
 export async function GET(request: NextRequest, context: RouteContext) {
+  const auth = await requireRoutePermission("/api/reference-urls/[id]", "GET");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
   try {
     const { id } = await context.params;
 
@@ -31,7 +36,7 @@ export async function GET(request: NextRequest, context: RouteContext) {
 
 // PUT /api/reference-urls/[id] - Update a reference URL
 export async function PUT(request: NextRequest, context: RouteContext) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/reference-urls/[id]", "PUT");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -85,7 +90,7 @@ export async function PUT(request: NextRequest, context: RouteContext) {
 
 // DELETE /api/reference-urls/[id] - Delete a reference URL
 export async function DELETE(request: NextRequest, context: RouteContext) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/reference-urls/[id]", "DELETE");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -1,6 +1,6 @@
 import { NextRequest } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { requireAuth } from "@/lib/apiAuth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
 
@@ -20,7 +20,7 @@ import { logger } from "@/lib/logger";
  * - skillId: string (required) - The skill ID to link to
  */
 export async function POST(request: NextRequest) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/reference-urls/link", "POST");
   if (!auth.authorized) {
     return auth.response;
   }
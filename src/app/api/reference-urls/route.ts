@@ -1,6 +1,6 @@
 import { NextRequest } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { requireAuth } from "@/lib/apiAuth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { createReferenceUrlSchema, bulkImportUrlsSchema, validateBody } from "@/lib/validations";
 import { logReferenceUrlChange, getUserFromSession } from "@/lib/auditLog";
 import { apiSuccess, errors } from "@/lib/apiResponse";
@@ -8,6 +8,11 @@ import { logger } from "@/lib/logger";
 
 // GET /api/reference-urls - List all reference URLs
 export async function GET(request: NextRequest) {
+  const auth = await requireRoutePermission("/api/reference-urls", "GET");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
   try {
     const { searchParams } = new URL(request.url);
     const category = searchParams.get("category");
@@ -34,7 +39,7 @@ export async function GET(request: NextRequest) {
 
 // POST /api/reference-urls - Create a new reference URL
 export async function POST(request: NextRequest) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/reference-urls", "POST");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -78,7 +83,7 @@ export async function POST(request: NextRequest) {
 
 // PUT /api/reference-urls - Bulk import URLs
 export async function PUT(request: NextRequest) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/reference-urls", "PUT");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -0,0 +1,97 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireRoutePermission } from "@/lib/routePermissions";
+import { updateReviewRoutingRuleSchema, validateBody } from "@/lib/validations";
+import { apiSuccess, errors } from "@/lib/apiResponse";
+import { logger } from "@/lib/logger";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * PATCH /api/review-routing/[id] - Update a review routing rule
+ *
+ * @authentication Admin
+ * @body {{ name?: string, categoryId?: string | null, keywords?: string[], reviewerId?: string, reviewerName?: string, priority?: number, isActive?: boolean }}
+ * @returns {{ rule: ReviewRoutingRule }} 200
+ * @returns 404 if the rule doesn't exist
+ */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const auth = await requireRoutePermission("/api/review-routing/[id]", "PATCH");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  try {
+    const { id } = await context.params;
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return errors.badRequest("Invalid JSON body");
+    }
+
+    const validation = validateBody(updateReviewRoutingRuleSchema, body);
+    if (!validation.success) {
+      return errors.validation(validation.error);
+    }
+    const data = validation.data;
+
+    const existing = await prisma.reviewRoutingRule.findUnique({ where: { id } });
+    if (!existing) {
+      return errors.notFound("Routing rule");
+    }
+
+    const keywords = data.keywords?.map((keyword) => keyword.trim()).filter(Boolean);
+    const categoryId = data.categoryId !== undefined ? data.categoryId || null : existing.categoryId;
+    if (!categoryId && (keywords ?? existing.keywords).length === 0) {
+      return errors.badRequest("A rule needs a category or at least one keyword");
+    }
+
+    const rule = await prisma.reviewRoutingRule.update({
+      where: { id },
+      data: {
+        name: data.name,
+        categoryId,
+        keywords,
+        reviewerId: data.reviewerId,
+        reviewerName: data.reviewerName,
+        priority: data.priority,
+        isActive: data.isActive,
+      },
+      include: { category: { select: { id: true, name: true, color: true } } },
+    });
+
+    return apiSuccess({ rule });
+  } catch (error) {
+    logger.error("Failed to update review routing rule", error, { route: "/api/review-routing/[id]" });
+    return errors.internal("Failed to update review routing rule");
+  }
+}
+
+/**
+ * DELETE /api/review-routing/[id] - Delete a review routing rule
+ *
+ * @authentication Admin
+ * @returns {{ success: true }} 200
+ */
+export async function DELETE(_request: NextRequest, context: RouteContext) {
+  const auth = await requireRoutePermission("/api/review-routing/[id]", "DELETE");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  try {
+    const { id } = await context.params;
+
+    await prisma.reviewRoutingRule.delete({ where: { id } });
+
+    logger.info("Deleted review routing rule", { id, deletedBy: auth.session.user.email });
+    return apiSuccess({ success: true });
+  } catch (error) {
+    logger.error("Failed to delete review routing rule", error, { route: "/api/review-routing/[id]" });
+    return errors.internal("Failed to delete review routing rule");
+  }
+}
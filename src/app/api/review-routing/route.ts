@@ -0,0 +1,91 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireRoutePermission } from "@/lib/routePermissions";
+import { createReviewRoutingRuleSchema, validateBody } from "@/lib/validations";
+import { apiSuccess, errors } from "@/lib/apiResponse";
+import { logger } from "@/lib/logger";
+
+/**
+ * GET /api/review-routing - List review routing rules
+ *
+ * @description Returns every routing rule (active or not), highest priority first,
+ * with the matched category name.
+ *
+ * @authentication Admin
+ * @returns {{ rules: ReviewRoutingRule[] }} 200
+ */
+export async function GET() {
+  const auth = await requireRoutePermission("/api/review-routing", "GET");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  try {
+    const rules = await prisma.reviewRoutingRule.findMany({
+      include: { category: { select: { id: true, name: true, color: true } } },
+      orderBy: [{ priority: "desc" }, { createdAt: "asc" }],
+    });
+
+    return apiSuccess({ rules });
+  } catch (error) {
+    logger.error("Failed to fetch review routing rules", error, { route: "/api/review-routing" });
+    return errors.internal("Failed to fetch review routing rules");
+  }
+}
+
+/**
+ * POST /api/review-routing - Create a review routing rule
+ *
+ * @description Maps a skill category and/or question keywords to a default reviewer.
+ *
+ * @authentication Admin
+ * @body {{ name: string, categoryId?: string, keywords?: string[], reviewerId: string, reviewerName?: string, priority?: number, isActive?: boolean }}
+ * @returns {{ rule: ReviewRoutingRule }} 201
+ * @returns 400 if neither a category nor keywords are given
+ */
+export async function POST(request: NextRequest) {
+  const auth = await requireRoutePermission("/api/review-routing", "POST");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  try {
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return errors.badRequest("Invalid JSON body");
+    }
+
+    const validation = validateBody(createReviewRoutingRuleSchema, body);
+    if (!validation.success) {
+      return errors.validation(validation.error);
+    }
+    const data = validation.data;
+
+    const rule = await prisma.reviewRoutingRule.create({
+      data: {
+        name: data.name,
+        categoryId: data.categoryId || null,
+        keywords: (data.keywords || []).map((keyword) => keyword.trim()).filter(Boolean),
+        reviewerId: data.reviewerId,
+        reviewerName: data.reviewerName ?? null,
+        priority: data.priority ?? 0,
+        isActive: data.isActive ?? true,
+        createdBy: auth.session.user.email,
+      },
+      include: { category: { select: { id: true, name: true, color: true } } },
+    });
+
+    logger.info("Created review routing rule", {
+      id: rule.id,
+      reviewerId: rule.reviewerId,
+      createdBy: auth.session.user.email,
+    });
+
+    return apiSuccess({ rule }, { status: 201 });
+  } catch (error) {
+    logger.error("Failed to create review routing rule", error, { route: "/api/review-routing" });
+    return errors.internal("Failed to create review routing rule");
+  }
+}
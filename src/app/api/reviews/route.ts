@@ -1,10 +1,13 @@
-import { NextRequest } from "next/server";
+import type { UserRole } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
-import { apiSuccess, errors } from "@/lib/apiResponse";
+import { apiSuccess, createRoute, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
+import { accessibleProjectsWhere, getUserGroups } from "@/lib/projectAccess";
 
 // GET /api/reviews - Get pending reviews across all projects and questions
-export async function GET(request: NextRequest) {
+// Requires REVIEW_ANSWERS or VIEW_ORG_DATA (see routePermissions.ts); project
+// rows are limited to the projects the user can see
+export const GET = createRoute({ route: "/api/reviews" }, async (request, context) => {
   try {
     const { searchParams } = new URL(request.url);
     const status = searchParams.get("status") || "REQUESTED"; // Default to pending
@@ -12,7 +15,7 @@ export async function GET(request: NextRequest) {
     const assignedTo = searchParams.get("assignedTo"); // Filter by assigned reviewer ID
     const includeUnassigned = searchParams.get("includeUnassigned") !== "false"; // Include unassigned by default
     const source = searchParams.get("source"); // "projects", "questions", or null for both
-    const type = searchParams.get("type"); // "review", "flagged", or null for both
+    const type = searchParams.get("type"); // "review", "flagged", "resolved", "stale", or null for review + flagged
 
     // Build base where clause for assignedTo filtering
     const assignedToClause: Record<string, unknown> = {};
@@ -27,9 +30,17 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    // Project rows: only from projects the user can see
+    const user = { id: context.userId!, role: context.userRole as UserRole, capabilities: context.userCapabilities };
+    const projectWhere = accessibleProjectsWhere(user, await getUserGroups(user.id));
+    const rowBaseClause: Record<string, unknown> = { ...assignedToClause, ...(projectWhere && { project: projectWhere }) };
+
     // Build where clause for BulkRow based on type
-    let rowWhereClause: Record<string, unknown> = { ...assignedToClause };
-    if (type === "flagged") {
+    let rowWhereClause: Record<string, unknown> = { ...rowBaseClause };
+    if (type === "stale") {
+      // Answers whose source skills changed after they were generated
+      rowWhereClause.possiblyStale = true;
+    } else if (type === "flagged") {
       // Flagged items only (exclude resolved flags)
       rowWhereClause.flaggedForReview = true;
       rowWhereClause.flagResolved = { not: true };
@@ -50,7 +61,9 @@ export async function GET(request: NextRequest) {
 
     // Build where clause for QuestionHistory (same pattern)
     let questionWhereClause: Record<string, unknown> = { ...assignedToClause };
-    if (type === "flagged") {
+    if (type === "stale") {
+      questionWhereClause.possiblyStale = true;
+    } else if (type === "flagged") {
       // Flagged items only (exclude resolved flags)
       questionWhereClause.flaggedForReview = true;
       questionWhereClause.flagResolved = { not: true };
@@ -85,9 +98,7 @@ export async function GET(request: NextRequest) {
               },
             },
           },
-          orderBy: {
-            reviewRequestedAt: "desc",
-          },
+          orderBy: type === "stale" ? { staleDetectedAt: "desc" } : { reviewRequestedAt: "desc" },
           take: limit,
         })
       : [];
@@ -96,9 +107,7 @@ export async function GET(request: NextRequest) {
     const pendingQuestions = shouldFetchQuestions
       ? await prisma.questionHistory.findMany({
           where: questionWhereClause,
-          orderBy: {
-            reviewRequestedAt: "desc",
-          },
+          orderBy: type === "stale" ? { staleDetectedAt: "desc" } : { reviewRequestedAt: "desc" },
           take: limit,
         })
       : [];
@@ -129,6 +138,10 @@ export async function GET(request: NextRequest) {
       flagResolvedAt: row.flagResolvedAt?.toISOString(),
       flagResolvedBy: row.flagResolvedBy,
       flagResolutionNote: row.flagResolutionNote,
+      // Stale-answer fields
+      possiblyStale: row.possiblyStale,
+      staleSkills: row.staleSkills,
+      staleDetectedAt: row.staleDetectedAt?.toISOString(),
       project: row.project,
       source: "project" as const,
     }));
@@ -159,22 +172,28 @@ export async function GET(request: NextRequest) {
       flagResolvedAt: q.flagResolvedAt?.toISOString(),
       flagResolvedBy: q.flagResolvedBy,
       flagResolutionNote: q.flagResolutionNote,
+      // Stale-answer fields
+      possiblyStale: q.possiblyStale,
+      staleSkills: q.staleSkills,
+      staleDetectedAt: q.staleDetectedAt?.toISOString(),
       project: null,
       source: "questions" as const,
       createdAt: q.createdAt?.toISOString(),
       userEmail: q.userEmail,
     }));
 
-    // Combine and sort by most recent date (reviewRequestedAt or flaggedAt)
+    // Combine and sort by most recent date (reviewRequestedAt, flaggedAt or, for stale answers, staleDetectedAt)
     const reviews = [...projectReviews, ...questionReviews]
       .sort((a, b) => {
         const dateA = Math.max(
           a.reviewRequestedAt ? new Date(a.reviewRequestedAt).getTime() : 0,
-          a.flaggedAt ? new Date(a.flaggedAt).getTime() : 0
+          a.flaggedAt ? new Date(a.flaggedAt).getTime() : 0,
+          type === "stale" && a.staleDetectedAt ? new Date(a.staleDetectedAt).getTime() : 0
         );
         const dateB = Math.max(
           b.reviewRequestedAt ? new Date(b.reviewRequestedAt).getTime() : 0,
-          b.flaggedAt ? new Date(b.flaggedAt).getTime() : 0
+          b.flaggedAt ? new Date(b.flaggedAt).getTime() : 0,
+          type === "stale" && b.staleDetectedAt ? new Date(b.staleDetectedAt).getTime() : 0
         );
         return dateB - dateA;
       })
@@ -186,7 +205,7 @@ export async function GET(request: NextRequest) {
       by: ["reviewStatus"],
       _count: true,
       where: {
-        ...assignedToClause,
+        ...rowBaseClause,
         reviewStatus: {
           in: ["REQUESTED", "APPROVED", "CORRECTED"],
         },
@@ -207,7 +226,7 @@ export async function GET(request: NextRequest) {
     // Flagged counts (exclude resolved flags)
     const rowFlaggedCount = await prisma.bulkRow.count({
       where: {
-        ...assignedToClause,
+        ...rowBaseClause,
         flaggedForReview: true,
         flagResolved: { not: true },
       },
@@ -224,7 +243,7 @@ export async function GET(request: NextRequest) {
     // Resolved flag counts
     const rowResolvedCount = await prisma.bulkRow.count({
       where: {
-        ...assignedToClause,
+        ...rowBaseClause,
         flaggedForReview: true,
         flagResolved: true,
       },
@@ -238,6 +257,15 @@ export async function GET(request: NextRequest) {
       },
     });
 
+    // Possibly stale answers
+    const rowStaleCount = await prisma.bulkRow.count({
+      where: { ...rowBaseClause, possiblyStale: true },
+    });
+
+    const questionStaleCount = await prisma.questionHistory.count({
+      where: { ...assignedToClause, possiblyStale: true },
+    });
+
     const countMap = {
       pending:
         (rowReviewCounts.find((c) => c.reviewStatus === "REQUESTED")?._count || 0) +
@@ -250,6 +278,7 @@ export async function GET(request: NextRequest) {
         (questionReviewCounts.find((c) => c.reviewStatus === "CORRECTED")?._count || 0),
       flagged: rowFlaggedCount + questionFlaggedCount,
       resolved: rowResolvedCount + questionResolvedCount,
+      stale: rowStaleCount + questionStaleCount,
     };
 
     return apiSuccess({
@@ -260,4 +289,4 @@ export async function GET(request: NextRequest) {
     logger.error("Error fetching reviews", error, { route: "/api/reviews" });
     return errors.internal("Failed to fetch reviews");
   }
-}
+});
@@ -0,0 +1,41 @@
+import { prisma } from "@/lib/prisma";
+import { requireRoutePermission } from "@/lib/routePermissions";
+import { getReviewerWorkloads } from "@/lib/reviewRouting";
+import { apiSuccess, errors } from "@/lib/apiResponse";
+import { logger } from "@/lib/logger";
+
+/**
+ * GET /api/reviews/workload - Open review workload per reviewer
+ *
+ * @description Counts REQUESTED reviews (projects and quick questions) assigned
+ * to each reviewer, busiest first, plus the signed-in user's own count.
+ *
+ * @authentication Required
+ * @returns {{ reviewers: { id: string, name: string | null, email: string | null, pending: number }[], mine: number }} 200
+ */
+export async function GET() {
+  const auth = await requireRoutePermission("/api/reviews/workload", "GET");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  try {
+    const workloads = await getReviewerWorkloads();
+    const users = await prisma.user.findMany({
+      where: { id: { in: [...workloads.keys()] } },
+      select: { id: true, name: true, email: true },
+    });
+
+    const reviewers = users
+      .map((user) => ({ ...user, pending: workloads.get(user.id) || 0 }))
+      .sort((a, b) => b.pending - a.pending);
+
+    return apiSuccess({
+      reviewers,
+      mine: workloads.get(auth.session.user.id) || 0,
+    });
+  } catch (error) {
+    logger.error("Failed to fetch review workload", error, { route: "/api/reviews/workload" });
+    return errors.internal("Failed to fetch review workload");
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest } from "next/server";
+import type { UserRole } from "@prisma/client";
+import { requireRoutePermission } from "@/lib/routePermissions";
+import { apiSuccess, errors } from "@/lib/apiResponse";
+import { logger } from "@/lib/logger";
+import { searchAll, SEARCH_RESULT_TYPES, type SearchResultType } from "@/lib/search";
+
+/**
+ * GET /api/search - Search across the knowledge base, customers, projects and answers
+ *
+ * @description Full-text, prefix-matching search over skills, documents, reference
+ * URLs, customer profiles, project rows, quick questions and collateral. Results
+ * the user cannot access are excluded. Best matches first.
+ *
+ * @authentication Required
+ * @query {string} q - Search text (at least 2 characters)
+ * @query {string} [types] - Comma-separated result types (skill, document, url, customer, project-row, question, collateral)
+ * @query {number} [limit=20] - Max results (up to 50)
+ * @returns {{ results: SearchResult[] }} 200
+ */
+export async function GET(request: NextRequest) {
+  const auth = await requireRoutePermission("/api/search", "GET");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  const { searchParams } = new URL(request.url);
+  const q = searchParams.get("q")?.trim() || "";
+  if (q.length < 2) {
+    return errors.badRequest("q must be at least 2 characters");
+  }
+
+  const typesParam = searchParams.get("types");
+  const types = typesParam ? typesParam.split(",").map((type) => type.trim()) : undefined;
+  const unknown = types?.filter((type) => !SEARCH_RESULT_TYPES.includes(type as SearchResultType));
+  if (unknown?.length) {
+    return errors.badRequest(`Unknown search types: ${unknown.join(", ")}`);
+  }
+
+  try {
+    const user = { ...auth.session.user, role: auth.session.user.role as UserRole };
+    const results = await searchAll(q, user, {
+      types: types as SearchResultType[] | undefined,
+      limit: Number(searchParams.get("limit")) || undefined,
+    });
+    return apiSuccess({ results });
+  } catch (error) {
+    logger.error("Search failed", error, { route: "/api/search" });
+    return errors.internal("Search failed");
+  }
+}
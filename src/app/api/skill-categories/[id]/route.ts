@@ -1,6 +1,6 @@
 import { NextRequest } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { requireAuth } from "@/lib/apiAuth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
 
@@ -10,6 +10,11 @@ type RouteContext = {
 
 // GET /api/skill-categories/[id] - Get a single category
 export async function GET(request: NextRequest, context: RouteContext) {
+  const auth = await requireRoutePermission("/api/skill-categories/[id]", "GET");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
   try {
     const { id } = await context.params;
 
@@ -30,7 +35,7 @@ export async function GET(request: NextRequest, context: RouteContext) {
 
 // PUT /api/skill-categories/[id] - Update a category
 export async function PUT(request: NextRequest, context: RouteContext) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/skill-categories/[id]", "PUT");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -58,7 +63,7 @@ export async function PUT(request: NextRequest, context: RouteContext) {
 
 // DELETE /api/skill-categories/[id] - Delete a category
 export async function DELETE(request: NextRequest, context: RouteContext) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/skill-categories/[id]", "DELETE");
   if (!auth.authorized) {
     return auth.response;
   }
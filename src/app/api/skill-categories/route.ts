@@ -1,13 +1,18 @@
 import { NextRequest } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { DEFAULT_SKILL_CATEGORIES } from "@/types/skill";
-import { requireAuth } from "@/lib/apiAuth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { createCategorySchema, validateBody } from "@/lib/validations";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
 
 // GET /api/skill-categories - List all categories
 export async function GET() {
+  const auth = await requireRoutePermission("/api/skill-categories", "GET");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
   try {
     let categories = await prisma.skillCategory.findMany({
       orderBy: { sortOrder: "asc" },
@@ -38,7 +43,7 @@ export async function GET() {
 
 // POST /api/skill-categories - Create a new category
 export async function POST(request: NextRequest) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/skill-categories", "POST");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -76,7 +81,7 @@ export async function POST(request: NextRequest) {
 
 // PUT /api/skill-categories - Bulk update (for reordering)
 export async function PUT(request: NextRequest) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/skill-categories", "PUT");
   if (!auth.authorized) {
     return auth.response;
   }
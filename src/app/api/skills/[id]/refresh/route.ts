@@ -1,32 +1,27 @@
 import { NextRequest } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { requireAuth } from "@/lib/apiAuth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { logSkillChange, getUserFromSession } from "@/lib/auditLog";
-import { getAnthropicClient, parseJsonResponse, fetchUrlContent } from "@/lib/apiHelpers";
-import { getModel, getEffectiveSpeed } from "@/lib/config";
-import { logUsage } from "@/lib/usageTracking";
 import { checkRateLimit, getRateLimitIdentifier } from "@/lib/rateLimit";
 import { SourceUrl, SkillHistoryEntry } from "@/types/skill";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
-import { loadSystemPrompt } from "@/lib/loadSystemPrompt";
+import { updateSkillWithVersion } from "@/lib/skillVersions";
+import { scheduleStaleAnswerCheck } from "@/lib/staleAnswers";
+import {
+  buildSourceMaterial,
+  diffSourceHashes,
+  fetchSourceContents,
+  generateDraftUpdate,
+} from "@/lib/skillRefresh";
 
 type RouteContext = {
   params: Promise<{ id: string }>;
 };
 
-// Response type for draft updates
-type DraftUpdateResponse = {
-  hasChanges: boolean;
-  summary: string;
-  title: string;
-  content: string;
-  changeHighlights: string[];
-};
-
 // POST /api/skills/[id]/refresh - Refresh a skill from its source URLs
 export async function POST(request: NextRequest, context: RouteContext) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/skills/[id]/refresh", "POST");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -58,23 +53,22 @@ export async function POST(request: NextRequest, context: RouteContext) {
 
     // Fetch content from all source URLs
     const urlStrings = sourceUrls.map((s) => s.url);
-    const sourceContent = await buildSourceMaterial(urlStrings);
+    const fetchedSources = await fetchSourceContents(urlStrings);
+    const sourceContent = buildSourceMaterial(fetchedSources);
 
     // Generate draft update comparing existing content with fresh source
     const draftResult = await generateDraftUpdate(
       { title: skill.title, content: skill.content },
       sourceContent,
       urlStrings,
-      auth.session
+      auth.session.user
     );
 
     // If no meaningful changes, just update lastRefreshedAt
     if (!draftResult.hasChanges) {
       const now = new Date();
-      const updatedUrls = sourceUrls.map((u) => ({
-        ...u,
-        lastFetchedAt: now.toISOString(),
-      }));
+      // Record content hashes so the scheduled refresh compares against this fetch
+      const { sourceUrls: updatedUrls } = diffSourceHashes(sourceUrls, fetchedSources, now);
 
       const existingHistory = (skill.history as SkillHistoryEntry[]) || [];
       const newHistory: SkillHistoryEntry[] = [
@@ -123,7 +117,7 @@ export async function POST(request: NextRequest, context: RouteContext) {
 
 // Apply refresh changes after user approval
 export async function PUT(request: NextRequest, context: RouteContext) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/skills/[id]/refresh", "PUT");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -168,16 +162,30 @@ export async function PUT(request: NextRequest, context: RouteContext) {
       },
     ];
 
-    const updatedSkill = await prisma.skill.update({
-      where: { id },
-      data: {
+    const updatedSkill = await updateSkillWithVersion(
+      id,
+      skill,
+      {
         title,
         content,
         lastRefreshedAt: now,
         sourceUrls: updatedUrls,
         history: newHistory,
       },
-    });
+      "refreshed",
+      getUserFromSession(auth.session),
+      `Refreshed: ${changeSummary}`
+    );
+
+    // Answers generated from the previous version may now be outdated
+    if (updatedSkill.version !== skill.version) {
+      scheduleStaleAnswerCheck();
+      // A queued scheduled-refresh draft was based on the previous version
+      await prisma.skillRefreshDraft.updateMany({
+        where: { skillId: id, status: "PENDING" },
+        data: { status: "SUPERSEDED" },
+      });
+    }
 
     // Audit log
     await logSkillChange(
@@ -195,90 +203,3 @@ export async function PUT(request: NextRequest, context: RouteContext) {
     return errors.internal(message);
   }
 }
-
-async function buildSourceMaterial(sourceUrls: string[]): Promise<string> {
-  const sections: string[] = [];
-
-  // Fetch all URLs in parallel
-  const urlResults = await Promise.all(
-    sourceUrls.map(async (url) => {
-      const text = await fetchUrlContent(url, { maxLength: 20000 });
-      return text ? `Source: ${url}\n${text}` : null;
-    })
-  );
-  sections.push(...urlResults.filter((s): s is string => s !== null));
-
-  if (sections.length === 0) {
-    throw new Error("Unable to load any content from the source URLs.");
-  }
-
-  const combined = sections.join("\n\n---\n\n").trim();
-  return combined.slice(0, 100000);
-}
-
-async function generateDraftUpdate(
-  existingSkill: { title: string; content: string },
-  newSourceContent: string,
-  sourceUrls: string[],
-  authSession: { user?: { id?: string; email?: string | null } } | null
-): Promise<DraftUpdateResponse> {
-  const anthropic = getAnthropicClient();
-
-  // Load system prompt from block system
-  const systemPrompt = await loadSystemPrompt("skill_refresh", "You are a knowledge extraction specialist.");
-
-  const userPrompt = `EXISTING SKILL:
-Title: ${existingSkill.title}
-
-Current Content:
-${existingSkill.content}
-
----
-
-REFRESHED SOURCE MATERIAL:
-${newSourceContent}
-
-${sourceUrls.length > 0 ? `\nSource URLs: ${sourceUrls.join(", ")}` : ""}
-
----
-
-Review the refreshed source material against the existing skill.
-- If there's significant new/changed information, return an updated draft with hasChanges=true
-- If the source is the same or doesn't add value, return hasChanges=false
-
-Return ONLY the JSON object.`;
-
-  // Determine model speed
-  const speed = getEffectiveSpeed("skills-refresh");
-  const model = getModel(speed);
-
-  const stream = anthropic.messages.stream({
-    model,
-    max_tokens: 32000,
-    temperature: 0.1,
-    system: systemPrompt,
-    messages: [{ role: "user", content: userPrompt }],
-  });
-
-  const response = await stream.finalMessage();
-
-  const content = response.content[0];
-  if (content.type !== "text") {
-    throw new Error("Unexpected response format");
-  }
-
-  const parsed = parseJsonResponse<DraftUpdateResponse>(content.text);
-
-  // Log usage
-  logUsage({
-    userId: authSession?.user?.id,
-    userEmail: authSession?.user?.email,
-    feature: "skills-refresh",
-    model,
-    inputTokens: response.usage?.input_tokens || 0,
-    outputTokens: response.usage?.output_tokens || 0,
-    metadata: { urlCount: sourceUrls.length },
-  });
-
-  return parsed;
-}
@@ -0,0 +1,71 @@
+import { NextRequest } from "next/server";
+import { requireRoutePermission } from "@/lib/routePermissions";
+import { rollbackSkillSchema, validateBody } from "@/lib/validations";
+import { rollbackSkill } from "@/lib/skillVersions";
+import { scheduleStaleAnswerCheck } from "@/lib/staleAnswers";
+import { logSkillChange, getUserFromSession, getRequestContext } from "@/lib/auditLog";
+import { apiSuccess, errors } from "@/lib/apiResponse";
+import { logger } from "@/lib/logger";
+import { invalidateSkillCache } from "@/lib/cache";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * POST /api/skills/[id]/rollback - Restore an earlier version of a skill
+ *
+ * @description Copies the chosen version's title, content, quick facts, edge
+ * cases and categories back onto the skill as a new version.
+ *
+ * @authentication Required - MANAGE_KNOWLEDGE capability
+ * @body {{ version: number }}
+ * @returns {{ skill: Skill }} 200
+ * @returns 404 if the skill or version doesn't exist
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  const auth = await requireRoutePermission("/api/skills/[id]/rollback", "POST");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  try {
+    const { id } = await context.params;
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return errors.badRequest("Invalid JSON body");
+    }
+
+    const validation = validateBody(rollbackSkillSchema, body);
+    if (!validation.success) {
+      return errors.validation(validation.error);
+    }
+
+    const user = getUserFromSession(auth.session);
+    const result = await rollbackSkill(id, validation.data.version, user);
+    if (!result) {
+      return errors.notFound("Skill version");
+    }
+
+    await logSkillChange(
+      "UPDATED",
+      id,
+      result.skill.title,
+      user,
+      undefined,
+      { action: "rollback", restoredVersion: result.restored.version, newVersion: result.skill.version },
+      getRequestContext(request)
+    );
+
+    await invalidateSkillCache();
+    scheduleStaleAnswerCheck();
+
+    return apiSuccess({ skill: result.skill });
+  } catch (error) {
+    logger.error("Failed to roll back skill", error, { route: "/api/skills/[id]/rollback" });
+    return errors.internal("Failed to roll back skill");
+  }
+}
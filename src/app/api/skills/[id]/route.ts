@@ -1,11 +1,13 @@
 import { NextRequest } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { requireAuth } from "@/lib/apiAuth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { updateSkillSchema, validateBody } from "@/lib/validations";
 import { logSkillChange, getUserFromSession, computeChanges } from "@/lib/auditLog";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
 import { invalidateSkillCache } from "@/lib/cache";
+import { updateSkillWithVersion } from "@/lib/skillVersions";
+import { scheduleStaleAnswerCheck } from "@/lib/staleAnswers";
 
 type RouteContext = {
   params: Promise<{ id: string }>;
@@ -13,7 +15,7 @@ type RouteContext = {
 
 // GET /api/skills/[id] - Get a single skill
 export async function GET(request: NextRequest, context: RouteContext) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/skills/[id]", "GET");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -38,7 +40,7 @@ export async function GET(request: NextRequest, context: RouteContext) {
 
 // PUT /api/skills/[id] - Update a skill
 export async function PUT(request: NextRequest, context: RouteContext) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/skills/[id]", "PUT");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -100,10 +102,21 @@ export async function PUT(request: NextRequest, context: RouteContext) {
     if (data.owners !== undefined) updateData.owners = data.owners;
     if (data.lastRefreshedAt !== undefined) updateData.lastRefreshedAt = new Date(data.lastRefreshedAt);
 
-    const skill = await prisma.skill.update({
-      where: { id },
-      data: updateData,
-    });
+    // Content changes create a new SkillVersion snapshot
+    const latestEntry = finalHistory[finalHistory.length - 1];
+    const skill = await updateSkillWithVersion(
+      id,
+      existing,
+      updateData,
+      "updated",
+      getUserFromSession(auth.session),
+      latestEntry?.summary
+    );
+
+    // Answers generated from the previous version may now be outdated
+    if (skill.version !== existing.version) {
+      scheduleStaleAnswerCheck();
+    }
 
     // Determine the action type for audit log
     let auditAction: "UPDATED" | "OWNER_ADDED" | "OWNER_REMOVED" | "REFRESHED" = "UPDATED";
@@ -146,7 +159,7 @@ export async function PUT(request: NextRequest, context: RouteContext) {
 
 // DELETE /api/skills/[id] - Delete a skill
 export async function DELETE(request: NextRequest, context: RouteContext) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/skills/[id]", "DELETE");
   if (!auth.authorized) {
     return auth.response;
   }
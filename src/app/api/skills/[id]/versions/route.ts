@@ -0,0 +1,42 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireRoutePermission } from "@/lib/routePermissions";
+import { listSkillVersions } from "@/lib/skillVersions";
+import { apiSuccess, errors } from "@/lib/apiResponse";
+import { logger } from "@/lib/logger";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * GET /api/skills/[id]/versions - Version history of a skill
+ *
+ * @description Full snapshots (title, content, quick facts, edge cases,
+ * categories) of every version of the skill, newest first.
+ *
+ * @authentication Required
+ * @returns {{ currentVersion: number, versions: SkillVersion[] }} 200
+ * @returns 404 if the skill doesn't exist
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  const auth = await requireRoutePermission("/api/skills/[id]/versions", "GET");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  try {
+    const { id } = await context.params;
+
+    const skill = await prisma.skill.findUnique({ where: { id }, select: { version: true } });
+    if (!skill) {
+      return errors.notFound("Skill");
+    }
+
+    const versions = await listSkillVersions(id);
+    return apiSuccess({ currentVersion: skill.version, versions });
+  } catch (error) {
+    logger.error("Failed to fetch skill versions", error, { route: "/api/skills/[id]/versions" });
+    return errors.internal("Failed to fetch skill versions");
+  }
+}
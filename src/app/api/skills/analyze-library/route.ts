@@ -1,5 +1,7 @@
 import { NextRequest } from "next/server";
-import Anthropic from "@anthropic-ai/sdk";
+import { requireRoutePermission } from "@/lib/routePermissions";
+import type Anthropic from "@anthropic-ai/sdk";
+import { getLLMClient } from "@/lib/llmProvider";
 import { getModel, getEffectiveSpeed } from "@/lib/config";
 import { loadSystemPrompt } from "@/lib/loadSystemPrompt";
 import { LibraryRecommendation, AnalyzeLibraryResponse } from "@/types/libraryAnalysis";
@@ -30,6 +32,11 @@ type AnalyzeLibraryRequest = {
 };
 
 export async function POST(request: NextRequest) {
+  const auth = await requireRoutePermission("/api/skills/analyze-library", "POST");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
   // Rate limit check - LLM tier for expensive AI calls
   const identifier = await getRateLimitIdentifier(request);
   const rateLimitResult = await checkRateLimit(identifier, "llm");
@@ -88,12 +95,7 @@ export async function POST(request: NextRequest) {
   }
 
   try {
-    const apiKey = process.env.ANTHROPIC_API_KEY;
-    if (!apiKey) {
-      throw new Error("ANTHROPIC_API_KEY not configured");
-    }
-
-    const anthropic = new Anthropic({ apiKey });
+    const anthropic = await getLLMClient();
 
     // Build skills context
     const skillsContext = skills.map((s, idx) =>
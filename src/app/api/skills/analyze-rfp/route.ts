@@ -1,5 +1,6 @@
 import { NextRequest } from "next/server";
-import Anthropic from "@anthropic-ai/sdk";
+import { requireRoutePermission } from "@/lib/routePermissions";
+import { getLLMClient } from "@/lib/llmProvider";
 import { getModel, getEffectiveSpeed } from "@/lib/config";
 import { SkillCategory } from "@/types/skill";
 import { getCategoryNamesFromDb } from "@/lib/categoryStorageServer";
@@ -39,6 +40,11 @@ type AnalysisResult = {
 export const maxDuration = 120; // 2 minutes for larger RFPs
 
 export async function POST(request: NextRequest) {
+  const auth = await requireRoutePermission("/api/skills/analyze-rfp", "POST");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
   // Rate limit - LLM routes are expensive
   const identifier = await getRateLimitIdentifier(request);
   const rateLimit = await checkRateLimit(identifier, "llm");
@@ -55,12 +61,7 @@ export async function POST(request: NextRequest) {
       return errors.badRequest("No RFP entries provided");
     }
 
-    const apiKey = process.env.ANTHROPIC_API_KEY;
-    if (!apiKey) {
-      return errors.internal("ANTHROPIC_API_KEY not configured");
-    }
-
-    const anthropic = new Anthropic({ apiKey });
+    const anthropic = await getLLMClient();
 
     // Build the prompt
     const skillsSummary = existingSkills.length > 0
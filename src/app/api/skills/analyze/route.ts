@@ -1,9 +1,11 @@
 import { NextRequest } from "next/server";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { getModel, getEffectiveSpeed } from "@/lib/config";
 import { SkillCategory } from "@/types/skill";
 import { getCategoryNamesFromDb } from "@/lib/categoryStorageServer";
 import { validateUrlForSSRF } from "@/lib/ssrfProtection";
-import { getAnthropicClient, parseJsonResponse } from "@/lib/apiHelpers";
+import { parseJsonResponse } from "@/lib/apiHelpers";
+import { getLLMClient } from "@/lib/llmProvider";
 import { checkRateLimit, getRateLimitIdentifier } from "@/lib/rateLimit";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
@@ -74,6 +76,11 @@ type GroupedAnalyzeResponse = {
 };
 
 export async function POST(request: NextRequest) {
+  const auth = await requireRoutePermission("/api/skills/analyze", "POST");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
   // Rate limit - LLM routes are expensive
   const identifier = await getRateLimitIdentifier(request);
   const rateLimit = await checkRateLimit(identifier, "llm");
@@ -230,7 +237,7 @@ async function analyzeContent(
   sourceUrls: string[],
   existingSkills: { id: string; title: string; category?: SkillCategory; categories?: string[]; contentPreview: string }[]
 ): Promise<AnalyzeResponse> {
-  const anthropic = getAnthropicClient();
+  const anthropic = await getLLMClient();
 
   const skillsSummary = existingSkills.length > 0
     ? existingSkills.map(s => `- "${s.title}" (ID: ${s.id})\n  Category: ${s.category || s.categories?.[0] || "Uncategorized"}\n  Preview: ${s.contentPreview.substring(0, 200)}...`).join("\n\n")
@@ -291,7 +298,7 @@ async function analyzeAndGroupSources(
   sourceDocuments: { id: string; filename: string; content: string }[],
   existingSkills: ExistingSkillInfo[]
 ): Promise<GroupedAnalyzeResponse> {
-  const anthropic = getAnthropicClient();
+  const anthropic = await getLLMClient();
 
   // Pre-check: identify URLs that already exist in skills
   const normalizeUrl = (url: string) => url.toLowerCase().replace(/\/+$/, "");
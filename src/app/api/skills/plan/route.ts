@@ -1,6 +1,7 @@
 import { NextRequest } from "next/server";
-import Anthropic from "@anthropic-ai/sdk";
-import { requireAuth } from "@/lib/apiAuth";
+import type Anthropic from "@anthropic-ai/sdk";
+import { getLLMClient } from "@/lib/llmProvider";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
 import { getModel } from "@/lib/config";
@@ -65,7 +66,7 @@ type ModeContext =
   | { mode: "normal" }
   | { mode: "merge"; skillsToMerge: SkillWithSources[] }
   | { mode: "split"; skillToSplit: SkillWithSources }
-  | { mode: "gap"; topic: string };
+  | { mode: "gap"; topic: string; questions?: string[] };
 
 type PlanRequest = {
   message: string;
@@ -135,7 +136,7 @@ function parseSkillPlan(response: string): {
 
 // GET - Fetch the system prompt for transparency
 export async function GET() {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/skills/plan", "GET");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -161,7 +162,7 @@ export async function GET() {
 }
 
 export async function POST(request: NextRequest) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/skills/plan", "POST");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -209,7 +210,7 @@ ${sourceContext}`;
       { role: "user" as const, content: message },
     ];
 
-    const anthropic = new Anthropic();
+    const anthropic = await getLLMClient();
     const model = getModel("quality"); // Use quality model for better planning
 
     const response = await anthropic.messages.create({
@@ -335,6 +336,13 @@ function buildModeContextString(modeContext?: ModeContext): string {
     parts.push("## GAP MODE");
     parts.push(`The user identified a gap in their knowledge library and wants to create a skill about: **${modeContext.topic}**`);
     parts.push("");
+    if (modeContext.questions && modeContext.questions.length > 0) {
+      parts.push("**Questions customers asked that the library answered poorly:**");
+      for (const question of modeContext.questions) {
+        parts.push(`- ${question}`);
+      }
+      parts.push("");
+    }
     parts.push("Help the user plan this new skill. Suggest what it should cover, what sources might be helpful, and what questions it should answer.");
     parts.push("");
   }
@@ -0,0 +1,97 @@
+import { NextRequest } from "next/server";
+import type { UserRole } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { requireRoutePermission } from "@/lib/routePermissions";
+import { reviewSkillProposalSchema, validateBody } from "@/lib/validations";
+import { acceptSkillProposal, canReviewSkillProposal } from "@/lib/skillProposals";
+import { getUserFromSession } from "@/lib/auditLog";
+import { apiSuccess, errors } from "@/lib/apiResponse";
+import { logger } from "@/lib/logger";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * PATCH /api/skills/proposals/[id] - Accept or reject a pending skill proposal
+ *
+ * @description Accepting an update appends the proposed additions (or the
+ * reviewer's edited content) to the skill as a new version; accepting a
+ * new-skill proposal creates the skill. An update can only be accepted against
+ * the skill version it was generated from.
+ *
+ * @authentication Required - Skill owner or admin (new or ownerless skills: knowledge managers)
+ * @body {{ status: "ACCEPTED" | "REJECTED", title?: string, content?: string, note?: string }}
+ * @returns {{ proposal: SkillProposal, skill?: Skill }} 200
+ * @returns 403 if the user can't review the proposal
+ * @returns 409 if the proposal was already reviewed or the skill changed since
+ */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const auth = await requireRoutePermission("/api/skills/proposals/[id]", "PATCH");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  try {
+    const { id } = await context.params;
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return errors.badRequest("Invalid JSON body");
+    }
+
+    const validation = validateBody(reviewSkillProposalSchema, body);
+    if (!validation.success) {
+      return errors.validation(validation.error);
+    }
+
+    const proposal = await prisma.skillProposal.findUnique({
+      where: { id },
+      include: { skill: true },
+    });
+    if (!proposal) {
+      return errors.notFound("Skill proposal");
+    }
+
+    const { skill, ...proposalData } = proposal;
+    const sessionUser = { ...auth.session.user, role: auth.session.user.role as UserRole };
+    if (!canReviewSkillProposal(sessionUser, skill)) {
+      return errors.forbidden("Only the skill's owners can review proposals for it");
+    }
+    if (proposal.status !== "PENDING") {
+      return errors.conflict(`This proposal was already ${proposal.status.toLowerCase()}`);
+    }
+
+    const user = getUserFromSession(auth.session);
+
+    if (validation.data.status === "REJECTED") {
+      const updated = await prisma.skillProposal.update({
+        where: { id },
+        data: {
+          status: "REJECTED",
+          reviewedAt: new Date(),
+          reviewedBy: user.email || user.name || null,
+          reviewedById: user.id ?? null,
+          reviewNote: validation.data.note || null,
+        },
+      });
+      return apiSuccess({ proposal: updated });
+    }
+
+    if (proposal.type === "UPDATE" && (!skill || skill.version !== proposal.baseVersion)) {
+      return errors.conflict("The skill changed after this proposal was made. Reject it or update the skill directly.");
+    }
+
+    const savedSkill = await acceptSkillProposal(proposalData, skill, user, {
+      title: validation.data.title,
+      content: validation.data.content,
+    });
+
+    return apiSuccess({ proposal: { ...proposalData, status: "ACCEPTED", skillId: savedSkill.id }, skill: savedSkill });
+  } catch (error) {
+    logger.error("Failed to review skill proposal", error, { route: "/api/skills/proposals/[id]" });
+    return errors.internal("Failed to review skill proposal");
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest } from "next/server";
+import type { SkillProposalStatus, UserRole } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { requireRoutePermission } from "@/lib/routePermissions";
+import { canReviewSkillProposal } from "@/lib/skillProposals";
+import { isSkillOwner } from "@/lib/skillRefresh";
+import { getResultHref } from "@/lib/search";
+import { apiSuccess, errors } from "@/lib/apiResponse";
+import { logger } from "@/lib/logger";
+
+const PROPOSAL_STATUSES: SkillProposalStatus[] = ["PENDING", "ACCEPTED", "REJECTED", "SUPERSEDED"];
+
+/**
+ * GET /api/skills/proposals - List skill proposals made from reviewer corrections
+ *
+ * @description When a reviewer corrects an answer, the LLM compares the
+ * correction with the original answer and the skills it used, and proposes
+ * additions to one of those skills (or a new skill). Proposals wait here until
+ * a skill owner accepts or rejects them.
+ *
+ * @authentication Required
+ * @query {string} [status=PENDING] - Proposal status to list
+ * @query {boolean} [mine] - Only proposals for skills the current user owns,
+ * plus new-skill proposals they can review
+ * @returns {{ proposals: SkillProposal[] }} 200 - Each proposal includes the
+ * skill's current title, content and version, a link to the corrected answer
+ * and whether the user can review it
+ */
+export async function GET(request: NextRequest) {
+  const auth = await requireRoutePermission("/api/skills/proposals", "GET");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const statusParam = (searchParams.get("status") || "PENDING").toUpperCase() as SkillProposalStatus;
+    if (!PROPOSAL_STATUSES.includes(statusParam)) {
+      return errors.badRequest(`status must be one of ${PROPOSAL_STATUSES.join(", ")}`);
+    }
+    const mine = searchParams.get("mine") === "true";
+
+    const proposals = await prisma.skillProposal.findMany({
+      where: { status: statusParam },
+      orderBy: { createdAt: "desc" },
+      take: 200,
+      include: {
+        skill: {
+          select: { id: true, title: true, content: true, version: true, ownerId: true, owners: true },
+        },
+      },
+    });
+
+    // Rows link into their project
+    const rowIds = proposals.map((p) => p.bulkRowId).filter((id): id is string => !!id);
+    const rows = rowIds.length > 0
+      ? await prisma.bulkRow.findMany({ where: { id: { in: rowIds } }, select: { id: true, projectId: true } })
+      : [];
+    const projectByRow = new Map(rows.map((row) => [row.id, row.projectId]));
+
+    const user = { ...auth.session.user, role: auth.session.user.role as UserRole };
+    const result = proposals
+      .map(({ skill, ...proposal }) => ({
+        ...proposal,
+        skill: skill && { id: skill.id, title: skill.title, content: skill.content, version: skill.version },
+        sourceHref: proposal.bulkRowId
+          ? projectByRow.has(proposal.bulkRowId)
+            ? getResultHref("project-row", { id: proposal.bulkRowId, title: proposal.question, parentId: projectByRow.get(proposal.bulkRowId)! })
+            : null
+          : proposal.questionHistoryId
+            ? getResultHref("question", { id: proposal.questionHistoryId, title: proposal.question, parentId: null })
+            : null,
+        isOutdated: !!skill && proposal.type === "UPDATE" && skill.version !== proposal.baseVersion,
+        canReview: canReviewSkillProposal(user, skill),
+        isOwner: !!skill && isSkillOwner(user, skill),
+      }))
+      .filter((proposal) => !mine || proposal.isOwner || (!proposal.skill && proposal.canReview));
+
+    return apiSuccess({ proposals: result });
+  } catch (error) {
+    logger.error("Failed to list skill proposals", error, { route: "/api/skills/proposals" });
+    return errors.internal("Failed to list skill proposals");
+  }
+}
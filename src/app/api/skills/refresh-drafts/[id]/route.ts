@@ -0,0 +1,89 @@
+import { NextRequest } from "next/server";
+import type { UserRole } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { requireRoutePermission } from "@/lib/routePermissions";
+import { reviewRefreshDraftSchema, validateBody } from "@/lib/validations";
+import { applyRefreshDraft, canReviewRefreshDraft } from "@/lib/skillRefresh";
+import { getUserFromSession } from "@/lib/auditLog";
+import { apiSuccess, errors } from "@/lib/apiResponse";
+import { logger } from "@/lib/logger";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * PATCH /api/skills/refresh-drafts/[id] - Apply or dismiss a pending refresh draft
+ *
+ * @description Applying saves the draft (with any edits) as a new skill version.
+ * A draft can only be applied to the skill version it was generated from.
+ *
+ * @authentication Required - Skill owner or admin (skills without owners: knowledge managers)
+ * @body {{ status: "APPLIED" | "DISMISSED", title?: string, content?: string }}
+ * @returns {{ draft: RefreshDraft, skill?: Skill }} 200
+ * @returns 403 if the user doesn't own the skill
+ * @returns 409 if the draft was already reviewed or the skill changed since
+ */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const auth = await requireRoutePermission("/api/skills/refresh-drafts/[id]", "PATCH");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  try {
+    const { id } = await context.params;
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return errors.badRequest("Invalid JSON body");
+    }
+
+    const validation = validateBody(reviewRefreshDraftSchema, body);
+    if (!validation.success) {
+      return errors.validation(validation.error);
+    }
+
+    const draft = await prisma.skillRefreshDraft.findUnique({
+      where: { id },
+      include: { skill: true },
+    });
+    if (!draft) {
+      return errors.notFound("Refresh draft");
+    }
+
+    const { skill, ...draftData } = draft;
+    const sessionUser = { ...auth.session.user, role: auth.session.user.role as UserRole };
+    if (!canReviewRefreshDraft(sessionUser, skill)) {
+      return errors.forbidden("Only the skill's owners can review its refresh drafts");
+    }
+    if (draft.status !== "PENDING") {
+      return errors.conflict(`This draft was already ${draft.status.toLowerCase()}`);
+    }
+
+    const user = getUserFromSession(auth.session);
+
+    if (validation.data.status === "DISMISSED") {
+      const updated = await prisma.skillRefreshDraft.update({
+        where: { id },
+        data: { status: "DISMISSED", reviewedAt: new Date(), reviewedBy: user.email || user.name || null, reviewedById: user.id ?? null },
+      });
+      return apiSuccess({ draft: updated });
+    }
+
+    if (skill.version !== draft.baseVersion) {
+      return errors.conflict("The skill changed after this draft was generated. Dismiss it and refresh again.");
+    }
+
+    const updatedSkill = await applyRefreshDraft(draftData, skill, user, {
+      title: validation.data.title,
+      content: validation.data.content,
+    });
+
+    return apiSuccess({ draft: { ...draftData, status: "APPLIED" }, skill: updatedSkill });
+  } catch (error) {
+    logger.error("Failed to review refresh draft", error, { route: "/api/skills/refresh-drafts/[id]" });
+    return errors.internal("Failed to review refresh draft");
+  }
+}
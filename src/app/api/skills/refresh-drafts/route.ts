@@ -0,0 +1,89 @@
+import { NextRequest } from "next/server";
+import type { RefreshDraftStatus, UserRole } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { requireRoutePermission } from "@/lib/routePermissions";
+import { canReviewRefreshDraft, isSkillOwner, runScheduledSkillRefresh } from "@/lib/skillRefresh";
+import { apiSuccess, errors } from "@/lib/apiResponse";
+import { logger } from "@/lib/logger";
+
+const DRAFT_STATUSES: RefreshDraftStatus[] = ["PENDING", "APPLIED", "DISMISSED", "SUPERSEDED"];
+
+/**
+ * GET /api/skills/refresh-drafts - List drafts from the scheduled source refresh
+ *
+ * @description Drafts are created when a skill's source URLs changed and the
+ * LLM found meaningful updates. They wait here until a skill owner applies or
+ * dismisses them.
+ *
+ * @authentication Required
+ * @query {string} [status=PENDING] - Draft status to list
+ * @query {boolean} [mine] - Only drafts the current user can review as an owner
+ * @returns {{ drafts: RefreshDraft[] }} 200 - Each draft includes the skill's
+ * current title, content and version, and whether the user can review it
+ */
+export async function GET(request: NextRequest) {
+  const auth = await requireRoutePermission("/api/skills/refresh-drafts", "GET");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const statusParam = (searchParams.get("status") || "PENDING").toUpperCase() as RefreshDraftStatus;
+    if (!DRAFT_STATUSES.includes(statusParam)) {
+      return errors.badRequest(`status must be one of ${DRAFT_STATUSES.join(", ")}`);
+    }
+    const mine = searchParams.get("mine") === "true";
+
+    const drafts = await prisma.skillRefreshDraft.findMany({
+      where: { status: statusParam },
+      orderBy: { createdAt: "desc" },
+      take: 200,
+      include: {
+        skill: {
+          select: { id: true, title: true, content: true, version: true, ownerId: true, owners: true, sourceUrls: true },
+        },
+      },
+    });
+
+    const user = { ...auth.session.user, role: auth.session.user.role as UserRole };
+    const result = drafts
+      .map(({ skill, ...draft }) => ({
+        ...draft,
+        skill: { id: skill.id, title: skill.title, content: skill.content, version: skill.version, sourceUrls: skill.sourceUrls },
+        isOutdated: skill.version !== draft.baseVersion,
+        canReview: canReviewRefreshDraft(user, skill),
+        isOwner: isSkillOwner(user, skill),
+      }))
+      .filter((draft) => !mine || draft.isOwner);
+
+    return apiSuccess({ drafts: result });
+  } catch (error) {
+    logger.error("Failed to list refresh drafts", error, { route: "/api/skills/refresh-drafts" });
+    return errors.internal("Failed to list refresh drafts");
+  }
+}
+
+/**
+ * POST /api/skills/refresh-drafts - Run the scheduled source refresh now
+ *
+ * @description Re-fetches the sources of skills that are due (oldest first, in
+ * one batch) instead of waiting for the hourly scheduler.
+ *
+ * @authentication Required - MANAGE_KNOWLEDGE capability
+ * @returns {{ drafted: number }} 200 - Number of new drafts created
+ */
+export async function POST() {
+  const auth = await requireRoutePermission("/api/skills/refresh-drafts", "POST");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  try {
+    const drafted = await runScheduledSkillRefresh();
+    return apiSuccess({ drafted });
+  } catch (error) {
+    logger.error("Failed to run skill refresh", error, { route: "/api/skills/refresh-drafts" });
+    return errors.internal("Failed to run skill refresh");
+  }
+}
@@ -1,6 +1,6 @@
 import { NextRequest } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { requireAuth } from "@/lib/apiAuth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { createSkillSchema, validateBody } from "@/lib/validations";
 import { logSkillChange, getUserFromSession, getRequestContext } from "@/lib/auditLog";
 import { apiSuccess, errors } from "@/lib/apiResponse";
@@ -29,7 +29,7 @@ import { cacheGetOrSet, CacheKeys, CacheTTL, invalidateSkillCache } from "@/lib/
  * GET /api/skills?active=true&category=Security&limit=50
  */
 export async function GET(request: NextRequest) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/skills", "GET");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -106,7 +106,7 @@ export async function GET(request: NextRequest) {
  * @description Creates a new skill in the database. The authenticated user
  * becomes the owner of the skill automatically.
  *
- * @authentication Required - returns 401 if not authenticated
+ * @authentication Required - MANAGE_KNOWLEDGE capability
  *
  * @body {string} title - Skill title (required)
  * @body {string} content - Main skill content/knowledge (required)
@@ -127,7 +127,7 @@ export async function GET(request: NextRequest) {
  * { "title": "SOC2 Compliance", "content": "Our SOC2 Type II..." }
  */
 export async function POST(request: NextRequest) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/skills", "POST");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -161,6 +161,20 @@ export async function POST(request: NextRequest) {
             user: auth.session.user.email,
           },
         ],
+        // Version 1 snapshot; later content changes add versions
+        versions: {
+          create: {
+            version: 1,
+            title: data.title,
+            content: data.content,
+            quickFacts: data.quickFacts,
+            edgeCases: data.edgeCases,
+            categories: data.categories,
+            action: "created",
+            createdBy: auth.session.user.email || undefined,
+            createdById: auth.session.user.id,
+          },
+        },
       },
     });
 
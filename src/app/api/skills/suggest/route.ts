@@ -1,13 +1,13 @@
 import { NextRequest } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { generateSkillDraftFromMessages } from "@/lib/llm";
 import { defaultSkillPrompt } from "@/lib/skillPrompt";
 import { ConversationFeedback } from "@/types/conversation";
 import { getModel, getEffectiveSpeed } from "@/lib/config";
 import { logUsage } from "@/lib/usageTracking";
 import { loadSystemPrompt } from "@/lib/loadSystemPrompt";
-import { getAnthropicClient, parseJsonResponse, fetchUrlContent } from "@/lib/apiHelpers";
+import { parseJsonResponse, fetchUrlContent } from "@/lib/apiHelpers";
+import { getLLMClient } from "@/lib/llmProvider";
 import { checkRateLimit, getRateLimitIdentifier } from "@/lib/rateLimit";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
@@ -39,6 +39,12 @@ type DraftUpdateResponse = {
 };
 
 export async function POST(request: NextRequest) {
+  const auth = await requireRoutePermission("/api/skills/suggest", "POST");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+  const authSession = auth.session;
+
   // Rate limit - LLM routes are expensive
   const identifier = await getRateLimitIdentifier(request);
   const rateLimit = await checkRateLimit(identifier, "llm");
@@ -73,8 +79,6 @@ export async function POST(request: NextRequest) {
   }
 
   try {
-    const authSession = await getServerSession(authOptions);
-
     // Load prompt from database or use defaults
     const promptText = body?.prompt?.trim() || await loadSystemPrompt("skills", defaultSkillPrompt);
 
@@ -147,7 +151,7 @@ async function generateDraftUpdate(
   authSession: { user?: { id?: string; email?: string | null } } | null,
   model: string
 ): Promise<DraftUpdateResponse> {
-  const anthropic = getAnthropicClient();
+  const anthropic = await getLLMClient();
 
   const systemPrompt = `You are a knowledge extraction specialist reviewing an existing skill against new source material.
 
@@ -0,0 +1,88 @@
+import { NextRequest } from "next/server";
+import { requireRoutePermission } from "@/lib/routePermissions";
+import { prisma } from "@/lib/prisma";
+import { apiSuccess, errors } from "@/lib/apiResponse";
+import { logger } from "@/lib/logger";
+import {
+  fetchCustomerGTMData,
+  getGtmDataSource,
+  loadGtmMappings,
+  NOT_CONFIGURED_MESSAGE,
+} from "@/lib/snowflake";
+
+function parseFlag(value: string | null): boolean | undefined {
+  return value === null ? undefined : value !== "false";
+}
+
+/**
+ * GET /api/snowflake/customer-data - Get a customer's GTM data
+ *
+ * @description Reads Gong calls, HubSpot activities and Looker metrics for a
+ * Salesforce Account using the configured table mappings. Newest first.
+ *
+ * @authentication Required
+ * @query {string} salesforceAccountId - Salesforce Account ID
+ * @query {number} [gongCallLimit=10] - Max calls (up to 50)
+ * @query {number} [hubspotActivityLimit=20] - Max activities (up to 100)
+ * @query {boolean} [includeGongCalls=true]
+ * @query {boolean} [includeHubSpotActivities=true]
+ * @query {boolean} [includeLookerMetrics=true]
+ * @query {string} [dateFrom] - ISO date; filters calls and activities
+ * @query {string} [dateTo] - ISO date; filters calls and activities
+ * @returns {CustomerGTMData} 200
+ * @returns 501 if Snowflake is not configured
+ */
+export async function GET(request: NextRequest) {
+  const auth = await requireRoutePermission("/api/snowflake/customer-data", "GET");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  const { searchParams } = new URL(request.url);
+  const salesforceAccountId = searchParams.get("salesforceAccountId")?.trim();
+  if (!salesforceAccountId) {
+    return errors.badRequest("salesforceAccountId is required");
+  }
+  const dateFrom = searchParams.get("dateFrom") || undefined;
+  const dateTo = searchParams.get("dateTo") || undefined;
+  if ([dateFrom, dateTo].some((date) => date && Number.isNaN(Date.parse(date)))) {
+    return errors.badRequest("dateFrom and dateTo must be ISO dates");
+  }
+
+  const source = await getGtmDataSource();
+  if (!source) {
+    return errors.notImplemented(NOT_CONFIGURED_MESSAGE);
+  }
+
+  try {
+    const [mappings, customer] = await Promise.all([
+      loadGtmMappings(),
+      prisma.customerProfile.findUnique({
+        where: { salesforceId: salesforceAccountId },
+        select: { name: true },
+      }),
+    ]);
+
+    const data = await fetchCustomerGTMData(source, mappings, {
+      salesforceAccountId,
+      customerName: customer?.name,
+      gongCallLimit: Number(searchParams.get("gongCallLimit")) || undefined,
+      hubspotActivityLimit: Number(searchParams.get("hubspotActivityLimit")) || undefined,
+      includeGongCalls: parseFlag(searchParams.get("includeGongCalls")),
+      includeHubSpotActivities: parseFlag(searchParams.get("includeHubSpotActivities")),
+      includeLookerMetrics: parseFlag(searchParams.get("includeLookerMetrics")),
+      dateFrom,
+      dateTo,
+    });
+
+    return apiSuccess(data);
+  } catch (error) {
+    logger.error("Failed to fetch GTM data", error, {
+      route: "/api/snowflake/customer-data",
+      salesforceAccountId,
+    });
+    return errors.badGateway(error instanceof Error ? error.message : "Snowflake request failed");
+  } finally {
+    await source.close().catch(() => undefined);
+  }
+}
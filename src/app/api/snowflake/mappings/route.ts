@@ -0,0 +1,83 @@
+import { NextRequest } from "next/server";
+import { requireRoutePermission } from "@/lib/routePermissions";
+import { apiSuccess, errors } from "@/lib/apiResponse";
+import { createAuditLog, getUserFromSession } from "@/lib/auditLog";
+import { logger } from "@/lib/logger";
+import {
+  DEFAULT_GTM_MAPPINGS,
+  GTM_MAPPINGS_SETTING_KEY,
+  loadGtmMappings,
+  saveGtmMappings,
+} from "@/lib/snowflake";
+import { snowflakeGtmMappingsSchema, validateBody } from "@/lib/validations";
+
+/**
+ * GET /api/snowflake/mappings - Get the GTM table and column mappings
+ *
+ * @description Returns the saved mappings (merged over the defaults) and the defaults.
+ *
+ * @authentication Admin
+ * @returns {{ mappings: GtmMappings, defaults: GtmMappings }} 200
+ */
+export async function GET() {
+  const auth = await requireRoutePermission("/api/snowflake/mappings", "GET");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  try {
+    return apiSuccess({ mappings: await loadGtmMappings(), defaults: DEFAULT_GTM_MAPPINGS });
+  } catch (error) {
+    logger.error("Failed to load Snowflake mappings", error, { route: "/api/snowflake/mappings" });
+    return errors.internal("Failed to load Snowflake mappings");
+  }
+}
+
+/**
+ * PUT /api/snowflake/mappings - Save the GTM table and column mappings
+ *
+ * @description Tells the GTM queries which table and columns hold each Gong,
+ * HubSpot and Looker field. Optional fields may be "" to leave them unmapped.
+ *
+ * @authentication Admin
+ * @body {GtmMappings}
+ * @returns {{ mappings: GtmMappings }} 200
+ * @returns 400 if a table or column name is not a plain identifier
+ */
+export async function PUT(request: NextRequest) {
+  const auth = await requireRoutePermission("/api/snowflake/mappings", "PUT");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  try {
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return errors.badRequest("Invalid JSON body");
+    }
+
+    const validation = validateBody(snowflakeGtmMappingsSchema, body);
+    if (!validation.success) {
+      return errors.validation(validation.error);
+    }
+
+    const previous = await loadGtmMappings();
+    await saveGtmMappings(validation.data, auth.session?.user?.email || "unknown");
+
+    await createAuditLog({
+      entityType: "SETTING",
+      entityId: GTM_MAPPINGS_SETTING_KEY,
+      entityTitle: GTM_MAPPINGS_SETTING_KEY,
+      action: "UPDATED",
+      user: auth.session ? getUserFromSession(auth.session) : undefined,
+      changes: { value: { from: previous, to: validation.data } },
+    });
+
+    return apiSuccess({ mappings: validation.data });
+  } catch (error) {
+    logger.error("Failed to save Snowflake mappings", error, { route: "/api/snowflake/mappings" });
+    return errors.internal("Failed to save Snowflake mappings");
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest } from "next/server";
+import { requireRoutePermission } from "@/lib/routePermissions";
+import { apiSuccess, errors } from "@/lib/apiResponse";
+import { logger } from "@/lib/logger";
+import {
+  getGtmDataSource,
+  listColumns,
+  listSchemas,
+  listTables,
+  NOT_CONFIGURED_MESSAGE,
+  previewTable,
+} from "@/lib/snowflake";
+
+/**
+ * GET /api/snowflake/schema - Browse the warehouse
+ *
+ * @description Lists schemas, tables in a schema, columns in a table, or a few
+ * sample rows, for choosing the GTM table and column mappings.
+ *
+ * @authentication Admin
+ * @query {"schemas" | "tables" | "columns" | "preview"} action
+ * @query {string} [schema] - Required for tables, columns and preview
+ * @query {string} [table] - Required for columns and preview
+ * @query {number} [limit=5] - Preview rows (max 50)
+ * @returns {{ schemas: string[] }} 200
+ * @returns {{ tables: TableInfo[] }} 200
+ * @returns {{ columns: ColumnInfo[] }} 200
+ * @returns {{ data: Record<string, unknown>[] }} 200
+ * @returns 501 if Snowflake is not configured
+ */
+export async function GET(request: NextRequest) {
+  const auth = await requireRoutePermission("/api/snowflake/schema", "GET");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  const { searchParams } = new URL(request.url);
+  const action = searchParams.get("action");
+  const schema = searchParams.get("schema");
+  const table = searchParams.get("table");
+
+  if (!action || !["schemas", "tables", "columns", "preview"].includes(action)) {
+    return errors.badRequest("action must be one of schemas, tables, columns, preview");
+  }
+  if (action !== "schemas" && !schema) {
+    return errors.badRequest("schema is required");
+  }
+  if ((action === "columns" || action === "preview") && !table) {
+    return errors.badRequest("table is required");
+  }
+
+  const source = await getGtmDataSource();
+  if (!source) {
+    return errors.notImplemented(NOT_CONFIGURED_MESSAGE);
+  }
+
+  try {
+    switch (action) {
+      case "schemas":
+        return apiSuccess({ schemas: await listSchemas(source) });
+      case "tables":
+        return apiSuccess({ tables: await listTables(source, schema!) });
+      case "columns":
+        return apiSuccess({ columns: await listColumns(source, schema!, table!) });
+      default:
+        return apiSuccess({
+          data: await previewTable(source, schema!, table!, Number(searchParams.get("limit")) || 5),
+        });
+    }
+  } catch (error) {
+    logger.error("Snowflake schema request failed", error, { route: "/api/snowflake/schema", action, schema, table });
+    return errors.badGateway(error instanceof Error ? error.message : "Snowflake request failed");
+  } finally {
+    await source.close().catch(() => undefined);
+  }
+}
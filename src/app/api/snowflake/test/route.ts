@@ -0,0 +1,51 @@
+import { requireRoutePermission } from "@/lib/routePermissions";
+import { apiSuccess, errors } from "@/lib/apiResponse";
+import { logger } from "@/lib/logger";
+import { getGtmDataSource, loadSnowflakeConfig, NOT_CONFIGURED_MESSAGE } from "@/lib/snowflake";
+
+/**
+ * GET /api/snowflake/test - Test the Snowflake connection
+ *
+ * @description Connects with the saved credentials and runs a trivial query.
+ * Connection failures are reported in the body (connected: false), not as errors.
+ *
+ * @authentication Admin
+ * @returns {{ connected: boolean, message: string, details?: { account, warehouse, database, schema } }} 200
+ * @returns 501 if Snowflake is not configured
+ */
+export async function GET() {
+  const auth = await requireRoutePermission("/api/snowflake/test", "GET");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  const source = await getGtmDataSource();
+  if (!source) {
+    return errors.notImplemented(NOT_CONFIGURED_MESSAGE);
+  }
+
+  try {
+    await source.query("SELECT 1 AS ok");
+    const config = source.dialect === "snowflake" ? await loadSnowflakeConfig() : null;
+    return apiSuccess({
+      connected: true,
+      message: source.dialect === "snowflake" ? "Connected to Snowflake" : "Connected to local Postgres fixture",
+      details: config
+        ? {
+            account: config.account,
+            warehouse: config.warehouse || "(default)",
+            database: config.database || "(default)",
+            schema: config.schema || "(default)",
+          }
+        : undefined,
+    });
+  } catch (error) {
+    logger.warn("Snowflake connection test failed", { error: error instanceof Error ? error.message : error });
+    return apiSuccess({
+      connected: false,
+      message: error instanceof Error ? error.message : "Connection failed",
+    });
+  } finally {
+    await source.close().catch(() => undefined);
+  }
+}
@@ -1,6 +1,6 @@
 import { NextRequest } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { requireAdmin } from "@/lib/apiAuth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { createAuditLog, getUserFromSession } from "@/lib/auditLog";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
@@ -11,6 +11,11 @@ type RouteContext = {
 
 // GET /api/system-prompts/[key] - Get a system prompt by key
 export async function GET(request: NextRequest, context: RouteContext) {
+  const auth = await requireRoutePermission("/api/system-prompts/[key]", "GET");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
   try {
     const { key } = await context.params;
 
@@ -32,7 +37,7 @@ export async function GET(request: NextRequest, context: RouteContext) {
 // PUT /api/system-prompts/[key] - Update or create a system prompt
 // Admin-only: System prompts control LLM behavior
 export async function PUT(request: NextRequest, context: RouteContext) {
-  const auth = await requireAdmin();
+  const auth = await requireRoutePermission("/api/system-prompts/[key]", "PUT");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -82,7 +87,7 @@ export async function PUT(request: NextRequest, context: RouteContext) {
 // DELETE /api/system-prompts/[key] - Delete a system prompt
 // Admin-only: System prompts control LLM behavior
 export async function DELETE(request: NextRequest, context: RouteContext) {
-  const auth = await requireAdmin();
+  const auth = await requireRoutePermission("/api/system-prompts/[key]", "DELETE");
   if (!auth.authorized) {
     return auth.response;
   }
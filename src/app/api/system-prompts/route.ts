@@ -1,12 +1,17 @@
 import { NextRequest } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { requireAdmin } from "@/lib/apiAuth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { createAuditLog, getUserFromSession } from "@/lib/auditLog";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
 
 // GET /api/system-prompts - List all system prompts
 export async function GET() {
+  const auth = await requireRoutePermission("/api/system-prompts", "GET");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
   try {
     const prompts = await prisma.systemPrompt.findMany({
       orderBy: { key: "asc" },
@@ -22,7 +27,7 @@ export async function GET() {
 // POST /api/system-prompts - Create a new system prompt
 // Admin-only: System prompts control LLM behavior
 export async function POST(request: NextRequest) {
-  const auth = await requireAdmin();
+  const auth = await requireRoutePermission("/api/system-prompts", "POST");
   if (!auth.authorized) {
     return auth.response;
   }
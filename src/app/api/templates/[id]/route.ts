@@ -1,6 +1,5 @@
 import { NextRequest } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { prisma } from "@/lib/prisma";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
@@ -26,9 +25,9 @@ type RouteContext = {
 // GET /api/templates/[id] - Get a single template
 export async function GET(request: NextRequest, context: RouteContext) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return errors.unauthorized();
+    const auth = await requireRoutePermission("/api/templates/[id]", "GET");
+    if (!auth.authorized) {
+      return auth.response;
     }
 
     const { id } = await context.params;
@@ -51,10 +50,11 @@ export async function GET(request: NextRequest, context: RouteContext) {
 // PATCH /api/templates/[id] - Update a template
 export async function PATCH(request: NextRequest, context: RouteContext) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return errors.unauthorized();
+    const auth = await requireRoutePermission("/api/templates/[id]", "PATCH");
+    if (!auth.authorized) {
+      return auth.response;
     }
+    const session = auth.session;
 
     const { id } = await context.params;
 
@@ -99,9 +99,9 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
 // DELETE /api/templates/[id] - Delete a template
 export async function DELETE(request: NextRequest, context: RouteContext) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return errors.unauthorized();
+    const auth = await requireRoutePermission("/api/templates/[id]", "DELETE");
+    if (!auth.authorized) {
+      return auth.response;
     }
 
     const { id } = await context.params;
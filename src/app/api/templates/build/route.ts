@@ -1,6 +1,7 @@
 import { NextRequest } from "next/server";
-import Anthropic from "@anthropic-ai/sdk";
-import { requireAuth } from "@/lib/apiAuth";
+import type Anthropic from "@anthropic-ai/sdk";
+import { getLLMClient } from "@/lib/llmProvider";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
 import { getModel } from "@/lib/config";
@@ -20,7 +21,7 @@ type BuildTemplateRequest = {
 };
 
 export async function POST(request: NextRequest) {
-  const auth = await requireAuth();
+  const auth = await requireRoutePermission("/api/templates/build", "POST");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -40,7 +41,7 @@ export async function POST(request: NextRequest) {
       return errors.badRequest("Message is required");
     }
 
-    const anthropic = new Anthropic();
+    const anthropic = await getLLMClient();
 
     // Build messages array
     const messages: Anthropic.MessageParam[] = [];
@@ -1,12 +1,11 @@
 import { NextRequest } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { prisma } from "@/lib/prisma";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
 import { z } from "zod";
-import { validateBody } from "@/lib/validations";
-import { getAnthropicClient } from "@/lib/apiHelpers";
+import { templateFillContextSchema, validateBody } from "@/lib/validations";
+import { getLLMClient } from "@/lib/llmProvider";
 import { getModel } from "@/lib/config";
 import { logUsage } from "@/lib/usageTracking";
 import {
@@ -22,74 +21,18 @@ export const maxDuration = 60;
 // Validation schema for fill request
 const fillTemplateSchema = z.object({
   templateId: z.string().uuid(),
-  context: z.object({
-    customer: z
-      .object({
-        id: z.string(),
-        name: z.string(),
-        industry: z.string().optional(),
-        region: z.string().optional(),
-        tier: z.string().optional(),
-        content: z.string().optional(),
-        considerations: z.array(z.string()).optional(),
-      })
-      .passthrough()
-      .optional(),
-    gtm: z
-      .object({
-        gongCalls: z
-          .array(
-            z.object({
-              id: z.string(),
-              title: z.string(),
-              date: z.string(),
-              summary: z.string().optional(),
-              participants: z.array(z.string()),
-            })
-          )
-          .optional(),
-        hubspotActivities: z
-          .array(
-            z.object({
-              id: z.string(),
-              type: z.string(),
-              date: z.string(),
-              subject: z.string(),
-              content: z.string().optional(),
-            })
-          )
-          .optional(),
-        lookerMetrics: z
-          .array(
-            z.object({
-              period: z.string(),
-              metrics: z.record(z.string(), z.union([z.string(), z.number()])),
-            })
-          )
-          .optional(),
-      })
-      .optional(),
-    skills: z
-      .array(
-        z.object({
-          id: z.string(),
-          title: z.string(),
-          content: z.string(),
-        })
-      )
-      .optional(),
-    custom: z.record(z.string(), z.string()).optional(),
-  }),
+  context: templateFillContextSchema,
   outputFormat: z.enum(["markdown", "docx"]).optional().default("markdown"),
 });
 
 // POST /api/templates/fill - Fill a template with context
 export async function POST(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return errors.unauthorized();
+    const auth = await requireRoutePermission("/api/templates/fill", "POST");
+    if (!auth.authorized) {
+      return auth.response;
     }
+    const session = auth.session;
 
     let body;
     try {
@@ -129,7 +72,7 @@ export async function POST(request: NextRequest) {
 
     // If there are LLM placeholders, use the LLM to fill them
     if (fillResult.llmPlaceholders.length > 0) {
-      const anthropic = getAnthropicClient();
+      const anthropic = await getLLMClient();
       const model = getModel("quality");
 
       const llmPrompt = buildLLMFillPrompt(
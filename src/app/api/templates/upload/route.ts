@@ -1,6 +1,5 @@
 import { NextRequest } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
 import * as mammoth from "mammoth";
@@ -12,9 +11,9 @@ import { parsePlaceholders, extractPlaceholderHints } from "@/lib/templateEngine
  */
 export async function POST(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return errors.unauthorized();
+    const auth = await requireRoutePermission("/api/templates/upload", "POST");
+    if (!auth.authorized) {
+      return auth.response;
     }
 
     const formData = await request.formData();
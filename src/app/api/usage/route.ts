@@ -1,22 +1,31 @@
 import { NextRequest } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { prisma } from "@/lib/prisma";
 import { getDailyUsage } from "@/lib/usageTracking";
+import { hasCapability } from "@/lib/capabilities";
 import { logger } from "@/lib/logger";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 
 // GET /api/usage - Get usage statistics
 export async function GET(request: NextRequest) {
-  try {
-    const session = await getServerSession(authOptions);
+  const auth = await requireRoutePermission("/api/usage", "GET");
+  if (!auth.authorized) {
+    return auth.response;
+  }
+  const session = auth.session;
 
+  try {
     // Parse query params
     const searchParams = request.nextUrl.searchParams;
     const days = parseInt(searchParams.get("days") || "30", 10);
     const scope = searchParams.get("scope") || "user"; // "user" or "all" (admin only)
     const feature = searchParams.get("feature"); // Optional filter
 
+    // Org-wide usage needs VIEW_ORG_DATA
+    if (scope !== "user" && !hasCapability(session.user.capabilities || [], "VIEW_ORG_DATA")) {
+      return errors.forbidden("VIEW_ORG_DATA capability required");
+    }
+
     // Calculate date range
     const startDate = new Date();
     startDate.setDate(startDate.getDate() - days);
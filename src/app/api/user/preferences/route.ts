@@ -1,12 +1,13 @@
 import { NextRequest } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { prisma } from "@/lib/prisma";
 import { Prisma } from "@prisma/client";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
 import { z } from "zod";
 import { LLM_SPEED_DEFAULTS, type LLMFeature, type ModelSpeed } from "@/lib/config";
+import { notificationSettingsSchema } from "@/lib/validations";
+import { getNotificationSettings } from "@/lib/notifications";
 
 // Validation schema for LLM speed overrides
 const llmSpeedOverridesSchema = z.record(
@@ -14,17 +15,26 @@ const llmSpeedOverridesSchema = z.record(
   z.enum(["fast", "quality"])
 ).optional().nullable();
 
+// Fields left out of an update keep their saved value
 const updatePreferencesSchema = z.object({
   llmSpeedOverrides: llmSpeedOverridesSchema,
+  notificationSettings: notificationSettingsSchema.optional(),
 });
 
+// Public view of the stored notification settings (without digest bookkeeping)
+function toNotificationPreferences(value: Prisma.JsonValue | null) {
+  const { muted, digest } = getNotificationSettings(value);
+  return { muted, digest };
+}
+
 // GET /api/user/preferences - Get current user's preferences
 export async function GET() {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user?.id) {
-      return errors.unauthorized();
+    const auth = await requireRoutePermission("/api/user/preferences", "GET");
+    if (!auth.authorized) {
+      return auth.response;
     }
+    const session = auth.session;
 
     // Get or create user preferences
     let preferences = await prisma.userPreference.findUnique({
@@ -47,6 +57,7 @@ export async function GET() {
     return apiSuccess({
       preferences: {
         llmSpeedOverrides: llmSpeedOverrides || {},
+        notificationSettings: toNotificationPreferences(preferences.notificationSettings),
       },
       systemDefaults: LLM_SPEED_DEFAULTS,
       // Helper: effective settings (user overrides merged with system defaults)
@@ -66,10 +77,11 @@ export async function GET() {
 // PUT /api/user/preferences - Update current user's preferences
 export async function PUT(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user?.id) {
-      return errors.unauthorized();
+    const auth = await requireRoutePermission("/api/user/preferences", "PUT");
+    if (!auth.authorized) {
+      return auth.response;
     }
+    const session = auth.session;
 
     let body;
     try {
@@ -83,7 +95,7 @@ export async function PUT(request: NextRequest) {
       return errors.validation(validation.error.issues.map(e => e.message).join(", "));
     }
 
-    const { llmSpeedOverrides } = validation.data;
+    const { llmSpeedOverrides, notificationSettings } = validation.data;
 
     // Clean up overrides: remove entries that match system defaults
     let cleanedOverrides: Record<string, ModelSpeed> | null = null;
@@ -99,23 +111,46 @@ export async function PUT(request: NextRequest) {
         : null;
     }
 
+    // Keep when the last digest went out, so changing types doesn't reset the schedule
+    const existing = notificationSettings
+      ? await prisma.userPreference.findUnique({
+          where: { userId: session.user.id },
+          select: { notificationSettings: true },
+        })
+      : null;
+    const { lastDigestAt } = getNotificationSettings(existing?.notificationSettings);
+    const updateData: Prisma.UserPreferenceUpdateInput = {
+      ...(llmSpeedOverrides !== undefined && { llmSpeedOverrides: cleanedOverrides ?? Prisma.JsonNull }),
+      ...(notificationSettings && {
+        notificationSettings: { ...notificationSettings, ...(lastDigestAt && { lastDigestAt }) },
+      }),
+    };
+
     // Upsert preferences
     const preferences = await prisma.userPreference.upsert({
       where: { userId: session.user.id },
       create: {
         userId: session.user.id,
         llmSpeedOverrides: cleanedOverrides ?? Prisma.JsonNull,
+        notificationSettings: notificationSettings ?? Prisma.JsonNull,
       },
-      update: {
-        llmSpeedOverrides: cleanedOverrides ?? Prisma.JsonNull,
-      },
+      update: updateData,
     });
 
+    // Turning the digest off releases held notifications right away
+    if (notificationSettings?.digest === "off") {
+      await prisma.notification.updateMany({
+        where: { userId: session.user.id, pendingDigest: true },
+        data: { pendingDigest: false },
+      });
+    }
+
     const savedOverrides = preferences.llmSpeedOverrides as Record<string, ModelSpeed> | null;
 
     return apiSuccess({
       preferences: {
         llmSpeedOverrides: savedOverrides || {},
+        notificationSettings: toNotificationPreferences(preferences.notificationSettings),
       },
       effectiveSettings: Object.fromEntries(
         Object.entries(LLM_SPEED_DEFAULTS).map(([feature, defaultSpeed]) => [
@@ -1,23 +1,19 @@
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import { prisma } from "@/lib/prisma";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
-import { hasCapability, roleToCapabilities } from "@/lib/capabilities";
+import { roleToCapabilities } from "@/lib/capabilities";
 
 // POST /api/users/migrate-capabilities - Migrate existing users to capabilities system
 // Converts legacy role to capabilities for users who don't have capabilities set
 export async function POST() {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return errors.unauthorized("Authentication required");
+    const auth = await requireRoutePermission("/api/users/migrate-capabilities", "POST");
+    if (!auth.authorized) {
+      return auth.response;
     }
+    const session = auth.session;
 
-    const userCapabilities = session.user.capabilities || [];
-    if (!hasCapability(userCapabilities, "ADMIN")) {
-      return errors.forbidden("ADMIN capability required");
-    }
 
     // Find users with empty capabilities array (not yet migrated)
     const usersToMigrate = await prisma.user.findMany({
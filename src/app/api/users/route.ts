@@ -1,5 +1,4 @@
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { requireRoutePermission } from "@/lib/routePermissions";
 import prisma from "@/lib/prisma";
 import { logger } from "@/lib/logger";
 import { apiSuccess, errors } from "@/lib/apiResponse";
@@ -7,11 +6,9 @@ import { apiSuccess, errors } from "@/lib/apiResponse";
 // GET /api/users - List all users (for owner selection dropdowns)
 export async function GET() {
   try {
-    const session = await getServerSession(authOptions);
-
-    // Only authenticated users can list users
-    if (!session?.user) {
-      return errors.unauthorized();
+    const auth = await requireRoutePermission("/api/users", "GET");
+    if (!auth.authorized) {
+      return auth.response;
     }
 
     const users = await prisma.user.findMany({
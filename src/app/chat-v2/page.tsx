@@ -14,7 +14,7 @@ import {
   useReferenceUrls,
   useCustomerProfiles,
   useChatSessions,
-  useSendMessage,
+  useStreamMessage,
   useSaveSession,
   ChatSessionItem,
 } from "@/hooks/use-chat-data";
@@ -61,6 +61,9 @@ export default function ChatV2Page() {
     userInstructions,
     setMessages,
     addMessage,
+    updateMessage,
+    appendToMessage,
+    removeMessage,
     setIsLoading,
     setInputValue,
     setCurrentSessionId,
@@ -85,9 +88,15 @@ export default function ChatV2Page() {
   const { data: chatSessions = [], isLoading: sessionsLoading, refetch: refetchSessions } = useChatSessions();
 
   // Mutations
-  const sendMessageMutation = useSendMessage();
+  const streamMessage = useStreamMessage();
   const saveSessionMutation = useSaveSession();
 
+  // Aborts the in-flight streaming response
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Abort any in-flight stream when leaving the page
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
   // Track if selections have been initialized to prevent infinite loops
   const selectionsInitialized = useRef(false);
 
@@ -271,22 +280,66 @@ ${keyFactsText}`;
         content: m.content,
       }));
 
-      const response = await sendMessageMutation.mutateAsync({
-        message: messageContent,
-        skills: selectedSkills,
-        customerProfiles: selectedCustomers,
-        documentIds: selectedDocIds,
-        referenceUrls: selectedUrls,
-        conversationHistory,
-        userInstructions,
-        quickMode,
+      // Placeholder assistant message that tokens stream into
+      const assistantId = crypto.randomUUID();
+      addMessage({
+        id: assistantId,
+        role: "assistant",
+        content: "",
+        timestamp: new Date(),
       });
 
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+
+      let streamedText = "";
+      let response;
+      try {
+        response = await streamMessage(
+          {
+            message: messageContent,
+            skills: selectedSkills,
+            customerProfiles: selectedCustomers,
+            documentIds: selectedDocIds,
+            referenceUrls: selectedUrls,
+            conversationHistory,
+            userInstructions,
+            quickMode,
+          },
+          {
+            signal: abortController.signal,
+            onDelta: (text) => {
+              streamedText += text;
+              appendToMessage(assistantId, text);
+            },
+            onTransparency: (transparency) => setLastTransparency(transparency),
+            onMetadata: (metadata) =>
+              updateMessage(assistantId, {
+                skillsUsed: metadata.skillsUsed,
+                customersUsed: metadata.customersUsed,
+                documentsUsed: metadata.documentsUsed,
+                urlsUsed: metadata.urlsUsed,
+              }),
+          }
+        );
+      } catch (err) {
+        if (!abortController.signal.aborted) {
+          removeMessage(assistantId);
+          throw err;
+        }
+        // Stopped by the user - keep whatever was generated so far
+        if (!streamedText) {
+          removeMessage(assistantId);
+          return;
+        }
+        response = { response: streamedText };
+      }
+
       // Parse the response to extract transparency metadata
       const parsed = parseAnswerSections(response.response);
 
       const assistantMessage: ChatMessage = {
-        id: crypto.randomUUID(),
+        id: assistantId,
         role: "assistant",
         content: parsed.response || response.response,
         timestamp: new Date(),
@@ -301,12 +354,10 @@ ${keyFactsText}`;
         ...(parsed.remarks && { remarks: parsed.remarks }),
       };
 
-      addMessage(assistantMessage);
+      updateMessage(assistantId, assistantMessage);
 
-      // Store transparency data for this response
-      if (response.transparency) {
-        setLastTransparency(response.transparency);
-      } else {
+      // Fall back to client-built transparency data if the stream didn't include it
+      if (!response.transparency) {
         setLastTransparency(buildTransparencyData());
       }
 
@@ -335,6 +386,7 @@ ${keyFactsText}`;
     } catch (err) {
       toast.error(err instanceof Error ? err.message : "An error occurred");
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
     }
   }, [
@@ -348,6 +400,9 @@ ${keyFactsText}`;
     currentSessionId,
     quickMode,
     addMessage,
+    updateMessage,
+    appendToMessage,
+    removeMessage,
     setInputValue,
     setIsLoading,
     setCurrentSessionId,
@@ -355,13 +410,18 @@ ${keyFactsText}`;
     getSelectedDocumentIds,
     getSelectedUrlIds,
     getSelectedCustomerIds,
-    sendMessageMutation,
+    streamMessage,
     saveSessionMutation,
     buildTransparencyData,
     refetchSessions,
   ]);
 
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleNewChat = () => {
+    abortControllerRef.current?.abort();
     clearChat();
     setCurrentSessionId(null);
     setShowHistory(false);
@@ -525,6 +585,7 @@ ${keyFactsText}`;
             value={inputValue}
             onChange={setInputValue}
             onSend={handleSend}
+            onStop={handleStop}
             isLoading={isLoading}
             placeholder={
               totalSelected === 0
@@ -4,7 +4,7 @@ import { useState, useRef, useEffect } from "react";
 import Link from "next/link";
 import { createProfile } from "@/lib/customerProfileApi";
 import { getDefaultPrompt } from "@/lib/promptBlocks";
-import { parseApiData } from "@/lib/apiClient";
+import { getApiErrorMessage, parseApiData } from "@/lib/apiClient";
 import {
   CustomerProfileDraft,
   CustomerProfileSourceUrl,
@@ -107,7 +107,7 @@ export default function CustomerProfileBuilderPage() {
       const response = await fetch(`/api/customers/enrich-from-salesforce?search=${encodeURIComponent(sfSearchQuery)}`);
       if (!response.ok) {
         const data = await response.json();
-        throw new Error(data.error || "Failed to search Salesforce");
+        throw new Error(getApiErrorMessage(data, "Failed to search Salesforce"));
       }
       const json = await response.json();
       const data = parseApiData<{ results: SalesforceSearchResult[] }>(json);
@@ -128,7 +128,7 @@ export default function CustomerProfileBuilderPage() {
       const response = await fetch(`/api/customers/enrich-from-salesforce?accountId=${accountId}`);
       if (!response.ok) {
         const data = await response.json();
-        throw new Error(data.error || "Failed to fetch Salesforce account");
+        throw new Error(getApiErrorMessage(data, "Failed to fetch Salesforce account"));
       }
       const json2 = await response.json();
       const data = parseApiData<{ enrichment: SalesforceEnrichment }>(json2);
@@ -6,6 +6,7 @@ import {
   fetchAllProfiles,
   updateProfile,
   deleteProfile,
+  syncProfileFromSalesforce,
 } from "@/lib/customerProfileApi";
 import { CustomerProfile } from "@/types/customerProfile";
 import { InlineError } from "@/components/ui/status-display";
@@ -116,6 +117,7 @@ export default function CustomerProfileLibraryPage() {
   const [editingProfile, setEditingProfile] = useState<CustomerProfile | null>(null);
   const [confirmingDeleteId, setConfirmingDeleteId] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
+  const [syncingId, setSyncingId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   // Load profiles
@@ -128,6 +130,11 @@ export default function CustomerProfileLibraryPage() {
       setLoading(true);
       const data = await fetchAllProfiles();
       setProfiles(data);
+      // Global search links here with ?id= to open a profile
+      const linkedId = new URLSearchParams(window.location.search).get("id");
+      if (linkedId && data.some((profile) => profile.id === linkedId)) {
+        setExpandedId(linkedId);
+      }
     } catch (e) {
       setError(e instanceof Error ? e.message : "Failed to load profiles");
     } finally {
@@ -218,6 +225,22 @@ export default function CustomerProfileLibraryPage() {
     }
   };
 
+  // Re-sync static fields from the linked Salesforce account
+  const handleSalesforceSync = async (id: string) => {
+    setSyncingId(id);
+    setError(null);
+    try {
+      const updated = await syncProfileFromSalesforce(id);
+      setProfiles((prev) =>
+        prev.map((p) => (p.id === updated.id ? updated : p))
+      );
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to sync from Salesforce");
+    } finally {
+      setSyncingId(null);
+    }
+  };
+
   // Update editing field
   const updateEditField = (field: keyof CustomerProfile, value: unknown) => {
     if (!editingProfile) return;
@@ -534,11 +557,18 @@ export default function CustomerProfileLibraryPage() {
                               </div>
                             )}
                           </div>
-                          {profile.lastSalesforceSync && (
-                            <div style={{ marginTop: "8px", fontSize: "11px", color: "#64748b" }}>
-                              Last synced: {new Date(profile.lastSalesforceSync).toLocaleString()}
-                            </div>
-                          )}
+                          <div style={{ marginTop: "8px", display: "flex", alignItems: "center", gap: "12px", fontSize: "11px", color: "#64748b" }}>
+                            {profile.lastSalesforceSync && (
+                              <span>Last synced: {new Date(profile.lastSalesforceSync).toLocaleString()}</span>
+                            )}
+                            <button
+                              style={{ ...styles.button, ...styles.secondaryButton, padding: "2px 8px", fontSize: "11px" }}
+                              onClick={() => handleSalesforceSync(profile.id)}
+                              disabled={syncingId === profile.id}
+                            >
+                              {syncingId === profile.id ? "Syncing..." : "Re-sync"}
+                            </button>
+                          </div>
                         </div>
                       )}
 
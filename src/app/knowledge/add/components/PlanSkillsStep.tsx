@@ -190,6 +190,9 @@ export default function PlanSkillsStep({ existingSkills }: PlanSkillsStepProps)
       const skill = existingSkills.find(s => s.id === planningMode.skillId);
       return `I want to split the skill "${skill?.title || "this skill"}" into multiple smaller, more focused skills. Please analyze its content and suggest how to divide it. What distinct topics or sections do you see?`;
     } else if (planningMode.type === "gap") {
+      if (planningMode.questions && planningMode.questions.length > 0) {
+        return `I need to create a new skill about "${planningMode.topic}". Our gap report found customers asking questions like these that the library couldn't answer well:\n${planningMode.questions.map(q => `- ${q}`).join("\n")}\n\nWhat sources would you recommend I add so this skill answers them?`;
+      }
       return `I need to create a new skill about "${planningMode.topic}". This was identified as a gap in my knowledge library. What sources would you recommend I add, and what key questions should this skill answer?`;
     }
     return "Please analyze the sources I've added and suggest how to organize them into skills. Look at the actual content and tell me what you see.";
@@ -225,6 +228,7 @@ export default function PlanSkillsStep({ existingSkills }: PlanSkillsStepProps)
       return {
         mode: "gap",
         topic: planningMode.topic,
+        questions: planningMode.questions,
       };
     }
     return { mode: "normal" };
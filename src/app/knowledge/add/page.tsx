@@ -6,6 +6,7 @@ import { toast } from "sonner";
 import { loadSkillsFromStorage, loadSkillsFromApi, createSkillViaApi, updateSkillViaApi } from "@/lib/skillStorage";
 import { parseApiData, getApiErrorMessage } from "@/lib/apiClient";
 import { Skill, SourceUrl, SkillHistoryEntry, SkillCategoryItem } from "@/types/skill";
+import type { KnowledgeGapReport } from "@/types/knowledgeGaps";
 import { useAllCategories } from "@/hooks/use-knowledge-data";
 import LoadingSpinner from "@/components/LoadingSpinner";
 import { usePrompt, useTextareaPrompt } from "@/components/ConfirmModal";
@@ -39,6 +40,8 @@ function AddKnowledgeContent() {
   const skillsParam = searchParams.get("skills"); // comma-separated skill IDs for merge
   const skillParam = searchParams.get("skill"); // single skill ID for split
   const topicParam = searchParams.get("topic"); // topic for gap
+  const gapReportParam = searchParams.get("gapReport"); // knowledge gap report the topic came from
+  const gapClusterParam = searchParams.get("gapCluster"); // cluster in that report
 
   // Local state for skills (fetched from API)
   const [skills, setSkills] = useState<Skill[]>(() => loadSkillsFromStorage());
@@ -145,14 +148,29 @@ function AddKnowledgeContent() {
       mode = { type: "gap", topic: topicParam };
     }
 
-    if (mode.type !== "normal") {
+    const startPlanning = (planningMode: PlanningMode) => {
       // Reset any previous state and set the mode
       clearPlanningMessages();
-      setPlanningMode(mode);
+      setPlanningMode(planningMode);
       // Skip directly to planning step
       setWorkflowStep("planning");
+    };
+
+    if (mode.type === "gap" && gapReportParam && gapClusterParam) {
+      // Bring the gap report's example questions into planning
+      const topic = mode.topic;
+      fetch(`/api/knowledge-gaps/${gapReportParam}`)
+        .then((res) => (res.ok ? res.json() : null))
+        .then((json) => {
+          const report = json ? parseApiData<KnowledgeGapReport>(json, "report") : null;
+          const cluster = report?.clusters?.find((c) => c.id === gapClusterParam);
+          startPlanning({ type: "gap", topic, questions: cluster?.examples.map((e) => e.question) });
+        })
+        .catch(() => startPlanning({ type: "gap", topic }));
+    } else if (mode.type !== "normal") {
+      startPlanning(mode);
     }
-  }, [modeParam, skillsParam, skillParam, topicParam, skills.length, setPlanningMode, setWorkflowStep, clearPlanningMessages]);
+  }, [modeParam, skillsParam, skillParam, topicParam, gapReportParam, gapClusterParam, skills.length, setPlanningMode, setWorkflowStep, clearPlanningMessages]);
 
   // Load document if docId is provided (coming from document action dialog)
   useEffect(() => {
@@ -1,9 +1,9 @@
 "use client";
 
 import { cn } from "@/lib/utils";
-import { BookOpen, FolderOpen } from "lucide-react";
+import { BookOpen, FolderOpen, MessageSquareDiff, RefreshCw } from "lucide-react";
 
-export type TabType = "skills" | "sources";
+export type TabType = "skills" | "sources" | "refresh-drafts" | "proposals";
 
 interface LibraryTabsProps {
   activeTab: TabType;
@@ -11,6 +11,8 @@ interface LibraryTabsProps {
   counts: {
     skills: number;
     sources: number;
+    refreshDrafts: number;
+    proposals: number;
   };
 }
 
@@ -18,6 +20,8 @@ export function LibraryTabs({ activeTab, onTabChange, counts }: LibraryTabsProps
   const tabs: { key: TabType; label: string; icon: React.ReactNode; count: number; description: string }[] = [
     { key: "skills", label: "Skills", icon: <BookOpen className="h-4 w-4" />, count: counts.skills, description: "Structured knowledge for Q&A" },
     { key: "sources", label: "Sources", icon: <FolderOpen className="h-4 w-4" />, count: counts.sources, description: "Documents & URLs" },
+    { key: "refresh-drafts", label: "Pending Refreshes", icon: <RefreshCw className="h-4 w-4" />, count: counts.refreshDrafts, description: "Updates found in skill sources, awaiting owner approval" },
+    { key: "proposals", label: "Corrections", icon: <MessageSquareDiff className="h-4 w-4" />, count: counts.proposals, description: "Skill changes proposed from corrected answers" },
   ];
 
   return (
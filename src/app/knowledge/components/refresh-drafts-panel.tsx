@@ -0,0 +1,189 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { toast } from "sonner";
+import { Check, X, RefreshCw, AlertCircle, ChevronDown, ChevronRight } from "lucide-react";
+import { diffLines, Change } from "diff";
+import { InlineLoader } from "@/components/ui/loading";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { RefreshDraft, useRefreshDrafts, useReviewRefreshDraft } from "@/hooks/use-knowledge-data";
+import { cn } from "@/lib/utils";
+
+function DraftDiff({ draft }: { draft: RefreshDraft }) {
+  const diff = useMemo(() => diffLines(draft.skill.content, draft.content), [draft.skill.content, draft.content]);
+
+  return (
+    <div className="bg-muted/30 p-3 rounded-lg max-h-80 overflow-y-auto font-mono text-xs">
+      {diff.map((part: Change, index: number) => (
+        <div
+          key={index}
+          className={`whitespace-pre-wrap ${
+            part.added
+              ? "bg-green-100 text-green-800 border-l-2 border-green-500 pl-2"
+              : part.removed
+              ? "bg-red-100 text-red-800 border-l-2 border-red-500 pl-2"
+              : "text-muted-foreground"
+          }`}
+        >
+          {part.value}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function DraftCard({ draft }: { draft: RefreshDraft }) {
+  const [expanded, setExpanded] = useState(false);
+  const reviewMutation = useReviewRefreshDraft();
+
+  const review = async (status: "APPLIED" | "DISMISSED") => {
+    try {
+      await reviewMutation.mutateAsync({ id: draft.id, data: { status } });
+      toast.success(status === "APPLIED" ? `Updated "${draft.skill.title}"` : "Draft dismissed");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to review draft");
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-start justify-between gap-4">
+          <button
+            onClick={() => setExpanded(!expanded)}
+            className="flex items-start gap-2 text-left min-w-0"
+          >
+            {expanded ? (
+              <ChevronDown className="h-4 w-4 mt-1 flex-shrink-0 text-muted-foreground" />
+            ) : (
+              <ChevronRight className="h-4 w-4 mt-1 flex-shrink-0 text-muted-foreground" />
+            )}
+            <div className="min-w-0">
+              <p className="font-medium text-foreground">
+                {draft.skill.title}
+                {draft.title !== draft.skill.title && (
+                  <span className="text-muted-foreground font-normal"> → {draft.title}</span>
+                )}
+              </p>
+              <p className="text-sm text-muted-foreground mt-1">{draft.summary}</p>
+              <p className="text-xs text-muted-foreground mt-1">
+                Found {new Date(draft.createdAt).toLocaleDateString()} · changed sources:{" "}
+                {draft.changedUrls.map((url) => new URL(url).hostname).join(", ")}
+              </p>
+            </div>
+          </button>
+          {draft.canReview && (
+            <div className="flex gap-2 flex-shrink-0">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => review("DISMISSED")}
+                disabled={reviewMutation.isPending}
+              >
+                <X className="h-4 w-4 mr-1" />
+                Dismiss
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => review("APPLIED")}
+                disabled={reviewMutation.isPending || draft.isOutdated}
+                title={draft.isOutdated ? "The skill changed after this draft was generated" : undefined}
+              >
+                {reviewMutation.isPending ? (
+                  <InlineLoader size="sm" className="mr-1" />
+                ) : (
+                  <Check className="h-4 w-4 mr-1" />
+                )}
+                Apply
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {draft.isOutdated && (
+          <div className="flex items-start gap-2 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+            <AlertCircle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+            The skill was edited after this draft was generated (v{draft.baseVersion} → v{draft.skill.version}).
+            Dismiss it; the next scheduled refresh will compare against the current version.
+          </div>
+        )}
+
+        {expanded && (
+          <div className="space-y-3">
+            {draft.changeHighlights.length > 0 && (
+              <ul className="space-y-1">
+                {draft.changeHighlights.map((highlight, i) => (
+                  <li key={i} className="text-sm flex items-start gap-2">
+                    <span className="text-green-600 font-bold">+</span>
+                    <span>{highlight}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <DraftDiff draft={draft} />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Drafts from the scheduled source refresh, waiting for a skill owner to
+ * apply or dismiss them. Nothing is applied to a skill without review.
+ */
+export function RefreshDraftsPanel() {
+  const [onlyMine, setOnlyMine] = useState(false);
+  const { data: drafts = [], isLoading } = useRefreshDrafts(onlyMine);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground flex items-center gap-2">
+          <RefreshCw className="h-4 w-4" />
+          Source URLs are re-checked on a schedule. When a source changes, an updated draft waits here for the skill owner.
+        </p>
+        <div className="flex border rounded-md overflow-hidden flex-shrink-0">
+          {[
+            { value: false, label: "All" },
+            { value: true, label: "Only mine" },
+          ].map((item) => (
+            <button
+              key={item.label}
+              onClick={() => setOnlyMine(item.value)}
+              className={cn(
+                "px-3 py-2 text-sm font-medium transition-colors",
+                onlyMine === item.value
+                  ? "bg-primary text-primary-foreground"
+                  : "bg-background hover:bg-muted text-muted-foreground"
+              )}
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <Card>
+          <CardContent className="py-12 flex items-center justify-center">
+            <InlineLoader size="lg" className="text-muted-foreground" />
+          </CardContent>
+        </Card>
+      ) : drafts.length === 0 ? (
+        <Card className="border-dashed border-2">
+          <CardContent className="py-12 text-center text-muted-foreground">
+            {onlyMine ? "No pending refreshes for skills you own." : "No pending refreshes. Skills are up to date with their sources."}
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {drafts.map((draft) => (
+            <DraftCard key={draft.id} draft={draft} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -7,6 +7,7 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import { SkillVersionHistory } from "@/components/SkillHistoryViewer";
 import { HistoryEntry, UnifiedLibraryItem } from "@/hooks/use-knowledge-data";
 import { cn } from "@/lib/utils";
 
@@ -54,7 +55,7 @@ export function SkillHistoryDialog({
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-lg max-h-[80vh] overflow-hidden flex flex-col">
+      <DialogContent className="sm:max-w-3xl max-h-[80vh] overflow-hidden flex flex-col">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <History className="h-5 w-5" />
@@ -110,6 +111,14 @@ export function SkillHistoryDialog({
               </ul>
             </div>
           )}
+
+          <div className="mt-6">
+            <h3 className="text-sm font-medium mb-1">Versions</h3>
+            <p className="text-xs text-muted-foreground mb-2">
+              Select an earlier version to compare it with the current content or restore it.
+            </p>
+            <SkillVersionHistory skillId={item.id} />
+          </div>
         </div>
 
         {/* Created date footer */}
@@ -0,0 +1,212 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { Check, X, MessageSquareDiff, AlertCircle, ChevronDown, ChevronRight } from "lucide-react";
+import { diffLines, Change } from "diff";
+import { InlineLoader } from "@/components/ui/loading";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { SkillProposal, useSkillProposals, useReviewSkillProposal } from "@/hooks/use-knowledge-data";
+import { cn } from "@/lib/utils";
+
+function ProposalDiff({ proposal }: { proposal: SkillProposal }) {
+  const current = proposal.skill?.content ?? "";
+  const proposed = proposal.skill ? `${current}\n\n${proposal.additions}` : proposal.additions;
+  const diff = useMemo(() => diffLines(current, proposed), [current, proposed]);
+
+  return (
+    <div className="bg-muted/30 p-3 rounded-lg max-h-80 overflow-y-auto font-mono text-xs">
+      {diff.map((part: Change, index: number) => (
+        <div
+          key={index}
+          className={`whitespace-pre-wrap ${
+            part.added
+              ? "bg-green-100 text-green-800 border-l-2 border-green-500 pl-2"
+              : part.removed
+              ? "bg-red-100 text-red-800 border-l-2 border-red-500 pl-2"
+              : "text-muted-foreground"
+          }`}
+        >
+          {part.value}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function ProposalCard({ proposal }: { proposal: SkillProposal }) {
+  const [expanded, setExpanded] = useState(false);
+  const reviewMutation = useReviewSkillProposal();
+
+  const review = async (status: "ACCEPTED" | "REJECTED") => {
+    try {
+      await reviewMutation.mutateAsync({ id: proposal.id, data: { status } });
+      toast.success(
+        status === "REJECTED"
+          ? "Proposal rejected"
+          : proposal.skill
+          ? `Updated "${proposal.skill.title}"`
+          : `Created "${proposal.title}"`
+      );
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to review proposal");
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-start justify-between gap-4">
+          <button
+            onClick={() => setExpanded(!expanded)}
+            className="flex items-start gap-2 text-left min-w-0"
+          >
+            {expanded ? (
+              <ChevronDown className="h-4 w-4 mt-1 flex-shrink-0 text-muted-foreground" />
+            ) : (
+              <ChevronRight className="h-4 w-4 mt-1 flex-shrink-0 text-muted-foreground" />
+            )}
+            <div className="min-w-0">
+              <p className="font-medium text-foreground">
+                {proposal.skill ? proposal.skill.title : proposal.title}
+                <span
+                  className={cn(
+                    "ml-2 px-1.5 py-0.5 text-xs rounded-full font-normal",
+                    proposal.skill ? "bg-blue-100 text-blue-800" : "bg-green-100 text-green-800"
+                  )}
+                >
+                  {proposal.skill ? "Update" : "New skill"}
+                </span>
+              </p>
+              <p className="text-sm text-muted-foreground mt-1 line-clamp-2">{proposal.question}</p>
+              <p className="text-xs text-muted-foreground mt-1">
+                Corrected {proposal.correctedBy ? `by ${proposal.correctedBy} ` : ""}
+                on {new Date(proposal.createdAt).toLocaleDateString()}
+              </p>
+            </div>
+          </button>
+          {proposal.canReview && (
+            <div className="flex gap-2 flex-shrink-0">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => review("REJECTED")}
+                disabled={reviewMutation.isPending}
+              >
+                <X className="h-4 w-4 mr-1" />
+                Reject
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => review("ACCEPTED")}
+                disabled={reviewMutation.isPending || proposal.isOutdated}
+                title={proposal.isOutdated ? "The skill changed after this proposal was made" : undefined}
+              >
+                {reviewMutation.isPending ? (
+                  <InlineLoader size="sm" className="mr-1" />
+                ) : (
+                  <Check className="h-4 w-4 mr-1" />
+                )}
+                Accept
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {proposal.isOutdated && proposal.skill && (
+          <div className="flex items-start gap-2 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+            <AlertCircle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+            The skill was edited after this proposal was made (v{proposal.baseVersion} → v{proposal.skill.version}).
+            Reject it or add the change to the skill by hand.
+          </div>
+        )}
+
+        {expanded && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3 text-sm">
+              <div>
+                <p className="text-xs font-medium text-muted-foreground mb-1">Original answer</p>
+                <p className="whitespace-pre-wrap p-2 rounded bg-red-50 text-red-900 max-h-48 overflow-y-auto">
+                  {proposal.originalAnswer}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs font-medium text-muted-foreground mb-1">Corrected answer</p>
+                <p className="whitespace-pre-wrap p-2 rounded bg-green-50 text-green-900 max-h-48 overflow-y-auto">
+                  {proposal.correctedAnswer}
+                </p>
+              </div>
+            </div>
+            {proposal.sourceHref && (
+              <Link href={proposal.sourceHref} className="text-xs text-primary hover:underline">
+                View the corrected answer
+              </Link>
+            )}
+            <ProposalDiff proposal={proposal} />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Skill changes proposed from reviewer corrections, waiting for a skill owner
+ * to accept or reject them. Nothing is applied to a skill without review.
+ */
+export function SkillProposalsPanel() {
+  const [onlyMine, setOnlyMine] = useState(false);
+  const { data: proposals = [], isLoading } = useSkillProposals(onlyMine);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground flex items-center gap-2">
+          <MessageSquareDiff className="h-4 w-4" />
+          When a reviewer corrects an answer, the change it implies for the skill library waits here for the skill owner.
+        </p>
+        <div className="flex border rounded-md overflow-hidden flex-shrink-0">
+          {[
+            { value: false, label: "All" },
+            { value: true, label: "Only mine" },
+          ].map((item) => (
+            <button
+              key={item.label}
+              onClick={() => setOnlyMine(item.value)}
+              className={cn(
+                "px-3 py-2 text-sm font-medium transition-colors",
+                onlyMine === item.value
+                  ? "bg-primary text-primary-foreground"
+                  : "bg-background hover:bg-muted text-muted-foreground"
+              )}
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <Card>
+          <CardContent className="py-12 flex items-center justify-center">
+            <InlineLoader size="lg" className="text-muted-foreground" />
+          </CardContent>
+        </Card>
+      ) : proposals.length === 0 ? (
+        <Card className="border-dashed border-2">
+          <CardContent className="py-12 text-center text-muted-foreground">
+            {onlyMine ? "No pending proposals for skills you own." : "No pending proposals from corrected answers."}
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {proposals.map((proposal) => (
+            <ProposalCard key={proposal.id} proposal={proposal} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { ArrowLeft, ChevronDown, ChevronRight, Plus, Radar } from "lucide-react";
+import { InlineLoader } from "@/components/ui/loading";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useApiMutation, useApiQuery } from "@/hooks/use-api";
+import type { GapSignal, KnowledgeGapCluster, KnowledgeGapReport } from "@/types/knowledgeGaps";
+
+type GapReportResponse = {
+  report: KnowledgeGapReport | null;
+  history: KnowledgeGapReport[];
+};
+
+const SIGNAL_LABELS: Record<GapSignal, { label: string; className: string }> = {
+  lowConfidence: { label: "Low confidence", className: "bg-amber-100 text-amber-800" },
+  noSkills: { label: "No skill matched", className: "bg-red-100 text-red-800" },
+  flagged: { label: "Flagged", className: "bg-orange-100 text-orange-800" },
+  corrected: { label: "Corrected", className: "bg-blue-100 text-blue-800" },
+};
+
+const PERIOD_OPTIONS = [30, 90, 180, 365];
+
+function isRunning(report: KnowledgeGapReport | null | undefined): boolean {
+  return report?.status === "QUEUED" || report?.status === "RUNNING";
+}
+
+function createSkillHref(reportId: string, cluster: KnowledgeGapCluster): string {
+  const params = new URLSearchParams({
+    mode: "gap",
+    topic: cluster.suggestedSkillTitle,
+    gapReport: reportId,
+    gapCluster: cluster.id,
+  });
+  return `/knowledge/add?${params.toString()}`;
+}
+
+function ClusterCard({ reportId, cluster }: { reportId: string; cluster: KnowledgeGapCluster }) {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-start justify-between gap-4">
+          <button onClick={() => setExpanded(!expanded)} className="flex items-start gap-2 text-left min-w-0">
+            {expanded ? (
+              <ChevronDown className="h-4 w-4 mt-1 flex-shrink-0 text-muted-foreground" />
+            ) : (
+              <ChevronRight className="h-4 w-4 mt-1 flex-shrink-0 text-muted-foreground" />
+            )}
+            <div className="min-w-0">
+              <p className="font-medium text-foreground">{cluster.name}</p>
+              {cluster.description && (
+                <p className="text-sm text-muted-foreground mt-1">{cluster.description}</p>
+              )}
+              <div className="flex flex-wrap items-center gap-1.5 mt-2">
+                <span className="text-xs font-medium text-foreground">
+                  Asked {cluster.frequency}× · {cluster.questionCount} distinct question{cluster.questionCount === 1 ? "" : "s"}
+                </span>
+                {(Object.keys(SIGNAL_LABELS) as GapSignal[])
+                  .filter((signal) => cluster.signals[signal] > 0)
+                  .map((signal) => (
+                    <span key={signal} className={`px-1.5 py-0.5 text-xs rounded-full ${SIGNAL_LABELS[signal].className}`}>
+                      {SIGNAL_LABELS[signal].label} {cluster.signals[signal]}
+                    </span>
+                  ))}
+              </div>
+            </div>
+          </button>
+          <Button asChild size="sm" className="flex-shrink-0">
+            <Link href={createSkillHref(reportId, cluster)}>
+              <Plus className="h-4 w-4 mr-1" />
+              Create skill
+            </Link>
+          </Button>
+        </div>
+
+        {expanded && (
+          <ul className="space-y-2 pl-6">
+            {cluster.examples.map((example, i) => (
+              <li key={i} className="text-sm">
+                <Link href={example.href} className="text-foreground hover:text-primary hover:underline">
+                  {example.question}
+                </Link>
+                <p className="text-xs text-muted-foreground">
+                  {example.source === "project" ? example.projectName || "Project" : "Quick question"} ·{" "}
+                  {new Date(example.askedAt).toLocaleDateString()} ·{" "}
+                  {example.signals.map((signal) => SIGNAL_LABELS[signal].label).join(", ")}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function KnowledgeGapsPage() {
+  const [days, setDays] = useState("90");
+
+  const { data, isLoading } = useApiQuery<GapReportResponse>({
+    queryKey: ["knowledge-gaps"],
+    url: "/api/knowledge-gaps",
+    // Poll while a report is being built
+    refetchInterval: (query) => (isRunning(query.state.data?.report) ? 5000 : false),
+  });
+
+  const startReport = useApiMutation<{ report: KnowledgeGapReport; alreadyRunning: boolean }, { days: number }>({
+    url: "/api/knowledge-gaps",
+    method: "POST",
+    invalidateKeys: [["knowledge-gaps"]],
+    onSuccess: (result) => {
+      if (result.alreadyRunning) toast.info("A gap analysis is already running");
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const report = data?.report;
+  const running = isRunning(report) || startReport.isPending;
+
+  return (
+    <div className="max-w-5xl mx-auto p-6">
+      <Link href="/knowledge" className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground mb-4">
+        <ArrowLeft className="h-4 w-4" />
+        Knowledge Library
+      </Link>
+
+      <div className="flex justify-between items-start mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Knowledge Gaps</h1>
+          <p className="text-muted-foreground mt-2">
+            Topics customers ask about that the library answers poorly: low confidence, no matching skill, flagged or corrected answers.
+          </p>
+        </div>
+        <div className="flex gap-2 flex-shrink-0">
+          <Select value={days} onValueChange={setDays} disabled={running}>
+            <SelectTrigger className="w-[150px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PERIOD_OPTIONS.map((option) => (
+                <SelectItem key={option} value={String(option)}>
+                  Last {option} days
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={() => startReport.mutate({ days: Number(days) })} disabled={running}>
+            {running ? <InlineLoader size="sm" className="mr-2" /> : <Radar className="h-4 w-4 mr-2" />}
+            {running ? "Analyzing..." : "Run analysis"}
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <Card>
+          <CardContent className="py-12 flex items-center justify-center">
+            <InlineLoader size="lg" className="text-muted-foreground" />
+          </CardContent>
+        </Card>
+      ) : !report ? (
+        <Card className="border-dashed border-2">
+          <CardContent className="py-12 text-center text-muted-foreground">
+            No gap analysis has been run yet.
+          </CardContent>
+        </Card>
+      ) : isRunning(report) ? (
+        <Card>
+          <CardContent className="py-12 flex flex-col items-center gap-3 text-muted-foreground">
+            <InlineLoader size="lg" />
+            Grouping weakly answered questions from the last {report.periodDays} days...
+          </CardContent>
+        </Card>
+      ) : report.status === "FAILED" ? (
+        <Card className="border-red-200 bg-red-50">
+          <CardContent className="py-6 text-sm text-red-800">
+            The last analysis failed: {report.error || "unknown error"}. Try running it again.
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <p className="text-sm text-muted-foreground mb-4">
+            {report.questionCount} weak answer{report.questionCount === 1 ? "" : "s"} in the last {report.periodDays} days
+            {report.completedAt && ` · analyzed ${new Date(report.completedAt).toLocaleString()}`}
+            {report.unclustered > 0 && ` · ${report.unclustered} question${report.unclustered === 1 ? "" : "s"} fit no topic`}
+          </p>
+          {!report.clusters || report.clusters.length === 0 ? (
+            <Card className="border-dashed border-2">
+              <CardContent className="py-12 text-center text-muted-foreground">
+                No knowledge gaps found in this period.
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="space-y-3">
+              {report.clusters.map((cluster) => (
+                <ClusterCard key={cluster.id} reportId={report.id} cluster={cluster} />
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -3,7 +3,7 @@
 import { useState, useMemo, Suspense } from "react";
 import { useSearchParams } from "next/navigation";
 import { toast } from "sonner";
-import { Plus, Search, Filter, CheckSquare, Trash2, FileText, Globe, BarChart3 } from "lucide-react";
+import { Plus, Search, Filter, CheckSquare, Trash2, FileText, Globe, BarChart3, Radar } from "lucide-react";
 import { InlineLoader } from "@/components/ui/loading";
 import LibraryAnalysisModal from "./components/LibraryAnalysisModal";
 import Link from "next/link";
@@ -22,6 +22,8 @@ import {
   useUpdateSkill,
   useRefreshSkill,
   useApplyRefreshChanges,
+  useRefreshDrafts,
+  useSkillProposals,
   skillToUnifiedItem,
   documentToUnifiedItem,
   urlToUnifiedItem,
@@ -37,6 +39,8 @@ import {
 } from "@/components/ui/select";
 import { LibraryTabs, TabType } from "./components/library-tabs";
 import { KnowledgeItemCard } from "./components/knowledge-item-card";
+import { RefreshDraftsPanel } from "./components/refresh-drafts-panel";
+import { SkillProposalsPanel } from "./components/skill-proposals-panel";
 import { cn } from "@/lib/utils";
 
 // Source type filter for Sources tab
@@ -48,7 +52,8 @@ function KnowledgeLibraryContent() {
 
   // State
   const [activeTab, setActiveTab] = useState<TabType>(tabParam || "skills");
-  const [searchQuery, setSearchQuery] = useState("");
+  // Global search links here with ?q= to pre-filter the list
+  const [searchQuery, setSearchQuery] = useState(searchParams.get("q") || "");
   const [selectedCategory, setSelectedCategory] = useState<string>("all");
   const [sourceTypeFilter, setSourceTypeFilter] = useState<SourceTypeFilter>("all");
   const [deletingId, setDeletingId] = useState<string | null>(null);
@@ -62,6 +67,8 @@ function KnowledgeLibraryContent() {
   const { data: documents = [], isLoading: documentsLoading } = useAllDocuments();
   const { data: urls = [], isLoading: urlsLoading } = useAllReferenceUrls();
   const { data: categories = [] } = useAllCategories();
+  const { data: refreshDrafts = [] } = useRefreshDrafts();
+  const { data: proposals = [] } = useSkillProposals();
 
   // Mutations
   const deleteSkillMutation = useDeleteSkill();
@@ -373,6 +380,8 @@ function KnowledgeLibraryContent() {
   const counts = {
     skills: skills.length,
     sources: documents.length + skillSourceUrls.length + standaloneUrlCount,
+    refreshDrafts: refreshDrafts.length,
+    proposals: proposals.length,
   };
 
   // Single unified "Add Knowledge" flow for both tabs
@@ -402,6 +411,12 @@ function KnowledgeLibraryContent() {
                 <BarChart3 className="h-4 w-4 mr-2" />
                 Analyze
               </Button>
+              <Button variant="outline" asChild>
+                <Link href="/knowledge/gaps" title="Topics the library answers poorly">
+                  <Radar className="h-4 w-4 mr-2" />
+                  Gaps
+                </Link>
+              </Button>
               <Button
                 variant="outline"
                 onClick={() => setSelectionMode(true)}
@@ -447,133 +462,141 @@ function KnowledgeLibraryContent() {
         <LibraryTabs activeTab={activeTab} onTabChange={setActiveTab} counts={counts} />
       </div>
 
-      {/* Search and Filter */}
-      <div className="flex gap-3 mb-6">
-        <div className="relative flex-1">
-          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-          <Input
-            placeholder={`Search ${activeTab}...`}
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className="pl-10"
-          />
-        </div>
-        {/* Source type filter - only show on Sources tab */}
-        {activeTab === "sources" && (
-          <div className="flex border rounded-md overflow-hidden">
-            {[
-              { value: "all", label: "All", icon: null },
-              { value: "document", label: "Docs", icon: <FileText className="h-3.5 w-3.5" /> },
-              { value: "url", label: "URLs", icon: <Globe className="h-3.5 w-3.5" /> },
-            ].map((item) => (
-              <button
-                key={item.value}
-                onClick={() => setSourceTypeFilter(item.value as SourceTypeFilter)}
-                className={cn(
-                  "px-3 py-2 text-sm font-medium flex items-center gap-1.5 transition-colors",
-                  sourceTypeFilter === item.value
-                    ? "bg-primary text-primary-foreground"
-                    : "bg-background hover:bg-muted text-muted-foreground"
-                )}
-              >
-                {item.icon}
-                {item.label}
-              </button>
-            ))}
+      {activeTab === "refresh-drafts" ? (
+        <RefreshDraftsPanel />
+      ) : activeTab === "proposals" ? (
+        <SkillProposalsPanel />
+      ) : (
+        <>
+          {/* Search and Filter */}
+          <div className="flex gap-3 mb-6">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder={`Search ${activeTab}...`}
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            {/* Source type filter - only show on Sources tab */}
+            {activeTab === "sources" && (
+              <div className="flex border rounded-md overflow-hidden">
+                {[
+                  { value: "all", label: "All", icon: null },
+                  { value: "document", label: "Docs", icon: <FileText className="h-3.5 w-3.5" /> },
+                  { value: "url", label: "URLs", icon: <Globe className="h-3.5 w-3.5" /> },
+                ].map((item) => (
+                  <button
+                    key={item.value}
+                    onClick={() => setSourceTypeFilter(item.value as SourceTypeFilter)}
+                    className={cn(
+                      "px-3 py-2 text-sm font-medium flex items-center gap-1.5 transition-colors",
+                      sourceTypeFilter === item.value
+                        ? "bg-primary text-primary-foreground"
+                        : "bg-background hover:bg-muted text-muted-foreground"
+                    )}
+                  >
+                    {item.icon}
+                    {item.label}
+                  </button>
+                ))}
+              </div>
+            )}
+            {/* Category filter - only show on Skills tab */}
+            {activeTab === "skills" && (
+              <Select value={selectedCategory} onValueChange={setSelectedCategory}>
+                <SelectTrigger className="w-[180px]">
+                  <Filter className="h-4 w-4 mr-2 text-muted-foreground" />
+                  <SelectValue placeholder="All Categories" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Categories</SelectItem>
+                  {categories.map((category) => (
+                    <SelectItem key={category.id} value={category.name}>
+                      {category.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
           </div>
-        )}
-        {/* Category filter - only show on Skills tab */}
-        {activeTab === "skills" && (
-          <Select value={selectedCategory} onValueChange={setSelectedCategory}>
-            <SelectTrigger className="w-[180px]">
-              <Filter className="h-4 w-4 mr-2 text-muted-foreground" />
-              <SelectValue placeholder="All Categories" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all">All Categories</SelectItem>
-              {categories.map((category) => (
-                <SelectItem key={category.id} value={category.name}>
-                  {category.name}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-        )}
-      </div>
 
-      {/* Content */}
-      {isLoading ? (
-        <Card>
-          <CardContent className="py-12 flex items-center justify-center">
-            <InlineLoader size="lg" className="text-muted-foreground" />
-          </CardContent>
-        </Card>
-      ) : sortedItems.length === 0 ? (
-        <Card className="border-dashed border-2">
-          <CardContent className="py-12 text-center">
-            {searchQuery || selectedCategory !== "all" ? (
-              <>
-                <p className="text-muted-foreground">
-                  No {activeTab} found
-                  {searchQuery && ` matching "${searchQuery}"`}
-                  {selectedCategory !== "all" && ` in "${selectedCategory}"`}
-                </p>
-                <Button
-                  variant="outline"
-                  onClick={() => {
-                    setSearchQuery("");
-                    setSelectedCategory("all");
-                  }}
-                  className="mt-4"
-                >
-                  Clear Filters
-                </Button>
-              </>
-            ) : (
-              <>
-                <p className="text-muted-foreground mb-4">
-                  No {activeTab} yet. Add your first one to get started.
-                </p>
-                <Button asChild>
-                  <Link href={addLink.href}>
-                    <Plus className="h-4 w-4 mr-2" />
-                    {addLink.label}
-                  </Link>
-                </Button>
-              </>
-            )}
-          </CardContent>
-        </Card>
-      ) : (
-        <div className="space-y-3">
-          {sortedItems.map((item) => (
-            <KnowledgeItemCard
-              key={item.id}
-              item={item}
-              onDelete={selectionMode ? undefined : () => handleDelete(item)}
-              isDeleting={deletingId === item.id}
-              onUpdateOwners={item.type === "skill" && !selectionMode ? handleUpdateOwners : undefined}
-              onUpdateCategories={item.type === "skill" && !selectionMode ? handleUpdateCategories : undefined}
-              onRefresh={item.type === "skill" && !selectionMode ? handleRefreshSkill : undefined}
-              onApplyRefresh={item.type === "skill" && !selectionMode ? handleApplyRefresh : undefined}
-              onUpdateTitle={item.type === "url" && item.linkedSkillId && !selectionMode ? handleUpdateSourceUrlTitle : undefined}
-              isRefreshing={refreshSkillMutation.isPending}
-              selectionMode={selectionMode}
-              isSelected={selectedIds.has(item.id)}
-              onToggleSelection={() => toggleSelection(item.id)}
-              linkedSkillName={item.linkedSkillId ? skillIdToTitle.get(item.linkedSkillId) : undefined}
-            />
-          ))}
-        </div>
-      )}
+          {/* Content */}
+          {isLoading ? (
+            <Card>
+              <CardContent className="py-12 flex items-center justify-center">
+                <InlineLoader size="lg" className="text-muted-foreground" />
+              </CardContent>
+            </Card>
+          ) : sortedItems.length === 0 ? (
+            <Card className="border-dashed border-2">
+              <CardContent className="py-12 text-center">
+                {searchQuery || selectedCategory !== "all" ? (
+                  <>
+                    <p className="text-muted-foreground">
+                      No {activeTab} found
+                      {searchQuery && ` matching "${searchQuery}"`}
+                      {selectedCategory !== "all" && ` in "${selectedCategory}"`}
+                    </p>
+                    <Button
+                      variant="outline"
+                      onClick={() => {
+                        setSearchQuery("");
+                        setSelectedCategory("all");
+                      }}
+                      className="mt-4"
+                    >
+                      Clear Filters
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <p className="text-muted-foreground mb-4">
+                      No {activeTab} yet. Add your first one to get started.
+                    </p>
+                    <Button asChild>
+                      <Link href={addLink.href}>
+                        <Plus className="h-4 w-4 mr-2" />
+                        {addLink.label}
+                      </Link>
+                    </Button>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="space-y-3">
+              {sortedItems.map((item) => (
+                <KnowledgeItemCard
+                  key={item.id}
+                  item={item}
+                  onDelete={selectionMode ? undefined : () => handleDelete(item)}
+                  isDeleting={deletingId === item.id}
+                  onUpdateOwners={item.type === "skill" && !selectionMode ? handleUpdateOwners : undefined}
+                  onUpdateCategories={item.type === "skill" && !selectionMode ? handleUpdateCategories : undefined}
+                  onRefresh={item.type === "skill" && !selectionMode ? handleRefreshSkill : undefined}
+                  onApplyRefresh={item.type === "skill" && !selectionMode ? handleApplyRefresh : undefined}
+                  onUpdateTitle={item.type === "url" && item.linkedSkillId && !selectionMode ? handleUpdateSourceUrlTitle : undefined}
+                  isRefreshing={refreshSkillMutation.isPending}
+                  selectionMode={selectionMode}
+                  isSelected={selectedIds.has(item.id)}
+                  onToggleSelection={() => toggleSelection(item.id)}
+                  linkedSkillName={item.linkedSkillId ? skillIdToTitle.get(item.linkedSkillId) : undefined}
+                />
+              ))}
+            </div>
+          )}
 
-      {/* Summary */}
-      {!isLoading && sortedItems.length > 0 && (
-        <div className="mt-6 text-center text-sm text-muted-foreground">
-          Showing {sortedItems.length} of {allItems.length} {activeTab}
-          {searchQuery && ` matching "${searchQuery}"`}
-          {selectedCategory !== "all" && ` in "${selectedCategory}"`}
-        </div>
+          {/* Summary */}
+          {!isLoading && sortedItems.length > 0 && (
+            <div className="mt-6 text-center text-sm text-muted-foreground">
+              Showing {sortedItems.length} of {allItems.length} {activeTab}
+              {searchQuery && ` matching "${searchQuery}"`}
+              {selectedCategory !== "all" && ` in "${selectedCategory}"`}
+            </div>
+          )}
+        </>
       )}
 
       {/* Library Analysis Modal */}
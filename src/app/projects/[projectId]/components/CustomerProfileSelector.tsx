@@ -1,13 +1,22 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import Link from "next/link";
 import { CustomerProfile } from "@/types/customerProfile";
+import { parseApiData } from "@/lib/apiClient";
+
+type CustomerDocumentSummary = {
+  id: string;
+  title: string;
+  docType?: string | null;
+};
 
 type CustomerProfileSelectorProps = {
   profiles: CustomerProfile[];
   selectedIds: string[];
-  onSave: (ids: string[]) => void;
+  // Documents of the selected profiles to include when answering
+  selectedDocumentIds: string[];
+  onSave: (ids: string[], documentIds: string[]) => void;
   onCancel: () => void;
   saving: boolean;
 };
@@ -15,11 +24,28 @@ type CustomerProfileSelectorProps = {
 export default function CustomerProfileSelector({
   profiles,
   selectedIds,
+  selectedDocumentIds,
   onSave,
   onCancel,
   saving,
 }: CustomerProfileSelectorProps) {
   const [selected, setSelected] = useState<Set<string>>(new Set(selectedIds));
+  const [selectedDocs, setSelectedDocs] = useState<Set<string>>(new Set(selectedDocumentIds));
+  const [documentsByProfile, setDocumentsByProfile] = useState<Record<string, CustomerDocumentSummary[]>>({});
+
+  // Load the documents of each selected profile once
+  useEffect(() => {
+    const missing = [...selected].filter((id) => !(id in documentsByProfile));
+    for (const profileId of missing) {
+      fetch(`/api/customers/${profileId}/documents`)
+        .then((res) => (res.ok ? res.json() : null))
+        .then((json) => {
+          const documents = json ? parseApiData<CustomerDocumentSummary[]>(json, "documents") : [];
+          setDocumentsByProfile((prev) => ({ ...prev, [profileId]: Array.isArray(documents) ? documents : [] }));
+        })
+        .catch(() => setDocumentsByProfile((prev) => ({ ...prev, [profileId]: [] })));
+    }
+  }, [selected, documentsByProfile]);
 
   const toggle = (id: string) => {
     const newSet = new Set(selected);
@@ -31,6 +57,24 @@ export default function CustomerProfileSelector({
     setSelected(newSet);
   };
 
+  const toggleDoc = (id: string) => {
+    const newSet = new Set(selectedDocs);
+    if (newSet.has(id)) {
+      newSet.delete(id);
+    } else {
+      newSet.add(id);
+    }
+    setSelectedDocs(newSet);
+  };
+
+  const handleSave = () => {
+    // Only keep documents of profiles that are still linked
+    const documentIds = [...selected].flatMap((profileId) =>
+      (documentsByProfile[profileId] || []).filter((doc) => selectedDocs.has(doc.id)).map((doc) => doc.id)
+    );
+    onSave(Array.from(selected), documentIds);
+  };
+
   if (profiles.length === 0) {
     return (
       <div style={{ textAlign: "center", padding: "20px", color: "#64748b" }}>
@@ -81,6 +125,27 @@ export default function CustomerProfileSelector({
                   {profile.industry}
                 </span>
               )}
+              {selected.has(profile.id) && (documentsByProfile[profile.id] || []).length > 0 && (
+                <div style={{ marginTop: "8px" }} onClick={(e) => e.stopPropagation()}>
+                  <div style={{ fontSize: "12px", color: "#64748b", marginBottom: "4px" }}>
+                    Documents to use when answering:
+                  </div>
+                  {documentsByProfile[profile.id].map((doc) => (
+                    <label
+                      key={doc.id}
+                      style={{ display: "flex", alignItems: "center", gap: "6px", fontSize: "13px", padding: "2px 0", cursor: "pointer" }}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={selectedDocs.has(doc.id)}
+                        onChange={() => toggleDoc(doc.id)}
+                      />
+                      {doc.title}
+                      {doc.docType && <span style={{ color: "#94a3b8" }}>({doc.docType})</span>}
+                    </label>
+                  ))}
+                </div>
+              )}
             </div>
           </div>
         ))}
@@ -102,7 +167,7 @@ export default function CustomerProfileSelector({
         </button>
         <button
           type="button"
-          onClick={() => onSave(Array.from(selected))}
+          onClick={handleSave}
           disabled={saving}
           style={{
             padding: "8px 16px",
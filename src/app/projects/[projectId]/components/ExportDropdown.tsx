@@ -1,13 +1,16 @@
 "use client";
 
 import { useState, useRef, useEffect } from "react";
-import { BulkProject } from "@/types/bulkProject";
+import { BulkProject, ProjectSourceFile } from "@/types/bulkProject";
+import { fetchProjectSourceFile } from "@/lib/projectApi";
 import {
+  ExportOptions,
   exportProjectToExcel,
   exportCompletedOnly,
   exportHighConfidenceOnly,
   exportLowConfidenceOnly,
 } from "@/lib/excelExport";
+import SourceFileExportDialog from "./SourceFileExportDialog";
 
 const styles = {
   button: {
@@ -22,7 +25,7 @@ const styles = {
 type ExportOption = {
   label: string;
   description: string;
-  action: (project: BulkProject) => void;
+  action: (project: BulkProject, options?: ExportOptions) => void;
 };
 
 const exportOptions: ExportOption[] = [
@@ -50,12 +53,23 @@ const exportOptions: ExportOption[] = [
 
 type ExportDropdownProps = {
   project: BulkProject;
+  sectionId?: string; // Export only this section (and its nested sections)
 };
 
-export default function ExportDropdown({ project }: ExportDropdownProps) {
+export default function ExportDropdown({ project, sectionId }: ExportDropdownProps) {
+  const section = sectionId ? project.sections?.find((s) => s.id === sectionId) : undefined;
   const [showMenu, setShowMenu] = useState(false);
+  const [sourceFile, setSourceFile] = useState<ProjectSourceFile | null>(null);
+  const [showSourceExport, setShowSourceExport] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
+  // Projects uploaded from an .xlsx or .docx can be exported back into the customer's file
+  useEffect(() => {
+    fetchProjectSourceFile(project.id)
+      .then(setSourceFile)
+      .catch(() => setSourceFile(null));
+  }, [project.id]);
+
   // Close dropdown when clicking outside
   useEffect(() => {
     function handleClickOutside(event: MouseEvent) {
@@ -99,12 +113,17 @@ export default function ExportDropdown({ project }: ExportDropdownProps) {
             minWidth: "200px",
           }}
         >
+          {section && (
+            <div style={{ padding: "8px 14px", fontSize: "12px", color: "#6d28d9", borderBottom: "1px solid #f1f5f9" }}>
+              Section: {section.title}
+            </div>
+          )}
           {exportOptions.map((option, index) => (
             <button
               key={option.label}
               type="button"
               onClick={() => {
-                option.action(project);
+                option.action(project, { sectionId: section?.id });
                 setShowMenu(false);
               }}
               style={{
@@ -125,8 +144,41 @@ export default function ExportDropdown({ project }: ExportDropdownProps) {
               <div style={{ fontSize: "12px", color: "#64748b" }}>{option.description}</div>
             </button>
           ))}
+          {sourceFile && (
+            <button
+              type="button"
+              onClick={() => {
+                setShowSourceExport(true);
+                setShowMenu(false);
+              }}
+              style={{
+                display: "block",
+                width: "100%",
+                padding: "10px 14px",
+                textAlign: "left",
+                border: "none",
+                borderTop: "1px solid #e2e8f0",
+                background: "none",
+                cursor: "pointer",
+                fontSize: "14px",
+              }}
+              onMouseEnter={(e) => (e.currentTarget.style.backgroundColor = "#f8fafc")}
+              onMouseLeave={(e) => (e.currentTarget.style.backgroundColor = "transparent")}
+            >
+              <strong>Original File</strong>
+              <div style={{ fontSize: "12px", color: "#64748b" }}>Answers filled into {sourceFile.filename}</div>
+            </button>
+          )}
         </div>
       )}
+      {showSourceExport && sourceFile && (
+        <SourceFileExportDialog
+          projectId={project.id}
+          sourceFile={sourceFile}
+          onSaved={setSourceFile}
+          onClose={() => setShowSourceExport(false)}
+        />
+      )}
     </div>
   );
 }
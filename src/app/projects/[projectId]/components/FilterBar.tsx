@@ -1,5 +1,8 @@
 "use client";
 
+import { ProjectSection } from "@/types/bulkProject";
+import { formatSectionPath } from "@/lib/projectSections";
+
 const styles = {
   card: {
     border: "1px solid #e2e8f0",
@@ -17,7 +20,7 @@ const styles = {
   },
 };
 
-export type StatusFilter = "all" | "high" | "medium" | "low" | "error" | "flagged" | "pending-review" | "reviewed" | "queued";
+export type StatusFilter = "all" | "high" | "medium" | "low" | "error" | "flagged" | "pending-review" | "reviewed" | "queued" | "stale";
 
 type FilterStats = {
   total: number;
@@ -35,15 +38,25 @@ type FilterBarProps = {
   onFilterChange: (filter: StatusFilter) => void;
   stats: FilterStats;
   queuedCount: number;
+  // Answers whose source skills changed after they were generated
+  staleCount?: number;
+  // Section filter, shown when the project has a section outline
+  sections?: ProjectSection[];
+  sectionFilter?: string;
+  onSectionFilterChange?: (sectionId: string) => void;
 };
 
-const filters: StatusFilter[] = ["all", "high", "medium", "low", "error", "flagged", "pending-review", "reviewed", "queued"];
+const filters: StatusFilter[] = ["all", "high", "medium", "low", "error", "flagged", "pending-review", "reviewed", "queued", "stale"];
 
 export default function FilterBar({
   statusFilter,
   onFilterChange,
   stats,
   queuedCount,
+  staleCount = 0,
+  sections = [],
+  sectionFilter = "all",
+  onSectionFilterChange,
 }: FilterBarProps) {
   const getFilterStyle = (filter: StatusFilter) => {
     if (statusFilter === filter) return { backgroundColor: "#0ea5e9", color: "#fff" };
@@ -51,6 +64,7 @@ export default function FilterBar({
     if (filter === "reviewed" && stats.approved > 0) return { backgroundColor: "#dcfce7", color: "#166534" };
     if (filter === "flagged" && stats.flagged > 0) return { backgroundColor: "#fef3c7", color: "#92400e" };
     if (filter === "queued" && queuedCount > 0) return { backgroundColor: "#ede9fe", color: "#6d28d9" };
+    if (filter === "stale" && staleCount > 0) return { backgroundColor: "#fef3c7", color: "#92400e" };
     return { backgroundColor: "#f1f5f9", color: "#0f172a" };
   };
 
@@ -65,6 +79,7 @@ export default function FilterBar({
       case "pending-review": return `Pending Review (${stats.pendingReview})`;
       case "reviewed": return `Reviewed (${stats.approved})`;
       case "queued": return `Queued (${queuedCount})`;
+      case "stale": return `Possibly Stale (${staleCount})`;
     }
   };
 
@@ -73,8 +88,9 @@ export default function FilterBar({
       <div style={{ display: "flex", gap: "8px", alignItems: "center", flexWrap: "wrap" }}>
         <strong>Filter:</strong>
         {filters.map((filter) => {
-          // Hide queued filter if no items are queued
+          // Hide queued and stale filters when they would be empty
           if (filter === "queued" && queuedCount === 0) return null;
+          if (filter === "stale" && staleCount === 0 && statusFilter !== "stale") return null;
           return (
             <button
               key={filter}
@@ -89,6 +105,21 @@ export default function FilterBar({
             </button>
           );
         })}
+        {sections.length > 0 && onSectionFilterChange && (
+          <select
+            value={sectionFilter}
+            onChange={(e) => onSectionFilterChange(e.target.value)}
+            style={{ marginLeft: "auto", padding: "6px 8px", borderRadius: "4px", border: "1px solid #cbd5e1", maxWidth: "320px" }}
+            aria-label="Filter by section"
+          >
+            <option value="all">All sections</option>
+            {sections.map((section) => (
+              <option key={section.id} value={section.id}>
+                {formatSectionPath(sections, section.id)}
+              </option>
+            ))}
+          </select>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,107 @@
+"use client";
+
+import { useState } from "react";
+import { PriorAnswerMatch } from "@/types/bulkProject";
+
+type PriorAnswerSuggestionsProps = {
+  matches: PriorAnswerMatch[];
+  isApplying: boolean;
+  disabled?: boolean;
+  onUse: (match: PriorAnswerMatch) => void;
+};
+
+function formatSource(match: PriorAnswerMatch): string {
+  if (match.projectName) {
+    return match.customerName ? `${match.projectName} (${match.customerName})` : match.projectName;
+  }
+  return "Question history";
+}
+
+/**
+ * Previously approved answers to similar questions, with a one-click
+ * "use approved answer" that fills the row without calling the LLM.
+ */
+export default function PriorAnswerSuggestions({
+  matches,
+  isApplying,
+  disabled = false,
+  onUse,
+}: PriorAnswerSuggestionsProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  if (matches.length === 0) return null;
+  const best = matches[0];
+
+  return (
+    <div style={{
+      marginTop: "8px",
+      padding: "8px 12px",
+      backgroundColor: "#f0fdf4",
+      border: "1px solid #bbf7d0",
+      borderRadius: "6px",
+      fontSize: "0.85rem",
+    }}>
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        style={{
+          background: "none",
+          border: "none",
+          padding: 0,
+          cursor: "pointer",
+          color: "#166534",
+          fontWeight: 600,
+          fontSize: "0.85rem",
+        }}
+      >
+        {expanded ? "▾" : "▸"} {matches.length} approved answer{matches.length === 1 ? "" : "s"} to similar questions
+        <span style={{ fontWeight: 400, color: "#15803d", marginLeft: "6px" }}>
+          (best match {Math.round(best.score * 100)}%)
+        </span>
+      </button>
+
+      {expanded && matches.map((match) => (
+        <div
+          key={`${match.sourceType}:${match.sourceId}`}
+          style={{ marginTop: "8px", paddingTop: "8px", borderTop: "1px solid #dcfce7" }}
+        >
+          <div style={{ display: "flex", justifyContent: "space-between", gap: "8px", alignItems: "flex-start" }}>
+            <div style={{ color: "#475569" }}>
+              <strong style={{ color: "#166534" }}>{Math.round(match.score * 100)}% match</strong>
+              {" • "}{formatSource(match)}
+              {match.reviewedBy && (
+                <span style={{ color: "#94a3b8" }}>
+                  {" • "}{match.reviewStatus === "CORRECTED" ? "Corrected" : "Approved"} by {match.reviewedBy}
+                </span>
+              )}
+            </div>
+            <button
+              type="button"
+              onClick={() => onUse(match)}
+              disabled={disabled || isApplying}
+              style={{
+                padding: "4px 10px",
+                borderRadius: "4px",
+                border: "none",
+                fontSize: "0.8rem",
+                fontWeight: 600,
+                whiteSpace: "nowrap",
+                backgroundColor: disabled || isApplying ? "#94a3b8" : "#22c55e",
+                color: "#fff",
+                cursor: disabled || isApplying ? "not-allowed" : "pointer",
+              }}
+            >
+              {isApplying ? "Applying..." : "Use approved answer"}
+            </button>
+          </div>
+          <div style={{ marginTop: "4px", color: "#64748b", fontStyle: "italic" }}>
+            Q: {match.question}
+          </div>
+          <div style={{ marginTop: "4px", color: "#0f172a", whiteSpace: "pre-wrap" }}>
+            {match.answer}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { BulkProject, ProjectCustomerProfileRef } from "@/types/bulkProject";
+import { BulkProject, ProjectCustomerProfileRef, ProjectVisibility } from "@/types/bulkProject";
 import ExportDropdown from "./ExportDropdown";
 
 const styles = {
@@ -57,6 +57,12 @@ const getStatusLabel = (status: BulkProject["status"]) => {
   }
 };
 
+const VISIBILITY_LABELS: Record<ProjectVisibility, string> = {
+  PRIVATE: "Private",
+  TEAM: "Team",
+  ORG: "Organization",
+};
+
 type ProjectStats = {
   total: number;
   high: number;
@@ -72,12 +78,17 @@ type ProjectHeaderProps = {
   isRequestingReview: boolean;
   isApproving: boolean;
   isSendingQueued: boolean;
+  isTogglingLock: boolean;
+  canUnlock: boolean; // REVIEW_ANSWERS is required to reopen locked answers
   onRequestReview: () => void;
   onApprove: () => void;
   onSendAllQueued: () => void;
+  onToggleLock: () => void;
   onDeleteProject: () => void;
   onEditCustomers: () => void;
   onEditOwner: () => void;
+  onEditSharing: () => void;
+  exportSectionId?: string; // Limit Excel exports to the section being viewed
 };
 
 export default function ProjectHeader({
@@ -87,12 +98,17 @@ export default function ProjectHeader({
   isRequestingReview,
   isApproving,
   isSendingQueued,
+  isTogglingLock,
+  canUnlock,
   onRequestReview,
   onApprove,
   onSendAllQueued,
+  onToggleLock,
   onDeleteProject,
   onEditCustomers,
   onEditOwner,
+  onEditSharing,
+  exportSectionId,
 }: ProjectHeaderProps) {
   return (
     <div style={{ ...styles.card, display: "flex", flexWrap: "wrap", gap: "16px", justifyContent: "space-between", alignItems: "flex-start" }}>
@@ -101,6 +117,14 @@ export default function ProjectHeader({
           <span style={{ ...styles.statusBadge, ...getStatusColor(project.status) }}>
             {getStatusLabel(project.status)}
           </span>
+          {project.locked && (
+            <span
+              style={{ ...styles.statusBadge, backgroundColor: "#e5e7eb", color: "#4b5563" }}
+              title={project.lockedBy ? `Locked by ${project.lockedBy}${project.lockReason ? `: ${project.lockReason}` : ""}` : undefined}
+            >
+              🔒 Answers locked
+            </span>
+          )}
           <span style={{ fontSize: "1.1rem", fontWeight: 600 }}>{project.name}</span>
         </div>
         <div style={{ display: "flex", flexWrap: "wrap", gap: "16px", fontSize: "0.9rem", color: "#475569" }}>
@@ -111,9 +135,29 @@ export default function ProjectHeader({
             {project.owner?.name || project.ownerName || (
               <span style={{ color: "#94a3b8" }}>Not assigned</span>
             )}
+            {(!project.accessRole || project.accessRole === "OWNER") && (
+              <button
+                type="button"
+                onClick={onEditOwner}
+                style={{
+                  marginLeft: "6px",
+                  padding: "1px 6px",
+                  fontSize: "0.75rem",
+                  backgroundColor: "#f1f5f9",
+                  border: "1px solid #e2e8f0",
+                  borderRadius: "3px",
+                  cursor: "pointer",
+                }}
+              >
+                Change
+              </button>
+            )}
+          </span>
+          <span>
+            <strong>Visibility:</strong> {VISIBILITY_LABELS[project.visibility ?? "ORG"]}
             <button
               type="button"
-              onClick={onEditOwner}
+              onClick={onEditSharing}
               style={{
                 marginLeft: "6px",
                 padding: "1px 6px",
@@ -124,7 +168,7 @@ export default function ProjectHeader({
                 cursor: "pointer",
               }}
             >
-              Change
+              Sharing
             </button>
           </span>
         </div>
@@ -227,7 +271,22 @@ export default function ProjectHeader({
             {isApproving ? "Approving..." : "Approve"}
           </button>
         )}
-        <ExportDropdown project={project} />
+        {(!project.locked || canUnlock) && (
+          <button
+            type="button"
+            onClick={onToggleLock}
+            disabled={isTogglingLock}
+            style={{
+              ...styles.button,
+              backgroundColor: "#f1f5f9",
+              color: "#475569",
+              cursor: isTogglingLock ? "not-allowed" : "pointer",
+            }}
+          >
+            {project.locked ? "Unlock Answers" : "Lock Answers"}
+          </button>
+        )}
+        <ExportDropdown project={project} sectionId={exportSectionId} />
         <button
           type="button"
           onClick={onDeleteProject}
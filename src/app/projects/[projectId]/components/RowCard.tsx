@@ -1,14 +1,17 @@
 "use client";
 
 import { useState, useRef, useEffect, useCallback } from "react";
-import { BulkRow } from "@/types/bulkProject";
-import { Skill } from "@/types/skill";
+import { BulkRow, PriorAnswerMatch } from "@/types/bulkProject";
+import { RetrievedSkill, StaleSkillRef } from "@/types/skill";
 import { parseAnswerSections } from "@/lib/questionHelpers";
 import ConversationalRefinement from "@/components/ConversationalRefinement";
 import SkillRecommendation from "@/components/SkillRecommendation";
 import TransparencyDetails from "@/components/TransparencyDetails";
+import PriorAnswerSuggestions from "./PriorAnswerSuggestions";
 import ReviewStatusBanner, { getEffectiveReviewStatus, getReviewerName } from "@/components/ReviewStatusBanner";
 import { BulkProject } from "@/types/bulkProject";
+import CommentThreads from "@/components/CommentThreads";
+import type { CommentCounts } from "@/types/comment";
 
 const styles = {
   statusPill: {
@@ -43,6 +46,11 @@ type RowCardProps = {
   projectId: string;
   projectStatus: BulkProject["status"];
   projectReviewedBy?: string;
+  projectLocked?: boolean;
+  canUnlock?: boolean;
+  currentSkillVersions?: Record<string, number>;
+  // Skills that changed after this answer was generated
+  staleSkills?: StaleSkillRef[];
   promptText: string;
   sendingReviewRowId: string | null;
   onUpdateRow: (rowId: string, updates: Partial<BulkRow>) => void;
@@ -52,6 +60,12 @@ type RowCardProps = {
   onReopenFlag: (rowId: string) => void;
   onApproveRow: (rowId: string) => void;
   onCorrectRow: (rowId: string) => void;
+  priorAnswers?: PriorAnswerMatch[];
+  isApplyingPriorAnswer?: boolean;
+  onUsePriorAnswer?: (rowId: string, match: PriorAnswerMatch) => void;
+  onToggleLock?: (rowId: string, lock: boolean) => void;
+  commentCounts?: CommentCounts;
+  onCommentsChange?: (counts: { total: number; open: number }) => void;
 };
 
 function renderStatus(status: string) {
@@ -74,6 +88,10 @@ export default function RowCard({
   projectId,
   projectStatus,
   projectReviewedBy,
+  projectLocked = false,
+  canUnlock = false,
+  currentSkillVersions,
+  staleSkills,
   promptText,
   sendingReviewRowId,
   onUpdateRow,
@@ -83,8 +101,15 @@ export default function RowCard({
   onReopenFlag,
   onApproveRow,
   onCorrectRow,
+  priorAnswers,
+  isApplyingPriorAnswer = false,
+  onUsePriorAnswer,
+  onToggleLock,
+  commentCounts,
+  onCommentsChange,
 }: RowCardProps) {
   const [showResolveForm, setShowResolveForm] = useState(false);
+  const [showComments, setShowComments] = useState(false);
   const [resolutionNote, setResolutionNote] = useState("");
   const [isEditing, setIsEditing] = useState(false);
 
@@ -108,11 +133,12 @@ export default function RowCard({
   }, [row.response, autoResize]);
 
   // Lock by default when response exists and has been reviewed/approved
-  // Project is fully locked when finalized
+  // Project is fully locked when finalized; locked answers can't be edited at all
   const hasResponse = Boolean(row.response);
   const isReviewed = row.reviewStatus === "APPROVED" || row.reviewStatus === "CORRECTED";
   const isProjectFinalized = projectStatus === "finalized";
-  const locked = isProjectFinalized || (hasResponse && !isEditing);
+  const isAnswerLocked = Boolean(row.locked) || projectLocked;
+  const locked = isProjectFinalized || isAnswerLocked || (hasResponse && !isEditing);
 
   const handleResolve = () => {
     onResolveFlag(row.id, resolutionNote || undefined);
@@ -125,11 +151,11 @@ export default function RowCard({
   const isFlagActive = row.flaggedForReview && !row.flagResolved;
 
   return (
-    <div style={{ borderTop: "1px solid #e2e8f0", paddingTop: "12px", marginTop: "12px" }}>
+    <div id={`row-${row.id}`} style={{ borderTop: "1px solid #e2e8f0", paddingTop: "12px", marginTop: "12px" }}>
       {/* Header with status */}
       <div style={{ display: "flex", justifyContent: "space-between", alignItems: "flex-start", marginBottom: "8px", gap: "8px" }}>
         <div style={{ fontSize: "0.9rem", color: "#475569", display: "flex", alignItems: "center", gap: "8px", flexWrap: "wrap" }}>
-          Row {row.rowNumber} • {renderStatus(row.status)}
+          Row {row.rowNumber}{row.sourceLocation ? ` (${row.sourceLocation.label})` : ""}{row.questionId ? ` • ${row.questionId}` : ""} • {renderStatus(row.status)}
           {/* Queued Badge */}
           {row.queuedForReview && (
             <span style={{
@@ -173,6 +199,36 @@ export default function RowCard({
               by {row.reviewedBy}
             </span>
           )}
+          {/* Lock Badge */}
+          {isAnswerLocked && (
+            <span
+              style={{
+                ...styles.statusPill,
+                backgroundColor: "#e5e7eb",
+                color: "#4b5563",
+              }}
+              title={row.lockedBy ? `Locked by ${row.lockedBy}${row.lockReason ? `: ${row.lockReason}` : ""}` : undefined}
+            >
+              🔒 Locked
+            </span>
+          )}
+          {/* Stale Badge */}
+          {staleSkills && staleSkills.length > 0 && (
+            <span
+              style={{
+                ...styles.statusPill,
+                backgroundColor: "#fef3c7",
+                color: "#92400e",
+              }}
+              title={`Changed since this answer: ${staleSkills
+                .map((skill) => skill.answeredVersion !== undefined
+                  ? `${skill.title} (v${skill.answeredVersion} → v${skill.currentVersion})`
+                  : skill.title)
+                .join(", ")}`}
+            >
+              Possibly stale
+            </span>
+          )}
           {/* Flag Status Badges */}
           {isFlagActive && (
             <span style={{
@@ -194,8 +250,51 @@ export default function RowCard({
           )}
         </div>
         <div style={{ display: "flex", gap: "6px", flexWrap: "wrap", alignItems: "center" }}>
-          {/* Edit/Save toggle - only show when there's a response and project is not finalized */}
-          {hasResponse && !isProjectFinalized && (
+          {/* Comments toggle - the dot marks comments the user hasn't read */}
+          <button
+            type="button"
+            onClick={() => setShowComments(!showComments)}
+            title={commentCounts?.unread ? `${commentCounts.unread} unread comment${commentCounts.unread === 1 ? "" : "s"}` : "Comments"}
+            style={{
+              ...styles.button,
+              padding: "4px 10px",
+              fontSize: "0.8rem",
+              backgroundColor: showComments ? "#dbeafe" : "#f1f5f9",
+              color: "#64748b",
+              position: "relative",
+            }}
+          >
+            💬 {commentCounts?.total || ""}
+            {Boolean(commentCounts?.unread) && (
+              <span style={{
+                position: "absolute",
+                top: "2px",
+                right: "2px",
+                width: "8px",
+                height: "8px",
+                borderRadius: "50%",
+                backgroundColor: "#2563eb",
+              }} />
+            )}
+          </button>
+          {/* Lock/Unlock - a row can't be unlocked on its own while the project is locked */}
+          {onToggleLock && hasResponse && !projectLocked && (row.locked ? canUnlock : !isProjectFinalized) && (
+            <button
+              type="button"
+              onClick={() => onToggleLock(row.id, !row.locked)}
+              style={{
+                ...styles.button,
+                padding: "4px 10px",
+                fontSize: "0.8rem",
+                backgroundColor: "#f1f5f9",
+                color: "#64748b",
+              }}
+            >
+              {row.locked ? "Unlock" : "Lock"}
+            </button>
+          )}
+          {/* Edit/Save toggle - only show when there's a response and the answer can change */}
+          {hasResponse && !isProjectFinalized && !isAnswerLocked && (
             <button
               type="button"
               onClick={() => setIsEditing(!isEditing)}
@@ -235,21 +334,24 @@ export default function RowCard({
               >
                 Flag
               </button>
-              <button
-                type="button"
-                onClick={() => onFlagOrReview(row.id, "need-help")}
-                disabled={sendingReviewRowId === row.id}
-                style={{
-                  ...styles.button,
-                  padding: "4px 10px",
-                  fontSize: "0.8rem",
-                  backgroundColor: sendingReviewRowId === row.id ? "#94a3b8" : "#0ea5e9",
-                  color: "#fff",
-                  cursor: sendingReviewRowId === row.id ? "not-allowed" : "pointer",
-                }}
-              >
-                {sendingReviewRowId === row.id ? "Sending..." : "Need Help?"}
-              </button>
+              {/* Locked answers can be flagged but not sent for review */}
+              {!isAnswerLocked && (
+                <button
+                  type="button"
+                  onClick={() => onFlagOrReview(row.id, "need-help")}
+                  disabled={sendingReviewRowId === row.id}
+                  style={{
+                    ...styles.button,
+                    padding: "4px 10px",
+                    fontSize: "0.8rem",
+                    backgroundColor: sendingReviewRowId === row.id ? "#94a3b8" : "#0ea5e9",
+                    color: "#fff",
+                    cursor: sendingReviewRowId === row.id ? "not-allowed" : "pointer",
+                  }}
+                >
+                  {sendingReviewRowId === row.id ? "Sending..." : "Need Help?"}
+                </button>
+              )}
             </>
           )}
           {/* Resolve Flag button - for active flags (not shown when finalized) */}
@@ -285,7 +387,7 @@ export default function RowCard({
             </button>
           )}
           {/* Confirm/Correct buttons (not shown when finalized) */}
-          {row.reviewStatus === "REQUESTED" && !isProjectFinalized && (
+          {row.reviewStatus === "REQUESTED" && !isProjectFinalized && !isAnswerLocked && (
             <>
               <button
                 type="button"
@@ -451,6 +553,16 @@ export default function RowCard({
         }}
       />
 
+      {/* Previously approved answers to similar questions */}
+      {priorAnswers && onUsePriorAnswer && !isReviewed && !isProjectFinalized && !isAnswerLocked && (
+        <PriorAnswerSuggestions
+          matches={priorAnswers}
+          isApplying={isApplyingPriorAnswer}
+          disabled={row.status === "generating"}
+          onUse={(match) => onUsePriorAnswer(row.id, match)}
+        />
+      )}
+
       {/* Response Section */}
       {row.response && (
         <div style={{
@@ -503,9 +615,14 @@ export default function RowCard({
             defaultExpanded={row.detailsExpanded}
             onToggle={(expanded) => onUpdateRow(row.id, { detailsExpanded: expanded })}
             knowledgeReferences={(row.usedSkills || [])
-              .filter((s): s is Skill => typeof s === "object" && s !== null && "id" in s && "title" in s)
+              .filter((s): s is RetrievedSkill => typeof s === "object" && s !== null && "id" in s && "title" in s)
               .map(s => ({ id: s.id, title: s.title, type: "skill" as const }))
             }
+            retrievedSkills={(row.usedSkills || []).filter(
+              (s): s is RetrievedSkill => typeof s === "object" && s !== null && "id" in s && "title" in s
+            )}
+            currentSkillVersions={currentSkillVersions}
+            customerContext={row.usedCustomerContext}
             renderClarifyButton={!row.conversationOpen && !isProjectFinalized ? () => (
               <button
                 type="button"
@@ -530,6 +647,10 @@ export default function RowCard({
         </div>
       )}
 
+      {showComments && (
+        <CommentThreads targetType="row" targetId={row.id} onChange={onCommentsChange} />
+      )}
+
       {row.error && !row.response && (
         <p style={{ color: "#b91c1c", fontSize: "0.85rem", marginTop: "8px" }}>{row.error}</p>
       )}
@@ -0,0 +1,80 @@
+"use client";
+
+import { SectionGroup } from "@/lib/projectSections";
+
+type SectionHeaderProps = {
+  group: SectionGroup;
+  collapsed: boolean;
+  onToggle: (sectionId: string) => void;
+  onAssignReviewer: (sectionId: string) => void;
+};
+
+export default function SectionHeader({
+  group,
+  collapsed,
+  onToggle,
+  onAssignReviewer,
+}: SectionHeaderProps) {
+  const { section, depth, totalRows, answeredRows } = group;
+  const complete = totalRows > 0 && answeredRows === totalRows;
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        alignItems: "center",
+        gap: "10px",
+        padding: "10px 12px",
+        marginTop: depth === 0 ? "16px" : "8px",
+        marginLeft: `${depth * 20}px`,
+        backgroundColor: depth === 0 ? "#f1f5f9" : "#f8fafc",
+        borderRadius: "6px",
+        cursor: "pointer",
+      }}
+      onClick={() => onToggle(section.id)}
+    >
+      <span style={{ fontSize: "10px", color: "#64748b", width: "10px" }}>
+        {collapsed ? "▶" : "▼"}
+      </span>
+      <span style={{ fontWeight: 600, color: "#0f172a", fontSize: depth === 0 ? "15px" : "14px" }}>
+        {section.title}
+      </span>
+      <span
+        style={{
+          fontSize: "12px",
+          padding: "2px 8px",
+          borderRadius: "999px",
+          backgroundColor: complete ? "#dcfce7" : "#e2e8f0",
+          color: complete ? "#166534" : "#475569",
+        }}
+      >
+        {answeredRows}/{totalRows} answered
+      </span>
+      <div style={{ flex: 1 }} />
+      {section.assignedReviewerName && (
+        <span style={{ fontSize: "12px", color: "#6d28d9" }}>
+          Reviewer: {section.assignedReviewerName}
+        </span>
+      )}
+      <button
+        type="button"
+        onClick={(e) => {
+          e.stopPropagation();
+          onAssignReviewer(section.id);
+        }}
+        style={{
+          padding: "4px 10px",
+          borderRadius: "4px",
+          border: "1px solid #cbd5e1",
+          backgroundColor: "#fff",
+          cursor: "pointer",
+          fontSize: "12px",
+          fontWeight: 600,
+          color: "#334155",
+        }}
+      >
+        {section.assignedReviewerName ? "Change reviewer" : "Assign reviewer"}
+      </button>
+    </div>
+  );
+}
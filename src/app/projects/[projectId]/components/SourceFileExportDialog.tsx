@@ -0,0 +1,202 @@
+"use client";
+
+import { useState } from "react";
+import * as XLSX from "xlsx";
+import { toast } from "sonner";
+import { ProjectSourceFile, SourceSheetMapping } from "@/types/bulkProject";
+import { updateSourceFileMappings, downloadFilledSourceFile } from "@/lib/projectApi";
+
+const styles = {
+  button: {
+    padding: "8px 14px",
+    borderRadius: "4px",
+    border: "none",
+    cursor: "pointer",
+    fontWeight: 600,
+  },
+  select: {
+    width: "100%",
+    padding: "6px 8px",
+    borderRadius: "6px",
+    border: "1px solid #cbd5e1",
+    fontSize: "0.85rem",
+  },
+};
+
+type SourceFileExportDialogProps = {
+  projectId: string;
+  sourceFile: ProjectSourceFile;
+  onSaved: (sourceFile: ProjectSourceFile) => void;
+  onClose: () => void;
+};
+
+/**
+ * Choose the answer/comment column per tab (workbooks only), then download
+ * the customer's original file with answers filled in.
+ */
+export default function SourceFileExportDialog({
+  projectId,
+  sourceFile,
+  onSaved,
+  onClose,
+}: SourceFileExportDialogProps) {
+  const [mappings, setMappings] = useState<SourceSheetMapping[]>(sourceFile.sheetMappings);
+  const [approvedOnly, setApprovedOnly] = useState(sourceFile.fileType === "docx");
+  const [isExporting, setIsExporting] = useState(false);
+
+  const isDocument = sourceFile.fileType === "docx";
+  const hasTarget = isDocument || mappings.some((m) => m.answerColumn != null || m.commentColumn != null);
+
+  const updateMapping = (sheetName: string, updates: Partial<SourceSheetMapping>) => {
+    setMappings((prev) => prev.map((m) => (m.sheetName === sheetName ? { ...m, ...updates } : m)));
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      if (!isDocument) {
+        const saved = await updateSourceFileMappings(projectId, mappings);
+        onSaved(saved);
+      }
+      const extension = sourceFile.fileType;
+      const filename = `${sourceFile.filename.replace(/\.(xlsx|docx)$/i, "")} (answered).${extension}`;
+      await downloadFilledSourceFile(projectId, filename, { approvedOnly });
+      toast.success("Original file exported");
+      onClose();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to export file");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const renderColumnSelect = (
+    mapping: SourceSheetMapping,
+    field: "answerColumn" | "commentColumn"
+  ) => (
+    <select
+      value={mapping[field] ?? ""}
+      onChange={(e) => updateMapping(mapping.sheetName, {
+        [field]: e.target.value === "" ? null : Number(e.target.value),
+      })}
+      style={styles.select}
+    >
+      <option value="">{field === "answerColumn" ? "Don't fill" : "None"}</option>
+      {mapping.columns.map((label, i) => {
+        const column = mapping.firstColumn + i;
+        if (column === mapping.questionColumn) return null;
+        return (
+          <option key={column} value={column}>
+            {XLSX.utils.encode_col(column)}: {label}
+          </option>
+        );
+      })}
+    </select>
+  );
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: "rgba(0,0,0,0.5)",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        zIndex: 1000,
+      }}
+      onClick={onClose}
+    >
+      <div
+        style={{
+          backgroundColor: "#fff",
+          borderRadius: "12px",
+          padding: "24px",
+          maxWidth: "600px",
+          width: "90%",
+          maxHeight: "80vh",
+          overflow: "auto",
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 style={{ margin: "0 0 8px 0" }}>Export to Original File</h3>
+        {isDocument ? (
+          <p style={{ color: "#64748b", fontSize: "14px", margin: "0 0 16px 0" }}>
+            <strong>{sourceFile.filename}</strong> is rebuilt with its headings, numbered questions and
+            tables. Answers go into each table&apos;s response column, or directly below numbered questions.
+          </p>
+        ) : (
+          <p style={{ color: "#64748b", fontSize: "14px", margin: "0 0 16px 0" }}>
+            Answers are written into <strong>{sourceFile.filename}</strong>. Formatting, data validation
+            and other tabs are kept as uploaded. Rows without an answer are left unchanged.
+          </p>
+        )}
+
+        {!isDocument && mappings.map((mapping) => (
+          <div
+            key={mapping.sheetName}
+            style={{
+              padding: "12px",
+              border: "1px solid #e2e8f0",
+              borderRadius: "6px",
+              marginBottom: "12px",
+            }}
+          >
+            <div style={{ fontWeight: 600, marginBottom: "4px" }}>{mapping.sheetName}</div>
+            <div style={{ fontSize: "0.8rem", color: "#64748b", marginBottom: "8px" }}>
+              Questions in column {XLSX.utils.encode_col(mapping.questionColumn)}
+              {mapping.columns[mapping.questionColumn - mapping.firstColumn]
+                ? ` (${mapping.columns[mapping.questionColumn - mapping.firstColumn]})`
+                : ""}
+            </div>
+            <div style={{ display: "flex", gap: "12px" }}>
+              <label style={{ flex: 1, fontSize: "0.85rem" }}>
+                Answer column
+                {renderColumnSelect(mapping, "answerColumn")}
+              </label>
+              <label style={{ flex: 1, fontSize: "0.85rem" }}>
+                Comment column (remarks)
+                {renderColumnSelect(mapping, "commentColumn")}
+              </label>
+            </div>
+          </div>
+        ))}
+
+        <label style={{ display: "flex", alignItems: "center", gap: "8px", fontSize: "0.85rem", color: "#475569" }}>
+          <input
+            type="checkbox"
+            checked={approvedOnly}
+            onChange={(e) => setApprovedOnly(e.target.checked)}
+          />
+          Only include final answers (approved, corrected or locked, with no open flag)
+        </label>
+
+        <div style={{ display: "flex", justifyContent: "flex-end", gap: "8px", marginTop: "16px" }}>
+          <button
+            type="button"
+            onClick={onClose}
+            style={{ ...styles.button, backgroundColor: "#f1f5f9", color: "#64748b" }}
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={!hasTarget || isExporting}
+            style={{
+              ...styles.button,
+              backgroundColor: !hasTarget || isExporting ? "#94a3b8" : "#10b981",
+              color: "#fff",
+              cursor: !hasTarget || isExporting ? "not-allowed" : "pointer",
+            }}
+          >
+            {isExporting ? "Exporting..." : "Download Filled File"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
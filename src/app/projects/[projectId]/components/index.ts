@@ -4,3 +4,4 @@ export { default as ProjectHeader } from "./ProjectHeader";
 export { default as FilterBar, type StatusFilter } from "./FilterBar";
 export { default as QueueIndicator } from "./QueueIndicator";
 export { default as CustomerProfileSelector } from "./CustomerProfileSelector";
+export { default as SectionHeader } from "./SectionHeader";
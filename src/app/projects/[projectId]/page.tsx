@@ -5,27 +5,51 @@ import { useRouter, useParams, useSearchParams } from "next/navigation";
 import Link from "next/link";
 import { useSession } from "next-auth/react";
 import { toast } from "sonner";
-import { useConfirm } from "@/components/ConfirmModal";
+import { useConfirm, usePrompt } from "@/components/ConfirmModal";
 import { useFlagReview, FlagReviewData } from "@/components/FlagReviewModal";
 import { defaultQuestionPrompt } from "@/lib/questionPrompt";
 import { useStoredPrompt } from "@/hooks/useStoredPrompt";
 import { QUESTION_PROMPT_STORAGE_KEY } from "@/lib/promptStorage";
-import { BulkProject, BulkRow } from "@/types/bulkProject";
-import { fetchProject, updateProject } from "@/lib/projectApi";
+import {
+  BulkProject,
+  BulkRow,
+  ProjectJob,
+  PriorAnswerMatch,
+  StaleAnswer,
+  ProjectCollaborator,
+  ProjectVisibility,
+} from "@/types/bulkProject";
+import {
+  fetchProject,
+  updateProject,
+  startAnswerJob,
+  fetchProjectJobs,
+  cancelProjectJob,
+  fetchPriorAnswers,
+  fetchStaleAnswers,
+  applyPriorAnswer,
+  assignSectionReviewer,
+  lockProject,
+  unlockProject,
+  setRowLock,
+  fetchProjectCollaborators,
+  updateProjectCollaborators,
+} from "@/lib/projectApi";
+import { collectSectionIds, groupRowsBySection } from "@/lib/projectSections";
 import { useDeleteProject } from "@/hooks/use-project-data";
 import { loadSkillsFromApi } from "@/lib/skillStorage";
 import { Skill } from "@/types/skill";
-import { selectRelevantSkillsForBatch } from "@/lib/questionHelpers";
-import { ReferenceUrl } from "@/types/referenceUrl";
-import { fetchMultipleUrls } from "@/lib/urlFetcher";
 import SkillUpdateBanner from "@/components/SkillUpdateBanner";
 import DomainSelector, { Domain } from "@/components/DomainSelector";
 import { fetchActiveProfiles } from "@/lib/customerProfileApi";
 import { CustomerProfile } from "@/types/customerProfile";
 import { features } from "@/lib/featureFlags";
 import UserSelector, { SelectableUser } from "@/components/UserSelector";
+import ProjectCollaboratorsEditor from "@/components/ProjectCollaboratorsEditor";
 import { SpeedToggle } from "@/components/speed-toggle";
 import { parseApiData } from "@/lib/apiClient";
+import { fetchProjectCommentCounts } from "@/lib/commentApi";
+import type { CommentCounts } from "@/types/comment";
 import { InlineError } from "@/components/ui/status-display";
 
 import {
@@ -35,8 +59,12 @@ import {
   StatusFilter,
   QueueIndicator,
   CustomerProfileSelector,
+  SectionHeader,
 } from "./components";
 
+// How often the page polls a running job for progress
+const JOB_POLL_INTERVAL_MS = 3000;
+
 const styles = {
   container: {
     maxWidth: "1400px",
@@ -85,12 +113,16 @@ export default function BulkResponsesPage() {
     defaultQuestionPrompt,
   );
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
-  const [isGeneratingAll, setIsGeneratingAll] = useState(false);
+  const [activeJob, setActiveJob] = useState<ProjectJob | null>(null);
+  const [isStartingJob, setIsStartingJob] = useState(false);
   const [availableSkills, setAvailableSkills] = useState<Skill[]>([]);
-  const [referenceUrls, setReferenceUrls] = useState<ReferenceUrl[]>([]);
   const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
+  const [sectionFilter, setSectionFilter] = useState("all");
+  const [collapsedSections, setCollapsedSections] = useState<Set<string>>(new Set());
+  const [assigningSectionId, setAssigningSectionId] = useState<string | null>(null);
+  const [queueSectionRows, setQueueSectionRows] = useState(true);
+  const [savingSectionReviewer, setSavingSectionReviewer] = useState(false);
   const [promptCollapsed, setPromptCollapsed] = useState(true);
-  const [generateProgress, setGenerateProgress] = useState({ current: 0, total: 0 });
   const [isRequestingReview, setIsRequestingReview] = useState(false);
   const [isApproving, setIsApproving] = useState(false);
   const [allCustomerProfiles, setAllCustomerProfiles] = useState<CustomerProfile[]>([]);
@@ -98,6 +130,13 @@ export default function BulkResponsesPage() {
   const [savingCustomers, setSavingCustomers] = useState(false);
   const [showOwnerSelector, setShowOwnerSelector] = useState(false);
   const [savingOwner, setSavingOwner] = useState(false);
+  const [sharing, setSharing] = useState<{
+    visibility: ProjectVisibility;
+    collaborators: ProjectCollaborator[];
+    canManage: boolean;
+  } | null>(null);
+  const [savingSharing, setSavingSharing] = useState(false);
+  const [isTogglingLock, setIsTogglingLock] = useState(false);
 
   const { confirm: confirmDelete, ConfirmDialog } = useConfirm({
     title: "Delete Project",
@@ -106,6 +145,17 @@ export default function BulkResponsesPage() {
     variant: "danger",
   });
 
+  const { prompt: promptUnlockReason, PromptDialog: UnlockReasonDialog } = usePrompt({
+    title: "Unlock Answers",
+    message: "Unlocked answers can be edited and regenerated again. Why are they being reopened?",
+    placeholder: "Reason (recorded in the audit log)",
+    submitLabel: "Unlock",
+  });
+
+  // Unlocking needs REVIEW_ANSWERS (ADMIN grants everything)
+  const userCapabilities = session?.user?.capabilities || [];
+  const canUnlock = userCapabilities.includes("REVIEW_ANSWERS") || userCapabilities.includes("ADMIN");
+
   const deleteProjectMutation = useDeleteProject();
   const { openFlagReview, FlagReviewDialog } = useFlagReview();
   const [selectedDomains, setSelectedDomains] = useState<Domain[]>([]);
@@ -113,26 +163,31 @@ export default function BulkResponsesPage() {
   const [isSendingQueued, setIsSendingQueued] = useState(false);
   // Quick mode uses Haiku for faster responses (2-5s vs 10-30s)
   const [quickMode, setQuickMode] = useState(false);
+  // Request reviews from routed SMEs (section reviewer, skill owners, routing rules) when generation finishes
+  const [routeReviews, setRouteReviews] = useState(true);
+  // Approved answers from earlier projects that match this project's questions, keyed by row ID
+  const [priorAnswers, setPriorAnswers] = useState<Record<string, PriorAnswerMatch[]>>({});
+  const [applyingPriorAnswerRowId, setApplyingPriorAnswerRowId] = useState<string | null>(null);
+  // Answers whose source skills changed after they were generated
+  const [staleAnswers, setStaleAnswers] = useState<StaleAnswer[]>([]);
+  // Comment totals per row, keyed by row ID
+  const [commentCounts, setCommentCounts] = useState<Record<string, CommentCounts>>({});
+
+  // Active server-side job; generation no longer depends on this tab staying open
+  const activeJobRef = useRef<ProjectJob | null>(null);
+  const isGeneratingAll = activeJob !== null || isStartingJob;
+
+  // Current version of each skill, to show answers built on older wording
+  const currentSkillVersions = useMemo(
+    () => Object.fromEntries(availableSkills.filter((skill) => skill.version !== undefined).map((skill) => [skill.id, skill.version!])),
+    [availableSkills]
+  );
 
-  // Track processing state for beforeunload warning
-  const isProcessingRef = useRef(false);
-
-  useEffect(() => {
-    isProcessingRef.current = isGeneratingAll;
-  }, [isGeneratingAll]);
-
-  // Warn user if they try to leave while generating
-  useEffect(() => {
-    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
-      if (isProcessingRef.current) {
-        e.preventDefault();
-        e.returnValue = "Generation is in progress. Are you sure you want to leave?";
-        return e.returnValue;
-      }
-    };
-    window.addEventListener("beforeunload", handleBeforeUnload);
-    return () => window.removeEventListener("beforeunload", handleBeforeUnload);
-  }, []);
+  const staleAnswersByRowId = useMemo(
+    () => new Map(staleAnswers.map((answer) => [answer.id, answer])),
+    [staleAnswers]
+  );
+  const reanswerableStaleCount = staleAnswers.filter((answer) => !answer.locked).length;
 
   // Compute queued items from project rows
   const queuedItems = useMemo(() => {
@@ -171,9 +226,44 @@ export default function BulkResponsesPage() {
     loadProjectData();
   }, [projectId, router]);
 
+  // Scroll to a row linked from global search (#row-<id>) once rows have rendered
+  const projectLoaded = Boolean(project);
+  useEffect(() => {
+    if (!projectLoaded || !window.location.hash.startsWith("#row-")) return;
+    document.getElementById(window.location.hash.slice(1))?.scrollIntoView({ block: "center" });
+  }, [projectLoaded]);
+
+  // Suggest previously approved answers for this project's questions
+  useEffect(() => {
+    fetchPriorAnswers(projectId)
+      .then(setPriorAnswers)
+      .catch(() => {
+        // Suggestions are optional - answering works without them
+      });
+  }, [projectId]);
+
+  // Check which answers were built on skills that have changed since
+  useEffect(() => {
+    fetchStaleAnswers(projectId)
+      .then(setStaleAnswers)
+      .catch(() => {
+        // Stale detection is informational - the project works without it
+      });
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchProjectCommentCounts(projectId)
+      .then(setCommentCounts)
+      .catch(() => {
+        // Comment badges are optional - rows still open their threads
+      });
+  }, [projectId]);
+
   // Auto-save project changes with debouncing
+  // Paused while a job runs so stale local rows never overwrite server-generated answers
+  // Viewers can't save, so their local edits are never sent
   useEffect(() => {
-    if (!project) return;
+    if (!project || activeJobRef.current || project.accessRole === "VIEWER") return;
 
     const saveTimeout = setTimeout(async () => {
       try {
@@ -186,16 +276,9 @@ export default function BulkResponsesPage() {
     return () => clearTimeout(saveTimeout);
   }, [project]);
 
-  // Load skills, reference URLs, and customer profiles on mount
+  // Load skills and customer profiles on mount
   useEffect(() => {
     loadSkillsFromApi().then(setAvailableSkills).catch(() => toast.error("Failed to load skills"));
-    fetch("/api/reference-urls")
-      .then(res => res.json())
-      .then(json => {
-        const data = parseApiData<ReferenceUrl[]>(json);
-        setReferenceUrls(Array.isArray(data) ? data : []);
-      })
-      .catch(() => toast.error("Failed to load reference URLs"));
     if (features.customerProfiles) {
       fetchActiveProfiles()
         .then(profiles => setAllCustomerProfiles(profiles))
@@ -206,8 +289,8 @@ export default function BulkResponsesPage() {
   // Handle filter query param from URL
   useEffect(() => {
     const filterParam = searchParams.get("filter");
-    if (filterParam === "flagged") {
-      setStatusFilter("flagged");
+    if (filterParam === "flagged" || filterParam === "stale") {
+      setStatusFilter(filterParam);
     }
   }, [searchParams]);
 
@@ -227,7 +310,7 @@ export default function BulkResponsesPage() {
     return { total, high, medium, low, errors, flagged, pendingReview, approved, needsGeneration };
   }, [project]);
 
-  const filteredRows = useMemo(() => {
+  const statusFilteredRows = useMemo(() => {
     if (!project) return [];
     if (statusFilter === "all") return project.rows;
     if (statusFilter === "error") return project.rows.filter((row) => row.status === "error");
@@ -235,8 +318,24 @@ export default function BulkResponsesPage() {
     if (statusFilter === "pending-review") return project.rows.filter((row) => row.reviewStatus === "REQUESTED");
     if (statusFilter === "reviewed") return project.rows.filter((row) => row.reviewStatus === "APPROVED" || row.reviewStatus === "CORRECTED");
     if (statusFilter === "queued") return project.rows.filter((row) => row.queuedForReview);
+    if (statusFilter === "stale") return project.rows.filter((row) => staleAnswersByRowId.has(row.id));
     return project.rows.filter((row) => row.confidence?.toLowerCase().includes(statusFilter));
-  }, [project, statusFilter]);
+  }, [project, statusFilter, staleAnswersByRowId]);
+
+  // Selecting a section includes its nested sections
+  const filteredRows = useMemo(() => {
+    if (sectionFilter === "all" || !project?.sections) return statusFilteredRows;
+    const sectionIds = collectSectionIds(project.sections, sectionFilter);
+    return statusFilteredRows.filter((row) => row.sectionId && sectionIds.has(row.sectionId));
+  }, [project?.sections, sectionFilter, statusFilteredRows]);
+
+  // Group rows under the questionnaire's sections (projects uploaded without sections stay a flat list)
+  const sectionGroups = useMemo(() => {
+    if (!project?.sections?.length) return null;
+    return groupRowsBySection(project.sections, filteredRows);
+  }, [project?.sections, filteredRows]);
+
+  const assigningSection = project?.sections?.find((section) => section.id === assigningSectionId) ?? null;
 
   const updateRow = (rowId: string, updates: Partial<BulkRow>) => {
     setProject((prev) => {
@@ -260,206 +359,141 @@ export default function BulkResponsesPage() {
     });
   };
 
-  const handleGenerateAll = async () => {
-    if (!project || project.rows.length === 0) {
-      setErrorMessage("No project rows available. Upload a file first.");
-      return;
-    }
+  // Apply a job snapshot from the server; reload rows when the job made progress
+  const applyJobUpdate = async (job: ProjectJob) => {
+    const previous = activeJobRef.current;
+    const active = job.status === "QUEUED" || job.status === "RUNNING";
 
-    setIsGeneratingAll(true);
-    setErrorMessage(null);
+    activeJobRef.current = active ? job : null;
+    setActiveJob(active ? job : null);
 
-    // Fetch rate limit settings
-    let rateLimitSettings = {
-      batchSize: 5,
-      batchDelayMs: 15000,
-      rateLimitRetryWaitMs: 60000,
-      rateLimitMaxRetries: 3,
-    };
-    try {
-      const settingsRes = await fetch("/api/app-settings/rate-limits");
-      if (settingsRes.ok) {
-        const settingsJson = await settingsRes.json();
-        const settings = parseApiData<typeof rateLimitSettings>(settingsJson, "settings");
-        rateLimitSettings = {
-          batchSize: settings.batchSize || 5,
-          batchDelayMs: settings.batchDelayMs || 15000,
-          rateLimitRetryWaitMs: settings.rateLimitRetryWaitMs || 60000,
-          rateLimitMaxRetries: settings.rateLimitMaxRetries || 3,
-        };
-      }
-    } catch {
-      // Use defaults on failure
-    }
-
-    const total = project.rows.length;
-    setGenerateProgress({ current: 0, total });
-
-    // Prepare fallback content if no skills available
-    let fallbackContent: { title: string; url: string; content: string }[] | undefined;
-    if (availableSkills.length === 0) {
-      const fallbackItems: { title: string; url: string; content: string }[] = [];
-      if (referenceUrls.length > 0) {
-        try {
-          const fetched = await fetchMultipleUrls(referenceUrls);
-          fetched
-            .filter((f) => !f.error && f.content.trim().length > 0)
-            .forEach((f) => fallbackItems.push({ title: f.title, url: f.url, content: f.content }));
-        } catch {
-          // Continue without reference URLs
-        }
-      }
+    const progressed = !previous || previous.id !== job.id || previous.processedRows !== job.processedRows;
+    if (progressed || !active) {
       try {
-        const docsResponse = await fetch("/api/documents/content");
-        if (docsResponse.ok) {
-          const docsJson = await docsResponse.json();
-          const docsData = parseApiData<{ documents: { title: string; filename: string; content: string }[] }>(docsJson);
-          if (docsData.documents && Array.isArray(docsData.documents)) {
-            docsData.documents.forEach((doc) => {
-              if (doc.content?.trim()) {
-                fallbackItems.push({
-                  title: doc.title,
-                  url: `document://${doc.filename}`,
-                  content: doc.content,
-                });
-              }
-            });
-          }
-        }
+        const loaded = await fetchProject(projectId);
+        if (loaded) setProject(loaded);
       } catch {
-        // Continue without documents
-      }
-      if (fallbackItems.length > 0) {
-        fallbackContent = fallbackItems;
+        // Keep current rows; the next poll will retry
       }
     }
 
-    // Process in batches
-    const batches: typeof project.rows[] = [];
-    for (let i = 0; i < project.rows.length; i += rateLimitSettings.batchSize) {
-      batches.push(project.rows.slice(i, i + rateLimitSettings.batchSize));
+    if (previous && !active) {
+      fetchStaleAnswers(projectId).then(setStaleAnswers).catch(() => {});
+      if (job.status === "COMPLETED") {
+        if (job.failedRows > 0) {
+          toast.warning(`Generation finished with ${job.failedRows} error${job.failedRows === 1 ? "" : "s"}`);
+        } else {
+          toast.success("All responses generated!");
+        }
+      } else if (job.status === "FAILED") {
+        setErrorMessage(job.lastError || "Generation failed.");
+      }
     }
+  };
 
-    let completed = 0;
+  // Resume tracking a job that is still running (e.g. after the tab was closed)
+  useEffect(() => {
+    fetchProjectJobs(projectId)
+      .then((jobs) => {
+        const running = jobs.find((job) => job.status === "QUEUED" || job.status === "RUNNING");
+        if (running) {
+          activeJobRef.current = running;
+          setActiveJob(running);
+        }
+      })
+      .catch(() => {
+        // No job info available - generation can still be started manually
+      });
+  }, [projectId]);
 
-    for (let batchIndex = 0; batchIndex < batches.length; batchIndex++) {
-      const batch = batches[batchIndex];
+  // Poll job progress while a job is active
+  const activeJobId = activeJob?.id;
+  useEffect(() => {
+    if (!activeJobId) return;
 
-      if (batchIndex > 0) {
-        await new Promise((resolve) => setTimeout(resolve, rateLimitSettings.batchDelayMs));
+    const interval = setInterval(async () => {
+      try {
+        const jobs = await fetchProjectJobs(projectId);
+        const job = jobs.find((j) => j.id === activeJobId);
+        if (job) await applyJobUpdate(job);
+      } catch {
+        // Transient polling failure - try again on the next tick
       }
+    }, JOB_POLL_INTERVAL_MS);
 
-      for (const row of batch) {
-        if (row.id) updateRow(row.id, { status: "generating", error: undefined });
-      }
+    return () => clearInterval(interval);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeJobId, projectId]);
 
-      const questions = batch
-        .filter((row) => row.id && row.question.trim())
-        .map((row) => ({ index: row.rowNumber, question: row.question.trim() }));
+  const handleGenerateAll = async () => {
+    if (!project || project.rows.length === 0) {
+      setErrorMessage("No project rows available. Upload a file first.");
+      return;
+    }
 
-      if (questions.length === 0) {
-        completed += batch.length;
-        setGenerateProgress({ current: completed, total });
-        continue;
-      }
+    setIsStartingJob(true);
+    setErrorMessage(null);
 
-      const batchQuestionTexts = questions.map((q) => q.question);
-      const relevantSkills = selectRelevantSkillsForBatch(batchQuestionTexts, availableSkills, 10);
-      const skillsPayload = relevantSkills.map((skill) => ({ title: skill.title, content: skill.content }));
+    try {
+      // Persist local edits (e.g. edited questions) before the server reads the rows
+      await updateProject(project);
+      const job = await startAnswerJob(project.id, {
+        prompt: promptText,
+        mode: "bulk",
+        domains: selectedDomains.length > 0 ? selectedDomains : undefined,
+        quickMode,
+        routeReviews,
+      });
+      activeJobRef.current = job;
+      setActiveJob(job);
+      toast.success("Generation started. You can close this tab - answers keep generating on the server.");
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to start generation.";
+      setErrorMessage(message);
+    } finally {
+      setIsStartingJob(false);
+    }
+  };
 
-      try {
-        type BatchAnswer = {
-          questionIndex: number;
-          response: string;
-          confidence: string;
-          sources: string;
-          reasoning: string;
-          inference: string;
-          remarks: string;
-        };
-        let response: Response | null = null;
-        let data: { answers?: BatchAnswer[]; usedFallback?: boolean; error?: string } | null = null;
-        let retries = 0;
-
-        while (retries <= rateLimitSettings.rateLimitMaxRetries) {
-          response = await fetch("/api/questions/answer-batch", {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              questions,
-              skills: skillsPayload.length > 0 ? skillsPayload : undefined,
-              fallbackContent,
-              prompt: promptText,
-              mode: "bulk",
-              domains: selectedDomains.length > 0 ? selectedDomains : undefined,
-              quickMode,
-            }),
-          });
-
-          const json = await response.json().catch(() => null);
-          data = json ? parseApiData<{ answers?: BatchAnswer[]; usedFallback?: boolean; error?: string }>(json) : null;
-
-          if (response.status === 429 || (data?.error && data.error.includes("rate_limit"))) {
-            retries++;
-            if (retries <= rateLimitSettings.rateLimitMaxRetries) {
-              const waitSecs = Math.round(rateLimitSettings.rateLimitRetryWaitMs / 1000);
-              for (const row of batch) {
-                if (row.id) {
-                  updateRow(row.id, { status: "generating", error: `Rate limited. Waiting ${waitSecs}s... (retry ${retries}/${rateLimitSettings.rateLimitMaxRetries})` });
-                }
-              }
-              await new Promise((resolve) => setTimeout(resolve, rateLimitSettings.rateLimitRetryWaitMs));
-              continue;
-            }
-          }
-          break;
-        }
+  // Re-answer only the rows whose source skills changed (locked rows are skipped by the server)
+  const handleReanswerStale = async () => {
+    if (!project) return;
 
-        if (!response || !response.ok || !data?.answers) {
-          const errorMsg = data?.error || "Failed to generate responses.";
-          for (const row of batch) {
-            if (row.id) updateRow(row.id, { status: "error", error: errorMsg });
-          }
-        } else {
-          for (const answer of data.answers) {
-            const row = batch.find((r) => r.rowNumber === answer.questionIndex);
-            if (row?.id) {
-              updateRow(row.id, {
-                response: answer.response,
-                confidence: answer.confidence,
-                sources: answer.sources,
-                reasoning: answer.reasoning,
-                inference: answer.inference,
-                remarks: answer.remarks,
-                usedSkills: relevantSkills,
-                usedFallback: data.usedFallback || false,
-                showRecommendation: true,
-                status: "completed",
-                error: undefined,
-              });
-            }
-          }
-          for (const row of batch) {
-            if (!row.id) continue;
-            const hasAnswer = data.answers.some((a) => a.questionIndex === row.rowNumber);
-            if (!hasAnswer) {
-              updateRow(row.id, { status: "error", error: "No answer returned for this question." });
-            }
-          }
-        }
-      } catch (error) {
-        const message = error instanceof Error ? error.message : "Unexpected error.";
-        for (const row of batch) {
-          if (row.id) updateRow(row.id, { status: "error", error: message });
-        }
-      }
+    setIsStartingJob(true);
+    setErrorMessage(null);
 
-      completed += batch.length;
-      setGenerateProgress({ current: completed, total });
+    try {
+      await updateProject(project);
+      const job = await startAnswerJob(project.id, {
+        prompt: promptText,
+        mode: "bulk",
+        domains: selectedDomains.length > 0 ? selectedDomains : undefined,
+        quickMode,
+        staleOnly: true,
+      });
+      activeJobRef.current = job;
+      setActiveJob(job);
+      toast.success(`Re-answering ${job.totalRows} possibly stale answer${job.totalRows === 1 ? "" : "s"} on the server.`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to start re-answering.";
+      setErrorMessage(message);
+    } finally {
+      setIsStartingJob(false);
     }
+  };
 
-    setIsGeneratingAll(false);
-    setGenerateProgress({ current: 0, total: 0 });
+  const handleCancelJob = async () => {
+    if (!project || !activeJob) return;
+    try {
+      await cancelProjectJob(project.id, activeJob.id);
+      activeJobRef.current = null;
+      setActiveJob(null);
+      const loaded = await fetchProject(project.id);
+      if (loaded) setProject(loaded);
+      toast.success("Generation cancelled");
+    } catch {
+      toast.error("Failed to cancel generation");
+    }
   };
 
   const clearProject = async () => {
@@ -544,8 +578,16 @@ export default function BulkResponsesPage() {
         reviewedAt: new Date().toISOString(),
         reviewedBy: reviewerName,
       };
-      await updateProject(updatedProject);
-      setProject(updatedProject);
+      const saved = await updateProject(updatedProject);
+      // Finalizing locks every answer on the server
+      setProject({
+        ...updatedProject,
+        rows: saved.rows,
+        locked: saved.locked,
+        lockedAt: saved.lockedAt,
+        lockedBy: saved.lockedBy,
+        lockReason: saved.lockReason,
+      });
       toast.success("Project finalized!");
     } catch {
       toast.error("Failed to approve project. Please try again.");
@@ -720,6 +762,63 @@ export default function BulkResponsesPage() {
     toast.success("Queue cleared");
   };
 
+  const toggleSection = (sectionId: string) => {
+    setCollapsedSections((prev) => {
+      const next = new Set(prev);
+      if (next.has(sectionId)) next.delete(sectionId);
+      else next.add(sectionId);
+      return next;
+    });
+  };
+
+  const handleAssignSectionReviewer = async (user: SelectableUser | null) => {
+    if (!project || !assigningSection) return;
+
+    setSavingSectionReviewer(true);
+    try {
+      const reviewerName = user ? user.name || user.email || "Unknown" : null;
+      const { section, queuedRowIds } = await assignSectionReviewer(project.id, assigningSection.id, {
+        reviewerId: user?.id ?? null,
+        reviewerName,
+        queueRows: user ? queueSectionRows : false,
+      });
+
+      const queued = new Set(queuedRowIds);
+      const queuedAt = new Date().toISOString();
+      const queuedBy = session?.user?.name || session?.user?.email || "Unknown User";
+      setProject((prev) => prev && {
+        ...prev,
+        sections: prev.sections?.map((s) => (s.id === section.id ? section : s)),
+        rows: prev.rows.map((row) =>
+          queued.has(row.id)
+            ? {
+                ...row,
+                queuedForReview: true,
+                queuedAt,
+                queuedBy,
+                queuedNote: undefined,
+                queuedReviewerId: user?.id,
+                queuedReviewerName: reviewerName ?? undefined,
+              }
+            : row
+        ),
+      });
+      setAssigningSectionId(null);
+
+      if (!user) {
+        toast.success(`Reviewer removed from ${section.title}`);
+      } else if (queuedRowIds.length > 0) {
+        toast.success(`${section.title} assigned to ${reviewerName}. ${queuedRowIds.length} questions queued for review.`);
+      } else {
+        toast.success(`${section.title} assigned to ${reviewerName}`);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to assign reviewer");
+    } finally {
+      setSavingSectionReviewer(false);
+    }
+  };
+
   const handleResolveFlag = async (rowId: string, resolutionNote?: string) => {
     if (!project) return;
 
@@ -840,7 +939,66 @@ export default function BulkResponsesPage() {
     }
   };
 
-  const handleSaveCustomerProfiles = async (selectedIds: string[]) => {
+  // Fill a row with a previously approved answer instead of generating one
+  const handleUsePriorAnswer = async (rowId: string, match: PriorAnswerMatch) => {
+    if (!project) return;
+    setApplyingPriorAnswerRowId(rowId);
+
+    try {
+      const updates = await applyPriorAnswer(project.id, rowId, match);
+      updateRow(rowId, updates);
+      setPriorAnswers((prev) => {
+        const next = { ...prev };
+        delete next[rowId];
+        return next;
+      });
+      toast.success("Approved answer applied");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to use approved answer");
+    } finally {
+      setApplyingPriorAnswerRowId(null);
+    }
+  };
+
+  const handleToggleProjectLock = async () => {
+    if (!project) return;
+    const reason = project.locked ? await promptUnlockReason() : undefined;
+    if (project.locked && !reason?.trim()) return;
+
+    setIsTogglingLock(true);
+    try {
+      if (project.locked) {
+        await unlockProject(project.id, reason!.trim());
+      } else {
+        await lockProject(project.id);
+      }
+      const loaded = await fetchProject(project.id);
+      if (loaded) setProject(loaded);
+      toast.success(project.locked ? "Answers unlocked" : "Answers locked");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update lock");
+    } finally {
+      setIsTogglingLock(false);
+    }
+  };
+
+  const handleToggleRowLock = async (rowId: string, lock: boolean) => {
+    if (!project) return;
+    const reason = lock ? undefined : await promptUnlockReason({ title: "Unlock Answer" });
+    if (!lock && !reason?.trim()) return;
+
+    try {
+      await setRowLock(project.id, rowId, lock, reason?.trim());
+      updateRow(rowId, lock
+        ? { locked: true, lockedAt: new Date().toISOString(), lockedBy: session?.user?.name || session?.user?.email || "Unknown User" }
+        : { locked: false, lockedAt: undefined, lockedBy: undefined, lockReason: undefined });
+      toast.success(lock ? "Answer locked" : "Answer unlocked");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update lock");
+    }
+  };
+
+  const handleSaveCustomerProfiles = async (selectedIds: string[], documentIds: string[]) => {
     if (!project) return;
 
     setSavingCustomers(true);
@@ -848,7 +1006,7 @@ export default function BulkResponsesPage() {
       const response = await fetch(`/api/projects/${project.id}`, {
         method: "PUT",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ customerProfileIds: selectedIds }),
+        body: JSON.stringify({ customerProfileIds: selectedIds, customerDocumentIds: documentIds }),
       });
 
       if (!response.ok) throw new Error("Failed to save customer profiles");
@@ -880,9 +1038,9 @@ export default function BulkResponsesPage() {
 
       if (!response.ok) throw new Error("Failed to update owner");
 
-      const json = await response.json();
-      const data = parseApiData<{ project: BulkProject }>(json);
-      setProject(data.project);
+      // Reload so the page reflects the user's role after the handover
+      const loaded = await fetchProject(project.id);
+      if (loaded) setProject(loaded);
       setShowOwnerSelector(false);
       toast.success(`Owner changed to ${user.name || user.email}`);
     } catch {
@@ -892,6 +1050,31 @@ export default function BulkResponsesPage() {
     }
   };
 
+  const handleOpenSharing = async () => {
+    if (!project) return;
+    try {
+      setSharing(await fetchProjectCollaborators(project.id));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to load collaborators");
+    }
+  };
+
+  const handleSaveSharing = async () => {
+    if (!project || !sharing) return;
+
+    setSavingSharing(true);
+    try {
+      const saved = await updateProjectCollaborators(project.id, sharing);
+      setProject({ ...project, visibility: saved.visibility });
+      setSharing(null);
+      toast.success("Sharing settings saved");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save sharing settings");
+    } finally {
+      setSavingSharing(false);
+    }
+  };
+
   if (!project) {
     return (
       <div style={styles.container}>
@@ -900,10 +1083,43 @@ export default function BulkResponsesPage() {
     );
   }
 
+  const renderRow = (row: BulkRow) => (
+    <RowCard
+      key={row.id}
+      row={row}
+      projectId={project.id}
+      projectStatus={project.status}
+      projectReviewedBy={project.reviewedBy}
+      projectLocked={project.locked}
+      canUnlock={canUnlock}
+      currentSkillVersions={currentSkillVersions}
+      staleSkills={staleAnswersByRowId.get(row.id)?.staleSkills}
+      promptText={promptText}
+      sendingReviewRowId={sendingReviewRowId}
+      onUpdateRow={updateRow}
+      onQuestionEdit={handleQuestionEdit}
+      onFlagOrReview={handleFlagOrReview}
+      onResolveFlag={handleResolveFlag}
+      onReopenFlag={handleReopenFlag}
+      onApproveRow={handleApproveRow}
+      onCorrectRow={handleCorrectRow}
+      priorAnswers={priorAnswers[row.id]}
+      isApplyingPriorAnswer={applyingPriorAnswerRowId === row.id}
+      onUsePriorAnswer={handleUsePriorAnswer}
+      onToggleLock={handleToggleRowLock}
+      commentCounts={commentCounts[row.id]}
+      onCommentsChange={(counts) =>
+        // Opening the threads marks them read
+        setCommentCounts((prev) => ({ ...prev, [row.id]: { ...counts, unread: 0 } }))
+      }
+    />
+  );
+
   return (
     <div style={styles.container}>
       <ConfirmDialog />
       <FlagReviewDialog />
+      <UnlockReasonDialog />
       <div style={{ marginBottom: "16px" }}>
         <Link href="/projects" style={{ color: "#2563eb", fontWeight: 600, fontSize: "0.9rem" }}>
           ← Back to Projects
@@ -925,12 +1141,17 @@ export default function BulkResponsesPage() {
         isRequestingReview={isRequestingReview}
         isApproving={isApproving}
         isSendingQueued={isSendingQueued}
+        isTogglingLock={isTogglingLock}
+        canUnlock={canUnlock}
         onRequestReview={handleRequestReview}
         onApprove={handleApprove}
         onSendAllQueued={handleSendAllQueued}
+        onToggleLock={handleToggleProjectLock}
         onDeleteProject={clearProject}
         onEditCustomers={() => setShowCustomerSelector(true)}
         onEditOwner={() => setShowOwnerSelector(true)}
+        onEditSharing={handleOpenSharing}
+        exportSectionId={sectionFilter === "all" ? undefined : sectionFilter}
       />
 
       <FilterBar
@@ -938,6 +1159,10 @@ export default function BulkResponsesPage() {
         onFilterChange={setStatusFilter}
         stats={stats}
         queuedCount={queuedItems.length}
+        staleCount={staleAnswers.length}
+        sections={project.sections}
+        sectionFilter={sectionFilter}
+        onSectionFilterChange={setSectionFilter}
       />
 
       {/* Finalized notice */}
@@ -960,8 +1185,62 @@ export default function BulkResponsesPage() {
         </div>
       )}
 
+      {/* Possibly stale answers */}
+      {staleAnswers.length > 0 && (
+        <div style={{
+          ...styles.card,
+          backgroundColor: "#fffbeb",
+          borderColor: "#fcd34d",
+          display: "flex",
+          alignItems: "center",
+          gap: "12px",
+          flexWrap: "wrap",
+        }}>
+          <div style={{ flex: 1, minWidth: "240px" }}>
+            <div style={{ fontWeight: 600, color: "#92400e" }}>
+              {staleAnswers.length} answer{staleAnswers.length === 1 ? "" : "s"} possibly stale
+            </div>
+            <div style={{ color: "#b45309", fontSize: "0.9rem" }}>
+              Skills used for {staleAnswers.length === 1 ? "this answer" : "these answers"} changed after they were generated:{" "}
+              {[...new Set(staleAnswers.flatMap((answer) => answer.staleSkills.map((skill) => skill.title)))].join(", ")}
+            </div>
+            {activeJob && (
+              <div style={{ fontSize: "0.85rem", color: "#475569", marginTop: "4px" }}>
+                {activeJob.status === "QUEUED"
+                  ? "Queued - waiting for the server to start..."
+                  : `${activeJob.processedRows} of ${activeJob.totalRows} re-answered`}
+              </div>
+            )}
+          </div>
+          {statusFilter !== "stale" && (
+            <button
+              type="button"
+              onClick={() => setStatusFilter("stale")}
+              style={{ ...styles.button, backgroundColor: "#fef3c7", color: "#92400e" }}
+            >
+              Show them
+            </button>
+          )}
+          {project.status !== "finalized" && !project.locked && reanswerableStaleCount > 0 && (
+            <button
+              type="button"
+              onClick={handleReanswerStale}
+              disabled={isGeneratingAll}
+              style={{
+                ...styles.button,
+                backgroundColor: isGeneratingAll ? "#94a3b8" : "#d97706",
+                color: "#fff",
+                cursor: isGeneratingAll ? "not-allowed" : "pointer",
+              }}
+            >
+              {isGeneratingAll ? "Re-answering..." : `Re-answer affected rows (${reanswerableStaleCount})`}
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Generate section - only show when not finalized */}
-      {project.status !== "finalized" && stats.needsGeneration > 0 && (
+      {project.status !== "finalized" && !project.locked && stats.needsGeneration > 0 && (
         <div style={styles.card}>
           <div style={{ display: "flex", gap: "12px", flexWrap: "wrap", alignItems: "center" }}>
             <button
@@ -978,7 +1257,7 @@ export default function BulkResponsesPage() {
               {isGeneratingAll ? "Generating..." : `Generate all responses (${stats.needsGeneration})`}
             </button>
 
-            {isGeneratingAll && generateProgress.total > 0 && (
+            {activeJob && (
               <div style={{ flex: 1, minWidth: "200px" }}>
                 <div style={{
                   backgroundColor: "#e2e8f0",
@@ -989,15 +1268,34 @@ export default function BulkResponsesPage() {
                   <div style={{
                     backgroundColor: "#0ea5e9",
                     height: "100%",
-                    width: `${(generateProgress.current / generateProgress.total) * 100}%`,
+                    width: `${activeJob.totalRows > 0 ? (activeJob.processedRows / activeJob.totalRows) * 100 : 0}%`,
                     transition: "width 0.3s ease"
                   }} />
                 </div>
                 <div style={{ fontSize: "0.85rem", color: "#475569", marginTop: "4px" }}>
-                  {generateProgress.current} of {generateProgress.total} completed
+                  {activeJob.status === "QUEUED"
+                    ? "Queued - waiting for the server to start..."
+                    : `${activeJob.processedRows} of ${activeJob.totalRows} completed`}
+                  {activeJob.failedRows > 0 && ` (${activeJob.failedRows} failed)`}
+                  {activeJob.batchRetries > 0 && ` - retrying batch (${activeJob.batchRetries})`}
+                  {" · Runs on the server, safe to close this tab"}
                 </div>
               </div>
             )}
+
+            {activeJob && (
+              <button
+                type="button"
+                onClick={handleCancelJob}
+                style={{
+                  ...styles.button,
+                  backgroundColor: "#f1f5f9",
+                  color: "#0f172a",
+                }}
+              >
+                Cancel
+              </button>
+            )}
           </div>
 
           <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginTop: "12px", gap: "16px" }}>
@@ -1006,6 +1304,18 @@ export default function BulkResponsesPage() {
               onChange={setSelectedDomains}
               disabled={isGeneratingAll}
             />
+            <label
+              style={{ display: "flex", alignItems: "center", gap: "6px", fontSize: "13px", color: "#475569", cursor: "pointer" }}
+              title="When generation finishes, request reviews from the section reviewer, the owners of the skills used, or the matching routing rule"
+            >
+              <input
+                type="checkbox"
+                checked={routeReviews}
+                onChange={(e) => setRouteReviews(e.target.checked)}
+                disabled={isGeneratingAll}
+              />
+              Route for SME review when done
+            </label>
             <SpeedToggle
               quickMode={quickMode}
               onChange={setQuickMode}
@@ -1067,31 +1377,49 @@ export default function BulkResponsesPage() {
       {filteredRows.length === 0 ? (
         <div style={styles.card}>
           <p style={{ color: "#94a3b8" }}>
-            {statusFilter === "all"
+            {statusFilter === "all" && sectionFilter === "all"
               ? "No questions detected for this project."
+              : statusFilter === "all"
+              ? "No questions found in this section."
               : `No ${statusFilter} questions found.`}
           </p>
         </div>
+      ) : sectionGroups ? (
+        <div style={styles.card}>
+          {(() => {
+            // Skip sections with no matching rows, and everything inside a collapsed section
+            let collapsedDepth: number | null = null;
+            return sectionGroups.groups.map((group) => {
+              if (collapsedDepth !== null && group.depth > collapsedDepth) return null;
+              collapsedDepth = null;
+              if (group.totalRows === 0) return null;
+              const collapsed = collapsedSections.has(group.section.id);
+              if (collapsed) collapsedDepth = group.depth;
+              return (
+                <div key={group.section.id}>
+                  <SectionHeader
+                    group={group}
+                    collapsed={collapsed}
+                    onToggle={toggleSection}
+                    onAssignReviewer={setAssigningSectionId}
+                  />
+                  {!collapsed && group.rows.map(renderRow)}
+                </div>
+              );
+            });
+          })()}
+          {sectionGroups.unsectioned.length > 0 && (
+            <div>
+              <div style={{ marginTop: "16px", padding: "10px 12px", fontWeight: 600, color: "#475569" }}>
+                Other questions
+              </div>
+              {sectionGroups.unsectioned.map(renderRow)}
+            </div>
+          )}
+        </div>
       ) : (
         <div style={styles.card}>
-          {filteredRows.map((row) => (
-            <RowCard
-              key={row.id}
-              row={row}
-              projectId={project.id}
-              projectStatus={project.status}
-              projectReviewedBy={project.reviewedBy}
-              promptText={promptText}
-              sendingReviewRowId={sendingReviewRowId}
-              onUpdateRow={updateRow}
-              onQuestionEdit={handleQuestionEdit}
-              onFlagOrReview={handleFlagOrReview}
-              onResolveFlag={handleResolveFlag}
-              onReopenFlag={handleReopenFlag}
-              onApproveRow={handleApproveRow}
-              onCorrectRow={handleCorrectRow}
-            />
-          ))}
+          {filteredRows.map(renderRow)}
         </div>
       )}
 
@@ -1126,11 +1454,13 @@ export default function BulkResponsesPage() {
           >
             <h3 style={{ margin: "0 0 8px 0" }}>Link Customer Profiles</h3>
             <p style={{ color: "#64748b", fontSize: "14px", margin: "0 0 16px 0" }}>
-              Select which customer profiles are associated with this project.
+              Select which customer profiles are associated with this project. Their profiles and the documents
+              you choose are used as customer context when answering.
             </p>
             <CustomerProfileSelector
               profiles={allCustomerProfiles}
               selectedIds={(project.customerProfiles || []).map((cp) => cp.id)}
+              selectedDocumentIds={project.customerDocumentIds || []}
               onSave={handleSaveCustomerProfiles}
               onCancel={() => setShowCustomerSelector(false)}
               saving={savingCustomers}
@@ -1180,6 +1510,132 @@ export default function BulkResponsesPage() {
         </div>
       )}
 
+      {/* Sharing Modal */}
+      {sharing && (
+        <div
+          style={{
+            position: "fixed",
+            top: 0,
+            left: 0,
+            right: 0,
+            bottom: 0,
+            backgroundColor: "rgba(0,0,0,0.5)",
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            zIndex: 1000,
+          }}
+          onClick={() => setSharing(null)}
+        >
+          <div
+            style={{
+              backgroundColor: "#fff",
+              borderRadius: "12px",
+              padding: "24px",
+              maxWidth: "560px",
+              width: "90%",
+              maxHeight: "85vh",
+              overflowY: "auto",
+            }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <h3 style={{ margin: "0 0 8px 0" }}>Sharing</h3>
+            <p style={{ color: "#64748b", fontSize: "14px", margin: 0 }}>
+              {sharing.canManage
+                ? "Choose who can see this project and what each collaborator can do."
+                : "Only the project owner can change who has access."}
+            </p>
+            <ProjectCollaboratorsEditor
+              visibility={sharing.visibility}
+              collaborators={sharing.collaborators}
+              onVisibilityChange={(visibility) => setSharing({ ...sharing, visibility })}
+              onCollaboratorsChange={(collaborators) => setSharing({ ...sharing, collaborators })}
+              ownerId={project.owner?.id}
+              readOnly={!sharing.canManage}
+              disabled={savingSharing}
+            />
+            <div style={{ display: "flex", justifyContent: "flex-end", gap: "8px", marginTop: "16px" }}>
+              <button
+                type="button"
+                onClick={() => setSharing(null)}
+                style={{ ...styles.button, backgroundColor: "#f1f5f9", color: "#475569" }}
+              >
+                {sharing.canManage ? "Cancel" : "Close"}
+              </button>
+              {sharing.canManage && (
+                <button
+                  type="button"
+                  onClick={handleSaveSharing}
+                  disabled={savingSharing}
+                  style={{ ...styles.button, backgroundColor: "#2563eb", color: "#fff" }}
+                >
+                  {savingSharing ? "Saving..." : "Save"}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Section Reviewer Modal */}
+      {assigningSection && (
+        <div
+          style={{
+            position: "fixed",
+            top: 0,
+            left: 0,
+            right: 0,
+            bottom: 0,
+            backgroundColor: "rgba(0,0,0,0.5)",
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            zIndex: 1000,
+          }}
+          onClick={() => setAssigningSectionId(null)}
+        >
+          <div
+            style={{
+              backgroundColor: "#fff",
+              borderRadius: "12px",
+              padding: "24px",
+              maxWidth: "400px",
+              width: "90%",
+            }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <h3 style={{ margin: "0 0 8px 0" }}>Assign Reviewer: {assigningSection.title}</h3>
+            <p style={{ color: "#64748b", fontSize: "14px", margin: "0 0 12px 0" }}>
+              The reviewer is responsible for every question in this section, including nested sections.
+            </p>
+            <label style={{ display: "flex", alignItems: "center", gap: "8px", fontSize: "14px", marginBottom: "12px" }}>
+              <input
+                type="checkbox"
+                checked={queueSectionRows}
+                onChange={(e) => setQueueSectionRows(e.target.checked)}
+              />
+              Queue unreviewed questions for review
+            </label>
+            <UserSelector
+              onSelect={handleAssignSectionReviewer}
+              onCancel={() => setAssigningSectionId(null)}
+              disabled={savingSectionReviewer}
+              placeholder="Search for a reviewer..."
+            />
+            {assigningSection.assignedReviewerId && (
+              <button
+                type="button"
+                onClick={() => handleAssignSectionReviewer(null)}
+                disabled={savingSectionReviewer}
+                style={{ ...styles.button, marginTop: "12px", backgroundColor: "#f1f5f9", color: "#0f172a" }}
+              >
+                Remove {assigningSection.assignedReviewerName || "reviewer"}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
       <QueueIndicator
         queuedCount={queuedItems.length}
         isSending={isSendingQueued}
@@ -7,17 +7,20 @@ import { Card, CardContent } from "@/components/ui/card";
 import { cn } from "@/lib/utils";
 import { BulkProject } from "@/types/bulkProject";
 import { getProjectStats, getStatusColor, getStatusLabel } from "@/hooks/use-project-data";
+import { findSections, getSectionProgress } from "@/lib/projectSections";
 
 interface ProjectsTableProps {
   projects: BulkProject[];
   onApprove: (project: BulkProject) => void;
   approvingId: string | null;
+  sectionQuery?: string; // Show progress for the sections matching this search
 }
 
 export function ProjectsTable({
   projects,
   onApprove,
   approvingId,
+  sectionQuery = "",
 }: ProjectsTableProps) {
   const router = useRouter();
 
@@ -51,6 +54,7 @@ export function ProjectsTable({
               const stats = getProjectStats(project);
               const statusColors = getStatusColor(project.status);
               const isApproving = approvingId === project.id;
+              const matchedSections = findSections(project.sections ?? [], sectionQuery);
 
               return (
                 <tr
@@ -93,6 +97,14 @@ export function ProjectsTable({
                         {stats.flagged} flagged
                       </div>
                     )}
+                    {matchedSections.slice(0, 3).map((section) => {
+                      const progress = getSectionProgress(project.sections ?? [], project.rows, section.id);
+                      return (
+                        <div key={section.id} className="text-xs text-muted-foreground">
+                          {section.title}: {progress.answered}/{progress.total}
+                        </div>
+                      );
+                    })}
                   </td>
                   <td className="p-3">
                     <div className="text-sm text-muted-foreground">
@@ -8,6 +8,7 @@ import { Plus } from "lucide-react";
 import { InlineLoader } from "@/components/ui/loading";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
 import {
   useProjects,
   useUpdateProject,
@@ -20,6 +21,7 @@ import {
   calculateFilterCounts,
 } from "./components/status-filter";
 import { BulkProject } from "@/types/bulkProject";
+import { findSections } from "@/lib/projectSections";
 
 function ProjectsListContent() {
   const router = useRouter();
@@ -35,6 +37,7 @@ function ProjectsListContent() {
     return "all";
   });
   const [approvingId, setApprovingId] = useState<string | null>(null);
+  const [sectionQuery, setSectionQuery] = useState("");
 
   // React Query
   const { data: projects = [], isLoading, error } = useProjects();
@@ -54,6 +57,11 @@ function ProjectsListContent() {
       filtered = projects.filter((p) => p.status === statusFilter);
     }
 
+    // Section search ("Access Control", "3.2") keeps projects that have a matching section
+    if (sectionQuery.trim()) {
+      filtered = filtered.filter((p) => findSections(p.sections ?? [], sectionQuery).length > 0);
+    }
+
     // Sort by most recently modified first (FIFO for review queue)
     return [...filtered].sort((a, b) => {
       if (statusFilter === "needs_review") {
@@ -63,7 +71,7 @@ function ProjectsListContent() {
       }
       return new Date(b.lastModifiedAt).getTime() - new Date(a.lastModifiedAt).getTime();
     });
-  }, [projects, statusFilter]);
+  }, [projects, statusFilter, sectionQuery]);
 
   // Handlers
   const handleApprove = async (project: BulkProject) => {
@@ -154,17 +162,27 @@ function ProjectsListContent() {
                   ? "Projects with Flagged Questions"
                   : `${getStatusLabel(statusFilter)} Projects`}
               </h2>
-              <StatusFilter
-                currentFilter={statusFilter}
-                onFilterChange={setStatusFilter}
-                counts={filterCounts}
-              />
+              <div className="flex items-center gap-3">
+                <Input
+                  value={sectionQuery}
+                  onChange={(e) => setSectionQuery(e.target.value)}
+                  placeholder="Filter by section..."
+                  className="w-48 h-8"
+                  aria-label="Filter by section"
+                />
+                <StatusFilter
+                  currentFilter={statusFilter}
+                  onFilterChange={setStatusFilter}
+                  counts={filterCounts}
+                />
+              </div>
             </div>
 
             <ProjectsTable
               projects={filteredProjects}
               onApprove={handleApprove}
               approvingId={approvingId}
+              sectionQuery={sectionQuery}
             />
 
             {/* Flagged Questions Detail Section */}
@@ -1,7 +1,7 @@
 "use client";
 
 import { useRef, useEffect, useCallback } from "react";
-import { Skill } from "@/types/skill";
+import { Skill, RetrievedSkill } from "@/types/skill";
 import TransparencyDetails from "@/components/TransparencyDetails";
 import ReviewStatusBanner, { getEffectiveReviewStatus, getReviewerName } from "@/components/ReviewStatusBanner";
 
@@ -13,6 +13,7 @@ type ResponseSectionProps = {
   questionReasoning: string;
   questionInference: string;
   currentUsedSkills: Skill[];
+  currentRetrievedSkills?: RetrievedSkill[];
   currentHistoryId: string | null;
   currentFlagged: boolean;
   currentFlagNote: string | null;
@@ -42,6 +43,7 @@ export default function ResponseSection({
   questionReasoning,
   questionInference,
   currentUsedSkills,
+  currentRetrievedSkills,
   currentHistoryId,
   currentFlagged,
   currentFlagNote,
@@ -241,6 +243,7 @@ export default function ResponseSection({
           title: skill.title,
           type: "skill" as const,
         }))}
+        retrievedSkills={currentRetrievedSkills}
         renderClarifyButton={!conversationOpen ? () => (
           <div style={{ display: "flex", gap: "8px", flexWrap: "wrap" }}>
             <button
@@ -10,10 +10,11 @@ import { QUESTION_PROMPT_STORAGE_KEY } from "@/lib/promptStorage";
 import Link from "next/link";
 import ConversationalRefinement from "@/components/ConversationalRefinement";
 import { loadSkillsFromApi } from "@/lib/skillStorage";
-import { Skill } from "@/types/skill";
+import { Skill, RetrievedSkill } from "@/types/skill";
 import SkillUpdateBanner from "@/components/SkillUpdateBanner";
 import SkillRecommendation from "@/components/SkillRecommendation";
-import { parseAnswerSections, selectRelevantSkills } from "@/lib/questionHelpers";
+import { parseAnswerSections, selectRelevantSkillsWithScores } from "@/lib/questionHelpers";
+import { toRetrievedSkills } from "@/lib/retrieval";
 import LoadingSpinner from "@/components/LoadingSpinner";
 import DomainSelector, { Domain } from "@/components/DomainSelector";
 import { useFlagReview } from "@/components/FlagReviewModal";
@@ -53,6 +54,7 @@ function QuestionsPageContent() {
   const [conversationOpen, setConversationOpen] = useState(false);
   const [availableSkills, setAvailableSkills] = useState<Skill[]>([]);
   const [currentUsedSkills, setCurrentUsedSkills] = useState<Skill[]>([]);
+  const [currentRetrievedSkills, setCurrentRetrievedSkills] = useState<RetrievedSkill[]>([]);
   const [showRecommendation, setShowRecommendation] = useState(false);
   const [detailsExpanded, setDetailsExpanded] = useState(false);
   const [questionHistory, setQuestionHistory] = useState<QuestionHistoryItem[]>([]);
@@ -100,7 +102,7 @@ function QuestionsPageContent() {
     reasoning: string,
     inference: string,
     remarks: string,
-    skillsUsed: { id: string; title: string }[]
+    skillsUsed: RetrievedSkill[]
   ): Promise<string | null> => {
     if (!session?.user) return null;
     try {
@@ -157,6 +159,7 @@ function QuestionsPageContent() {
     setCurrentFlagNote(item.flagNote || null);
     setCurrentReviewStatus(item.reviewStatus || null);
     setCurrentReviewedBy(item.reviewedBy || null);
+    setCurrentRetrievedSkills(item.skillsUsed || []);
     // For history items, create minimal skill objects for display purposes
     setCurrentUsedSkills(
       (item.skillsUsed || []).map((s) => ({
@@ -196,6 +199,7 @@ function QuestionsPageContent() {
           setCurrentFlagNote(item.flagNote || null);
           setCurrentReviewStatus(item.reviewStatus || null);
           setCurrentReviewedBy(item.reviewedBy || null);
+          setCurrentRetrievedSkills(item.skillsUsed || []);
           setCurrentUsedSkills(
             (item.skillsUsed || []).map((s: { id: string; title: string }) => ({
               id: s.id,
@@ -273,7 +277,9 @@ function QuestionsPageContent() {
 
     try {
       // Select relevant skills for this question
-      const relevantSkills = selectRelevantSkills(question, availableSkills);
+      const matches = selectRelevantSkillsWithScores(question, availableSkills);
+      const relevantSkills = matches.map((match) => match.skill);
+      const retrievedSkills = toRetrievedSkills(matches);
       const skillsPayload = relevantSkills.map((skill) => ({
         title: skill.title,
         content: skill.content,
@@ -306,6 +312,7 @@ function QuestionsPageContent() {
 
       // Track which skills were used and show recommendation
       setCurrentUsedSkills(relevantSkills);
+      setCurrentRetrievedSkills(retrievedSkills);
       setShowRecommendation(true);
 
       // Save to history and capture ID
@@ -317,7 +324,7 @@ function QuestionsPageContent() {
         parsed.reasoning,
         parsed.inference,
         parsed.remarks,
-        relevantSkills.map((s) => ({ id: s.id, title: s.title }))
+        retrievedSkills
       );
       setCurrentHistoryId(historyId);
       setCurrentFlagged(false);
@@ -608,6 +615,7 @@ function QuestionsPageContent() {
             questionReasoning={questionReasoning}
             questionInference={questionInference}
             currentUsedSkills={currentUsedSkills}
+            currentRetrievedSkills={currentRetrievedSkills}
             currentHistoryId={currentHistoryId}
             currentFlagged={currentFlagged}
             currentFlagNote={currentFlagNote}
@@ -11,6 +11,19 @@ type PreviewCardProps = {
   onSelectAll: () => void;
   onDeselectAll: () => void;
   onSaveProject: () => void;
+  // Set for Word/PDF uploads so extracted questions, sections and IDs can be corrected before saving
+  onEditRow?: (
+    rowNumber: number,
+    sourceTab: string,
+    updates: Partial<Pick<PreviewRow, "question" | "section" | "questionId">>
+  ) => void;
+};
+
+const editInputStyle = {
+  padding: "4px 8px",
+  borderRadius: "4px",
+  border: "1px solid #cbd5e1",
+  fontSize: "0.85rem",
 };
 
 export default function PreviewCard({
@@ -22,6 +35,7 @@ export default function PreviewCard({
   onSelectAll,
   onDeselectAll,
   onSaveProject,
+  onEditRow,
 }: PreviewCardProps) {
   if (previewRows.length === 0) return null;
 
@@ -85,53 +99,86 @@ export default function PreviewCard({
         </div>
       </div>
       <div style={{ marginTop: "12px", maxHeight: "500px", overflowY: "auto" }}>
-        {previewRows.map((row) => (
-          <div
-            key={`${row.sourceTab}-${row.rowNumber}`}
-            style={{
-              borderTop: "1px solid #e2e8f0",
-              paddingTop: "12px",
-              marginTop: "12px",
-              display: "flex",
-              gap: "12px",
-              alignItems: "start",
-            }}
-          >
-            <input
-              type="checkbox"
-              checked={row.selected}
-              onChange={() => onToggleRow(row.rowNumber, row.sourceTab)}
+        {previewRows.map((row, index) => (
+          <div key={`${row.sourceTab}-${row.rowNumber}`}>
+            {row.section && row.section !== previewRows[index - 1]?.section && (
+              <div style={{ marginTop: "16px", fontWeight: 600, color: "#0f172a" }}>
+                {row.sectionPath && row.sectionPath.length > 1 ? row.sectionPath.join(" › ") : row.section}
+              </div>
+            )}
+            <div
               style={{
-                width: "18px",
-                height: "18px",
-                cursor: "pointer",
-                marginTop: "2px",
-                flexShrink: 0,
+                borderTop: "1px solid #e2e8f0",
+                paddingTop: "12px",
+                marginTop: "12px",
+                display: "flex",
+                gap: "12px",
+                alignItems: "start",
               }}
-            />
-            <div style={{ flex: 1 }}>
-              <p style={{ color: "#94a3b8", margin: 0, fontSize: "0.9rem" }}>
-                {mergeAllTabs && sheets.length > 1 ? (
-                  <>
-                    <span style={{
-                      backgroundColor: "#e0f2fe",
-                      color: "#0369a1",
-                      padding: "2px 6px",
-                      borderRadius: "4px",
-                      fontSize: "0.8rem",
-                      marginRight: "8px"
-                    }}>
-                      {row.sourceTab}
-                    </span>
-                    Row {row.rowNumber}
-                  </>
+            >
+              <input
+                type="checkbox"
+                checked={row.selected}
+                onChange={() => onToggleRow(row.rowNumber, row.sourceTab)}
+                style={{
+                  width: "18px",
+                  height: "18px",
+                  cursor: "pointer",
+                  marginTop: "2px",
+                  flexShrink: 0,
+                }}
+              />
+              <div style={{ flex: 1 }}>
+                <p style={{ color: "#94a3b8", margin: 0, fontSize: "0.9rem" }}>
+                  {mergeAllTabs && sheets.length > 1 ? (
+                    <>
+                      <span style={{
+                        backgroundColor: "#e0f2fe",
+                        color: "#0369a1",
+                        padding: "2px 6px",
+                        borderRadius: "4px",
+                        fontSize: "0.8rem",
+                        marginRight: "8px"
+                      }}>
+                        {row.sourceTab}
+                      </span>
+                      Row {row.rowNumber}
+                    </>
+                  ) : (
+                    <>{row.location ?? `Row ${row.rowNumber}`}</>
+                  )}
+                </p>
+                {onEditRow ? (
+                  <div style={{ display: "flex", flexDirection: "column", gap: "6px", marginTop: "4px" }}>
+                    <textarea
+                      value={row.question}
+                      onChange={(e) => onEditRow(row.rowNumber, row.sourceTab, { question: e.target.value })}
+                      rows={2}
+                      style={{ ...editInputStyle, fontSize: "0.95rem", resize: "vertical" }}
+                    />
+                    <div style={{ display: "flex", gap: "8px" }}>
+                      <input
+                        type="text"
+                        value={row.questionId ?? ""}
+                        onChange={(e) => onEditRow(row.rowNumber, row.sourceTab, { questionId: e.target.value })}
+                        placeholder="Question ID"
+                        style={{ ...editInputStyle, width: "120px" }}
+                      />
+                      <input
+                        type="text"
+                        value={row.section ?? ""}
+                        onChange={(e) => onEditRow(row.rowNumber, row.sourceTab, { section: e.target.value })}
+                        placeholder="Section"
+                        style={{ ...editInputStyle, flex: 1 }}
+                      />
+                    </div>
+                  </div>
                 ) : (
-                  <>Row {row.rowNumber}</>
+                  <p style={{ marginTop: "4px", fontSize: "0.95rem" }}>
+                    {row.question || <em>No question text found.</em>}
+                  </p>
                 )}
-              </p>
-              <p style={{ marginTop: "4px", fontSize: "0.95rem" }}>
-                {row.question || <em>No question text found.</em>}
-              </p>
+              </div>
             </div>
           </div>
         ))}
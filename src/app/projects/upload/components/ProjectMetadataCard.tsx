@@ -1,6 +1,8 @@
 "use client";
 
 import { ChangeEvent } from "react";
+import ProjectCollaboratorsEditor from "@/components/ProjectCollaboratorsEditor";
+import type { ProjectCollaborator, ProjectVisibility } from "@/types/bulkProject";
 import { User, styles } from "./types";
 
 type ProjectMetadataCardProps = {
@@ -9,11 +11,15 @@ type ProjectMetadataCardProps = {
   selectedOwnerId: string;
   users: User[];
   currentUserId?: string;
+  visibility: ProjectVisibility;
+  collaborators: ProjectCollaborator[];
   detectedRows: number;
   isParsing: boolean;
   onProjectNameChange: (value: string) => void;
   onCustomerNameChange: (value: string) => void;
   onOwnerIdChange: (value: string) => void;
+  onVisibilityChange: (value: ProjectVisibility) => void;
+  onCollaboratorsChange: (value: ProjectCollaborator[]) => void;
   onFileUpload: (event: ChangeEvent<HTMLInputElement>) => void;
 };
 
@@ -23,11 +29,15 @@ export default function ProjectMetadataCard({
   selectedOwnerId,
   users,
   currentUserId,
+  visibility,
+  collaborators,
   detectedRows,
   isParsing,
   onProjectNameChange,
   onCustomerNameChange,
   onOwnerIdChange,
+  onVisibilityChange,
+  onCollaboratorsChange,
   onFileUpload,
 }: ProjectMetadataCardProps) {
   return (
@@ -55,6 +65,14 @@ export default function ProjectMetadataCard({
         The owner can edit this project and will receive review notifications.
       </p>
 
+      <ProjectCollaboratorsEditor
+        visibility={visibility}
+        collaborators={collaborators.filter((c) => c.userId !== selectedOwnerId)}
+        onVisibilityChange={onVisibilityChange}
+        onCollaboratorsChange={onCollaboratorsChange}
+        ownerId={selectedOwnerId}
+      />
+
       <label style={styles.label} htmlFor="customerName">
         Customer Name (optional)
       </label>
@@ -79,10 +97,10 @@ export default function ProjectMetadataCard({
         placeholder="e.g. Vendor Security Questionnaire - Q1"
       />
 
-      <label style={styles.label}>Upload CSV or Excel</label>
+      <label style={styles.label}>Upload CSV, Excel, Word or PDF</label>
       <input
         type="file"
-        accept=".csv,.xls,.xlsx"
+        accept=".csv,.xls,.xlsx,.docx,.pdf"
         onChange={onFileUpload}
         disabled={isParsing}
         style={{ marginBottom: "8px" }}
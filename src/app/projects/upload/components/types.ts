@@ -8,6 +8,9 @@ export type SheetData = {
   name: string;
   columns: string[];
   rows: string[][];
+  rowNumbers: number[]; // 1-based sheet row of each entry in rows
+  headerRow: number; // 1-based sheet row holding the column headers
+  firstColumn: number; // 0-based sheet column of columns[0]
 };
 
 export type PreviewRow = {
@@ -16,6 +19,10 @@ export type PreviewRow = {
   cells: Record<string, string>;
   selected: boolean;
   sourceTab: string;
+  location?: string; // Where the question sits in a .docx (e.g. "Table 2, row 4")
+  section?: string; // Section heading from a .docx/.pdf, or the section column of a spreadsheet
+  sectionPath?: string[]; // Enclosing .docx headings, outermost first
+  questionId?: string; // The customer's own question ID (.docx/.pdf, or the ID column of a spreadsheet)
 };
 
 export const styles = {
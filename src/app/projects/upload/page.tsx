@@ -7,8 +7,14 @@ import { useSession } from "next-auth/react";
 import { toast } from "sonner";
 import Papa from "papaparse";
 import * as XLSX from "xlsx";
-import { BulkProject } from "@/types/bulkProject";
-import { createProject } from "@/lib/projectApi";
+import {
+  BulkProject,
+  ParsedDocumentQuestion,
+  ProjectCollaborator,
+  ProjectVisibility,
+  SourceSheetMapping,
+} from "@/types/bulkProject";
+import { createProject, parseDocumentQuestions, uploadProjectSourceFile } from "@/lib/projectApi";
 import { InlineError, InlineSuccess } from "@/components/ui/status-display";
 
 import {
@@ -21,6 +27,15 @@ import {
   PreviewRow,
 } from "./components";
 
+const ANSWER_HEADER = /\b(answers?|responses?)\b/i;
+const COMMENT_HEADER = /\b(comments?|remarks?|notes?|explanations?)\b/i;
+
+// Pre-select answer/comment columns from common header names; users can change them before export
+function guessColumn(columns: string[], pattern: RegExp, exclude: number[]): number | null {
+  const index = columns.findIndex((col, i) => !exclude.includes(i) && pattern.test(col));
+  return index === -1 ? null : index;
+}
+
 export default function BulkUploadPage() {
   const router = useRouter();
   const { data: session } = useSession();
@@ -28,7 +43,13 @@ export default function BulkUploadPage() {
   const [customerName, setCustomerName] = useState("");
   const [users, setUsers] = useState<User[]>([]);
   const [selectedOwnerId, setSelectedOwnerId] = useState<string>("");
+  const [visibility, setVisibility] = useState<ProjectVisibility>("ORG");
+  const [collaborators, setCollaborators] = useState<ProjectCollaborator[]>([]);
   const [sheets, setSheets] = useState<SheetData[]>([]);
+  // Original .xlsx or .docx, stored with the project so answers can be exported back into it
+  const [sourceFile, setSourceFile] = useState<File | null>(null);
+  // Questions found in a .docx upload, in document order (rowNumber - 1 indexes this)
+  const [documentQuestions, setDocumentQuestions] = useState<ParsedDocumentQuestion[]>([]);
 
   // Fetch users for owner dropdown
   useEffect(() => {
@@ -52,6 +73,9 @@ export default function BulkUploadPage() {
   const [selectedSheet, setSelectedSheet] = useState("");
   const [mergeAllTabs, setMergeAllTabs] = useState(true);
   const [questionColumn, setQuestionColumn] = useState("");
+  // Optional spreadsheet columns holding each question's section and the customer's question ID
+  const [sectionColumn, setSectionColumn] = useState("");
+  const [questionIdColumn, setQuestionIdColumn] = useState("");
   const [useSameColumnForAll, setUseSameColumnForAll] = useState(true);
   const [perTabColumns, setPerTabColumns] = useState<Record<string, string>>({});
   const [previewRows, setPreviewRows] = useState<PreviewRow[]>([]);
@@ -93,17 +117,31 @@ export default function BulkUploadPage() {
     return sheets.every((sheet) => perTabColumns[sheet.name]);
   }, [mergeAllTabs, useSameColumnForAll, sheets, perTabColumns]);
 
-  const buildSheetData = (rows: string[][], name: string): SheetData | null => {
-    if (!rows.length) return null;
-    const headerRow = rows[0].map((cell, index) => {
+  // rows[i] is sheet row firstRow + i, so blank rows must be kept to preserve row numbers
+  const buildSheetData = (rows: string[][], name: string, firstRow = 1, firstColumn = 0): SheetData | null => {
+    const isFilled = (row: string[]) => row.some((cell) => (cell ?? "").toString().trim().length > 0);
+    const headerIndex = rows.findIndex(isFilled);
+    if (headerIndex === -1) return null;
+    const headerRow = rows[headerIndex].map((cell, index) => {
       const label = (cell || "").toString().trim();
       return label.length > 0 ? label : `Column ${index + 1}`;
     });
-    const bodyRows = rows.slice(1).filter((row) =>
-      row.some((cell) => (cell ?? "").toString().trim().length > 0)
-    );
+    const bodyRows: string[][] = [];
+    const rowNumbers: number[] = [];
+    rows.forEach((row, index) => {
+      if (index <= headerIndex || !isFilled(row)) return;
+      bodyRows.push(row);
+      rowNumbers.push(firstRow + index);
+    });
     if (bodyRows.length === 0) return null;
-    return { name, columns: headerRow, rows: bodyRows };
+    return {
+      name,
+      columns: headerRow,
+      rows: bodyRows,
+      rowNumbers,
+      headerRow: firstRow + headerIndex,
+      firstColumn,
+    };
   };
 
   const handleFileUpload = (event: ChangeEvent<HTMLInputElement>) => {
@@ -116,17 +154,70 @@ export default function BulkUploadPage() {
     setErrorMessage(null);
     setSuccessMessage(null);
     setSheets([]);
+    setSourceFile(null);
+    setDocumentQuestions([]);
     setSelectedSheet("");
     setQuestionColumn("");
+    setSectionColumn("");
+    setQuestionIdColumn("");
     setPerTabColumns({});
     setPreviewRows([]);
 
     const isCsv = file.name.toLowerCase().endsWith(".csv");
     const isExcel = file.name.toLowerCase().endsWith(".xls") || file.name.toLowerCase().endsWith(".xlsx");
+    const isWord = file.name.toLowerCase().endsWith(".docx");
+    const isPdf = file.name.toLowerCase().endsWith(".pdf");
 
-    if (!isCsv && !isExcel) {
+    if (!isCsv && !isExcel && !isWord && !isPdf) {
       setIsParsing(false);
-      setErrorMessage("Unsupported file type. Upload a CSV or Excel workbook.");
+      setErrorMessage("Unsupported file type. Upload a CSV, Excel workbook, Word document or PDF.");
+      event.target.value = "";
+      return;
+    }
+
+    // Word and PDF questionnaires are parsed on the server. Word questions come back with
+    // their location in the document; PDF questions are found by the LLM and can be corrected in the preview.
+    if (isWord || isPdf) {
+      parseDocumentQuestions(file)
+        .then((questions) => {
+          if (questions.length === 0) {
+            setErrorMessage(isWord
+              ? "No questions found. Questions should be in a table or a numbered list."
+              : "No questions found in this PDF.");
+            return;
+          }
+          const name = fileName || (isWord ? "Word Upload" : "PDF Upload");
+          const locations = questions.map((q, index) =>
+            q.location?.label ?? (q.questionId ? `Question ${q.questionId}` : `Question ${index + 1}`)
+          );
+          setSheets([{
+            name,
+            columns: ["Location", "Question"],
+            rows: questions.map((q, index) => [locations[index], q.question]),
+            rowNumbers: questions.map((_, index) => index + 1),
+            headerRow: 1,
+            firstColumn: 0,
+          }]);
+          setSelectedSheet(name);
+          setQuestionColumn("Question");
+          setDocumentQuestions(questions);
+          if (isWord) setSourceFile(file);
+          setPreviewRows(questions.map((q, index) => ({
+            rowNumber: index + 1,
+            question: q.question,
+            cells: { Location: locations[index], Question: q.question },
+            selected: true,
+            sourceTab: name,
+            location: locations[index],
+            section: q.section,
+            sectionPath: q.sectionPath,
+            questionId: q.questionId,
+          })));
+        })
+        .catch((error) => {
+          setErrorMessage(error instanceof Error ? error.message : "Failed to parse document.");
+        })
+        .finally(() => setIsParsing(false));
       event.target.value = "";
       return;
     }
@@ -164,15 +255,19 @@ export default function BulkUploadPage() {
           const parsedSheets: SheetData[] = [];
           workbook.SheetNames.forEach((sheetName) => {
             const sheet = workbook.Sheets[sheetName];
-            const rows = XLSX.utils.sheet_to_json(sheet, { header: 1, blankrows: false, defval: "" }) as (string | number | boolean | null)[][];
+            if (!sheet["!ref"]) return;
+            // The used range may not start at A1; track its origin to map rows back to the sheet
+            const range = XLSX.utils.decode_range(sheet["!ref"]);
+            const rows = XLSX.utils.sheet_to_json(sheet, { header: 1, blankrows: true, defval: "" }) as (string | number | boolean | null)[][];
             const normalized = rows.map((row) => row.map((cell) => (cell === null ? "" : cell.toString())));
-            const sheetData = buildSheetData(normalized, sheetName);
+            const sheetData = buildSheetData(normalized, sheetName, range.s.r + 1, range.s.c);
             if (sheetData) parsedSheets.push(sheetData);
           });
           if (parsedSheets.length === 0) {
             setErrorMessage("No populated worksheets detected in this file.");
           } else {
             setSheets(parsedSheets);
+            if (file.name.toLowerCase().endsWith(".xlsx")) setSourceFile(file);
             setSelectedSheet(parsedSheets[0].name);
             setErrorMessage(null);
           }
@@ -201,7 +296,7 @@ export default function BulkUploadPage() {
           const cells: Record<string, string> = {};
           sheet.columns.forEach((col, idx) => { cells[col] = row[idx]?.toString() ?? ""; });
           allRows.push({
-            rowNumber: index + 2,
+            rowNumber: sheet.rowNumbers[index],
             question: row[columnIndex]?.toString().trim() ?? "",
             cells,
             selected: true,
@@ -217,7 +312,7 @@ export default function BulkUploadPage() {
           const cells: Record<string, string> = {};
           sheet.columns.forEach((col, idx) => { cells[col] = row[idx]?.toString() ?? ""; });
           allRows.push({
-            rowNumber: index + 2,
+            rowNumber: sheet.rowNumbers[index],
             question: row[columnIndex]?.toString().trim() ?? "",
             cells,
             selected: true,
@@ -232,7 +327,7 @@ export default function BulkUploadPage() {
         const cells: Record<string, string> = {};
         activeSheet.columns.forEach((col, idx) => { cells[col] = row[idx]?.toString() ?? ""; });
         allRows.push({
-          rowNumber: index + 2,
+          rowNumber: activeSheet.rowNumbers[index],
           question: row[columnIndex]?.toString().trim() ?? "",
           cells,
           selected: true,
@@ -244,9 +339,33 @@ export default function BulkUploadPage() {
     return allRows;
   };
 
+  // Section cells are often only filled on the first question of a group, so carry them down within each tab
+  const applyColumnMetadata = (rows: PreviewRow[], sectionCol: string, idCol: string): PreviewRow[] => {
+    const currentSection: Record<string, string | undefined> = {};
+    return rows.map((row) => {
+      const sectionCell = sectionCol ? row.cells[sectionCol]?.trim() : "";
+      if (sectionCell) currentSection[row.sourceTab] = sectionCell;
+      return {
+        ...row,
+        section: sectionCol ? currentSection[row.sourceTab] : undefined,
+        questionId: idCol ? row.cells[idCol]?.trim() || undefined : undefined,
+      };
+    });
+  };
+
   const handleQuestionColumnChange = (value: string) => {
     setQuestionColumn(value);
-    setPreviewRows(value ? generatePreviewRows(value) : []);
+    setPreviewRows(value ? applyColumnMetadata(generatePreviewRows(value), sectionColumn, questionIdColumn) : []);
+  };
+
+  const handleSectionColumnChange = (value: string) => {
+    setSectionColumn(value);
+    setPreviewRows((prev) => applyColumnMetadata(prev, value, questionIdColumn));
+  };
+
+  const handleQuestionIdColumnChange = (value: string) => {
+    setQuestionIdColumn(value);
+    setPreviewRows((prev) => applyColumnMetadata(prev, sectionColumn, value));
   };
 
   const handlePerTabColumnChange = (tabName: string, columnName: string) => {
@@ -258,6 +377,8 @@ export default function BulkUploadPage() {
   const handleMergeAllTabsChange = (value: boolean) => {
     setMergeAllTabs(value);
     setQuestionColumn("");
+    setSectionColumn("");
+    setQuestionIdColumn("");
     setPerTabColumns({});
     setPreviewRows([]);
   };
@@ -265,6 +386,8 @@ export default function BulkUploadPage() {
   const handleUseSameColumnForAllChange = (value: boolean) => {
     setUseSameColumnForAll(value);
     setQuestionColumn("");
+    setSectionColumn("");
+    setQuestionIdColumn("");
     setPerTabColumns({});
     setPreviewRows([]);
   };
@@ -272,6 +395,8 @@ export default function BulkUploadPage() {
   const handleSelectedSheetChange = (value: string) => {
     setSelectedSheet(value);
     setQuestionColumn("");
+    setSectionColumn("");
+    setQuestionIdColumn("");
     setPreviewRows([]);
   };
 
@@ -285,6 +410,45 @@ export default function BulkUploadPage() {
     );
   };
 
+  const handleEditRow = (
+    rowNumber: number,
+    sourceTab: string,
+    updates: Partial<Pick<PreviewRow, "question" | "section" | "questionId">>
+  ) => {
+    setPreviewRows((prev) =>
+      prev.map((row) => {
+        if (row.rowNumber !== rowNumber || row.sourceTab !== sourceTab) return row;
+        // A renamed section keeps its enclosing headings
+        const sectionPath = updates.section !== undefined && row.sectionPath
+          ? [...row.sectionPath.slice(0, -1), updates.section]
+          : row.sectionPath;
+        return { ...row, ...updates, sectionPath };
+      })
+    );
+  };
+
+  // Record where each tab's questions live so answers can be written back into the original file
+  const buildSheetMappings = (tabNames: string[]): SourceSheetMapping[] =>
+    sheets
+      .filter((sheet) => tabNames.includes(sheet.name))
+      .map((sheet) => {
+        const questionColumnName = mergeAllTabs && sheets.length > 1 && !useSameColumnForAll
+          ? perTabColumns[sheet.name]
+          : questionColumn;
+        const questionIndex = sheet.columns.indexOf(questionColumnName);
+        const answerIndex = guessColumn(sheet.columns, ANSWER_HEADER, [questionIndex]);
+        const commentIndex = guessColumn(sheet.columns, COMMENT_HEADER, [questionIndex, answerIndex ?? -1]);
+        return {
+          sheetName: sheet.name,
+          columns: sheet.columns,
+          firstColumn: sheet.firstColumn,
+          headerRow: sheet.headerRow,
+          questionColumn: sheet.firstColumn + questionIndex,
+          answerColumn: answerIndex === null ? null : sheet.firstColumn + answerIndex,
+          commentColumn: commentIndex === null ? null : sheet.firstColumn + commentIndex,
+        };
+      });
+
   const handleSaveProject = async () => {
     if (mergeAllTabs && sheets.length > 1) {
       if (useSameColumnForAll && !questionColumn) {
@@ -300,7 +464,7 @@ export default function BulkUploadPage() {
       return;
     }
 
-    const selectedRows = previewRows.filter((row) => row.selected);
+    const selectedRows = previewRows.filter((row) => row.selected && row.question.trim());
     if (selectedRows.length === 0) {
       setErrorMessage("No questions selected. Please select at least one question to include.");
       return;
@@ -316,6 +480,9 @@ export default function BulkUploadPage() {
       ? [...new Set(sheets.flatMap((s) => s.columns))]
       : (columns.length > 0 ? columns : activeSheet?.columns || []);
     const selectedOwner = users.find((u) => u.id === selectedOwnerId);
+    // Sheet row numbers repeat across tabs, so merged projects number rows sequentially
+    const isMerged = tabsWithRows.length > 1;
+    const isDocument = documentQuestions.length > 0;
 
     const project: BulkProject = {
       id: projectId,
@@ -323,20 +490,27 @@ export default function BulkUploadPage() {
       customerName: customerName.trim() || undefined,
       ownerId: selectedOwnerId || undefined,
       ownerName: selectedOwner ? (selectedOwner.name || selectedOwner.email || undefined) : undefined,
+      visibility,
+      collaborators: collaborators.filter((c) => c.userId !== selectedOwnerId),
       sheetName: sheetNameForProject,
       columns: projectColumns,
       createdAt: now,
       lastModifiedAt: now,
       status: "draft",
       notes: tabsWithRows.length > 1 ? `Source tabs: ${tabsWithRows.join(", ")}` : undefined,
-      rows: selectedRows.map((row) => ({
+      rows: selectedRows.map((row, index) => ({
         id: crypto.randomUUID(),
-        rowNumber: row.rowNumber,
-        question: row.question,
+        rowNumber: isMerged || isDocument ? index + 1 : row.rowNumber,
+        sourceRowNumber: isDocument ? undefined : row.rowNumber,
+        sourceLocation: isDocument ? documentQuestions[row.rowNumber - 1]?.location : undefined,
+        section: row.section?.trim() || undefined,
+        sectionPath: row.sectionPath,
+        questionId: row.questionId?.trim() || undefined,
+        question: row.question.trim(),
         response: "",
         status: "pending" as const,
         error: undefined,
-        sourceTab: row.sourceTab,
+        sourceTab: isDocument ? undefined : row.sourceTab,
         conversationHistory: undefined,
         confidence: undefined,
         sources: undefined,
@@ -348,6 +522,17 @@ export default function BulkUploadPage() {
 
     try {
       const createdProject = await createProject(project);
+      if (sourceFile) {
+        try {
+          await uploadProjectSourceFile(
+            createdProject.id,
+            sourceFile,
+            isDocument ? [] : buildSheetMappings(tabsWithRows)
+          );
+        } catch {
+          toast.warning("Project saved, but the original file could not be stored for export.");
+        }
+      }
       setSuccessMessage("Project saved! Redirecting to response workspace...");
       router.push(`/projects/${createdProject.id}`);
     } catch {
@@ -373,11 +558,15 @@ export default function BulkUploadPage() {
         selectedOwnerId={selectedOwnerId}
         users={users}
         currentUserId={session?.user?.id}
+        visibility={visibility}
+        collaborators={collaborators}
         detectedRows={detectedRows}
         isParsing={isParsing}
         onProjectNameChange={setProjectName}
         onCustomerNameChange={setCustomerName}
         onOwnerIdChange={setSelectedOwnerId}
+        onVisibilityChange={setVisibility}
+        onCollaboratorsChange={setCollaborators}
         onFileUpload={handleFileUpload}
       />
 
@@ -395,7 +584,7 @@ export default function BulkUploadPage() {
         onPerTabColumnChange={handlePerTabColumnChange}
       />
 
-      {columns.length > 0 && (
+      {columns.length > 0 && documentQuestions.length === 0 && (
         <div style={styles.card}>
           <label style={styles.label} htmlFor="questionColumn">
             Which column contains the questionnaire prompts?
@@ -414,6 +603,38 @@ export default function BulkUploadPage() {
           <p style={{ color: "#64748b" }}>
             We mirror the workflow summary: explicitly pick the prompt column so we never overwrite customer data.
           </p>
+          {questionColumn && (
+            <div style={{ display: "flex", gap: "12px" }}>
+              <div style={{ flex: 1 }}>
+                <label style={styles.label} htmlFor="sectionColumn">Section column (optional)</label>
+                <select
+                  id="sectionColumn"
+                  value={sectionColumn}
+                  onChange={(event) => handleSectionColumnChange(event.target.value)}
+                  style={styles.input}
+                >
+                  <option value="">None</option>
+                  {columns.filter((column) => column !== questionColumn).map((column) => (
+                    <option key={column} value={column}>{column}</option>
+                  ))}
+                </select>
+              </div>
+              <div style={{ flex: 1 }}>
+                <label style={styles.label} htmlFor="questionIdColumn">Question ID column (optional)</label>
+                <select
+                  id="questionIdColumn"
+                  value={questionIdColumn}
+                  onChange={(event) => handleQuestionIdColumnChange(event.target.value)}
+                  style={styles.input}
+                >
+                  <option value="">None</option>
+                  {columns.filter((column) => column !== questionColumn).map((column) => (
+                    <option key={column} value={column}>{column}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
         </div>
       )}
 
@@ -426,6 +647,7 @@ export default function BulkUploadPage() {
         onSelectAll={() => setPreviewRows((prev) => prev.map((row) => ({ ...row, selected: true })))}
         onDeselectAll={() => setPreviewRows((prev) => prev.map((row) => ({ ...row, selected: false })))}
         onSaveProject={handleSaveProject}
+        onEditRow={documentQuestions.length > 0 ? handleEditRow : undefined}
       />
 
       <div style={{ textAlign: "center", marginTop: "24px" }}>
@@ -5,6 +5,7 @@ import Link from "next/link";
 import { useSession } from "next-auth/react";
 import { toast } from "sonner";
 import { useApiQuery, useApiMutation } from "@/hooks/use-api";
+import type { StaleSkillRef } from "@/types/skill";
 
 interface ReviewItem {
   id: string;
@@ -29,6 +30,10 @@ interface ReviewItem {
   flagResolvedAt?: string;
   flagResolvedBy?: string;
   flagResolutionNote?: string;
+  // Stale-answer fields
+  possiblyStale?: boolean;
+  staleSkills?: StaleSkillRef[] | null;
+  staleDetectedAt?: string;
   // Source info
   source: "project" | "questions";
   project: {
@@ -45,6 +50,7 @@ interface ReviewCounts {
   corrected: number;
   flagged: number;
   resolved: number;
+  stale: number;
 }
 
 const styles = {
@@ -245,7 +251,7 @@ function formatTimeAgo(dateString?: string) {
 
 export default function ReviewsPage() {
   const { data: session } = useSession();
-  const [activeTab, setActiveTab] = useState<"pending" | "flagged" | "resolved" | "approved" | "corrected" | "all">("pending");
+  const [activeTab, setActiveTab] = useState<"pending" | "flagged" | "resolved" | "approved" | "corrected" | "stale" | "all">("pending");
   const [resolvingId, setResolvingId] = useState<string | null>(null);
   const [resolutionNote, setResolutionNote] = useState("");
 
@@ -265,6 +271,8 @@ export default function ReviewsPage() {
     } else if (activeTab === "corrected") {
       params.type = "review";
       params.status = "CORRECTED";
+    } else if (activeTab === "stale") {
+      params.type = "stale";
     }
     return params;
   };
@@ -282,7 +290,7 @@ export default function ReviewsPage() {
   });
 
   const reviews = reviewsData?.reviews || [];
-  const counts = reviewsData?.counts || { pending: 0, approved: 0, corrected: 0, flagged: 0, resolved: 0 };
+  const counts = reviewsData?.counts || { pending: 0, approved: 0, corrected: 0, flagged: 0, resolved: 0, stale: 0 };
 
   // Approve mutation
   type ApproveInput = {
@@ -388,7 +396,7 @@ export default function ReviewsPage() {
 
       {/* Tabs */}
       <div style={styles.tabs}>
-        {(["pending", "flagged", "resolved", "approved", "corrected", "all"] as const).map((tab) => (
+        {(["pending", "flagged", "resolved", "approved", "corrected", "stale", "all"] as const).map((tab) => (
           <button
             key={tab}
             onClick={() => setActiveTab(tab)}
@@ -403,6 +411,7 @@ export default function ReviewsPage() {
             {tab === "resolved" && `Resolved (${counts.resolved})`}
             {tab === "approved" && `Verified (${counts.approved})`}
             {tab === "corrected" && `Corrected (${counts.corrected})`}
+            {tab === "stale" && `Possibly Stale (${counts.stale})`}
             {tab === "all" && `All (${counts.pending + counts.flagged + counts.approved + counts.corrected})`}
           </button>
         ))}
@@ -420,7 +429,8 @@ export default function ReviewsPage() {
             {activeTab === "pending" && "No items needing help!"}
             {activeTab === "flagged" && "No flagged items!"}
             {activeTab === "resolved" && "No resolved flags yet"}
-            {activeTab !== "pending" && activeTab !== "flagged" && activeTab !== "resolved" && "No reviews found"}
+            {activeTab === "stale" && "No stale answers"}
+            {activeTab !== "pending" && activeTab !== "flagged" && activeTab !== "resolved" && activeTab !== "stale" && "No reviews found"}
           </p>
           <p>
             {activeTab === "pending"
@@ -429,6 +439,8 @@ export default function ReviewsPage() {
               ? "No answers have been flagged for investigation."
               : activeTab === "resolved"
               ? "Resolved flags will appear here for record-keeping."
+              : activeTab === "stale"
+              ? "Answers built on skills that changed after they were generated will appear here."
               : "Try switching tabs to see other reviews."}
           </p>
         </div>
@@ -459,20 +471,25 @@ export default function ReviewsPage() {
                       Flagged
                     </span>
                   )
-                ) : (
+                ) : review.reviewStatus !== "NONE" && (
                   <span style={{ ...styles.statusBadge, ...getStatusStyle(review.reviewStatus) }}>
                     {review.reviewStatus === "REQUESTED" && "Need Help"}
                     {review.reviewStatus === "APPROVED" && "Verified"}
                     {review.reviewStatus === "CORRECTED" && "Corrected"}
                   </span>
                 )}
+                {review.possiblyStale && (
+                  <span style={{ ...styles.statusBadge, backgroundColor: "#fef3c7", color: "#92400e" }}>
+                    Possibly Stale
+                  </span>
+                )}
                 {review.rowNumber !== null && <span>Row {review.rowNumber}</span>}
                 {review.confidence && (
                   <span style={{ ...styles.confidenceBadge, ...getConfidenceStyle(review.confidence) }}>
                     {review.confidence}
                   </span>
                 )}
-                <span>{formatTimeAgo(review.reviewRequestedAt || review.flaggedAt)}</span>
+                <span>{formatTimeAgo(review.reviewRequestedAt || review.flaggedAt || review.staleDetectedAt)}</span>
               </div>
             </div>
 
@@ -486,6 +503,17 @@ export default function ReviewsPage() {
                 </div>
               )}
 
+              {review.possiblyStale && review.staleSkills && review.staleSkills.length > 0 && (
+                <div style={{ ...styles.note, fontStyle: "normal", backgroundColor: "#fffbeb", border: "1px solid #fcd34d" }}>
+                  <strong>Changed since this answer:</strong>{" "}
+                  {review.staleSkills
+                    .map((skill) => skill.answeredVersion !== undefined
+                      ? `${skill.title} (v${skill.answeredVersion} → v${skill.currentVersion})`
+                      : skill.title)
+                    .join(", ")}
+                </div>
+              )}
+
               {review.reviewedBy && (
                 <div style={{ fontSize: "12px", color: "#64748b", marginBottom: "8px" }}>
                   Reviewed by {review.reviewedBy} • {formatTimeAgo(review.reviewedAt)}
@@ -520,7 +548,7 @@ export default function ReviewsPage() {
               <div style={styles.actions}>
                 {review.source === "project" && review.project ? (
                   <Link
-                    href={`/projects/${review.project.id}?filter=flagged`}
+                    href={`/projects/${review.project.id}?filter=${activeTab === "stale" ? "stale" : "flagged"}`}
                     style={{
                       ...styles.button,
                       backgroundColor: "#f1f5f9",
@@ -528,7 +556,7 @@ export default function ReviewsPage() {
                       textDecoration: "none",
                     }}
                   >
-                    View in Project
+                    {activeTab === "stale" ? "Re-answer in Project" : "View in Project"}
                   </Link>
                 ) : (
                   <Link
@@ -0,0 +1,277 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useSession } from "next-auth/react";
+import { useApiQuery } from "@/hooks/use-api";
+import type { SearchResult, SearchResultType } from "@/lib/search";
+
+const TYPE_LABELS: Record<SearchResultType, string> = {
+  skill: "Skill",
+  document: "Document",
+  url: "URL",
+  customer: "Customer",
+  "project-row": "Project answer",
+  question: "Quick question",
+  collateral: "Collateral",
+};
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+const styles = {
+  trigger: {
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "space-between",
+    width: "100%",
+    padding: "8px 12px",
+    backgroundColor: "#334155",
+    border: "1px solid #475569",
+    borderRadius: "6px",
+    color: "#94a3b8",
+    fontSize: "13px",
+    cursor: "pointer",
+  },
+  shortcut: {
+    fontSize: "11px",
+    color: "#64748b",
+    border: "1px solid #475569",
+    borderRadius: "4px",
+    padding: "0 4px",
+  },
+  overlay: {
+    position: "fixed" as const,
+    inset: 0,
+    backgroundColor: "rgba(15, 23, 42, 0.5)",
+    display: "flex",
+    justifyContent: "center",
+    alignItems: "flex-start",
+    paddingTop: "12vh",
+    zIndex: 1000,
+  },
+  dialog: {
+    width: "min(640px, 92vw)",
+    backgroundColor: "#fff",
+    borderRadius: "10px",
+    boxShadow: "0 20px 50px rgba(15, 23, 42, 0.35)",
+    overflow: "hidden",
+  },
+  input: {
+    width: "100%",
+    padding: "16px 18px",
+    border: "none",
+    borderBottom: "1px solid #e2e8f0",
+    fontSize: "16px",
+    outline: "none",
+    color: "#0f172a",
+  },
+  results: {
+    maxHeight: "60vh",
+    overflowY: "auto" as const,
+  },
+  result: {
+    display: "block",
+    width: "100%",
+    padding: "10px 18px",
+    border: "none",
+    textAlign: "left" as const,
+    cursor: "pointer",
+    borderBottom: "1px solid #f1f5f9",
+  },
+  resultHeader: {
+    display: "flex",
+    alignItems: "center",
+    gap: "8px",
+    marginBottom: "2px",
+  },
+  typeBadge: {
+    fontSize: "10px",
+    fontWeight: 600,
+    textTransform: "uppercase" as const,
+    letterSpacing: "0.5px",
+    color: "#475569",
+    backgroundColor: "#e2e8f0",
+    borderRadius: "4px",
+    padding: "1px 6px",
+    flexShrink: 0,
+  },
+  title: {
+    fontSize: "14px",
+    fontWeight: 500,
+    color: "#0f172a",
+    overflow: "hidden",
+    textOverflow: "ellipsis",
+    whiteSpace: "nowrap" as const,
+  },
+  subtitle: {
+    fontSize: "12px",
+    color: "#64748b",
+    marginLeft: "auto",
+    flexShrink: 0,
+    maxWidth: "35%",
+    overflow: "hidden",
+    textOverflow: "ellipsis",
+    whiteSpace: "nowrap" as const,
+  },
+  snippet: {
+    fontSize: "12px",
+    color: "#475569",
+    lineHeight: 1.5,
+  },
+  highlight: {
+    backgroundColor: "#fef08a",
+    color: "#0f172a",
+    borderRadius: "2px",
+    padding: "0 1px",
+  },
+  status: {
+    padding: "16px 18px",
+    fontSize: "13px",
+    color: "#64748b",
+  },
+};
+
+/**
+ * Global search. Opens from the sidebar button or Cmd/Ctrl+K; arrow keys move,
+ * Enter jumps to the selected result.
+ */
+export default function CommandPalette() {
+  const router = useRouter();
+  const { data: session } = useSession();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        setOpen((current) => !current);
+        setQuery("");
+        setDebouncedQuery("");
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const { data: results = [], isFetching, error } = useApiQuery<SearchResult[]>({
+    queryKey: ["search", debouncedQuery],
+    url: "/api/search",
+    params: { q: debouncedQuery, limit: 20 },
+    responseKey: "results",
+    enabled: open && debouncedQuery.length >= 2,
+    staleTime: 30 * 1000,
+  });
+
+  const visibleResults = useMemo(() => (debouncedQuery.length >= 2 ? results : []), [debouncedQuery, results]);
+
+  if (!session?.user) {
+    return null;
+  }
+
+  const close = () => {
+    setOpen(false);
+    setQuery("");
+    setDebouncedQuery("");
+  };
+
+  const goTo = (result: SearchResult) => {
+    close();
+    router.push(result.href);
+  };
+
+  const onQueryChange = (value: string) => {
+    setQuery(value);
+    setSelectedIndex(0);
+  };
+
+  const onInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Escape") {
+      close();
+    } else if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setSelectedIndex((index) => Math.min(index + 1, visibleResults.length - 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setSelectedIndex((index) => Math.max(index - 1, 0));
+    } else if (e.key === "Enter" && visibleResults[selectedIndex]) {
+      e.preventDefault();
+      goTo(visibleResults[selectedIndex]);
+    }
+  };
+
+  return (
+    <>
+      <button type="button" onClick={() => setOpen(true)} style={styles.trigger}>
+        <span>Search…</span>
+        <span style={styles.shortcut}>⌘K</span>
+      </button>
+
+      {open && (
+        <div style={styles.overlay} onClick={close}>
+          <div
+            style={styles.dialog}
+            role="dialog"
+            aria-label="Search"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <input
+              autoFocus
+              value={query}
+              onChange={(e) => onQueryChange(e.target.value)}
+              onKeyDown={onInputKeyDown}
+              placeholder="Search skills, documents, customers, projects and answers…"
+              style={styles.input}
+            />
+            <div style={styles.results}>
+              {query.trim().length < 2 ? (
+                <div style={styles.status}>Type at least 2 characters to search.</div>
+              ) : error ? (
+                <div style={{ ...styles.status, color: "#dc2626" }}>{error.message}</div>
+              ) : visibleResults.length === 0 ? (
+                <div style={styles.status}>{isFetching || query.trim() !== debouncedQuery ? "Searching…" : "No results."}</div>
+              ) : (
+                visibleResults.map((result, index) => (
+                  <button
+                    key={`${result.type}-${result.id}`}
+                    type="button"
+                    onClick={() => goTo(result)}
+                    onMouseEnter={() => setSelectedIndex(index)}
+                    style={{
+                      ...styles.result,
+                      backgroundColor: index === selectedIndex ? "#f1f5f9" : "#fff",
+                    }}
+                  >
+                    <div style={styles.resultHeader}>
+                      <span style={styles.typeBadge}>{TYPE_LABELS[result.type]}</span>
+                      <span style={styles.title}>{result.title}</span>
+                      {result.subtitle && <span style={styles.subtitle}>{result.subtitle}</span>}
+                    </div>
+                    {result.snippet.length > 0 && (
+                      <div style={styles.snippet}>
+                        {result.snippet.map((part, partIndex) =>
+                          part.highlighted ? (
+                            <mark key={partIndex} style={styles.highlight}>{part.text}</mark>
+                          ) : (
+                            <span key={partIndex}>{part.text}</span>
+                          )
+                        )}
+                      </div>
+                    )}
+                  </button>
+                ))
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,400 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useSession } from "next-auth/react";
+import { toast } from "sonner";
+import type { SelectableUser } from "@/components/UserSelector";
+import type { Comment, CommentTargetType, CommentThread } from "@/types/comment";
+import { parseCommentContent, toMentionMarkup, type MentionedUser } from "@/lib/commentMentions";
+import { deleteComment, fetchCommentThreads, postComment, setThreadResolved } from "@/lib/commentApi";
+
+type Props = {
+  targetType: CommentTargetType;
+  targetId: string;
+  // Called after the threads load or change, with the open (unresolved) thread count
+  onChange?: (counts: { total: number; open: number }) => void;
+};
+
+const styles = {
+  container: {
+    marginTop: "8px",
+    padding: "12px",
+    backgroundColor: "#f8fafc",
+    borderRadius: "6px",
+    border: "1px solid #e2e8f0",
+    fontSize: "0.85rem",
+  },
+  thread: {
+    padding: "8px 10px",
+    backgroundColor: "#fff",
+    borderRadius: "6px",
+    border: "1px solid #e2e8f0",
+    marginBottom: "8px",
+  },
+  reply: {
+    marginTop: "6px",
+    paddingLeft: "12px",
+    borderLeft: "2px solid #e2e8f0",
+  },
+  meta: {
+    color: "#94a3b8",
+    fontSize: "0.75rem",
+  },
+  mention: {
+    color: "#2563eb",
+    backgroundColor: "#eff6ff",
+    borderRadius: "3px",
+    padding: "0 2px",
+    fontWeight: 500,
+  },
+  textarea: {
+    width: "100%",
+    padding: "6px 8px",
+    borderRadius: "6px",
+    border: "1px solid #cbd5e1",
+    fontSize: "0.85rem",
+    minHeight: "48px",
+    resize: "vertical" as const,
+  },
+  button: {
+    padding: "4px 10px",
+    borderRadius: "4px",
+    border: "none",
+    cursor: "pointer",
+    fontSize: "0.8rem",
+    fontWeight: 600,
+  },
+  linkButton: {
+    background: "none",
+    border: "none",
+    padding: 0,
+    cursor: "pointer",
+    fontSize: "0.75rem",
+    color: "#64748b",
+  },
+  suggestions: {
+    position: "absolute" as const,
+    left: 0,
+    right: 0,
+    top: "100%",
+    zIndex: 10,
+    backgroundColor: "#fff",
+    border: "1px solid #e2e8f0",
+    borderRadius: "6px",
+    boxShadow: "0 4px 12px rgba(15, 23, 42, 0.1)",
+    maxHeight: "180px",
+    overflowY: "auto" as const,
+  },
+  suggestion: {
+    display: "block",
+    width: "100%",
+    textAlign: "left" as const,
+    padding: "6px 10px",
+    border: "none",
+    backgroundColor: "#fff",
+    cursor: "pointer",
+    fontSize: "0.8rem",
+  },
+};
+
+// "@partial name" right before the cursor, if the user is typing a mention
+function getMentionQuery(text: string, cursor: number): { start: number; query: string } | null {
+  const before = text.slice(0, cursor);
+  const match = before.match(/(^|\s)@([^@\n]{0,30})$/);
+  if (!match) return null;
+  return { start: before.length - match[2].length - 1, query: match[2] };
+}
+
+function CommentText({ content }: { content: string }) {
+  return (
+    <span style={{ whiteSpace: "pre-wrap" }}>
+      {parseCommentContent(content).map((segment, index) =>
+        segment.mention ? (
+          <span key={index} style={styles.mention}>{segment.text}</span>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </span>
+  );
+}
+
+function CommentComposer({
+  users,
+  placeholder,
+  submitLabel,
+  onSubmit,
+  onCancel,
+}: {
+  users: SelectableUser[];
+  placeholder: string;
+  submitLabel: string;
+  onSubmit: (content: string) => Promise<boolean>;
+  onCancel?: () => void;
+}) {
+  const [text, setText] = useState("");
+  const [picked, setPicked] = useState<MentionedUser[]>([]);
+  const [mentionQuery, setMentionQuery] = useState<{ start: number; query: string } | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const suggestions = mentionQuery
+    ? users
+        .filter((user) => {
+          const query = mentionQuery.query.toLowerCase();
+          return user.name?.toLowerCase().includes(query) || user.email?.toLowerCase().includes(query);
+        })
+        .slice(0, 6)
+    : [];
+
+  const pickUser = (user: SelectableUser) => {
+    if (!mentionQuery) return;
+    const name = user.name || user.email || "Unknown user";
+    const end = mentionQuery.start + 1 + mentionQuery.query.length;
+    setText(`${text.slice(0, mentionQuery.start)}@${name} ${text.slice(end)}`);
+    setPicked((prev) => (prev.some((p) => p.id === user.id) ? prev : [...prev, { id: user.id, name }]));
+    setMentionQuery(null);
+  };
+
+  const handleSubmit = async () => {
+    if (!text.trim() || submitting) return;
+    setSubmitting(true);
+    const posted = await onSubmit(toMentionMarkup(text.trim(), picked));
+    setSubmitting(false);
+    if (posted) {
+      setText("");
+      setPicked([]);
+    }
+  };
+
+  return (
+    <div>
+      <div style={{ position: "relative" }}>
+        <textarea
+          value={text}
+          placeholder={placeholder}
+          onChange={(e) => {
+            setText(e.target.value);
+            setMentionQuery(getMentionQuery(e.target.value, e.target.selectionStart));
+          }}
+          onKeyDown={(e) => {
+            if (e.key === "Escape") setMentionQuery(null);
+            if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) handleSubmit();
+          }}
+          style={styles.textarea}
+        />
+        {suggestions.length > 0 && (
+          <div style={styles.suggestions}>
+            {suggestions.map((user) => (
+              <button
+                key={user.id}
+                type="button"
+                onMouseDown={(e) => {
+                  // Keep focus in the textarea
+                  e.preventDefault();
+                  pickUser(user);
+                }}
+                style={styles.suggestion}
+              >
+                <strong>{user.name || user.email}</strong>
+                {user.name && user.email && <span style={{ color: "#94a3b8", marginLeft: "6px" }}>{user.email}</span>}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      <div style={{ display: "flex", gap: "6px", marginTop: "6px", alignItems: "center" }}>
+        <button
+          type="button"
+          onClick={handleSubmit}
+          disabled={!text.trim() || submitting}
+          style={{
+            ...styles.button,
+            backgroundColor: !text.trim() || submitting ? "#94a3b8" : "#2563eb",
+            color: "#fff",
+            cursor: !text.trim() || submitting ? "not-allowed" : "pointer",
+          }}
+        >
+          {submitting ? "Posting..." : submitLabel}
+        </button>
+        {onCancel && (
+          <button type="button" onClick={onCancel} style={{ ...styles.button, backgroundColor: "#f1f5f9", color: "#64748b" }}>
+            Cancel
+          </button>
+        )}
+        <span style={styles.meta}>Type @ to mention someone</span>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Comment threads on a project row, quick question or collateral output.
+ * Opening the threads marks them read.
+ */
+export default function CommentThreads({ targetType, targetId, onChange }: Props) {
+  const { data: session } = useSession();
+  const currentUserId = session?.user?.id;
+  const [threads, setThreads] = useState<CommentThread[]>([]);
+  const [canModerate, setCanModerate] = useState(false);
+  const [users, setUsers] = useState<SelectableUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [showResolved, setShowResolved] = useState(false);
+
+  const loadThreads = useCallback(async () => {
+    try {
+      const data = await fetchCommentThreads(targetType, targetId);
+      setThreads(data.threads);
+      setCanModerate(data.canModerate);
+      setError(null);
+      onChange?.({
+        total: data.threads.reduce((sum, thread) => sum + 1 + thread.replies.length, 0),
+        open: data.threads.filter((thread) => !thread.resolved).length,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load comments");
+    } finally {
+      setLoading(false);
+    }
+    // onChange is a callback from the parent; reloading when it changes isn't needed
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [targetType, targetId]);
+
+  useEffect(() => {
+    loadThreads();
+  }, [loadThreads]);
+
+  // Users for @mention suggestions
+  useEffect(() => {
+    fetch("/api/users")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((result) => {
+        const data = result?.data || result;
+        setUsers(data?.users || []);
+      })
+      .catch(() => setUsers([]));
+  }, []);
+
+  const handlePost = async (content: string, parentId?: string) => {
+    try {
+      const { mentioned, notNotified } = await postComment({ targetType, targetId, content, parentId });
+      if (mentioned.length > 0) {
+        toast.success(`Notified ${mentioned.map((u) => u.name).join(", ")}`);
+      }
+      if (notNotified.length > 0) {
+        toast.warning(`Not notified (no access): ${notNotified.map((u) => u.name).join(", ")}`);
+      }
+      setReplyingTo(null);
+      await loadThreads();
+      return true;
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to post comment");
+      return false;
+    }
+  };
+
+  const handleResolve = async (thread: CommentThread) => {
+    try {
+      await setThreadResolved(thread.id, !thread.resolved);
+      await loadThreads();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to update thread");
+    }
+  };
+
+  const handleDelete = async (comment: Comment) => {
+    if (!confirm(comment.parentId ? "Delete this reply?" : "Delete this thread and its replies?")) return;
+    try {
+      await deleteComment(comment.id);
+      await loadThreads();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to delete comment");
+    }
+  };
+
+  const renderComment = (comment: Comment) => (
+    <div>
+      <div style={{ display: "flex", gap: "6px", alignItems: "baseline", flexWrap: "wrap" }}>
+        <strong>{comment.authorName || comment.authorEmail || "Unknown"}</strong>
+        <span style={styles.meta}>{new Date(comment.createdAt).toLocaleString()}</span>
+        {comment.unread && (
+          <span style={{ ...styles.meta, color: "#2563eb", fontWeight: 600 }}>New</span>
+        )}
+        {(comment.authorId === currentUserId || canModerate) && (
+          <button type="button" onClick={() => handleDelete(comment)} style={{ ...styles.linkButton, marginLeft: "auto" }}>
+            Delete
+          </button>
+        )}
+      </div>
+      <div style={{ marginTop: "2px" }}>
+        <CommentText content={comment.content} />
+      </div>
+    </div>
+  );
+
+  const resolvedCount = threads.filter((thread) => thread.resolved).length;
+  const visibleThreads = showResolved ? threads : threads.filter((thread) => !thread.resolved);
+
+  return (
+    <div style={styles.container}>
+      {loading ? (
+        <div style={styles.meta}>Loading comments...</div>
+      ) : error ? (
+        <div style={{ color: "#b91c1c" }}>{error}</div>
+      ) : (
+        <>
+          {resolvedCount > 0 && (
+            <button
+              type="button"
+              onClick={() => setShowResolved(!showResolved)}
+              style={{ ...styles.linkButton, marginBottom: "8px" }}
+            >
+              {showResolved ? "Hide" : "Show"} {resolvedCount} resolved thread{resolvedCount !== 1 ? "s" : ""}
+            </button>
+          )}
+          {visibleThreads.map((thread) => (
+            <div key={thread.id} style={{ ...styles.thread, opacity: thread.resolved ? 0.7 : 1 }}>
+              {renderComment(thread)}
+              {thread.replies.map((reply) => (
+                <div key={reply.id} style={styles.reply}>
+                  {renderComment(reply)}
+                </div>
+              ))}
+              {thread.resolved && thread.resolvedBy && (
+                <div style={{ ...styles.meta, marginTop: "6px" }}>Resolved by {thread.resolvedBy}</div>
+              )}
+              <div style={{ display: "flex", gap: "12px", marginTop: "6px" }}>
+                <button type="button" onClick={() => setReplyingTo(thread.id)} style={styles.linkButton}>
+                  Reply
+                </button>
+                {(thread.authorId === currentUserId || canModerate) && (
+                  <button type="button" onClick={() => handleResolve(thread)} style={styles.linkButton}>
+                    {thread.resolved ? "Reopen" : "Resolve"}
+                  </button>
+                )}
+              </div>
+              {replyingTo === thread.id && (
+                <div style={{ ...styles.reply, marginTop: "8px" }}>
+                  <CommentComposer
+                    users={users}
+                    placeholder="Reply..."
+                    submitLabel="Reply"
+                    onSubmit={(content) => handlePost(content, thread.id)}
+                    onCancel={() => setReplyingTo(null)}
+                  />
+                </div>
+              )}
+            </div>
+          ))}
+          <CommentComposer
+            users={users}
+            placeholder={threads.length > 0 ? "Start a new thread..." : "Add a comment..."}
+            submitLabel="Comment"
+            onSubmit={(content) => handlePost(content)}
+          />
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,382 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import Link from "next/link";
+import { useSession } from "next-auth/react";
+import { Bell } from "lucide-react";
+import { toast } from "sonner";
+import {
+  NOTIFICATION_TYPE_LABELS,
+  type NotificationDigest,
+  type NotificationPreferences,
+  type NotificationType,
+  type UserNotification,
+} from "@/types/notification";
+
+const DIGEST_OPTIONS: { value: NotificationDigest; label: string }[] = [
+  { value: "off", label: "Right away" },
+  { value: "daily", label: "Daily digest" },
+  { value: "weekly", label: "Weekly digest" },
+];
+
+const styles = {
+  bellButton: {
+    position: "relative" as const,
+    background: "none",
+    border: "none",
+    padding: "4px",
+    cursor: "pointer",
+    color: "#cbd5e1",
+    display: "flex",
+    alignItems: "center",
+  },
+  badge: {
+    position: "absolute" as const,
+    top: "-4px",
+    right: "-6px",
+    backgroundColor: "#ef4444",
+    color: "#fff",
+    fontSize: "10px",
+    fontWeight: 700,
+    borderRadius: "999px",
+    minWidth: "16px",
+    height: "16px",
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    padding: "0 4px",
+  },
+  panel: {
+    position: "fixed" as const,
+    left: "248px",
+    top: "16px",
+    width: "360px",
+    maxHeight: "calc(100vh - 32px)",
+    display: "flex",
+    flexDirection: "column" as const,
+    backgroundColor: "#fff",
+    color: "#0f172a",
+    borderRadius: "8px",
+    border: "1px solid #e2e8f0",
+    boxShadow: "0 10px 30px rgba(15, 23, 42, 0.2)",
+    zIndex: 200,
+  },
+  panelHeader: {
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "space-between",
+    padding: "12px 14px",
+    borderBottom: "1px solid #e2e8f0",
+  },
+  linkButton: {
+    background: "none",
+    border: "none",
+    padding: 0,
+    cursor: "pointer",
+    fontSize: "12px",
+    color: "#2563eb",
+  },
+  item: {
+    display: "block",
+    padding: "10px 14px",
+    borderBottom: "1px solid #f1f5f9",
+    textDecoration: "none",
+    color: "inherit",
+    cursor: "pointer",
+  },
+  meta: {
+    fontSize: "11px",
+    color: "#94a3b8",
+    marginTop: "2px",
+  },
+  empty: {
+    padding: "24px 14px",
+    textAlign: "center" as const,
+    color: "#94a3b8",
+    fontSize: "13px",
+  },
+};
+
+function timeAgo(iso: string): string {
+  const minutes = Math.floor((Date.now() - new Date(iso).getTime()) / 60000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+}
+
+async function loadNotifications(): Promise<{ notifications: UserNotification[]; unreadCount: number } | null> {
+  const response = await fetch("/api/notifications?limit=30");
+  if (!response.ok) return null;
+  const data = await response.json();
+  return { notifications: data.data?.notifications || [], unreadCount: data.data?.unreadCount || 0 };
+}
+
+async function markRead(ids?: string[]): Promise<number | null> {
+  const response = await fetch("/api/notifications", {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ids }),
+  });
+  if (!response.ok) return null;
+  const data = await response.json();
+  return data.data?.unreadCount ?? null;
+}
+
+function NotificationSettings({ onDone }: { onDone: () => void }) {
+  const [settings, setSettings] = useState<NotificationPreferences | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetch("/api/user/preferences")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setSettings(data?.data?.preferences?.notificationSettings || { muted: [], digest: "off" }))
+      .catch(() => setSettings({ muted: [], digest: "off" }));
+  }, []);
+
+  const toggleType = (type: NotificationType) => {
+    if (!settings) return;
+    const muted = settings.muted.includes(type)
+      ? settings.muted.filter((t) => t !== type)
+      : [...settings.muted, type];
+    setSettings({ ...settings, muted });
+  };
+
+  const handleSave = async () => {
+    if (!settings) return;
+    setSaving(true);
+    try {
+      const response = await fetch("/api/user/preferences", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ notificationSettings: settings }),
+      });
+      if (!response.ok) throw new Error("Failed to save");
+      toast.success("Notification settings saved");
+      onDone();
+    } catch {
+      toast.error("Failed to save notification settings");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!settings) {
+    return <div style={styles.empty}>Loading...</div>;
+  }
+
+  return (
+    <div style={{ padding: "12px 14px", overflowY: "auto", fontSize: "13px" }}>
+      <div style={{ fontWeight: 600, marginBottom: "6px" }}>Notify me about</div>
+      {(Object.keys(NOTIFICATION_TYPE_LABELS) as (keyof typeof NOTIFICATION_TYPE_LABELS)[]).map((type) => (
+        <label key={type} style={{ display: "flex", alignItems: "center", gap: "8px", padding: "3px 0", cursor: "pointer" }}>
+          <input type="checkbox" checked={!settings.muted.includes(type)} onChange={() => toggleType(type)} />
+          {NOTIFICATION_TYPE_LABELS[type]}
+        </label>
+      ))}
+      <div style={{ fontWeight: 600, margin: "12px 0 6px" }}>Delivery</div>
+      <select
+        value={settings.digest}
+        onChange={(e) => setSettings({ ...settings, digest: e.target.value as NotificationDigest })}
+        style={{ width: "100%", padding: "6px 8px", borderRadius: "6px", border: "1px solid #cbd5e1", fontSize: "13px" }}
+      >
+        {DIGEST_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+      <div style={styles.meta}>
+        With a digest, new notifications are listed here without raising the badge, and a summary arrives once a {settings.digest === "weekly" ? "week" : "day"}.
+      </div>
+      <div style={{ display: "flex", gap: "8px", marginTop: "12px" }}>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving}
+          style={{ padding: "6px 12px", borderRadius: "4px", border: "none", backgroundColor: "#2563eb", color: "#fff", fontWeight: 600, cursor: saving ? "not-allowed" : "pointer" }}
+        >
+          {saving ? "Saving..." : "Save"}
+        </button>
+        <button
+          type="button"
+          onClick={onDone}
+          style={{ padding: "6px 12px", borderRadius: "4px", border: "none", backgroundColor: "#f1f5f9", color: "#64748b", cursor: "pointer" }}
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default function NotificationBell() {
+  const { data: session } = useSession();
+  const [open, setOpen] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [notifications, setNotifications] = useState<UserNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  // Bumped when the panel opens to fetch the latest right away
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  // Fetch periodically (every 30 seconds) for the badge
+  useEffect(() => {
+    if (!session?.user?.id) return;
+    const fetchLatest = async () => {
+      try {
+        const data = await loadNotifications();
+        if (data) {
+          setNotifications(data.notifications);
+          setUnreadCount(data.unreadCount);
+        }
+      } catch {
+        // Silent fail for background fetch
+      }
+    };
+
+    fetchLatest();
+    const interval = setInterval(fetchLatest, 30000);
+    return () => clearInterval(interval);
+  }, [session?.user?.id, refreshKey]);
+
+  // Close when clicking outside the panel
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (event: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(event.target as Node)) {
+        setOpen(false);
+        setShowSettings(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [open]);
+
+  const handleOpen = (notification: UserNotification) => {
+    if (!notification.read) {
+      setNotifications((prev) => prev.map((n) => (n.id === notification.id ? { ...n, read: true } : n)));
+      if (!notification.pendingDigest) setUnreadCount((count) => Math.max(0, count - 1));
+      markRead([notification.id]).catch(() => {});
+    }
+    // Links navigate away; notifications without one (digests) stay open to read
+    if (notification.link) setOpen(false);
+  };
+
+  const handleMarkAllRead = async () => {
+    const count = await markRead().catch(() => null);
+    if (count === null) {
+      toast.error("Failed to mark notifications read");
+      return;
+    }
+    setNotifications((prev) => prev.map((n) => ({ ...n, read: true })));
+    setUnreadCount(count);
+  };
+
+  if (!session?.user) return null;
+
+  return (
+    <div ref={panelRef}>
+      <button
+        type="button"
+        onClick={() => {
+          setOpen(!open);
+          setShowSettings(false);
+          if (!open) setRefreshKey((key) => key + 1);
+        }}
+        style={styles.bellButton}
+        title={unreadCount > 0 ? `${unreadCount} unread notification${unreadCount === 1 ? "" : "s"}` : "Notifications"}
+        aria-label="Notifications"
+      >
+        <Bell size={18} />
+        {unreadCount > 0 && (
+          <span style={styles.badge}>{unreadCount > 99 ? "99+" : unreadCount}</span>
+        )}
+      </button>
+
+      {open && (
+        <div style={styles.panel}>
+          <div style={styles.panelHeader}>
+            <strong style={{ fontSize: "14px" }}>{showSettings ? "Notification settings" : "Notifications"}</strong>
+            {!showSettings && (
+              <div style={{ display: "flex", gap: "12px" }}>
+                {unreadCount > 0 && (
+                  <button type="button" onClick={handleMarkAllRead} style={styles.linkButton}>
+                    Mark all read
+                  </button>
+                )}
+                <button type="button" onClick={() => setShowSettings(true)} style={styles.linkButton}>
+                  Settings
+                </button>
+              </div>
+            )}
+          </div>
+
+          {showSettings ? (
+            <NotificationSettings onDone={() => setShowSettings(false)} />
+          ) : notifications.length === 0 ? (
+            <div style={styles.empty}>No notifications yet</div>
+          ) : (
+            <div style={{ overflowY: "auto" }}>
+              {notifications.map((notification) => {
+                const content = (
+                  <div style={{ display: "flex", gap: "8px", alignItems: "flex-start" }}>
+                    <span style={{
+                      width: "8px",
+                      height: "8px",
+                      borderRadius: "50%",
+                      marginTop: "5px",
+                      flexShrink: 0,
+                      backgroundColor: notification.read ? "transparent" : notification.pendingDigest ? "#cbd5e1" : "#2563eb",
+                    }} />
+                    <div style={{ minWidth: 0 }}>
+                      <div style={{ fontSize: "13px", fontWeight: notification.read ? 400 : 600 }}>
+                        {notification.title}
+                      </div>
+                      {notification.body && (
+                        <div style={{
+                          fontSize: "12px",
+                          color: "#64748b",
+                          marginTop: "2px",
+                          whiteSpace: "pre-line",
+                          overflow: "hidden",
+                          display: "-webkit-box",
+                          WebkitLineClamp: notification.type === "DIGEST" ? 12 : 2,
+                          WebkitBoxOrient: "vertical",
+                        }}>
+                          {notification.body}
+                        </div>
+                      )}
+                      <div style={styles.meta}>
+                        {timeAgo(notification.createdAt)}
+                        {notification.pendingDigest && " • in your next digest"}
+                      </div>
+                    </div>
+                  </div>
+                );
+                return notification.link ? (
+                  <Link
+                    key={notification.id}
+                    href={notification.link}
+                    onClick={() => handleOpen(notification)}
+                    style={{ ...styles.item, backgroundColor: notification.read ? "#fff" : "#f8fafc" }}
+                  >
+                    {content}
+                  </Link>
+                ) : (
+                  <div
+                    key={notification.id}
+                    onClick={() => handleOpen(notification)}
+                    style={{ ...styles.item, backgroundColor: notification.read ? "#fff" : "#f8fafc" }}
+                  >
+                    {content}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
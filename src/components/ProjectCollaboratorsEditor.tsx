@@ -0,0 +1,207 @@
+"use client";
+
+import { useState } from "react";
+import UserSelector, { SelectableUser } from "@/components/UserSelector";
+import type { ProjectCollaborator, ProjectCollaboratorRole, ProjectVisibility } from "@/types/bulkProject";
+
+type Props = {
+  visibility: ProjectVisibility;
+  collaborators: ProjectCollaborator[];
+  onVisibilityChange: (visibility: ProjectVisibility) => void;
+  onCollaboratorsChange: (collaborators: ProjectCollaborator[]) => void;
+  ownerId?: string; // The owner already has full access and can't be added
+  readOnly?: boolean;
+  disabled?: boolean;
+};
+
+export const VISIBILITY_OPTIONS: { value: ProjectVisibility; label: string; description: string }[] = [
+  { value: "PRIVATE", label: "Private", description: "Only the owner and collaborators can open it" },
+  { value: "TEAM", label: "Team", description: "People in the owner's SSO groups can view it" },
+  { value: "ORG", label: "Organization", description: "Everyone can view it" },
+];
+
+const ROLE_OPTIONS: { value: ProjectCollaboratorRole; label: string; description: string }[] = [
+  { value: "EDITOR", label: "Editor", description: "Edits questions and answers, runs generation" },
+  { value: "REVIEWER", label: "Reviewer", description: "Approves, flags and corrects answers" },
+  { value: "VIEWER", label: "Viewer", description: "Read-only" },
+];
+
+const styles = {
+  section: {
+    marginTop: "12px",
+  },
+  label: {
+    display: "block",
+    fontWeight: 600,
+    fontSize: "14px",
+    marginBottom: "6px",
+  },
+  visibilityRow: {
+    display: "flex",
+    gap: "8px",
+    flexWrap: "wrap" as const,
+  },
+  visibilityOption: {
+    flex: "1 1 160px",
+    padding: "8px 10px",
+    borderRadius: "6px",
+    border: "1px solid #cbd5e1",
+    backgroundColor: "#fff",
+    cursor: "pointer",
+    textAlign: "left" as const,
+  },
+  visibilitySelected: {
+    borderColor: "#2563eb",
+    backgroundColor: "#eff6ff",
+  },
+  hint: {
+    color: "#64748b",
+    fontSize: "12px",
+  },
+  collaboratorRow: {
+    display: "flex",
+    alignItems: "center",
+    gap: "8px",
+    padding: "6px 0",
+    borderBottom: "1px solid #f1f5f9",
+  },
+  select: {
+    padding: "4px 8px",
+    borderRadius: "4px",
+    border: "1px solid #cbd5e1",
+    fontSize: "13px",
+  },
+  smallButton: {
+    padding: "4px 10px",
+    borderRadius: "4px",
+    border: "1px solid #e2e8f0",
+    backgroundColor: "#f8fafc",
+    fontSize: "12px",
+    cursor: "pointer",
+  },
+};
+
+/**
+ * Visibility picker and collaborator list with per-user roles. Controlled:
+ * the caller decides when changes are saved.
+ */
+export default function ProjectCollaboratorsEditor({
+  visibility,
+  collaborators,
+  onVisibilityChange,
+  onCollaboratorsChange,
+  ownerId,
+  readOnly = false,
+  disabled = false,
+}: Props) {
+  const [isAdding, setIsAdding] = useState(false);
+
+  const handleAdd = (user: SelectableUser) => {
+    onCollaboratorsChange([
+      ...collaborators,
+      { userId: user.id, role: "EDITOR", name: user.name, email: user.email },
+    ]);
+    setIsAdding(false);
+  };
+
+  const handleRoleChange = (userId: string, role: ProjectCollaboratorRole) => {
+    onCollaboratorsChange(collaborators.map((c) => (c.userId === userId ? { ...c, role } : c)));
+  };
+
+  const handleRemove = (userId: string) => {
+    onCollaboratorsChange(collaborators.filter((c) => c.userId !== userId));
+  };
+
+  return (
+    <div>
+      <div style={styles.section}>
+        <span style={styles.label}>Visibility</span>
+        <div style={styles.visibilityRow}>
+          {VISIBILITY_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => onVisibilityChange(option.value)}
+              disabled={readOnly || disabled}
+              style={{
+                ...styles.visibilityOption,
+                ...(visibility === option.value ? styles.visibilitySelected : {}),
+                cursor: readOnly || disabled ? "default" : "pointer",
+              }}
+            >
+              <div style={{ fontWeight: 600, fontSize: "13px" }}>{option.label}</div>
+              <div style={styles.hint}>{option.description}</div>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div style={styles.section}>
+        <span style={styles.label}>Collaborators</span>
+        {collaborators.length === 0 && (
+          <p style={{ ...styles.hint, margin: "4px 0" }}>No collaborators yet.</p>
+        )}
+        {collaborators.map((collaborator) => (
+          <div key={collaborator.userId} style={styles.collaboratorRow}>
+            <span style={{ flex: 1, fontSize: "14px" }}>
+              {collaborator.name || collaborator.email || "Unknown user"}
+              {collaborator.name && collaborator.email && (
+                <span style={{ ...styles.hint, marginLeft: "6px" }}>{collaborator.email}</span>
+              )}
+            </span>
+            {readOnly ? (
+              <span style={styles.hint}>
+                {ROLE_OPTIONS.find((option) => option.value === collaborator.role)?.label}
+              </span>
+            ) : (
+              <>
+                <select
+                  value={collaborator.role}
+                  onChange={(event) => handleRoleChange(collaborator.userId, event.target.value as ProjectCollaboratorRole)}
+                  disabled={disabled}
+                  style={styles.select}
+                  aria-label="Collaborator role"
+                >
+                  {ROLE_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value} title={option.description}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => handleRemove(collaborator.userId)}
+                  disabled={disabled}
+                  style={{ ...styles.smallButton, color: "#dc2626" }}
+                >
+                  Remove
+                </button>
+              </>
+            )}
+          </div>
+        ))}
+
+        {!readOnly && (
+          <div style={{ marginTop: "8px" }}>
+            {isAdding ? (
+              <UserSelector
+                onSelect={handleAdd}
+                onCancel={() => setIsAdding(false)}
+                excludeUserIds={[...collaborators.map((c) => c.userId), ...(ownerId ? [ownerId] : [])]}
+                disabled={disabled}
+                placeholder="Search for a collaborator..."
+              />
+            ) : (
+              <button type="button" onClick={() => setIsAdding(true)} disabled={disabled} style={styles.smallButton}>
+                + Add collaborator
+              </button>
+            )}
+          </div>
+        )}
+        <p style={{ ...styles.hint, marginTop: "8px" }}>
+          {ROLE_OPTIONS.map((option) => `${option.label}: ${option.description.toLowerCase()}`).join(" · ")}
+        </p>
+      </div>
+    </div>
+  );
+}
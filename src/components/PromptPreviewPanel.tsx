@@ -49,6 +49,8 @@ const contextLabels: Record<PromptContext, string> = {
   prompt_optimize: "Optimize",
   instruction_builder: "Instruction Builder",
   collateral_planning: "Collateral",
+  questionnaire_extract: "PDF Import",
+  knowledge_gaps: "Gaps",
 };
 
 const contextColors: Record<PromptContext, { bg: string; border: string; text: string }> = {
@@ -65,6 +67,8 @@ const contextColors: Record<PromptContext, { bg: string; border: string; text: s
   prompt_optimize: { bg: "#f0f9ff", border: "#7dd3fc", text: "#0284c7" },
   instruction_builder: { bg: "#fdf2f8", border: "#fbcfe8", text: "#db2777" },
   collateral_planning: { bg: "#eef2ff", border: "#c7d2fe", text: "#4f46e5" },
+  questionnaire_extract: { bg: "#fff7ed", border: "#fed7aa", text: "#c2410c" },
+  knowledge_gaps: { bg: "#f0fdfa", border: "#99f6e4", text: "#0f766e" },
 };
 
 export default function PromptPreviewPanel({
@@ -8,6 +8,7 @@ interface ReviewCounts {
   pending: number;
   approved: number;
   corrected: number;
+  stale?: number;
 }
 
 const styles = {
@@ -45,11 +46,19 @@ const styles = {
     borderLeft: "3px solid transparent",
     textDecoration: "none",
   },
+  workload: {
+    display: "block",
+    fontSize: "11px",
+    color: "#94a3b8",
+    marginTop: "2px",
+  },
 };
 
 export default function ReviewInbox() {
   const { data: session } = useSession();
   const [counts, setCounts] = useState<ReviewCounts>({ pending: 0, approved: 0, corrected: 0 });
+  // Open reviews assigned to this user specifically (excludes unassigned requests)
+  const [assignedCount, setAssignedCount] = useState(0);
 
   // Fetch counts periodically (every 30 seconds) for badge
   useEffect(() => {
@@ -61,6 +70,11 @@ export default function ReviewInbox() {
           const data = await response.json();
           setCounts(data.data?.counts || { pending: 0, approved: 0, corrected: 0 });
         }
+        const workloadResponse = await fetch("/api/reviews/workload");
+        if (workloadResponse.ok) {
+          const workload = await workloadResponse.json();
+          setAssignedCount(workload.data?.mine || 0);
+        }
       } catch (error) {
         // Silent fail for background fetch
       }
@@ -91,6 +105,12 @@ export default function ReviewInbox() {
             <span style={styles.badge}>{counts.pending > 99 ? "99+" : counts.pending}</span>
           )}
         </span>
+        {assignedCount > 0 && (
+          <span style={styles.workload}>{assignedCount} assigned to you</span>
+        )}
+        {(counts.stale ?? 0) > 0 && (
+          <span style={styles.workload}>{counts.stale} possibly stale</span>
+        )}
       </Link>
     </div>
   );
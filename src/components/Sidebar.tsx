@@ -7,6 +7,8 @@ import { useSession, signIn, signOut } from "next-auth/react";
 import { useBranding } from "@/lib/branding";
 import { features } from "@/lib/featureFlags";
 import ReviewInbox from "./ReviewInbox";
+import CommandPalette from "./CommandPalette";
+import NotificationBell from "./NotificationBell";
 
 type NavItem = {
   href: string;
@@ -109,15 +111,18 @@ export default function Sidebar() {
       flexDirection: "column",
     }}>
       <div style={{ padding: "0 20px", marginBottom: "32px" }}>
-        <Link href="/" style={{
-          fontSize: "20px",
-          fontWeight: 700,
-          color: "#fff",
-          textDecoration: "none",
-          display: "block",
-        }}>
-          {branding.appName}
-        </Link>
+        <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: "8px" }}>
+          <Link href="/" style={{
+            fontSize: "20px",
+            fontWeight: 700,
+            color: "#fff",
+            textDecoration: "none",
+            display: "block",
+          }}>
+            {branding.appName}
+          </Link>
+          <NotificationBell />
+        </div>
         <p style={{
           fontSize: "12px",
           color: "#94a3b8",
@@ -128,6 +133,13 @@ export default function Sidebar() {
         </p>
       </div>
 
+      {/* Global search */}
+      {session?.user && (
+        <div style={{ padding: "0 20px", marginTop: "-16px", marginBottom: "24px" }}>
+          <CommandPalette />
+        </div>
+      )}
+
       <nav style={{ flex: 1 }}>
         {visibleNavItems.map((section) => (
           <div key={section.section} style={{ marginBottom: "24px" }}>
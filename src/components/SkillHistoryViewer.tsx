@@ -1,12 +1,28 @@
 'use client';
 
 import { useState } from 'react';
-import { SkillHistoryEntry } from '@/types/skill';
+import ReactDiffViewer, { DiffMethod } from 'react-diff-viewer-continued';
+import { toast } from 'sonner';
+import { useApiMutation, useApiQuery } from '@/hooks/use-api';
+import { knowledgeQueryKeys } from '@/hooks/use-knowledge-data';
+import { useConfirm } from '@/components/ConfirmModal';
+import { Skill, SkillHistoryEntry, SkillVersionEntry } from '@/types/skill';
 
 interface SkillHistoryViewerProps {
   history: SkillHistoryEntry[];
+  /** When set, saved versions are listed below the timeline with diffs and rollback */
+  skillId?: string;
 }
 
+interface SkillVersionHistoryProps {
+  skillId: string;
+}
+
+type SkillVersionsResponse = {
+  currentVersion: number;
+  versions: SkillVersionEntry[];
+};
+
 const styles = {
   container: {
     marginTop: '12px',
@@ -86,6 +102,61 @@ const styles = {
     fontStyle: 'italic' as const,
     marginTop: '8px',
   },
+  versionList: {
+    marginTop: '8px',
+    display: 'flex',
+    flexDirection: 'column' as const,
+    gap: '4px',
+  },
+  versionRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    width: '100%',
+    padding: '6px 8px',
+    border: '1px solid #e2e8f0',
+    borderRadius: '4px',
+    textAlign: 'left' as const,
+    cursor: 'pointer',
+    fontSize: '12px',
+    color: '#334155',
+  },
+  versionNumber: {
+    fontWeight: 600,
+    minWidth: '32px',
+  },
+  versionMeta: {
+    color: '#64748b',
+    marginLeft: 'auto',
+    flexShrink: 0,
+  },
+  diffPanel: {
+    marginTop: '8px',
+    border: '1px solid #e2e8f0',
+    borderRadius: '4px',
+    overflow: 'hidden',
+    fontSize: '12px',
+  },
+  diffToolbar: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: '6px 8px',
+    backgroundColor: '#fff',
+    borderBottom: '1px solid #e2e8f0',
+    fontSize: '12px',
+    color: '#475569',
+  },
+  restoreBtn: {
+    padding: '4px 10px',
+    fontSize: '12px',
+    fontWeight: 500,
+    color: '#fff',
+    backgroundColor: '#2563eb',
+    border: 'none',
+    borderRadius: '4px',
+    cursor: 'pointer',
+  },
 };
 
 const actionColors: Record<string, { bg: string; text: string; dot: string }> = {
@@ -94,6 +165,7 @@ const actionColors: Record<string, { bg: string; text: string; dot: string }> =
   refreshed: { bg: '#e0e7ff', text: '#3730a3', dot: '#6366f1' },
   owner_added: { bg: '#fef9c3', text: '#854d0e', dot: '#eab308' },
   owner_removed: { bg: '#fee2e2', text: '#991b1b', dot: '#ef4444' },
+  rollback: { bg: '#ffedd5', text: '#9a3412', dot: '#f97316' },
 };
 
 const actionLabels: Record<string, string> = {
@@ -102,9 +174,142 @@ const actionLabels: Record<string, string> = {
   refreshed: 'Refreshed',
   owner_added: 'Owner Added',
   owner_removed: 'Owner Removed',
+  rollback: 'Rolled Back',
 };
 
-export default function SkillHistoryViewer({ history }: SkillHistoryViewerProps) {
+// Plain-text rendering of a version, used as diff input
+function formatVersionText(version: SkillVersionEntry): string {
+  const sections = [`# ${version.title}`, version.content];
+  if (version.quickFacts?.length) {
+    sections.push('## Quick Facts', version.quickFacts.map((fact) => `- ${fact.question}: ${fact.answer}`).join('\n'));
+  }
+  if (version.edgeCases.length) {
+    sections.push('## Edge Cases', version.edgeCases.map((edgeCase) => `- ${edgeCase}`).join('\n'));
+  }
+  if (version.categories.length) {
+    sections.push(`Categories: ${version.categories.join(', ')}`);
+  }
+  return sections.join('\n\n');
+}
+
+/**
+ * Saved versions of a skill. Selecting an older version shows what changed
+ * between it and the current version, and it can be restored in one click
+ * (the restore is recorded as a new version).
+ */
+export function SkillVersionHistory({ skillId }: SkillVersionHistoryProps) {
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const { confirm, ConfirmDialog } = useConfirm({
+    title: 'Restore version',
+    message: '',
+    confirmLabel: 'Restore',
+    variant: 'warning',
+  });
+
+  const { data, isLoading, error } = useApiQuery<SkillVersionsResponse>({
+    queryKey: ['skill-versions', skillId],
+    url: `/api/skills/${skillId}/versions`,
+  });
+
+  const rollback = useApiMutation<Skill, { version: number }>({
+    url: `/api/skills/${skillId}/rollback`,
+    method: 'POST',
+    responseKey: 'skill',
+    invalidateKeys: [['skill-versions', skillId], knowledgeQueryKeys.skills],
+    onSuccess: (skill) => {
+      setSelectedVersion(null);
+      toast.success(`Restored as version ${skill.version}`);
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  if (isLoading) {
+    return <p style={styles.emptyText}>Loading versions...</p>;
+  }
+  if (error) {
+    return <p style={{ ...styles.emptyText, color: '#dc2626' }}>{error.message}</p>;
+  }
+
+  const versions = data?.versions || [];
+  if (versions.length === 0) {
+    return <p style={styles.emptyText}>No saved versions</p>;
+  }
+
+  const current = versions[0];
+  const selected = versions.find((version) => version.version === selectedVersion);
+
+  const handleRestore = async (version: number) => {
+    const ok = await confirm({
+      message: `Replace the current content (v${current.version}) with version ${version}? The current content stays in the history.`,
+    });
+    if (ok) {
+      rollback.mutate({ version });
+    }
+  };
+
+  return (
+    <div>
+      <div style={styles.versionList}>
+        {versions.map((version) => {
+          const colors = actionColors[version.action] || actionColors.updated;
+          const isSelected = version.version === selectedVersion;
+          const isCurrent = version.version === current.version;
+          return (
+            <button
+              key={version.id}
+              type="button"
+              disabled={isCurrent}
+              onClick={() => setSelectedVersion(isSelected ? null : version.version)}
+              style={{
+                ...styles.versionRow,
+                backgroundColor: isSelected ? '#eff6ff' : '#fff',
+                cursor: isCurrent ? 'default' : 'pointer',
+              }}
+            >
+              <span style={styles.versionNumber}>v{version.version}</span>
+              <span style={{ ...styles.action, backgroundColor: colors.bg, color: colors.text }}>
+                {actionLabels[version.action] || version.action}
+              </span>
+              <span>{isCurrent ? 'Current' : version.summary || version.title}</span>
+              <span style={styles.versionMeta}>
+                {new Date(version.createdAt).toLocaleString()}
+                {version.createdBy && ` · ${version.createdBy}`}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+
+      {selected && (
+        <div style={styles.diffPanel}>
+          <div style={styles.diffToolbar}>
+            <span>
+              Changes from v{selected.version} to current (v{current.version})
+            </span>
+            <button
+              type="button"
+              onClick={() => handleRestore(selected.version)}
+              disabled={rollback.isPending}
+              style={{ ...styles.restoreBtn, opacity: rollback.isPending ? 0.6 : 1 }}
+            >
+              {rollback.isPending ? 'Restoring...' : 'Restore this version'}
+            </button>
+          </div>
+          <ReactDiffViewer
+            oldValue={formatVersionText(selected)}
+            newValue={formatVersionText(current)}
+            splitView={false}
+            compareMethod={DiffMethod.WORDS}
+            showDiffOnly
+          />
+        </div>
+      )}
+      <ConfirmDialog />
+    </div>
+  );
+}
+
+export default function SkillHistoryViewer({ history, skillId }: SkillHistoryViewerProps) {
   const [isExpanded, setIsExpanded] = useState(false);
 
   // Sort history by date, most recent first
@@ -171,6 +376,13 @@ export default function SkillHistoryViewer({ history }: SkillHistoryViewerProps)
           <p style={styles.emptyText}>No history recorded</p>
         )
       )}
+
+      {isExpanded && skillId && (
+        <div style={{ marginTop: '12px' }}>
+          <h4 style={styles.title}>Versions</h4>
+          <SkillVersionHistory skillId={skillId} />
+        </div>
+      )}
     </div>
   );
 }
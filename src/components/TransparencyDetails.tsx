@@ -2,6 +2,8 @@
 
 import { useState } from "react";
 import Link from "next/link";
+import type { RetrievedSkill } from "@/types/skill";
+import type { UsedCustomerContext } from "@/types/bulkProject";
 
 export type TransparencyData = {
   confidence?: string;
@@ -25,6 +27,12 @@ type TransparencyDetailsProps = {
   renderClarifyButton?: () => React.ReactNode;
   // Optional: pass matched skills/documents to enable linking
   knowledgeReferences?: KnowledgeReference[];
+  // Optional: skills chosen by retrieval, with relevance scores and matching chunks
+  retrievedSkills?: RetrievedSkill[];
+  // Optional: current version of each skill by ID, to point out skills updated since the answer
+  currentSkillVersions?: Record<string, number>;
+  // Optional: customer profiles and documents the answer was generated with
+  customerContext?: UsedCustomerContext;
 };
 
 // Helper to render text with clickable URL links
@@ -126,6 +134,9 @@ export default function TransparencyDetails({
   onToggle,
   renderClarifyButton,
   knowledgeReferences = [],
+  retrievedSkills = [],
+  currentSkillVersions,
+  customerContext,
 }: TransparencyDetailsProps) {
   const [expanded, setExpanded] = useState(defaultExpanded);
 
@@ -146,7 +157,9 @@ export default function TransparencyDetails({
     onToggle?.(newExpanded);
   };
 
-  const hasExpandableContent = reasoning || inference || remarks || sources || renderClarifyButton;
+  const scoredSkills = retrievedSkills.filter((skill) => typeof skill.score === "number");
+  const hasCustomerContext = (customerContext?.profiles.length ?? 0) > 0;
+  const hasExpandableContent = reasoning || inference || remarks || sources || renderClarifyButton || scoredSkills.length > 0 || hasCustomerContext;
   const confidenceStyle = getConfidenceStyle(confidence || "");
 
   return (
@@ -228,6 +241,68 @@ export default function TransparencyDetails({
               <span style={{ whiteSpace: "pre-wrap" }}>{renderWithLinks(sources)}</span>
             </div>
           )}
+          {scoredSkills.length > 0 && (
+            <div style={{ marginTop: "6px" }}>
+              <strong style={{ color: "#1e40af" }}>Retrieved knowledge:</strong>
+              <ul style={{ margin: "4px 0 0", paddingLeft: "18px" }}>
+                {scoredSkills.map((skill) => (
+                  <li key={skill.id} style={{ marginBottom: "4px" }}>
+                    <Link
+                      href={`/knowledge?highlight=${skill.id}`}
+                      style={{ color: "#2563eb", textDecoration: "underline", fontWeight: 500 }}
+                    >
+                      {skill.title}
+                    </Link>{" "}
+                    {skill.version !== undefined && (
+                      <span style={{ color: "#64748b" }}>v{skill.version} · </span>
+                    )}
+                    <span style={{ color: "#64748b" }}>score {skill.score?.toFixed(2)}</span>
+                    {skill.version !== undefined && (currentSkillVersions?.[skill.id] ?? 0) > skill.version && (
+                      <span style={{ color: "#b45309", marginLeft: "6px", fontWeight: 500 }}>
+                        updated since this answer (now v{currentSkillVersions?.[skill.id]})
+                      </span>
+                    )}
+                    {skill.chunks?.map((chunk, idx) => (
+                      <div
+                        key={idx}
+                        style={{
+                          marginTop: "2px",
+                          paddingLeft: "8px",
+                          borderLeft: "2px solid #bfdbfe",
+                          color: "#475569",
+                          whiteSpace: "pre-wrap",
+                        }}
+                      >
+                        <span style={{ color: "#64748b" }}>[{chunk.score.toFixed(2)}]</span> {chunk.text}
+                      </div>
+                    ))}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {customerContext && hasCustomerContext && (
+            <div style={{ marginTop: "6px" }}>
+              <strong style={{ color: "#1e40af" }}>Customer context:</strong>{" "}
+              {customerContext.profiles.map((profile, idx) => (
+                <span key={profile.id}>
+                  {idx > 0 && ", "}
+                  <Link
+                    href={`/customers?id=${profile.id}`}
+                    style={{ color: "#2563eb", textDecoration: "underline", fontWeight: 500 }}
+                  >
+                    {profile.name}
+                  </Link>
+                  {profile.industry && <span style={{ color: "#64748b" }}> ({profile.industry})</span>}
+                </span>
+              ))}
+              {customerContext.documents.length > 0 && (
+                <div style={{ color: "#475569" }}>
+                  Documents: {customerContext.documents.map((doc) => doc.title).join(", ")}
+                </div>
+              )}
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -1,7 +1,7 @@
 "use client";
 
 import { useRef, useEffect } from "react";
-import { Send } from "lucide-react";
+import { Send, Square } from "lucide-react";
 import { InlineLoader } from "@/components/ui/loading";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
@@ -12,6 +12,8 @@ interface ChatInputProps {
   value: string;
   onChange: (value: string) => void;
   onSend: () => void;
+  /** When provided, the send button becomes a stop button while loading */
+  onStop?: () => void;
   isLoading: boolean;
   placeholder?: string;
   quickMode?: boolean;
@@ -22,6 +24,7 @@ export function ChatInput({
   value,
   onChange,
   onSend,
+  onStop,
   isLoading,
   placeholder = "Type your message...",
   quickMode,
@@ -71,19 +74,31 @@ export function ChatInput({
             "text-base leading-relaxed"
           )}
         />
-        <Button
-          onClick={onSend}
-          disabled={!value.trim() || isLoading}
-          size="icon"
-          className="h-12 w-12 shrink-0"
-          aria-label={isLoading ? "Sending message" : "Send message"}
-        >
-          {isLoading ? (
-            <InlineLoader size="md" />
-          ) : (
-            <Send className="h-5 w-5" />
-          )}
-        </Button>
+        {isLoading && onStop ? (
+          <Button
+            onClick={onStop}
+            variant="outline"
+            size="icon"
+            className="h-12 w-12 shrink-0"
+            aria-label="Stop generating"
+          >
+            <Square className="h-4 w-4 fill-current" />
+          </Button>
+        ) : (
+          <Button
+            onClick={onSend}
+            disabled={!value.trim() || isLoading}
+            size="icon"
+            className="h-12 w-12 shrink-0"
+            aria-label={isLoading ? "Sending message" : "Send message"}
+          >
+            {isLoading ? (
+              <InlineLoader size="md" />
+            ) : (
+              <Send className="h-5 w-5" />
+            )}
+          </Button>
+        )}
       </div>
     </div>
   );
@@ -96,8 +96,10 @@ function MessageBubble({ message, sessionId, onViewTransparency, onFeedbackChang
         )}>
           {isUser ? (
             <span className="whitespace-pre-wrap">{message.content}</span>
-          ) : (
+          ) : message.content ? (
             <ReactMarkdown>{message.content}</ReactMarkdown>
+          ) : (
+            <span className="text-muted-foreground animate-pulse">Thinking...</span>
           )}
         </div>
 
@@ -1,8 +1,10 @@
+import { useCallback } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { loadSkillsFromApi } from "@/lib/skillStorage";
 import { fetchActiveProfiles } from "@/lib/customerProfileApi";
 import { loadCategoriesFromApi } from "@/lib/categoryStorage";
 import { parseApiData, getApiErrorMessage } from "@/lib/apiClient";
+import { readSSEStream } from "@/lib/sse";
 import { Skill } from "@/types/skill";
 import { ReferenceUrl } from "@/types/referenceUrl";
 import { CustomerProfile } from "@/types/customerProfile";
@@ -180,6 +182,79 @@ export function useSendMessage() {
   });
 }
 
+type StreamMessageHandlers = {
+  onDelta: (text: string) => void;
+  onTransparency?: (transparency: NonNullable<SendMessageResponse["transparency"]>) => void;
+  onMetadata?: (metadata: Omit<SendMessageResponse, "response" | "transparency">) => void;
+  signal?: AbortSignal;
+};
+
+/**
+ * Stream a chat response over server-sent events.
+ * Tokens are delivered through `onDelta`; the transparency block and the
+ * sources used arrive as separate events. Resolves with the complete response,
+ * rejects with an AbortError if `signal` is aborted.
+ */
+export function useStreamMessage() {
+  return useCallback(
+    async (params: SendMessageParams, handlers: StreamMessageHandlers): Promise<SendMessageResponse> => {
+      const res = await fetch("/api/knowledge-chat", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...params, stream: true }),
+        signal: handlers.signal,
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(getApiErrorMessage(errorData, "Failed to get response"));
+      }
+
+      const result: SendMessageResponse = { response: "" };
+      let streamError: string | null = null;
+
+      await readSSEStream(res, ({ event, data }) => {
+        switch (event) {
+          case "delta": {
+            const { text } = data as { text: string };
+            result.response += text;
+            handlers.onDelta(text);
+            break;
+          }
+          case "transparency": {
+            const { transparency, contextTruncated } = data as Pick<SendMessageResponse, "transparency" | "contextTruncated">;
+            result.transparency = transparency;
+            result.contextTruncated = contextTruncated;
+            if (transparency) handlers.onTransparency?.(transparency);
+            break;
+          }
+          case "metadata": {
+            const metadata = data as Omit<SendMessageResponse, "response" | "transparency">;
+            Object.assign(result, metadata);
+            handlers.onMetadata?.(metadata);
+            break;
+          }
+          case "done": {
+            result.response = (data as { response: string }).response;
+            break;
+          }
+          case "error": {
+            streamError = (data as { message?: string }).message || "Failed to get response";
+            break;
+          }
+        }
+      });
+
+      if (streamError) {
+        throw new Error(streamError);
+      }
+
+      return result;
+    },
+    []
+  );
+}
+
 // Save chat session mutation
 type SaveSessionParams = {
   sessionId: string | null;
@@ -47,6 +47,8 @@ export const knowledgeQueryKeys = {
   snippets: ["context-snippets"] as const,
   categories: ["categories"] as const,
   users: ["users"] as const,
+  refreshDrafts: ["skill-refresh-drafts"] as const,
+  proposals: ["skill-proposals"] as const,
 };
 
 // Stale times for caching - data stays "fresh" for this duration before refetching
@@ -221,6 +223,92 @@ export function useApplyRefreshChanges() {
   });
 }
 
+// Drafts queued by the scheduled refresh, waiting for a skill owner's review
+export type RefreshDraft = {
+  id: string;
+  skillId: string;
+  status: "PENDING" | "APPLIED" | "DISMISSED" | "SUPERSEDED";
+  baseVersion: number;
+  title: string;
+  content: string;
+  summary: string;
+  changeHighlights: string[];
+  changedUrls: string[];
+  createdAt: string;
+  skill: { id: string; title: string; content: string; version: number };
+  isOutdated: boolean;
+  canReview: boolean;
+  isOwner: boolean;
+};
+
+export function useRefreshDrafts(mine = false) {
+  return useApiQuery<RefreshDraft[]>({
+    queryKey: [...knowledgeQueryKeys.refreshDrafts, mine],
+    url: "/api/skills/refresh-drafts",
+    params: mine ? { mine: true } : undefined,
+    responseKey: "drafts",
+    transform: (data) => (Array.isArray(data) ? data : []),
+  });
+}
+
+export type ReviewRefreshDraftInput = {
+  id: string;
+  data: { status: "APPLIED" | "DISMISSED"; title?: string; content?: string };
+};
+
+export function useReviewRefreshDraft() {
+  return useApiMutation<{ draft: RefreshDraft }, ReviewRefreshDraftInput>({
+    url: (vars) => `/api/skills/refresh-drafts/${vars.id}`,
+    method: "PATCH",
+    invalidateKeys: [knowledgeQueryKeys.refreshDrafts, knowledgeQueryKeys.skills],
+  });
+}
+
+// Skill changes proposed from reviewer corrections, waiting for a skill owner's review
+export type SkillProposal = {
+  id: string;
+  type: "UPDATE" | "NEW";
+  status: "PENDING" | "ACCEPTED" | "REJECTED" | "SUPERSEDED";
+  skillId: string | null;
+  baseVersion: number | null;
+  title: string;
+  additions: string;
+  categories: string[];
+  question: string;
+  originalAnswer: string;
+  correctedAnswer: string;
+  correctedBy: string | null;
+  createdAt: string;
+  skill: { id: string; title: string; content: string; version: number } | null;
+  sourceHref: string | null;
+  isOutdated: boolean;
+  canReview: boolean;
+  isOwner: boolean;
+};
+
+export function useSkillProposals(mine = false) {
+  return useApiQuery<SkillProposal[]>({
+    queryKey: [...knowledgeQueryKeys.proposals, mine],
+    url: "/api/skills/proposals",
+    params: mine ? { mine: true } : undefined,
+    responseKey: "proposals",
+    transform: (data) => (Array.isArray(data) ? data : []),
+  });
+}
+
+export type ReviewSkillProposalInput = {
+  id: string;
+  data: { status: "ACCEPTED" | "REJECTED"; title?: string; content?: string; note?: string };
+};
+
+export function useReviewSkillProposal() {
+  return useApiMutation<{ proposal: SkillProposal }, ReviewSkillProposalInput>({
+    url: (vars) => `/api/skills/proposals/${vars.id}`,
+    method: "PATCH",
+    invalidateKeys: [knowledgeQueryKeys.proposals, knowledgeQueryKeys.skills],
+  });
+}
+
 // Helper types for unified library items
 export type LibraryItemType = "skill" | "document" | "url" | "customer" | "snippet";
 
@@ -0,0 +1,25 @@
+/**
+ * Next.js instrumentation hook - runs once when a server instance starts.
+ * Starts the background worker that processes persisted project jobs, the
+ * periodic Salesforce re-sync of linked customer profiles, the stale-answer check, the scheduled
+ * refresh of skills from their source URLs and the notification digests. In development it also reports API
+ * routes missing from the route permission manifest.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startJobWorker } = await import("@/lib/projectJobs");
+    startJobWorker();
+    const { startSalesforceSyncScheduler } = await import("@/lib/salesforce");
+    startSalesforceSyncScheduler();
+    const { startStaleAnswerScheduler } = await import("@/lib/staleAnswers");
+    startStaleAnswerScheduler();
+    const { startSkillRefreshScheduler } = await import("@/lib/skillRefresh");
+    startSkillRefreshScheduler();
+    const { startNotificationDigestScheduler } = await import("@/lib/notifications");
+    startNotificationDigestScheduler();
+    if (process.env.NODE_ENV !== "production") {
+      const { checkRoutePermissionManifest } = await import("@/lib/routePermissionsCheck");
+      checkRoutePermissionManifest();
+    }
+  }
+}
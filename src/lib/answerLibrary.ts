@@ -0,0 +1,272 @@
+import { prisma } from "@/lib/prisma";
+import { tokenize } from "@/lib/retrieval";
+import type { PriorAnswerMatch } from "@/types/bulkProject";
+
+/**
+ * Answer Library
+ *
+ * Indexes answers that a reviewer has APPROVED or CORRECTED - from project rows
+ * (BulkRow) and single-question history (QuestionHistory) - so new projects can
+ * reuse them instead of calling the LLM again. Corrected answers use the
+ * reviewer's edited text.
+ *
+ * Questions are matched by TF-IDF cosine similarity over the same tokens the
+ * skill retriever uses, so "SSO" and "single sign-on" still match.
+ */
+
+export type PriorAnswer = Omit<PriorAnswerMatch, "score">;
+
+export type PriorAnswerSearchOptions = {
+  limit?: number;
+  minScore?: number;
+  excludeProjectId?: string; // Don't suggest rows from the project being answered
+  projectIds?: Set<string> | null; // Only suggest rows from these projects (null for all)
+};
+
+const DEFAULT_LIMIT = 3;
+const DEFAULT_MIN_SCORE = 0.6;
+
+// Most recently reviewed answers loaded per source
+const MAX_LIBRARY_ANSWERS = 5000;
+
+// The library is rebuilt at most this often per server instance
+const LIBRARY_CACHE_TTL_MS = 60 * 1000;
+
+const REVIEWED_STATUSES = ["APPROVED", "CORRECTED"] as const;
+
+type IndexedAnswer = {
+  answer: PriorAnswer;
+  weights: Map<string, number>;
+  norm: number;
+};
+
+function termFrequencies(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const token of tokenize(text, { collapseSynonyms: true })) {
+    counts.set(token, (counts.get(token) || 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * In-memory similarity index over reviewed answers
+ */
+export class PriorAnswerIndex {
+  private readonly entries: IndexedAnswer[];
+  private readonly idf = new Map<string, number>();
+  private readonly defaultIdf: number;
+
+  constructor(answers: PriorAnswer[]) {
+    const frequencies = answers.map((answer) => termFrequencies(answer.question));
+
+    const docFreq = new Map<string, number>();
+    for (const tf of frequencies) {
+      for (const token of tf.keys()) {
+        docFreq.set(token, (docFreq.get(token) || 0) + 1);
+      }
+    }
+    const total = answers.length;
+    for (const [token, df] of docFreq) {
+      this.idf.set(token, Math.log((total + 1) / (df + 1)) + 1);
+    }
+    this.defaultIdf = Math.log(total + 1) + 1;
+
+    this.entries = answers.map((answer, i) => {
+      const weights = this.weigh(frequencies[i]);
+      return { answer, weights, norm: vectorNorm(weights) };
+    });
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  private weigh(tf: Map<string, number>): Map<string, number> {
+    const weights = new Map<string, number>();
+    for (const [token, count] of tf) {
+      weights.set(token, (1 + Math.log(count)) * (this.idf.get(token) ?? this.defaultIdf));
+    }
+    return weights;
+  }
+
+  /**
+   * Best-matching reviewed answers for a question, highest score first
+   */
+  search(question: string, options: PriorAnswerSearchOptions = {}): PriorAnswerMatch[] {
+    const { limit = DEFAULT_LIMIT, minScore = DEFAULT_MIN_SCORE, excludeProjectId, projectIds } = options;
+
+    const query = this.weigh(termFrequencies(question));
+    const queryNorm = vectorNorm(query);
+    if (!queryNorm) return [];
+
+    const matches: PriorAnswerMatch[] = [];
+    const seenAnswers = new Set<string>();
+
+    const scored = this.entries
+      .filter(({ answer }) => !excludeProjectId || answer.projectId !== excludeProjectId)
+      .filter(({ answer }) => !projectIds || !answer.projectId || projectIds.has(answer.projectId))
+      .map((entry) => {
+        let dot = 0;
+        for (const [token, weight] of query) {
+          const other = entry.weights.get(token);
+          if (other) dot += weight * other;
+        }
+        return { entry, score: entry.norm ? dot / (queryNorm * entry.norm) : 0 };
+      })
+      .filter((item) => item.score >= minScore)
+      .sort((a, b) => b.score - a.score);
+
+    for (const { entry, score } of scored) {
+      // The same approved answer is often reused across projects - show it once
+      const key = entry.answer.answer.trim().toLowerCase();
+      if (seenAnswers.has(key)) continue;
+      seenAnswers.add(key);
+
+      matches.push({ ...entry.answer, score: Math.round(score * 1000) / 1000 });
+      if (matches.length >= limit) break;
+    }
+
+    return matches;
+  }
+}
+
+function vectorNorm(weights: Map<string, number>): number {
+  let sum = 0;
+  for (const weight of weights.values()) sum += weight * weight;
+  return Math.sqrt(sum);
+}
+
+const PROJECT_ROW_SELECT = {
+  id: true,
+  question: true,
+  response: true,
+  userEditedAnswer: true,
+  confidence: true,
+  sources: true,
+  reviewStatus: true,
+  reviewedBy: true,
+  reviewedAt: true,
+  project: { select: { id: true, name: true, customerName: true } },
+} as const;
+
+const HISTORY_SELECT = {
+  id: true,
+  question: true,
+  response: true,
+  userEditedAnswer: true,
+  confidence: true,
+  sources: true,
+  reviewStatus: true,
+  reviewedBy: true,
+  reviewedAt: true,
+} as const;
+
+type ReviewedRecord = {
+  id: string;
+  question: string;
+  response: string;
+  userEditedAnswer: string | null;
+  confidence: string | null;
+  sources: string | null;
+  reviewStatus: string;
+  reviewedBy: string | null;
+  reviewedAt: Date | null;
+  project?: { id: string; name: string; customerName: string | null };
+};
+
+function toPriorAnswer(record: ReviewedRecord): PriorAnswer {
+  return {
+    sourceType: record.project ? "project" : "question",
+    sourceId: record.id,
+    question: record.question,
+    answer: record.userEditedAnswer?.trim() || record.response,
+    confidence: record.confidence,
+    sources: record.sources,
+    reviewStatus: record.reviewStatus as PriorAnswer["reviewStatus"],
+    reviewedBy: record.reviewedBy,
+    reviewedAt: record.reviewedAt?.toISOString() ?? null,
+    projectId: record.project?.id ?? null,
+    projectName: record.project?.name ?? null,
+    customerName: record.project?.customerName ?? null,
+  };
+}
+
+/**
+ * Load reviewed answers from project rows and question history
+ */
+export async function loadPriorAnswers(): Promise<PriorAnswer[]> {
+  const where = { reviewStatus: { in: [...REVIEWED_STATUSES] } };
+  const [rows, history] = await Promise.all([
+    prisma.bulkRow.findMany({
+      where,
+      select: PROJECT_ROW_SELECT,
+      orderBy: { reviewedAt: "desc" },
+      take: MAX_LIBRARY_ANSWERS,
+    }),
+    prisma.questionHistory.findMany({
+      where,
+      select: HISTORY_SELECT,
+      orderBy: { reviewedAt: "desc" },
+      take: MAX_LIBRARY_ANSWERS,
+    }),
+  ]);
+
+  return [...rows, ...history]
+    .map(toPriorAnswer)
+    .filter((answer) => answer.question.trim() && answer.answer.trim());
+}
+
+let cachedIndex: { index: PriorAnswerIndex; loadedAt: number } | null = null;
+
+/**
+ * Get the shared index, rebuilding it when the cache has expired
+ */
+export async function getPriorAnswerIndex(): Promise<PriorAnswerIndex> {
+  if (cachedIndex && Date.now() - cachedIndex.loadedAt < LIBRARY_CACHE_TTL_MS) {
+    return cachedIndex.index;
+  }
+  const index = new PriorAnswerIndex(await loadPriorAnswers());
+  cachedIndex = { index, loadedAt: Date.now() };
+  return index;
+}
+
+/**
+ * Drop the cached index (e.g. after a review so the new answer is reusable immediately)
+ */
+export function invalidatePriorAnswerIndex(): void {
+  cachedIndex = null;
+}
+
+/**
+ * Find prior reviewed answers for several questions at once.
+ * Returns matches keyed by the caller's question id; questions without matches are omitted.
+ */
+export async function findPriorAnswers(
+  questions: { id: string; question: string }[],
+  options: PriorAnswerSearchOptions = {}
+): Promise<Record<string, PriorAnswerMatch[]>> {
+  const index = await getPriorAnswerIndex();
+  const result: Record<string, PriorAnswerMatch[]> = {};
+  if (index.size === 0) return result;
+
+  for (const { id, question } of questions) {
+    const matches = index.search(question, options);
+    if (matches.length > 0) result[id] = matches;
+  }
+  return result;
+}
+
+/**
+ * Look up one reviewed answer by source, for copying into a row.
+ * Returns null if it no longer exists or is no longer approved/corrected.
+ */
+export async function getPriorAnswer(
+  sourceType: PriorAnswer["sourceType"],
+  sourceId: string
+): Promise<PriorAnswer | null> {
+  const where = { id: sourceId, reviewStatus: { in: [...REVIEWED_STATUSES] } };
+  const record = sourceType === "project"
+    ? await prisma.bulkRow.findFirst({ where, select: PROJECT_ROW_SELECT })
+    : await prisma.questionHistory.findFirst({ where, select: HISTORY_SELECT });
+  return record ? toPriorAnswer(record) : null;
+}
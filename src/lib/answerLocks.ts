@@ -0,0 +1,91 @@
+import type { Prisma, PrismaClient } from "@prisma/client";
+import type { AuditUser } from "@/lib/auditLog";
+
+/**
+ * Answer Locks
+ *
+ * A locked row keeps its answer exactly as it was signed off: the response,
+ * review fields and corrections can't be edited, autosave won't overwrite or
+ * delete it, and background answering jobs skip it. Flags stay open so people
+ * can still point out problems with a locked answer.
+ *
+ * Rows are locked individually or all at once through the project lock, which
+ * is taken automatically when a project moves to FINALIZED. A project lock
+ * covers every row, so a single row can't be unlocked while its project is
+ * locked; unlocking the project leaves rows that were locked on their own. Unlocking needs REVIEW_ANSWERS and a reason (enforced by the routes).
+ */
+
+type LockClient = PrismaClient | Prisma.TransactionClient;
+
+export type LockState = {
+  locked: boolean;
+  lockedAt?: Date | null;
+  lockedBy?: string | null;
+  lockReason?: string | null;
+};
+
+// Row fields that may still change on a locked row
+export const LOCK_EXEMPT_FIELDS = ["flaggedForReview", "flagNote", "flagResolved", "flagResolutionNote"];
+
+export const FINALIZED_LOCK_REASON = "Project finalized";
+
+export function isRowLocked(row: LockState, project?: LockState | null): boolean {
+  return row.locked || Boolean(project?.locked);
+}
+
+/**
+ * Fields in a row update that a lock forbids
+ */
+export function getBlockedLockedFields(body: Record<string, unknown>): string[] {
+  return Object.keys(body).filter((key) => body[key] !== undefined && !LOCK_EXEMPT_FIELDS.includes(key));
+}
+
+export function buildLockData(user: AuditUser | undefined, reason?: string | null) {
+  return {
+    locked: true,
+    lockedAt: new Date(),
+    lockedBy: user?.name || user?.email || "Unknown",
+    lockedById: user?.id ?? null,
+    lockReason: reason || null,
+  };
+}
+
+export const UNLOCK_DATA = {
+  locked: false,
+  lockedAt: null,
+  lockedBy: null,
+  lockedById: null,
+  lockReason: null,
+};
+
+/**
+ * Lock a project and every row in it. Returns how many rows were newly locked.
+ */
+export async function lockProjectAnswers(
+  client: LockClient,
+  projectId: string,
+  user: AuditUser | undefined,
+  reason?: string | null
+): Promise<number> {
+  const data = buildLockData(user, reason);
+  await client.bulkProject.update({ where: { id: projectId }, data });
+  const { count } = await client.bulkRow.updateMany({ where: { projectId, locked: false }, data });
+  return count;
+}
+
+/**
+ * Release a project lock along with the row locks it took. Rows locked on
+ * their own stay locked; the project lock's rows share its lock time.
+ * Returns how many rows were unlocked.
+ */
+export async function unlockProjectAnswers(client: LockClient, projectId: string): Promise<number> {
+  const project = await client.bulkProject.findUnique({ where: { id: projectId }, select: { lockedAt: true } });
+  await client.bulkProject.update({ where: { id: projectId }, data: UNLOCK_DATA });
+  if (!project?.lockedAt) return 0;
+
+  const { count } = await client.bulkRow.updateMany({
+    where: { projectId, locked: true, lockedAt: project.lockedAt },
+    data: UNLOCK_DATA,
+  });
+  return count;
+}
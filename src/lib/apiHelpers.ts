@@ -1,19 +1,6 @@
-import Anthropic from "@anthropic-ai/sdk";
 import { validateUrlForSSRF } from "@/lib/ssrfProtection";
 import { logger } from "@/lib/logger";
 
-/**
- * Get an initialized Anthropic client.
- * Throws if ANTHROPIC_API_KEY is not configured.
- */
-export function getAnthropicClient(): Anthropic {
-  const apiKey = process.env.ANTHROPIC_API_KEY;
-  if (!apiKey) {
-    throw new Error("ANTHROPIC_API_KEY not configured");
-  }
-  return new Anthropic({ apiKey });
-}
-
 /**
  * Parse JSON from LLM response text, stripping markdown code fences if present.
  */
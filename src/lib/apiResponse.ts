@@ -10,7 +10,9 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { ZodSchema, ZodError } from "zod";
+import type { Capability } from "@prisma/client";
 import { requireAuth, requireAdmin } from "@/lib/apiAuth";
+import { checkRoutePermission, type RoutePermissionResult } from "@/lib/routePermissions";
 import { checkRateLimit, getRateLimitIdentifier, rateLimitConfigs } from "@/lib/rateLimit";
 import { logger } from "@/lib/logger";
 
@@ -27,6 +29,7 @@ export type ApiErrorCode =
   | "RATE_LIMITED"
   | "BAD_REQUEST"
   | "INTERNAL_ERROR"
+  | "NOT_IMPLEMENTED"
   | "BAD_GATEWAY";
 
 export interface ApiError {
@@ -48,6 +51,7 @@ const ERROR_STATUS_CODES: Record<ApiErrorCode, number> = {
   CONFLICT: 409,
   RATE_LIMITED: 429,
   INTERNAL_ERROR: 500,
+  NOT_IMPLEMENTED: 501,
   BAD_GATEWAY: 502,
 };
 
@@ -95,6 +99,9 @@ export const errors = {
   internal: (message = "An internal error occurred") =>
     apiError("INTERNAL_ERROR", message),
 
+  notImplemented: (message = "Not implemented") =>
+    apiError("NOT_IMPLEMENTED", message),
+
   badGateway: (message = "Bad gateway") =>
     apiError("BAD_GATEWAY", message),
 };
@@ -223,8 +230,10 @@ export type AuthLevel = "public" | "authenticated" | "admin";
 export type RateLimitType = keyof typeof rateLimitConfigs;
 
 export interface RouteConfig {
-  /** Authentication level required */
-  auth: AuthLevel;
+  /** Authentication level required (ignored when `route` is set) */
+  auth?: AuthLevel;
+  /** Route key in the permission manifest; the policy for the request method is enforced */
+  route?: string;
   /** Rate limit configuration (optional) */
   rateLimit?: RateLimitType;
 }
@@ -234,6 +243,8 @@ export interface RouteContext {
   userId?: string;
   userEmail?: string | null;
   userName?: string | null;
+  userRole?: string;
+  userCapabilities?: Capability[];
 }
 
 type RouteHandler<T = unknown> = (
@@ -248,7 +259,7 @@ type RouteHandler<T = unknown> = (
  * @example
  * ```ts
  * export const POST = createRoute(
- *   { auth: "authenticated", rateLimit: "standard" },
+ *   { route: "/api/skills", rateLimit: "standard" },
  *   async (request, context) => {
  *     const { data } = await parseAndValidate(request, createSkillSchema);
  *     const skill = await createSkill(data);
@@ -265,18 +276,16 @@ export function createRoute<TParams = unknown>(
     const routeContext: RouteContext = {};
 
     // 1. Authentication
-    if (config.auth === "admin") {
-      const auth = await requireAdmin();
-      if (!auth.authorized) {
-        return auth.response;
-      }
-      if (auth.session?.user) {
-        routeContext.userId = auth.session.user.id;
-        routeContext.userEmail = auth.session.user.email;
-        routeContext.userName = auth.session.user.name;
-      }
+    let auth: RoutePermissionResult | null = null;
+    if (config.route) {
+      auth = await checkRoutePermission(config.route, request.method);
+    } else if (config.auth === "admin") {
+      auth = await requireAdmin();
     } else if (config.auth === "authenticated") {
-      const auth = await requireAuth();
+      auth = await requireAuth();
+    }
+    // 'public' - no auth check
+    if (auth) {
       if (!auth.authorized) {
         return auth.response;
       }
@@ -284,9 +293,10 @@ export function createRoute<TParams = unknown>(
         routeContext.userId = auth.session.user.id;
         routeContext.userEmail = auth.session.user.email;
         routeContext.userName = auth.session.user.name;
+        routeContext.userRole = auth.session.user.role;
+        routeContext.userCapabilities = auth.session.user.capabilities;
       }
     }
-    // 'public' - no auth check
 
     // 2. Rate limiting
     if (config.rateLimit) {
@@ -305,7 +315,7 @@ export function createRoute<TParams = unknown>(
     try {
       return await handler(request, routeContext, params as TParams);
     } catch (error) {
-      logger.error("Route handler error", error, { auth: config.auth, rateLimit: config.rateLimit });
+      logger.error("Route handler error", error, { auth: config.auth, route: config.route, rateLimit: config.rateLimit });
       const message = error instanceof Error ? error.message : "An unexpected error occurred";
       return errors.internal(message);
     }
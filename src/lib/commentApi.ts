@@ -0,0 +1,87 @@
+import type { Comment, CommentCounts, CommentTargetType, CommentThread } from "@/types/comment";
+import { parseApiData, getApiErrorMessage } from "./apiClient";
+
+/**
+ * API client for comment threads on project rows, quick questions and collateral
+ */
+
+/**
+ * A target's comment threads. Loading them marks the comments read.
+ */
+export async function fetchCommentThreads(
+  targetType: CommentTargetType,
+  targetId: string
+): Promise<{ threads: CommentThread[]; canModerate: boolean }> {
+  const params = new URLSearchParams({ targetType, targetId });
+  const response = await fetch(`/api/comments?${params}`);
+  const json = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(getApiErrorMessage(json, "Failed to load comments"));
+  }
+  return parseApiData(json);
+}
+
+/**
+ * Start a thread, or reply to one with parentId. Content uses @[Name](userId) mentions.
+ */
+export async function postComment(input: {
+  targetType: CommentTargetType;
+  targetId: string;
+  content: string;
+  parentId?: string;
+}): Promise<{
+  comment: Comment;
+  mentioned: { id: string; name: string }[];
+  notNotified: { id: string; name: string }[];
+  slackSent: boolean;
+}> {
+  const response = await fetch("/api/comments", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+  const json = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(getApiErrorMessage(json, "Failed to post comment"));
+  }
+  return parseApiData(json);
+}
+
+/**
+ * Resolve or reopen a thread (on its first comment)
+ */
+export async function setThreadResolved(commentId: string, resolved: boolean): Promise<void> {
+  const response = await fetch(`/api/comments/${commentId}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ resolved }),
+  });
+  if (!response.ok) {
+    const json = await response.json().catch(() => null);
+    throw new Error(getApiErrorMessage(json, resolved ? "Failed to resolve thread" : "Failed to reopen thread"));
+  }
+}
+
+/**
+ * Delete a comment; deleting a thread's first comment removes its replies
+ */
+export async function deleteComment(commentId: string): Promise<void> {
+  const response = await fetch(`/api/comments/${commentId}`, { method: "DELETE" });
+  if (!response.ok) {
+    const json = await response.json().catch(() => null);
+    throw new Error(getApiErrorMessage(json, "Failed to delete comment"));
+  }
+}
+
+/**
+ * Comment counts for each row of a project (rows without comments are left out)
+ */
+export async function fetchProjectCommentCounts(projectId: string): Promise<Record<string, CommentCounts>> {
+  const response = await fetch(`/api/projects/${projectId}/comments`);
+  if (!response.ok) {
+    const json = await response.json().catch(() => null);
+    throw new Error(getApiErrorMessage(json, "Failed to load comment counts"));
+  }
+  const json = await response.json();
+  return parseApiData<Record<string, CommentCounts>>(json, "counts") || {};
+}
@@ -0,0 +1,68 @@
+/**
+ * Comment Mentions
+ *
+ * Comments store @mentions as @[Name](userId) so the name shown stays what
+ * the author picked while notifications go to the user ID. The comment box
+ * shows plain "@Name" while typing; toMentionMarkup converts it on submit.
+ * Shared by the comment API and the comment UI.
+ */
+
+export type MentionedUser = { id: string; name: string };
+
+export type CommentSegment = { text: string; mention?: MentionedUser };
+
+// @[Name](userId) - names can't contain brackets, IDs can't contain parentheses
+const MENTION_PATTERN = /@\[([^\[\]]+)\]\(([^()\s]+)\)/g;
+
+export function formatMention(user: MentionedUser): string {
+  return `@[${user.name.replace(/[\[\]]/g, "")}](${user.id})`;
+}
+
+/**
+ * The distinct user IDs mentioned in a comment, in order of first mention
+ */
+export function extractMentionIds(content: string): string[] {
+  return [...new Set([...content.matchAll(MENTION_PATTERN)].map((match) => match[2]))];
+}
+
+/**
+ * Split a comment into text and mention segments for display
+ */
+export function parseCommentContent(content: string): CommentSegment[] {
+  const segments: CommentSegment[] = [];
+  let lastIndex = 0;
+  for (const match of content.matchAll(MENTION_PATTERN)) {
+    if (match.index > lastIndex) {
+      segments.push({ text: content.slice(lastIndex, match.index) });
+    }
+    segments.push({ text: `@${match[1]}`, mention: { id: match[2], name: match[1] } });
+    lastIndex = match.index + match[0].length;
+  }
+  if (lastIndex < content.length) {
+    segments.push({ text: content.slice(lastIndex) });
+  }
+  return segments;
+}
+
+/**
+ * The comment with mentions as plain "@Name" (Slack messages, previews)
+ */
+export function toPlainText(content: string): string {
+  return content.replace(MENTION_PATTERN, (_match, name: string) => `@${name}`);
+}
+
+/**
+ * Replace "@Name" typed in the comment box with mention markup for each user
+ * picked from the suggestions. Names that were deleted from the text are
+ * dropped, so only users still mentioned are notified.
+ */
+export function toMentionMarkup(text: string, picked: MentionedUser[]): string {
+  // Longest names first so "@Ann Lee" isn't claimed by "@Ann"
+  const users = [...picked].sort((a, b) => b.name.length - a.name.length);
+  let result = text;
+  for (const user of users) {
+    const plain = `@${user.name}`;
+    result = result.split(plain).join(formatMention(user));
+  }
+  return result;
+}
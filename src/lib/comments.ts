@@ -0,0 +1,224 @@
+import type { Comment as DbComment, Prisma, UserRole, Capability } from "@prisma/client";
+import type { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { errors } from "@/lib/apiResponse";
+import { canReviewAnswers, canViewOrgData, isAdmin } from "@/lib/permissions";
+import { getProjectAccess, hasProjectRole } from "@/lib/projectAccess";
+import type { Comment, CommentCounts, CommentTargetType, CommentThread } from "@/types/comment";
+
+/**
+ * Comments
+ *
+ * Threaded comments on project rows, quick questions (QuestionHistory) and
+ * collateral outputs. A thread is a root comment plus one level of replies;
+ * resolved state lives on the root. Each comment records who has read it, so
+ * rows can show an unread indicator. Mentions are parsed with
+ * commentMentions.ts; mentioned users who can see the target are notified in
+ * the app and announced in Slack with sendSlackNotification (slackNotify.ts).
+ *
+ * Who can comment follows who can see the target: project rows use the
+ * project role (projectAccess.ts), quick questions their asker plus reviewers
+ * and org-data viewers, collateral its owner plus reviewers and admins.
+ */
+
+type CommentUser = { id: string; role: string; capabilities?: Capability[] };
+
+export type CommentTarget = {
+  type: CommentTargetType;
+  id: string;
+  // Foreign key set on the target's comments, e.g. { bulkRowId }
+  key: Pick<Prisma.CommentUncheckedCreateInput, "bulkRowId" | "questionHistoryId" | "collateralOutputId">;
+  // Where the target lives (project name, "Quick question", collateral name)
+  title: string;
+  // What was commented on (the question, or the collateral name)
+  label: string;
+  // App path linking to the target
+  path: string;
+  // Can resolve any thread and remove other users' comments
+  canModerate: boolean;
+};
+
+export type CommentTargetResult =
+  | { allowed: true; target: CommentTarget }
+  | { allowed: false; response: NextResponse };
+
+/**
+ * Load a comment target and check the user can see it
+ */
+export async function loadCommentTarget(
+  type: CommentTargetType,
+  id: string,
+  user: CommentUser
+): Promise<CommentTargetResult> {
+  const session = { ...user, role: user.role as UserRole };
+
+  if (type === "row") {
+    const row = await prisma.bulkRow.findUnique({
+      where: { id },
+      select: { id: true, question: true, projectId: true, project: { select: { name: true } } },
+    });
+    if (!row) {
+      return { allowed: false, response: errors.notFound("Row") };
+    }
+    const { role } = await getProjectAccess(row.projectId, user);
+    if (!role) {
+      return { allowed: false, response: errors.forbidden("You don't have access to this project") };
+    }
+    return {
+      allowed: true,
+      target: {
+        type,
+        id,
+        key: { bulkRowId: id },
+        title: row.project.name,
+        label: row.question,
+        path: `/projects/${row.projectId}#row-${row.id}`,
+        canModerate: hasProjectRole(role, "REVIEWER"),
+      },
+    };
+  }
+
+  if (type === "question") {
+    const entry = await prisma.questionHistory.findUnique({
+      where: { id },
+      select: { id: true, question: true, userId: true },
+    });
+    if (!entry) {
+      return { allowed: false, response: errors.notFound("Question") };
+    }
+    const isAsker = entry.userId === user.id;
+    if (!isAsker && !canReviewAnswers(session) && !canViewOrgData(session)) {
+      return { allowed: false, response: errors.forbidden("You don't have access to this question") };
+    }
+    return {
+      allowed: true,
+      target: {
+        type,
+        id,
+        key: { questionHistoryId: id },
+        title: "Quick question",
+        label: entry.question,
+        path: `/projects/questions?id=${entry.id}`,
+        canModerate: isAsker || canReviewAnswers(session),
+      },
+    };
+  }
+
+  const output = await prisma.collateralOutput.findUnique({
+    where: { id },
+    select: { id: true, name: true, ownerId: true },
+  });
+  if (!output) {
+    return { allowed: false, response: errors.notFound("Collateral") };
+  }
+  const isOwner = !output.ownerId || output.ownerId === user.id;
+  if (!isOwner && !canReviewAnswers(session) && !isAdmin(session)) {
+    return { allowed: false, response: errors.forbidden("You don't have access to this collateral") };
+  }
+  return {
+    allowed: true,
+    target: {
+      type,
+      id,
+      key: { collateralOutputId: id },
+      title: output.name,
+      label: output.name,
+      path: "/collateral",
+      canModerate: isOwner || canReviewAnswers(session) || isAdmin(session),
+    },
+  };
+}
+
+/**
+ * The users who can see a comment target, e.g. the mentions to notify
+ */
+export async function filterUsersWithTargetAccess<T extends CommentUser>(
+  target: Pick<CommentTarget, "type" | "id">,
+  users: T[]
+): Promise<T[]> {
+  const results = await Promise.all(users.map((user) => loadCommentTarget(target.type, target.id, user)));
+  return users.filter((_, i) => results[i].allowed);
+}
+
+/**
+ * The target type and ID a stored comment belongs to
+ */
+export function getCommentTarget(
+  comment: Pick<DbComment, "bulkRowId" | "questionHistoryId" | "collateralOutputId">
+): { type: CommentTargetType; id: string } | null {
+  if (comment.bulkRowId) return { type: "row", id: comment.bulkRowId };
+  if (comment.questionHistoryId) return { type: "question", id: comment.questionHistoryId };
+  if (comment.collateralOutputId) return { type: "collateral", id: comment.collateralOutputId };
+  return null;
+}
+
+function isUnread(comment: Pick<DbComment, "authorId" | "readBy">, userId: string): boolean {
+  return comment.authorId !== userId && !comment.readBy.includes(userId);
+}
+
+export function toComment(comment: DbComment, userId: string): Comment {
+  return {
+    id: comment.id,
+    parentId: comment.parentId ?? undefined,
+    content: comment.content,
+    mentions: comment.mentions,
+    authorId: comment.authorId ?? undefined,
+    authorName: comment.authorName ?? undefined,
+    authorEmail: comment.authorEmail ?? undefined,
+    createdAt: comment.createdAt.toISOString(),
+    updatedAt: comment.updatedAt.toISOString(),
+    unread: isUnread(comment, userId),
+  };
+}
+
+/**
+ * Group a target's comments into threads, oldest first. Replies whose root
+ * is missing are dropped.
+ */
+export function buildThreads(comments: DbComment[], userId: string): CommentThread[] {
+  const sorted = [...comments].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  const threads = new Map<string, CommentThread>();
+
+  for (const comment of sorted.filter((c) => !c.parentId)) {
+    threads.set(comment.id, {
+      ...toComment(comment, userId),
+      resolved: comment.resolved,
+      resolvedAt: comment.resolvedAt?.toISOString(),
+      resolvedBy: comment.resolvedBy ?? undefined,
+      replies: [],
+    });
+  }
+  for (const reply of sorted.filter((c) => c.parentId)) {
+    threads.get(reply.parentId!)?.replies.push(toComment(reply, userId));
+  }
+  return [...threads.values()];
+}
+
+/**
+ * Comment totals per target ID (e.g. per row of a project)
+ */
+export function countComments(
+  comments: Pick<DbComment, "bulkRowId" | "questionHistoryId" | "collateralOutputId" | "parentId" | "resolved" | "authorId" | "readBy">[],
+  userId: string
+): Record<string, CommentCounts> {
+  const counts: Record<string, CommentCounts> = {};
+  for (const comment of comments) {
+    const target = getCommentTarget(comment);
+    if (!target) continue;
+    const entry = (counts[target.id] ??= { total: 0, unread: 0, open: 0 });
+    entry.total += 1;
+    if (isUnread(comment, userId)) entry.unread += 1;
+    if (!comment.parentId && !comment.resolved) entry.open += 1;
+  }
+  return counts;
+}
+
+/**
+ * Mark every comment on a target as read by the user
+ */
+export async function markCommentsRead(target: CommentTarget, userId: string): Promise<void> {
+  await prisma.comment.updateMany({
+    where: { ...target.key, NOT: { readBy: { has: userId } } },
+    data: { readBy: { push: userId } },
+  });
+}
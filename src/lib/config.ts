@@ -6,6 +6,11 @@
 export const CLAUDE_MODEL = process.env.CLAUDE_MODEL || "claude-sonnet-4-20250514";
 export const CLAUDE_MODEL_FAST = process.env.CLAUDE_MODEL_FAST || "claude-3-5-haiku-20241022";
 
+// AWS Bedrock model IDs for the same models (used when LLM_PROVIDER is "bedrock")
+// Defaults use cross-region inference profiles; override per deployment/region as needed
+export const BEDROCK_MODEL = process.env.BEDROCK_MODEL || "us.anthropic.claude-sonnet-4-20250514-v1:0";
+export const BEDROCK_MODEL_FAST = process.env.BEDROCK_MODEL_FAST || "us.anthropic.claude-3-5-haiku-20241022-v1:0";
+
 // Model selection helper
 export type ModelSpeed = "fast" | "quality";
 
@@ -13,16 +18,27 @@ export function getModel(speed: ModelSpeed = "quality"): string {
   return speed === "fast" ? CLAUDE_MODEL_FAST : CLAUDE_MODEL;
 }
 
+// Map an Anthropic model name to its Bedrock model ID
+export function getBedrockModelId(model: string): string {
+  if (model === CLAUDE_MODEL) return BEDROCK_MODEL;
+  if (model === CLAUDE_MODEL_FAST) return BEDROCK_MODEL_FAST;
+  // Already a Bedrock model ID, inference profile, or ARN
+  if (model.includes("anthropic.") || model.startsWith("arn:")) return model;
+  return `anthropic.${model}-v1:0`;
+}
+
 // LLM Feature identifiers - used for speed defaults and preferences
 export type LLMFeature =
   | "chat"              // Knowledge chat / The Oracle
   | "questions"         // Quick questions on home page
   | "questions-batch"   // Bulk RFP question processing
+  | "projects-extract"  // Extract questions from questionnaire PDFs
   | "skills-suggest"    // Skill generation/update
   | "skills-analyze"    // Analyze URLs for skill routing
   | "skills-analyze-rfp"    // Analyze RFP for skill suggestions
   | "skills-analyze-library" // Library health analysis
   | "skills-refresh"    // Refresh skill from sources
+  | "knowledge-gaps"    // Cluster weakly answered questions into gaps
   | "customers-analyze" // Analyze URLs for customer matching
   | "customers-suggest" // Generate customer profiles
   | "customers-build"   // Build profile from documents
@@ -34,11 +50,13 @@ export const LLM_SPEED_DEFAULTS: Record<LLMFeature, ModelSpeed> = {
   "chat": "quality",
   "questions": "quality",
   "questions-batch": "quality",
+  "projects-extract": "quality",
   "skills-suggest": "quality",
   "skills-analyze": "quality",
   "skills-analyze-rfp": "quality",
   "skills-analyze-library": "quality",
   "skills-refresh": "quality",
+  "knowledge-gaps": "quality",
   "customers-analyze": "quality",
   "customers-suggest": "quality",
   "customers-build": "quality",
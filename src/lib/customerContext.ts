@@ -0,0 +1,149 @@
+import { prisma } from "@/lib/prisma";
+import type { UsedCustomerContext } from "@/types/bulkProject";
+
+/**
+ * Customer Context
+ *
+ * Builds the customer section sent with project answers: the industry,
+ * profile content and considerations of each customer profile linked to the
+ * project, plus the customer documents chosen for answering. The section is
+ * kept apart from skills so the LLM tailors answers to the customer without
+ * treating customer material as a statement of product capabilities.
+ *
+ * The profiles and documents that were sent are recorded on each answered row
+ * (BulkRow.usedCustomerContext) and shown in its transparency details.
+ */
+
+// Characters of a single customer document included in the prompt
+const MAX_DOCUMENT_LENGTH = 15000;
+
+// Characters of the whole customer section
+const MAX_CONTEXT_LENGTH = 40000;
+
+type ContextProfile = {
+  id: string;
+  name: string;
+  industry: string | null;
+  content: string | null;
+  considerations: string[];
+  overview: string;
+  products: string | null;
+  challenges: string | null;
+};
+
+type ContextDocument = {
+  id: string;
+  customerId: string;
+  title: string;
+  docType: string | null;
+  content: string;
+};
+
+export type CustomerContext = {
+  // Prompt section describing the customer(s)
+  text: string;
+  // What the section was built from
+  used: UsedCustomerContext;
+};
+
+function profileContent(profile: ContextProfile): string {
+  if (profile.content?.trim()) return profile.content.trim();
+
+  // Profiles created before the unified content field
+  const parts = [];
+  if (profile.overview?.trim()) parts.push(`## Overview\n${profile.overview.trim()}`);
+  if (profile.products?.trim()) parts.push(`## Products & Services\n${profile.products.trim()}`);
+  if (profile.challenges?.trim()) parts.push(`## Challenges & Needs\n${profile.challenges.trim()}`);
+  return parts.join("\n\n");
+}
+
+/**
+ * The customer section for the given profiles and documents, or null if there
+ * are no profiles. Documents of customers not in the list are ignored.
+ */
+export function buildCustomerContext(
+  profiles: ContextProfile[],
+  documents: ContextDocument[]
+): CustomerContext | null {
+  if (profiles.length === 0) return null;
+
+  const used: UsedCustomerContext = { profiles: [], documents: [] };
+  let remaining = MAX_CONTEXT_LENGTH;
+  const blocks: string[] = [];
+
+  for (const profile of profiles) {
+    const lines = [`## Customer: ${profile.name}`, `Industry: ${profile.industry || "Not specified"}`];
+    const content = profileContent(profile);
+    if (content) lines.push("", content);
+    if (profile.considerations.length > 0) {
+      lines.push("", "### Considerations", ...profile.considerations.map((c) => `- ${c}`));
+    }
+    const profileText = lines.join("\n").slice(0, remaining);
+    remaining -= profileText.length;
+    blocks.push(profileText);
+    used.profiles.push({ id: profile.id, name: profile.name, industry: profile.industry ?? undefined });
+
+    // Documents that don't fit in what's left are skipped rather than cut short
+    for (const doc of documents.filter((d) => d.customerId === profile.id && d.content.trim())) {
+      const docText = `### Customer Document: ${doc.title}${doc.docType ? ` (${doc.docType})` : ""}\n${doc.content.trim().slice(0, MAX_DOCUMENT_LENGTH)}`;
+      if (docText.length > remaining) continue;
+      remaining -= docText.length;
+      blocks.push(docText);
+      used.documents.push({ id: doc.id, customerId: doc.customerId, title: doc.title });
+    }
+  }
+
+  return { text: blocks.join("\n\n"), used };
+}
+
+/**
+ * Load the customer section for the given profile and document IDs
+ */
+export async function loadCustomerContext(
+  profileIds: string[],
+  documentIds: string[] = []
+): Promise<CustomerContext | null> {
+  if (profileIds.length === 0) return null;
+
+  const [profiles, documents] = await Promise.all([
+    prisma.customerProfile.findMany({
+      where: { id: { in: profileIds }, isActive: true },
+      select: {
+        id: true,
+        name: true,
+        industry: true,
+        content: true,
+        considerations: true,
+        overview: true,
+        products: true,
+        challenges: true,
+      },
+      orderBy: { name: "asc" },
+    }),
+    documentIds.length > 0
+      ? prisma.customerDocument.findMany({
+          where: { id: { in: documentIds }, customerId: { in: profileIds } },
+          select: { id: true, customerId: true, title: true, docType: true, content: true },
+          orderBy: { uploadedAt: "desc" },
+        })
+      : Promise.resolve([]),
+  ]);
+
+  return buildCustomerContext(profiles, documents);
+}
+
+/**
+ * The customer section for a project: its linked profiles and selected documents
+ */
+export async function loadProjectCustomerContext(projectId: string): Promise<CustomerContext | null> {
+  const project = await prisma.bulkProject.findUnique({
+    where: { id: projectId },
+    select: { customerDocumentIds: true, customerProfiles: { select: { profileId: true } } },
+  });
+  if (!project) return null;
+
+  return loadCustomerContext(
+    project.customerProfiles.map((cp) => cp.profileId),
+    project.customerDocumentIds
+  );
+}
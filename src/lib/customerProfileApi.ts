@@ -8,7 +8,7 @@ import {
   CustomerProfileOwner,
   CustomerProfileHistoryEntry,
 } from "@/types/customerProfile";
-import { createApiClient } from "./apiClient";
+import { createApiClient, parseApiData, getApiErrorMessage } from "./apiClient";
 
 /**
  * API client for customer profile CRUD operations (The Rolodex)
@@ -125,3 +125,15 @@ export async function updateProfile(
 export async function deleteProfile(id: string): Promise<void> {
   return profileClient.delete(id);
 }
+
+/**
+ * Re-sync a linked profile's static fields from its Salesforce Account
+ */
+export async function syncProfileFromSalesforce(id: string): Promise<CustomerProfile> {
+  const response = await fetch(`/api/customers/${id}/salesforce-sync`, { method: "POST" });
+  const json = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(getApiErrorMessage(json, "Failed to sync from Salesforce"));
+  }
+  return transformProfileFromDb(parseApiData<DbCustomerProfile>(json, "profile"));
+}
@@ -0,0 +1,436 @@
+import * as mammoth from "mammoth";
+import {
+  Document,
+  Paragraph,
+  TextRun,
+  HeadingLevel,
+  Table,
+  TableRow,
+  TableCell,
+  WidthType,
+  Packer,
+} from "docx";
+import type { DocumentLocation, ParsedDocumentQuestion } from "@/types/bulkProject";
+
+/**
+ * DOCX Questionnaire Parser
+ *
+ * Reads a Word questionnaire into a flat outline (headings, paragraphs,
+ * numbered items and tables) and picks out the questions, each with a
+ * pointer back to where it sits in that outline. The outline is stored with
+ * the project so answers can be written into the same structure on export.
+ *
+ * mammoth's HTML output is a small, predictable subset (no attributes on
+ * block tags), so it is walked with a tokenizer rather than a DOM parser.
+ */
+
+export type DocumentBlock =
+  | { type: "heading"; level: number; text: string }
+  | { type: "paragraph"; text: string }
+  | { type: "item"; ordered: boolean; level: number; number?: string; text: string }
+  | { type: "table"; rows: string[][] };
+
+// Word questions always point back to their place in the outline
+export type LocatedQuestion = ParsedDocumentQuestion & { location: DocumentLocation };
+
+export type ParsedQuestionnaire = {
+  blocks: DocumentBlock[];
+  questions: LocatedQuestion[];
+};
+
+export type DocumentAnswer = {
+  response: string;
+  remarks?: string | null;
+};
+
+const QUESTION_HEADER = /\b(questions?|requirements?|queries|query|criteria|description)\b/i;
+const ANSWER_HEADER = /\b(answers?|responses?|reply|vendor|supplier)\b/i;
+const COMMENT_HEADER = /\b(comments?|remarks?|notes?|explanations?)\b/i;
+const ID_HEADER = /^(id|#|no\.?|ref(erence)?|number)$/i;
+// "1.", "2.3)", "Q4:", "Question 5 -" typed by hand rather than Word auto-numbering
+const NUMBERED_PREFIX = /^(?:(?:Q|Question)\s*)?(\d+(?:\.\d+)*)[.):-]?\s+(?=\S)/i;
+const MIN_QUESTION_LENGTH = 10;
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function clean(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * Convert mammoth HTML into outline blocks.
+ * Nested tables are flattened into their parent cell's text.
+ */
+export function htmlToBlocks(html: string): DocumentBlock[] {
+  const blocks: DocumentBlock[] = [];
+  const lists: { ordered: boolean; count: number }[] = [];
+  // Open list items; an item is emitted when its own text ends (a nested list starts or </li>)
+  const items: { text: string; emitted: boolean }[] = [];
+  let table: { rows: string[][]; row: string[] | null; cell: string | null } | null = null;
+  let tableDepth = 0;
+  let text: string | null = null; // Current paragraph/heading buffer outside lists and tables
+  let headingLevel = 0;
+
+  const append = (value: string) => {
+    if (table && table.cell !== null) table.cell += value;
+    else if (items.length > 0) items[items.length - 1].text += value;
+    else if (text !== null) text += value;
+  };
+
+  const emitItem = () => {
+    const item = items[items.length - 1];
+    if (!item || item.emitted) return;
+    item.emitted = true;
+    const itemText = clean(item.text);
+    if (!itemText) return;
+    const list = lists[lists.length - 1];
+    const number = lists.every((l) => l.ordered) ? lists.map((l) => l.count).join(".") : undefined;
+    blocks.push({ type: "item", ordered: list?.ordered ?? false, level: Math.max(lists.length - 1, 0), number, text: itemText });
+  };
+
+  const tokens = /<(\/?)([a-z][a-z0-9]*)\b[^>]*?(\/?)>|([^<]+)/gi;
+  let match: RegExpExecArray | null;
+  while ((match = tokens.exec(html)) !== null) {
+    if (match[4] !== undefined) {
+      append(decodeEntities(match[4]));
+      continue;
+    }
+    const closing = match[1] === "/";
+    const tag = match[2].toLowerCase();
+
+    if (tag === "table") {
+      if (closing) {
+        tableDepth--;
+        if (tableDepth === 0 && table) {
+          if (table.rows.length > 0) blocks.push({ type: "table", rows: table.rows });
+          table = null;
+        }
+      } else {
+        tableDepth++;
+        if (tableDepth === 1) table = { rows: [], row: null, cell: null };
+      }
+      continue;
+    }
+    if (table && tableDepth > 1) {
+      // Nested table: keep its text inside the outer cell
+      if (!closing && (tag === "tr" || tag === "p" || tag === "br")) append("\n");
+      else if (!closing && (tag === "td" || tag === "th")) append(" ");
+      continue;
+    }
+    if (table) {
+      if (tag === "tr") {
+        if (!closing) table.row = [];
+        else if (table.row) {
+          table.rows.push(table.row);
+          table.row = null;
+        }
+      } else if (tag === "td" || tag === "th") {
+        if (!closing) table.cell = "";
+        else if (table.row && table.cell !== null) {
+          table.row.push(clean(table.cell));
+          table.cell = null;
+        }
+      } else if (!closing && (tag === "p" || tag === "br" || tag === "li")) {
+        append("\n");
+      }
+      continue;
+    }
+
+    if (tag === "ol" || tag === "ul") {
+      if (closing) lists.pop();
+      else {
+        emitItem();
+        lists.push({ ordered: tag === "ol", count: 0 });
+      }
+    } else if (tag === "li") {
+      if (closing) {
+        emitItem();
+        items.pop();
+      } else {
+        if (lists.length > 0) lists[lists.length - 1].count++;
+        items.push({ text: "", emitted: false });
+      }
+    } else if (items.length > 0) {
+      if (!closing && (tag === "p" || tag === "br")) append("\n");
+    } else if (/^h[1-6]$/.test(tag) || tag === "p") {
+      if (!closing) {
+        text = "";
+        headingLevel = tag === "p" ? 0 : Number(tag[1]);
+      } else if (text !== null) {
+        const blockText = clean(text);
+        if (blockText) {
+          blocks.push(headingLevel > 0
+            ? { type: "heading", level: headingLevel, text: blockText }
+            : { type: "paragraph", text: blockText });
+        }
+        text = null;
+      }
+    } else if (tag === "br" && !closing) {
+      append("\n");
+    }
+  }
+
+  return blocks;
+}
+
+function findColumn(header: string[], pattern: RegExp, exclude: (number | null)[]): number | null {
+  const index = header.findIndex((cell, i) => !exclude.includes(i) && pattern.test(cell));
+  return index === -1 ? null : index;
+}
+
+function isQuestionText(text: string): boolean {
+  return text.length >= MIN_QUESTION_LENGTH && /[a-z]/i.test(text);
+}
+
+function tableQuestions(table: { rows: string[][] }, block: number, tableNumber: number): LocatedQuestion[] {
+  const [header, ...body] = table.rows;
+  if (!header || body.length === 0) return [];
+
+  let questionCell = findColumn(header, QUESTION_HEADER, []);
+  let bodyStart = 1;
+  if (questionCell === null) {
+    // No recognisable header: use the column where most cells read like questions
+    const counts = header.map((_, col) => table.rows.filter((row) => (row[col] ?? "").trim().endsWith("?")).length);
+    const best = Math.max(...counts);
+    if (best === 0) return [];
+    questionCell = counts.indexOf(best);
+    bodyStart = table.rows[0][questionCell]?.trim().endsWith("?") ? 0 : 1;
+  }
+
+  const headerRow = bodyStart === 1 ? header : [];
+  let answerCell = findColumn(headerRow, ANSWER_HEADER, [questionCell]);
+  const commentCell = findColumn(headerRow, COMMENT_HEADER, [questionCell, answerCell]);
+  if (answerCell === null) {
+    // An otherwise empty column is where the customer expects the answers
+    const emptyColumn = header.findIndex((_, col) =>
+      col !== questionCell && col !== commentCell &&
+      table.rows.slice(bodyStart).every((row) => !(row[col] ?? "").trim())
+    );
+    answerCell = emptyColumn === -1 ? null : emptyColumn;
+  }
+
+  const idCell = findColumn(headerRow, ID_HEADER, [questionCell, answerCell, commentCell]);
+
+  const questions: LocatedQuestion[] = [];
+  table.rows.forEach((row, rowIndex) => {
+    if (rowIndex < bodyStart) return;
+    const question = (row[questionCell] ?? "").trim();
+    if (!isQuestionText(question)) return;
+    questions.push({
+      question,
+      questionId: idCell === null ? undefined : row[idCell]?.trim() || undefined,
+      location: {
+        kind: "table",
+        block,
+        row: rowIndex,
+        questionCell,
+        answerCell,
+        commentCell,
+        label: `Table ${tableNumber}, row ${rowIndex + 1}`,
+      },
+    });
+  });
+  return questions;
+}
+
+/**
+ * Pick questions out of the outline: rows of question tables, numbered list
+ * items, and paragraphs that start with a typed question number. Each
+ * question records the heading it appears under as its section, and the
+ * chain of enclosing headings (by heading level) as its section path.
+ */
+export function extractQuestions(blocks: DocumentBlock[]): LocatedQuestion[] {
+  const questions: LocatedQuestion[] = [];
+  let tableNumber = 0;
+  let headings: { level: number; text: string }[] = [];
+  let section: string | undefined;
+  let sectionPath: string[] | undefined;
+
+  blocks.forEach((block, index) => {
+    if (block.type === "heading") {
+      headings = [...headings.filter((h) => h.level < block.level), { level: block.level, text: block.text }];
+      section = block.text;
+      sectionPath = headings.map((h) => h.text);
+    } else if (block.type === "table") {
+      tableNumber++;
+      questions.push(...tableQuestions(block, index, tableNumber).map((q) => ({ ...q, section, sectionPath })));
+    } else if (block.type === "item" && block.ordered && isQuestionText(block.text)) {
+      questions.push({
+        question: block.text,
+        questionId: block.number,
+        section,
+        sectionPath,
+        location: { kind: "item", block: index, label: `Item ${block.number ?? index + 1}` },
+      });
+    } else if (block.type === "paragraph") {
+      const numbered = block.text.match(NUMBERED_PREFIX);
+      const question = numbered ? block.text.slice(numbered[0].length).trim() : "";
+      if (numbered && isQuestionText(question)) {
+        questions.push({
+          question,
+          questionId: numbered[1],
+          section,
+          sectionPath,
+          location: { kind: "item", block: index, label: `Item ${numbered[1]}` },
+        });
+      }
+    }
+  });
+
+  return questions;
+}
+
+/**
+ * Parse a .docx questionnaire into its outline and questions
+ */
+export async function parseDocxQuestionnaire(buffer: Buffer): Promise<ParsedQuestionnaire> {
+  const result = await mammoth.convertToHtml({ buffer });
+  const blocks = htmlToBlocks(result.value);
+  return { blocks, questions: extractQuestions(blocks) };
+}
+
+/**
+ * Key answers by outline position, so rows match their location on export
+ */
+export function locationKey(location: Pick<DocumentLocation, "block"> & { row?: number }): string {
+  return location.row === undefined ? `${location.block}` : `${location.block}:${location.row}`;
+}
+
+function indentedParagraphs(text: string, left: number): Paragraph[] {
+  return text.split("\n").map((line) => new Paragraph({ children: [new TextRun(line)], indent: { left } }));
+}
+
+const HEADING_LEVELS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6,
+];
+
+/**
+ * Rebuild the questionnaire with answers in place: table answers go into the
+ * row's answer cell (a "Response" column is added when the table had none),
+ * item answers go in a response block directly below the question.
+ */
+export function buildAnsweredDocument(
+  blocks: DocumentBlock[],
+  answers: Map<string, DocumentAnswer & { location: DocumentLocation }>,
+  options?: { title?: string }
+): Document {
+  const children: (Paragraph | Table)[] = [];
+
+  const tableAnswers = new Map<number, (DocumentAnswer & { location: DocumentLocation })[]>();
+  for (const answer of answers.values()) {
+    if (answer.location.kind !== "table") continue;
+    const list = tableAnswers.get(answer.location.block) ?? [];
+    list.push(answer);
+    tableAnswers.set(answer.location.block, list);
+  }
+
+  blocks.forEach((block, index) => {
+    switch (block.type) {
+      case "heading":
+        children.push(new Paragraph({
+          children: [new TextRun(block.text)],
+          heading: HEADING_LEVELS[Math.min(block.level, 6) - 1],
+          spacing: { before: 300, after: 150 },
+        }));
+        break;
+
+      case "paragraph":
+      case "item": {
+        const prefix = block.type === "item" ? (block.number ? `${block.number}. ` : "• ") : "";
+        children.push(new Paragraph({
+          children: [new TextRun(prefix + block.text)],
+          indent: block.type === "item" ? { left: 360 * (block.level + 1) } : undefined,
+          spacing: { before: 120, after: 120 },
+        }));
+        const answer = answers.get(locationKey({ block: index }));
+        if (answer?.response) {
+          children.push(new Paragraph({
+            children: [new TextRun({ text: "Response:", bold: true })],
+            indent: { left: 720 },
+          }));
+          children.push(...indentedParagraphs(answer.response, 720));
+          if (answer.remarks) {
+            children.push(new Paragraph({
+              children: [new TextRun({ text: answer.remarks, italics: true, color: "64748B" })],
+              indent: { left: 720 },
+            }));
+          }
+        }
+        break;
+      }
+
+      case "table": {
+        const filled = tableAnswers.get(index) ?? [];
+        const addResponseColumn = filled.some((a) => a.location.kind === "table" && a.location.answerCell === null);
+        const width = Math.max(...block.rows.map((r) => r.length)) + (addResponseColumn ? 1 : 0);
+        const rows: string[][] = block.rows.map((row) => [...row, ...Array<string>(Math.max(width - row.length, 0)).fill("")]);
+        if (addResponseColumn) rows[0][width - 1] = "Response";
+
+        for (const answer of filled) {
+          if (answer.location.kind !== "table") continue;
+          const target = rows[answer.location.row];
+          if (!target) continue;
+          const answerCell = answer.location.answerCell ?? width - 1;
+          if (answer.response) target[answerCell] = answer.response;
+          if (answer.remarks && answer.location.commentCell != null) {
+            target[answer.location.commentCell] = answer.remarks;
+          }
+        }
+
+        children.push(new Table({
+          width: { size: 100, type: WidthType.PERCENTAGE },
+          rows: rows.map((row, rowIndex) => new TableRow({
+            children: row.map((cell) => new TableCell({
+              children: cell
+                ? cell.split("\n").map((line) => new Paragraph({
+                    children: [new TextRun({ text: line, bold: rowIndex === 0 })],
+                  }))
+                : [new Paragraph({ children: [] })],
+              width: { size: 100 / width, type: WidthType.PERCENTAGE },
+              shading: rowIndex === 0 ? { fill: "E8E8E8" } : undefined,
+            })),
+          })),
+        }));
+        children.push(new Paragraph({ children: [] })); // Spacing after table
+        break;
+      }
+    }
+  });
+
+  return new Document({
+    creator: "RFP Copilot",
+    title: options?.title,
+    description: "Generated by RFP Copilot",
+    sections: [{ children }],
+  });
+}
+
+/**
+ * Rebuild the questionnaire with answers and return the .docx bytes
+ */
+export async function buildAnsweredDocxBuffer(
+  blocks: DocumentBlock[],
+  answers: Map<string, DocumentAnswer & { location: DocumentLocation }>,
+  options?: { title?: string }
+): Promise<Buffer> {
+  return Packer.toBuffer(buildAnsweredDocument(blocks, answers, options));
+}
@@ -0,0 +1,141 @@
+import { createHash } from "crypto";
+import { logger } from "@/lib/logger";
+import type { RetrievalBackend, SkillChunk } from "@/lib/retrieval";
+
+/**
+ * Embedding Retrieval Backend (optional)
+ *
+ * Scores skill chunks by cosine similarity of embeddings from an
+ * OpenAI-compatible embeddings endpoint (Voyage AI by default).
+ * Enabled only when EMBEDDINGS_API_KEY (or VOYAGE_API_KEY) is set; otherwise
+ * retrieval uses BM25 alone.
+ *
+ * Chunk embeddings are cached in memory by content hash, so only new or
+ * edited chunks are embedded on subsequent requests.
+ */
+
+const DEFAULT_EMBEDDINGS_URL = "https://api.voyageai.com/v1/embeddings";
+const DEFAULT_EMBEDDINGS_MODEL = "voyage-3-lite";
+
+// Inputs per embeddings request
+const EMBED_BATCH_SIZE = 64;
+
+// Upper bound on cached chunk embeddings (oldest are evicted first)
+const MAX_CACHE_ENTRIES = 20000;
+
+const embeddingCache = new Map<string, number[]>();
+
+type EmbeddingsConfig = {
+  url: string;
+  apiKey: string;
+  model: string;
+};
+
+function getEmbeddingsConfig(): EmbeddingsConfig | null {
+  const apiKey = process.env.EMBEDDINGS_API_KEY || process.env.VOYAGE_API_KEY;
+  if (!apiKey) return null;
+  return {
+    url: process.env.EMBEDDINGS_API_URL || DEFAULT_EMBEDDINGS_URL,
+    apiKey,
+    model: process.env.EMBEDDINGS_MODEL || DEFAULT_EMBEDDINGS_MODEL,
+  };
+}
+
+async function embed(
+  config: EmbeddingsConfig,
+  texts: string[],
+  inputType: "query" | "document"
+): Promise<number[][]> {
+  const response = await fetch(config.url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${config.apiKey}`,
+    },
+    body: JSON.stringify({ input: texts, model: config.model, input_type: inputType }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Embeddings request failed: ${response.status} ${response.statusText}`);
+  }
+
+  const json = (await response.json()) as { data?: { embedding: number[]; index: number }[] };
+  const data = json.data || [];
+  if (data.length !== texts.length) {
+    throw new Error("Embeddings response did not match the number of inputs");
+  }
+  return [...data].sort((a, b) => a.index - b.index).map((item) => item.embedding);
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length && i < b.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+}
+
+function cacheKey(model: string, text: string): string {
+  return `${model}:${createHash("sha256").update(text).digest("hex")}`;
+}
+
+async function embedChunks(config: EmbeddingsConfig, chunks: SkillChunk[]): Promise<Map<string, number[]>> {
+  const result = new Map<string, number[]>();
+  const missing: { chunk: SkillChunk; key: string; text: string }[] = [];
+
+  for (const chunk of chunks) {
+    const text = chunk.source === "title" ? chunk.text : `${chunk.skillTitle}\n${chunk.text}`;
+    const key = cacheKey(config.model, text);
+    const cached = embeddingCache.get(key);
+    if (cached) {
+      result.set(chunk.id, cached);
+    } else {
+      missing.push({ chunk, key, text });
+    }
+  }
+
+  for (let i = 0; i < missing.length; i += EMBED_BATCH_SIZE) {
+    const batch = missing.slice(i, i + EMBED_BATCH_SIZE);
+    const vectors = await embed(config, batch.map((item) => item.text), "document");
+    batch.forEach((item, idx) => {
+      if (embeddingCache.size >= MAX_CACHE_ENTRIES) {
+        const oldest = embeddingCache.keys().next().value;
+        if (oldest) embeddingCache.delete(oldest);
+      }
+      embeddingCache.set(item.key, vectors[idx]);
+      result.set(item.chunk.id, vectors[idx]);
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Get the embedding backend if one is configured, otherwise null
+ */
+export function getEmbeddingBackend(): RetrievalBackend | null {
+  const config = getEmbeddingsConfig();
+  if (!config) return null;
+
+  return {
+    name: `embeddings:${config.model}`,
+    async scoreChunks(query: string, chunks: SkillChunk[]): Promise<Map<string, number>> {
+      try {
+        const [queryVector] = await embed(config, [query], "query");
+        const chunkVectors = await embedChunks(config, chunks);
+        const scores = new Map<string, number>();
+        for (const [chunkId, vector] of chunkVectors) {
+          scores.set(chunkId, cosineSimilarity(queryVector, vector));
+        }
+        return scores;
+      } catch (error) {
+        logger.warn("Embedding retrieval failed, falling back to BM25", { error: String(error) });
+        throw error;
+      }
+    },
+  };
+}
@@ -1,10 +1,12 @@
 import * as XLSX from "xlsx";
 import { BulkProject, BulkRow } from "@/types/bulkProject";
+import { collectSectionIds, formatSectionPath } from "@/lib/projectSections";
 
 export type ExportOptions = {
   includeIncomplete?: boolean; // Include rows without responses (default: true)
   confidenceFilter?: "all" | "high" | "medium" | "low"; // Filter by confidence level
   includeMetadata?: boolean; // Include summary sheet (default: true)
+  sectionId?: string; // Only rows in this section (and its nested sections)
 };
 
 const DEFAULT_OPTIONS: ExportOptions = {
@@ -22,8 +24,14 @@ function getConfidenceLevel(confidence?: string): "high" | "medium" | "low" | nu
   return null;
 }
 
-function filterRows(rows: BulkRow[], options: ExportOptions): BulkRow[] {
-  let filtered = [...rows];
+function filterRows(project: BulkProject, options: ExportOptions): BulkRow[] {
+  let filtered = [...project.rows];
+
+  // Filter by section
+  if (options.sectionId && project.sections) {
+    const sectionIds = collectSectionIds(project.sections, options.sectionId);
+    filtered = filtered.filter((row) => row.sectionId && sectionIds.has(row.sectionId));
+  }
 
   // Filter incomplete rows
   if (!options.includeIncomplete) {
@@ -130,53 +138,54 @@ function formatSourcesForExcel(sources: string): string {
   return urls.join("\n");
 }
 
-function createResponsesSheet(rows: BulkRow[]): XLSX.WorkSheet {
-  // Check if we have multiple source tabs
+type ResponseColumn = {
+  header: string;
+  width: number;
+  value: (row: BulkRow) => string;
+};
+
+function createResponsesSheet(project: BulkProject, rows: BulkRow[]): XLSX.WorkSheet {
+  // Source Tab, Section and Question ID columns are only included when the rows have them
   const uniqueTabs = new Set(rows.map((r) => r.sourceTab).filter(Boolean));
   const hasMultipleTabs = uniqueTabs.size > 1;
+  const sections = project.sections ?? [];
+  const hasSections = rows.some((r) => r.sectionId || r.section);
+  const hasQuestionIds = rows.some((r) => r.questionId);
+
+  const columns: ResponseColumn[] = [
+    ...(hasMultipleTabs ? [{ header: "Source Tab", width: 15, value: (row: BulkRow) => row.sourceTab || "" }] : []),
+    ...(hasSections
+      ? [{
+          header: "Section",
+          width: 30,
+          value: (row: BulkRow) => (row.sectionId && formatSectionPath(sections, row.sectionId)) || row.section || "",
+        }]
+      : []),
+    ...(hasQuestionIds ? [{ header: "Question ID", width: 12, value: (row: BulkRow) => row.questionId || "" }] : []),
+    { header: "Row #", width: 8, value: (row) => row.rowNumber.toString() },
+    { header: "Question", width: 50, value: (row) => row.question },
+    { header: "Answer", width: 80, value: (row) => row.response || "" },
+    {
+      header: "Status",
+      width: 12,
+      value: (row) => (row.response && row.response.trim().length > 0 ? "Completed" : "Pending"),
+    },
+    { header: "Confidence", width: 15, value: (row) => row.confidence || "" },
+    { header: "Reasoning", width: 50, value: (row) => row.reasoning || "" },
+    { header: "Inference", width: 50, value: (row) => row.inference || "None" },
+    { header: "Sources", width: 40, value: (row) => formatSourcesForExcel(row.sources || "") },
+    { header: "Remarks", width: 40, value: (row) => row.remarks || "" },
+  ];
 
-  // Headers - include Source Tab column only if there are multiple tabs
-  const headers = hasMultipleTabs
-    ? ["Source Tab", "Row #", "Question", "Answer", "Status", "Confidence", "Reasoning", "Inference", "Sources", "Remarks"]
-    : ["Row #", "Question", "Answer", "Status", "Confidence", "Reasoning", "Inference", "Sources", "Remarks"];
-
-  const data = [headers];
-
-  // Add rows
+  const data = [columns.map((column) => column.header)];
   rows.forEach((row) => {
-    const status = row.response && row.response.trim().length > 0 ? "Completed" : "Pending";
-    const formattedSources = formatSourcesForExcel(row.sources || "");
-    const rowData = hasMultipleTabs
-      ? [
-          row.sourceTab || "",
-          row.rowNumber.toString(),
-          row.question,
-          row.response || "",
-          status,
-          row.confidence || "",
-          row.reasoning || "",
-          row.inference || "None",
-          formattedSources,
-          row.remarks || "",
-        ]
-      : [
-          row.rowNumber.toString(),
-          row.question,
-          row.response || "",
-          status,
-          row.confidence || "",
-          row.reasoning || "",
-          row.inference || "None",
-          formattedSources,
-          row.remarks || "",
-        ];
-    data.push(rowData);
+    data.push(columns.map((column) => column.value(row)));
   });
 
   const sheet = XLSX.utils.aoa_to_sheet(data);
 
   // Add hyperlinks to source URLs
-  const sourcesColIndex = hasMultipleTabs ? 8 : 7; // 0-indexed column for Sources
+  const sourcesColIndex = columns.findIndex((column) => column.header === "Sources");
   rows.forEach((row, rowIndex) => {
     const urls = extractUrls(row.sources || "");
     if (urls.length > 0) {
@@ -196,31 +205,7 @@ function createResponsesSheet(rows: BulkRow[]): XLSX.WorkSheet {
     }
   });
 
-  // Set column widths - include Source Tab column only if there are multiple tabs
-  sheet["!cols"] = hasMultipleTabs
-    ? [
-        { wch: 15 }, // Source Tab
-        { wch: 8 }, // Row #
-        { wch: 50 }, // Question
-        { wch: 80 }, // Answer
-        { wch: 12 }, // Status
-        { wch: 15 }, // Confidence
-        { wch: 50 }, // Reasoning
-        { wch: 50 }, // Inference
-        { wch: 40 }, // Sources
-        { wch: 40 }, // Remarks
-      ]
-    : [
-        { wch: 8 }, // Row #
-        { wch: 50 }, // Question
-        { wch: 80 }, // Answer
-        { wch: 12 }, // Status
-        { wch: 15 }, // Confidence
-        { wch: 50 }, // Reasoning
-        { wch: 50 }, // Inference
-        { wch: 40 }, // Sources
-        { wch: 40 }, // Remarks
-      ];
+  sheet["!cols"] = columns.map((column) => ({ wch: column.width }));
 
   // Set row heights for better readability
   sheet["!rows"] = [{ hpt: 30 }]; // Header row height
@@ -254,7 +239,7 @@ export function exportProjectToExcel(project: BulkProject, options: ExportOption
   const opts = { ...DEFAULT_OPTIONS, ...options };
 
   // Filter rows based on options
-  const filteredRows = filterRows(project.rows, opts);
+  const filteredRows = filterRows(project, opts);
 
   // Calculate stats from original rows (not filtered)
   const stats = calculateStats(project.rows);
@@ -269,13 +254,15 @@ export function exportProjectToExcel(project: BulkProject, options: ExportOption
   }
 
   // Add Q&A sheet
-  const qaSheet = createResponsesSheet(filteredRows);
+  const qaSheet = createResponsesSheet(project, filteredRows);
   XLSX.utils.book_append_sheet(wb, qaSheet, "Q&A");
 
   // Generate filename
   const timestamp = new Date().toISOString().split("T")[0];
   const sanitizedName = project.name.replace(/[^a-z0-9]/gi, "_").substring(0, 50);
-  const filterSuffix = opts.confidenceFilter !== "all" ? `_${opts.confidenceFilter}` : "";
+  const section = opts.sectionId ? project.sections?.find((s) => s.id === opts.sectionId) : undefined;
+  const sectionSuffix = section ? `_${(section.externalId || section.title).replace(/[^a-z0-9]/gi, "_").substring(0, 30)}` : "";
+  const filterSuffix = `${sectionSuffix}${opts.confidenceFilter !== "all" ? `_${opts.confidenceFilter}` : ""}`;
   const filename = `${sanitizedName}${filterSuffix}_${timestamp}.xlsx`;
 
   // Write the file
@@ -283,14 +270,14 @@ export function exportProjectToExcel(project: BulkProject, options: ExportOption
 }
 
 // Export filtered versions for convenience
-export function exportCompletedOnly(project: BulkProject): void {
-  exportProjectToExcel(project, { includeIncomplete: false });
+export function exportCompletedOnly(project: BulkProject, options: ExportOptions = {}): void {
+  exportProjectToExcel(project, { ...options, includeIncomplete: false });
 }
 
-export function exportHighConfidenceOnly(project: BulkProject): void {
-  exportProjectToExcel(project, { confidenceFilter: "high" });
+export function exportHighConfidenceOnly(project: BulkProject, options: ExportOptions = {}): void {
+  exportProjectToExcel(project, { ...options, confidenceFilter: "high" });
 }
 
-export function exportLowConfidenceOnly(project: BulkProject): void {
-  exportProjectToExcel(project, { confidenceFilter: "low", includeIncomplete: false });
+export function exportLowConfidenceOnly(project: BulkProject, options: ExportOptions = {}): void {
+  exportProjectToExcel(project, { ...options, confidenceFilter: "low", includeIncomplete: false });
 }
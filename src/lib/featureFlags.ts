@@ -23,7 +23,7 @@ function envBool(key: string, defaultValue = false): boolean {
  *   FEATURE_CHAT_ENABLED=true
  */
 export const features = {
-  // Chat interface - POC, works but needs streaming/WebSocket for production
+  // Chat interface - responses stream over server-sent events
   chat: envBool("NEXT_PUBLIC_FEATURE_CHAT_ENABLED", true),
 
   // Usage dashboard - production ready
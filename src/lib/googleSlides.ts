@@ -0,0 +1,329 @@
+import { prisma } from "@/lib/prisma";
+import { fillTemplate } from "@/lib/templateEngine";
+import { logger } from "@/lib/logger";
+import type { TemplateFillContext } from "@/types/template";
+
+/**
+ * Google Slides Client
+ *
+ * Lists the user's presentations, finds {{placeholder}} tokens in a deck and
+ * fills a copy with batch text replacement. Calls go to the Slides and Drive
+ * REST APIs with the user's Google OAuth token (stored on sign-in).
+ * GOOGLE_SLIDES_API_URL / GOOGLE_DRIVE_API_URL / GOOGLE_OAUTH_TOKEN_URL can
+ * point the client at a local fake for development and tests.
+ */
+
+const DEFAULT_SLIDES_API_URL = "https://slides.googleapis.com/v1";
+const DEFAULT_DRIVE_API_URL = "https://www.googleapis.com/drive/v3";
+const DEFAULT_OAUTH_TOKEN_URL = "https://oauth2.googleapis.com/token";
+
+// Refresh tokens that expire within this window
+const TOKEN_EXPIRY_MARGIN_SECONDS = 60;
+
+// Matches {{placeholder}} tokens; the captured name excludes the braces
+const SLIDE_PLACEHOLDER_REGEX = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+export const REAUTH_MESSAGE =
+  "Google Slides access token not found or expired. Please sign out and sign in with Google to grant Slides access.";
+
+export type GoogleApiConfig = {
+  slidesUrl: string;
+  driveUrl: string;
+  tokenUrl: string;
+};
+
+export type DrivePresentation = {
+  id: string;
+  name: string;
+  modifiedTime?: string;
+  webViewLink?: string;
+  thumbnailLink?: string;
+};
+
+// Subset of the Slides API presentation resource that can hold text
+type TextContent = {
+  textElements?: { textRun?: { content?: string } }[];
+};
+
+export type SlidesPageElement = {
+  objectId?: string;
+  shape?: { text?: TextContent };
+  table?: { tableRows?: { tableCells?: { text?: TextContent }[] }[] };
+  elementGroup?: { children?: SlidesPageElement[] };
+};
+
+export type SlidesPresentation = {
+  presentationId: string;
+  title?: string;
+  slides?: { objectId?: string; pageElements?: SlidesPageElement[] }[];
+};
+
+export type SlidesRequest = {
+  replaceAllText: {
+    containsText: { text: string; matchCase: boolean };
+    replaceText: string;
+  };
+};
+
+export type SlidesBatchUpdateResponse = {
+  replies?: { replaceAllText?: { occurrencesChanged?: number } }[];
+};
+
+export interface SlidesClient {
+  listPresentations(options?: { query?: string; limit?: number }): Promise<DrivePresentation[]>;
+  getPresentation(presentationId: string): Promise<SlidesPresentation>;
+  copyPresentation(presentationId: string, title: string): Promise<DrivePresentation>;
+  batchUpdate(presentationId: string, requests: SlidesRequest[]): Promise<SlidesBatchUpdateResponse>;
+}
+
+export type PlaceholderReplacement = {
+  placeholder: string;
+  value: string;
+};
+
+export type FillPresentationResult = {
+  presentationId: string;
+  webViewLink: string;
+  replacementCount: number;
+  copied: boolean;
+};
+
+export function getGoogleApiConfig(): GoogleApiConfig {
+  return {
+    slidesUrl: process.env.GOOGLE_SLIDES_API_URL || DEFAULT_SLIDES_API_URL,
+    driveUrl: process.env.GOOGLE_DRIVE_API_URL || DEFAULT_DRIVE_API_URL,
+    tokenUrl: process.env.GOOGLE_OAUTH_TOKEN_URL || DEFAULT_OAUTH_TOKEN_URL,
+  };
+}
+
+export function getPresentationUrl(presentationId: string): string {
+  return `https://docs.google.com/presentation/d/${presentationId}/edit`;
+}
+
+async function googleRequest<T>(accessToken: string, url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      "Content-Type": "application/json",
+      ...init?.headers,
+    },
+  });
+
+  if (response.status === 401) {
+    throw new Error(REAUTH_MESSAGE);
+  }
+  if (!response.ok) {
+    let message = response.statusText;
+    try {
+      const json = (await response.json()) as { error?: { message?: string } };
+      message = json.error?.message || message;
+    } catch {
+      // Non-JSON error body
+    }
+    throw new Error(`Google API request failed (${response.status}): ${message}`);
+  }
+  return (await response.json()) as T;
+}
+
+/**
+ * Create a Slides/Drive client authorized with a user's access token
+ */
+export function createSlidesClient(accessToken: string, config: GoogleApiConfig = getGoogleApiConfig()): SlidesClient {
+  return {
+    async listPresentations({ query, limit = 30 } = {}) {
+      const filters = ["mimeType='application/vnd.google-apps.presentation'", "trashed=false"];
+      if (query?.trim()) {
+        filters.push(`name contains '${query.trim().replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`);
+      }
+      const params = new URLSearchParams({
+        q: filters.join(" and "),
+        pageSize: String(limit),
+        orderBy: "modifiedTime desc",
+        fields: "files(id,name,modifiedTime,webViewLink,thumbnailLink)",
+        supportsAllDrives: "true",
+        includeItemsFromAllDrives: "true",
+      });
+      const result = await googleRequest<{ files?: DrivePresentation[] }>(
+        accessToken,
+        `${config.driveUrl}/files?${params}`
+      );
+      return result.files || [];
+    },
+
+    getPresentation(presentationId) {
+      return googleRequest<SlidesPresentation>(
+        accessToken,
+        `${config.slidesUrl}/presentations/${encodeURIComponent(presentationId)}`
+      );
+    },
+
+    copyPresentation(presentationId, title) {
+      const params = new URLSearchParams({ fields: "id,name,webViewLink", supportsAllDrives: "true" });
+      return googleRequest<DrivePresentation>(
+        accessToken,
+        `${config.driveUrl}/files/${encodeURIComponent(presentationId)}/copy?${params}`,
+        { method: "POST", body: JSON.stringify({ name: title }) }
+      );
+    },
+
+    batchUpdate(presentationId, requests) {
+      return googleRequest<SlidesBatchUpdateResponse>(
+        accessToken,
+        `${config.slidesUrl}/presentations/${encodeURIComponent(presentationId)}:batchUpdate`,
+        { method: "POST", body: JSON.stringify({ requests }) }
+      );
+    },
+  };
+}
+
+function collectText(elements: SlidesPageElement[] | undefined, out: string[]): void {
+  for (const element of elements || []) {
+    const texts: (TextContent | undefined)[] = [element.shape?.text];
+    for (const row of element.table?.tableRows || []) {
+      for (const cell of row.tableCells || []) {
+        texts.push(cell.text);
+      }
+    }
+    for (const text of texts) {
+      // A token may be split across text runs when styling changes mid-token
+      const content = (text?.textElements || []).map((e) => e.textRun?.content || "").join("");
+      if (content) out.push(content);
+    }
+    collectText(element.elementGroup?.children, out);
+  }
+}
+
+/**
+ * Find the unique {{placeholder}} names in a presentation, in slide order
+ */
+export function extractSlidePlaceholders(presentation: SlidesPresentation): string[] {
+  const texts: string[] = [];
+  for (const slide of presentation.slides || []) {
+    collectText(slide.pageElements, texts);
+  }
+
+  const placeholders = new Set<string>();
+  for (const text of texts) {
+    for (const match of text.matchAll(SLIDE_PLACEHOLDER_REGEX)) {
+      placeholders.add(match[1]);
+    }
+  }
+  return [...placeholders];
+}
+
+/**
+ * Resolve placeholders (e.g. "customer.name") from fill context via the
+ * template engine. Unresolved and {{llm:...}} placeholders are omitted.
+ */
+export function resolveSlidePlaceholders(
+  placeholders: string[],
+  context: TemplateFillContext
+): PlaceholderReplacement[] {
+  const replacements: PlaceholderReplacement[] = [];
+  for (const placeholder of placeholders) {
+    const token = `{{${placeholder}}}`;
+    const result = fillTemplate(token, context);
+    if (result.placeholdersResolved.includes(token)) {
+      replacements.push({ placeholder, value: result.content });
+    }
+  }
+  return replacements;
+}
+
+export function buildReplaceRequests(replacements: PlaceholderReplacement[]): SlidesRequest[] {
+  return replacements.map(({ placeholder, value }) => ({
+    replaceAllText: {
+      containsText: { text: `{{${placeholder}}}`, matchCase: true },
+      replaceText: value,
+    },
+  }));
+}
+
+/**
+ * Fill a presentation's placeholders, copying it first unless copyFirst is false
+ */
+export async function fillPresentation(
+  client: SlidesClient,
+  options: {
+    presentationId: string;
+    replacements: PlaceholderReplacement[];
+    copyFirst?: boolean;
+    copyTitle?: string;
+  }
+): Promise<FillPresentationResult> {
+  const copyFirst = options.copyFirst ?? true;
+  let targetId = options.presentationId;
+  let webViewLink = getPresentationUrl(targetId);
+
+  if (copyFirst) {
+    const copy = await client.copyPresentation(
+      options.presentationId,
+      options.copyTitle || `Filled presentation ${new Date().toLocaleDateString()}`
+    );
+    targetId = copy.id;
+    webViewLink = copy.webViewLink || getPresentationUrl(copy.id);
+  }
+
+  const requests = buildReplaceRequests(options.replacements);
+  if (requests.length === 0) {
+    return { presentationId: targetId, webViewLink, replacementCount: 0, copied: copyFirst };
+  }
+
+  const response = await client.batchUpdate(targetId, requests);
+  const replacementCount = (response.replies || []).reduce(
+    (sum, reply) => sum + (reply.replaceAllText?.occurrencesChanged || 0),
+    0
+  );
+
+  return { presentationId: targetId, webViewLink, replacementCount, copied: copyFirst };
+}
+
+/**
+ * Get a valid Google access token for a user, refreshing it when expired.
+ * Throws REAUTH_MESSAGE when the user has no usable Google credentials.
+ */
+export async function getGoogleAccessToken(userId: string, config: GoogleApiConfig = getGoogleApiConfig()): Promise<string> {
+  const account = await prisma.account.findFirst({
+    where: { userId, provider: "google" },
+  });
+  if (!account?.access_token) {
+    throw new Error(REAUTH_MESSAGE);
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (!account.expires_at || account.expires_at - TOKEN_EXPIRY_MARGIN_SECONDS > now) {
+    return account.access_token;
+  }
+
+  if (!account.refresh_token || !process.env.GOOGLE_CLIENT_ID || !process.env.GOOGLE_CLIENT_SECRET) {
+    throw new Error(REAUTH_MESSAGE);
+  }
+
+  const response = await fetch(config.tokenUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      client_id: process.env.GOOGLE_CLIENT_ID,
+      client_secret: process.env.GOOGLE_CLIENT_SECRET,
+      refresh_token: account.refresh_token,
+      grant_type: "refresh_token",
+    }),
+  });
+  if (!response.ok) {
+    logger.warn("Google token refresh failed", { userId, status: response.status });
+    throw new Error(REAUTH_MESSAGE);
+  }
+
+  const tokens = (await response.json()) as { access_token: string; expires_in?: number; refresh_token?: string };
+  await prisma.account.update({
+    where: { id: account.id },
+    data: {
+      access_token: tokens.access_token,
+      expires_at: tokens.expires_in ? now + tokens.expires_in : null,
+      // Google only returns a new refresh token when it rotates
+      refresh_token: tokens.refresh_token || undefined,
+    },
+  });
+  return tokens.access_token;
+}
@@ -0,0 +1,354 @@
+import { Prisma } from "@prisma/client";
+import type { KnowledgeGapReport as DbGapReport } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getLLMClient } from "@/lib/llmProvider";
+import { getModel, getEffectiveSpeed } from "@/lib/config";
+import { loadSystemPrompt } from "@/lib/loadSystemPrompt";
+import { parseJsonResponse } from "@/lib/apiHelpers";
+import { logUsage } from "@/lib/usageTracking";
+import { getResultHref } from "@/lib/search";
+import { logger } from "@/lib/logger";
+import type { AuditUser } from "@/lib/auditLog";
+import type {
+  GapExampleQuestion,
+  GapSignal,
+  GapSignalCounts,
+  KnowledgeGapCluster,
+} from "@/types/knowledgeGaps";
+
+/**
+ * Knowledge Gaps
+ *
+ * Finds what the knowledge library is missing by looking at questions it
+ * answered poorly: low confidence, no skill matched (the answer fell back to
+ * reference URLs or general knowledge), flagged by someone or corrected by a
+ * reviewer. Project rows and quick questions from the chosen period are
+ * de-duplicated, then the LLM groups them into named topics. Each cluster
+ * carries how often its questions were asked and links to examples, and can be
+ * handed to /knowledge/add as a "gap" to plan a new skill. Reports are shared
+ * by everyone with knowledge insights access, so only rows from projects
+ * visible to the whole organization are included.
+ *
+ * Reports are built in the background; only one runs at a time.
+ */
+
+export const DEFAULT_GAP_PERIOD_DAYS = 90;
+
+// Weak answers loaded per source (most recent first)
+const MAX_ANSWERS_PER_SOURCE = 2000;
+
+// Distinct questions sent to the LLM (most frequently asked first)
+const MAX_QUESTIONS_TO_CLUSTER = 300;
+
+// Longest question text sent to the LLM
+const MAX_QUESTION_LENGTH = 300;
+
+const MAX_EXAMPLES_PER_CLUSTER = 5;
+
+// A queued or running report older than this is assumed to have died with its server
+const STALE_RUN_MS = 30 * 60 * 1000;
+
+type AnswerFields = {
+  confidence: string | null;
+  skills: unknown;
+  flaggedForReview: boolean;
+  reviewStatus: string;
+  userEditedAnswer: string | null;
+};
+
+export type WeakAnswer = GapExampleQuestion;
+
+export type GapQuestion = {
+  text: string;
+  count: number;
+  answers: WeakAnswer[];
+};
+
+type RawCluster = {
+  name?: string;
+  description?: string;
+  suggestedSkillTitle?: string;
+  questionIndexes?: unknown;
+};
+
+/**
+ * Why an answer counts as weak (empty if it doesn't)
+ */
+export function getGapSignals(answer: AnswerFields): GapSignal[] {
+  const signals: GapSignal[] = [];
+  if (answer.confidence?.trim().toLowerCase().startsWith("low")) signals.push("lowConfidence");
+  if (!Array.isArray(answer.skills) || answer.skills.length === 0) signals.push("noSkills");
+  if (answer.flaggedForReview) signals.push("flagged");
+  if (answer.reviewStatus === "CORRECTED" || answer.userEditedAnswer) signals.push("corrected");
+  return signals;
+}
+
+function weakAnswerFilter(skillsField: "usedSkills" | "skillsUsed") {
+  return [
+    { confidence: { startsWith: "low", mode: "insensitive" as const } },
+    { [skillsField]: { equals: Prisma.AnyNull } },
+    { [skillsField]: { equals: [] } },
+    { flaggedForReview: true },
+    { reviewStatus: "CORRECTED" as const },
+    { userEditedAnswer: { not: null } },
+  ];
+}
+
+/**
+ * Weakly answered project rows and quick questions since the given date
+ */
+export async function collectWeakAnswers(since: Date): Promise<WeakAnswer[]> {
+  const [rows, questions] = await Promise.all([
+    prisma.bulkRow.findMany({
+      where: {
+        status: "COMPLETED",
+        createdAt: { gte: since },
+        project: { visibility: "ORG" },
+        OR: weakAnswerFilter("usedSkills"),
+      },
+      select: {
+        id: true,
+        projectId: true,
+        question: true,
+        confidence: true,
+        usedSkills: true,
+        flaggedForReview: true,
+        reviewStatus: true,
+        userEditedAnswer: true,
+        createdAt: true,
+        project: { select: { name: true } },
+      },
+      orderBy: { createdAt: "desc" },
+      take: MAX_ANSWERS_PER_SOURCE,
+    }),
+    prisma.questionHistory.findMany({
+      where: { createdAt: { gte: since }, OR: weakAnswerFilter("skillsUsed") },
+      select: {
+        id: true,
+        question: true,
+        confidence: true,
+        skillsUsed: true,
+        flaggedForReview: true,
+        reviewStatus: true,
+        userEditedAnswer: true,
+        createdAt: true,
+      },
+      orderBy: { createdAt: "desc" },
+      take: MAX_ANSWERS_PER_SOURCE,
+    }),
+  ]);
+
+  const answers: WeakAnswer[] = [];
+  for (const row of rows) {
+    const signals = getGapSignals({ ...row, skills: row.usedSkills });
+    if (signals.length === 0 || !row.question.trim()) continue;
+    answers.push({
+      question: row.question.trim(),
+      source: "project",
+      href: getResultHref("project-row", { id: row.id, title: row.question, parentId: row.projectId }),
+      projectName: row.project.name,
+      askedAt: row.createdAt.toISOString(),
+      signals,
+    });
+  }
+  for (const entry of questions) {
+    const signals = getGapSignals({ ...entry, skills: entry.skillsUsed });
+    if (signals.length === 0 || !entry.question.trim()) continue;
+    answers.push({
+      question: entry.question.trim(),
+      source: "question",
+      href: getResultHref("question", { id: entry.id, title: entry.question, parentId: null }),
+      askedAt: entry.createdAt.toISOString(),
+      signals,
+    });
+  }
+  return answers;
+}
+
+function normalizeQuestion(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, " ").replace(/[?.!\s]+$/, "").trim();
+}
+
+/**
+ * Merge answers to the same question, most frequently asked first
+ */
+export function groupDuplicateQuestions(answers: WeakAnswer[]): GapQuestion[] {
+  const byText = new Map<string, GapQuestion>();
+  for (const answer of answers) {
+    const key = normalizeQuestion(answer.question);
+    const existing = byText.get(key);
+    if (existing) {
+      existing.count++;
+      existing.answers.push(answer);
+    } else {
+      byText.set(key, { text: answer.question, count: 1, answers: [answer] });
+    }
+  }
+  return [...byText.values()].sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Turn the LLM's clusters into report clusters, ignoring unknown or repeated
+ * question indexes (1-based), and sort them by how often they were asked
+ */
+export function buildClusters(
+  raw: RawCluster[],
+  questions: GapQuestion[]
+): { clusters: KnowledgeGapCluster[]; unclustered: number } {
+  const assigned = new Set<number>();
+  const clusters: KnowledgeGapCluster[] = [];
+
+  for (const candidate of raw) {
+    const indexes = Array.isArray(candidate.questionIndexes) ? candidate.questionIndexes : [];
+    const members: GapQuestion[] = [];
+    for (const value of indexes) {
+      const index = Number(value) - 1;
+      if (!Number.isInteger(index) || index < 0 || index >= questions.length || assigned.has(index)) continue;
+      assigned.add(index);
+      members.push(questions[index]);
+    }
+    const name = candidate.name?.trim();
+    if (!name || members.length === 0) continue;
+
+    const signals: GapSignalCounts = { lowConfidence: 0, noSkills: 0, flagged: 0, corrected: 0 };
+    for (const member of members) {
+      for (const answer of member.answers) {
+        for (const signal of answer.signals) signals[signal]++;
+      }
+    }
+
+    const byFrequency = [...members].sort((a, b) => b.count - a.count);
+    clusters.push({
+      id: `gap-${clusters.length + 1}`,
+      name,
+      description: candidate.description?.trim() || "",
+      suggestedSkillTitle: candidate.suggestedSkillTitle?.trim() || name,
+      frequency: members.reduce((sum, member) => sum + member.count, 0),
+      questionCount: members.length,
+      signals,
+      examples: byFrequency.slice(0, MAX_EXAMPLES_PER_CLUSTER).map((member) => member.answers[0]),
+    });
+  }
+
+  clusters.sort((a, b) => b.frequency - a.frequency);
+  return { clusters, unclustered: questions.length - assigned.size };
+}
+
+async function clusterQuestions(questions: GapQuestion[], user?: AuditUser): Promise<RawCluster[]> {
+  const systemPrompt = await loadSystemPrompt(
+    "knowledge_gaps",
+    "You group questions a knowledge library answered poorly into missing topics and return them as JSON."
+  );
+  const model = getModel(getEffectiveSpeed("knowledge-gaps"));
+  const anthropic = await getLLMClient();
+
+  const list = questions
+    .map((q, i) => `${i + 1}. ${q.count > 1 ? `(asked ${q.count}x) ` : ""}${q.text.replace(/\s+/g, " ").slice(0, MAX_QUESTION_LENGTH)}`)
+    .join("\n");
+  const userPrompt = [
+    "WEAKLY ANSWERED QUESTIONS:",
+    list,
+    "",
+    "Group these questions into knowledge gaps. Return ONLY the JSON object.",
+  ].join("\n");
+
+  const response = await anthropic.messages.create({
+    model,
+    max_tokens: 8000,
+    temperature: 0,
+    system: systemPrompt,
+    messages: [{ role: "user", content: userPrompt }],
+  });
+
+  logUsage({
+    userId: user?.id,
+    userEmail: user?.email,
+    feature: "knowledge-gaps",
+    model,
+    inputTokens: response.usage?.input_tokens || 0,
+    outputTokens: response.usage?.output_tokens || 0,
+    metadata: { questionCount: questions.length },
+  });
+
+  const content = response.content[0];
+  if (content?.type !== "text") {
+    throw new Error("Unexpected response format");
+  }
+  const parsed = parseJsonResponse<{ clusters?: RawCluster[] }>(content.text);
+  return Array.isArray(parsed.clusters) ? parsed.clusters : [];
+}
+
+/**
+ * Build a report: collect weak answers, cluster them and store the result
+ */
+export async function runKnowledgeGapReport(reportId: string, user?: AuditUser): Promise<void> {
+  const report = await prisma.knowledgeGapReport.update({
+    where: { id: reportId },
+    data: { status: "RUNNING" },
+  });
+
+  try {
+    const since = new Date(Date.now() - report.periodDays * 24 * 60 * 60 * 1000);
+    const answers = await collectWeakAnswers(since);
+    const questions = groupDuplicateQuestions(answers).slice(0, MAX_QUESTIONS_TO_CLUSTER);
+
+    const { clusters, unclustered } = questions.length > 0
+      ? buildClusters(await clusterQuestions(questions, user), questions)
+      : { clusters: [], unclustered: 0 };
+
+    await prisma.knowledgeGapReport.update({
+      where: { id: reportId },
+      data: {
+        status: "COMPLETED",
+        questionCount: answers.length,
+        clusters: clusters as unknown as Prisma.InputJsonValue,
+        unclustered,
+        completedAt: new Date(),
+      },
+    });
+    logger.info("Knowledge gap report completed", { reportId, answers: answers.length, clusters: clusters.length });
+  } catch (error) {
+    logger.error("Knowledge gap report failed", error, { reportId });
+    await prisma.knowledgeGapReport.update({
+      where: { id: reportId },
+      data: {
+        status: "FAILED",
+        error: error instanceof Error ? error.message : "Gap analysis failed",
+        completedAt: new Date(),
+      },
+    });
+  }
+}
+
+/**
+ * Start a report in the background, or return the one already in progress
+ */
+export async function startKnowledgeGapReport(
+  periodDays: number,
+  user?: AuditUser
+): Promise<{ report: DbGapReport; alreadyRunning: boolean }> {
+  const active = await prisma.knowledgeGapReport.findFirst({
+    where: {
+      status: { in: ["QUEUED", "RUNNING"] },
+      createdAt: { gte: new Date(Date.now() - STALE_RUN_MS) },
+    },
+    orderBy: { createdAt: "desc" },
+  });
+  if (active) {
+    return { report: active, alreadyRunning: true };
+  }
+
+  const report = await prisma.knowledgeGapReport.create({
+    data: {
+      periodDays,
+      createdById: user?.id ?? null,
+      createdByEmail: user?.email ?? null,
+    },
+  });
+
+  runKnowledgeGapReport(report.id, user).catch((error) => {
+    logger.error("Knowledge gap report run failed", error, { reportId: report.id });
+  });
+
+  return { report, alreadyRunning: false };
+}
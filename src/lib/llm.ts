@@ -1,6 +1,6 @@
 import { defaultSkillPrompt } from "./skillPrompt";
 import { defaultQuestionPrompt } from "./questionPrompt";
-import Anthropic from "@anthropic-ai/sdk";
+import { getLLMClient } from "./llmProvider";
 import { CLAUDE_MODEL, getModel, type ModelSpeed } from "./config";
 
 // Re-export ModelSpeed for consumers
@@ -33,14 +33,7 @@ export async function generateSkillDraftFromMessages(
     throw new Error("At least one conversation message is required to generate a skill draft.");
   }
 
-  const apiKey = process.env.ANTHROPIC_API_KEY;
-  if (!apiKey) {
-    throw new Error("ANTHROPIC_API_KEY is not set. Please configure it in .env.local.");
-  }
-
-  const anthropic = new Anthropic({
-    apiKey: apiKey,
-  });
+  const anthropic = await getLLMClient();
 
   try {
     const response = await anthropic.messages.create({
@@ -102,14 +95,7 @@ export async function answerQuestionWithPrompt(
     throw new Error("A question is required to generate a response.");
   }
 
-  const apiKey = process.env.ANTHROPIC_API_KEY;
-  if (!apiKey) {
-    throw new Error("ANTHROPIC_API_KEY is not set. Please configure it in .env.local.");
-  }
-
-  const anthropic = new Anthropic({
-    apiKey: apiKey,
-  });
+  const anthropic = await getLLMClient();
 
   // Build skills context if provided
   let skillsContext = "";
@@ -241,6 +227,7 @@ export type BatchAnswerResult = {
  * as the system prompt and skills context are only sent once.
  *
  * @param modelSpeed - "fast" for Haiku (2-5s), "quality" for Sonnet (10-30s)
+ * @param customerContext - Customer profile section (see customerContext.ts), sent apart from skills
  */
 export async function answerQuestionsBatch(
   questions: { index: number; question: string }[],
@@ -248,19 +235,13 @@ export async function answerQuestionsBatch(
   skills?: { title: string; content: string }[],
   fallbackContent?: FallbackContent[],
   modelSpeed: ModelSpeed = "quality",
+  customerContext?: string,
 ): Promise<BatchAnswerResult> {
   if (!questions || questions.length === 0) {
     throw new Error("At least one question is required.");
   }
 
-  const apiKey = process.env.ANTHROPIC_API_KEY;
-  if (!apiKey) {
-    throw new Error("ANTHROPIC_API_KEY is not set. Please configure it in .env.local.");
-  }
-
-  const anthropic = new Anthropic({
-    apiKey: apiKey,
-  });
+  const anthropic = await getLLMClient();
 
   // Build skills context if provided
   let skillsContext = "";
@@ -317,6 +298,20 @@ export async function answerQuestionsBatch(
     }
   }
 
+  // Customer context is its own section: it tailors the answers but is not a source of product facts
+  const customerSection = customerContext?.trim()
+    ? [
+        "# CUSTOMER CONTEXT",
+        "",
+        "These questions come from the customer described below. Tailor each answer to their industry, situation and considerations. Do not treat this section as evidence of product capabilities - use the skills and reference documents for that.",
+        "",
+        customerContext.trim(),
+        "",
+        "---",
+        "",
+      ].join("\n")
+    : "";
+
   // Build the questions list
   const questionsText = questions
     .map((q) => `${q.index}. ${q.question.trim()}`)
@@ -340,7 +335,7 @@ export async function answerQuestionsBatch(
   ].join("\n");
 
   // Combine context with the batch instruction
-  const contextPrefix = skillsContext || fallbackContext;
+  const contextPrefix = customerSection + (skillsContext || fallbackContext);
   const userMessage = contextPrefix ? `${contextPrefix}${batchInstruction}` : batchInstruction;
 
   const model = getModel(modelSpeed);
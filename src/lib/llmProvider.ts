@@ -0,0 +1,199 @@
+import Anthropic from "@anthropic-ai/sdk";
+import { AnthropicBedrock } from "@anthropic-ai/bedrock-sdk";
+import { MessageStream } from "@anthropic-ai/sdk/lib/MessageStream";
+import { getAppSetting, DEFAULT_RATE_LIMIT_SETTINGS } from "@/lib/appSettings";
+import { getBedrockModelId } from "@/lib/config";
+
+/**
+ * LLM Provider Abstraction
+ *
+ * Every LLM call goes through `getLLMClient()`, which returns a client for the
+ * provider selected in admin settings (LLM_PROVIDER) or by the environment:
+ *
+ * - anthropic: Anthropic API (ANTHROPIC_API_KEY)
+ * - bedrock:   AWS Bedrock (AWS_REGION + standard AWS credential chain).
+ *              Model names from getModel() are mapped to Bedrock model IDs.
+ * - mock:      Deterministic offline responses for local development and tests.
+ *              Only selectable via the LLM_PROVIDER environment variable.
+ *
+ * The env var takes precedence over the admin setting so deployments can pin a provider.
+ */
+
+export type LLMProviderName = "anthropic" | "bedrock" | "mock";
+
+/**
+ * The subset of the Anthropic client used by the app.
+ * Both the Anthropic and Bedrock SDK clients satisfy it.
+ */
+export type LLMClient = {
+  messages: Pick<Anthropic["messages"], "create" | "stream">;
+};
+
+const PROVIDERS: readonly LLMProviderName[] = ["anthropic", "bedrock", "mock"];
+
+function isProviderName(value: string | undefined): value is LLMProviderName {
+  return !!value && (PROVIDERS as readonly string[]).includes(value);
+}
+
+/**
+ * Resolve the active provider: LLM_PROVIDER env var, then the admin setting, then the default.
+ */
+export async function getLLMProvider(): Promise<LLMProviderName> {
+  const envProvider = process.env.LLM_PROVIDER?.toLowerCase();
+  if (isProviderName(envProvider)) {
+    return envProvider;
+  }
+
+  const setting = await getAppSetting("LLM_PROVIDER", DEFAULT_RATE_LIMIT_SETTINGS.LLM_PROVIDER);
+  // "mock" is never honored from the database - it would silently disable real answers
+  return setting === "bedrock" ? "bedrock" : "anthropic";
+}
+
+/**
+ * Get an initialized client for the active provider.
+ * Throws if the provider's credentials are not configured.
+ */
+export async function getLLMClient(): Promise<LLMClient> {
+  return createLLMClient(await getLLMProvider());
+}
+
+/**
+ * Create a client for a specific provider
+ */
+export function createLLMClient(provider: LLMProviderName): LLMClient {
+  switch (provider) {
+    case "bedrock":
+      return createBedrockClient();
+    case "mock":
+      return createMockClient();
+    default:
+      return createAnthropicClient();
+  }
+}
+
+function createAnthropicClient(): LLMClient {
+  const apiKey = process.env.ANTHROPIC_API_KEY;
+  if (!apiKey) {
+    throw new Error("ANTHROPIC_API_KEY not configured");
+  }
+  return new Anthropic({ apiKey });
+}
+
+function createBedrockClient(): LLMClient {
+  const awsRegion = process.env.BEDROCK_AWS_REGION || process.env.AWS_REGION;
+  if (!awsRegion) {
+    throw new Error("AWS_REGION not configured for the Bedrock provider");
+  }
+
+  // Credentials come from the standard AWS chain (env vars, shared config, instance role)
+  const client = new AnthropicBedrock({ awsRegion });
+
+  // Callers pass Anthropic model names (getModel/CLAUDE_MODEL); Bedrock needs its own IDs
+  const create = ((params: Anthropic.MessageCreateParams, options?: Anthropic.RequestOptions) =>
+    client.messages.create({ ...params, model: getBedrockModelId(params.model) }, options)
+  ) as LLMClient["messages"]["create"];
+
+  const stream = ((params: Anthropic.MessageStreamParams, options?: Anthropic.RequestOptions) =>
+    client.messages.stream({ ...params, model: getBedrockModelId(params.model) }, options)
+  ) as LLMClient["messages"]["stream"];
+
+  return { messages: { create, stream } };
+}
+
+// ============================================
+// MOCK PROVIDER
+// ============================================
+
+/**
+ * Text returned by the mock provider. Echoes the last user message so
+ * callers can see their input made it through the pipeline.
+ */
+function buildMockText(params: Anthropic.MessageCreateParams): string {
+  const override = process.env.LLM_MOCK_RESPONSE;
+  if (override) return override;
+
+  const lastUser = [...params.messages].reverse().find((m) => m.role === "user");
+  const prompt = typeof lastUser?.content === "string"
+    ? lastUser.content
+    : (lastUser?.content || [])
+        .map((block) => (block.type === "text" ? block.text : ""))
+        .join(" ");
+
+  return `[mock ${params.model}] ${prompt.trim().slice(0, 200)}`;
+}
+
+// Rough token estimate (~4 characters per token) so usage tracking has plausible numbers
+function estimateTokens(text: string): number {
+  return Math.max(1, Math.ceil(text.length / 4));
+}
+
+function buildMockMessage(params: Anthropic.MessageCreateParams): Anthropic.Message {
+  const text = buildMockText(params);
+  const inputText = JSON.stringify(params.system ?? "") + JSON.stringify(params.messages);
+
+  return {
+    id: `msg_mock_${Date.now()}`,
+    type: "message",
+    role: "assistant",
+    model: params.model,
+    content: [{ type: "text", text, citations: null }],
+    stop_reason: "end_turn",
+    stop_sequence: null,
+    usage: {
+      input_tokens: estimateTokens(inputText),
+      output_tokens: estimateTokens(text),
+      cache_creation_input_tokens: null,
+      cache_read_input_tokens: null,
+      cache_creation: null,
+      server_tool_use: null,
+      service_tier: null,
+    },
+  } as Anthropic.Message;
+}
+
+/**
+ * Replay a complete message as the raw event sequence the API would stream
+ */
+function mockStreamEvents(message: Anthropic.Message): Anthropic.RawMessageStreamEvent[] {
+  const text = message.content[0]?.type === "text" ? message.content[0].text : "";
+  const chunks = text.match(/[\s\S]{1,20}/g) || [];
+
+  return [
+    { type: "message_start", message: { ...message, content: [], stop_reason: null } },
+    { type: "content_block_start", index: 0, content_block: { type: "text", text: "", citations: null } },
+    ...chunks.map((chunk) => ({
+      type: "content_block_delta" as const,
+      index: 0,
+      delta: { type: "text_delta" as const, text: chunk },
+    })),
+    { type: "content_block_stop", index: 0 },
+    {
+      type: "message_delta",
+      delta: { stop_reason: "end_turn", stop_sequence: null },
+      usage: message.usage,
+    },
+    { type: "message_stop" },
+  ] as Anthropic.RawMessageStreamEvent[];
+}
+
+function createMockClient(): LLMClient {
+  const create = (async (params: Anthropic.MessageCreateParams) =>
+    buildMockMessage(params)
+  ) as unknown as LLMClient["messages"]["create"];
+
+  const stream = ((params: Anthropic.MessageStreamParams) => {
+    const encoder = new TextEncoder();
+    const events = mockStreamEvents(buildMockMessage(params));
+    const readable = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const event of events) {
+          controller.enqueue(encoder.encode(JSON.stringify(event) + "\n"));
+        }
+        controller.close();
+      },
+    });
+    return MessageStream.fromReadableStream(readable);
+  }) as LLMClient["messages"]["stream"];
+
+  return { messages: { create, stream } };
+}
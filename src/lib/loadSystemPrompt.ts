@@ -36,6 +36,8 @@ const keyToContext: Record<string, PromptContext> = {
   customer_profile: "customer_profile",
   prompt_optimize: "prompt_optimize",
   instruction_builder: "instruction_builder",
+  questionnaire_extract: "questionnaire_extract",
+  knowledge_gaps: "knowledge_gaps",
 };
 
 // Type for cached DB data
@@ -0,0 +1,291 @@
+import type { Notification as DbNotification, NotificationType, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { logger } from "@/lib/logger";
+import type { SkillOwner } from "@/types/skill";
+import {
+  NOTIFICATION_TYPE_LABELS,
+  type NotificationDigest,
+  type NotificationPreferences,
+  type UserNotification,
+} from "@/types/notification";
+
+/**
+ * Notifications
+ *
+ * Persisted in-app notifications shown under the bell in the sidebar. Routes
+ * call notifyUsers after the change they announce has been saved; sending is
+ * best effort and never fails the request. Slack messages (slackNotify.ts)
+ * are unchanged and go out alongside.
+ *
+ * Each user's preferences (UserPreference.notificationSettings) can mute
+ * types and choose a daily or weekly digest. With a digest, notifications are
+ * still stored but held (pendingDigest) instead of raising the unread badge;
+ * the digest scheduler then adds one DIGEST notification summarizing them.
+ */
+
+// How often the scheduler looks for digests that are due
+const DIGEST_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+const DIGEST_INTERVAL_MS: Record<Exclude<NotificationDigest, "off">, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+export type NotificationInput = {
+  type: NotificationType;
+  title: string;
+  body?: string | null;
+  link?: string | null;
+  actorName?: string | null;
+};
+
+type StoredNotificationSettings = NotificationPreferences & { lastDigestAt?: string };
+
+/**
+ * Read stored notification settings, filling in defaults
+ */
+export function getNotificationSettings(value: Prisma.JsonValue | null | undefined): StoredNotificationSettings {
+  const stored = (value && typeof value === "object" && !Array.isArray(value) ? value : {}) as Record<string, unknown>;
+  const muted = Array.isArray(stored.muted)
+    ? (stored.muted as unknown[]).filter((type): type is NotificationType =>
+        typeof type === "string" && type in NOTIFICATION_TYPE_LABELS
+      )
+    : [];
+  const digest: NotificationDigest = stored.digest === "daily" || stored.digest === "weekly" ? stored.digest : "off";
+  return {
+    muted,
+    digest,
+    ...(typeof stored.lastDigestAt === "string" && { lastDigestAt: stored.lastDigestAt }),
+  };
+}
+
+/**
+ * Notify users of an event, following each user's preferences. Missing and
+ * duplicate IDs are ignored, as is the user who caused the event.
+ * Returns the number of notifications stored.
+ */
+export async function notifyUsers(
+  userIds: (string | null | undefined)[],
+  input: NotificationInput,
+  options: { excludeUserId?: string } = {}
+): Promise<number> {
+  const recipients = [...new Set(userIds)].filter(
+    (id): id is string => Boolean(id) && id !== options.excludeUserId
+  );
+  if (recipients.length === 0) {
+    return 0;
+  }
+
+  try {
+    const preferences = await prisma.userPreference.findMany({
+      where: { userId: { in: recipients } },
+      select: { userId: true, notificationSettings: true },
+    });
+    const settingsByUser = new Map(
+      preferences.map((pref) => [pref.userId, getNotificationSettings(pref.notificationSettings)])
+    );
+
+    const data = recipients.flatMap((userId) => {
+      const settings = settingsByUser.get(userId) ?? getNotificationSettings(null);
+      if (settings.muted.includes(input.type)) {
+        return [];
+      }
+      return [{
+        userId,
+        type: input.type,
+        title: input.title,
+        body: input.body ?? null,
+        link: input.link ?? null,
+        actorName: input.actorName ?? null,
+        pendingDigest: settings.digest !== "off",
+      }];
+    });
+    if (data.length === 0) {
+      return 0;
+    }
+
+    const result = await prisma.notification.createMany({ data });
+    return result.count;
+  } catch (error) {
+    logger.warn("Failed to store notifications", { error, type: input.type });
+    return 0;
+  }
+}
+
+/**
+ * Users who can review answers (REVIEW_ANSWERS or ADMIN, or the legacy ADMIN role).
+ * Empty when the lookup fails, like notifyUsers.
+ */
+export async function getReviewerIds(): Promise<string[]> {
+  try {
+    const reviewers = await prisma.user.findMany({
+      where: {
+        OR: [
+          { capabilities: { hasSome: ["REVIEW_ANSWERS", "ADMIN"] } },
+          { role: "ADMIN" },
+        ],
+      },
+      select: { id: true },
+    });
+    return reviewers.map((user) => user.id);
+  } catch (error) {
+    logger.warn("Failed to look up reviewers for notifications", { error });
+    return [];
+  }
+}
+
+/**
+ * User IDs of a skill's owners (owners listed only by email are looked up)
+ */
+export async function getSkillOwnerIds(skill: { ownerId: string | null; owners: Prisma.JsonValue }): Promise<string[]> {
+  const owners = (skill.owners as SkillOwner[] | null) || [];
+  const ids = owners.map((owner) => owner.userId).filter((id): id is string => Boolean(id));
+  const emails = owners.filter((owner) => !owner.userId && owner.email).map((owner) => owner.email!);
+  if (emails.length > 0) {
+    try {
+      const users = await prisma.user.findMany({ where: { email: { in: emails } }, select: { id: true } });
+      ids.push(...users.map((user) => user.id));
+    } catch (error) {
+      logger.warn("Failed to look up skill owners for notifications", { error });
+    }
+  }
+  return [...new Set([skill.ownerId, ...ids].filter((id): id is string => Boolean(id)))];
+}
+
+export function toUserNotification(notification: DbNotification): UserNotification {
+  return {
+    id: notification.id,
+    type: notification.type,
+    title: notification.title,
+    body: notification.body ?? undefined,
+    link: notification.link ?? undefined,
+    actorName: notification.actorName ?? undefined,
+    read: Boolean(notification.readAt),
+    pendingDigest: notification.pendingDigest,
+    createdAt: notification.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Whether a user's digest should go out: a full interval after the last
+ * digest, or after the oldest held notification when there was none yet
+ */
+export function isDigestDue(
+  digest: NotificationDigest,
+  lastDigestAt: string | undefined,
+  oldestPendingAt: Date,
+  now: Date
+): boolean {
+  if (digest === "off") return true;
+  const since = lastDigestAt ? new Date(lastDigestAt).getTime() : oldestPendingAt.getTime();
+  return now.getTime() - since >= DIGEST_INTERVAL_MS[digest];
+}
+
+/**
+ * Title and body of a digest: counts per type, then the latest titles
+ */
+export function buildDigest(
+  notifications: Pick<DbNotification, "type" | "title">[],
+  digest: Exclude<NotificationDigest, "off">
+): { title: string; body: string } {
+  const counts = new Map<NotificationType, number>();
+  for (const notification of notifications) {
+    counts.set(notification.type, (counts.get(notification.type) || 0) + 1);
+  }
+  const lines = [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .map(([type, count]) => `${count} × ${type === "DIGEST" ? "Digest" : NOTIFICATION_TYPE_LABELS[type]}`);
+  const latest = notifications.slice(0, 5).map((notification) => `• ${notification.title}`);
+  const more = notifications.length > latest.length ? [`…and ${notifications.length - latest.length} more`] : [];
+
+  return {
+    title: `Your ${digest} digest: ${notifications.length} update${notifications.length === 1 ? "" : "s"}`,
+    body: [...lines, "", ...latest, ...more].join("\n"),
+  };
+}
+
+/**
+ * Send the digests that are due. Held notifications become read once they
+ * are summarized, so only the digest itself shows as unread. Users who
+ * turned the digest off get their held notifications released as unread.
+ * Returns the number of digests sent.
+ */
+export async function runNotificationDigests(now = new Date()): Promise<number> {
+  const pending = await prisma.notification.groupBy({
+    by: ["userId"],
+    where: { pendingDigest: true },
+    _min: { createdAt: true },
+  });
+  if (pending.length === 0) {
+    return 0;
+  }
+
+  const preferences = await prisma.userPreference.findMany({
+    where: { userId: { in: pending.map((entry) => entry.userId) } },
+    select: { userId: true, notificationSettings: true },
+  });
+  const settingsByUser = new Map(
+    preferences.map((pref) => [pref.userId, getNotificationSettings(pref.notificationSettings)])
+  );
+
+  let sent = 0;
+  for (const entry of pending) {
+    const settings = settingsByUser.get(entry.userId) ?? getNotificationSettings(null);
+    try {
+      if (settings.digest === "off") {
+        await prisma.notification.updateMany({
+          where: { userId: entry.userId, pendingDigest: true },
+          data: { pendingDigest: false },
+        });
+        continue;
+      }
+      if (!isDigestDue(settings.digest, settings.lastDigestAt, entry._min.createdAt ?? now, now)) {
+        continue;
+      }
+
+      const held = await prisma.notification.findMany({
+        where: { userId: entry.userId, pendingDigest: true },
+        select: { id: true, type: true, title: true },
+        orderBy: { createdAt: "desc" },
+      });
+      if (held.length === 0) continue;
+
+      const digest = buildDigest(held, settings.digest);
+      await prisma.$transaction([
+        prisma.notification.updateMany({
+          where: { id: { in: held.map((notification) => notification.id) } },
+          data: { pendingDigest: false, readAt: now },
+        }),
+        prisma.notification.create({
+          data: { userId: entry.userId, type: "DIGEST", title: digest.title, body: digest.body },
+        }),
+        prisma.userPreference.update({
+          where: { userId: entry.userId },
+          data: { notificationSettings: { ...settings, lastDigestAt: now.toISOString() } },
+        }),
+      ]);
+      sent++;
+    } catch (error) {
+      logger.error("Notification digest failed", error, { userId: entry.userId });
+    }
+  }
+  if (sent > 0) {
+    logger.info("Notification digests sent", { sent });
+  }
+  return sent;
+}
+
+let digestTimer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Start the periodic digest check. Safe to call more than once.
+ * Called from instrumentation on server startup.
+ */
+export function startNotificationDigestScheduler(): void {
+  if (digestTimer) return;
+  digestTimer = setInterval(() => {
+    runNotificationDigests().catch((error) => {
+      logger.error("Notification digest run failed", error);
+    });
+  }, DIGEST_CHECK_INTERVAL_MS);
+}
@@ -0,0 +1,187 @@
+import { getLLMClient } from "@/lib/llmProvider";
+import { getModel, getEffectiveSpeed } from "@/lib/config";
+import { loadSystemPrompt } from "@/lib/loadSystemPrompt";
+import { parseJsonResponse } from "@/lib/apiHelpers";
+import { logger } from "@/lib/logger";
+import { extractPdfWithClaude, PDF_NO_TEXT_ERROR } from "@/lib/pdfText";
+import type { ParsedDocumentQuestion } from "@/types/bulkProject";
+
+/**
+ * PDF Questionnaire Extraction
+ *
+ * PDFs have no reliable table or list structure once converted to text, so
+ * the text from pdf-parse is sent to the LLM (prompt context
+ * "questionnaire_extract") to pick out each question with its printed ID and
+ * section heading. Long documents are sent in page-aligned chunks. PDFs
+ * without a text layer are read with the shared extractor in pdfText.ts.
+ */
+
+// Keeps each request (and the JSON listing its questions) well within output limits
+const MAX_CHUNK_CHARS = 24000;
+const MAX_PDF_CHARS = 400000;
+
+const PDF_TOO_LONG_ERROR = "PDF is too long to import. Split it into smaller files.";
+const PDF_NO_QUESTIONS_ERROR = "No questions were found in this PDF. Make sure it is a questionnaire.";
+
+// Problems with the uploaded file itself, safe to show to the user as they are
+export const PDF_INPUT_ERRORS = [PDF_NO_TEXT_ERROR, PDF_TOO_LONG_ERROR, PDF_NO_QUESTIONS_ERROR];
+
+type PdfPage = { num: number; text: string };
+
+type ExtractedQuestion = {
+  id?: string | null;
+  section?: string | null;
+  question?: string | null;
+};
+
+export type PdfExtractionResult = {
+  questions: ParsedDocumentQuestion[];
+  pageCount: number;
+  usage: { model: string; inputTokens: number; outputTokens: number };
+};
+
+/**
+ * Extract per-page text with pdf-parse
+ */
+export async function extractPdfPages(buffer: Buffer): Promise<PdfPage[]> {
+  const { PDFParse } = await import("pdf-parse");
+  const parser = new PDFParse({ data: buffer });
+  try {
+    const result = await parser.getText();
+    return result.pages.map((page) => ({ num: page.num, text: page.text.trim() }));
+  } finally {
+    await parser.destroy();
+  }
+}
+
+/**
+ * Group pages into chunks of at most maxChars (a single oversized page is split on lines)
+ */
+export function chunkPages(pages: PdfPage[], maxChars = MAX_CHUNK_CHARS): string[] {
+  const chunks: string[] = [];
+  let current = "";
+
+  const push = (text: string) => {
+    if (current && current.length + text.length + 2 > maxChars) {
+      chunks.push(current);
+      current = "";
+    }
+    current = current ? `${current}\n\n${text}` : text;
+  };
+
+  for (const page of pages) {
+    if (!page.text) continue;
+    const text = `[Page ${page.num}]\n${page.text}`;
+    if (text.length <= maxChars) {
+      push(text);
+      continue;
+    }
+    let part = "";
+    for (const line of text.split("\n")) {
+      if (part && part.length + line.length + 1 > maxChars) {
+        push(part);
+        part = "";
+      }
+      part = part ? `${part}\n${line}` : line.slice(0, maxChars);
+    }
+    if (part) push(part);
+  }
+  if (current) chunks.push(current);
+
+  return chunks;
+}
+
+/**
+ * Clean up the LLM's question list: drop blanks, strip a repeated ID prefix
+ * and carry the last section forward when a chunk starts mid-section.
+ */
+export function normalizeExtractedQuestions(
+  extracted: ExtractedQuestion[],
+  previousSection?: string
+): ParsedDocumentQuestion[] {
+  const questions: ParsedDocumentQuestion[] = [];
+  let section = previousSection;
+
+  for (const item of extracted) {
+    const questionId = item.id?.toString().trim() || undefined;
+    let question = item.question?.toString().replace(/\s+/g, " ").trim() ?? "";
+    if (questionId && question.startsWith(questionId)) {
+      question = question.slice(questionId.length).replace(/^[\s.):-]+/, "");
+    }
+    if (!question) continue;
+
+    section = item.section?.toString().replace(/\s+/g, " ").trim() || section;
+    questions.push({ question, questionId, section });
+  }
+
+  return questions;
+}
+
+/**
+ * Find the questions in a questionnaire PDF
+ */
+export async function extractPdfQuestions(buffer: Buffer): Promise<PdfExtractionResult> {
+  const pdfPages = await extractPdfPages(buffer);
+  let pages = pdfPages;
+  if (pages.every((page) => !page.text)) {
+    // No text layer (scanned pages)
+    pages = [{ num: 1, text: (await extractPdfWithClaude(buffer)).trim() }];
+  }
+  const totalChars = pages.reduce((sum, page) => sum + page.text.length, 0);
+  if (totalChars > MAX_PDF_CHARS) {
+    throw new Error(PDF_TOO_LONG_ERROR);
+  }
+
+  const systemPrompt = await loadSystemPrompt(
+    "questionnaire_extract",
+    "You extract the individual questions from questionnaire documents and return them as JSON."
+  );
+  const model = getModel(getEffectiveSpeed("projects-extract"));
+  const anthropic = await getLLMClient();
+
+  const chunks = chunkPages(pages);
+  const questions: ParsedDocumentQuestion[] = [];
+  const usage = { model, inputTokens: 0, outputTokens: 0 };
+
+  for (const [index, chunk] of chunks.entries()) {
+    const previousSection = questions[questions.length - 1]?.section;
+    const userPrompt = [
+      chunks.length > 1 ? `PART ${index + 1} OF ${chunks.length} OF THE DOCUMENT.` : "",
+      previousSection ? `The previous part ended in section: ${previousSection}` : "",
+      "QUESTIONNAIRE TEXT:",
+      chunk,
+      "",
+      "List every question in this text. Return ONLY the JSON object.",
+    ].filter(Boolean).join("\n");
+
+    const response = await anthropic.messages.create({
+      model,
+      max_tokens: 16000,
+      temperature: 0,
+      system: systemPrompt,
+      messages: [{ role: "user", content: userPrompt }],
+    });
+    usage.inputTokens += response.usage?.input_tokens ?? 0;
+    usage.outputTokens += response.usage?.output_tokens ?? 0;
+
+    const content = response.content[0];
+    if (content?.type !== "text") {
+      throw new Error("Unexpected response format");
+    }
+
+    let parsed: { questions?: ExtractedQuestion[] };
+    try {
+      parsed = parseJsonResponse<{ questions?: ExtractedQuestion[] }>(content.text);
+    } catch (error) {
+      logger.error("Failed to parse extracted questions", error, { chunk: index + 1, response: content.text.slice(0, 500) });
+      throw new Error("Failed to read questions from the PDF");
+    }
+
+    questions.push(...normalizeExtractedQuestions(parsed.questions ?? [], previousSection));
+  }
+
+  if (questions.length === 0) {
+    throw new Error(PDF_NO_QUESTIONS_ERROR);
+  }
+  return { questions, pageCount: pdfPages.length, usage };
+}
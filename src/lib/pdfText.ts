@@ -0,0 +1,67 @@
+import { getLLMClient } from "@/lib/llmProvider";
+import { CLAUDE_MODEL } from "@/lib/config";
+
+/**
+ * PDF Text Extraction
+ *
+ * Reads the full text of a PDF with Claude's native document support, which
+ * also reads scanned pages that have no text layer. Used for knowledge
+ * document uploads and for questionnaire PDFs that pdf-parse can't read.
+ */
+
+export const PDF_NO_TEXT_ERROR = "PDF appears to be image-based or contains no extractable text";
+
+/**
+ * Extract the text of a PDF, preserving reading order and tables
+ */
+export async function extractPdfWithClaude(buffer: Buffer): Promise<string> {
+  const anthropic = await getLLMClient();
+
+  const base64Data = buffer.toString("base64");
+
+  const response = await anthropic.messages.create({
+    model: CLAUDE_MODEL,
+    max_tokens: 16000,
+    messages: [
+      {
+        role: "user",
+        content: [
+          {
+            type: "document",
+            source: {
+              type: "base64",
+              media_type: "application/pdf",
+              data: base64Data,
+            },
+          },
+          {
+            type: "text",
+            text: `Extract ALL text content from this PDF document.
+
+IMPORTANT RULES:
+1. Extract the complete text content, preserving the document structure
+2. Include headers, paragraphs, bullet points, tables, and any other text
+3. Preserve the logical reading order
+4. For tables, format them clearly with columns separated by | characters
+5. Do NOT summarize or interpret - extract the actual text verbatim
+6. Do NOT add any commentary or explanations
+7. If there are multiple pages, extract all pages
+
+Return ONLY the extracted text content, nothing else.`,
+          },
+        ],
+      },
+    ],
+  });
+
+  const textContent = response.content[0];
+  if (textContent.type !== "text") {
+    throw new Error("Unexpected response format from Claude");
+  }
+
+  if (!textContent.text || textContent.text.trim().length === 0) {
+    throw new Error(PDF_NO_TEXT_ERROR);
+  }
+
+  return textContent.text;
+}
@@ -0,0 +1,277 @@
+import type { Prisma, UserRole, Capability, ProjectVisibility } from "@prisma/client";
+import type { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { errors } from "@/lib/apiResponse";
+import { canReviewAnswers, isAdmin, type UserSession } from "@/lib/permissions";
+import { logProjectChange, type AuditUser } from "@/lib/auditLog";
+import type { ProjectCollaborator, ProjectCollaboratorRole, ProjectRole } from "@/types/bulkProject";
+
+/**
+ * Project Access
+ *
+ * Per-project checks on top of the route policies in routePermissions.ts.
+ * Each user gets a role on a project, and each project route requires a
+ * minimum role:
+ * - OWNER: the project owner (and admins); manages collaborators and deletes
+ * - EDITOR: collaborators who edit questions and answers and run jobs; also
+ *   everyone on ORG projects without an owner (created before owners were recorded)
+ * - REVIEWER: collaborators and REVIEW_ANSWERS users, who review answers across
+ *   ORG and TEAM projects, and on PRIVATE projects only where rows or sections
+ *   are assigned to them; can approve, flag, correct and lock rows
+ * - VIEWER: read-only; collaborators, plus everyone for ORG projects and users
+ *   sharing an SSO group with the owner for TEAM projects
+ *
+ * Collaborators are stored in BulkProject.assignedUsers as { userId, role }.
+ */
+
+const ROLE_RANK: Record<ProjectRole, number> = {
+  VIEWER: 1,
+  REVIEWER: 2,
+  EDITOR: 3,
+  OWNER: 4,
+};
+
+const COLLABORATOR_ROLES: ProjectCollaboratorRole[] = ["EDITOR", "REVIEWER", "VIEWER"];
+
+type ProjectAccessFields = {
+  ownerId: string | null;
+  assignedUsers: Prisma.JsonValue | null;
+  visibility?: ProjectVisibility;
+  // SSO groups of the owner, for TEAM visibility
+  ownerGroups?: string[];
+  // Whether rows or sections are assigned to the user for review
+  hasAssignedReviews?: boolean;
+};
+
+type ProjectAccessUser = { id: string; role: string; capabilities?: Capability[] };
+
+/**
+ * The collaborators stored in a project's assignedUsers JSON. Entries saved
+ * as plain user IDs (before collaborator roles) count as editors.
+ */
+export function getCollaborators(value: Prisma.JsonValue | null | undefined): ProjectCollaborator[] {
+  if (!Array.isArray(value)) return [];
+
+  const collaborators: ProjectCollaborator[] = [];
+  for (const entry of value) {
+    if (typeof entry === "string") {
+      collaborators.push({ userId: entry, role: "EDITOR" });
+    } else if (entry && typeof entry === "object" && !Array.isArray(entry) && typeof entry.userId === "string") {
+      const role = COLLABORATOR_ROLES.includes(entry.role as ProjectCollaboratorRole)
+        ? (entry.role as ProjectCollaboratorRole)
+        : "VIEWER";
+      collaborators.push({ userId: entry.userId, role });
+    }
+  }
+  return collaborators;
+}
+
+/**
+ * Collaborators as stored: one entry per user (the last wins), without the owner
+ */
+export function normalizeCollaborators(
+  collaborators: ProjectCollaborator[],
+  ownerId: string | null | undefined
+): ProjectCollaborator[] {
+  const byUser = new Map<string, ProjectCollaboratorRole>();
+  for (const { userId, role } of collaborators) {
+    if (userId !== ownerId) byUser.set(userId, role);
+  }
+  return [...byUser].map(([userId, role]) => ({ userId, role }));
+}
+
+export type CollaboratorChanges = {
+  added: ProjectCollaborator[];
+  removed: ProjectCollaborator[];
+  changed: { userId: string; from: ProjectCollaboratorRole; to: ProjectCollaboratorRole }[];
+};
+
+export function diffCollaborators(before: ProjectCollaborator[], after: ProjectCollaborator[]): CollaboratorChanges {
+  const previous = new Map(before.map((c) => [c.userId, c.role]));
+  const next = new Map(after.map((c) => [c.userId, c.role]));
+
+  return {
+    added: after.filter((c) => !previous.has(c.userId)),
+    removed: before.filter((c) => !next.has(c.userId)),
+    changed: after
+      .filter((c) => previous.has(c.userId) && previous.get(c.userId) !== c.role)
+      .map((c) => ({ userId: c.userId, from: previous.get(c.userId)!, to: c.role })),
+  };
+}
+
+/**
+ * Audit entries for collaborator changes: one per added or removed user, and
+ * one UPDATED entry covering role changes
+ */
+export async function logCollaboratorChanges(
+  project: { id: string; name: string },
+  user: AuditUser,
+  changes: CollaboratorChanges
+): Promise<void> {
+  for (const collaborator of changes.added) {
+    await logProjectChange("COLLABORATOR_ADDED", project.id, project.name, user, undefined, {
+      userId: collaborator.userId,
+      role: collaborator.role,
+    });
+  }
+  for (const collaborator of changes.removed) {
+    await logProjectChange("COLLABORATOR_REMOVED", project.id, project.name, user, undefined, {
+      userId: collaborator.userId,
+      role: collaborator.role,
+    });
+  }
+  if (changes.changed.length > 0) {
+    await logProjectChange(
+      "UPDATED",
+      project.id,
+      project.name,
+      user,
+      Object.fromEntries(changes.changed.map((c) => [`collaborator:${c.userId}`, { from: c.from, to: c.to }]))
+    );
+  }
+}
+
+export function hasProjectRole(role: ProjectRole | null, minimum: ProjectRole): boolean {
+  return role !== null && ROLE_RANK[role] >= ROLE_RANK[minimum];
+}
+
+/**
+ * The user's highest role on a project, or null if they can't see it
+ */
+export function getProjectRole(
+  user: UserSession,
+  project: ProjectAccessFields,
+  userGroups: string[] = []
+): ProjectRole | null {
+  if (isAdmin(user) || project.ownerId === user.id) return "OWNER";
+
+  const visibility = project.visibility ?? "ORG";
+  const candidates: ProjectRole[] = [];
+  if (!project.ownerId && visibility === "ORG") candidates.push("EDITOR");
+
+  const collaborator = getCollaborators(project.assignedUsers).find((c) => c.userId === user.id);
+  if (collaborator) candidates.push(collaborator.role);
+
+  if (canReviewAnswers(user) && (visibility !== "PRIVATE" || project.hasAssignedReviews)) {
+    candidates.push("REVIEWER");
+  }
+
+  if (visibility === "ORG") candidates.push("VIEWER");
+  if (visibility === "TEAM" && project.ownerGroups?.some((group) => userGroups.includes(group))) {
+    candidates.push("VIEWER");
+  }
+
+  return candidates.reduce<ProjectRole | null>(
+    (best, role) => (best === null || ROLE_RANK[role] > ROLE_RANK[best] ? role : best),
+    null
+  );
+}
+
+export function canAccessProject(user: UserSession, project: ProjectAccessFields, userGroups: string[] = []): boolean {
+  return getProjectRole(user, project, userGroups) !== null;
+}
+
+// Projects with rows or sections assigned to the user for review
+function assignedReviewsWhere(userId: string): Prisma.BulkProjectWhereInput[] {
+  return [
+    { rows: { some: { assignedReviewerId: userId } } },
+    { sections: { some: { assignedReviewerId: userId } } },
+  ];
+}
+
+/**
+ * Prisma filter for the projects a user can see, or undefined for all
+ */
+export function accessibleProjectsWhere(
+  user: UserSession,
+  userGroups: string[] = []
+): Prisma.BulkProjectWhereInput | undefined {
+  if (isAdmin(user)) return undefined;
+
+  const conditions: Prisma.BulkProjectWhereInput[] = [
+    { ownerId: user.id },
+    { visibility: "ORG" },
+    { assignedUsers: { array_contains: [{ userId: user.id }] } },
+    // Saved before collaborator roles
+    { assignedUsers: { array_contains: [user.id] } },
+  ];
+  if (canReviewAnswers(user)) {
+    conditions.push({ visibility: "TEAM" }, ...assignedReviewsWhere(user.id));
+  } else if (userGroups.length > 0) {
+    conditions.push({ visibility: "TEAM", owner: { ssoGroups: { hasSome: userGroups } } });
+  }
+  return { OR: conditions };
+}
+
+/**
+ * SSO groups of a user, for TEAM visibility checks
+ */
+export async function getUserGroups(userId: string): Promise<string[]> {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { ssoGroups: true } });
+  return user?.ssoGroups ?? [];
+}
+
+/**
+ * IDs of the projects a user can see, or null for all (admins)
+ */
+export async function getAccessibleProjectIds(user: ProjectAccessUser): Promise<Set<string> | null> {
+  const where = accessibleProjectsWhere({ ...user, role: user.role as UserRole }, await getUserGroups(user.id));
+  if (!where) return null;
+  const projects = await prisma.bulkProject.findMany({ where, select: { id: true } });
+  return new Set(projects.map((project) => project.id));
+}
+
+/**
+ * The user's role on a project, or null if the project doesn't exist or
+ * they can't see it (exists distinguishes the two)
+ */
+export async function getProjectAccess(
+  projectId: string,
+  user: ProjectAccessUser
+): Promise<{ exists: boolean; role: ProjectRole | null }> {
+  const project = await prisma.bulkProject.findUnique({
+    where: { id: projectId },
+    select: { ownerId: true, assignedUsers: true, visibility: true, owner: { select: { ssoGroups: true } } },
+  });
+  if (!project) {
+    return { exists: false, role: null };
+  }
+
+  const sessionUser = { ...user, role: user.role as UserRole };
+  const fields: ProjectAccessFields = { ...project, ownerGroups: project.owner?.ssoGroups ?? [] };
+  let role = getProjectRole(sessionUser, fields);
+  // Reviewers see PRIVATE projects only where review work is assigned to them
+  if (project.visibility === "PRIVATE" && canReviewAnswers(sessionUser) && !hasProjectRole(role, "REVIEWER")) {
+    fields.hasAssignedReviews =
+      (await prisma.bulkProject.count({ where: { id: projectId, OR: assignedReviewsWhere(user.id) } })) > 0;
+    role = getProjectRole(sessionUser, fields);
+  }
+  // Group membership only matters for TEAM projects the user has no other role on
+  if (role === null && project.visibility === "TEAM") {
+    role = getProjectRole(sessionUser, fields, await getUserGroups(user.id));
+  }
+  return { exists: true, role };
+}
+
+/**
+ * Check that the project exists and the user has at least the given role on
+ * it. Returns the error response to send, or null when access is allowed.
+ */
+export async function requireProjectAccess(
+  projectId: string,
+  user: ProjectAccessUser,
+  minimumRole: ProjectRole = "VIEWER"
+): Promise<NextResponse | null> {
+  const { exists, role } = await getProjectAccess(projectId, user);
+
+  if (!exists) {
+    return errors.notFound("Project");
+  }
+  if (role === null) {
+    return errors.forbidden("You don't have access to this project");
+  }
+  if (!hasProjectRole(role, minimumRole)) {
+    return errors.forbidden(`This action requires the ${minimumRole.toLowerCase()} role on this project`);
+  }
+  return null;
+}
@@ -1,5 +1,20 @@
-import { BulkProject, BulkRow } from "@/types/bulkProject";
-import { parseApiData } from "./apiClient";
+import {
+  BulkProject,
+  BulkRow,
+  ProjectJob,
+  AnswerJobOptions,
+  PriorAnswerMatch,
+  ProjectSourceFile,
+  SourceSheetMapping,
+  DocumentLocation,
+  ParsedDocumentQuestion,
+  StaleAnswer,
+  ProjectSection,
+  ProjectCollaborator,
+  ProjectVisibility,
+  ProjectRole,
+} from "@/types/bulkProject";
+import { parseApiData, getApiErrorMessage } from "./apiClient";
 
 /**
  * API client for project CRUD operations
@@ -10,6 +25,12 @@ import { parseApiData } from "./apiClient";
 interface DbRow {
   id: string;
   rowNumber: number;
+  sourceTab?: string;
+  sourceRowNumber?: number;
+  sourceLocation?: unknown;
+  section?: string;
+  sectionId?: string;
+  questionId?: string;
   question: string;
   response: string;
   status: string;
@@ -27,6 +48,38 @@ interface DbRow {
   flaggedAt?: string;
   flaggedBy?: string;
   flagNote?: string;
+  // Review queue and workflow
+  queuedForReview?: boolean;
+  queuedAt?: string;
+  queuedBy?: string;
+  queuedNote?: string;
+  queuedReviewerId?: string;
+  queuedReviewerName?: string;
+  reviewStatus?: BulkRow["reviewStatus"];
+  assignedReviewerId?: string;
+  assignedReviewerName?: string;
+  // Answer lock
+  locked?: boolean;
+  lockedAt?: string | null;
+  lockedBy?: string | null;
+  lockReason?: string | null;
+  // Stale-answer detection
+  possiblyStale?: boolean;
+  staleSkills?: unknown;
+  staleDetectedAt?: string | null;
+  usedCustomerContext?: unknown;
+}
+
+// Type for database section format
+interface DbSection {
+  id: string;
+  parentId: string | null;
+  title: string;
+  externalId: string | null;
+  sourceTab: string | null;
+  position: number;
+  assignedReviewerId: string | null;
+  assignedReviewerName: string | null;
 }
 
 // Type for database project format
@@ -38,6 +91,7 @@ interface DbProject {
   createdAt: string;
   lastModifiedAt: string;
   ownerName?: string;
+  owner?: BulkProject["owner"] | null;
   customerName?: string;
   status: string;
   notes?: string;
@@ -45,7 +99,16 @@ interface DbProject {
   reviewRequestedBy?: string;
   reviewedAt?: string;
   reviewedBy?: string;
+  locked?: boolean;
+  lockedAt?: string | null;
+  lockedBy?: string | null;
+  lockReason?: string | null;
+  customerProfiles?: BulkProject["customerProfiles"];
+  customerDocumentIds?: string[];
+  visibility?: ProjectVisibility;
+  accessRole?: ProjectRole;
   rows: DbRow[];
+  sections?: DbSection[];
 }
 
 export async function fetchAllProjects(): Promise<BulkProject[]> {
@@ -72,7 +135,11 @@ export async function fetchProject(id: string): Promise<BulkProject | null> {
 }
 
 export async function createProject(project: BulkProject): Promise<BulkProject> {
-  const payload = transformProjectToDb(project);
+  const payload = {
+    ...transformProjectToDb(project),
+    visibility: project.visibility,
+    collaborators: project.collaborators?.map(({ userId, role }) => ({ userId, role })),
+  };
   const response = await fetch("/api/projects", {
     method: "POST",
     headers: { "Content-Type": "application/json" },
@@ -110,6 +177,310 @@ export async function deleteProject(id: string): Promise<void> {
   }
 }
 
+/**
+ * A project's visibility and collaborators
+ */
+export async function fetchProjectCollaborators(
+  projectId: string
+): Promise<{ visibility: ProjectVisibility; collaborators: ProjectCollaborator[]; canManage: boolean }> {
+  const response = await fetch(`/api/projects/${projectId}/collaborators`);
+  const json = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(getApiErrorMessage(json, "Failed to load collaborators"));
+  }
+  return parseApiData(json);
+}
+
+/**
+ * Replace a project's collaborators and visibility (owner or admin only)
+ */
+export async function updateProjectCollaborators(
+  projectId: string,
+  update: { visibility?: ProjectVisibility; collaborators?: ProjectCollaborator[] }
+): Promise<{ visibility: ProjectVisibility; collaborators: ProjectCollaborator[]; canManage: boolean }> {
+  const response = await fetch(`/api/projects/${projectId}/collaborators`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      visibility: update.visibility,
+      collaborators: update.collaborators?.map(({ userId, role }) => ({ userId, role })),
+    }),
+  });
+  const json = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(getApiErrorMessage(json, "Failed to update collaborators"));
+  }
+  return parseApiData(json);
+}
+
+/**
+ * Lock every answer in a project
+ */
+export async function lockProject(projectId: string, reason?: string): Promise<void> {
+  const response = await fetch(`/api/projects/${projectId}/lock`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ reason }),
+  });
+  if (!response.ok) {
+    const json = await response.json().catch(() => null);
+    throw new Error(getApiErrorMessage(json, "Failed to lock answers"));
+  }
+}
+
+/**
+ * Unlock a project's answers (requires REVIEW_ANSWERS)
+ */
+export async function unlockProject(projectId: string, reason: string): Promise<void> {
+  const response = await fetch(`/api/projects/${projectId}/lock`, {
+    method: "DELETE",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ reason }),
+  });
+  if (!response.ok) {
+    const json = await response.json().catch(() => null);
+    throw new Error(getApiErrorMessage(json, "Failed to unlock answers"));
+  }
+}
+
+/**
+ * Lock or unlock a single answer (unlocking requires REVIEW_ANSWERS and a reason)
+ */
+export async function setRowLock(
+  projectId: string,
+  rowId: string,
+  locked: boolean,
+  reason?: string
+): Promise<void> {
+  const response = await fetch(`/api/projects/${projectId}/rows/${rowId}/lock`, {
+    method: locked ? "POST" : "DELETE",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ reason }),
+  });
+  if (!response.ok) {
+    const json = await response.json().catch(() => null);
+    throw new Error(getApiErrorMessage(json, locked ? "Failed to lock answer" : "Failed to unlock answer"));
+  }
+}
+
+/**
+ * Re-check a project against current skill versions and list its possibly stale answers
+ */
+export async function fetchStaleAnswers(projectId: string): Promise<StaleAnswer[]> {
+  const response = await fetch(`/api/projects/${projectId}/stale-answers`);
+  if (!response.ok) {
+    const json = await response.json().catch(() => null);
+    throw new Error(getApiErrorMessage(json, "Failed to check for stale answers"));
+  }
+  const json = await response.json();
+  return parseApiData<StaleAnswer[]>(json, "rows") || [];
+}
+
+/**
+ * Start a server-side job that answers all pending rows of a project
+ */
+export async function startAnswerJob(projectId: string, options: AnswerJobOptions): Promise<ProjectJob> {
+  const response = await fetch(`/api/projects/${projectId}/jobs`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(options),
+  });
+  const json = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(getApiErrorMessage(json, "Failed to start generation"));
+  }
+  return parseApiData<ProjectJob>(json, "job");
+}
+
+/**
+ * Fetch recent jobs for a project (newest first)
+ */
+export async function fetchProjectJobs(projectId: string): Promise<ProjectJob[]> {
+  const response = await fetch(`/api/projects/${projectId}/jobs`);
+  if (!response.ok) {
+    throw new Error("Failed to fetch project jobs");
+  }
+  const json = await response.json();
+  const jobs = parseApiData<ProjectJob[]>(json, "jobs");
+  return Array.isArray(jobs) ? jobs : [];
+}
+
+/**
+ * Cancel a queued or running project job
+ */
+export async function cancelProjectJob(projectId: string, jobId: string): Promise<void> {
+  const response = await fetch(`/api/projects/${projectId}/jobs/${jobId}`, {
+    method: "DELETE",
+  });
+  if (!response.ok) {
+    throw new Error("Failed to cancel job");
+  }
+}
+
+/**
+ * Fetch previously approved answers matching the project's unreviewed rows, keyed by row ID
+ */
+export async function fetchPriorAnswers(projectId: string): Promise<Record<string, PriorAnswerMatch[]>> {
+  const response = await fetch(`/api/projects/${projectId}/prior-answers`);
+  if (!response.ok) {
+    throw new Error("Failed to fetch prior answers");
+  }
+  const json = await response.json();
+  return parseApiData<Record<string, PriorAnswerMatch[]>>(json, "matches") || {};
+}
+
+/**
+ * Copy a previously approved answer into a row (no LLM call).
+ * Returns the row fields to apply locally.
+ */
+export async function applyPriorAnswer(
+  projectId: string,
+  rowId: string,
+  match: Pick<PriorAnswerMatch, "sourceType" | "sourceId">
+): Promise<Partial<BulkRow>> {
+  const response = await fetch(`/api/projects/${projectId}/rows/${rowId}/use-prior-answer`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ sourceType: match.sourceType, sourceId: match.sourceId }),
+  });
+  const json = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(getApiErrorMessage(json, "Failed to use approved answer"));
+  }
+  const row = parseApiData<DbRow>(json, "row");
+  return {
+    response: row.response,
+    status: "completed",
+    error: undefined,
+    confidence: row.confidence,
+    sources: row.sources,
+    reasoning: row.reasoning,
+    inference: row.inference,
+    remarks: row.remarks,
+    usedSkills: [],
+    showRecommendation: false,
+  };
+}
+
+/**
+ * Assign a reviewer to a section; with queueRows its unreviewed rows are queued for them
+ */
+export async function assignSectionReviewer(
+  projectId: string,
+  sectionId: string,
+  assignment: { reviewerId: string | null; reviewerName?: string | null; queueRows?: boolean; note?: string }
+): Promise<{ section: ProjectSection; queuedRowIds: string[] }> {
+  const response = await fetch(`/api/projects/${projectId}/sections/${sectionId}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(assignment),
+  });
+  const json = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(getApiErrorMessage(json, "Failed to assign reviewer"));
+  }
+  const section = parseApiData<DbSection>(json, "section");
+  const queuedRowIds = parseApiData<string[]>(json, "queuedRowIds");
+  return { section: transformSectionFromDb(section), queuedRowIds: queuedRowIds ?? [] };
+}
+
+/**
+ * Extract questions (with their document location) from a .docx questionnaire
+ */
+export async function parseDocumentQuestions(file: File): Promise<ParsedDocumentQuestion[]> {
+  const formData = new FormData();
+  formData.append("file", file);
+
+  const response = await fetch("/api/projects/parse-document", {
+    method: "POST",
+    body: formData,
+  });
+  const json = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(getApiErrorMessage(json, "Failed to read document"));
+  }
+  return parseApiData<ParsedDocumentQuestion[]>(json, "questions");
+}
+
+/**
+ * Fetch metadata for the project's original file (null if none was stored)
+ */
+export async function fetchProjectSourceFile(projectId: string): Promise<ProjectSourceFile | null> {
+  const response = await fetch(`/api/projects/${projectId}/source-file`);
+  if (!response.ok) {
+    throw new Error("Failed to fetch source file");
+  }
+  const json = await response.json();
+  return parseApiData<ProjectSourceFile | null>(json, "sourceFile") ?? null;
+}
+
+/**
+ * Store the original .xlsx or .docx upload so answers can be exported back into it.
+ * Workbooks need a column mapping; documents are parsed on the server.
+ */
+export async function uploadProjectSourceFile(
+  projectId: string,
+  file: File,
+  sheetMappings: SourceSheetMapping[] = []
+): Promise<ProjectSourceFile> {
+  const formData = new FormData();
+  formData.append("file", file);
+  formData.append("sheetMappings", JSON.stringify(sheetMappings));
+
+  const response = await fetch(`/api/projects/${projectId}/source-file`, {
+    method: "POST",
+    body: formData,
+  });
+  const json = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(getApiErrorMessage(json, "Failed to store original file"));
+  }
+  return parseApiData<ProjectSourceFile>(json, "sourceFile");
+}
+
+/**
+ * Save which answer/comment columns each tab is filled into
+ */
+export async function updateSourceFileMappings(
+  projectId: string,
+  sheetMappings: SourceSheetMapping[]
+): Promise<ProjectSourceFile> {
+  const response = await fetch(`/api/projects/${projectId}/source-file`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ sheetMappings }),
+  });
+  const json = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(getApiErrorMessage(json, "Failed to save column mapping"));
+  }
+  return parseApiData<ProjectSourceFile>(json, "sourceFile");
+}
+
+/**
+ * Download the original file with answers filled in
+ */
+export async function downloadFilledSourceFile(
+  projectId: string,
+  filename: string,
+  options: { approvedOnly?: boolean } = {}
+): Promise<void> {
+  // Without the option, the server default applies (final answers only for documents)
+  const query = options.approvedOnly === undefined ? "" : `?approvedOnly=${options.approvedOnly}`;
+  const response = await fetch(`/api/projects/${projectId}/source-file/export${query}`);
+  if (!response.ok) {
+    const json = await response.json().catch(() => null);
+    throw new Error(getApiErrorMessage(json, "Failed to export file"));
+  }
+
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
 /**
  * Transform database project format to frontend BulkProject type
  */
@@ -122,6 +493,7 @@ function transformProjectFromDb(dbProject: DbProject): BulkProject {
     createdAt: dbProject.createdAt,
     lastModifiedAt: dbProject.lastModifiedAt,
     ownerName: dbProject.ownerName,
+    owner: dbProject.owner ?? undefined,
     customerName: dbProject.customerName,
     status: dbProject.status.toLowerCase() as "draft" | "in_progress" | "needs_review" | "finalized",
     notes: dbProject.notes,
@@ -129,9 +501,23 @@ function transformProjectFromDb(dbProject: DbProject): BulkProject {
     reviewRequestedBy: dbProject.reviewRequestedBy,
     reviewedAt: dbProject.reviewedAt,
     reviewedBy: dbProject.reviewedBy,
+    locked: dbProject.locked,
+    lockedAt: dbProject.lockedAt ?? undefined,
+    lockedBy: dbProject.lockedBy ?? undefined,
+    lockReason: dbProject.lockReason ?? undefined,
+    customerProfiles: dbProject.customerProfiles,
+    customerDocumentIds: dbProject.customerDocumentIds,
+    visibility: dbProject.visibility,
+    accessRole: dbProject.accessRole,
     rows: dbProject.rows.map((row: DbRow): BulkRow => ({
       id: row.id,
       rowNumber: row.rowNumber,
+      sourceTab: row.sourceTab,
+      sourceRowNumber: row.sourceRowNumber,
+      sourceLocation: (row.sourceLocation as DocumentLocation | null) ?? undefined,
+      section: row.section,
+      sectionId: row.sectionId ?? undefined,
+      questionId: row.questionId,
       question: row.question,
       response: row.response,
       status: row.status.toLowerCase() as "pending" | "completed" | "error",
@@ -149,7 +535,41 @@ function transformProjectFromDb(dbProject: DbProject): BulkProject {
       flaggedAt: row.flaggedAt,
       flaggedBy: row.flaggedBy,
       flagNote: row.flagNote,
+      // Review queue and workflow
+      queuedForReview: row.queuedForReview,
+      queuedAt: row.queuedAt,
+      queuedBy: row.queuedBy,
+      queuedNote: row.queuedNote,
+      queuedReviewerId: row.queuedReviewerId,
+      queuedReviewerName: row.queuedReviewerName,
+      reviewStatus: row.reviewStatus,
+      assignedReviewerId: row.assignedReviewerId,
+      assignedReviewerName: row.assignedReviewerName,
+      // Answer lock
+      locked: row.locked,
+      lockedAt: row.lockedAt ?? undefined,
+      lockedBy: row.lockedBy ?? undefined,
+      lockReason: row.lockReason ?? undefined,
+      // Stale-answer detection
+      possiblyStale: row.possiblyStale,
+      staleSkills: (row.staleSkills as BulkRow["staleSkills"]) ?? undefined,
+      staleDetectedAt: row.staleDetectedAt ?? undefined,
+      usedCustomerContext: (row.usedCustomerContext as BulkRow["usedCustomerContext"]) ?? undefined,
     })),
+    sections: dbProject.sections?.map(transformSectionFromDb),
+  };
+}
+
+function transformSectionFromDb(section: DbSection): ProjectSection {
+  return {
+    id: section.id,
+    parentId: section.parentId ?? undefined,
+    title: section.title,
+    externalId: section.externalId ?? undefined,
+    sourceTab: section.sourceTab ?? undefined,
+    position: section.position,
+    assignedReviewerId: section.assignedReviewerId ?? undefined,
+    assignedReviewerName: section.assignedReviewerName ?? undefined,
   };
 }
 
@@ -173,6 +593,12 @@ function transformProjectToDb(project: BulkProject) {
     reviewedBy: project.reviewedBy,
     rows: project.rows.map((row) => ({
       rowNumber: row.rowNumber,
+      sourceTab: row.sourceTab,
+      sourceRowNumber: row.sourceRowNumber,
+      sourceLocation: row.sourceLocation,
+      section: row.section,
+      sectionPath: row.sectionPath,
+      questionId: row.questionId,
       question: row.question,
       response: row.response,
       status: row.status,
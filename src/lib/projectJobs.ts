@@ -0,0 +1,497 @@
+import { randomUUID } from "crypto";
+import { prisma } from "@/lib/prisma";
+import { Prisma, ProjectJob } from "@prisma/client";
+import { answerQuestionsBatch, type FallbackContent } from "@/lib/llm";
+import { loadRateLimitSettings } from "@/lib/appSettings";
+import { loadSystemPrompt } from "@/lib/loadSystemPrompt";
+import { defaultQuestionPrompt } from "@/lib/questionPrompt";
+import { SkillIndex, mergeSkillMatches, toRetrievedSkills, type SkillMatch } from "@/lib/retrieval";
+import { getEmbeddingBackend } from "@/lib/embeddings";
+import { fetchUrlContent } from "@/lib/apiHelpers";
+import { logUsage } from "@/lib/usageTracking";
+import { routeProjectReviews } from "@/lib/reviewRouting";
+import { CLEAR_STALE_DATA } from "@/lib/staleAnswers";
+import { loadProjectCustomerContext } from "@/lib/customerContext";
+import { logger } from "@/lib/logger";
+import { Skill, SkillFact } from "@/types/skill";
+
+/**
+ * Project Job Runner
+ *
+ * Answers the pending rows of a BulkProject on the server, one batch per step.
+ * Every step is claimed with a row-level lock, persists its cursor and schedules
+ * the next step via `nextRunAt`, so a job keeps going after the browser tab closes
+ * and resumes from the last processed row after a server restart.
+ */
+
+// Identifies this server instance when claiming jobs
+const WORKER_ID = `worker-${process.pid}-${randomUUID().slice(0, 8)}`;
+
+// A lock older than this is considered abandoned (worker crashed mid-step)
+const LOCK_TIMEOUT_MS = 5 * 60 * 1000;
+
+// How often the in-process worker looks for due jobs
+const WORKER_POLL_INTERVAL_MS = 5000;
+
+// Maximum skills sent with each batch (matches the previous client-side loop)
+const MAX_SKILLS_PER_BATCH = 10;
+
+// Maximum skills retrieved for each question before merging into the batch
+const MAX_SKILLS_PER_QUESTION = 5;
+
+const ACTIVE_STATUSES = ["QUEUED", "RUNNING"] as const;
+
+export type AnswerJobOptions = {
+  prompt?: string;
+  mode?: "single" | "bulk";
+  domains?: Array<"technical" | "legal" | "security">;
+  quickMode?: boolean;
+  // Request reviews from routed SMEs once every row is answered
+  routeReviews?: boolean;
+  // Re-answer only rows flagged as possibly stale instead of pending rows
+  staleOnly?: boolean;
+};
+
+export type JobUser = {
+  id?: string;
+  email?: string | null;
+};
+
+/**
+ * Whether a job is still queued or running
+ */
+export function isJobActive(job: Pick<ProjectJob, "status">): boolean {
+  return (ACTIVE_STATUSES as readonly string[]).includes(job.status);
+}
+
+/**
+ * Rows the job should answer: never answered, or failed in an earlier run; for a
+ * stale-only job, answers flagged as possibly stale (locked rows are left alone)
+ */
+function pendingRowsWhere(
+  projectId: string,
+  options: Pick<AnswerJobOptions, "staleOnly">,
+  afterRowNumber?: number
+): Prisma.BulkRowWhereInput {
+  return {
+    projectId,
+    ...(options.staleOnly ? { possiblyStale: true } : { status: { in: ["PENDING", "ERROR"] } }),
+    locked: false,
+    ...(afterRowNumber !== undefined && { rowNumber: { gt: afterRowNumber } }),
+  };
+}
+
+/**
+ * Whether an error is the unique index allowing one active job per project
+ * (another request queued a job first)
+ */
+export function isActiveJobConflict(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+}
+
+/**
+ * Queue a job that answers all pending rows of a project.
+ * Returns null if the project has nothing left to answer; throws (see
+ * isActiveJobConflict) if the project already has an active job.
+ */
+export async function enqueueAnswerJob(
+  projectId: string,
+  options: AnswerJobOptions,
+  user?: JobUser
+): Promise<ProjectJob | null> {
+  const totalRows = await prisma.bulkRow.count({ where: pendingRowsWhere(projectId, options) });
+  if (totalRows === 0) {
+    return null;
+  }
+
+  const job = await prisma.projectJob.create({
+    data: {
+      projectId,
+      type: "ANSWER_ROWS",
+      status: "QUEUED",
+      options: options as Prisma.InputJsonValue,
+      totalRows,
+      createdById: user?.id,
+      createdByEmail: user?.email,
+    },
+  });
+
+  kickJobWorker();
+  return job;
+}
+
+/**
+ * Cancel a queued or running job. The step in flight (if any) finishes,
+ * but no further batches are scheduled.
+ */
+export async function cancelJob(jobId: string): Promise<ProjectJob | null> {
+  const result = await prisma.projectJob.updateMany({
+    where: { id: jobId, status: { in: [...ACTIVE_STATUSES] } },
+    data: { status: "CANCELLED", completedAt: new Date(), lockedAt: null, lockedBy: null },
+  });
+  if (result.count === 0) {
+    return null;
+  }
+  return prisma.projectJob.findUnique({ where: { id: jobId } });
+}
+
+/**
+ * Update a job only while it is still active, so a cancellation that lands
+ * while a step is in flight is not overwritten when the step finishes.
+ */
+async function updateActiveJob(jobId: string, data: Prisma.ProjectJobUpdateManyMutationInput): Promise<void> {
+  await prisma.projectJob.updateMany({
+    where: { id: jobId, status: { in: [...ACTIVE_STATUSES] } },
+    data,
+  });
+}
+
+/**
+ * Atomically claim a job for this worker.
+ * Succeeds only if the job is active, due, and not locked by a live worker.
+ */
+async function claimJob(jobId: string): Promise<boolean> {
+  const now = new Date();
+  const result = await prisma.projectJob.updateMany({
+    where: {
+      id: jobId,
+      status: { in: [...ACTIVE_STATUSES] },
+      nextRunAt: { lte: now },
+      OR: [
+        { lockedAt: null },
+        { lockedAt: { lt: new Date(now.getTime() - LOCK_TIMEOUT_MS) } },
+      ],
+    },
+    data: { lockedAt: now, lockedBy: WORKER_ID },
+  });
+  return result.count === 1;
+}
+
+/**
+ * Load active skills in the shape expected by the skill selection helpers
+ */
+async function loadActiveSkills(): Promise<Skill[]> {
+  const skills = await prisma.skill.findMany({
+    where: { isActive: true },
+    select: { id: true, title: true, content: true, categories: true, quickFacts: true, createdAt: true, version: true },
+  });
+  return skills.map((skill) => ({
+    id: skill.id,
+    title: skill.title,
+    content: skill.content,
+    categories: skill.categories,
+    quickFacts: Array.isArray(skill.quickFacts) ? (skill.quickFacts as SkillFact[]) : [],
+    edgeCases: [],
+    sourceUrls: [],
+    isActive: true,
+    createdAt: skill.createdAt.toISOString(),
+    version: skill.version,
+  }));
+}
+
+/**
+ * Reference URLs and knowledge documents used when the library has no skills
+ */
+async function loadFallbackContent(): Promise<FallbackContent[] | undefined> {
+  const [urls, documents] = await Promise.all([
+    prisma.referenceUrl.findMany({ select: { url: true, title: true } }),
+    prisma.knowledgeDocument.findMany({
+      orderBy: { uploadedAt: "desc" },
+      select: { title: true, filename: true, content: true },
+    }),
+  ]);
+
+  const items: FallbackContent[] = [];
+  for (const ref of urls) {
+    const content = await fetchUrlContent(ref.url);
+    if (content?.trim()) {
+      items.push({ title: ref.title || ref.url, url: ref.url, content });
+    }
+  }
+  for (const doc of documents) {
+    if (doc.content?.trim()) {
+      items.push({ title: doc.title, url: `document://${doc.filename}`, content: doc.content });
+    }
+  }
+  return items.length > 0 ? items : undefined;
+}
+
+function isRateLimitError(message: string): boolean {
+  return /rate_limit|rate limit|429|overloaded/i.test(message);
+}
+
+/**
+ * Process one batch of a claimed job and schedule the next step.
+ */
+export async function runJobStep(job: ProjectJob): Promise<void> {
+  const settings = await loadRateLimitSettings();
+  const options = (job.options || {}) as AnswerJobOptions;
+
+  const rows = await prisma.bulkRow.findMany({
+    where: pendingRowsWhere(job.projectId, options, job.cursor),
+    orderBy: { rowNumber: "asc" },
+    take: settings.batchSize,
+  });
+
+  if (rows.length === 0) {
+    await updateActiveJob(job.id, { status: "COMPLETED", completedAt: new Date(), lockedAt: null, lockedBy: null });
+    logger.info("Project job completed", { jobId: job.id, projectId: job.projectId, failedRows: job.failedRows });
+    if (options.routeReviews) {
+      try {
+        await routeProjectReviews(job.projectId, { id: job.createdById ?? undefined, email: job.createdByEmail });
+      } catch (error) {
+        // Routing is best-effort; the answers are already saved
+        logger.error("Failed to route project reviews", error, { jobId: job.id, projectId: job.projectId });
+      }
+    }
+    return;
+  }
+
+  const lastRowNumber = rows[rows.length - 1].rowNumber;
+  const questions = rows
+    .filter((row) => row.question.trim())
+    .map((row) => ({ index: row.rowNumber, question: row.question.trim() }));
+
+  // Rows without question text are skipped but still advance the cursor
+  if (questions.length === 0) {
+    await updateActiveJob(job.id, {
+      status: "RUNNING",
+      startedAt: job.startedAt ?? new Date(),
+      cursor: lastRowNumber,
+      processedRows: { increment: rows.length },
+      nextRunAt: new Date(),
+      lockedAt: null,
+      lockedBy: null,
+    });
+    return;
+  }
+
+  try {
+    const availableSkills = await loadActiveSkills();
+
+    // Rank skills per question (hybrid with embeddings when configured), then merge for the batch
+    const skillIndex = new SkillIndex(availableSkills);
+    const embeddingBackend = getEmbeddingBackend();
+    const matchesByRow = new Map<number, SkillMatch[]>();
+    for (const q of questions) {
+      const matches = embeddingBackend
+        ? await skillIndex.rankHybrid(q.question, embeddingBackend, { maxSkills: MAX_SKILLS_PER_QUESTION })
+        : skillIndex.rank(q.question, { maxSkills: MAX_SKILLS_PER_QUESTION });
+      matchesByRow.set(q.index, matches);
+    }
+    const relevantSkills = mergeSkillMatches(Array.from(matchesByRow.values()), {
+      maxSkills: MAX_SKILLS_PER_BATCH,
+    }).map((match) => match.skill);
+    const skillsPayload = relevantSkills.map((skill) => ({ title: skill.title, content: skill.content }));
+    const fallbackContent = availableSkills.length === 0 ? await loadFallbackContent() : undefined;
+    const customerContext = await loadProjectCustomerContext(job.projectId);
+
+    const promptText = options.prompt?.trim() || await loadSystemPrompt("questions", defaultQuestionPrompt, {
+      mode: options.mode ?? "bulk",
+      domains: options.domains,
+    });
+
+    const result = await answerQuestionsBatch(
+      questions,
+      promptText,
+      skillsPayload.length > 0 ? skillsPayload : undefined,
+      fallbackContent,
+      options.quickMode ? "fast" : "quality",
+      customerContext?.text
+    );
+
+    let failed = 0;
+
+    for (const row of rows) {
+      const answer = result.answers.find((a) => a.questionIndex === row.rowNumber);
+      if (answer) {
+        // Record the skills retrieved for this row, with scores and matching chunks
+        const usedSkills = toRetrievedSkills(matchesByRow.get(row.rowNumber) || []);
+        await prisma.bulkRow.update({
+          where: { id: row.id },
+          data: {
+            response: answer.response,
+            confidence: answer.confidence,
+            sources: answer.sources,
+            reasoning: answer.reasoning,
+            inference: answer.inference,
+            remarks: answer.remarks,
+            usedSkills: usedSkills.length > 0 ? (usedSkills as Prisma.InputJsonValue) : Prisma.JsonNull,
+            usedCustomerContext: customerContext ? (customerContext.used as Prisma.InputJsonValue) : Prisma.JsonNull,
+            showRecommendation: true,
+            status: "COMPLETED",
+            error: null,
+            answeredAt: new Date(),
+            ...CLEAR_STALE_DATA,
+          },
+        });
+      } else if (row.question.trim()) {
+        failed++;
+        await prisma.bulkRow.update({
+          where: { id: row.id },
+          data: { status: "ERROR", error: "No answer returned for this question." },
+        });
+      }
+    }
+
+    if (result.usage) {
+      logUsage({
+        userId: job.createdById,
+        userEmail: job.createdByEmail,
+        feature: "questions-batch",
+        model: result.usage.model,
+        inputTokens: result.usage.inputTokens,
+        outputTokens: result.usage.outputTokens,
+        metadata: {
+          jobId: job.id,
+          projectId: job.projectId,
+          questionCount: questions.length,
+          skillCount: skillsPayload.length,
+          customerCount: customerContext?.used.profiles.length || 0,
+          hasFallback: result.usedFallback,
+          mode: options.mode,
+          domains: options.domains,
+        },
+      });
+    }
+
+    await updateActiveJob(job.id, {
+      status: "RUNNING",
+      startedAt: job.startedAt ?? new Date(),
+      cursor: lastRowNumber,
+      processedRows: { increment: rows.length },
+      failedRows: { increment: failed },
+      batchRetries: 0,
+      nextRunAt: new Date(Date.now() + settings.batchDelayMs),
+      lockedAt: null,
+      lockedBy: null,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unexpected error.";
+
+    // Retry the same batch with exponential backoff
+    if (job.batchRetries < settings.rateLimitMaxRetries) {
+      const baseDelay = isRateLimitError(message) ? settings.rateLimitRetryWaitMs : settings.batchDelayMs;
+      const delay = baseDelay * Math.pow(2, job.batchRetries);
+      logger.warn("Project job batch failed, retrying", {
+        jobId: job.id,
+        retry: job.batchRetries + 1,
+        delayMs: delay,
+        error: message,
+      });
+      await updateActiveJob(job.id, {
+        status: "RUNNING",
+        startedAt: job.startedAt ?? new Date(),
+        batchRetries: { increment: 1 },
+        lastError: message,
+        nextRunAt: new Date(Date.now() + delay),
+        lockedAt: null,
+        lockedBy: null,
+      });
+      return;
+    }
+
+    // Retries exhausted - mark this batch as failed and move on
+    logger.error("Project job batch failed after retries", error, { jobId: job.id });
+    await prisma.bulkRow.updateMany({
+      where: { id: { in: rows.map((row) => row.id) } },
+      data: { status: "ERROR", error: message },
+    });
+    await updateActiveJob(job.id, {
+      status: "RUNNING",
+      cursor: lastRowNumber,
+      processedRows: { increment: rows.length },
+      failedRows: { increment: rows.length },
+      batchRetries: 0,
+      lastError: message,
+      nextRunAt: new Date(Date.now() + settings.batchDelayMs),
+      lockedAt: null,
+      lockedBy: null,
+    });
+  }
+}
+
+/**
+ * Find due jobs, claim them and run one step each.
+ * Returns the number of steps processed.
+ */
+export async function processDueJobs(): Promise<number> {
+  const now = new Date();
+  const dueJobs = await prisma.projectJob.findMany({
+    where: {
+      status: { in: [...ACTIVE_STATUSES] },
+      nextRunAt: { lte: now },
+      OR: [
+        { lockedAt: null },
+        { lockedAt: { lt: new Date(now.getTime() - LOCK_TIMEOUT_MS) } },
+      ],
+    },
+    orderBy: { nextRunAt: "asc" },
+    select: { id: true },
+    take: 10,
+  });
+
+  let processed = 0;
+  for (const { id } of dueJobs) {
+    if (!(await claimJob(id))) continue;
+
+    const job = await prisma.projectJob.findUnique({ where: { id } });
+    if (!job) continue;
+
+    try {
+      await runJobStep(job);
+      processed++;
+    } catch (error) {
+      // Failure outside the batch itself (e.g. database unavailable) - stop the job
+      const message = error instanceof Error ? error.message : "Unexpected error.";
+      logger.error("Project job step failed", error, { jobId: id });
+      await updateActiveJob(id, {
+        status: "FAILED",
+        lastError: message,
+        completedAt: new Date(),
+        lockedAt: null,
+        lockedBy: null,
+      }).catch(() => undefined);
+    }
+  }
+  return processed;
+}
+
+// In-process worker state (one loop per server instance)
+let workerTimer: ReturnType<typeof setInterval> | null = null;
+let workerBusy = false;
+
+async function workerTick(): Promise<void> {
+  if (workerBusy) return;
+  workerBusy = true;
+  try {
+    // Keep stepping while there is due work, then wait for the next tick
+    while ((await processDueJobs()) > 0) {
+      // continue
+    }
+  } catch (error) {
+    logger.error("Project job worker tick failed", error, { workerId: WORKER_ID });
+  } finally {
+    workerBusy = false;
+  }
+}
+
+/**
+ * Start the background worker loop. Safe to call more than once.
+ * Called from instrumentation on server startup.
+ */
+export function startJobWorker(): void {
+  if (workerTimer) return;
+  workerTimer = setInterval(() => {
+    void workerTick();
+  }, WORKER_POLL_INTERVAL_MS);
+  logger.info("Project job worker started", { workerId: WORKER_ID, intervalMs: WORKER_POLL_INTERVAL_MS });
+}
+
+/**
+ * Run due jobs now without waiting for the next tick (fire-and-forget).
+ * Also lets deployments without a long-lived worker make progress while the UI polls.
+ */
+export function kickJobWorker(): void {
+  void workerTick();
+}
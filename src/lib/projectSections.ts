@@ -0,0 +1,221 @@
+import type { BulkRow, ProjectSection } from "@/types/bulkProject";
+
+/**
+ * Project Sections
+ *
+ * Turns the section information captured at upload (Word heading paths, PDF
+ * section titles, worksheet tabs) into a section tree stored as
+ * ProjectSection records, and helps the project view group rows by it.
+ */
+
+// "3.2 Access Control", "3.2. Access Control", "Section 3.2 - Access Control"
+const SECTION_NUMBER = /^(?:section\s+)?(\d+(?:\.\d+)*)[.):]?\s+(?:[-–]\s*)?\S/i;
+
+type SectionSeedRow = Pick<BulkRow, "sourceTab" | "section" | "sectionPath">;
+
+export type PlannedSection = {
+  id: string;
+  parentId: string | null;
+  title: string;
+  externalId: string | null;
+  sourceTab: string | null;
+  position: number;
+};
+
+export type SectionPlan = {
+  sections: PlannedSection[]; // Parents always come before their children
+  rowSectionIds: (string | null)[]; // Innermost section for each input row
+};
+
+/**
+ * The printed section number at the start of a title ("3.2 Access Control" → "3.2")
+ */
+export function getSectionNumber(title: string): string | undefined {
+  return title.match(SECTION_NUMBER)?.[1];
+}
+
+/**
+ * Build the section tree for a new project from its rows.
+ *
+ * - Word questions carry their heading path, which is used as-is.
+ * - PDF and spreadsheet questions carry a single section title; a numbered
+ *   title ("3.2 ...") is nested under an earlier section numbered "3".
+ * - When rows come from several worksheets, each tab is a top-level section.
+ */
+export function planProjectSections(
+  rows: SectionSeedRow[],
+  createId: () => string = () => crypto.randomUUID()
+): SectionPlan {
+  const sections: PlannedSection[] = [];
+  const byKey = new Map<string, PlannedSection>();
+  const byNumber = new Map<string, PlannedSection>(); // `${tab}\u0000${externalId}`
+  const tabs = new Set(rows.map((row) => row.sourceTab?.trim()).filter(Boolean));
+  const groupByTab = tabs.size > 1;
+
+  const keyFor = (parent: PlannedSection | null, title: string, tab: string | null) =>
+    `${parent?.id ?? tab ?? ""}\u0000${title}`;
+
+  const ensure = (parent: PlannedSection | null, title: string, tab: string | null): PlannedSection => {
+    const key = keyFor(parent, title, tab);
+    const existing = byKey.get(key);
+    if (existing) return existing;
+
+    const externalId = getSectionNumber(title) ?? null;
+    const section: PlannedSection = {
+      id: createId(),
+      parentId: parent?.id ?? null,
+      title,
+      externalId,
+      sourceTab: tab,
+      position: sections.length,
+    };
+    sections.push(section);
+    byKey.set(key, section);
+    if (externalId && !byNumber.has(`${tab ?? ""}\u0000${externalId}`)) {
+      byNumber.set(`${tab ?? ""}\u0000${externalId}`, section);
+    }
+    return section;
+  };
+
+  // Closest earlier section whose number is a prefix of this one ("3.2.1" → "3.2" → "3")
+  const numberedParent = (title: string, tab: string | null): PlannedSection | null => {
+    const parts = getSectionNumber(title)?.split(".") ?? [];
+    for (let length = parts.length - 1; length > 0; length--) {
+      const parent = byNumber.get(`${tab ?? ""}\u0000${parts.slice(0, length).join(".")}`);
+      if (parent) return parent;
+    }
+    return null;
+  };
+
+  const rowSectionIds = rows.map((row) => {
+    const tab = row.sourceTab?.trim() || null;
+    const headingPath = (row.sectionPath ?? []).map((title) => title.trim()).filter(Boolean);
+    const path = headingPath.length > 0 ? headingPath : [row.section?.trim()].filter((t): t is string => !!t);
+
+    let parent = groupByTab && tab ? ensure(null, tab, tab) : null;
+    if (path.length === 1 && !byKey.has(keyFor(parent, path[0], tab))) {
+      parent = numberedParent(path[0], tab) ?? parent;
+    }
+    for (const title of path) {
+      parent = ensure(parent, title, tab);
+    }
+    return parent?.id ?? null;
+  });
+
+  return { sections, rowSectionIds };
+}
+
+/**
+ * A section and all of its descendants (for filtering and section-wide actions)
+ */
+export function collectSectionIds(
+  sections: { id: string; parentId?: string | null }[],
+  rootId: string
+): Set<string> {
+  const ids = new Set([rootId]);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const section of sections) {
+      if (section.parentId && ids.has(section.parentId) && !ids.has(section.id)) {
+        ids.add(section.id);
+        added = true;
+      }
+    }
+  }
+  return ids;
+}
+
+export type SectionGroup = {
+  section: ProjectSection;
+  depth: number;
+  rows: BulkRow[]; // Rows directly in this section
+  totalRows: number; // Including nested sections
+  answeredRows: number; // Including nested sections
+};
+
+/**
+ * Order sections depth-first (by position) with their rows, for grouped display.
+ * Rows without a section are returned separately.
+ */
+export function groupRowsBySection(
+  sections: ProjectSection[],
+  rows: BulkRow[]
+): { groups: SectionGroup[]; unsectioned: BulkRow[] } {
+  const known = new Set(sections.map((section) => section.id));
+  const rowsBySection = new Map<string, BulkRow[]>();
+  const unsectioned: BulkRow[] = [];
+  for (const row of rows) {
+    if (row.sectionId && known.has(row.sectionId)) {
+      rowsBySection.set(row.sectionId, [...(rowsBySection.get(row.sectionId) ?? []), row]);
+    } else {
+      unsectioned.push(row);
+    }
+  }
+
+  const children = new Map<string | null, ProjectSection[]>();
+  for (const section of [...sections].sort((a, b) => a.position - b.position)) {
+    const parentId = section.parentId && known.has(section.parentId) ? section.parentId : null;
+    children.set(parentId, [...(children.get(parentId) ?? []), section]);
+  }
+
+  const groups: SectionGroup[] = [];
+  const visit = (section: ProjectSection, depth: number): { total: number; answered: number } => {
+    const own = rowsBySection.get(section.id) ?? [];
+    const group: SectionGroup = { section, depth, rows: own, totalRows: 0, answeredRows: 0 };
+    groups.push(group);
+    let total = own.length;
+    let answered = own.filter((row) => row.response?.trim()).length;
+    for (const child of children.get(section.id) ?? []) {
+      const counts = visit(child, depth + 1);
+      total += counts.total;
+      answered += counts.answered;
+    }
+    group.totalRows = total;
+    group.answeredRows = answered;
+    return { total, answered };
+  };
+  for (const root of children.get(null) ?? []) {
+    visit(root, 0);
+  }
+
+  return { groups, unsectioned };
+}
+
+/**
+ * Display label for a section ("3.2 Access Control", or "Security › 3.2 Access Control" with its parent)
+ */
+export function formatSectionPath(sections: ProjectSection[], sectionId: string | undefined): string {
+  const byId = new Map(sections.map((section) => [section.id, section]));
+  const titles: string[] = [];
+  let current = sectionId ? byId.get(sectionId) : undefined;
+  while (current && titles.length < 10) {
+    titles.unshift(current.title);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return titles.join(" › ");
+}
+
+/**
+ * Sections whose title or number contains the query (case-insensitive)
+ */
+export function findSections(sections: ProjectSection[], query: string): ProjectSection[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+  return sections.filter(
+    (section) => section.title.toLowerCase().includes(needle) || section.externalId?.toLowerCase() === needle
+  );
+}
+
+/**
+ * Answered/total rows in a section, including nested sections
+ */
+export function getSectionProgress(
+  sections: ProjectSection[],
+  rows: BulkRow[],
+  sectionId: string
+): { total: number; answered: number } {
+  const sectionIds = collectSectionIds(sections, sectionId);
+  const inSection = rows.filter((row) => row.sectionId && sectionIds.has(row.sectionId));
+  return { total: inSection.length, answered: inSection.filter((row) => row.response?.trim()).length };
+}
@@ -27,7 +27,9 @@ export type PromptContext =
   | "customer_profile"     // Extracting customer profiles
   | "prompt_optimize"      // Optimizing prompt sections
   | "instruction_builder"  // Building instruction presets for chat
-  | "collateral_planning"; // Conversational planning for collateral generation
+  | "collateral_planning"  // Conversational planning for collateral generation
+  | "questionnaire_extract" // Extracting questions from uploaded questionnaire PDFs
+  | "knowledge_gaps";      // Grouping weakly answered questions into knowledge gaps
 
 // Editability tiers for blocks and modifiers
 export type PromptTier = 1 | 2 | 3;
@@ -240,6 +242,16 @@ export const defaultBlocks: PromptBlock[] = [
         "",
         "Your instruction preset should focus on PERSONA and BEHAVIOR - how the AI should act, not technical output formatting.",
       ].join("\n"),
+      questionnaire_extract: [
+        "You are a questionnaire parsing specialist. You receive text extracted from a PDF security or vendor questionnaire.",
+        "Your job is to find every individual question the customer expects a response to, exactly as written.",
+        "PDF text extraction breaks lines mid-sentence, repeats page headers/footers and flattens tables - reassemble questions accordingly.",
+      ].join("\n"),
+      knowledge_gaps: [
+        "You are a knowledge management analyst for a sales and security questionnaire team.",
+        "You receive questions that the knowledge library answered poorly: low confidence, no matching skill, flagged by a reviewer or corrected by hand.",
+        "Your job is to group them into the missing topics the library should cover, so each group can become one new skill.",
+      ].join("\n"),
       collateral_planning: [
         "You are a sales enablement expert helping users plan what collateral to create for a specific customer.",
         "",
@@ -610,6 +622,46 @@ export const defaultBlocks: PromptBlock[] = [
         "- Each skill should have clear scope",
         "- Note any Q&A content that should be preserved verbatim",
       ].join("\n"),
+      questionnaire_extract: [
+        "You MUST respond with valid JSON in this exact structure:",
+        "{",
+        '  "questions": [',
+        "    {",
+        '      "id": "the question ID or number as printed, e.g. CC6.1 or 3.2.1 (null if none)",',
+        '      "section": "the nearest section heading above the question, e.g. 3.2 Access Control (null if none)",',
+        '      "question": "the full question text, verbatim, without the ID prefix"',
+        "    }",
+        "  ]",
+        "}",
+        "",
+        "RULES:",
+        "- One entry per question, in document order",
+        "- Sub-questions (a, b, c) are separate entries; prefix their text with the parent question if it is needed to make sense",
+        "- Keep the customer's wording - do not rephrase, summarize or answer",
+        "- Skip instructions, cover pages, definitions, signature blocks and page headers/footers",
+        "- Skip answer options (Yes/No/N/A) and empty response placeholders",
+        "- Return an empty questions array if the text contains no questions",
+      ].join("\n"),
+      knowledge_gaps: [
+        "You MUST respond with valid JSON in this exact structure:",
+        "{",
+        '  "clusters": [',
+        "    {",
+        '      "name": "short name of the missing topic, e.g. Data residency in the EU",',
+        '      "description": "one or two sentences on what customers keep asking and what the library lacks",',
+        '      "suggestedSkillTitle": "title for a new skill that would answer these questions",',
+        '      "questionIndexes": [1, 4, 7]',
+        "    }",
+        "  ]",
+        "}",
+        "",
+        "RULES:",
+        "- Group by the underlying knowledge needed, not by wording",
+        "- Each question index belongs to at most one cluster; leave out questions that fit no topic",
+        "- A cluster needs at least two questions unless a single question was asked many times",
+        "- Prefer fewer, well-scoped clusters over many tiny ones (at most 25)",
+        "- Use only the indexes given in the input",
+      ].join("\n"),
       collateral_planning: [
         "When the user approves your plan (says 'looks good', 'yes', 'proceed', 'let's do it', etc.), output it in this format:",
         "",
@@ -994,6 +1046,18 @@ export const defaultCompositions: PromptComposition[] = [
     supportsModes: false,
     supportsDomains: false,
   },
+  {
+    context: "questionnaire_extract",
+    blockIds: ["role_mission", "output_format"],
+    supportsModes: false,
+    supportsDomains: false,
+  },
+  {
+    context: "knowledge_gaps",
+    blockIds: ["role_mission", "output_format"],
+    supportsModes: false,
+    supportsDomains: false,
+  },
 ];
 
 // ============================================
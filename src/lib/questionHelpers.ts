@@ -1,4 +1,5 @@
 import { Skill } from "@/types/skill";
+import { SkillIndex, type SkillMatch } from "@/lib/retrieval";
 
 export type ParsedAnswerSections = {
   response: string;
@@ -170,58 +171,30 @@ export const parseAnswerSections = (answer: string): ParsedAnswerSections => {
 };
 
 /**
- * Selects relevant skills based on question keywords.
- * Scores skills by:
- * - Title matches: 10 points
- * - Category matches: 5 points
- * - Content keyword matches: 1 point each
- * Returns top 5 skills with score > 0
+ * Selects relevant skills for a question using BM25 retrieval over skill chunks
+ * (title, content sections and quick facts). See retrieval.ts.
+ * Returns up to 5 active skills with a positive score.
  */
 export const selectRelevantSkills = (question: string, allSkills: Skill[]): Skill[] => {
-  const questionLower = question.toLowerCase();
-  const questionWords = questionLower.split(/\s+/).filter((word) => word.length > 3);
-
-  const activeSkills = allSkills.filter((skill) => skill.isActive);
-
-  // Score each skill based on keyword matches
-  const scoredSkills = activeSkills.map((skill) => {
-    let score = 0;
-    const skillText = `${skill.title} ${skill.content}`.toLowerCase();
-
-    // Title matches are worth more
-    if (skill.title.toLowerCase().split(/\s+/).some((word) => questionWords.includes(word))) {
-      score += 10;
-    }
-
-    // Category matches
-    skill.categories?.forEach((cat) => {
-      if (questionLower.includes(cat.toLowerCase())) {
-        score += 5;
-      }
-    });
-
-    // Content keyword matches
-    questionWords.forEach((word) => {
-      if (skillText.includes(word)) {
-        score += 1;
-      }
-    });
-
-    return { skill, score };
-  });
+  return selectRelevantSkillsWithScores(question, allSkills).map((match) => match.skill);
+};
 
-  // Return top 5 skills with score > 0
-  return scoredSkills
-    .filter((item) => item.score > 0)
-    .sort((a, b) => b.score - a.score)
-    .slice(0, 5)
-    .map((item) => item.skill);
+/**
+ * Same as selectRelevantSkills, but returns the match scores and best chunks
+ * so they can be shown in TransparencyDetails.
+ */
+export const selectRelevantSkillsWithScores = (
+  question: string,
+  allSkills: Skill[],
+  maxSkills: number = 5
+): SkillMatch[] => {
+  return new SkillIndex(allSkills).rank(question, { maxSkills });
 };
 
 /**
  * Selects relevant skills for a batch of questions.
- * Combines keywords from all questions and returns the top skills
- * that are relevant to the batch as a whole.
+ * Each question is ranked separately and scores are summed per skill, so
+ * skills relevant to several questions in the batch rank higher.
  *
  * @param questions Array of question strings
  * @param allSkills All available skills
@@ -233,62 +206,5 @@ export const selectRelevantSkillsForBatch = (
   allSkills: Skill[],
   maxSkills: number = 10
 ): Skill[] => {
-  const activeSkills = allSkills.filter((skill) => skill.isActive);
-
-  // Combine all question keywords
-  const allKeywords = new Set<string>();
-  const combinedText = questions.join(" ").toLowerCase();
-
-  questions.forEach((question) => {
-    const questionLower = question.toLowerCase();
-    const words = questionLower.split(/\s+/).filter((word) => word.length > 3);
-    words.forEach((word) => allKeywords.add(word));
-  });
-
-  const keywordArray = Array.from(allKeywords);
-
-  // Score each skill based on combined keywords from all questions
-  const scoredSkills = activeSkills.map((skill) => {
-    let score = 0;
-    const skillTitle = skill.title.toLowerCase();
-    const skillText = `${skill.title} ${skill.content}`.toLowerCase();
-    const titleWords = skillTitle.split(/\s+/);
-
-    // Title word matches are worth more
-    titleWords.forEach((titleWord) => {
-      if (keywordArray.some((kw) => kw.includes(titleWord) || titleWord.includes(kw))) {
-        score += 10;
-      }
-    });
-
-    // Category matches - check if any question mentions the category
-    skill.categories?.forEach((cat) => {
-      const catLower = cat.toLowerCase();
-      if (combinedText.includes(catLower)) {
-        score += 8;
-      }
-      // Also check individual category words
-      catLower.split(/\s+/).forEach((catWord) => {
-        if (catWord.length > 3 && keywordArray.includes(catWord)) {
-          score += 3;
-        }
-      });
-    });
-
-    // Content keyword matches
-    keywordArray.forEach((word) => {
-      if (skillText.includes(word)) {
-        score += 1;
-      }
-    });
-
-    return { skill, score };
-  });
-
-  // Return top N skills with score > 0
-  return scoredSkills
-    .filter((item) => item.score > 0)
-    .sort((a, b) => b.score - a.score)
-    .slice(0, maxSkills)
-    .map((item) => item.skill);
+  return new SkillIndex(allSkills).rankBatch(questions, { maxSkills }).map((match) => match.skill);
 };
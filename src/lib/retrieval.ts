@@ -0,0 +1,446 @@
+import { Skill, RetrievedSkill } from "@/types/skill";
+
+/**
+ * Skill Retrieval
+ *
+ * Splits skills into chunks (title, content sections, quick facts), indexes them
+ * with BM25 and ranks skills by their best-matching chunks. Acronyms and their
+ * expansions ("SSO" / "single sign-on") are normalized to a shared token so
+ * either form matches.
+ *
+ * BM25 runs synchronously and works in the browser. An optional async backend
+ * (e.g. embeddings, see embeddings.ts) can be fused in with reciprocal rank fusion.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export type SkillChunkSource = "title" | "content" | "quickFact";
+
+export type SkillChunk = {
+  id: string;
+  skillId: string;
+  skillTitle: string;
+  source: SkillChunkSource;
+  text: string;
+};
+
+export type ScoredChunk = SkillChunk & {
+  score: number;
+};
+
+export type SkillMatch = {
+  skill: Skill;
+  score: number;
+  chunks: ScoredChunk[]; // Best-matching chunks, highest score first
+};
+
+/**
+ * A pluggable scorer that can be fused with BM25 (e.g. embedding similarity).
+ * Returns a score per chunk id; chunks it considers irrelevant can be omitted.
+ */
+export interface RetrievalBackend {
+  readonly name: string;
+  scoreChunks(query: string, chunks: SkillChunk[]): Promise<Map<string, number>>;
+}
+
+export type RankOptions = {
+  maxSkills?: number;
+  maxChunksPerSkill?: number;
+};
+
+// ============================================
+// TOKENIZATION
+// ============================================
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "been", "but", "by", "can", "could", "do", "does",
+  "for", "from", "has", "have", "how", "if", "in", "into", "is", "it", "its", "may", "of",
+  "on", "or", "our", "please", "provide", "should", "so", "such", "that", "the", "their",
+  "them", "then", "there", "these", "they", "this", "to", "was", "we", "were", "what", "when",
+  "where", "which", "who", "will", "with", "would", "you", "your", "describe", "explain",
+]);
+
+/**
+ * Equivalent terms common in security questionnaires. The first entry names the group;
+ * any occurrence of any variant adds a shared synonym token.
+ */
+const SYNONYM_GROUPS: string[][] = [
+  ["sso", "single sign on", "single signon"],
+  ["mfa", "multi factor authentication", "multifactor authentication", "two factor authentication", "2fa"],
+  ["rbac", "role based access control", "role based access"],
+  ["scim", "user provisioning", "automated provisioning"],
+  ["pii", "personally identifiable information", "personal data"],
+  ["gdpr", "general data protection regulation"],
+  ["soc2", "soc 2", "soc ii"],
+  ["iso27001", "iso 27001"],
+  ["hipaa", "health insurance portability"],
+  ["sla", "service level agreement", "uptime guarantee"],
+  ["bcp", "business continuity"],
+  ["drp", "disaster recovery"],
+  ["pentest", "penetration test", "pen test"],
+  ["ddos", "distributed denial of service"],
+  ["vpn", "virtual private network"],
+  ["siem", "security information and event management"],
+  ["dpa", "data processing agreement", "data processing addendum"],
+  ["api", "application programming interface"],
+  ["tls", "transport layer security", "encryption in transit"],
+  ["kms", "key management"],
+];
+
+function stem(token: string): string {
+  if (token.length > 4 && token.endsWith("ies")) return token.slice(0, -3) + "y";
+  if (token.length > 5 && token.endsWith("ing")) return token.slice(0, -3);
+  if (token.length > 4 && token.endsWith("ed")) return token.slice(0, -2);
+  if (token.length > 3 && token.endsWith("s") && !token.endsWith("ss")) return token.slice(0, -1);
+  return token;
+}
+
+function rawTokens(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+const SYNONYM_PATTERNS = SYNONYM_GROUPS.map((group) => ({
+  token: `syn:${group[0]}`,
+  phrases: group.map((variant) => rawTokens(variant).map(stem)),
+}));
+
+/**
+ * Start indexes of every occurrence of a phrase in a token list
+ */
+function findPhrase(tokens: string[], phrase: string[]): number[] {
+  const starts: number[] = [];
+  if (phrase.length === 0 || phrase.length > tokens.length) return starts;
+  for (let i = 0; i <= tokens.length - phrase.length; i++) {
+    if (phrase.every((part, j) => tokens[i + j] === part)) {
+      starts.push(i);
+    }
+  }
+  return starts;
+}
+
+export type TokenizeOptions = {
+  // Replace synonym phrases with their group token instead of adding it alongside,
+  // so "SSO" and "single sign-on" tokenize identically (used for question-to-question matching)
+  collapseSynonyms?: boolean;
+};
+
+/**
+ * Tokenize text for indexing/searching: lowercase, strip stopwords,
+ * light stemming, plus synonym-group tokens.
+ */
+export function tokenize(text: string, options: TokenizeOptions = {}): string[] {
+  const raw = rawTokens(text);
+  const stemmed = raw.map(stem);
+  const consumed = new Set<number>();
+  const synonyms: string[] = [];
+
+  for (const pattern of SYNONYM_PATTERNS) {
+    let matched = false;
+    for (const phrase of pattern.phrases) {
+      for (const startIndex of findPhrase(stemmed, phrase)) {
+        matched = true;
+        if (options.collapseSynonyms) {
+          phrase.forEach((_, j) => consumed.add(startIndex + j));
+        }
+      }
+    }
+    if (matched) synonyms.push(pattern.token);
+  }
+
+  // Stopwords are checked before and after stemming ("does" would otherwise become "doe")
+  const tokens = stemmed.filter((token, i) =>
+    !consumed.has(i) &&
+    !STOPWORDS.has(raw[i]) &&
+    !STOPWORDS.has(token) &&
+    (token.length > 1 || /\d/.test(token))
+  );
+
+  return [...tokens, ...synonyms];
+}
+
+// ============================================
+// CHUNKING
+// ============================================
+
+const MAX_CHUNK_CHARS = 800;
+
+function splitLongText(text: string, maxChars: number): string[] {
+  if (text.length <= maxChars) return [text];
+
+  const sentences = text.split(/(?<=[.!?])\s+/);
+  const parts: string[] = [];
+  let current = "";
+  for (const sentence of sentences) {
+    if (current && current.length + sentence.length + 1 > maxChars) {
+      parts.push(current);
+      current = "";
+    }
+    current = current ? `${current} ${sentence}` : sentence;
+  }
+  if (current) parts.push(current);
+  return parts;
+}
+
+/**
+ * Split a skill into retrievable chunks: one title chunk (title + categories),
+ * content sections grouped by headings/paragraphs, and one chunk per quick fact.
+ */
+export function chunkSkill(skill: Skill, maxChars: number = MAX_CHUNK_CHARS): SkillChunk[] {
+  const chunks: SkillChunk[] = [];
+  const makeChunk = (source: SkillChunkSource, text: string): SkillChunk => ({
+    id: `${skill.id}:${chunks.length}`,
+    skillId: skill.id,
+    skillTitle: skill.title,
+    source,
+    text,
+  });
+
+  const categories = skill.categories?.length ? skill.categories : skill.category ? [skill.category] : [];
+  chunks.push(makeChunk("title", [skill.title, ...categories].join(" - ")));
+
+  // Group paragraphs into sections; a markdown heading always starts a new section
+  const paragraphs = (skill.content || "").split(/\n\s*\n/).map((p) => p.trim()).filter(Boolean);
+  let section = "";
+  const flush = () => {
+    for (const part of splitLongText(section, maxChars)) {
+      chunks.push(makeChunk("content", part));
+    }
+    section = "";
+  };
+  for (const paragraph of paragraphs) {
+    const startsHeading = /^#{1,6}\s/.test(paragraph);
+    if (section && (startsHeading || section.length + paragraph.length + 2 > maxChars)) {
+      flush();
+    }
+    section = section ? `${section}\n\n${paragraph}` : paragraph;
+  }
+  if (section) flush();
+
+  for (const fact of skill.quickFacts || []) {
+    if (fact?.question || fact?.answer) {
+      chunks.push(makeChunk("quickFact", `Q: ${fact.question}\nA: ${fact.answer}`));
+    }
+  }
+
+  return chunks;
+}
+
+// ============================================
+// BM25
+// ============================================
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/**
+ * Okapi BM25 index over skill chunks. Each chunk is indexed together with its
+ * skill title so content chunks still match questions that name the topic.
+ */
+export class BM25Index {
+  private readonly docs: { chunk: SkillChunk; termFreq: Map<string, number>; length: number }[];
+  private readonly docFreq = new Map<string, number>();
+  private readonly avgLength: number;
+
+  constructor(readonly chunks: SkillChunk[]) {
+    this.docs = chunks.map((chunk) => {
+      const tokens = tokenize(chunk.source === "title" ? chunk.text : `${chunk.skillTitle} ${chunk.text}`);
+      const termFreq = new Map<string, number>();
+      for (const token of tokens) {
+        termFreq.set(token, (termFreq.get(token) || 0) + 1);
+      }
+      for (const term of termFreq.keys()) {
+        this.docFreq.set(term, (this.docFreq.get(term) || 0) + 1);
+      }
+      return { chunk, termFreq, length: tokens.length };
+    });
+    const totalLength = this.docs.reduce((sum, doc) => sum + doc.length, 0);
+    this.avgLength = this.docs.length > 0 ? totalLength / this.docs.length : 0;
+  }
+
+  /**
+   * Score every chunk for a query. Returns only chunks with a positive score.
+   */
+  search(query: string): ScoredChunk[] {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    if (queryTerms.length === 0 || this.docs.length === 0) return [];
+
+    const n = this.docs.length;
+    const results: ScoredChunk[] = [];
+
+    for (const doc of this.docs) {
+      let score = 0;
+      for (const term of queryTerms) {
+        const tf = doc.termFreq.get(term);
+        if (!tf) continue;
+        const df = this.docFreq.get(term) || 0;
+        const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+        const norm = tf + BM25_K1 * (1 - BM25_B + BM25_B * (doc.length / (this.avgLength || 1)));
+        score += idf * ((tf * (BM25_K1 + 1)) / norm);
+      }
+      if (score > 0) {
+        results.push({ ...doc.chunk, score });
+      }
+    }
+
+    return results.sort((a, b) => b.score - a.score);
+  }
+}
+
+// ============================================
+// SKILL RANKING
+// ============================================
+
+// Weight of the 2nd/3rd best chunks relative to the best one when scoring a skill
+const SECONDARY_CHUNK_WEIGHT = 0.3;
+
+// Reciprocal rank fusion constant (standard value from the RRF paper)
+const RRF_K = 60;
+
+// Only the nearest chunks from a semantic backend take part in fusion;
+// similarity is positive for nearly everything, so the tail is noise
+const SEMANTIC_TOP_K = 20;
+
+function aggregateBySkill(
+  scored: ScoredChunk[],
+  skillsById: Map<string, Skill>,
+  maxChunksPerSkill: number
+): SkillMatch[] {
+  const bySkill = new Map<string, ScoredChunk[]>();
+  for (const chunk of scored) {
+    const list = bySkill.get(chunk.skillId) || [];
+    list.push(chunk);
+    bySkill.set(chunk.skillId, list);
+  }
+
+  const matches: SkillMatch[] = [];
+  for (const [skillId, chunks] of bySkill) {
+    const skill = skillsById.get(skillId);
+    if (!skill) continue;
+    const sorted = chunks.sort((a, b) => b.score - a.score);
+    const score = sorted[0].score + SECONDARY_CHUNK_WEIGHT * sorted.slice(1, 3).reduce((sum, c) => sum + c.score, 0);
+    matches.push({ skill, score, chunks: sorted.slice(0, maxChunksPerSkill) });
+  }
+
+  return matches.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Index over a set of skills. Build once and reuse for many queries.
+ */
+export class SkillIndex {
+  private readonly skillsById: Map<string, Skill>;
+  private readonly chunks: SkillChunk[];
+  private readonly bm25: BM25Index;
+
+  constructor(skills: Skill[]) {
+    const active = skills.filter((skill) => skill.isActive);
+    this.skillsById = new Map(active.map((skill) => [skill.id, skill]));
+    this.chunks = active.flatMap((skill) => chunkSkill(skill));
+    this.bm25 = new BM25Index(this.chunks);
+  }
+
+  /**
+   * Rank skills for a query with BM25 (synchronous)
+   */
+  rank(query: string, options: RankOptions = {}): SkillMatch[] {
+    const { maxSkills = 5, maxChunksPerSkill = 2 } = options;
+    return aggregateBySkill(this.bm25.search(query), this.skillsById, maxChunksPerSkill).slice(0, maxSkills);
+  }
+
+  /**
+   * Rank skills for a batch of queries (see mergeSkillMatches)
+   */
+  rankBatch(queries: string[], options: RankOptions = {}): SkillMatch[] {
+    const { maxSkills = 10, maxChunksPerSkill = 2 } = options;
+    const perQuery = queries.map((query) =>
+      this.rank(query, { maxSkills: this.skillsById.size, maxChunksPerSkill })
+    );
+    return mergeSkillMatches(perQuery, { maxSkills, maxChunksPerSkill });
+  }
+
+  /**
+   * Rank skills by fusing BM25 with another backend (reciprocal rank fusion).
+   * Falls back to BM25 alone if the backend fails.
+   */
+  async rankHybrid(query: string, backend: RetrievalBackend, options: RankOptions = {}): Promise<SkillMatch[]> {
+    const { maxSkills = 5, maxChunksPerSkill = 2 } = options;
+    const lexical = this.bm25.search(query);
+
+    let semantic: Map<string, number>;
+    try {
+      semantic = await backend.scoreChunks(query, this.chunks);
+    } catch {
+      return this.rank(query, options);
+    }
+
+    const fused = new Map<string, number>();
+    lexical.forEach((chunk, rank) => {
+      fused.set(chunk.id, (fused.get(chunk.id) || 0) + 1 / (RRF_K + rank + 1));
+    });
+    Array.from(semantic.entries())
+      .filter(([, score]) => score > 0)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, SEMANTIC_TOP_K)
+      .forEach(([chunkId], rank) => {
+        fused.set(chunkId, (fused.get(chunkId) || 0) + 1 / (RRF_K + rank + 1));
+      });
+
+    const chunksById = new Map(this.chunks.map((chunk) => [chunk.id, chunk]));
+    const scored: ScoredChunk[] = [];
+    for (const [chunkId, score] of fused) {
+      const chunk = chunksById.get(chunkId);
+      if (chunk) scored.push({ ...chunk, score });
+    }
+
+    return aggregateBySkill(scored, this.skillsById, maxChunksPerSkill).slice(0, maxSkills);
+  }
+}
+
+/**
+ * Combine per-query rankings into one batch ranking. A skill's batch score is the
+ * sum of its per-query scores, so skills relevant to several questions rank higher.
+ */
+export function mergeSkillMatches(matchLists: SkillMatch[][], options: RankOptions = {}): SkillMatch[] {
+  const { maxSkills = 10, maxChunksPerSkill = 2 } = options;
+  const combined = new Map<string, SkillMatch>();
+
+  for (const matches of matchLists) {
+    for (const match of matches) {
+      const existing = combined.get(match.skill.id);
+      if (existing) {
+        existing.score += match.score;
+        existing.chunks = [...existing.chunks, ...match.chunks]
+          .filter((chunk, idx, all) => all.findIndex((c) => c.id === chunk.id) === idx)
+          .sort((a, b) => b.score - a.score)
+          .slice(0, maxChunksPerSkill);
+      } else {
+        combined.set(match.skill.id, { ...match, chunks: [...match.chunks] });
+      }
+    }
+  }
+
+  return Array.from(combined.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, maxSkills);
+}
+
+/**
+ * Summarize matches for storage/display (drops full skill content)
+ */
+export function toRetrievedSkills(matches: SkillMatch[], maxSnippetChars: number = 240): RetrievedSkill[] {
+  return matches.map((match) => ({
+    id: match.skill.id,
+    title: match.skill.title,
+    ...(match.skill.version !== undefined && { version: match.skill.version }),
+    score: Math.round(match.score * 1000) / 1000,
+    chunks: match.chunks.map((chunk) => ({
+      text: chunk.text.length > maxSnippetChars ? `${chunk.text.slice(0, maxSnippetChars)}...` : chunk.text,
+      score: Math.round(chunk.score * 1000) / 1000,
+    })),
+  }));
+}
@@ -0,0 +1,324 @@
+import { prisma } from "@/lib/prisma";
+import { logAnswerChange, type AuditUser } from "@/lib/auditLog";
+import { logger } from "@/lib/logger";
+import { notifyUsers } from "@/lib/notifications";
+import type { SkillOwner } from "@/types/skill";
+
+/**
+ * Review Routing
+ *
+ * Picks a reviewer (SME) for each answered row when a project finishes answering.
+ * Candidates are tried in order: the reviewer assigned to the row's section (or a
+ * parent section), the owners of the skills used for the answer, then active
+ * routing rules matching the skills' categories or the question's keywords.
+ * When several people qualify, the one with the fewest open reviews wins.
+ */
+
+export type ReviewerCandidate = {
+  id: string;
+  name: string | null;
+};
+
+export type RoutingRule = {
+  id: string;
+  categoryName: string | null;
+  keywords: string[];
+  reviewerId: string;
+  reviewerName: string | null;
+  priority: number;
+};
+
+export type RoutableRow = {
+  question: string;
+  sectionId: string | null;
+  usedSkillIds: string[];
+};
+
+export type RoutingContext = {
+  // Section id -> { parentId, reviewer }
+  sections: Map<string, { parentId: string | null; reviewer: ReviewerCandidate | null }>;
+  // Skill id -> owners (resolved to users) and categories
+  skills: Map<string, { owners: ReviewerCandidate[]; categories: string[] }>;
+  rules: RoutingRule[];
+  // Reviewer id -> open REQUESTED reviews (updated as rows are routed)
+  workloads: Map<string, number>;
+};
+
+export type RoutingReason = "section" | "skill-owner" | "rule";
+
+export type RoutingDecision = {
+  reviewer: ReviewerCandidate;
+  reason: RoutingReason;
+  ruleId?: string;
+};
+
+/**
+ * Count open (REQUESTED) reviews per assigned reviewer across projects and quick questions
+ */
+export async function getReviewerWorkloads(reviewerIds?: string[]): Promise<Map<string, number>> {
+  const where = {
+    reviewStatus: "REQUESTED" as const,
+    assignedReviewerId: reviewerIds ? { in: reviewerIds } : { not: null },
+  };
+
+  const [rowCounts, questionCounts] = await Promise.all([
+    prisma.bulkRow.groupBy({ by: ["assignedReviewerId"], _count: true, where }),
+    prisma.questionHistory.groupBy({ by: ["assignedReviewerId"], _count: true, where }),
+  ]);
+
+  const workloads = new Map<string, number>();
+  for (const entry of [...rowCounts, ...questionCounts]) {
+    if (!entry.assignedReviewerId) continue;
+    workloads.set(entry.assignedReviewerId, (workloads.get(entry.assignedReviewerId) || 0) + entry._count);
+  }
+  return workloads;
+}
+
+function leastLoaded(candidates: ReviewerCandidate[], workloads: Map<string, number>): ReviewerCandidate | null {
+  let best: ReviewerCandidate | null = null;
+  for (const candidate of candidates) {
+    if (!best || (workloads.get(candidate.id) || 0) < (workloads.get(best.id) || 0)) {
+      best = candidate;
+    }
+  }
+  return best;
+}
+
+function ruleMatches(rule: RoutingRule, question: string, categories: Set<string>): boolean {
+  if (rule.categoryName && categories.has(rule.categoryName.toLowerCase())) {
+    return true;
+  }
+  const text = question.toLowerCase();
+  return rule.keywords.some((keyword) => keyword.trim() && text.includes(keyword.trim().toLowerCase()));
+}
+
+/**
+ * Choose the reviewer for one row. Returns null when nothing matches;
+ * such rows are left for a manual review request.
+ */
+export function chooseReviewer(row: RoutableRow, context: RoutingContext): RoutingDecision | null {
+  // An explicit section assignment always wins
+  let sectionId = row.sectionId;
+  while (sectionId) {
+    const section = context.sections.get(sectionId);
+    if (!section) break;
+    if (section.reviewer) {
+      return { reviewer: section.reviewer, reason: "section" };
+    }
+    sectionId = section.parentId;
+  }
+
+  const skills = row.usedSkillIds
+    .map((id) => context.skills.get(id))
+    .filter((skill): skill is NonNullable<typeof skill> => Boolean(skill));
+
+  const owners = new Map<string, ReviewerCandidate>();
+  for (const skill of skills) {
+    for (const owner of skill.owners) {
+      owners.set(owner.id, owner);
+    }
+  }
+  const owner = leastLoaded([...owners.values()], context.workloads);
+  if (owner) {
+    return { reviewer: owner, reason: "skill-owner" };
+  }
+
+  // Rules are tried by priority; ties go to the least loaded reviewer
+  const categories = new Set(skills.flatMap((skill) => skill.categories.map((c) => c.toLowerCase())));
+  const matching = context.rules.filter((rule) => ruleMatches(rule, row.question, categories));
+  if (matching.length === 0) {
+    return null;
+  }
+  const topPriority = Math.max(...matching.map((rule) => rule.priority));
+  const top = matching.filter((rule) => rule.priority === topPriority);
+  const reviewer = leastLoaded(
+    top.map((rule) => ({ id: rule.reviewerId, name: rule.reviewerName })),
+    context.workloads
+  );
+  if (!reviewer) {
+    return null;
+  }
+  return { reviewer, reason: "rule", ruleId: top.find((rule) => rule.reviewerId === reviewer.id)?.id };
+}
+
+function getUsedSkillIds(usedSkills: unknown): string[] {
+  if (!Array.isArray(usedSkills)) return [];
+  return usedSkills
+    .map((skill) => (typeof skill === "string" ? skill : (skill as { id?: string })?.id))
+    .filter((id): id is string => typeof id === "string");
+}
+
+async function loadRoutingContext(
+  projectId: string,
+  skillIds: string[]
+): Promise<Omit<RoutingContext, "workloads">> {
+  const [sections, skills, rules] = await Promise.all([
+    prisma.projectSection.findMany({
+      where: { projectId },
+      select: { id: true, parentId: true, assignedReviewerId: true, assignedReviewerName: true },
+    }),
+    skillIds.length > 0
+      ? prisma.skill.findMany({
+          where: { id: { in: skillIds } },
+          select: { id: true, categories: true, ownerId: true, owner: { select: { name: true } }, owners: true },
+        })
+      : Promise.resolve([]),
+    prisma.reviewRoutingRule.findMany({
+      where: { isActive: true },
+      include: { category: { select: { name: true } } },
+      orderBy: [{ priority: "desc" }, { createdAt: "asc" }],
+    }),
+  ]);
+
+  // Legacy owners may only have an email; resolve them to users so they can be assigned
+  const ownerEmails = new Set<string>();
+  for (const skill of skills) {
+    for (const owner of (skill.owners as SkillOwner[] | null) || []) {
+      if (!owner.userId && owner.email) ownerEmails.add(owner.email.toLowerCase());
+    }
+  }
+  const usersByEmail = new Map<string, ReviewerCandidate>();
+  if (ownerEmails.size > 0) {
+    const users = await prisma.user.findMany({
+      where: { email: { in: [...ownerEmails], mode: "insensitive" } },
+      select: { id: true, name: true, email: true },
+    });
+    for (const user of users) {
+      if (user.email) usersByEmail.set(user.email.toLowerCase(), { id: user.id, name: user.name });
+    }
+  }
+
+  const skillMap: RoutingContext["skills"] = new Map();
+  for (const skill of skills) {
+    const owners: ReviewerCandidate[] = [];
+    if (skill.ownerId) {
+      owners.push({ id: skill.ownerId, name: skill.owner?.name ?? null });
+    }
+    for (const owner of (skill.owners as SkillOwner[] | null) || []) {
+      const resolved = owner.userId
+        ? { id: owner.userId, name: owner.name }
+        : owner.email
+          ? usersByEmail.get(owner.email.toLowerCase())
+          : undefined;
+      if (resolved && !owners.some((o) => o.id === resolved.id)) {
+        owners.push(resolved);
+      }
+    }
+    skillMap.set(skill.id, { owners, categories: skill.categories });
+  }
+
+  return {
+    sections: new Map(
+      sections.map((section) => [
+        section.id,
+        {
+          parentId: section.parentId,
+          reviewer: section.assignedReviewerId
+            ? { id: section.assignedReviewerId, name: section.assignedReviewerName }
+            : null,
+        },
+      ])
+    ),
+    skills: skillMap,
+    rules: rules.map((rule) => ({
+      id: rule.id,
+      categoryName: rule.category?.name ?? null,
+      keywords: rule.keywords,
+      reviewerId: rule.reviewerId,
+      reviewerName: rule.reviewerName,
+      priority: rule.priority,
+    })),
+  };
+}
+
+/**
+ * Request reviews for a project's answered rows that are not yet under review,
+ * assigning each to its routed reviewer. Rows without a match are left alone.
+ * Returns the number of rows routed.
+ */
+export async function routeProjectReviews(
+  projectId: string,
+  requestedBy?: AuditUser
+): Promise<number> {
+  const project = await prisma.bulkProject.findUnique({
+    where: { id: projectId },
+    select: { name: true },
+  });
+  if (!project) {
+    return 0;
+  }
+
+  const rows = await prisma.bulkRow.findMany({
+    where: {
+      projectId,
+      status: "COMPLETED",
+      reviewStatus: "NONE",
+      queuedForReview: false,
+      response: { not: "" },
+    },
+    select: { id: true, question: true, response: true, confidence: true, sectionId: true, usedSkills: true },
+    orderBy: { rowNumber: "asc" },
+  });
+  if (rows.length === 0) {
+    return 0;
+  }
+
+  const routable = rows.map((row) => ({ ...row, usedSkillIds: getUsedSkillIds(row.usedSkills) }));
+  const context: RoutingContext = {
+    ...(await loadRoutingContext(projectId, [...new Set(routable.flatMap((row) => row.usedSkillIds))])),
+    workloads: await getReviewerWorkloads(),
+  };
+
+  const requester = requestedBy?.name || requestedBy?.email || "Review routing";
+  let routed = 0;
+  // Rows routed to each reviewer, announced once per reviewer at the end
+  const routedByReviewer = new Map<string, number>();
+
+  for (const row of routable) {
+    const decision = chooseReviewer(row, context);
+    if (!decision) continue;
+
+    await prisma.bulkRow.update({
+      where: { id: row.id },
+      data: {
+        reviewStatus: "REQUESTED",
+        reviewRequestedAt: new Date(),
+        reviewRequestedBy: requester,
+        assignedReviewerId: decision.reviewer.id,
+        assignedReviewerName: decision.reviewer.name,
+      },
+    });
+    context.workloads.set(decision.reviewer.id, (context.workloads.get(decision.reviewer.id) || 0) + 1);
+    routedByReviewer.set(decision.reviewer.id, (routedByReviewer.get(decision.reviewer.id) || 0) + 1);
+    routed++;
+
+    await logAnswerChange(
+      "REVIEW_REQUESTED",
+      row.id,
+      row.question.substring(0, 100) || "Answer",
+      requestedBy,
+      undefined,
+      {
+        projectId,
+        projectName: project.name,
+        response: row.response,
+        confidence: row.confidence,
+        assignedReviewerName: decision.reviewer.name,
+        routedBy: decision.reason,
+        routingRuleId: decision.ruleId,
+      }
+    );
+  }
+
+  for (const [reviewerId, count] of routedByReviewer) {
+    await notifyUsers([reviewerId], {
+      type: "REVIEW_ASSIGNED",
+      title: `${count} answer${count === 1 ? "" : "s"} in ${project.name} routed to you for review`,
+      link: `/projects/${projectId}?filter=flagged`,
+      actorName: requestedBy?.name || requestedBy?.email,
+    });
+  }
+
+  logger.info("Routed project reviews", { projectId, routed, candidates: rows.length });
+  return routed;
+}
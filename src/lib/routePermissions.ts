@@ -0,0 +1,204 @@
+import { NextResponse } from "next/server";
+import type { Capability } from "@prisma/client";
+import { requireAuth, requireAdmin, requireAnyCapability, type AuthResult } from "@/lib/apiAuth";
+import { logger } from "@/lib/logger";
+
+/**
+ * Route Permissions
+ *
+ * Declares who may call each API route and method:
+ * - "public": no session needed
+ * - "authenticated": any signed-in user
+ * - "admin": ADMIN or MANAGE_PROMPTS (legacy ADMIN/PROMPT_ADMIN roles), as requireAdmin
+ * - a list of capabilities: any one of them (ADMIN grants all)
+ *
+ * Every non-public handler authorizes its caller with
+ * requireRoutePermission(route, method), or is built with
+ * createRoute({ route }), so the policy declared here is the one enforced.
+ * tests/routePermissions.test.ts fails when a route file exports a method
+ * missing from this manifest or a handler doesn't check its own entry.
+ * Access to individual projects is checked separately (see projectAccess.ts).
+ *
+ * Keys are the route's path under src/app, e.g. "/api/projects/[id]".
+ */
+
+export type RouteMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+export type RoutePolicy = "public" | "authenticated" | "admin" | Capability[];
+
+export type RoutePermissionResult = AuthResult | { authorized: true; session: null };
+
+const ORG_DATA: Capability[] = ["VIEW_ORG_DATA"];
+// Writes to skills, documents, URLs, categories and customers
+const KNOWLEDGE: Capability[] = ["MANAGE_KNOWLEDGE"];
+const KNOWLEDGE_INSIGHTS: Capability[] = ["MANAGE_KNOWLEDGE", "VIEW_ORG_DATA"];
+
+export const ROUTE_PERMISSIONS: Record<string, Partial<Record<RouteMethod, RoutePolicy>>> = {
+  "/api/accuracy/stats": { GET: ORG_DATA },
+  "/api/admin/feedback/chat": { GET: "admin" },
+  "/api/admin/migrate-customer-profiles": { GET: "admin", POST: "admin" },
+  "/api/admin/settings": { GET: "admin", POST: "admin", DELETE: "admin" },
+  "/api/app-settings": { GET: "admin", POST: "admin" },
+  // Not sensitive; read by the batch generation UI
+  "/api/app-settings/rate-limits": { GET: "public" },
+  "/api/audit-log": { GET: ORG_DATA },
+  "/api/auth/[...nextauth]": { GET: "public", POST: "public" },
+  "/api/auth-groups": { GET: ["MANAGE_USERS"], POST: ["MANAGE_USERS"], PUT: ["MANAGE_USERS"], DELETE: ["MANAGE_USERS"] },
+  "/api/auth-groups/seed": { POST: ["ADMIN"] },
+  // Shown on the sign-in page
+  "/api/branding": { GET: "public" },
+  "/api/chat": { POST: "authenticated" },
+  "/api/chat/feedback": { GET: "authenticated", POST: "authenticated" },
+  "/api/chat-sessions": { GET: "authenticated", POST: "authenticated", DELETE: "authenticated" },
+  "/api/chat-sessions/[id]": { GET: "authenticated", PUT: "authenticated", DELETE: "authenticated" },
+  "/api/collateral/output": { GET: "authenticated", POST: "authenticated" },
+  "/api/collateral/output/[id]": { GET: "authenticated", PATCH: "authenticated", DELETE: "authenticated" },
+  "/api/collateral/plan": { GET: "authenticated", POST: "authenticated" },
+  "/api/comments": { GET: "authenticated", POST: "authenticated" },
+  "/api/comments/[id]": { PATCH: "authenticated", DELETE: "authenticated" },
+  "/api/context-snippets": { GET: "authenticated", POST: "authenticated" },
+  "/api/context-snippets/[id]": { GET: "authenticated", PUT: "authenticated", DELETE: "authenticated" },
+  "/api/customers": { GET: "authenticated", POST: KNOWLEDGE },
+  "/api/customers/[id]": { GET: "authenticated", PUT: KNOWLEDGE, DELETE: KNOWLEDGE },
+  "/api/customers/[id]/documents": { GET: "authenticated", POST: KNOWLEDGE },
+  "/api/customers/[id]/documents/[docId]": { GET: "authenticated", PUT: KNOWLEDGE, DELETE: KNOWLEDGE },
+  "/api/customers/[id]/salesforce-sync": { POST: KNOWLEDGE },
+  "/api/customers/analyze": { POST: "authenticated" },
+  "/api/customers/enrich-from-salesforce": { GET: "authenticated" },
+  "/api/customers/suggest": { POST: "authenticated" },
+  "/api/documents": { GET: "authenticated", POST: KNOWLEDGE },
+  "/api/documents/[id]": { GET: "authenticated", PATCH: KNOWLEDGE, DELETE: KNOWLEDGE },
+  "/api/documents/content": { GET: "authenticated" },
+  "/api/feedback": { GET: "authenticated", POST: "authenticated" },
+  "/api/fetch-url": { POST: "authenticated" },
+  "/api/google/slides": { GET: "authenticated" },
+  "/api/google/slides/fill": { POST: "authenticated" },
+  "/api/instruction-presets": { GET: "authenticated", POST: "authenticated" },
+  "/api/instruction-presets/[id]": { GET: "authenticated", PUT: "authenticated", DELETE: "authenticated" },
+  "/api/instruction-presets/build": { GET: "authenticated", POST: "authenticated" },
+  "/api/knowledge-chat": { POST: "authenticated" },
+  "/api/knowledge-gaps": { GET: KNOWLEDGE_INSIGHTS, POST: KNOWLEDGE_INSIGHTS },
+  "/api/knowledge-gaps/[id]": { GET: KNOWLEDGE_INSIGHTS },
+  "/api/notifications": { GET: "authenticated", PATCH: "authenticated" },
+  // Project routes also check the user's role on the project itself (requireProjectAccess)
+  "/api/projects": { GET: "authenticated", POST: ["CREATE_PROJECTS"] },
+  "/api/projects/[id]": { GET: "authenticated", PUT: "authenticated", DELETE: "authenticated" },
+  "/api/projects/[id]/collaborators": { GET: "authenticated", PUT: "authenticated" },
+  "/api/projects/[id]/comments": { GET: "authenticated" },
+  "/api/projects/[id]/jobs": { GET: "authenticated", POST: "authenticated" },
+  "/api/projects/[id]/jobs/[jobId]": { GET: "authenticated", DELETE: "authenticated" },
+  "/api/projects/[id]/lock": { POST: "authenticated", DELETE: ["REVIEW_ANSWERS"] },
+  "/api/projects/[id]/prior-answers": { GET: "authenticated" },
+  "/api/projects/[id]/rows/[rowId]": { PATCH: "authenticated", POST: "authenticated" },
+  "/api/projects/[id]/rows/[rowId]/clarify": { POST: "authenticated" },
+  "/api/projects/[id]/rows/[rowId]/lock": { POST: "authenticated", DELETE: ["REVIEW_ANSWERS"] },
+  "/api/projects/[id]/rows/[rowId]/use-prior-answer": { POST: "authenticated" },
+  "/api/projects/[id]/sections/[sectionId]": { PATCH: "authenticated" },
+  "/api/projects/[id]/source-file": { GET: "authenticated", POST: "authenticated", PATCH: "authenticated" },
+  "/api/projects/[id]/source-file/export": { GET: "authenticated" },
+  "/api/projects/[id]/stale-answers": { GET: "authenticated" },
+  "/api/projects/parse-document": { POST: "authenticated" },
+  "/api/prompt-blocks": { GET: "admin", PUT: "admin" },
+  "/api/prompts/optimize": { POST: "authenticated" },
+  "/api/question-history": { GET: "authenticated", POST: "authenticated", DELETE: "authenticated" },
+  "/api/question-history/[id]": { GET: "authenticated", PATCH: "authenticated", DELETE: "authenticated" },
+  "/api/question-log": { GET: ORG_DATA, DELETE: ORG_DATA },
+  "/api/questions/answer": { POST: ["ASK_QUESTIONS"] },
+  "/api/questions/answer-batch": { POST: ["ASK_QUESTIONS", "CREATE_PROJECTS"] },
+  "/api/reference-urls": { GET: "authenticated", POST: KNOWLEDGE, PUT: KNOWLEDGE },
+  "/api/reference-urls/[id]": { GET: "authenticated", PUT: KNOWLEDGE, DELETE: KNOWLEDGE },
+  "/api/reference-urls/link": { POST: KNOWLEDGE },
+  "/api/review-routing": { GET: "admin", POST: "admin" },
+  "/api/review-routing/[id]": { PATCH: "admin", DELETE: "admin" },
+  "/api/reviews": { GET: ["REVIEW_ANSWERS", "VIEW_ORG_DATA"] },
+  "/api/reviews/workload": { GET: "authenticated" },
+  "/api/search": { GET: "authenticated" },
+  // First-run setup; refuses once any user exists
+  "/api/setup": { GET: "public", POST: "public" },
+  "/api/skill-categories": { GET: "authenticated", POST: KNOWLEDGE, PUT: KNOWLEDGE },
+  "/api/skill-categories/[id]": { GET: "authenticated", PUT: KNOWLEDGE, DELETE: KNOWLEDGE },
+  "/api/skills": { GET: "authenticated", POST: KNOWLEDGE },
+  "/api/skills/[id]": { GET: "authenticated", PUT: KNOWLEDGE, DELETE: KNOWLEDGE },
+  "/api/skills/[id]/refresh": { POST: KNOWLEDGE, PUT: KNOWLEDGE },
+  "/api/skills/[id]/rollback": { POST: KNOWLEDGE },
+  "/api/skills/[id]/versions": { GET: "authenticated" },
+  "/api/skills/analyze": { POST: "authenticated" },
+  "/api/skills/analyze-library": { POST: "authenticated" },
+  "/api/skills/analyze-rfp": { POST: "authenticated" },
+  "/api/skills/plan": { GET: "authenticated", POST: "authenticated" },
+  "/api/skills/proposals": { GET: "authenticated" },
+  // Skill owners review their own skills' proposals and drafts (checked per skill)
+  "/api/skills/proposals/[id]": { PATCH: "authenticated" },
+  "/api/skills/refresh-drafts": { GET: "authenticated", POST: KNOWLEDGE },
+  "/api/skills/refresh-drafts/[id]": { PATCH: "authenticated" },
+  "/api/skills/suggest": { POST: "authenticated" },
+  "/api/slack/notify": { POST: "authenticated" },
+  "/api/snowflake/customer-data": { GET: "authenticated" },
+  "/api/snowflake/mappings": { GET: "admin", PUT: "admin" },
+  "/api/snowflake/schema": { GET: "admin" },
+  "/api/snowflake/test": { GET: "admin" },
+  "/api/system-prompts": { GET: "authenticated", POST: "admin" },
+  "/api/system-prompts/[key]": { GET: "authenticated", PUT: "admin", DELETE: "admin" },
+  "/api/templates": { GET: "authenticated", POST: "authenticated" },
+  "/api/templates/[id]": { GET: "authenticated", PATCH: "authenticated", DELETE: "authenticated" },
+  "/api/templates/build": { POST: "authenticated" },
+  "/api/templates/fill": { POST: "authenticated" },
+  "/api/templates/upload": { POST: "authenticated" },
+  // scope=all additionally needs VIEW_ORG_DATA
+  "/api/usage": { GET: "authenticated" },
+  "/api/user/preferences": { GET: "authenticated", PUT: "authenticated" },
+  "/api/users": { GET: "authenticated" },
+  "/api/users/migrate-capabilities": { POST: ["ADMIN"] },
+};
+
+/**
+ * The declared policy for a route and method, or undefined if there is none
+ */
+export function getRoutePolicy(route: string, method: string): RoutePolicy | undefined {
+  return ROUTE_PERMISSIONS[route]?.[method.toUpperCase() as RouteMethod];
+}
+
+/**
+ * Check the current session against a route's declared policy. Routes without
+ * a policy are refused, so a missing manifest entry fails closed. Public
+ * routes pass without a session.
+ */
+export async function checkRoutePermission(route: string, method: string): Promise<RoutePermissionResult> {
+  const policy = getRoutePolicy(route, method);
+
+  if (!policy) {
+    logger.error("API route has no declared permission policy", undefined, { route, method });
+    return {
+      authorized: false,
+      response: NextResponse.json({ error: "Access denied" }, { status: 403 }),
+    };
+  }
+
+  if (policy === "public") {
+    return { authorized: true, session: null };
+  }
+  if (policy === "authenticated") {
+    return requireAuth();
+  }
+  if (policy === "admin") {
+    return requireAdmin();
+  }
+  return requireAnyCapability(policy);
+}
+
+/**
+ * Authorize a route handler's caller against its declared policy. Every
+ * non-public handler starts with this, so the manifest is what's enforced.
+ * Public routes have no session to require and are refused here.
+ */
+export async function requireRoutePermission(route: string, method: string): Promise<AuthResult> {
+  const auth = await checkRoutePermission(route, method);
+  if (auth.authorized && !auth.session) {
+    logger.error("requireRoutePermission used on a public route", undefined, { route, method });
+    return {
+      authorized: false,
+      response: NextResponse.json({ error: "Access denied" }, { status: 403 }),
+    };
+  }
+  return auth;
+}
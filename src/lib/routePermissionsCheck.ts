@@ -0,0 +1,144 @@
+import { existsSync, readdirSync, readFileSync } from "fs";
+import path from "path";
+import { getRoutePolicy, ROUTE_PERMISSIONS, type RouteMethod } from "@/lib/routePermissions";
+import { logger } from "@/lib/logger";
+
+/**
+ * Route Permissions Check
+ *
+ * Compares the handlers exported by the route files under src/app/api with
+ * the manifest in routePermissions.ts. Run at server start in development
+ * (instrumentation.ts) and by tests/routePermissions.test.ts, so a new route
+ * or method can't ship without a declared policy, or with a handler that
+ * checks something other than its declared policy.
+ */
+
+export type ApiRouteHandler = {
+  // Manifest key, e.g. "/api/projects/[id]"
+  route: string;
+  method: RouteMethod;
+  file: string;
+};
+
+const METHODS: RouteMethod[] = ["GET", "POST", "PUT", "PATCH", "DELETE"];
+
+// export async function GET / export const GET = createRoute(...)
+const HANDLER_EXPORT = /export\s+(?:async\s+function|const)\s+(GET|POST|PUT|PATCH|DELETE)\b/g;
+
+// export { handler as GET, handler as POST }
+const HANDLER_REEXPORT = /export\s*\{([^}]*)\}/g;
+
+// Session checks that bypass the manifest
+const DIRECT_AUTH_CHECK = /\b(?:requireAuth|requireAdmin|requireCapability|requireAnyCapability|getServerSession)\(/;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function exportedMethods(source: string): RouteMethod[] {
+  const methods = new Set<RouteMethod>();
+  for (const match of source.matchAll(HANDLER_EXPORT)) {
+    methods.add(match[1] as RouteMethod);
+  }
+  for (const match of source.matchAll(HANDLER_REEXPORT)) {
+    for (const name of match[1].split(",")) {
+      const exported = name.split(/\s+as\s+/).pop()?.trim() as RouteMethod;
+      if (METHODS.includes(exported)) methods.add(exported);
+    }
+  }
+  return [...methods];
+}
+
+/**
+ * Every handler exported by a route.ts file under the API directory
+ */
+export function listApiRouteHandlers(apiDir = path.join(process.cwd(), "src", "app", "api")): ApiRouteHandler[] {
+  if (!existsSync(apiDir)) return [];
+
+  const appDir = path.dirname(apiDir);
+  const handlers: ApiRouteHandler[] = [];
+  const visit = (dir: string) => {
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        visit(fullPath);
+      } else if (entry.name === "route.ts") {
+        const route = `/${path.relative(appDir, dir).split(path.sep).join("/")}`;
+        for (const method of exportedMethods(readFileSync(fullPath, "utf8"))) {
+          handlers.push({ route, method, file: fullPath });
+        }
+      }
+    }
+  };
+  visit(apiDir);
+
+  return handlers.sort((a, b) => a.route.localeCompare(b.route) || a.method.localeCompare(b.method));
+}
+
+/**
+ * Handlers with no policy in the manifest
+ */
+export function findUndeclaredRoutes(handlers: ApiRouteHandler[]): ApiRouteHandler[] {
+  return handlers.filter((handler) => !getRoutePolicy(handler.route, handler.method));
+}
+
+/**
+ * Manifest entries with no matching handler (removed or renamed routes)
+ */
+export function findStaleRoutePolicies(handlers: ApiRouteHandler[]): string[] {
+  const exported = new Set(handlers.map((handler) => `${handler.method} ${handler.route}`));
+  return Object.entries(ROUTE_PERMISSIONS).flatMap(([route, policies]) =>
+    Object.keys(policies)
+      .map((method) => `${method} ${route}`)
+      .filter((key) => !exported.has(key))
+  );
+}
+
+// Source of one exported handler, up to the next one
+function handlerSource(source: string, method: RouteMethod): string {
+  const start = source.search(new RegExp(`export\\s+(?:async\\s+function|const)\\s+${method}\\b`));
+  if (start === -1) return source;
+  const next = source.slice(start + 1).search(/\nexport\s+(?:async\s+function|const)\s+(?:GET|POST|PUT|PATCH|DELETE)\b/);
+  return next === -1 ? source.slice(start) : source.slice(start, start + 1 + next);
+}
+
+/**
+ * Non-public handlers that don't authorize against their own manifest entry:
+ * no requireRoutePermission(route, method) or createRoute({ route }) call for
+ * that route and method, or a direct session check that bypasses the manifest
+ */
+export function findUnenforcedHandlers(handlers: ApiRouteHandler[]): ApiRouteHandler[] {
+  return handlers.filter((handler) => {
+    if (getRoutePolicy(handler.route, handler.method) === "public") return false;
+
+    const body = handlerSource(readFileSync(handler.file, "utf8"), handler.method);
+    const route = escapeRegExp(handler.route);
+    const enforced =
+      new RegExp(`requireRoutePermission\\(\\s*["']${route}["'],\\s*["']${handler.method}["']\\s*\\)`).test(body) ||
+      new RegExp(`createRoute\\(\\s*\\{\\s*route:\\s*["']${route}["']`).test(body);
+    return !enforced || DIRECT_AUTH_CHECK.test(body);
+  });
+}
+
+/**
+ * Log handlers missing from the manifest (requests to them are refused) and
+ * handlers that don't check their declared policy
+ */
+export function checkRoutePermissionManifest(): void {
+  const handlers = listApiRouteHandlers();
+  if (handlers.length === 0) return;
+
+  const undeclared = findUndeclaredRoutes(handlers);
+  if (undeclared.length > 0) {
+    logger.error("API routes without a declared permission policy", undefined, {
+      routes: undeclared.map((handler) => `${handler.method} ${handler.route}`),
+    });
+  }
+
+  const unenforced = findUnenforcedHandlers(handlers);
+  if (unenforced.length > 0) {
+    logger.error("API routes that don't check their declared permission policy", undefined, {
+      routes: unenforced.map((handler) => `${handler.method} ${handler.route}`),
+    });
+  }
+}
@@ -0,0 +1,355 @@
+import { prisma } from "@/lib/prisma";
+import { decrypt, isEncrypted } from "@/lib/encryption";
+import { logCustomerChange, type AuditUser } from "@/lib/auditLog";
+import { logger } from "@/lib/logger";
+
+/**
+ * Salesforce Client
+ *
+ * Searches and fetches Accounts through the Salesforce REST API (OAuth refresh
+ * token flow) and maps them onto the static fields of a CustomerProfile.
+ * Credentials come from the SALESFORCE_* settings saved in Admin → Settings
+ * (AppSetting, sensitive values encrypted), falling back to environment variables.
+ * The token endpoint and API both live on SALESFORCE_INSTANCE_URL, so a local
+ * mock server can stand in for Salesforce.
+ */
+
+const SALESFORCE_API_VERSION = "v59.0";
+
+const SETTING_KEYS = [
+  "SALESFORCE_CLIENT_ID",
+  "SALESFORCE_CLIENT_SECRET",
+  "SALESFORCE_REFRESH_TOKEN",
+  "SALESFORCE_INSTANCE_URL",
+] as const;
+
+// Profiles linked to an Account are re-synced once their data is this old
+const DEFAULT_SYNC_INTERVAL_HOURS = 24;
+
+// How often the scheduler looks for stale profiles
+const SYNC_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+// Profiles re-synced per scheduler run (keeps API usage bounded)
+const SYNC_BATCH_SIZE = 50;
+
+export type SalesforceConfig = {
+  clientId: string;
+  clientSecret: string;
+  refreshToken: string;
+  instanceUrl: string;
+};
+
+export type SalesforceAccount = {
+  Id: string;
+  Name: string;
+  Industry?: string | null;
+  Website?: string | null;
+  Type?: string | null;
+  Description?: string | null;
+  NumberOfEmployees?: number | null;
+  AnnualRevenue?: number | null;
+  BillingCity?: string | null;
+  BillingState?: string | null;
+  BillingCountry?: string | null;
+  [field: string]: unknown;
+};
+
+export type SalesforceSearchResult = {
+  id: string;
+  name: string;
+  industry?: string;
+  website?: string;
+  type?: string;
+};
+
+export type SalesforceEnrichment = {
+  name: string;
+  industry: string | null;
+  website: string | null;
+  overview: string;
+  keyFacts: { label: string; value: string }[];
+  salesforceId: string;
+  region: string | null;
+  tier: string | null;
+  employeeCount: number | null;
+  annualRevenue: number | null;
+  accountType: string | null;
+  billingLocation: string | null;
+};
+
+export interface SalesforceClient {
+  searchAccounts(query: string, limit?: number): Promise<SalesforceSearchResult[]>;
+  getAccount(accountId: string): Promise<SalesforceAccount>;
+}
+
+function readSettingValue(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  return isEncrypted(value) ? decrypt(value) : value;
+}
+
+/**
+ * Load Salesforce credentials from saved settings (or env). Null if incomplete.
+ */
+export async function loadSalesforceConfig(): Promise<SalesforceConfig | null> {
+  const settings = await prisma.appSetting.findMany({
+    where: { key: { in: [...SETTING_KEYS] } },
+  });
+  const stored = new Map(settings.map((setting) => [setting.key, setting.value]));
+  const get = (key: (typeof SETTING_KEYS)[number]) => readSettingValue(stored.get(key)) || process.env[key];
+
+  const config = {
+    clientId: get("SALESFORCE_CLIENT_ID"),
+    clientSecret: get("SALESFORCE_CLIENT_SECRET"),
+    refreshToken: get("SALESFORCE_REFRESH_TOKEN"),
+    instanceUrl: get("SALESFORCE_INSTANCE_URL")?.replace(/\/+$/, ""),
+  };
+  if (!config.clientId || !config.clientSecret || !config.refreshToken || !config.instanceUrl) {
+    return null;
+  }
+  return config as SalesforceConfig;
+}
+
+/**
+ * Escape a value for use inside a quoted SOQL LIKE pattern
+ */
+export function escapeSoqlLike(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/'/g, "\\'").replace(/%/g, "\\%").replace(/_/g, "\\_");
+}
+
+/**
+ * Create a client that refreshes its access token on first use and on 401
+ */
+export function createSalesforceClient(config: SalesforceConfig): SalesforceClient {
+  let accessToken: string | null = null;
+  let apiUrl = config.instanceUrl;
+
+  const refreshAccessToken = async () => {
+    const response = await fetch(`${config.instanceUrl}/services/oauth2/token`, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        grant_type: "refresh_token",
+        client_id: config.clientId,
+        client_secret: config.clientSecret,
+        refresh_token: config.refreshToken,
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`Salesforce authentication failed (${response.status})`);
+    }
+    const tokens = (await response.json()) as { access_token: string; instance_url?: string };
+    accessToken = tokens.access_token;
+    apiUrl = tokens.instance_url?.replace(/\/+$/, "") || config.instanceUrl;
+  };
+
+  const request = async <T>(path: string, retried = false): Promise<T> => {
+    if (!accessToken) {
+      await refreshAccessToken();
+    }
+    const response = await fetch(`${apiUrl}/services/data/${SALESFORCE_API_VERSION}${path}`, {
+      headers: { Authorization: `Bearer ${accessToken}`, Accept: "application/json" },
+    });
+    if (response.status === 401 && !retried) {
+      accessToken = null;
+      return request<T>(path, true);
+    }
+    if (!response.ok) {
+      let message = response.statusText;
+      try {
+        const body = (await response.json()) as { message?: string }[];
+        message = body[0]?.message || message;
+      } catch {
+        // Non-JSON error body
+      }
+      throw new Error(`Salesforce request failed (${response.status}): ${message}`);
+    }
+    return (await response.json()) as T;
+  };
+
+  return {
+    async searchAccounts(query, limit = 10) {
+      const soql =
+        "SELECT Id, Name, Industry, Website, Type FROM Account " +
+        `WHERE Name LIKE '%${escapeSoqlLike(query.trim())}%' ` +
+        `ORDER BY LastModifiedDate DESC LIMIT ${Math.min(Math.max(limit, 1), 50)}`;
+      const result = await request<{ records: SalesforceAccount[] }>(`/query?q=${encodeURIComponent(soql)}`);
+      return result.records.map((account) => ({
+        id: account.Id,
+        name: account.Name,
+        industry: account.Industry || undefined,
+        website: account.Website || undefined,
+        type: account.Type || undefined,
+      }));
+    },
+
+    getAccount(accountId) {
+      return request<SalesforceAccount>(`/sobjects/Account/${encodeURIComponent(accountId)}`);
+    },
+  };
+}
+
+const REGION_BY_COUNTRY: Record<string, string> = {
+  "united states": "NA", usa: "NA", us: "NA", canada: "NA", ca: "NA", mexico: "LATAM",
+  brazil: "LATAM", argentina: "LATAM", chile: "LATAM", colombia: "LATAM",
+  "united kingdom": "EMEA", uk: "EMEA", gb: "EMEA", germany: "EMEA", france: "EMEA", ireland: "EMEA",
+  netherlands: "EMEA", spain: "EMEA", italy: "EMEA", sweden: "EMEA", switzerland: "EMEA",
+  israel: "EMEA", "united arab emirates": "EMEA", "south africa": "EMEA",
+  japan: "APAC", china: "APAC", india: "APAC", singapore: "APAC", australia: "APAC",
+  "new zealand": "APAC", "south korea": "APAC", "hong kong": "APAC",
+};
+
+function deriveRegion(country: string | null | undefined): string | null {
+  if (!country) return null;
+  return REGION_BY_COUNTRY[country.trim().toLowerCase()] ?? null;
+}
+
+function deriveTier(employees: number | null | undefined): string | null {
+  if (!employees) return null;
+  if (employees >= 1000) return "Enterprise";
+  if (employees >= 100) return "Mid-Market";
+  return "SMB";
+}
+
+function readCustomField(account: SalesforceAccount, envKey: string, fallback: string): string | null {
+  const value = account[process.env[envKey] || fallback];
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Map a Salesforce Account onto profile fields. Region and tier come from the
+ * org's custom fields (SALESFORCE_REGION_FIELD / SALESFORCE_TIER_FIELD, default
+ * Region__c / Tier__c) when present, otherwise from billing country and headcount.
+ */
+export function mapAccountToEnrichment(account: SalesforceAccount): SalesforceEnrichment {
+  const billingLocation =
+    [account.BillingCity, account.BillingState, account.BillingCountry].filter(Boolean).join(", ") || null;
+  const region = readCustomField(account, "SALESFORCE_REGION_FIELD", "Region__c") ?? deriveRegion(account.BillingCountry);
+  const tier = readCustomField(account, "SALESFORCE_TIER_FIELD", "Tier__c") ?? deriveTier(account.NumberOfEmployees);
+
+  const keyFacts: { label: string; value: string }[] = [];
+  if (account.Industry) keyFacts.push({ label: "Industry", value: account.Industry });
+  if (account.Type) keyFacts.push({ label: "Account Type", value: account.Type });
+  if (account.NumberOfEmployees) keyFacts.push({ label: "Employees", value: account.NumberOfEmployees.toLocaleString("en-US") });
+  if (account.AnnualRevenue) keyFacts.push({ label: "Annual Revenue", value: `$${(account.AnnualRevenue / 1_000_000).toFixed(1)}M` });
+  if (billingLocation) keyFacts.push({ label: "Headquarters", value: billingLocation });
+
+  return {
+    name: account.Name,
+    industry: account.Industry || null,
+    website: account.Website || null,
+    overview: account.Description?.trim() || `${account.Name} is a${account.Industry ? ` ${account.Industry}` : ""} organization.`,
+    keyFacts,
+    salesforceId: account.Id,
+    region,
+    tier,
+    employeeCount: account.NumberOfEmployees ?? null,
+    annualRevenue: account.AnnualRevenue ?? null,
+    accountType: account.Type || null,
+    billingLocation,
+  };
+}
+
+const STATIC_FIELDS = ["region", "tier", "employeeCount", "annualRevenue", "accountType", "billingLocation"] as const;
+
+/**
+ * Re-sync a linked profile's static fields from its Salesforce Account and
+ * record lastSalesforceSync. Returns the updated profile.
+ */
+export async function syncCustomerFromSalesforce(
+  customerId: string,
+  client: SalesforceClient,
+  user?: AuditUser
+) {
+  const profile = await prisma.customerProfile.findUnique({ where: { id: customerId } });
+  if (!profile?.salesforceId) {
+    throw new Error("Customer is not linked to a Salesforce account");
+  }
+
+  const enrichment = mapAccountToEnrichment(await client.getAccount(profile.salesforceId));
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+  for (const field of STATIC_FIELDS) {
+    if (profile[field] !== enrichment[field]) {
+      changes[field] = { from: profile[field], to: enrichment[field] };
+    }
+  }
+
+  const updated = await prisma.customerProfile.update({
+    where: { id: customerId },
+    data: {
+      region: enrichment.region,
+      tier: enrichment.tier,
+      employeeCount: enrichment.employeeCount,
+      annualRevenue: enrichment.annualRevenue,
+      accountType: enrichment.accountType,
+      billingLocation: enrichment.billingLocation,
+      lastSalesforceSync: new Date(),
+    },
+  });
+
+  await logCustomerChange(
+    "REFRESHED",
+    customerId,
+    profile.name,
+    user,
+    Object.keys(changes).length > 0 ? changes : undefined,
+    { source: "salesforce", salesforceId: profile.salesforceId }
+  );
+
+  return updated;
+}
+
+/**
+ * Re-sync linked profiles whose Salesforce data is older than the sync interval
+ * (SALESFORCE_SYNC_INTERVAL_HOURS, default 24). Returns the number synced.
+ */
+export async function syncStaleSalesforceCustomers(client?: SalesforceClient): Promise<number> {
+  let salesforce = client;
+  if (!salesforce) {
+    const config = await loadSalesforceConfig();
+    if (!config) return 0;
+    salesforce = createSalesforceClient(config);
+  }
+
+  const intervalHours = Number(process.env.SALESFORCE_SYNC_INTERVAL_HOURS) || DEFAULT_SYNC_INTERVAL_HOURS;
+  const staleBefore = new Date(Date.now() - intervalHours * 60 * 60 * 1000);
+  const profiles = await prisma.customerProfile.findMany({
+    where: {
+      salesforceId: { not: null },
+      isActive: true,
+      OR: [{ lastSalesforceSync: null }, { lastSalesforceSync: { lt: staleBefore } }],
+    },
+    orderBy: { lastSalesforceSync: { sort: "asc", nulls: "first" } },
+    select: { id: true },
+    take: SYNC_BATCH_SIZE,
+  });
+
+  let synced = 0;
+  for (const { id } of profiles) {
+    try {
+      await syncCustomerFromSalesforce(id, salesforce);
+      synced++;
+    } catch (error) {
+      logger.error("Salesforce sync failed for customer", error, { customerId: id });
+    }
+  }
+  if (profiles.length > 0) {
+    logger.info("Salesforce sync completed", { synced, stale: profiles.length });
+  }
+  return synced;
+}
+
+let syncTimer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Start the periodic Salesforce re-sync. Safe to call more than once.
+ * Called from instrumentation on server startup; a no-op run when Salesforce
+ * isn't configured.
+ */
+export function startSalesforceSyncScheduler(): void {
+  if (syncTimer) return;
+  syncTimer = setInterval(() => {
+    syncStaleSalesforceCustomers().catch((error) => {
+      logger.error("Salesforce sync run failed", error);
+    });
+  }, SYNC_CHECK_INTERVAL_MS);
+}
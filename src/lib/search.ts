@@ -0,0 +1,251 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { canReviewAnswers, canViewOrgData, isAdmin, type UserSession } from "@/lib/permissions";
+
+/**
+ * Global Search
+ *
+ * Full-text search over skills, documents, reference URLs, customer profiles,
+ * project rows, quick questions and collateral using Postgres tsvectors.
+ * Every prefix of every term matches ("secur pol" finds "security policy"),
+ * titles outrank body text, and snippets come from ts_headline with the
+ * matched words marked. The vector expressions below must stay identical to
+ * the GIN indexes in the add_search_indexes migration or the indexes go unused.
+ *
+ * Library content (skills, documents, URLs, customers) is visible to everyone.
+ * Project rows follow project visibility and collaborators, quick questions are the
+ * user's own unless they can view org data, and collateral is owner-only;
+ * admins see everything.
+ */
+
+export type SearchResultType =
+  | "skill"
+  | "document"
+  | "url"
+  | "customer"
+  | "project-row"
+  | "question"
+  | "collateral";
+
+export const SEARCH_RESULT_TYPES: SearchResultType[] = [
+  "skill",
+  "document",
+  "url",
+  "customer",
+  "project-row",
+  "question",
+  "collateral",
+];
+
+export type SnippetPart = {
+  text: string;
+  highlighted: boolean;
+};
+
+export type SearchResult = {
+  type: SearchResultType;
+  id: string;
+  title: string;
+  subtitle?: string;
+  snippet: SnippetPart[];
+  href: string;
+  rank: number;
+};
+
+export type SearchOptions = {
+  types?: SearchResultType[];
+  limit?: number;
+};
+
+type SearchRow = {
+  id: string;
+  title: string | null;
+  subtitle: string | null;
+  parentId: string | null;
+  snippet: string | null;
+  rank: number;
+};
+
+const MAX_TERMS = 8;
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+
+// ts_headline wraps matches in these; they are rare enough in real content to split on safely
+const HIGHLIGHT_START = "⟦";
+const HIGHLIGHT_END = "⟧";
+const HEADLINE_OPTIONS = `StartSel="${HIGHLIGHT_START}", StopSel="${HIGHLIGHT_END}", MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "`;
+
+// Weighted document vectors (A = title, B = body), matching the index definitions
+const VECTORS = {
+  skill: `setweight(to_tsvector('english', coalesce("title", '')), 'A') || setweight(to_tsvector('english', coalesce("content", '')), 'B')`,
+  document: `setweight(to_tsvector('english', coalesce("title", '') || ' ' || coalesce("filename", '')), 'A') || setweight(to_tsvector('english', coalesce("description", '') || ' ' || coalesce("content", '')), 'B')`,
+  url: `setweight(to_tsvector('english', coalesce("title", '') || ' ' || coalesce("url", '')), 'A') || setweight(to_tsvector('english', coalesce("description", '')), 'B')`,
+  customer: `setweight(to_tsvector('english', coalesce("name", '')), 'A') || setweight(to_tsvector('english', coalesce("overview", '') || ' ' || coalesce("content", '')), 'B')`,
+  "project-row": `setweight(to_tsvector('english', coalesce("question", '')), 'A') || setweight(to_tsvector('english', coalesce("response", '')), 'B')`,
+  question: `setweight(to_tsvector('english', coalesce("question", '')), 'A') || setweight(to_tsvector('english', coalesce("response", '')), 'B')`,
+  collateral: `setweight(to_tsvector('english', coalesce("name", '') || ' ' || coalesce("customerName", '')), 'A') || setweight(to_tsvector('english', coalesce("generatedMarkdown", '')), 'B')`,
+} satisfies Record<SearchResultType, string>;
+
+/**
+ * Turn free text into a prefix tsquery ("secur pol" -> "secur:* & pol:*").
+ * Only letters and digits survive, so user input can never break the query syntax.
+ */
+export function buildPrefixTsQuery(input: string): string | null {
+  const terms = input.toLowerCase().match(/[\p{L}\p{N}]+/gu)?.slice(0, MAX_TERMS) ?? [];
+  if (terms.length === 0) {
+    return null;
+  }
+  return terms.map((term) => `${term}:*`).join(" & ");
+}
+
+/**
+ * Split a ts_headline snippet into plain and highlighted parts
+ */
+export function parseSnippet(raw: string | null | undefined): SnippetPart[] {
+  if (!raw) return [];
+  const parts: SnippetPart[] = [];
+  for (const [index, chunk] of raw.split(HIGHLIGHT_START).entries()) {
+    const [highlighted, rest] = index === 0 ? [null, chunk] : chunk.split(HIGHLIGHT_END, 2);
+    if (highlighted) parts.push({ text: highlighted, highlighted: true });
+    if (rest) parts.push({ text: rest, highlighted: false });
+  }
+  // Collapse whitespace left over from stripped markup
+  return parts
+    .map((part) => ({ ...part, text: part.text.replace(/\s+/g, " ") }))
+    .filter((part) => part.text.trim() || part.highlighted);
+}
+
+export function getResultHref(type: SearchResultType, row: Pick<SearchRow, "id" | "title" | "parentId">): string {
+  const q = encodeURIComponent(row.title || "");
+  switch (type) {
+    case "skill":
+      return `/knowledge?tab=skills&q=${q}`;
+    case "document":
+    case "url":
+      return `/knowledge?tab=sources&q=${q}`;
+    case "customer":
+      return `/customers?id=${row.id}`;
+    case "project-row":
+      return `/projects/${row.parentId}#row-${row.id}`;
+    case "question":
+      return `/projects/questions?id=${row.id}`;
+    case "collateral":
+      return "/collateral";
+  }
+}
+
+function headline(text: string): Prisma.Sql {
+  return Prisma.sql`ts_headline('english', ${Prisma.raw(text)}, query, ${HEADLINE_OPTIONS})`;
+}
+
+function buildQuery(type: SearchResultType, tsQuery: string, user: UserSession, limit: number): Prisma.Sql {
+  const vector = Prisma.raw(VECTORS[type]);
+  const rank = Prisma.sql`ts_rank(${vector}, query)`;
+  const match = Prisma.sql`(${vector}) @@ query`;
+  const query = Prisma.sql`to_tsquery('english', ${tsQuery}) query`;
+
+  switch (type) {
+    case "skill":
+      return Prisma.sql`
+        SELECT id, title, NULL AS subtitle, NULL AS "parentId", ${headline(`coalesce("content", '')`)} AS snippet, ${rank} AS rank
+        FROM "Skill", ${query}
+        WHERE "isActive" = true AND ${match}
+        ORDER BY rank DESC LIMIT ${limit}`;
+    case "document":
+      return Prisma.sql`
+        SELECT id, title, filename AS subtitle, NULL AS "parentId", ${headline(`coalesce("description", '') || ' ' || coalesce("content", '')`)} AS snippet, ${rank} AS rank
+        FROM "KnowledgeDocument", ${query}
+        WHERE ${match}
+        ORDER BY rank DESC LIMIT ${limit}`;
+    case "url":
+      return Prisma.sql`
+        SELECT id, coalesce(title, url) AS title, url AS subtitle, NULL AS "parentId", ${headline(`coalesce("title", '') || ' ' || coalesce("description", '')`)} AS snippet, ${rank} AS rank
+        FROM "ReferenceUrl", ${query}
+        WHERE ${match}
+        ORDER BY rank DESC LIMIT ${limit}`;
+    case "customer":
+      return Prisma.sql`
+        SELECT id, name AS title, industry AS subtitle, NULL AS "parentId", ${headline(`coalesce("overview", '') || ' ' || coalesce("content", '')`)} AS snippet, ${rank} AS rank
+        FROM "CustomerProfile", ${query}
+        WHERE "isActive" = true AND ${match}
+        ORDER BY rank DESC LIMIT ${limit}`;
+    case "project-row": {
+      // Same rules as accessibleProjectsWhere in projectAccess.ts
+      const teamAccess = canReviewAnswers(user)
+        ? Prisma.sql`p."visibility" = 'TEAM'
+            OR EXISTS (SELECT 1 FROM "BulkRow" ar WHERE ar."projectId" = p.id AND ar."assignedReviewerId" = ${user.id})
+            OR EXISTS (SELECT 1 FROM "ProjectSection" s WHERE s."projectId" = p.id AND s."assignedReviewerId" = ${user.id})`
+        : Prisma.sql`(p."visibility" = 'TEAM' AND EXISTS (
+              SELECT 1 FROM "User" o, "User" me
+              WHERE o.id = p."ownerId" AND me.id = ${user.id} AND o."ssoGroups" && me."ssoGroups"
+            ))`;
+      const access = isAdmin(user)
+        ? Prisma.empty
+        : Prisma.sql`AND (
+            p."ownerId" = ${user.id} OR p."visibility" = 'ORG'
+            OR coalesce(p."assignedUsers", '[]'::jsonb) @> ${JSON.stringify([{ userId: user.id }])}::jsonb
+            OR coalesce(p."assignedUsers", '[]'::jsonb) @> ${JSON.stringify([user.id])}::jsonb
+            OR ${teamAccess}
+          )`;
+      return Prisma.sql`
+        SELECT r.id, r.question AS title, p.name AS subtitle, r."projectId" AS "parentId", ${headline(`coalesce(r."response", '')`)} AS snippet, ${rank} AS rank
+        FROM "BulkRow" r JOIN "BulkProject" p ON p.id = r."projectId", ${query}
+        WHERE ${match} ${access}
+        ORDER BY rank DESC LIMIT ${limit}`;
+    }
+    case "question": {
+      const access = canViewOrgData(user) ? Prisma.empty : Prisma.sql`AND "userId" = ${user.id}`;
+      return Prisma.sql`
+        SELECT id, question AS title, 'Quick question' AS subtitle, NULL AS "parentId", ${headline(`coalesce("response", '')`)} AS snippet, ${rank} AS rank
+        FROM "QuestionHistory", ${query}
+        WHERE ${match} ${access}
+        ORDER BY rank DESC LIMIT ${limit}`;
+    }
+    case "collateral": {
+      const access = isAdmin(user) ? Prisma.empty : Prisma.sql`AND "ownerId" = ${user.id}`;
+      return Prisma.sql`
+        SELECT id, name AS title, "customerName" AS subtitle, NULL AS "parentId", ${headline(`coalesce("generatedMarkdown", '')`)} AS snippet, ${rank} AS rank
+        FROM "CollateralOutput", ${query}
+        WHERE ${match} ${access}
+        ORDER BY rank DESC LIMIT ${limit}`;
+    }
+  }
+}
+
+/**
+ * Search everything the user can see, best matches first across types
+ */
+export async function searchAll(
+  input: string,
+  user: UserSession,
+  options: SearchOptions = {}
+): Promise<SearchResult[]> {
+  const tsQuery = buildPrefixTsQuery(input);
+  if (!tsQuery) {
+    return [];
+  }
+  const limit = Math.min(Math.max(Math.floor(options.limit ?? DEFAULT_LIMIT) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+  const types = options.types?.length ? options.types : SEARCH_RESULT_TYPES;
+
+  const perType = await Promise.all(
+    types.map(async (type) => {
+      const rows = await prisma.$queryRaw<SearchRow[]>(buildQuery(type, tsQuery, user, limit));
+      return rows.map(
+        (row): SearchResult => ({
+          type,
+          id: row.id,
+          title: (row.title || "Untitled").slice(0, 200),
+          subtitle: row.subtitle || undefined,
+          snippet: parseSnippet(row.snippet),
+          href: getResultHref(type, row),
+          rank: Number(row.rank),
+        })
+      );
+    })
+  );
+
+  return perType
+    .flat()
+    .sort((a, b) => b.rank - a.rank)
+    .slice(0, limit);
+}
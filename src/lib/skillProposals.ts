@@ -0,0 +1,310 @@
+import type { Skill as DbSkill, SkillProposal } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getLLMClient } from "@/lib/llmProvider";
+import { getModel, getEffectiveSpeed } from "@/lib/config";
+import { loadSystemPrompt } from "@/lib/loadSystemPrompt";
+import { parseJsonResponse } from "@/lib/apiHelpers";
+import { logUsage } from "@/lib/usageTracking";
+import { getCategoryNamesFromDb } from "@/lib/categoryStorageServer";
+import { canManageKnowledge, type UserSession } from "@/lib/permissions";
+import { canReviewRefreshDraft } from "@/lib/skillRefresh";
+import { logSkillChange, type AuditUser } from "@/lib/auditLog";
+import { updateSkillWithVersion } from "@/lib/skillVersions";
+import { scheduleStaleAnswerCheck } from "@/lib/staleAnswers";
+import { invalidateSkillCache } from "@/lib/cache";
+import { logger } from "@/lib/logger";
+import type { SkillHistoryEntry } from "@/types/skill";
+
+/**
+ * Skill Proposals
+ *
+ * Turns reviewer corrections back into knowledge. When a project row or quick
+ * question is marked CORRECTED, the original answer, the correction and the
+ * skills the answer used go to the LLM with the skill_analyze_rfp prompt
+ * context, which suggests additions to an existing skill (or a new skill).
+ * Suggestions are stored as SkillProposals and wait for the skill owner to
+ * accept or reject them; nothing is applied automatically.
+ *
+ * Correcting the same answer again supersedes its pending proposals.
+ */
+
+// Skills listed for the LLM besides the ones the answer used
+const MAX_OTHER_SKILLS = 60;
+
+// Characters of skill content shown for skills the answer didn't use
+const PREVIEW_LENGTH = 300;
+
+// Characters of content shown for skills the answer used
+const USED_SKILL_LENGTH = 6000;
+
+export type CorrectionSource =
+  | { type: "project"; id: string }
+  | { type: "question"; id: string };
+
+export type Correction = {
+  question: string;
+  originalAnswer: string;
+  correctedAnswer: string;
+  usedSkillIds: string[];
+  correctedBy?: string | null;
+};
+
+type Suggestion = {
+  type?: "update" | "new";
+  skillId?: string;
+  skillTitle?: string;
+  category?: string;
+  suggestedAdditions?: string;
+};
+
+type CandidateSkill = Pick<DbSkill, "id" | "title" | "content" | "categories" | "version">;
+
+function usedSkillIds(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((skill) => (typeof skill === "string" ? skill : (skill as { id?: unknown })?.id))
+    .filter((id): id is string => typeof id === "string");
+}
+
+/**
+ * The correction recorded on a row or quick question, or null if it isn't a
+ * correction worth learning from
+ */
+export async function loadCorrection(source: CorrectionSource): Promise<Correction | null> {
+  const entry = source.type === "project"
+    ? await prisma.bulkRow.findUnique({
+        where: { id: source.id },
+        select: { question: true, response: true, userEditedAnswer: true, reviewStatus: true, reviewedBy: true, usedSkills: true },
+      }).then((row) => row && { ...row, skills: row.usedSkills })
+    : await prisma.questionHistory.findUnique({
+        where: { id: source.id },
+        select: { question: true, response: true, userEditedAnswer: true, reviewStatus: true, reviewedBy: true, skillsUsed: true },
+      }).then((row) => row && { ...row, skills: row.skillsUsed });
+
+  if (!entry || entry.reviewStatus !== "CORRECTED") return null;
+  const corrected = entry.userEditedAnswer?.trim();
+  if (!corrected || corrected === entry.response.trim()) return null;
+
+  return {
+    question: entry.question,
+    originalAnswer: entry.response,
+    correctedAnswer: corrected,
+    usedSkillIds: usedSkillIds(entry.skills),
+    correctedBy: entry.reviewedBy,
+  };
+}
+
+/**
+ * The user prompt: used skills in full, other skills as previews, then the correction
+ */
+export function buildCorrectionPrompt(correction: Correction, skills: CandidateSkill[]): string {
+  const used = new Set(correction.usedSkillIds);
+  const skillsSummary = skills.length > 0
+    ? skills.map((s, i) => {
+        const content = used.has(s.id) ? s.content.slice(0, USED_SKILL_LENGTH) : `${s.content.substring(0, PREVIEW_LENGTH)}...`;
+        const label = used.has(s.id) ? " [USED FOR THE ORIGINAL ANSWER]" : "";
+        return `${i + 1}. "${s.title}" (ID: ${s.id})${label}\n   Category: ${s.categories[0] || "Uncategorized"}\n   Content: ${content}`;
+      }).join("\n\n")
+    : "No existing skills.";
+
+  return `EXISTING SKILLS:
+${skillsSummary}
+
+RFP Q&A PAIRS TO ANALYZE:
+[1] Q: ${correction.question}
+A: ${correction.correctedAnswer}
+
+ORIGINAL AI ANSWER (corrected by a reviewer):
+${correction.originalAnswer}
+
+A reviewer replaced the original answer with the corrected answer above. Suggest what to add to the skill library so future answers get this right:
+1. Prefer updating the skill that was used for the original answer
+2. Only include what the correction adds or fixes - not what the skill already says
+3. If the correction only changes wording or tone, return no suggestions
+4. Return valid JSON only.`;
+}
+
+async function suggestFromCorrection(correction: Correction, skills: CandidateSkill[]): Promise<Suggestion[]> {
+  const basePrompt = await loadSystemPrompt("skill_analyze_rfp", "You are a knowledge management expert.");
+  const categoriesList = (await getCategoryNamesFromDb()).join(", ");
+  const systemPrompt = `${basePrompt}
+
+CATEGORIES:
+Every skill must belong to exactly one category. Available categories:
+${categoriesList}`;
+
+  const model = getModel(getEffectiveSpeed("skills-analyze-rfp"));
+  const anthropic = await getLLMClient();
+  const response = await anthropic.messages.create({
+    model,
+    max_tokens: 8000,
+    temperature: 0.1,
+    system: systemPrompt,
+    messages: [{ role: "user", content: buildCorrectionPrompt(correction, skills) }],
+  });
+
+  logUsage({
+    feature: "skills-analyze-rfp",
+    model,
+    inputTokens: response.usage?.input_tokens || 0,
+    outputTokens: response.usage?.output_tokens || 0,
+    metadata: { source: "correction" },
+  });
+
+  const content = response.content[0];
+  if (content?.type !== "text") {
+    throw new Error("Unexpected response format");
+  }
+  const parsed = parseJsonResponse<{ suggestions?: Suggestion[] }>(content.text);
+  return Array.isArray(parsed.suggestions) ? parsed.suggestions : [];
+}
+
+/**
+ * Generate and store proposals for a corrected answer. Returns the new proposals.
+ */
+export async function proposeFromCorrection(source: CorrectionSource): Promise<SkillProposal[]> {
+  const correction = await loadCorrection(source);
+  if (!correction) return [];
+
+  const sourceWhere = source.type === "project" ? { bulkRowId: source.id } : { questionHistoryId: source.id };
+
+  const allSkills = await prisma.skill.findMany({
+    where: { isActive: true },
+    select: { id: true, title: true, content: true, categories: true, version: true },
+    orderBy: { updatedAt: "desc" },
+  });
+  const used = new Set(correction.usedSkillIds);
+  const candidates = [
+    ...allSkills.filter((s) => used.has(s.id)),
+    ...allSkills.filter((s) => !used.has(s.id)).slice(0, MAX_OTHER_SKILLS),
+  ];
+  const byId = new Map(candidates.map((s) => [s.id, s]));
+
+  const suggestions = await suggestFromCorrection(correction, candidates);
+
+  const proposals = suggestions
+    .filter((s) => s.suggestedAdditions?.trim())
+    .map((s) => {
+      const skill = s.type === "update" && s.skillId ? byId.get(s.skillId) : undefined;
+      return {
+        type: skill ? ("UPDATE" as const) : ("NEW" as const),
+        skillId: skill?.id ?? null,
+        baseVersion: skill?.version ?? null,
+        title: skill?.title ?? (s.skillTitle?.trim() || correction.question.slice(0, 100)),
+        additions: s.suggestedAdditions!.trim(),
+        categories: skill ? [] : s.category ? [s.category] : [],
+        question: correction.question,
+        originalAnswer: correction.originalAnswer,
+        correctedAnswer: correction.correctedAnswer,
+        correctedBy: correction.correctedBy ?? null,
+        ...sourceWhere,
+      };
+    });
+
+  const [, ...created] = await prisma.$transaction([
+    prisma.skillProposal.updateMany({
+      where: { ...sourceWhere, status: "PENDING" },
+      data: { status: "SUPERSEDED" },
+    }),
+    ...proposals.map((data) => prisma.skillProposal.create({ data })),
+  ]);
+
+  if (created.length > 0) {
+    logger.info("Skill proposals created from correction", { source: source.type, id: source.id, count: created.length });
+  }
+  return created as SkillProposal[];
+}
+
+/**
+ * Propose skill changes for a correction in the background so the review
+ * request isn't held up by the LLM call
+ */
+export function queueCorrectionProposal(source: CorrectionSource): void {
+  proposeFromCorrection(source).catch((error) => {
+    logger.error("Failed to propose skill update from correction", error, { source: source.type, id: source.id });
+  });
+}
+
+/**
+ * Skill owners review updates to their skills; new-skill proposals need
+ * knowledge management rights
+ */
+export function canReviewSkillProposal(
+  user: UserSession,
+  skill: Pick<DbSkill, "ownerId" | "owners"> | null
+): boolean {
+  return skill ? canReviewRefreshDraft(user, skill) : canManageKnowledge(user);
+}
+
+/**
+ * Accept a proposal: append its additions to the skill as a new version, or
+ * create the proposed skill. Reviewers may edit the title and content first.
+ */
+export async function acceptSkillProposal(
+  proposal: SkillProposal,
+  skill: DbSkill | null,
+  user: AuditUser,
+  edits: { title?: string; content?: string } = {}
+): Promise<DbSkill> {
+  const now = new Date();
+  const userLabel = user.email || user.name || undefined;
+  const summary = `Updated from a reviewer correction: ${proposal.question.slice(0, 120)}`;
+
+  let result: DbSkill;
+  if (skill) {
+    const history: SkillHistoryEntry[] = [
+      ...((skill.history as SkillHistoryEntry[]) || []),
+      { date: now.toISOString(), action: "updated", summary, user: userLabel },
+    ];
+    result = await updateSkillWithVersion(
+      skill.id,
+      skill,
+      {
+        title: edits.title ?? skill.title,
+        content: edits.content ?? `${skill.content}\n\n${proposal.additions}`,
+        history,
+      },
+      "updated",
+      user,
+      summary
+    );
+    await logSkillChange("UPDATED", skill.id, result.title, user, undefined, { proposalId: proposal.id, source: "correction" });
+    if (result.version !== skill.version) {
+      scheduleStaleAnswerCheck();
+    }
+  } else {
+    const title = edits.title ?? proposal.title;
+    const content = edits.content ?? proposal.additions;
+    result = await prisma.skill.create({
+      data: {
+        title,
+        content,
+        categories: proposal.categories,
+        createdBy: user.email || undefined,
+        ownerId: user.id,
+        history: [{ date: now.toISOString(), action: "created", summary: "Created from a reviewer correction", user: userLabel }],
+        versions: {
+          create: {
+            version: 1,
+            title,
+            content,
+            categories: proposal.categories,
+            action: "created",
+            summary: "Created from a reviewer correction",
+            createdBy: user.email || undefined,
+            createdById: user.id,
+          },
+        },
+      },
+    });
+    await logSkillChange("CREATED", result.id, result.title, user, undefined, { proposalId: proposal.id, source: "correction" });
+  }
+
+  await prisma.skillProposal.update({
+    where: { id: proposal.id },
+    data: { status: "ACCEPTED", skillId: result.id, reviewedAt: now, reviewedBy: userLabel ?? null, reviewedById: user.id ?? null },
+  });
+  await invalidateSkillCache();
+
+  return result;
+}
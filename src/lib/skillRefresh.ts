@@ -0,0 +1,402 @@
+import { createHash } from "crypto";
+import type { Skill as DbSkill, SkillRefreshDraft } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { fetchUrlContent, parseJsonResponse } from "@/lib/apiHelpers";
+import { getLLMClient } from "@/lib/llmProvider";
+import { getModel, getEffectiveSpeed } from "@/lib/config";
+import { logUsage } from "@/lib/usageTracking";
+import { loadSystemPrompt } from "@/lib/loadSystemPrompt";
+import { canManageKnowledge, isAdmin, type UserSession } from "@/lib/permissions";
+import { logSkillChange, type AuditUser } from "@/lib/auditLog";
+import { updateSkillWithVersion } from "@/lib/skillVersions";
+import { scheduleStaleAnswerCheck } from "@/lib/staleAnswers";
+import { invalidateSkillCache } from "@/lib/cache";
+import { logger } from "@/lib/logger";
+import { getSkillOwnerIds, notifyUsers } from "@/lib/notifications";
+import type { SkillHistoryEntry, SkillOwner, SourceUrl } from "@/types/skill";
+
+/**
+ * Skill Refresh
+ *
+ * Re-fetches a skill's source URLs and asks the LLM for an updated draft. The
+ * manual refresh route returns the draft straight to the editor; the scheduled
+ * refresh hashes each source first and only calls the LLM when a source's
+ * content actually changed. Scheduled drafts are never applied automatically -
+ * they wait as SkillRefreshDrafts until a skill owner applies or dismisses them.
+ *
+ * The first scheduled fetch of a URL only records its hash (there is nothing to
+ * compare against yet), so existing skills don't all produce drafts at once.
+ */
+
+// Source URLs are re-fetched once their last fetch is this old
+const DEFAULT_REFRESH_INTERVAL_HOURS = 24 * 7;
+
+// How often the scheduler looks for skills that are due
+const REFRESH_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+// Skills checked per scheduler run (keeps fetching and LLM usage bounded)
+const REFRESH_BATCH_SIZE = 10;
+
+// Response type for draft updates
+export type DraftUpdateResponse = {
+  hasChanges: boolean;
+  summary: string;
+  title: string;
+  content: string;
+  changeHighlights: string[];
+};
+
+export type FetchedSource = {
+  url: string;
+  text: string | null;
+};
+
+export type ScheduledRefreshOutcome = "unchanged" | "baseline" | "no-changes" | "drafted" | "unreachable";
+
+type UsageUser = { id?: string; email?: string | null } | null;
+
+/**
+ * Fetch the text of every source URL in parallel (null when a fetch fails)
+ */
+export async function fetchSourceContents(urls: string[]): Promise<FetchedSource[]> {
+  return Promise.all(
+    urls.map(async (url) => ({ url, text: await fetchUrlContent(url, { maxLength: 20000 }) }))
+  );
+}
+
+/**
+ * Combine fetched sources into the material sent to the LLM
+ */
+export function buildSourceMaterial(sources: FetchedSource[]): string {
+  const sections = sources
+    .filter((source): source is { url: string; text: string } => Boolean(source.text))
+    .map((source) => `Source: ${source.url}\n${source.text}`);
+
+  if (sections.length === 0) {
+    throw new Error("Unable to load any content from the source URLs.");
+  }
+
+  const combined = sections.join("\n\n---\n\n").trim();
+  return combined.slice(0, 100000);
+}
+
+/**
+ * Hash of a source's text, ignoring whitespace-only differences
+ */
+export function hashSourceContent(text: string): string {
+  return createHash("sha256").update(text.replace(/\s+/g, " ").trim()).digest("hex");
+}
+
+/**
+ * Compare fetched sources with the hashes stored on the skill. Returns the
+ * updated source list (fresh hashes and fetch times) and the URLs whose
+ * content changed; URLs without a stored hash only get a baseline.
+ */
+export function diffSourceHashes(
+  sourceUrls: SourceUrl[],
+  fetched: FetchedSource[],
+  now: Date
+): { sourceUrls: SourceUrl[]; changedUrls: string[] } {
+  const textByUrl = new Map(fetched.map((source) => [source.url, source.text]));
+  const changedUrls: string[] = [];
+
+  const updated = sourceUrls.map((source) => {
+    const text = textByUrl.get(source.url);
+    if (!text) {
+      return source;
+    }
+    const contentHash = hashSourceContent(text);
+    if (source.contentHash && source.contentHash !== contentHash) {
+      changedUrls.push(source.url);
+    }
+    return { ...source, contentHash, lastFetchedAt: now.toISOString() };
+  });
+
+  return { sourceUrls: updated, changedUrls };
+}
+
+export async function generateDraftUpdate(
+  existingSkill: { title: string; content: string },
+  newSourceContent: string,
+  sourceUrls: string[],
+  user: UsageUser
+): Promise<DraftUpdateResponse> {
+  const anthropic = await getLLMClient();
+
+  // Load system prompt from block system
+  const systemPrompt = await loadSystemPrompt("skill_refresh", "You are a knowledge extraction specialist.");
+
+  const userPrompt = `EXISTING SKILL:
+Title: ${existingSkill.title}
+
+Current Content:
+${existingSkill.content}
+
+---
+
+REFRESHED SOURCE MATERIAL:
+${newSourceContent}
+
+${sourceUrls.length > 0 ? `\nSource URLs: ${sourceUrls.join(", ")}` : ""}
+
+---
+
+Review the refreshed source material against the existing skill.
+- If there's significant new/changed information, return an updated draft with hasChanges=true
+- If the source is the same or doesn't add value, return hasChanges=false
+
+Return ONLY the JSON object.`;
+
+  // Determine model speed
+  const speed = getEffectiveSpeed("skills-refresh");
+  const model = getModel(speed);
+
+  const stream = anthropic.messages.stream({
+    model,
+    max_tokens: 32000,
+    temperature: 0.1,
+    system: systemPrompt,
+    messages: [{ role: "user", content: userPrompt }],
+  });
+
+  const response = await stream.finalMessage();
+
+  const content = response.content[0];
+  if (content.type !== "text") {
+    throw new Error("Unexpected response format");
+  }
+
+  const parsed = parseJsonResponse<DraftUpdateResponse>(content.text);
+
+  // Log usage
+  logUsage({
+    userId: user?.id,
+    userEmail: user?.email,
+    feature: "skills-refresh",
+    model,
+    inputTokens: response.usage?.input_tokens || 0,
+    outputTokens: response.usage?.output_tokens || 0,
+    metadata: { urlCount: sourceUrls.length, scheduled: !user },
+  });
+
+  return parsed;
+}
+
+/**
+ * Save fresh hashes and fetch times without touching URLs added or removed meanwhile
+ */
+async function saveSourceHashes(skillId: string, refreshed: SourceUrl[]): Promise<void> {
+  const current = await prisma.skill.findUnique({ where: { id: skillId }, select: { sourceUrls: true } });
+  if (!current) return;
+  const byUrl = new Map(refreshed.map((source) => [source.url, source]));
+  const merged = ((current.sourceUrls as SourceUrl[] | null) || []).map((source) => {
+    const fresh = byUrl.get(source.url);
+    return fresh ? { ...source, contentHash: fresh.contentHash, lastFetchedAt: fresh.lastFetchedAt } : source;
+  });
+  await prisma.skill.update({ where: { id: skillId }, data: { sourceUrls: merged } });
+}
+
+/**
+ * Scheduled refresh of one skill: hash its sources and, only if one changed,
+ * generate a draft and queue it for the owner (replacing any older pending draft)
+ * and notify the skill's owners
+ */
+export async function refreshSkillFromSources(
+  skill: Pick<DbSkill, "id" | "title" | "content" | "version" | "sourceUrls"> &
+    Partial<Pick<DbSkill, "ownerId" | "owners">>
+): Promise<ScheduledRefreshOutcome> {
+  const sourceUrls = (skill.sourceUrls as SourceUrl[] | null) || [];
+  const now = new Date();
+  const fetched = await fetchSourceContents(sourceUrls.map((source) => source.url));
+
+  if (fetched.every((source) => !source.text)) {
+    return "unreachable";
+  }
+
+  const diff = diffSourceHashes(sourceUrls, fetched, now);
+  if (diff.changedUrls.length === 0) {
+    await saveSourceHashes(skill.id, diff.sourceUrls);
+    return sourceUrls.some((source) => source.contentHash) ? "unchanged" : "baseline";
+  }
+
+  const draft = await generateDraftUpdate(
+    { title: skill.title, content: skill.content },
+    buildSourceMaterial(fetched),
+    sourceUrls.map((source) => source.url),
+    null
+  );
+
+  if (draft.hasChanges) {
+    await prisma.$transaction([
+      prisma.skillRefreshDraft.updateMany({
+        where: { skillId: skill.id, status: "PENDING" },
+        data: { status: "SUPERSEDED" },
+      }),
+      prisma.skillRefreshDraft.create({
+        data: {
+          skillId: skill.id,
+          baseVersion: skill.version,
+          title: draft.title,
+          content: draft.content,
+          summary: draft.summary,
+          changeHighlights: draft.changeHighlights || [],
+          changedUrls: diff.changedUrls,
+        },
+      }),
+    ]);
+  }
+
+  // Hashes are saved last so a failed LLM call is retried on the next run
+  await saveSourceHashes(skill.id, diff.sourceUrls);
+
+  if (draft.hasChanges) {
+    const ownerIds = await getSkillOwnerIds({ ownerId: skill.ownerId ?? null, owners: skill.owners ?? null });
+    await notifyUsers(ownerIds, {
+      type: "SKILL_REFRESH_READY",
+      title: `Updated draft ready for "${skill.title}"`,
+      body: draft.summary,
+      link: "/knowledge?tab=refresh-drafts",
+    });
+  }
+  return draft.hasChanges ? "drafted" : "no-changes";
+}
+
+/**
+ * Whether a skill's sources are due for a scheduled re-fetch
+ */
+export function isRefreshDue(sourceUrls: SourceUrl[], now: Date, intervalHours: number): boolean {
+  if (sourceUrls.length === 0) return false;
+  const dueBefore = now.getTime() - intervalHours * 60 * 60 * 1000;
+  return sourceUrls.some((source) => !source.lastFetchedAt || new Date(source.lastFetchedAt).getTime() < dueBefore);
+}
+
+/**
+ * Refresh the skills whose sources are older than SKILL_REFRESH_INTERVAL_HOURS
+ * (default one week), oldest first. Returns the number of drafts created.
+ */
+export async function runScheduledSkillRefresh(): Promise<number> {
+  const intervalHours = Number(process.env.SKILL_REFRESH_INTERVAL_HOURS) || DEFAULT_REFRESH_INTERVAL_HOURS;
+  const now = new Date();
+
+  const skills = await prisma.skill.findMany({
+    where: { isActive: true },
+    select: { id: true, title: true, content: true, version: true, sourceUrls: true, ownerId: true, owners: true },
+  });
+
+  const oldestFetch = (skill: (typeof skills)[number]) =>
+    Math.min(...((skill.sourceUrls as SourceUrl[]).map((source) => (source.lastFetchedAt ? new Date(source.lastFetchedAt).getTime() : 0))));
+  const due = skills
+    .filter((skill) => Array.isArray(skill.sourceUrls) && isRefreshDue(skill.sourceUrls as SourceUrl[], now, intervalHours))
+    .sort((a, b) => oldestFetch(a) - oldestFetch(b))
+    .slice(0, REFRESH_BATCH_SIZE);
+
+  let drafted = 0;
+  for (const skill of due) {
+    try {
+      const outcome = await refreshSkillFromSources(skill);
+      if (outcome === "drafted") drafted++;
+    } catch (error) {
+      logger.error("Scheduled skill refresh failed", error, { skillId: skill.id });
+    }
+  }
+  if (due.length > 0) {
+    logger.info("Scheduled skill refresh completed", { checked: due.length, drafted });
+  }
+  return drafted;
+}
+
+let refreshTimer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Start the periodic source refresh. Safe to call more than once.
+ * Called from instrumentation on server startup.
+ */
+export function startSkillRefreshScheduler(): void {
+  if (refreshTimer) return;
+  refreshTimer = setInterval(() => {
+    runScheduledSkillRefresh().catch((error) => {
+      logger.error("Scheduled skill refresh run failed", error);
+    });
+  }, REFRESH_CHECK_INTERVAL_MS);
+}
+
+/**
+ * Whether the user is one of the skill's owners
+ */
+export function isSkillOwner(
+  user: Pick<UserSession, "id" | "email">,
+  skill: Pick<DbSkill, "ownerId" | "owners">
+): boolean {
+  if (skill.ownerId === user.id) return true;
+  const owners = (skill.owners as SkillOwner[] | null) || [];
+  return owners.some(
+    (owner) => (owner.userId && owner.userId === user.id) || (owner.email && owner.email === user.email)
+  );
+}
+
+/**
+ * Skill owners review drafts; skills without owners need knowledge management
+ * rights. Admins can always review.
+ */
+export function canReviewRefreshDraft(
+  user: UserSession,
+  skill: Pick<DbSkill, "ownerId" | "owners">
+): boolean {
+  if (isAdmin(user)) return true;
+  const owners = (skill.owners as SkillOwner[] | null) || [];
+  if (!skill.ownerId && owners.length === 0) return canManageKnowledge(user);
+  return isSkillOwner(user, skill);
+}
+
+/**
+ * Apply a pending draft (optionally edited by the reviewer) as a new skill version
+ */
+export async function applyRefreshDraft(
+  draft: SkillRefreshDraft,
+  skill: DbSkill,
+  user: AuditUser,
+  edits: { title?: string; content?: string } = {}
+): Promise<DbSkill> {
+  const now = new Date();
+  const changeSummary = draft.changeHighlights.length > 0 ? draft.changeHighlights.join("; ") : draft.summary;
+  const history: SkillHistoryEntry[] = [
+    ...((skill.history as SkillHistoryEntry[]) || []),
+    {
+      date: now.toISOString(),
+      action: "refreshed",
+      summary: `Refreshed (scheduled): ${changeSummary}`,
+      user: user.email || user.name || undefined,
+    },
+  ];
+
+  const updated = await updateSkillWithVersion(
+    skill.id,
+    skill,
+    {
+      title: edits.title ?? draft.title,
+      content: edits.content ?? draft.content,
+      lastRefreshedAt: now,
+      history,
+    },
+    "refreshed",
+    user,
+    `Refreshed (scheduled): ${changeSummary}`
+  );
+
+  await prisma.skillRefreshDraft.update({
+    where: { id: draft.id },
+    data: { status: "APPLIED", reviewedAt: now, reviewedBy: user.email || user.name || null, reviewedById: user.id ?? null },
+  });
+
+  await logSkillChange("REFRESHED", skill.id, updated.title, user, undefined, {
+    changeHighlights: draft.changeHighlights,
+    draftId: draft.id,
+    scheduled: true,
+  });
+  await invalidateSkillCache();
+  if (updated.version !== skill.version) {
+    scheduleStaleAnswerCheck();
+  }
+
+  return updated;
+}
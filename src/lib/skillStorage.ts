@@ -144,6 +144,7 @@ function normalizeSkill(item: Partial<Skill> & LegacySkillFields): Skill {
     lastSourceLink: typeof item.lastSourceLink === "string" ? item.lastSourceLink : undefined,
     owners: owners && owners.length > 0 ? owners : undefined,
     history: history && history.length > 0 ? history : undefined,
+    version: typeof item.version === "number" ? item.version : undefined,
   };
 }
 
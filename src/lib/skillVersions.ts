@@ -0,0 +1,155 @@
+import { Prisma, type PrismaClient, type Skill as DbSkill, type SkillVersion } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import type { AuditUser } from "@/lib/auditLog";
+import type { SkillHistoryEntry } from "@/types/skill";
+
+/**
+ * Skill Versions
+ *
+ * Every change to what a skill says (title, content, quick facts, edge cases,
+ * categories) bumps Skill.version and stores a full SkillVersion snapshot, so
+ * earlier wording can be compared and restored. Owner, source and active-flag
+ * changes don't create versions. Answers record the version of each skill they
+ * used, which lets reviewers see when a skill has moved on since.
+ */
+
+type VersionClient = PrismaClient | Prisma.TransactionClient;
+
+export type SkillVersionAction = "created" | "updated" | "refreshed" | "rollback";
+
+export type SkillSnapshot = {
+  title: string;
+  content: string;
+  quickFacts: Prisma.JsonValue | null;
+  edgeCases: string[];
+  categories: string[];
+};
+
+const VERSIONED_FIELDS = ["title", "content", "quickFacts", "edgeCases", "categories"] as const;
+
+export function toSnapshot(skill: SkillSnapshot): SkillSnapshot {
+  return {
+    title: skill.title,
+    content: skill.content,
+    quickFacts: skill.quickFacts ?? null,
+    edgeCases: skill.edgeCases ?? [],
+    categories: skill.categories ?? [],
+  };
+}
+
+/**
+ * Whether an update changes any versioned field of the skill
+ */
+export function changesVersionedFields(existing: SkillSnapshot, updates: Partial<Record<string, unknown>>): boolean {
+  return VERSIONED_FIELDS.some(
+    (field) => updates[field] !== undefined && JSON.stringify(updates[field]) !== JSON.stringify(existing[field] ?? null)
+  );
+}
+
+/**
+ * Store the skill's current state as a version (call after Skill.version was set)
+ */
+export async function recordSkillVersion(
+  client: VersionClient,
+  skill: Pick<DbSkill, "id" | "version"> & SkillSnapshot,
+  action: SkillVersionAction,
+  user?: AuditUser,
+  summary?: string
+): Promise<SkillVersion> {
+  const snapshot = toSnapshot(skill);
+  return client.skillVersion.create({
+    data: {
+      skillId: skill.id,
+      version: skill.version,
+      title: snapshot.title,
+      content: snapshot.content,
+      quickFacts: snapshot.quickFacts ?? undefined,
+      edgeCases: snapshot.edgeCases,
+      categories: snapshot.categories,
+      action,
+      summary: summary || null,
+      createdBy: user?.email || user?.name || null,
+      createdById: user?.id ?? null,
+    },
+  });
+}
+
+/**
+ * Update a skill and, if its knowledge changed, bump the version and snapshot it
+ */
+export async function updateSkillWithVersion(
+  skillId: string,
+  existing: Pick<DbSkill, "version"> & SkillSnapshot,
+  data: Prisma.SkillUpdateInput,
+  action: Exclude<SkillVersionAction, "created">,
+  user?: AuditUser,
+  summary?: string
+): Promise<DbSkill> {
+  if (!changesVersionedFields(existing, data as Record<string, unknown>)) {
+    return prisma.skill.update({ where: { id: skillId }, data });
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const skill = await tx.skill.update({
+      where: { id: skillId },
+      data: { ...data, version: { increment: 1 } },
+    });
+    await recordSkillVersion(tx, skill, action, user, summary);
+    return skill;
+  });
+}
+
+export async function listSkillVersions(skillId: string): Promise<SkillVersion[]> {
+  return prisma.skillVersion.findMany({
+    where: { skillId },
+    orderBy: { version: "desc" },
+  });
+}
+
+/**
+ * Restore an earlier version's content. The restore is itself a new version,
+ * so nothing is lost and it can be undone the same way.
+ */
+export async function rollbackSkill(
+  skillId: string,
+  targetVersion: number,
+  user?: AuditUser
+): Promise<{ skill: DbSkill; restored: SkillVersion } | null> {
+  const [skill, restored] = await Promise.all([
+    prisma.skill.findUnique({ where: { id: skillId } }),
+    prisma.skillVersion.findUnique({ where: { skillId_version: { skillId, version: targetVersion } } }),
+  ]);
+  if (!skill || !restored) {
+    return null;
+  }
+
+  const summary = `Rolled back to version ${targetVersion}`;
+  const history: SkillHistoryEntry[] = [
+    ...((skill.history as SkillHistoryEntry[]) || []),
+    {
+      date: new Date().toISOString(),
+      action: "updated",
+      summary,
+      user: user?.email || user?.name || undefined,
+    },
+  ];
+
+  const updated = await prisma.$transaction(async (tx) => {
+    const next = await tx.skill.update({
+      where: { id: skillId },
+      data: {
+        title: restored.title,
+        content: restored.content,
+        quickFacts: restored.quickFacts ?? Prisma.JsonNull,
+        edgeCases: restored.edgeCases,
+        categories: restored.categories,
+        history,
+        version: { increment: 1 },
+      },
+    });
+    await recordSkillVersion(tx, next, "rollback", user, summary);
+    return next;
+  });
+
+  return { skill: updated, restored };
+}
@@ -0,0 +1,295 @@
+import { logger } from "@/lib/logger";
+
+/**
+ * Slack Notifications
+ *
+ * Builds and posts review requests and comment mentions to the Slack incoming
+ * webhook (SLACK_WEBHOOK_URL). Used by /api/slack/notify for requests from the
+ * browser and called directly by routes that announce their own changes.
+ * All user-provided text is escaped for Slack markdown here.
+ */
+
+// Project-level review request
+export type ProjectReviewNotification = {
+  type?: "project";
+  projectName: string;
+  projectUrl: string;
+  customerName?: string;
+  requesterName: string;
+};
+
+// Question-level review request
+export type QuestionReviewNotification = {
+  type: "question";
+  projectName: string;
+  projectUrl: string;
+  customerName?: string;
+  requesterName: string;
+  question: string;
+  answer: string;
+  confidence?: string;
+  reviewNote?: string;
+};
+
+// @mention in a comment thread (projectName/projectUrl name and link the thread's target)
+export type MentionNotification = {
+  type: "mention";
+  projectName: string;
+  projectUrl: string;
+  customerName?: string;
+  requesterName: string;
+  mentionedNames: string[];
+  comment: string;
+  subject?: string; // The question or item commented on
+};
+
+export type SlackNotification = ProjectReviewNotification | QuestionReviewNotification | MentionNotification;
+
+type SlackMessage = { blocks: object[] };
+
+// Sanitize text for Slack markdown - escape special characters
+function sanitizeForSlack(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+// Truncate text for Slack (max ~3000 chars for blocks)
+function truncateForSlack(text: string, maxLength = 500): string {
+  if (text.length <= maxLength) return text;
+  return text.slice(0, maxLength - 3) + "...";
+}
+
+/**
+ * Absolute link into the app for a Slack button. Uses NEXTAUTH_URL, falling
+ * back to the origin the server was reached on (never the Origin header).
+ */
+export function toAppUrl(path: string, requestUrl: string): string {
+  const base = process.env.NEXTAUTH_URL || new URL(requestUrl).origin;
+  return new URL(path, base).toString();
+}
+
+// Build Slack message for project-level review
+function buildProjectReviewMessage(
+  projectName: string,
+  customerName: string,
+  requesterName: string,
+  projectUrl: string
+): SlackMessage {
+  return {
+    blocks: [
+      {
+        type: "header",
+        text: {
+          type: "plain_text",
+          text: "📋 Project Review Requested",
+          emoji: true,
+        },
+      },
+      {
+        type: "section",
+        fields: [
+          { type: "mrkdwn", text: `*Project:*\n${projectName}` },
+          { type: "mrkdwn", text: `*Customer:*\n${customerName}` },
+          { type: "mrkdwn", text: `*Requested by:*\n${requesterName}` },
+        ],
+      },
+      {
+        type: "actions",
+        elements: [
+          {
+            type: "button",
+            text: { type: "plain_text", text: "Review Now", emoji: true },
+            url: projectUrl,
+            style: "primary",
+          },
+        ],
+      },
+    ],
+  };
+}
+
+// Build Slack message for question-level review
+function buildQuestionReviewMessage(
+  projectName: string,
+  customerName: string,
+  requesterName: string,
+  projectUrl: string,
+  question: string,
+  answer: string,
+  confidence?: string,
+  reviewNote?: string
+): SlackMessage {
+  const blocks: object[] = [
+    {
+      type: "header",
+      text: {
+        type: "plain_text",
+        text: "🔍 Answer Review Requested",
+        emoji: true,
+      },
+    },
+    {
+      type: "section",
+      fields: [
+        { type: "mrkdwn", text: `*Project:*\n${projectName}` },
+        { type: "mrkdwn", text: `*Customer:*\n${customerName}` },
+        { type: "mrkdwn", text: `*Requested by:*\n${requesterName}` },
+        ...(confidence ? [{ type: "mrkdwn", text: `*Confidence:*\n${confidence}` }] : []),
+      ],
+    },
+    { type: "divider" },
+    {
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: `*Question:*\n${truncateForSlack(question, 300)}`,
+      },
+    },
+    {
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: `*Generated Answer:*\n${truncateForSlack(answer, 500)}`,
+      },
+    },
+  ];
+
+  // Add reviewer note if provided
+  if (reviewNote?.trim()) {
+    blocks.push({
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: `*📝 Note from ${requesterName}:*\n_${truncateForSlack(reviewNote.trim(), 300)}_`,
+      },
+    });
+  }
+
+  blocks.push({
+    type: "actions",
+    elements: [
+      {
+        type: "button",
+        text: { type: "plain_text", text: "Review in App", emoji: true },
+        url: projectUrl,
+        style: "primary",
+      },
+    ],
+  });
+
+  return { blocks };
+}
+
+// Build Slack message for a comment mention
+function buildMentionMessage(
+  projectName: string,
+  requesterName: string,
+  projectUrl: string,
+  mentionedNames: string[],
+  comment: string,
+  subject?: string
+): SlackMessage {
+  const blocks: object[] = [
+    {
+      type: "header",
+      text: {
+        type: "plain_text",
+        text: "💬 You were mentioned",
+        emoji: true,
+      },
+    },
+    {
+      type: "section",
+      fields: [
+        { type: "mrkdwn", text: `*Where:*\n${projectName}` },
+        { type: "mrkdwn", text: `*From:*\n${requesterName}` },
+        { type: "mrkdwn", text: `*Mentioned:*\n${mentionedNames.join(", ")}` },
+      ],
+    },
+  ];
+
+  if (subject?.trim()) {
+    blocks.push({
+      type: "section",
+      text: { type: "mrkdwn", text: `*On:*\n${truncateForSlack(subject.trim(), 300)}` },
+    });
+  }
+
+  blocks.push(
+    {
+      type: "section",
+      text: { type: "mrkdwn", text: `>${truncateForSlack(comment, 500).replace(/\n/g, "\n>")}` },
+    },
+    {
+      type: "actions",
+      elements: [
+        {
+          type: "button",
+          text: { type: "plain_text", text: "Open Thread", emoji: true },
+          url: projectUrl,
+          style: "primary",
+        },
+      ],
+    }
+  );
+
+  return { blocks };
+}
+
+/**
+ * Slack blocks for a notification, with all user-provided text escaped
+ */
+export function buildSlackMessage(notification: SlackNotification): SlackMessage {
+  const projectName = sanitizeForSlack(notification.projectName.trim());
+  const customerName = sanitizeForSlack(notification.customerName?.trim() || "Not specified");
+  const requesterName = sanitizeForSlack(notification.requesterName.trim());
+
+  if (notification.type === "mention") {
+    return buildMentionMessage(
+      projectName,
+      requesterName,
+      notification.projectUrl,
+      notification.mentionedNames.map((name) => sanitizeForSlack(String(name))),
+      sanitizeForSlack(notification.comment.trim()),
+      notification.subject ? sanitizeForSlack(notification.subject) : undefined
+    );
+  }
+  if (notification.type === "question") {
+    return buildQuestionReviewMessage(
+      projectName,
+      customerName,
+      requesterName,
+      notification.projectUrl,
+      sanitizeForSlack(notification.question.trim()),
+      sanitizeForSlack(notification.answer.trim()),
+      notification.confidence ? sanitizeForSlack(notification.confidence) : undefined,
+      notification.reviewNote ? sanitizeForSlack(notification.reviewNote) : undefined
+    );
+  }
+  return buildProjectReviewMessage(projectName, customerName, requesterName, notification.projectUrl);
+}
+
+/**
+ * Post a notification to the Slack webhook. Returns "skipped" when no webhook
+ * is configured; throws when Slack rejects the message.
+ */
+export async function sendSlackNotification(notification: SlackNotification): Promise<"sent" | "skipped"> {
+  const webhookUrl = process.env.SLACK_WEBHOOK_URL;
+  if (!webhookUrl) {
+    logger.warn("SLACK_WEBHOOK_URL not configured, skipping notification");
+    return "skipped";
+  }
+
+  const response = await fetch(webhookUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(buildSlackMessage(notification)),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Slack webhook error: ${await response.text()}`);
+  }
+  return "sent";
+}
@@ -0,0 +1,660 @@
+import { PrismaClient } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { decrypt, isEncrypted } from "@/lib/encryption";
+import { logger } from "@/lib/logger";
+import type {
+  CustomerGTMData,
+  FetchGTMDataRequest,
+  GongCall,
+  HubSpotActivity,
+  LookerMetrics,
+} from "@/types/gtmData";
+
+/**
+ * Snowflake GTM Data
+ *
+ * Reads Gong calls, HubSpot activities and Looker metrics for a Salesforce
+ * Account from the warehouse tables they are synced into. Which table and
+ * columns hold each field is configurable (Admin → Integrations → Snowflake
+ * explorer) and saved as JSON in the SNOWFLAKE_GTM_MAPPINGS app setting.
+ *
+ * Queries go through a GtmDataSource, so anything that can run SQL with `?`
+ * placeholders can stand in for Snowflake. Set GTM_DATA_SOURCE=postgres and
+ * GTM_FIXTURE_DATABASE_URL to read from a local Postgres fixture instead.
+ */
+
+const SETTING_KEYS = [
+  "SNOWFLAKE_ACCOUNT",
+  "SNOWFLAKE_USER",
+  "SNOWFLAKE_PASSWORD",
+  "SNOWFLAKE_WAREHOUSE",
+  "SNOWFLAKE_DATABASE",
+  "SNOWFLAKE_SCHEMA",
+] as const;
+
+export const GTM_MAPPINGS_SETTING_KEY = "SNOWFLAKE_GTM_MAPPINGS";
+
+export const NOT_CONFIGURED_MESSAGE =
+  "Snowflake is not configured. Add the SNOWFLAKE_* settings in Admin → Settings → Integrations.";
+
+const MAX_GONG_CALLS = 50;
+const MAX_HUBSPOT_ACTIVITIES = 100;
+const MAX_LOOKER_PERIODS = 24;
+const MAX_PREVIEW_ROWS = 50;
+
+// Unquoted identifiers only; optionally qualified as SCHEMA.TABLE or DB.SCHEMA.TABLE
+const IDENTIFIER_REGEX = /^[A-Za-z_][A-Za-z0-9_$]*$/;
+const TABLE_NAME_REGEX = /^[A-Za-z_][A-Za-z0-9_$]*(\.[A-Za-z_][A-Za-z0-9_$]*){0,2}$/;
+
+export type SnowflakeConfig = {
+  account: string;
+  username: string;
+  password: string;
+  warehouse?: string;
+  database?: string;
+  schema?: string;
+};
+
+export type SqlValue = string | number | boolean | null;
+
+export type QueryRow = Record<string, unknown>;
+
+export type GtmSourceDialect = "snowflake" | "postgres";
+
+export interface GtmDataSource {
+  dialect: GtmSourceDialect;
+  // Run a statement using `?` placeholders for binds
+  query(sql: string, binds?: SqlValue[]): Promise<QueryRow[]>;
+  close(): Promise<void>;
+}
+
+export const GONG_CALL_FIELDS = [
+  "accountId",
+  "id",
+  "title",
+  "date",
+  "duration",
+  "participants",
+  "transcript",
+  "summary",
+  "sentiment",
+  "topics",
+] as const;
+
+export const HUBSPOT_ACTIVITY_FIELDS = [
+  "accountId",
+  "id",
+  "type",
+  "date",
+  "subject",
+  "content",
+  "associatedDeal",
+  "owner",
+] as const;
+
+export const LOOKER_METRIC_FIELDS = ["accountId", "period"] as const;
+
+export type GongCallField = (typeof GONG_CALL_FIELDS)[number];
+export type HubSpotActivityField = (typeof HUBSPOT_ACTIVITY_FIELDS)[number];
+export type LookerMetricField = (typeof LOOKER_METRIC_FIELDS)[number];
+
+// Empty column names leave optional fields unmapped
+export type GtmTableMapping<F extends string> = {
+  table: string;
+  columns: Record<F, string>;
+};
+
+export type GtmMappings = {
+  gongCalls: GtmTableMapping<GongCallField>;
+  hubspotActivities: GtmTableMapping<HubSpotActivityField>;
+  // Metric columns to read; empty means every column other than accountId/period
+  lookerMetrics: GtmTableMapping<LookerMetricField> & { metricColumns: string[] };
+};
+
+export const DEFAULT_GTM_MAPPINGS: GtmMappings = {
+  gongCalls: {
+    table: "GONG_CALLS",
+    columns: {
+      accountId: "SALESFORCE_ACCOUNT_ID",
+      id: "CALL_ID",
+      title: "TITLE",
+      date: "STARTED_AT",
+      duration: "DURATION_SECONDS",
+      participants: "PARTICIPANTS",
+      transcript: "TRANSCRIPT",
+      summary: "SUMMARY",
+      sentiment: "SENTIMENT",
+      topics: "TOPICS",
+    },
+  },
+  hubspotActivities: {
+    table: "HUBSPOT_ACTIVITIES",
+    columns: {
+      accountId: "SALESFORCE_ACCOUNT_ID",
+      id: "ACTIVITY_ID",
+      type: "ACTIVITY_TYPE",
+      date: "ACTIVITY_DATE",
+      subject: "SUBJECT",
+      content: "BODY",
+      associatedDeal: "DEAL_NAME",
+      owner: "OWNER_NAME",
+    },
+  },
+  lookerMetrics: {
+    table: "LOOKER_ACCOUNT_METRICS",
+    columns: {
+      accountId: "SALESFORCE_ACCOUNT_ID",
+      period: "PERIOD",
+    },
+    metricColumns: [],
+  },
+};
+
+const REQUIRED_FIELDS = {
+  gongCalls: ["accountId", "id", "title", "date"],
+  hubspotActivities: ["accountId", "id", "date", "subject"],
+  lookerMetrics: ["accountId", "period"],
+} as const;
+
+function isValidIdentifier(name: string): boolean {
+  return IDENTIFIER_REGEX.test(name);
+}
+
+function isValidTableName(name: string): boolean {
+  return TABLE_NAME_REGEX.test(name);
+}
+
+/**
+ * Check a mapping set; returns human-readable problems (empty when valid)
+ */
+export function validateGtmMappings(mappings: GtmMappings): string[] {
+  const problems: string[] = [];
+  for (const key of Object.keys(REQUIRED_FIELDS) as (keyof GtmMappings)[]) {
+    const mapping = mappings[key];
+    if (!isValidTableName(mapping.table)) {
+      problems.push(`${key}: invalid table name "${mapping.table}"`);
+    }
+    const columns = mapping.columns as Record<string, string>;
+    for (const field of REQUIRED_FIELDS[key]) {
+      if (!columns[field]) problems.push(`${key}: ${field} column is required`);
+    }
+    for (const [field, column] of Object.entries(columns)) {
+      if (column && !isValidIdentifier(column)) {
+        problems.push(`${key}: invalid column name "${column}" for ${field}`);
+      }
+    }
+  }
+  for (const column of mappings.lookerMetrics.metricColumns) {
+    if (!isValidIdentifier(column)) {
+      problems.push(`lookerMetrics: invalid metric column "${column}"`);
+    }
+  }
+  return problems;
+}
+
+/**
+ * Overlay saved mappings on the defaults so new fields always have a column
+ */
+export function mergeGtmMappings(saved: Partial<GtmMappings> | null | undefined): GtmMappings {
+  return {
+    gongCalls: {
+      table: saved?.gongCalls?.table || DEFAULT_GTM_MAPPINGS.gongCalls.table,
+      columns: { ...DEFAULT_GTM_MAPPINGS.gongCalls.columns, ...saved?.gongCalls?.columns },
+    },
+    hubspotActivities: {
+      table: saved?.hubspotActivities?.table || DEFAULT_GTM_MAPPINGS.hubspotActivities.table,
+      columns: { ...DEFAULT_GTM_MAPPINGS.hubspotActivities.columns, ...saved?.hubspotActivities?.columns },
+    },
+    lookerMetrics: {
+      table: saved?.lookerMetrics?.table || DEFAULT_GTM_MAPPINGS.lookerMetrics.table,
+      columns: { ...DEFAULT_GTM_MAPPINGS.lookerMetrics.columns, ...saved?.lookerMetrics?.columns },
+      metricColumns: saved?.lookerMetrics?.metricColumns ?? DEFAULT_GTM_MAPPINGS.lookerMetrics.metricColumns,
+    },
+  };
+}
+
+export async function loadGtmMappings(): Promise<GtmMappings> {
+  const setting = await prisma.appSetting.findUnique({ where: { key: GTM_MAPPINGS_SETTING_KEY } });
+  if (!setting?.value) {
+    return mergeGtmMappings(null);
+  }
+  try {
+    return mergeGtmMappings(JSON.parse(setting.value) as Partial<GtmMappings>);
+  } catch {
+    logger.warn("Ignoring unreadable Snowflake GTM mappings setting");
+    return mergeGtmMappings(null);
+  }
+}
+
+export async function saveGtmMappings(mappings: GtmMappings, updatedBy?: string): Promise<void> {
+  const value = JSON.stringify(mappings);
+  await prisma.appSetting.upsert({
+    where: { key: GTM_MAPPINGS_SETTING_KEY },
+    create: { key: GTM_MAPPINGS_SETTING_KEY, value, updatedBy },
+    update: { value, updatedBy },
+  });
+}
+
+// ============================================
+// DATA SOURCES
+// ============================================
+
+function readSettingValue(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  return isEncrypted(value) ? decrypt(value) : value;
+}
+
+/**
+ * Load Snowflake credentials from saved settings (or env). Null if incomplete.
+ */
+export async function loadSnowflakeConfig(): Promise<SnowflakeConfig | null> {
+  const settings = await prisma.appSetting.findMany({
+    where: { key: { in: [...SETTING_KEYS] } },
+  });
+  const stored = new Map(settings.map((setting) => [setting.key, setting.value]));
+  const get = (key: (typeof SETTING_KEYS)[number]) => readSettingValue(stored.get(key)) || process.env[key];
+
+  const account = get("SNOWFLAKE_ACCOUNT");
+  const username = get("SNOWFLAKE_USER");
+  const password = get("SNOWFLAKE_PASSWORD");
+  if (!account || !username || !password) {
+    return null;
+  }
+  return {
+    account,
+    username,
+    password,
+    warehouse: get("SNOWFLAKE_WAREHOUSE"),
+    database: get("SNOWFLAKE_DATABASE"),
+    schema: get("SNOWFLAKE_SCHEMA"),
+  };
+}
+
+/**
+ * Snowflake source; connects on first query and holds the connection until closed
+ */
+export function createSnowflakeSource(config: SnowflakeConfig): GtmDataSource {
+  type Connection = import("snowflake-sdk").Connection;
+  type Binds = import("snowflake-sdk").Binds;
+  let connection: Promise<Connection> | null = null;
+
+  const connect = async (): Promise<Connection> => {
+    // Loaded on demand so the driver is only required when Snowflake is used
+    const { default: sdk } = await import("snowflake-sdk");
+    const conn = sdk.createConnection({
+      account: config.account,
+      username: config.username,
+      password: config.password,
+      warehouse: config.warehouse,
+      database: config.database,
+      schema: config.schema,
+      application: "transparent-trust",
+    });
+    return new Promise((resolve, reject) => {
+      conn.connect((err) => (err ? reject(err) : resolve(conn)));
+    });
+  };
+
+  return {
+    dialect: "snowflake",
+
+    async query(sql, binds = []) {
+      if (!connection) {
+        connection = connect();
+        connection.catch(() => {
+          connection = null;
+        });
+      }
+      const conn = await connection;
+      return new Promise((resolve, reject) => {
+        conn.execute({
+          sqlText: sql,
+          // The driver binds null as SQL NULL despite its typings
+          binds: binds as Binds,
+          complete: (err, _stmt, rows) => (err ? reject(err) : resolve((rows as QueryRow[]) || [])),
+        });
+      });
+    },
+
+    async close() {
+      if (!connection) return;
+      const conn = await connection.catch(() => null);
+      connection = null;
+      if (!conn) return;
+      await new Promise<void>((resolve) => {
+        conn.destroy(() => resolve());
+      });
+    },
+  };
+}
+
+/**
+ * Postgres source for local fixtures; `?` placeholders become $1, $2, ...
+ */
+export function createPostgresSource(databaseUrl: string): GtmDataSource {
+  const client = new PrismaClient({ datasourceUrl: databaseUrl });
+
+  return {
+    dialect: "postgres",
+
+    async query(sql, binds = []) {
+      let index = 0;
+      const text = sql.replace(/\?/g, () => `$${++index}`);
+      return client.$queryRawUnsafe<QueryRow[]>(text, ...binds);
+    },
+
+    close() {
+      return client.$disconnect();
+    },
+  };
+}
+
+/**
+ * Source for the configured backend, or null when it is not configured.
+ * Callers must close() the source when done.
+ */
+export async function getGtmDataSource(): Promise<GtmDataSource | null> {
+  if (process.env.GTM_DATA_SOURCE === "postgres") {
+    const url = process.env.GTM_FIXTURE_DATABASE_URL;
+    return url ? createPostgresSource(url) : null;
+  }
+  const config = await loadSnowflakeConfig();
+  return config ? createSnowflakeSource(config) : null;
+}
+
+// ============================================
+// SCHEMA EXPLORER
+// ============================================
+
+export type TableInfo = {
+  tableName: string;
+  tableType: string;
+  rowCount?: number;
+};
+
+export type ColumnInfo = {
+  columnName: string;
+  dataType: string;
+  isNullable: boolean;
+  comment: string | null;
+};
+
+// Snowflake returns upper-case column keys, Postgres lower-case
+function field(row: QueryRow, name: string): unknown {
+  return row[name] ?? row[name.toUpperCase()] ?? row[name.toLowerCase()];
+}
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+export async function listSchemas(source: GtmDataSource): Promise<string[]> {
+  const rows = await source.query(
+    "SELECT schema_name FROM information_schema.schemata WHERE schema_name NOT IN ('INFORMATION_SCHEMA', 'information_schema', 'pg_catalog', 'pg_toast') ORDER BY schema_name"
+  );
+  return rows.map((row) => String(field(row, "schema_name")));
+}
+
+export async function listTables(source: GtmDataSource, schema: string): Promise<TableInfo[]> {
+  const rowCount = source.dialect === "snowflake" ? ", row_count" : "";
+  const rows = await source.query(
+    `SELECT table_name, table_type${rowCount} FROM information_schema.tables WHERE table_schema = ? ORDER BY table_name`,
+    [schema]
+  );
+  return rows.map((row) => {
+    const count = field(row, "row_count");
+    return {
+      tableName: String(field(row, "table_name")),
+      tableType: String(field(row, "table_type")),
+      rowCount: count === null || count === undefined ? undefined : Number(count),
+    };
+  });
+}
+
+export async function listColumns(source: GtmDataSource, schema: string, table: string): Promise<ColumnInfo[]> {
+  const comment = source.dialect === "snowflake" ? ", comment" : "";
+  const rows = await source.query(
+    `SELECT column_name, data_type, is_nullable${comment} FROM information_schema.columns WHERE table_schema = ? AND table_name = ? ORDER BY ordinal_position`,
+    [schema, table]
+  );
+  return rows.map((row) => ({
+    columnName: String(field(row, "column_name")),
+    dataType: String(field(row, "data_type")),
+    isNullable: String(field(row, "is_nullable")).toUpperCase() === "YES",
+    comment: (field(row, "comment") as string | null | undefined) ?? null,
+  }));
+}
+
+export async function previewTable(
+  source: GtmDataSource,
+  schema: string,
+  table: string,
+  limit = 5
+): Promise<QueryRow[]> {
+  const rows = Math.min(Math.max(Math.floor(limit) || 5, 1), MAX_PREVIEW_ROWS);
+  return source.query(`SELECT * FROM ${quoteIdentifier(schema)}.${quoteIdentifier(table)} LIMIT ${rows}`);
+}
+
+// ============================================
+// GTM QUERIES
+// ============================================
+
+export type BuiltQuery = {
+  sql: string;
+  binds: SqlValue[];
+};
+
+type QueryOptions = {
+  salesforceAccountId: string;
+  limit: number;
+  dateFrom?: string;
+  dateTo?: string;
+};
+
+function clampLimit(limit: number | undefined, fallback: number, max: number): number {
+  return Math.min(Math.max(Math.floor(limit ?? fallback) || fallback, 1), max);
+}
+
+// Mapped columns are aliased to the field names so rows read the same on any backend
+function buildSelect<F extends string>(
+  mapping: GtmTableMapping<F>,
+  fields: readonly F[],
+  dateField: F | null,
+  options: QueryOptions
+): BuiltQuery {
+  const columns = mapping.columns as Record<string, string>;
+  const select = fields
+    .filter((name) => columns[name])
+    .map((name) => `${columns[name]} AS "${name}"`);
+
+  const where = [`${columns.accountId} = ?`];
+  const binds: SqlValue[] = [options.salesforceAccountId];
+  if (dateField && options.dateFrom) {
+    where.push(`${columns[dateField]} >= ?`);
+    binds.push(options.dateFrom);
+  }
+  if (dateField && options.dateTo) {
+    where.push(`${columns[dateField]} <= ?`);
+    binds.push(options.dateTo);
+  }
+
+  const orderBy = dateField ? columns[dateField] : columns.period;
+  return {
+    sql: `SELECT ${select.join(", ")} FROM ${mapping.table} WHERE ${where.join(" AND ")} ORDER BY ${orderBy} DESC LIMIT ${options.limit}`,
+    binds,
+  };
+}
+
+export function buildGongCallsQuery(mappings: GtmMappings, options: QueryOptions): BuiltQuery {
+  return buildSelect(mappings.gongCalls, GONG_CALL_FIELDS, "date", options);
+}
+
+export function buildHubSpotActivitiesQuery(mappings: GtmMappings, options: QueryOptions): BuiltQuery {
+  return buildSelect(mappings.hubspotActivities, HUBSPOT_ACTIVITY_FIELDS, "date", options);
+}
+
+export function buildLookerMetricsQuery(mappings: GtmMappings, options: QueryOptions): BuiltQuery {
+  const { lookerMetrics } = mappings;
+  if (lookerMetrics.metricColumns.length === 0) {
+    // Every column is read; the key columns are aliased alongside the originals
+    const base = buildSelect(lookerMetrics, LOOKER_METRIC_FIELDS, null, options);
+    return { ...base, sql: base.sql.replace(/^SELECT /, "SELECT *, ") };
+  }
+  const metrics = lookerMetrics.metricColumns.map((column) => `${column} AS "${column}"`);
+  const base = buildSelect(lookerMetrics, LOOKER_METRIC_FIELDS, null, options);
+  return { ...base, sql: base.sql.replace(/ FROM /, `, ${metrics.join(", ")} FROM `) };
+}
+
+function toText(value: unknown): string | undefined {
+  if (value === null || value === undefined) return undefined;
+  const text = String(value).trim();
+  return text || undefined;
+}
+
+function toIsoDate(value: unknown): string {
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "number") return new Date(value).toISOString();
+  const text = toText(value) || "";
+  const parsed = new Date(text);
+  return Number.isNaN(parsed.getTime()) ? text : parsed.toISOString();
+}
+
+// Lists may arrive as arrays (VARIANT/ARRAY), JSON strings or delimited text
+function toList(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value
+      .map((item) => (item && typeof item === "object" ? ((item as { name?: unknown }).name ?? JSON.stringify(item)) : item))
+      .map(toText)
+      .filter((item): item is string => Boolean(item));
+  }
+  const text = toText(value);
+  if (!text) return [];
+  if (text.startsWith("[")) {
+    try {
+      return toList(JSON.parse(text));
+    } catch {
+      // Not JSON; fall through to delimited text
+    }
+  }
+  return text.split(/[,;]/).map((item) => item.trim()).filter(Boolean);
+}
+
+function toSentiment(value: unknown): GongCall["sentiment"] {
+  if (typeof value === "number") {
+    return value > 0.2 ? "positive" : value < -0.2 ? "negative" : "neutral";
+  }
+  const text = toText(value)?.toLowerCase();
+  if (!text) return undefined;
+  if (text.startsWith("pos")) return "positive";
+  if (text.startsWith("neg")) return "negative";
+  return "neutral";
+}
+
+function toActivityType(value: unknown): HubSpotActivity["type"] {
+  const text = toText(value)?.toLowerCase() || "";
+  for (const type of ["email", "meeting", "call", "task"] as const) {
+    if (text.includes(type)) return type;
+  }
+  return "note";
+}
+
+export function mapGongCallRow(row: QueryRow, salesforceAccountId: string): GongCall {
+  return {
+    id: String(row.id),
+    salesforceAccountId,
+    title: toText(row.title) || "Untitled call",
+    date: toIsoDate(row.date),
+    duration: Number(row.duration) || 0,
+    participants: toList(row.participants),
+    transcript: toText(row.transcript),
+    summary: toText(row.summary),
+    sentiment: toSentiment(row.sentiment),
+    topics: row.topics === undefined ? undefined : toList(row.topics),
+  };
+}
+
+export function mapHubSpotActivityRow(row: QueryRow, salesforceAccountId: string): HubSpotActivity {
+  return {
+    id: String(row.id),
+    salesforceAccountId,
+    type: toActivityType(row.type),
+    date: toIsoDate(row.date),
+    subject: toText(row.subject) || "(no subject)",
+    content: toText(row.content),
+    associatedDeal: toText(row.associatedDeal),
+    owner: toText(row.owner),
+  };
+}
+
+export function mapLookerMetricsRow(
+  row: QueryRow,
+  salesforceAccountId: string,
+  mappings: GtmMappings
+): LookerMetrics {
+  const { columns, metricColumns } = mappings.lookerMetrics;
+  const skip = new Set(
+    ["accountId", "period", columns.accountId, columns.period].map((name) => name.toLowerCase())
+  );
+  const metrics: Record<string, number | string> = {};
+  for (const [key, value] of Object.entries(row)) {
+    if (value === null || value === undefined) continue;
+    if (metricColumns.length > 0 ? !metricColumns.includes(key) : skip.has(key.toLowerCase())) continue;
+    const numeric = typeof value === "number" ? value : typeof value === "bigint" ? Number(value) : NaN;
+    metrics[key] = Number.isNaN(numeric) ? (value instanceof Date ? value.toISOString() : String(value)) : numeric;
+  }
+  const period = row.period instanceof Date ? row.period.toISOString().slice(0, 10) : String(row.period ?? "");
+  return { salesforceAccountId, period, metrics };
+}
+
+/**
+ * Fetch a customer's GTM data through the given source and mappings
+ */
+export async function fetchCustomerGTMData(
+  source: GtmDataSource,
+  mappings: GtmMappings,
+  request: FetchGTMDataRequest & { customerName?: string }
+): Promise<CustomerGTMData> {
+  // Mapped names are interpolated into SQL, so re-check them even though saves are validated
+  const problems = validateGtmMappings(mappings);
+  if (problems.length > 0) {
+    throw new Error(`Invalid GTM mappings: ${problems.join("; ")}`);
+  }
+
+  const { salesforceAccountId, dateFrom, dateTo } = request;
+  const run = (query: BuiltQuery) => source.query(query.sql, query.binds);
+
+  const [gongRows, hubspotRows, lookerRows] = await Promise.all([
+    request.includeGongCalls === false
+      ? []
+      : run(
+          buildGongCallsQuery(mappings, {
+            salesforceAccountId,
+            dateFrom,
+            dateTo,
+            limit: clampLimit(request.gongCallLimit, 10, MAX_GONG_CALLS),
+          })
+        ),
+    request.includeHubSpotActivities === false
+      ? []
+      : run(
+          buildHubSpotActivitiesQuery(mappings, {
+            salesforceAccountId,
+            dateFrom,
+            dateTo,
+            limit: clampLimit(request.hubspotActivityLimit, 20, MAX_HUBSPOT_ACTIVITIES),
+          })
+        ),
+    request.includeLookerMetrics === false
+      ? []
+      : run(buildLookerMetricsQuery(mappings, { salesforceAccountId, limit: MAX_LOOKER_PERIODS })),
+  ]);
+
+  return {
+    salesforceAccountId,
+    customerName: request.customerName,
+    gongCalls: gongRows.map((row) => mapGongCallRow(row, salesforceAccountId)),
+    hubspotActivities: hubspotRows.map((row) => mapHubSpotActivityRow(row, salesforceAccountId)),
+    lookerMetrics: lookerRows.map((row) => mapLookerMetricsRow(row, salesforceAccountId, mappings)),
+    lastUpdated: new Date().toISOString(),
+  };
+}
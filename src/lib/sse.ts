@@ -0,0 +1,88 @@
+/**
+ * Server-Sent Events Helpers
+ *
+ * Encoding is used by streaming API routes, parsing by the client hooks
+ * that consume them. Every event carries a JSON payload.
+ */
+
+export type SSEEvent = {
+  event: string;
+  data: unknown;
+};
+
+export const SSE_HEADERS = {
+  "Content-Type": "text/event-stream; charset=utf-8",
+  "Cache-Control": "no-cache, no-transform",
+  Connection: "keep-alive",
+  // Disable proxy buffering (nginx) so events are flushed immediately
+  "X-Accel-Buffering": "no",
+} as const;
+
+const encoder = new TextEncoder();
+
+/**
+ * Encode a single named event with a JSON payload
+ */
+export function encodeSSE(event: string, data: unknown): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Parse one raw event block ("event: x\ndata: {...}") into an SSEEvent
+ */
+function parseEventBlock(block: string): SSEEvent | null {
+  let event = "message";
+  const dataLines: string[] = [];
+
+  for (const line of block.split("\n")) {
+    if (line.startsWith("event:")) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith("data:")) {
+      dataLines.push(line.slice(5).trimStart());
+    }
+  }
+
+  if (dataLines.length === 0) return null;
+
+  const raw = dataLines.join("\n");
+  try {
+    return { event, data: JSON.parse(raw) };
+  } catch {
+    return { event, data: raw };
+  }
+}
+
+/**
+ * Read an SSE response body and invoke `onEvent` for each event.
+ * Resolves when the stream ends; rejects if the underlying fetch is aborted.
+ */
+export async function readSSEStream(
+  response: Response,
+  onEvent: (event: SSEEvent) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error("Response has no body to stream");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n");
+
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const parsed = parseEventBlock(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      if (parsed) onEvent(parsed);
+      boundary = buffer.indexOf("\n\n");
+    }
+  }
+
+  const trailing = parseEventBlock(buffer.trim());
+  if (trailing) onEvent(trailing);
+}
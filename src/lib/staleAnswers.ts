@@ -0,0 +1,254 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { logger } from "@/lib/logger";
+import type { StaleSkillRef } from "@/types/skill";
+
+/**
+ * Stale Answers
+ *
+ * Flags project rows and quick-question answers as "possibly stale" when a
+ * skill they were generated from has changed since. Answers record the skill
+ * version they used, so an answer is stale when the skill's current version is
+ * newer. Answers from before skill versions existed fall back to comparing the
+ * skill's last refresh with when the answer was generated.
+ *
+ * The check both sets and clears flags, so re-answering a row (which records
+ * the new versions) is enough to clear it. It runs periodically, shortly after
+ * a skill changes, and whenever a project's stale rows are listed.
+ */
+
+// How often the full check runs in the background
+const STALE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+// Delay after a skill change before checking, so bulk edits trigger one run
+const STALE_CHECK_DEBOUNCE_MS = 30 * 1000;
+
+// Answers loaded per query while scanning
+const SCAN_BATCH_SIZE = 500;
+
+export type SkillState = {
+  id: string;
+  title: string;
+  version: number;
+  // When the skill's content last changed (null if never since creation)
+  changedAt: Date | null;
+};
+
+type StaleFields = {
+  possiblyStale: boolean;
+  staleSkills: Prisma.JsonValue | null;
+};
+
+type StaleUpdate = {
+  possiblyStale: boolean;
+  staleSkills: Prisma.InputJsonValue | typeof Prisma.JsonNull;
+  staleDetectedAt?: Date | null;
+};
+
+export type StaleCheckResult = {
+  checked: number;
+  flagged: number;
+  cleared: number;
+};
+
+/**
+ * Skills that changed after an answer was generated from them
+ */
+export function findStaleSkills(
+  usedSkills: unknown,
+  answeredAt: Date,
+  skills: Map<string, SkillState>
+): StaleSkillRef[] {
+  if (!Array.isArray(usedSkills)) return [];
+
+  const stale: StaleSkillRef[] = [];
+  const seen = new Set<string>();
+  for (const used of usedSkills) {
+    const id = typeof used === "string" ? used : (used as { id?: unknown })?.id;
+    if (typeof id !== "string" || seen.has(id)) continue;
+    seen.add(id);
+
+    const skill = skills.get(id);
+    if (!skill) continue;
+
+    const answeredVersion = typeof used === "object" && typeof used.version === "number" ? used.version : undefined;
+    const isStale = answeredVersion !== undefined
+      ? skill.version > answeredVersion
+      : skill.changedAt !== null && skill.changedAt > answeredAt;
+    if (isStale) {
+      stale.push({
+        id,
+        title: skill.title,
+        ...(answeredVersion !== undefined && { answeredVersion }),
+        currentVersion: skill.version,
+        ...(skill.changedAt && { changedAt: skill.changedAt.toISOString() }),
+      });
+    }
+  }
+  return stale;
+}
+
+/**
+ * The update that brings an answer's stale flag in line with its stale skills,
+ * or null if nothing changed
+ */
+export function getStaleUpdate(current: StaleFields, stale: StaleSkillRef[]): StaleUpdate | null {
+  const possiblyStale = stale.length > 0;
+  const unchanged = current.possiblyStale === possiblyStale
+    && JSON.stringify(current.staleSkills ?? null) === JSON.stringify(possiblyStale ? stale : null);
+  if (unchanged) return null;
+
+  return {
+    possiblyStale,
+    staleSkills: possiblyStale ? (stale as Prisma.InputJsonValue) : Prisma.JsonNull,
+    // Keep the first detection time while the answer stays stale
+    ...(!possiblyStale ? { staleDetectedAt: null } : !current.possiblyStale && { staleDetectedAt: new Date() }),
+  };
+}
+
+/**
+ * Clears the stale flag; used when an answer is regenerated
+ */
+export const CLEAR_STALE_DATA = {
+  possiblyStale: false,
+  staleSkills: Prisma.JsonNull,
+  staleDetectedAt: null,
+} as const;
+
+/**
+ * Current version and last content change of every skill
+ */
+export async function loadSkillStates(): Promise<Map<string, SkillState>> {
+  const skills = await prisma.skill.findMany({
+    select: {
+      id: true,
+      title: true,
+      version: true,
+      lastRefreshedAt: true,
+      versions: { orderBy: { version: "desc" }, take: 1, select: { version: true, createdAt: true } },
+    },
+  });
+
+  return new Map(
+    skills.map((skill) => {
+      // Version 1 snapshots of existing skills were backfilled, so their dates say nothing
+      const latest = skill.versions[0];
+      const versionChangedAt = latest && latest.version > 1 ? latest.createdAt : null;
+      const changedAt = [versionChangedAt, skill.lastRefreshedAt]
+        .filter((date): date is Date => date !== null)
+        .sort((a, b) => b.getTime() - a.getTime())[0] ?? null;
+      return [skill.id, { id: skill.id, title: skill.title, version: skill.version, changedAt }];
+    })
+  );
+}
+
+async function checkProjectRows(
+  skills: Map<string, SkillState>,
+  projectId: string | undefined,
+  result: StaleCheckResult
+): Promise<void> {
+  let cursor: string | undefined;
+  for (;;) {
+    const rows = await prisma.bulkRow.findMany({
+      where: {
+        ...(projectId && { projectId }),
+        status: "COMPLETED",
+        usedSkills: { not: Prisma.AnyNull },
+      },
+      select: { id: true, usedSkills: true, answeredAt: true, createdAt: true, possiblyStale: true, staleSkills: true },
+      orderBy: { id: "asc" },
+      take: SCAN_BATCH_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+
+    for (const row of rows) {
+      // Rows are created on upload and answered later; older rows only have the upload time
+      const answeredAt = row.answeredAt ?? row.createdAt;
+      const update = getStaleUpdate(row, findStaleSkills(row.usedSkills, answeredAt, skills));
+      if (update) {
+        await prisma.bulkRow.update({ where: { id: row.id }, data: update });
+        if (update.possiblyStale) result.flagged++;
+        else result.cleared++;
+      }
+    }
+    result.checked += rows.length;
+
+    if (rows.length < SCAN_BATCH_SIZE) return;
+    cursor = rows[rows.length - 1].id;
+  }
+}
+
+async function checkQuestionHistory(skills: Map<string, SkillState>, result: StaleCheckResult): Promise<void> {
+  let cursor: string | undefined;
+  for (;;) {
+    const entries = await prisma.questionHistory.findMany({
+      where: { skillsUsed: { not: Prisma.AnyNull } },
+      select: { id: true, skillsUsed: true, createdAt: true, possiblyStale: true, staleSkills: true },
+      orderBy: { id: "asc" },
+      take: SCAN_BATCH_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+
+    for (const entry of entries) {
+      const update = getStaleUpdate(entry, findStaleSkills(entry.skillsUsed, entry.createdAt, skills));
+      if (update) {
+        await prisma.questionHistory.update({ where: { id: entry.id }, data: update });
+        if (update.possiblyStale) result.flagged++;
+        else result.cleared++;
+      }
+    }
+    result.checked += entries.length;
+
+    if (entries.length < SCAN_BATCH_SIZE) return;
+    cursor = entries[entries.length - 1].id;
+  }
+}
+
+/**
+ * Re-evaluate stale flags on answered project rows and quick questions.
+ * With a projectId only that project's rows are checked.
+ */
+export async function checkStaleAnswers(options: { projectId?: string } = {}): Promise<StaleCheckResult> {
+  const skills = await loadSkillStates();
+  const result: StaleCheckResult = { checked: 0, flagged: 0, cleared: 0 };
+
+  await checkProjectRows(skills, options.projectId, result);
+  if (!options.projectId) {
+    await checkQuestionHistory(skills, result);
+  }
+
+  if (result.flagged > 0 || result.cleared > 0) {
+    logger.info("Stale answer check completed", { ...result, projectId: options.projectId });
+  }
+  return result;
+}
+
+function runCheck(): void {
+  checkStaleAnswers().catch((error) => {
+    logger.error("Stale answer check failed", error);
+  });
+}
+
+let checkTimer: ReturnType<typeof setInterval> | null = null;
+let pendingCheck: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Start the periodic stale-answer check. Safe to call more than once.
+ * Called from instrumentation on server startup.
+ */
+export function startStaleAnswerScheduler(): void {
+  if (checkTimer) return;
+  checkTimer = setInterval(runCheck, STALE_CHECK_INTERVAL_MS);
+}
+
+/**
+ * Check soon after a skill's content changed. Repeated calls within the
+ * debounce window collapse into one run.
+ */
+export function scheduleStaleAnswerCheck(): void {
+  if (pendingCheck) clearTimeout(pendingCheck);
+  pendingCheck = setTimeout(() => {
+    pendingCheck = null;
+    runCheck();
+  }, STALE_CHECK_DEBOUNCE_MS);
+}
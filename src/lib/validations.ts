@@ -73,6 +73,30 @@ export const updateSkillSchema = z.object({
   lastRefreshedAt: z.string().optional(),
 });
 
+// Restore an earlier SkillVersion
+export const rollbackSkillSchema = z.object({
+  version: z.number().int().min(1),
+});
+
+// Start a knowledge gap report over the last N days of answers
+export const createGapReportSchema = z.object({
+  days: z.number().int().min(7).max(365).optional(),
+});
+
+// Review a pending scheduled-refresh draft (title/content may be edited before applying)
+export const reviewRefreshDraftSchema = z.object({
+  status: z.enum(["APPLIED", "DISMISSED"]),
+  title: z.string().min(1).max(500).optional(),
+  content: z.string().min(1).max(100000).optional(),
+});
+
+export const reviewSkillProposalSchema = z.object({
+  status: z.enum(["ACCEPTED", "REJECTED"]),
+  title: z.string().min(1).max(500).optional(),
+  content: z.string().min(1).max(100000).optional(),
+  note: z.string().max(2000).optional(),
+});
+
 // Customer profile source URL schema - supports both string and object formats
 const customerSourceUrlSchema = z.union([
   z.string().url(),
@@ -162,8 +186,32 @@ const usedSkillSchema = z.union([
   z.object({ id: z.string(), title: z.string() }),
 ]);
 
+// Position of a question in an uploaded .docx questionnaire
+const documentLocationSchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("table"),
+    block: z.number().int().min(0),
+    row: z.number().int().min(0),
+    questionCell: z.number().int().min(0),
+    answerCell: z.number().int().min(0).nullable(),
+    commentCell: z.number().int().min(0).nullable(),
+    label: z.string().max(200),
+  }),
+  z.object({
+    kind: z.literal("item"),
+    block: z.number().int().min(0),
+    label: z.string().max(200),
+  }),
+]);
+
 const projectRowSchema = z.object({
   rowNumber: z.number().int().min(1),
+  sourceTab: z.string().max(200).optional(),
+  sourceRowNumber: z.number().int().min(1).optional(),
+  sourceLocation: documentLocationSchema.optional(),
+  section: z.string().max(500).optional(),
+  sectionPath: z.array(z.string().max(500)).max(10).optional(),
+  questionId: z.string().max(100).optional(),
   question: z.string().min(1, "Question is required"),
   response: z.string().optional(),
   status: z.string().optional(),
@@ -179,6 +227,19 @@ const projectRowSchema = z.object({
 });
 
 // Project schemas
+// Project sharing (stored in BulkProject.visibility / assignedUsers)
+export const projectVisibilitySchema = z.enum(["PRIVATE", "TEAM", "ORG"]);
+
+export const projectCollaboratorSchema = z.object({
+  userId: z.string().min(1),
+  role: z.enum(["EDITOR", "REVIEWER", "VIEWER"]),
+});
+
+export const updateProjectCollaboratorsSchema = z.object({
+  visibility: projectVisibilitySchema.optional(),
+  collaborators: z.array(projectCollaboratorSchema).max(200).optional(),
+});
+
 export const createProjectSchema = z.object({
   name: z.string().min(1, "Name is required").max(300),
   sheetName: z.string().min(1, "Sheet name is required").max(200),
@@ -189,10 +250,241 @@ export const createProjectSchema = z.object({
   customerName: z.string().max(200).optional(),
   notes: z.string().max(10000).optional(),
   status: z.string().optional(),
+  visibility: projectVisibilitySchema.optional(),
+  collaborators: z.array(projectCollaboratorSchema).max(200).optional(),
 });
 
 export const updateProjectSchema = createProjectSchema.partial();
 
+// Project job schemas (server-side bulk answering)
+export const createAnswerJobSchema = z.object({
+  prompt: z.string().max(100000).optional(),
+  mode: z.enum(["single", "bulk"]).optional(),
+  domains: z.array(z.enum(["technical", "legal", "security"])).optional(),
+  // Quick mode uses Haiku for faster responses (2-5s vs 10-30s)
+  quickMode: z.boolean().optional(),
+  routeReviews: z.boolean().optional(),
+  staleOnly: z.boolean().optional(),
+});
+
+// Original workbook mapping (answers are written back into these columns on export)
+export const sourceSheetMappingSchema = z.object({
+  sheetName: z.string().min(1).max(200),
+  columns: z.array(z.string().max(500)).max(500),
+  firstColumn: z.number().int().min(0),
+  headerRow: z.number().int().min(1),
+  questionColumn: z.number().int().min(0),
+  answerColumn: z.number().int().min(0).nullable().optional(),
+  commentColumn: z.number().int().min(0).nullable().optional(),
+});
+
+export const updateSourceFileSchema = z.object({
+  sheetMappings: z.array(sourceSheetMappingSchema).min(1),
+});
+
+// Reuse a previously approved answer for a project row
+export const usePriorAnswerSchema = z.object({
+  sourceType: z.enum(["project", "question"]),
+  sourceId: z.string().min(1, "sourceId is required"),
+});
+
+// Lock or unlock a project's answers (or a single row); unlocking must say why
+export const lockAnswersSchema = z.object({
+  reason: z.string().trim().max(1000).optional(),
+});
+
+export const unlockAnswersSchema = z.object({
+  reason: z.string().trim().min(1, "A reason is required to unlock").max(1000),
+});
+
+// Assign a reviewer to a project section (optionally queueing its rows for review)
+export const assignSectionReviewerSchema = z.object({
+  reviewerId: z.string().nullable(),
+  reviewerName: z.string().max(200).nullable().optional(),
+  queueRows: z.boolean().optional(),
+  note: z.string().max(2000).optional(),
+});
+
+// Comment schemas (threads on project rows, quick questions and collateral)
+export const createCommentSchema = z.object({
+  targetType: z.enum(["row", "question", "collateral"]),
+  targetId: z.string().min(1),
+  content: z.string().trim().min(1, "Comment is required").max(10000),
+  parentId: z.string().optional(),
+});
+
+export const updateCommentSchema = z.object({
+  content: z.string().trim().min(1).max(10000).optional(),
+  resolved: z.boolean().optional(),
+}).refine((update) => update.content !== undefined || update.resolved !== undefined, {
+  message: "Nothing to update",
+});
+
+// Notification schemas
+export const markNotificationsSchema = z.object({
+  ids: z.array(z.string().min(1)).max(500).optional(), // Omitted = all of the user's notifications
+  read: z.boolean().default(true),
+});
+
+export const notificationSettingsSchema = z.object({
+  muted: z.array(z.enum([
+    "REVIEW_REQUESTED",
+    "REVIEW_ASSIGNED",
+    "FLAG_RAISED",
+    "FLAG_RESOLVED",
+    "PRESET_APPROVED",
+    "PRESET_REJECTED",
+    "SKILL_REFRESH_READY",
+    "COMMENT_MENTION",
+  ])).default([]),
+  digest: z.enum(["off", "daily", "weekly"]).default("off"),
+});
+
+// Review routing rule schemas
+export const createReviewRoutingRuleSchema = z.object({
+  name: z.string().min(1, "Name is required").max(200),
+  categoryId: z.string().nullable().optional(),
+  keywords: z.array(z.string().min(1).max(100)).max(50).optional(),
+  reviewerId: z.string().min(1, "Reviewer is required"),
+  reviewerName: z.string().max(200).nullable().optional(),
+  priority: z.number().int().min(0).max(1000).optional(),
+  isActive: z.boolean().optional(),
+}).refine((rule) => Boolean(rule.categoryId) || (rule.keywords?.length ?? 0) > 0, {
+  message: "A rule needs a category or at least one keyword",
+});
+
+export const updateReviewRoutingRuleSchema = z.object({
+  name: z.string().min(1).max(200).optional(),
+  categoryId: z.string().nullable().optional(),
+  keywords: z.array(z.string().min(1).max(100)).max(50).optional(),
+  reviewerId: z.string().min(1).optional(),
+  reviewerName: z.string().max(200).nullable().optional(),
+  priority: z.number().int().min(0).max(1000).optional(),
+  isActive: z.boolean().optional(),
+});
+
+// Template fill context (customer, GTM, skills and custom values for placeholders)
+export const templateFillContextSchema = z.object({
+  customer: z
+    .object({
+      id: z.string(),
+      name: z.string(),
+      industry: z.string().optional(),
+      region: z.string().optional(),
+      tier: z.string().optional(),
+      content: z.string().optional(),
+      considerations: z.array(z.string()).optional(),
+    })
+    .passthrough()
+    .optional(),
+  gtm: z
+    .object({
+      gongCalls: z
+        .array(
+          z.object({
+            id: z.string(),
+            title: z.string(),
+            date: z.string(),
+            summary: z.string().optional(),
+            participants: z.array(z.string()),
+          })
+        )
+        .optional(),
+      hubspotActivities: z
+        .array(
+          z.object({
+            id: z.string(),
+            type: z.string(),
+            date: z.string(),
+            subject: z.string(),
+            content: z.string().optional(),
+          })
+        )
+        .optional(),
+      lookerMetrics: z
+        .array(
+          z.object({
+            period: z.string(),
+            metrics: z.record(z.string(), z.union([z.string(), z.number()])),
+          })
+        )
+        .optional(),
+    })
+    .optional(),
+  skills: z
+    .array(
+      z.object({
+        id: z.string(),
+        title: z.string(),
+        content: z.string(),
+      })
+    )
+    .optional(),
+  custom: z.record(z.string(), z.string()).optional(),
+});
+
+// Google Slides fill schema (copy a deck and replace {{placeholder}} text)
+export const googleSlidesFillSchema = z.object({
+  presentationId: z.string().min(1, "presentationId is required").max(200),
+  replacements: z.array(z.object({
+    placeholder: z.string().min(1).max(500),
+    value: z.string().max(100000),
+  })).max(500).optional(),
+  // Resolve remaining placeholders from this context via the template engine
+  context: templateFillContextSchema.optional(),
+  copyFirst: z.boolean().optional().default(true),
+  copyTitle: z.string().max(500).optional(),
+  // Record the filled deck on this collateral output
+  collateralOutputId: z.string().uuid().optional(),
+});
+
+// Snowflake GTM table/column mappings (unquoted identifiers; "" leaves an optional field unmapped)
+const snowflakeIdentifier = z.string().max(255).regex(/^([A-Za-z_][A-Za-z0-9_$]*)?$/, "Invalid column name");
+const snowflakeTable = z
+  .string()
+  .min(1, "table is required")
+  .max(255)
+  .regex(/^[A-Za-z_][A-Za-z0-9_$]*(\.[A-Za-z_][A-Za-z0-9_$]*){0,2}$/, "Invalid table name");
+
+export const snowflakeGtmMappingsSchema = z.object({
+  gongCalls: z.object({
+    table: snowflakeTable,
+    columns: z.object({
+      accountId: snowflakeIdentifier.min(1),
+      id: snowflakeIdentifier.min(1),
+      title: snowflakeIdentifier.min(1),
+      date: snowflakeIdentifier.min(1),
+      duration: snowflakeIdentifier,
+      participants: snowflakeIdentifier,
+      transcript: snowflakeIdentifier,
+      summary: snowflakeIdentifier,
+      sentiment: snowflakeIdentifier,
+      topics: snowflakeIdentifier,
+    }),
+  }),
+  hubspotActivities: z.object({
+    table: snowflakeTable,
+    columns: z.object({
+      accountId: snowflakeIdentifier.min(1),
+      id: snowflakeIdentifier.min(1),
+      type: snowflakeIdentifier,
+      date: snowflakeIdentifier.min(1),
+      subject: snowflakeIdentifier.min(1),
+      content: snowflakeIdentifier,
+      associatedDeal: snowflakeIdentifier,
+      owner: snowflakeIdentifier,
+    }),
+  }),
+  lookerMetrics: z.object({
+    table: snowflakeTable,
+    columns: z.object({
+      accountId: snowflakeIdentifier.min(1),
+      period: snowflakeIdentifier.min(1),
+    }),
+    metricColumns: z.array(snowflakeIdentifier.min(1)).max(100).default([]),
+  }),
+});
+
 // Document schemas
 export const createDocumentSchema = z.object({
   title: z.string().min(1, "Title is required").max(500),
@@ -358,6 +650,8 @@ export const knowledgeChatSchema = z.object({
   quickMode: z.boolean().optional(),
   // GTM data from Snowflake (Gong, HubSpot, Looker)
   gtmData: gtmDataContextSchema.optional(),
+  // Stream the response as server-sent events instead of a single JSON payload
+  stream: z.boolean().optional(),
 });
 
 // Legacy chat message schema (for other uses)
@@ -0,0 +1,365 @@
+import JSZip from "jszip";
+import type { SourceSheetMapping } from "@/types/bulkProject";
+
+/**
+ * Fill an Existing Workbook
+ *
+ * Writes answers into a copy of the customer's original .xlsx. Only the target
+ * cells in the worksheet XML are rewritten; styles, data validation, merged
+ * cells, other tabs and everything else in the package are left byte-for-byte
+ * as uploaded. (Round-tripping through a spreadsheet library would drop most
+ * formatting.)
+ *
+ * Values are written as inline strings and keep the existing cell's style.
+ */
+
+export type CellFill = {
+  row: number; // 1-based sheet row
+  column: number; // 0-based sheet column (A = 0)
+  value: string;
+};
+
+export type SheetFill = {
+  sheetName: string;
+  cells: CellFill[];
+};
+
+export type FillResult = {
+  data: Buffer;
+  filledCells: number;
+  missingSheets: string[]; // Mapped tabs that no longer exist in the workbook
+};
+
+export type FillableRow = {
+  rowNumber: number;
+  sourceTab?: string | null;
+  sourceRowNumber?: number | null;
+  response: string;
+  remarks?: string | null;
+};
+
+// Excel's limit on characters in a single cell
+const MAX_CELL_CHARS = 32767;
+
+const WORKBOOK_PATH = "xl/workbook.xml";
+const WORKBOOK_RELS_PATH = "xl/_rels/workbook.xml.rels";
+const CONTENT_TYPES_PATH = "[Content_Types].xml";
+const CALC_CHAIN_PATH = "xl/calcChain.xml";
+
+// ============================================
+// ROW MAPPING
+// ============================================
+
+/**
+ * Build the cells to write for each mapped tab: the answer into the answer
+ * column and remarks into the comment column. Rows without an answer are skipped
+ * so the customer's existing cell content is kept.
+ */
+export function buildSheetFills(rows: FillableRow[], mappings: SourceSheetMapping[]): SheetFill[] {
+  // Legacy single-tab projects didn't record the source tab on each row
+  const defaultSheet = mappings.length === 1 ? mappings[0].sheetName : undefined;
+
+  return mappings
+    .filter((mapping) => mapping.answerColumn != null || mapping.commentColumn != null)
+    .map((mapping) => {
+      const cells: CellFill[] = [];
+      for (const row of rows) {
+        if ((row.sourceTab || defaultSheet) !== mapping.sheetName) continue;
+        if (!row.response?.trim()) continue;
+
+        const sheetRow = row.sourceRowNumber ?? row.rowNumber;
+        if (mapping.answerColumn != null) {
+          cells.push({ row: sheetRow, column: mapping.answerColumn, value: row.response });
+        }
+        if (mapping.commentColumn != null && row.remarks?.trim()) {
+          cells.push({ row: sheetRow, column: mapping.commentColumn, value: row.remarks });
+        }
+      }
+      return { sheetName: mapping.sheetName, cells };
+    })
+    .filter((fill) => fill.cells.length > 0);
+}
+
+// ============================================
+// CELL REFERENCES
+// ============================================
+
+function columnToLetters(column: number): string {
+  let letters = "";
+  let n = column + 1;
+  while (n > 0) {
+    const remainder = (n - 1) % 26;
+    letters = String.fromCharCode(65 + remainder) + letters;
+    n = Math.floor((n - 1) / 26);
+  }
+  return letters;
+}
+
+function lettersToColumn(letters: string): number {
+  let n = 0;
+  for (const char of letters.toUpperCase()) {
+    n = n * 26 + (char.charCodeAt(0) - 64);
+  }
+  return n - 1;
+}
+
+function parseCellRef(ref: string): { row: number; column: number } | null {
+  const match = /^\$?([A-Za-z]+)\$?(\d+)$/.exec(ref);
+  if (!match) return null;
+  return { column: lettersToColumn(match[1]), row: parseInt(match[2], 10) };
+}
+
+// ============================================
+// XML HELPERS
+// ============================================
+
+function escapeXml(value: string): string {
+  return value
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+function unescapeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function getAttr(attrs: string, name: string): string | undefined {
+  const match = new RegExp(`(?:^|\\s)${name}\\s*=\\s*("([^"]*)"|'([^']*)')`).exec(attrs);
+  return match ? (match[2] ?? match[3]) : undefined;
+}
+
+function removeAttr(attrs: string, name: string): string {
+  return attrs.replace(new RegExp(`\\s${name}\\s*=\\s*("[^"]*"|'[^']*')`, "g"), "");
+}
+
+// ============================================
+// WORKSHEET PATCHING
+// ============================================
+
+type ParsedCell = { column: number; xml: string };
+type ParsedRow = { row: number; attrs: string; cells: ParsedCell[] | null; xml: string };
+
+/**
+ * Write values into a worksheet's XML, keeping every other element as-is.
+ * Returns the new XML and whether a formula cell was overwritten.
+ */
+export function patchSheetXml(xml: string, cells: CellFill[]): { xml: string; replacedFormula: boolean } {
+  const sheetDataMatch = /<((?:[\w.-]+:)?)sheetData\b([^>]*?)(\/>|>([\s\S]*?)<\/\1sheetData>)/.exec(xml);
+  if (!sheetDataMatch || cells.length === 0) {
+    return { xml, replacedFormula: false };
+  }
+
+  const prefix = sheetDataMatch[1];
+  const body = sheetDataMatch[4] ?? "";
+  let replacedFormula = false;
+
+  // Column default styles, so new cells look like the rest of their column
+  const columnStyles: { min: number; max: number; style: string }[] = [];
+  for (const match of xml.matchAll(new RegExp(`<${prefix}col\\b([^>]*?)/?>`, "g"))) {
+    const style = getAttr(match[1], "style");
+    const min = parseInt(getAttr(match[1], "min") || "", 10);
+    const max = parseInt(getAttr(match[1], "max") || "", 10);
+    if (style && Number.isFinite(min) && Number.isFinite(max)) {
+      columnStyles.push({ min: min - 1, max: max - 1, style });
+    }
+  }
+
+  // Parse rows; rows without an r attribute follow the previous row
+  const rows: ParsedRow[] = [];
+  const rowPattern = new RegExp(`<${prefix}row\\b([^>]*?)(?:/>|>([\\s\\S]*?)</${prefix}row>)`, "g");
+  let previousRow = 0;
+  for (const match of body.matchAll(rowPattern)) {
+    const r = parseInt(getAttr(match[1], "r") || "", 10);
+    const rowNumber = Number.isFinite(r) ? r : previousRow + 1;
+    previousRow = rowNumber;
+    rows.push({ row: rowNumber, attrs: match[1], cells: null, xml: match[0] });
+  }
+
+  const cellPattern = new RegExp(`<${prefix}c\\b([^>]*?)(?:/>|>([\\s\\S]*?)</${prefix}c>)`, "g");
+  const parseCells = (row: ParsedRow): ParsedCell[] => {
+    const content = /^<[^>]*?\/>$/.test(row.xml) ? "" : row.xml.slice(row.xml.indexOf(">") + 1);
+    const parsed: ParsedCell[] = [];
+    let previousColumn = -1;
+    for (const match of content.matchAll(cellPattern)) {
+      const ref = parseCellRef(getAttr(match[1], "r") || "");
+      const column = ref ? ref.column : previousColumn + 1;
+      previousColumn = column;
+      parsed.push({ column, xml: match[0] });
+    }
+    return parsed;
+  };
+
+  // Later fills for the same cell win
+  const byRow = new Map<number, Map<number, string>>();
+  for (const cell of cells) {
+    if (cell.row < 1 || cell.column < 0) continue;
+    if (!byRow.has(cell.row)) byRow.set(cell.row, new Map());
+    byRow.get(cell.row)!.set(cell.column, cell.value);
+  }
+
+  for (const [rowNumber, values] of byRow) {
+    let row = rows.find((r) => r.row === rowNumber);
+    if (!row) {
+      row = { row: rowNumber, attrs: ` r="${rowNumber}"`, cells: [], xml: "" };
+      const insertAt = rows.findIndex((r) => r.row > rowNumber);
+      rows.splice(insertAt === -1 ? rows.length : insertAt, 0, row);
+    }
+    if (!row.cells) row.cells = parseCells(row);
+
+    for (const [column, value] of values) {
+      const existing = row.cells.find((c) => c.column === column);
+      const openTag = existing ? /^<[^>]*>/.exec(existing.xml)![0] : "";
+      const rowStyle = getAttr(row.attrs, "customFormat") === "1" ? getAttr(row.attrs, "s") : undefined;
+      const style = existing
+        ? getAttr(openTag, "s")
+        : rowStyle ?? columnStyles.find((c) => column >= c.min && column <= c.max)?.style;
+      if (existing && new RegExp(`<${prefix}f\\b`).test(existing.xml)) {
+        replacedFormula = true;
+      }
+
+      const text = escapeXml(value.slice(0, MAX_CELL_CHARS));
+      const ref = `${columnToLetters(column)}${rowNumber}`;
+      const cellXml =
+        `<${prefix}c r="${ref}"${style !== undefined ? ` s="${style}"` : ""} t="inlineStr">` +
+        `<${prefix}is><${prefix}t xml:space="preserve">${text}</${prefix}t></${prefix}is></${prefix}c>`;
+
+      if (existing) {
+        existing.xml = cellXml;
+      } else {
+        const insertAt = row.cells.findIndex((c) => c.column > column);
+        row.cells.splice(insertAt === -1 ? row.cells.length : insertAt, 0, { column, xml: cellXml });
+      }
+    }
+
+    // spans is only an optimization hint and may no longer be accurate
+    row.attrs = removeAttr(row.attrs, "spans");
+    if (!getAttr(row.attrs, "r")) row.attrs = ` r="${rowNumber}"${row.attrs}`;
+    row.xml = `<${prefix}row${row.attrs}>${row.cells.map((c) => c.xml).join("")}</${prefix}row>`;
+  }
+
+  const newSheetData =
+    `<${prefix}sheetData${sheetDataMatch[2]}>${rows.map((r) => r.xml).join("")}</${prefix}sheetData>`;
+  let patched =
+    xml.slice(0, sheetDataMatch.index) + newSheetData + xml.slice(sheetDataMatch.index + sheetDataMatch[0].length);
+
+  patched = expandDimension(patched, prefix, cells);
+  return { xml: patched, replacedFormula };
+}
+
+/**
+ * Grow the <dimension> range to include written cells
+ */
+function expandDimension(xml: string, prefix: string, cells: CellFill[]): string {
+  const pattern = new RegExp(`(<${prefix}dimension\\b[^>]*?\\sref=")([^"]*)(")`);
+  const match = pattern.exec(xml);
+  if (!match) return xml;
+
+  const [start, end = start] = match[2].split(":");
+  const from = parseCellRef(start);
+  const to = parseCellRef(end);
+  if (!from || !to) return xml;
+
+  let maxRow = to.row;
+  let maxColumn = to.column;
+  for (const cell of cells) {
+    maxRow = Math.max(maxRow, cell.row);
+    maxColumn = Math.max(maxColumn, cell.column);
+  }
+  const ref = `${columnToLetters(from.column)}${from.row}:${columnToLetters(maxColumn)}${maxRow}`;
+  return xml.replace(pattern, `$1${ref}$3`);
+}
+
+// ============================================
+// WORKBOOK
+// ============================================
+
+/**
+ * Map worksheet names to their XML paths inside the package
+ */
+async function resolveSheetPaths(zip: JSZip): Promise<Map<string, string>> {
+  const workbookXml = await zip.file(WORKBOOK_PATH)?.async("string");
+  const relsXml = await zip.file(WORKBOOK_RELS_PATH)?.async("string");
+  if (!workbookXml || !relsXml) {
+    throw new Error("Not a valid .xlsx workbook");
+  }
+
+  const targets = new Map<string, string>();
+  for (const match of relsXml.matchAll(/<(?:[\w.-]+:)?Relationship\b([^>]*?)\/?>/g)) {
+    const id = getAttr(match[1], "Id");
+    const target = getAttr(match[1], "Target");
+    if (id && target) targets.set(id, target);
+  }
+
+  const paths = new Map<string, string>();
+  for (const match of workbookXml.matchAll(/<(?:[\w.-]+:)?sheet\b([^>]*?)\/?>/g)) {
+    const name = getAttr(match[1], "name");
+    const relId = getAttr(match[1], "r:id") ?? /\s[\w.-]+:id\s*=\s*"([^"]*)"/.exec(match[1])?.[1];
+    const target = relId ? targets.get(relId) : undefined;
+    if (!name || !target) continue;
+    const path = target.startsWith("/") ? target.slice(1) : `xl/${target.replace(/^\.\//, "")}`;
+    paths.set(unescapeXml(name), path);
+  }
+  return paths;
+}
+
+/**
+ * Drop the calculation chain after overwriting formula cells; Excel rebuilds it
+ * on open and would otherwise report the file as needing repair.
+ */
+async function removeCalcChain(zip: JSZip): Promise<void> {
+  if (!zip.file(CALC_CHAIN_PATH)) return;
+  zip.remove(CALC_CHAIN_PATH);
+
+  const rels = await zip.file(WORKBOOK_RELS_PATH)?.async("string");
+  if (rels) {
+    zip.file(WORKBOOK_RELS_PATH, rels.replace(/<(?:[\w.-]+:)?Relationship\b[^>]*?Target="[^"]*calcChain\.xml"[^>]*?\/>/g, ""));
+  }
+  const contentTypes = await zip.file(CONTENT_TYPES_PATH)?.async("string");
+  if (contentTypes) {
+    zip.file(CONTENT_TYPES_PATH, contentTypes.replace(/<Override\b[^>]*?PartName="\/xl\/calcChain\.xml"[^>]*?\/>/g, ""));
+  }
+}
+
+/**
+ * Write cell values into a copy of an .xlsx file
+ */
+export async function fillWorkbook(
+  source: Buffer | Uint8Array | ArrayBuffer,
+  fills: SheetFill[]
+): Promise<FillResult> {
+  const zip = await JSZip.loadAsync(source);
+  const sheetPaths = await resolveSheetPaths(zip);
+
+  const missingSheets: string[] = [];
+  let filledCells = 0;
+  let replacedFormula = false;
+
+  for (const fill of fills) {
+    const path = sheetPaths.get(fill.sheetName);
+    const sheetXml = path ? await zip.file(path)?.async("string") : undefined;
+    if (!path || sheetXml === undefined) {
+      missingSheets.push(fill.sheetName);
+      continue;
+    }
+
+    const patched = patchSheetXml(sheetXml, fill.cells);
+    zip.file(path, patched.xml);
+    filledCells += fill.cells.length;
+    replacedFormula = replacedFormula || patched.replacedFormula;
+  }
+
+  if (replacedFormula) {
+    await removeCalcChain(zip);
+  }
+
+  const data = await zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+  return { data, filledCells, missingSheets };
+}
@@ -95,7 +95,7 @@ export type PlanningMode =
   | { type: "normal" }  // Standard add knowledge flow
   | { type: "merge"; skillIds: string[] }  // Merge existing skills
   | { type: "split"; skillId: string }  // Split a skill into multiple
-  | { type: "gap"; topic: string };  // Fill a gap with new skill
+  | { type: "gap"; topic: string; questions?: string[] };  // Fill a gap with new skill (questions from a gap report)
 
 // Planning conversation message
 export type PlanningMessage = {
@@ -50,6 +50,9 @@ interface ChatState {
   // Actions
   setMessages: (messages: ChatMessage[]) => void;
   addMessage: (message: ChatMessage) => void;
+  updateMessage: (messageId: string, updates: Partial<ChatMessage>) => void;
+  appendToMessage: (messageId: string, text: string) => void;
+  removeMessage: (messageId: string) => void;
   updateMessageFeedback: (messageId: string, feedback: ChatMessage["feedback"]) => void;
   setIsLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
@@ -78,6 +81,22 @@ export const useChatStore = create<ChatState>((set) => ({
   setMessages: (messages) => set({ messages }),
   addMessage: (message) =>
     set((state) => ({ messages: [...state.messages, message] })),
+  updateMessage: (messageId, updates) =>
+    set((state) => ({
+      messages: state.messages.map((msg) =>
+        msg.id === messageId ? { ...msg, ...updates } : msg
+      ),
+    })),
+  appendToMessage: (messageId, text) =>
+    set((state) => ({
+      messages: state.messages.map((msg) =>
+        msg.id === messageId ? { ...msg, content: msg.content + text } : msg
+      ),
+    })),
+  removeMessage: (messageId) =>
+    set((state) => ({
+      messages: state.messages.filter((msg) => msg.id !== messageId),
+    })),
   updateMessageFeedback: (messageId, feedback) =>
     set((state) => ({
       messages: state.messages.map((msg) =>
@@ -1,3 +1,5 @@
+import type { RetrievedSkill, StaleSkillRef } from "@/types/skill";
+
 export type BulkRow = {
   id: string;
   rowNumber: number;
@@ -6,13 +8,19 @@ export type BulkRow = {
   status: "pending" | "generating" | "completed" | "error";
   error?: string;
   sourceTab?: string; // Which Excel tab this row came from (for multi-tab uploads)
+  sourceRowNumber?: number; // 1-based row in the source tab (rowNumber is only unique per project)
+  sourceLocation?: DocumentLocation; // Where the question sits in an uploaded Word document
+  section?: string; // Section heading the question appears under (e.g. "3.2 Access Control")
+  sectionPath?: string[]; // Enclosing headings, outermost first (upload only; becomes project sections)
+  sectionId?: string; // Innermost ProjectSection containing the question
+  questionId?: string; // The customer's own question ID (e.g. "CC6.1")
   conversationHistory?: { role: string; content: string }[];
   confidence?: string;
   sources?: string;
   reasoning?: string; // What skills matched and what was found directly
   inference?: string; // What was inferred/deduced, or "None" if everything was found directly
   remarks?: string;
-  usedSkills?: (string | { id: string; title: string })[]; // Can be Skill objects or string IDs
+  usedSkills?: (string | RetrievedSkill)[]; // Retrieved skills (with scores), or legacy string IDs
   usedFallback?: boolean; // True if answer was generated from reference URLs instead of skills
   showRecommendation?: boolean;
   // Flagging (for self-notes, attention markers - independent of review workflow)
@@ -42,6 +50,17 @@ export type BulkRow = {
   reviewedAt?: string;
   reviewedBy?: string;
   userEditedAnswer?: string;
+  // Answer lock (edits and regeneration are refused; flags still allowed)
+  locked?: boolean;
+  lockedAt?: string;
+  lockedBy?: string;
+  lockReason?: string;
+  // A skill used for the answer changed after it was generated
+  possiblyStale?: boolean;
+  staleSkills?: StaleSkillRef[];
+  staleDetectedAt?: string;
+  // Customer context the answer was generated with
+  usedCustomerContext?: UsedCustomerContext;
   // Legacy fields for conversational refinement
   challengePrompt?: string;
   challengeResponse?: string;
@@ -60,6 +79,12 @@ export type ProjectCustomerProfileRef = {
   industry?: string;
 };
 
+// Customer profiles and documents sent to the LLM with an answer
+export type UsedCustomerContext = {
+  profiles: ProjectCustomerProfileRef[];
+  documents: { id: string; customerId: string; title: string }[];
+};
+
 export type BulkProject = {
   id: string;
   name: string;
@@ -79,6 +104,172 @@ export type BulkProject = {
   reviewRequestedBy?: string;
   reviewedAt?: string;
   reviewedBy?: string;
+  // Answer lock covering every row (taken automatically on finalize)
+  locked?: boolean;
+  lockedAt?: string;
+  lockedBy?: string;
+  lockReason?: string;
   // Linked customer profiles
   customerProfiles?: ProjectCustomerProfileRef[];
+  // Documents of the linked profiles included when answering
+  customerDocumentIds?: string[];
+  // Questionnaire outline captured at upload (flat list, parents before children)
+  sections?: ProjectSection[];
+  // Who besides the owner and collaborators can view the project
+  visibility?: ProjectVisibility;
+  collaborators?: ProjectCollaborator[];
+  // The current user's role on the project (set by GET /api/projects/[id])
+  accessRole?: ProjectRole;
+};
+
+// PRIVATE: owner and collaborators; TEAM: also the owner's SSO groups; ORG: every user
+export type ProjectVisibility = "PRIVATE" | "TEAM" | "ORG";
+
+export type ProjectCollaboratorRole = "EDITOR" | "REVIEWER" | "VIEWER";
+
+// A user's effective role on a project (see lib/projectAccess.ts)
+export type ProjectRole = "OWNER" | ProjectCollaboratorRole;
+
+// Stored in BulkProject.assignedUsers
+export type ProjectCollaborator = {
+  userId: string;
+  role: ProjectCollaboratorRole;
+  // Filled in by GET /api/projects/[id]/collaborators
+  name?: string | null;
+  email?: string | null;
+};
+
+/**
+ * A section of the uploaded questionnaire (e.g. "3.2 Access Control" inside "3 Security").
+ * Rows reference their innermost section via BulkRow.sectionId.
+ */
+export type ProjectSection = {
+  id: string;
+  parentId?: string;
+  title: string;
+  externalId?: string; // Printed section number (e.g. "3.2")
+  sourceTab?: string; // Worksheet the section came from (multi-tab uploads)
+  position: number;
+  assignedReviewerId?: string;
+  assignedReviewerName?: string;
+};
+
+// Server-side background job (e.g. answering all pending rows)
+export type ProjectJobStatus = "QUEUED" | "RUNNING" | "COMPLETED" | "FAILED" | "CANCELLED";
+
+export type ProjectJob = {
+  id: string;
+  projectId: string;
+  type: "ANSWER_ROWS";
+  status: ProjectJobStatus;
+  totalRows: number;
+  processedRows: number;
+  failedRows: number;
+  cursor: number;
+  batchRetries: number;
+  nextRunAt: string;
+  lastError?: string | null;
+  createdById?: string | null;
+  createdByEmail?: string | null;
+  createdAt: string;
+  startedAt?: string | null;
+  completedAt?: string | null;
+};
+
+export type AnswerJobOptions = {
+  prompt?: string;
+  mode?: "single" | "bulk";
+  domains?: string[];
+  quickMode?: boolean;
+  routeReviews?: boolean;
+  staleOnly?: boolean; // Re-answer only rows flagged as possibly stale
+};
+
+/**
+ * A project row whose source skills changed after it was answered
+ * (GET /api/projects/[id]/stale-answers)
+ */
+export type StaleAnswer = {
+  id: string;
+  rowNumber: number;
+  question: string;
+  locked: boolean;
+  staleSkills: StaleSkillRef[];
+  staleDetectedAt?: string;
+};
+
+/**
+ * A previously approved (or corrected) answer that closely matches a row's question.
+ * Sourced from reviewed project rows and reviewed single-question history.
+ */
+export type PriorAnswerMatch = {
+  sourceType: "project" | "question";
+  sourceId: string;
+  question: string;
+  answer: string; // Corrected answer when the reviewer edited it, otherwise the original response
+  confidence?: string | null;
+  sources?: string | null;
+  reviewStatus: "APPROVED" | "CORRECTED";
+  reviewedBy?: string | null;
+  reviewedAt?: string | null;
+  projectId?: string | null;
+  projectName?: string | null;
+  customerName?: string | null;
+  score: number; // 0-1 similarity to the row's question
+};
+
+/**
+ * How a worksheet of the original upload maps to project rows.
+ * Column indexes are 0-based absolute sheet columns (A = 0).
+ */
+export type SourceSheetMapping = {
+  sheetName: string;
+  columns: string[]; // Header labels, starting at firstColumn
+  firstColumn: number;
+  headerRow: number; // 1-based row holding the headers
+  questionColumn: number;
+  answerColumn?: number | null; // Where answers are written on export
+  commentColumn?: number | null; // Where remarks are written on export
+};
+
+/**
+ * Where a question came from in an uploaded .docx questionnaire.
+ * `block` indexes the document outline stored with the source file;
+ * table rows/cells are 0-based.
+ */
+export type DocumentLocation =
+  | {
+      kind: "table";
+      block: number;
+      row: number;
+      questionCell: number;
+      answerCell: number | null; // null: a "Response" column is added on export
+      commentCell: number | null;
+      label: string; // e.g. "Table 2, row 4"
+    }
+  | { kind: "item"; block: number; label: string }; // Numbered question; answer goes below it
+
+/**
+ * A question found in an uploaded .docx or .pdf, before the project is created.
+ * Only .docx questions have a location (PDFs can't be filled on export).
+ */
+export type ParsedDocumentQuestion = {
+  question: string;
+  location?: DocumentLocation;
+  section?: string;
+  sectionPath?: string[]; // Enclosing headings, outermost first (.docx only)
+  questionId?: string;
+};
+
+/**
+ * Metadata for the original file (.xlsx workbook or .docx questionnaire)
+ * stored with a project (file bytes stay on the server)
+ */
+export type ProjectSourceFile = {
+  filename: string;
+  fileType: "xlsx" | "docx";
+  fileSize: number;
+  uploadedBy?: string | null;
+  createdAt: string;
+  sheetMappings: SourceSheetMapping[]; // Empty for .docx files
 };
@@ -0,0 +1,32 @@
+// What a comment thread is attached to
+export type CommentTargetType = "row" | "question" | "collateral";
+
+export type Comment = {
+  id: string;
+  parentId?: string;
+  content: string; // Mentions are written as @[Name](userId)
+  mentions: string[];
+  authorId?: string;
+  authorName?: string;
+  authorEmail?: string;
+  createdAt: string;
+  updatedAt: string;
+  // Not yet seen by the current user
+  unread: boolean;
+};
+
+// A root comment with its replies, oldest first
+export type CommentThread = Comment & {
+  resolved: boolean;
+  resolvedAt?: string;
+  resolvedBy?: string;
+  replies: Comment[];
+};
+
+// Comment totals for one target (e.g. a project row)
+export type CommentCounts = {
+  total: number;
+  unread: number;
+  // Unresolved threads
+  open: number;
+};
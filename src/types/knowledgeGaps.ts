@@ -0,0 +1,41 @@
+// Why a question counts as weakly answered
+export type GapSignal = "lowConfidence" | "noSkills" | "flagged" | "corrected";
+
+export type GapSignalCounts = Record<GapSignal, number>;
+
+export type GapExampleQuestion = {
+  question: string;
+  source: "project" | "question";
+  href: string;
+  projectName?: string;
+  askedAt: string;
+  signals: GapSignal[];
+};
+
+export type KnowledgeGapCluster = {
+  id: string;
+  name: string;
+  description: string;
+  suggestedSkillTitle: string;
+  // Times questions in this cluster were asked (duplicates included)
+  frequency: number;
+  // Distinct questions in the cluster
+  questionCount: number;
+  signals: GapSignalCounts;
+  examples: GapExampleQuestion[];
+};
+
+export type KnowledgeGapReportStatus = "QUEUED" | "RUNNING" | "COMPLETED" | "FAILED" | "CANCELLED";
+
+export type KnowledgeGapReport = {
+  id: string;
+  status: KnowledgeGapReportStatus;
+  periodDays: number;
+  questionCount: number;
+  clusters: KnowledgeGapCluster[] | null;
+  unclustered: number;
+  error: string | null;
+  createdByEmail: string | null;
+  createdAt: string;
+  completedAt: string | null;
+};
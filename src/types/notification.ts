@@ -0,0 +1,44 @@
+// Kinds of in-app notification (matches the NotificationType enum)
+export type NotificationType =
+  | "REVIEW_REQUESTED"
+  | "REVIEW_ASSIGNED"
+  | "FLAG_RAISED"
+  | "FLAG_RESOLVED"
+  | "PRESET_APPROVED"
+  | "PRESET_REJECTED"
+  | "SKILL_REFRESH_READY"
+  | "COMMENT_MENTION"
+  | "DIGEST";
+
+// Types a user can mute (digests are controlled by the digest setting)
+export const NOTIFICATION_TYPE_LABELS: Record<Exclude<NotificationType, "DIGEST">, string> = {
+  REVIEW_REQUESTED: "Review requested",
+  REVIEW_ASSIGNED: "Review assigned to you",
+  FLAG_RAISED: "Answer flagged in your project",
+  FLAG_RESOLVED: "Flag resolved in your project",
+  PRESET_APPROVED: "Instruction preset approved",
+  PRESET_REJECTED: "Instruction preset rejected",
+  SKILL_REFRESH_READY: "Skill refresh draft ready",
+  COMMENT_MENTION: "Mentioned in a comment",
+};
+
+// "off" delivers right away; otherwise notifications are held and summarized
+export type NotificationDigest = "off" | "daily" | "weekly";
+
+export type NotificationPreferences = {
+  muted: NotificationType[];
+  digest: NotificationDigest;
+};
+
+export type UserNotification = {
+  id: string;
+  type: NotificationType;
+  title: string;
+  body?: string;
+  link?: string;
+  actorName?: string;
+  read: boolean;
+  // Held for the next digest (doesn't count as unread)
+  pendingDigest: boolean;
+  createdAt: string;
+};
@@ -36,6 +36,7 @@ export type SourceUrl = {
   title?: string; // User-friendly name for the URL
   addedAt: string;
   lastFetchedAt?: string;
+  contentHash?: string; // Hash of the last fetched content, used by scheduled refresh
 };
 
 // Source document info (for skills built from uploaded documents)
@@ -76,4 +77,39 @@ export type Skill = {
   lastSourceLink?: string; // Deprecated - use sourceUrls instead
   owners?: SkillOwner[]; // Subject matter experts responsible for this skill
   history?: SkillHistoryEntry[]; // Audit trail of changes
+  version?: number; // Current SkillVersion number
+};
+
+// Full snapshot of a skill at one version (GET /api/skills/[id]/versions)
+export type SkillVersionEntry = {
+  id: string;
+  version: number;
+  title: string;
+  content: string;
+  quickFacts?: SkillFact[] | null;
+  edgeCases: string[];
+  categories: string[];
+  action: "created" | "updated" | "refreshed" | "rollback";
+  summary?: string | null;
+  createdAt: string;
+  createdBy?: string | null;
+};
+
+// Skill chosen by retrieval for an answer, with its relevance score and best-matching chunks.
+// Stored on answers (e.g. BulkRow.usedSkills) and shown in TransparencyDetails.
+export type RetrievedSkill = {
+  id: string;
+  title: string;
+  version?: number; // Skill version the answer was generated from
+  score?: number;
+  chunks?: { text: string; score: number }[];
+};
+
+// Skill that changed after an answer using it was generated
+export type StaleSkillRef = {
+  id: string;
+  title: string;
+  answeredVersion?: number; // Missing for answers generated before skill versions existed
+  currentVersion: number;
+  changedAt?: string;
 };
@@ -0,0 +1,175 @@
+// codex: tests for the prior-answer library
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+import type { PriorAnswer } from "@/lib/answerLibrary";
+
+const mockRowFindMany = vi.fn();
+const mockRowFindFirst = vi.fn();
+const mockRowUpdate = vi.fn();
+const mockHistoryFindMany = vi.fn();
+const mockProjectFindMany = vi.fn();
+const mockProjectFindUnique = vi.fn();
+const requireAuth = vi.fn();
+
+vi.mock("@/lib/prisma", () => {
+  const client = {
+    bulkRow: { findMany: mockRowFindMany, findFirst: mockRowFindFirst, update: mockRowUpdate },
+    bulkProject: { findMany: mockProjectFindMany, findUnique: mockProjectFindUnique },
+    questionHistory: { findMany: mockHistoryFindMany },
+    user: { findUnique: vi.fn().mockResolvedValue({ ssoGroups: [] }) },
+  };
+  return { __esModule: true, prisma: client, default: client };
+});
+vi.mock("@/lib/apiAuth", () => ({ requireAuth }));
+vi.mock("@/lib/auditLog", () => ({
+  logAnswerChange: vi.fn(),
+  getUserFromSession: () => ({}),
+  getRequestContext: () => ({}),
+}));
+
+const { PriorAnswerIndex, findPriorAnswers, invalidatePriorAnswerIndex } = await import("@/lib/answerLibrary");
+const { getAccessibleProjectIds } = await import("@/lib/projectAccess");
+const { POST: usePriorAnswer } = await import("@/app/api/projects/[id]/rows/[rowId]/use-prior-answer/route");
+
+const makeAnswer = (overrides: Partial<PriorAnswer>): PriorAnswer => ({
+  sourceType: "project",
+  sourceId: "row",
+  question: "",
+  answer: "",
+  reviewStatus: "APPROVED",
+  reviewedBy: "Dana",
+  projectId: "p1",
+  projectName: "Acme RFP",
+  ...overrides,
+});
+
+describe("answerLibrary", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRowFindMany.mockReset();
+    mockHistoryFindMany.mockReset();
+    invalidatePriorAnswerIndex();
+  });
+
+  it("codex: ranks similar questions, treats synonyms alike and skips the current project", () => {
+    const index = new PriorAnswerIndex([
+      makeAnswer({ sourceId: "sso", question: "Do you support single sign-on?", answer: "Yes, via SAML." }),
+      makeAnswer({ sourceId: "enc", question: "Is data encrypted at rest?", answer: "Yes, AES-256." }),
+      makeAnswer({ sourceId: "own", projectId: "current", question: "Do you support SSO?", answer: "Yes." }),
+    ]);
+
+    const matches = index.search("Does the product support SSO?", { excludeProjectId: "current" });
+    expect(matches.map((m) => m.sourceId)).toEqual(["sso"]);
+    expect(matches[0].score).toBeGreaterThan(0.6);
+    expect(matches[0].score).toBeLessThanOrEqual(1);
+    expect(matches[0]).toMatchObject({ projectName: "Acme RFP", reviewedBy: "Dana" });
+
+    expect(index.search("What is your refund policy?")).toEqual([]);
+  });
+
+  it("codex: loads reviewed rows and history, preferring the corrected answer", async () => {
+    mockRowFindMany.mockResolvedValue([
+      {
+        id: "r1",
+        question: "Do you have a SOC 2 report?",
+        response: "Original answer",
+        userEditedAnswer: "Yes, SOC 2 Type II (corrected)",
+        confidence: "High",
+        sources: null,
+        reviewStatus: "CORRECTED",
+        reviewedBy: "Sam",
+        reviewedAt: new Date("2025-01-01"),
+        project: { id: "old", name: "Globex RFP", customerName: "Globex" },
+      },
+    ]);
+    mockHistoryFindMany.mockResolvedValue([
+      {
+        id: "h1",
+        question: "Where is customer data hosted?",
+        response: "In AWS us-east-1.",
+        userEditedAnswer: null,
+        confidence: "High",
+        sources: null,
+        reviewStatus: "APPROVED",
+        reviewedBy: "Lee",
+        reviewedAt: null,
+      },
+    ]);
+
+    const matches = await findPriorAnswers(
+      [
+        { id: "a", question: "Can you share your SOC 2 report?" },
+        { id: "b", question: "Where do you host customer data?" },
+        { id: "c", question: "Describe your pricing tiers" },
+      ],
+      { excludeProjectId: "new" }
+    );
+
+    expect(mockRowFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { reviewStatus: { in: ["APPROVED", "CORRECTED"] } } })
+    );
+    expect(matches.a[0]).toMatchObject({
+      sourceType: "project",
+      answer: "Yes, SOC 2 Type II (corrected)",
+      projectName: "Globex RFP",
+      reviewedBy: "Sam",
+    });
+    expect(matches.b[0]).toMatchObject({ sourceType: "question", sourceId: "h1", projectName: null });
+    expect(matches.c).toBeUndefined();
+  });
+
+  it("codex: doesn't suggest or copy answers from PRIVATE projects the user can't see", async () => {
+    const outsider = { id: "u1", role: "USER", capabilities: ["ASK_QUESTIONS" as const] };
+    const reviewedRow = (id: string, project: { id: string; name: string }, answer: string) => ({
+      id,
+      question: "Do you support single sign-on?",
+      response: answer,
+      userEditedAnswer: null,
+      confidence: "High",
+      sources: null,
+      reviewStatus: "APPROVED",
+      reviewedBy: "Dana",
+      reviewedAt: new Date("2025-01-01"),
+      project: { ...project, customerName: null },
+    });
+    const secret = reviewedRow("r-secret", { id: "private", name: "Secret Deal" }, "Yes, via our unreleased IdP.");
+    mockRowFindMany.mockResolvedValue([secret, reviewedRow("r-public", { id: "public", name: "Acme RFP" }, "Yes, via SAML.")]);
+    mockHistoryFindMany.mockResolvedValue([]);
+    mockProjectFindMany.mockResolvedValue([{ id: "public" }, { id: "current" }]);
+
+    const projectIds = await getAccessibleProjectIds(outsider);
+    expect(mockProjectFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: expect.objectContaining({ OR: expect.arrayContaining([{ visibility: "ORG" }]) }) })
+    );
+    const matches = await findPriorAnswers([{ id: "a", question: "Do you support SSO?" }], {
+      excludeProjectId: "current",
+      projectIds,
+    });
+    expect(matches.a.map((m) => m.projectName)).toEqual(["Acme RFP"]);
+
+    // Copying the private answer by ID is refused as well
+    requireAuth.mockResolvedValue({ authorized: true, session: { user: outsider } });
+    mockProjectFindUnique.mockImplementation(({ where }: { where: { id: string } }) =>
+      Promise.resolve({
+        ownerId: "owner",
+        assignedUsers: where.id === "current" ? [{ userId: "u1", role: "EDITOR" }] : [],
+        visibility: "PRIVATE",
+        owner: { ssoGroups: [] },
+      })
+    );
+    mockRowFindFirst
+      .mockResolvedValueOnce({ id: "row1", question: "SSO?", response: "", project: { name: "Current", status: "DRAFT", locked: false } })
+      .mockResolvedValueOnce(secret);
+
+    const response = await usePriorAnswer(
+      new NextRequest("http://localhost/api/projects/current/rows/row1/use-prior-answer", {
+        method: "POST",
+        body: JSON.stringify({ sourceType: "project", sourceId: "r-secret" }),
+      }),
+      { params: Promise.resolve({ id: "current", rowId: "row1" }) }
+    );
+    expect(response.status).toBe(404);
+    expect(mockRowFindFirst).toHaveBeenCalledTimes(2);
+    expect(mockRowUpdate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,146 @@
+// codex: tests for answer locks and their enforcement on row updates
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { NextRequest } from "next/server";
+
+const { mockRowFindFirst, mockRowUpdate } = vi.hoisted(() => ({
+  mockRowFindFirst: vi.fn(),
+  mockRowUpdate: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    bulkRow: { findFirst: mockRowFindFirst, update: mockRowUpdate },
+    bulkProject: { findUnique: vi.fn().mockResolvedValue({ ownerId: null, assignedUsers: null }) },
+  },
+  default: {},
+}));
+vi.mock("@/lib/apiAuth", () => ({
+  requireAuth: vi.fn().mockResolvedValue({
+    authorized: true,
+    session: { user: { id: "u1", name: "Dana", email: "dana@example.com" } },
+  }),
+}));
+vi.mock("@/lib/auditLog", () => ({
+  logAnswerChange: vi.fn(),
+  computeChanges: vi.fn().mockReturnValue({}),
+  getUserFromSession: vi.fn().mockReturnValue({ id: "u1", name: "Dana" }),
+  getRequestContext: vi.fn().mockReturnValue({}),
+}));
+vi.mock("@/lib/answerLibrary", () => ({ invalidatePriorAnswerIndex: vi.fn() }));
+
+import {
+  getBlockedLockedFields,
+  isRowLocked,
+  lockProjectAnswers,
+  unlockProjectAnswers,
+} from "@/lib/answerLocks";
+import { PATCH } from "@/app/api/projects/[id]/rows/[rowId]/route";
+
+const makeRequest = (body: unknown) => ({ json: async () => body }) as unknown as NextRequest;
+const context = { params: Promise.resolve({ id: "p1", rowId: "r1" }) };
+
+describe("answerLocks", () => {
+  beforeEach(() => {
+    mockRowFindFirst.mockReset();
+    mockRowUpdate.mockReset();
+  });
+
+  it("codex: treats a row as locked through its project and only lets flag fields through", () => {
+    expect(isRowLocked({ locked: false }, { locked: true })).toBe(true);
+    expect(isRowLocked({ locked: true }, null)).toBe(true);
+    expect(isRowLocked({ locked: false }, { locked: false })).toBe(false);
+
+    expect(getBlockedLockedFields({ flaggedForReview: true, flagNote: "typo" })).toEqual([]);
+    expect(
+      getBlockedLockedFields({ userEditedAnswer: "new", reviewStatus: "CORRECTED", flagNote: "x", reviewNote: undefined })
+    ).toEqual(["userEditedAnswer", "reviewStatus"]);
+  });
+
+  it("codex: locks and unlocks a project together with its rows", async () => {
+    const client = {
+      bulkProject: { update: vi.fn(), findUnique: vi.fn() },
+      bulkRow: { updateMany: vi.fn().mockResolvedValue({ count: 4 }) },
+    };
+
+    const locked = await lockProjectAnswers(
+      client as never,
+      "p1",
+      { id: "u1", name: "Dana" },
+      "Project finalized"
+    );
+    expect(locked).toBe(4);
+    expect(client.bulkProject.update).toHaveBeenCalledWith({
+      where: { id: "p1" },
+      data: expect.objectContaining({ locked: true, lockedBy: "Dana", lockedById: "u1", lockReason: "Project finalized" }),
+    });
+    expect(client.bulkRow.updateMany).toHaveBeenCalledWith({
+      where: { projectId: "p1", locked: false },
+      data: expect.objectContaining({ locked: true, lockedBy: "Dana" }),
+    });
+
+    const { lockedAt } = client.bulkProject.update.mock.calls[0][0].data;
+    client.bulkProject.findUnique.mockResolvedValue({ lockedAt });
+    client.bulkRow.updateMany.mockClear();
+    await unlockProjectAnswers(client as never, "p1");
+    expect(client.bulkRow.updateMany).toHaveBeenCalledWith({
+      where: { projectId: "p1", locked: true, lockedAt },
+      data: { locked: false, lockedAt: null, lockedBy: null, lockedById: null, lockReason: null },
+    });
+  });
+
+  it("codex: leaves individually locked rows locked when the project is unlocked", async () => {
+    const rows = [
+      { id: "r1", projectId: "p1", locked: true, lockedAt: new Date("2025-06-01") as Date | null },
+      { id: "r2", projectId: "p1", locked: false, lockedAt: null as Date | null },
+    ];
+    const project = { locked: false, lockedAt: null as Date | null };
+    const client = {
+      bulkProject: {
+        findUnique: vi.fn(async () => ({ ...project })),
+        update: vi.fn(async ({ data }) => Object.assign(project, data)),
+      },
+      bulkRow: {
+        updateMany: vi.fn(async ({ where, data }) => {
+          const matching = rows.filter(
+            (row) =>
+              row.projectId === where.projectId &&
+              row.locked === where.locked &&
+              (where.lockedAt === undefined || row.lockedAt?.getTime() === where.lockedAt.getTime())
+          );
+          matching.forEach((row) => Object.assign(row, data));
+          return { count: matching.length };
+        }),
+      },
+    };
+
+    expect(await lockProjectAnswers(client as never, "p1", { id: "u1", name: "Dana" })).toBe(1);
+    expect(await unlockProjectAnswers(client as never, "p1")).toBe(1);
+    expect(rows.map((row) => [row.id, row.locked])).toEqual([
+      ["r1", true],
+      ["r2", false],
+    ]);
+  });
+
+  it("codex: rejects edits to a locked answer but still accepts a flag", async () => {
+    mockRowFindFirst.mockResolvedValue({
+      id: "r1",
+      question: "Do you encrypt data at rest?",
+      response: "Yes",
+      locked: false,
+      project: { name: "Acme RFP", locked: true },
+    });
+
+    const rejected = await PATCH(makeRequest({ userEditedAnswer: "No" }), context);
+    expect(rejected.status).toBe(409);
+    expect((await rejected.json()).error.message).toContain("userEditedAnswer");
+    expect(mockRowUpdate).not.toHaveBeenCalled();
+
+    mockRowUpdate.mockResolvedValue({ id: "r1", flaggedForReview: true });
+    const flagged = await PATCH(makeRequest({ flaggedForReview: true, flagNote: "Outdated" }), context);
+    expect(flagged.status).toBe(200);
+    expect(mockRowUpdate).toHaveBeenCalledWith({
+      where: { id: "r1" },
+      data: expect.objectContaining({ flaggedForReview: true, flagNote: "Outdated" }),
+    });
+  });
+});
@@ -0,0 +1,193 @@
+// codex: tests for comment threads, @mentions and mention notifications
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { NextRequest } from "next/server";
+import type { Comment as DbComment } from "@prisma/client";
+
+const {
+  requireAuth,
+  getProjectAccess,
+  rowFindUnique,
+  commentCreate,
+  commentFindFirst,
+  commentUpdateMany,
+  userFindMany,
+  notifyUsers,
+} = vi.hoisted(() => ({
+  requireAuth: vi.fn(),
+  getProjectAccess: vi.fn(),
+  rowFindUnique: vi.fn(),
+  commentCreate: vi.fn(),
+  commentFindFirst: vi.fn(),
+  commentUpdateMany: vi.fn(),
+  userFindMany: vi.fn(),
+  notifyUsers: vi.fn(),
+}));
+
+vi.mock("@/lib/apiAuth", () => ({ requireAuth }));
+vi.mock("@/lib/projectAccess", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/projectAccess")>()),
+  getProjectAccess,
+}));
+vi.mock("@/lib/notifications", () => ({ notifyUsers }));
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    bulkRow: { findUnique: rowFindUnique },
+    comment: { create: commentCreate, findFirst: commentFindFirst, updateMany: commentUpdateMany },
+    user: { findMany: userFindMany },
+  },
+  default: {},
+}));
+
+import { extractMentionIds, parseCommentContent, toMentionMarkup, toPlainText } from "@/lib/commentMentions";
+import { buildThreads, countComments } from "@/lib/comments";
+import { POST } from "@/app/api/comments/route";
+
+const makeComment = (overrides: Partial<DbComment>): DbComment => ({
+  id: "c1",
+  bulkRowId: "row1",
+  questionHistoryId: null,
+  collateralOutputId: null,
+  parentId: null,
+  content: "Looks good",
+  mentions: [],
+  authorId: "u2",
+  authorName: "Bea",
+  authorEmail: "bea@example.com",
+  readBy: ["u2"],
+  resolved: false,
+  resolvedAt: null,
+  resolvedBy: null,
+  createdAt: new Date("2026-01-03T10:00:00Z"),
+  updatedAt: new Date("2026-01-03T10:00:00Z"),
+  ...overrides,
+});
+
+const postComment = (body: unknown, headers: Record<string, string> = {}) =>
+  POST(
+    new NextRequest("http://localhost/api/comments", {
+      method: "POST",
+      body: JSON.stringify(body),
+      headers: { cookie: "session=abc", ...headers },
+    })
+  );
+
+describe("comments", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubGlobal("fetch", fetchMock);
+    vi.stubEnv("SLACK_WEBHOOK_URL", "https://hooks.slack.test/T1");
+    vi.stubEnv("NEXTAUTH_URL", "");
+    requireAuth.mockResolvedValue({
+      authorized: true,
+      session: { user: { id: "u1", name: "Ann", email: "ann@example.com", role: "USER", capabilities: ["ASK_QUESTIONS"] } },
+    });
+    rowFindUnique.mockResolvedValue({ id: "row1", question: "Do you encrypt data at rest?", projectId: "p1", project: { name: "Acme RFP" } });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it("codex: converts typed @names to mention markup and back to text", () => {
+    const content = toMentionMarkup("@Ann Lee and @Ann please check, cc @Nobody", [
+      { id: "u1", name: "Ann" },
+      { id: "u3", name: "Ann Lee" },
+    ]);
+
+    expect(content).toBe("@[Ann Lee](u3) and @[Ann](u1) please check, cc @Nobody");
+    expect(extractMentionIds(`${content} @[Ann](u1)`)).toEqual(["u3", "u1"]);
+    expect(toPlainText(content)).toBe("@Ann Lee and @Ann please check, cc @Nobody");
+    expect(parseCommentContent("Hi @[Ann](u1)!")).toEqual([
+      { text: "Hi " },
+      { text: "@Ann", mention: { id: "u1", name: "Ann" } },
+      { text: "!" },
+    ]);
+  });
+
+  it("codex: groups replies under their thread and counts unread and open threads per row", () => {
+    const comments = [
+      makeComment({ id: "reply", parentId: "root", createdAt: new Date("2026-01-03T11:00:00Z") }),
+      makeComment({ id: "root", authorId: "u1", readBy: ["u1"] }),
+      makeComment({ id: "done", resolved: true, readBy: ["u2", "u1"] }),
+      makeComment({ id: "other", bulkRowId: "row2", resolved: true }),
+      makeComment({ id: "orphan", parentId: "missing" }),
+    ];
+
+    const threads = buildThreads(comments, "u1");
+    expect(threads.map((t) => t.id)).toEqual(["root", "done", "other"]);
+    expect(threads[0].replies.map((r) => ({ id: r.id, unread: r.unread }))).toEqual([{ id: "reply", unread: true }]);
+    expect(threads[0].unread).toBe(false);
+
+    expect(countComments(comments, "u1")).toEqual({
+      row1: { total: 4, unread: 2, open: 1 },
+      row2: { total: 1, unread: 1, open: 0 },
+    });
+  });
+
+  it("codex: posts a comment, keeps only real mentions and notifies them through Slack", async () => {
+    getProjectAccess.mockResolvedValue({ exists: true, role: "VIEWER" });
+    userFindMany.mockResolvedValue([{ id: "u2", name: "Bea", email: "bea@example.com", role: "USER", capabilities: [] }]);
+    commentCreate.mockImplementation(({ data }) => Promise.resolve(makeComment({ ...data, id: "new" })));
+    fetchMock.mockResolvedValue({ ok: true });
+
+    const response = await postComment(
+      { targetType: "row", targetId: "row1", content: "@[Bea](u2) @[Ghost](u9) @[Ann](u1) can you confirm?" },
+      { origin: "https://attacker.example" }
+    );
+    const json = await response.json();
+
+    expect(response.status).toBe(201);
+    // The author's own mention is skipped; unknown users are dropped by the lookup
+    expect(userFindMany).toHaveBeenCalledWith(expect.objectContaining({ where: { id: { in: ["u2", "u9"] } } }));
+    expect(commentCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({ bulkRowId: "row1", mentions: ["u2"], authorId: "u1", readBy: ["u1"] }),
+    });
+    expect(json.data.mentioned).toEqual([{ id: "u2", name: "Bea" }]);
+    expect(json.data.notNotified).toEqual([]);
+    expect(json.data.slackSent).toBe(true);
+
+    // Posted straight to the webhook: no session cookie, and the link ignores the Origin header
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("https://hooks.slack.test/T1");
+    expect(init.headers).not.toHaveProperty("cookie");
+    const message = init.body as string;
+    for (const text of ["Acme RFP", "Bea", "@Bea @Ghost @Ann can you confirm?", "Do you encrypt data at rest?"]) {
+      expect(message).toContain(text);
+    }
+    expect(message).toContain("http://localhost/projects/p1#row-row1");
+    expect(message).not.toContain("attacker.example");
+
+    // Users without access to the project can't comment on its rows
+    getProjectAccess.mockResolvedValue({ exists: true, role: null });
+    const denied = await postComment({ targetType: "row", targetId: "row1", content: "Hello" });
+    expect(denied.status).toBe(403);
+    expect(commentCreate).toHaveBeenCalledTimes(1);
+  });
+
+  it("codex: doesn't notify mentioned users who can't see the target", async () => {
+    // The author can see the project; Bea can't, Cy is a collaborator
+    getProjectAccess.mockImplementation((_projectId: string, user: { id: string }) =>
+      Promise.resolve({ exists: true, role: user.id === "u2" ? null : "VIEWER" })
+    );
+    userFindMany.mockResolvedValue([
+      { id: "u2", name: "Bea", email: "bea@example.com", role: "USER", capabilities: [] },
+      { id: "u3", name: "Cy", email: "cy@example.com", role: "USER", capabilities: [] },
+    ]);
+    commentCreate.mockImplementation(({ data }) => Promise.resolve(makeComment({ ...data, id: "new" })));
+    fetchMock.mockResolvedValue({ ok: true });
+
+    const response = await postComment({ targetType: "row", targetId: "row1", content: "@[Bea](u2) @[Cy](u3) secret pricing" });
+    const json = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(json.data.mentioned).toEqual([{ id: "u3", name: "Cy" }]);
+    expect(json.data.notNotified).toEqual([{ id: "u2", name: "Bea" }]);
+    expect(notifyUsers).toHaveBeenCalledWith(["u3"], expect.objectContaining({ type: "COMMENT_MENTION" }));
+    const { blocks } = JSON.parse(fetchMock.mock.calls[0][1].body as string);
+    expect(blocks[1].fields[2].text).toBe("*Mentioned:*\nCy");
+  });
+});
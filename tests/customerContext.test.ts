@@ -0,0 +1,95 @@
+// codex: tests for the customer context sent with project answers
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { createMessage } = vi.hoisted(() => ({ createMessage: vi.fn() }));
+
+vi.mock("@/lib/prisma", () => ({ prisma: {}, default: {} }));
+vi.mock("@/lib/llmProvider", () => ({
+  getLLMClient: async () => ({ messages: { create: createMessage } }),
+}));
+
+import { buildCustomerContext } from "@/lib/customerContext";
+import { answerQuestionsBatch } from "@/lib/llm";
+
+const profile = (id: string, name: string, extra: Record<string, unknown> = {}) => ({
+  id,
+  name,
+  industry: null,
+  content: null,
+  considerations: [],
+  overview: "",
+  products: null,
+  challenges: null,
+  ...extra,
+});
+
+const document = (id: string, customerId: string, content: string) => ({
+  id,
+  customerId,
+  title: `Doc ${id}`,
+  docType: null,
+  content,
+});
+
+describe("customerContext", () => {
+  beforeEach(() => {
+    createMessage.mockReset();
+  });
+
+  it("codex: describes each profile with industry, content and considerations and records what was used", () => {
+    expect(buildCustomerContext([], [document("d1", "c1", "x")])).toBeNull();
+
+    const context = buildCustomerContext(
+      [
+        profile("c1", "Acme Health", { industry: "Healthcare", content: "Hospital network.", considerations: ["Requires HIPAA BAA"] }),
+        profile("c2", "Globex", { overview: "Legacy overview." }),
+      ],
+      [document("d1", "c1", "RFP requirements"), document("d2", "other", "Not linked")]
+    );
+
+    expect(context?.text).toContain("## Customer: Acme Health\nIndustry: Healthcare");
+    expect(context?.text).toContain("- Requires HIPAA BAA");
+    expect(context?.text).toContain("### Customer Document: Doc d1\nRFP requirements");
+    expect(context?.text).toContain("## Overview\nLegacy overview.");
+    expect(context?.text).not.toContain("Not linked");
+    expect(context?.used).toEqual({
+      profiles: [
+        { id: "c1", name: "Acme Health", industry: "Healthcare" },
+        { id: "c2", name: "Globex", industry: undefined },
+      ],
+      documents: [{ id: "d1", customerId: "c1", title: "Doc d1" }],
+    });
+  });
+
+  it("codex: skips documents that no longer fit in the context budget", () => {
+    const large = "x".repeat(20000);
+    const context = buildCustomerContext(
+      [profile("c1", "Acme")],
+      [document("d1", "c1", large), document("d2", "c1", large), document("d3", "c1", large)]
+    );
+
+    // Each document is cut to 15k characters; the third would exceed the 40k budget
+    expect(context?.used.documents.map((d) => d.id)).toEqual(["d1", "d2"]);
+    expect(context!.text.length).toBeLessThanOrEqual(40000);
+  });
+
+  it("codex: sends the customer section separately, ahead of the skills", async () => {
+    createMessage.mockResolvedValue({
+      content: [{ type: "text", text: JSON.stringify([{ questionIndex: 1, response: "Yes", confidence: "High" }]) }],
+      usage: { input_tokens: 1, output_tokens: 1 },
+    });
+
+    await answerQuestionsBatch(
+      [{ index: 1, question: "Do you sign a BAA?" }],
+      "system",
+      [{ title: "Compliance", content: "We sign BAAs." }],
+      undefined,
+      "fast",
+      "## Customer: Acme Health"
+    );
+
+    const message = createMessage.mock.calls[0][0].messages[0].content as string;
+    expect(message.indexOf("# CUSTOMER CONTEXT")).toBe(0);
+    expect(message.indexOf("## Customer: Acme Health")).toBeLessThan(message.indexOf("# AVAILABLE SKILLS"));
+  });
+});
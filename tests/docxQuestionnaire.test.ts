@@ -0,0 +1,169 @@
+// codex: tests for parsing Word questionnaires and exporting answers back into them
+import { describe, it, expect, vi } from "vitest";
+import { NextRequest } from "next/server";
+import * as mammoth from "mammoth";
+import { AlignmentType, Document, HeadingLevel, Packer, Paragraph, Table, TableCell, TableRow } from "docx";
+
+const { requireAuth, projectFindUnique } = vi.hoisted(() => ({
+  requireAuth: vi.fn(),
+  projectFindUnique: vi.fn(),
+}));
+
+vi.mock("@/lib/apiAuth", () => ({ requireAuth }));
+vi.mock("@/lib/prisma", () => ({ prisma: { bulkProject: { findUnique: projectFindUnique } }, default: {} }));
+vi.mock("@/lib/projectAccess", () => ({ requireProjectAccess: async () => null }));
+vi.mock("@/lib/auditLog", () => ({ logProjectChange: vi.fn(), getUserFromSession: () => ({}) }));
+
+import { buildAnsweredDocxBuffer, locationKey, parseDocxQuestionnaire } from "@/lib/docxQuestionnaire";
+import { GET as exportSourceFile } from "@/app/api/projects/[id]/source-file/export/route";
+
+const cell = (text: string) => new TableCell({ children: [new Paragraph(text)] });
+
+// A customer questionnaire: numbered questions (Word auto-numbering), a typed "Q7." question and a response table
+async function makeQuestionnaire(): Promise<Buffer> {
+  const doc = new Document({
+    numbering: {
+      config: [{
+        reference: "questions",
+        levels: [
+          { level: 0, format: "decimal", text: "%1.", alignment: AlignmentType.START },
+          { level: 1, format: "decimal", text: "%1.%2.", alignment: AlignmentType.START },
+        ],
+      }],
+    },
+    sections: [{
+      children: [
+        new Paragraph({ text: "Security Questionnaire", heading: HeadingLevel.HEADING_1 }),
+        new Paragraph("Please answer every question."),
+        new Paragraph({ text: "Describe your incident response process.", numbering: { reference: "questions", level: 0 } }),
+        new Paragraph({ text: "How often are backups tested?", numbering: { reference: "questions", level: 1 } }),
+        new Paragraph("Q7. Where is customer data stored?"),
+        new Table({
+          rows: [
+            new TableRow({ children: [cell("ID"), cell("Question"), cell("Response"), cell("Comments")] }),
+            new TableRow({ children: [cell("1"), cell("Do you support SSO & SCIM?"), cell(""), cell("")] }),
+            new TableRow({ children: [cell("2"), cell("Is data encrypted at rest?"), cell(""), cell("")] }),
+          ],
+        }),
+      ],
+    }],
+  });
+  return Packer.toBuffer(doc);
+}
+
+describe("docxQuestionnaire", () => {
+  it("codex: finds numbered and table questions with their location, ID and section", async () => {
+    const { blocks, questions } = await parseDocxQuestionnaire(await makeQuestionnaire());
+
+    expect(blocks.map((b) => b.type)).toEqual(["heading", "paragraph", "item", "item", "paragraph", "table"]);
+    expect(questions).toEqual([
+      {
+        question: "Describe your incident response process.",
+        questionId: "1",
+        section: "Security Questionnaire",
+        sectionPath: ["Security Questionnaire"],
+        location: { kind: "item", block: 2, label: "Item 1" },
+      },
+      {
+        question: "How often are backups tested?",
+        questionId: "1.1",
+        section: "Security Questionnaire",
+        sectionPath: ["Security Questionnaire"],
+        location: { kind: "item", block: 3, label: "Item 1.1" },
+      },
+      {
+        question: "Where is customer data stored?",
+        questionId: "7",
+        section: "Security Questionnaire",
+        sectionPath: ["Security Questionnaire"],
+        location: { kind: "item", block: 4, label: "Item 7" },
+      },
+      {
+        question: "Do you support SSO & SCIM?",
+        questionId: "1",
+        section: "Security Questionnaire",
+        sectionPath: ["Security Questionnaire"],
+        location: { kind: "table", block: 5, row: 1, questionCell: 1, answerCell: 2, commentCell: 3, label: "Table 1, row 2" },
+      },
+      {
+        question: "Is data encrypted at rest?",
+        questionId: "2",
+        section: "Security Questionnaire",
+        sectionPath: ["Security Questionnaire"],
+        location: { kind: "table", block: 5, row: 2, questionCell: 1, answerCell: 2, commentCell: 3, label: "Table 1, row 3" },
+      },
+    ]);
+  });
+
+  it("codex: writes answers into the table cells and below numbered questions", async () => {
+    const { blocks, questions } = await parseDocxQuestionnaire(await makeQuestionnaire());
+    const [incident, , , sso] = questions;
+    const answers = new Map([
+      [locationKey(incident.location), { response: "We follow a documented IR plan.", location: incident.location }],
+      [
+        locationKey({ block: sso.location.block, row: 1 }),
+        { response: "Yes, via SAML and SCIM 2.0", remarks: "Okta and Azure AD", location: sso.location },
+      ],
+    ]);
+
+    const exported = await buildAnsweredDocxBuffer(blocks, answers, { title: "Acme RFP" });
+    const { value: html } = await mammoth.convertToHtml({ buffer: exported });
+
+    expect(html).toContain("<h1>Security Questionnaire</h1>");
+    expect(html).toMatch(/1\. Describe your incident response process\.<\/p><p><strong>Response:<\/strong><\/p><p>We follow a documented IR plan\.<\/p>/);
+    expect(html).toMatch(/Do you support SSO &amp; SCIM\?<\/p><\/td><td><p>Yes, via SAML and SCIM 2\.0<\/p><\/td><td><p>Okta and Azure AD<\/p>/);
+
+    const reparsed = await parseDocxQuestionnaire(exported);
+    expect(reparsed.questions.map((q) => q.question)).toContain("Is data encrypted at rest?");
+  });
+
+  it("codex: exports only final answers into documents unless drafts are requested", async () => {
+    const { blocks, questions } = await parseDocxQuestionnaire(await makeQuestionnaire());
+    const row = (index: number, response: string, fields: Record<string, unknown>) => ({
+      rowNumber: index + 1,
+      sourceTab: null,
+      sourceRowNumber: null,
+      sourceLocation: questions[index].location,
+      response,
+      remarks: null,
+      reviewStatus: "NONE",
+      locked: false,
+      flaggedForReview: false,
+      flagResolved: false,
+      ...fields,
+    });
+    requireAuth.mockResolvedValue({ authorized: true, session: { user: { id: "u1", role: "USER" } } });
+    projectFindUnique.mockResolvedValue({
+      id: "p1",
+      name: "Acme RFP",
+      sourceFile: { fileType: "docx", filename: "questionnaire.docx", documentOutline: blocks },
+      rows: [
+        row(0, "Approved incident answer", { reviewStatus: "APPROVED" }),
+        row(1, "Draft backup answer", {}),
+        row(2, "Locked storage answer", { locked: true }),
+        row(3, "Flagged SSO answer", { reviewStatus: "APPROVED", flaggedForReview: true }),
+        row(4, "Corrected encryption answer", { reviewStatus: "CORRECTED", flaggedForReview: true, flagResolved: true }),
+      ],
+    });
+    const exportHtml = async (query: string) => {
+      const response = await exportSourceFile(
+        new NextRequest(`http://localhost/api/projects/p1/source-file/export${query}`),
+        { params: Promise.resolve({ id: "p1" }) }
+      );
+      expect(response.status).toBe(200);
+      const buffer = Buffer.from(await response.arrayBuffer());
+      return (await mammoth.convertToHtml({ buffer })).value;
+    };
+
+    const final = await exportHtml("");
+    expect(final).toContain("Approved incident answer");
+    expect(final).toContain("Locked storage answer");
+    expect(final).toContain("Corrected encryption answer");
+    expect(final).not.toContain("Draft backup answer");
+    expect(final).not.toContain("Flagged SSO answer");
+
+    const drafts = await exportHtml("?approvedOnly=false");
+    expect(drafts).toContain("Draft backup answer");
+    expect(drafts).toContain("Flagged SSO answer");
+  });
+});
@@ -0,0 +1,106 @@
+// codex: tests for Google Slides placeholder extraction and filling through a fake client
+import { describe, it, expect, vi, afterEach } from "vitest";
+
+vi.mock("@/lib/prisma", () => ({ prisma: {}, default: {} }));
+
+import {
+  createSlidesClient,
+  extractSlidePlaceholders,
+  fillPresentation,
+  resolveSlidePlaceholders,
+  type SlidesClient,
+  type SlidesPresentation,
+} from "@/lib/googleSlides";
+
+const deck: SlidesPresentation = {
+  presentationId: "deck-1",
+  slides: [
+    {
+      pageElements: [
+        // Token split across two styled runs
+        { shape: { text: { textElements: [{ textRun: { content: "Hello {{customer" } }, { textRun: { content: ".name}}" } }] } } },
+        {
+          table: {
+            tableRows: [{ tableCells: [{ text: { textElements: [{ textRun: { content: "{{ Quarter }} and {{customer.name}}" } }] } }] }],
+          },
+        },
+      ],
+    },
+    {
+      pageElements: [
+        { elementGroup: { children: [{ shape: { text: { textElements: [{ textRun: { content: "{{llm:summary}}" } }] } } }] } },
+      ],
+    },
+  ],
+};
+
+const fakeClient = (): SlidesClient & { requests: unknown[] } => {
+  const requests: unknown[] = [];
+  return {
+    requests,
+    listPresentations: async () => [],
+    getPresentation: async () => deck,
+    copyPresentation: async (_id, title) => ({ id: "copy-1", name: title, webViewLink: "https://slides.test/copy-1" }),
+    batchUpdate: async (id, batch) => {
+      requests.push({ id, batch });
+      return { replies: batch.map((_, i) => ({ replaceAllText: { occurrencesChanged: i === 0 ? 2 : 1 } })) };
+    },
+  };
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("googleSlides", () => {
+  it("codex: extracts unique placeholders from shapes, tables and groups", () => {
+    expect(extractSlidePlaceholders(deck)).toEqual(["customer.name", "Quarter", "llm:summary"]);
+    expect(resolveSlidePlaceholders(["customer.name", "Quarter", "llm:summary"], { customer: { id: "c1", name: "Acme" } })).toEqual([
+      { placeholder: "customer.name", value: "Acme" },
+    ]);
+  });
+
+  it("codex: copies the deck and batch-replaces placeholders in the copy", async () => {
+    const client = fakeClient();
+
+    const result = await fillPresentation(client, {
+      presentationId: "deck-1",
+      replacements: [
+        { placeholder: "customer.name", value: "Acme" },
+        { placeholder: "Quarter", value: "Q3" },
+      ],
+      copyTitle: "Deck - Acme",
+    });
+
+    expect(result).toEqual({ presentationId: "copy-1", webViewLink: "https://slides.test/copy-1", replacementCount: 3, copied: true });
+    expect(client.requests).toEqual([
+      {
+        id: "copy-1",
+        batch: [
+          { replaceAllText: { containsText: { text: "{{customer.name}}", matchCase: true }, replaceText: "Acme" } },
+          { replaceAllText: { containsText: { text: "{{Quarter}}", matchCase: true }, replaceText: "Q3" } },
+        ],
+      },
+    ]);
+  });
+
+  it("codex: sends REST requests to the configured API base URLs", async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ files: [{ id: "p1", name: "Pitch" }] }), { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const client = createSlidesClient("token-1", {
+      slidesUrl: "http://fake.local/slides",
+      driveUrl: "http://fake.local/drive",
+      tokenUrl: "http://fake.local/token",
+    });
+    const presentations = await client.listPresentations({ query: "Pitch's", limit: 5 });
+
+    expect(presentations).toEqual([{ id: "p1", name: "Pitch" }]);
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    const parsed = new URL(url);
+    expect(parsed.origin + parsed.pathname).toBe("http://fake.local/drive/files");
+    expect(parsed.searchParams.get("q")).toContain("name contains 'Pitch\\'s'");
+    expect(parsed.searchParams.get("pageSize")).toBe("5");
+    expect((init.headers as Record<string, string>).Authorization).toBe("Bearer token-1");
+  });
+});
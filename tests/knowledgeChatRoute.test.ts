@@ -3,6 +3,7 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
 import type { NextRequest } from "next/server";
 
 const mockAnthropicCreate = vi.fn();
+const mockAnthropicStream = vi.fn();
 const mockLogUsage = vi.fn();
 
 vi.mock("@anthropic-ai/sdk", () => {
@@ -11,6 +12,7 @@ vi.mock("@anthropic-ai/sdk", () => {
     default: class MockAnthropic {
       messages = {
         create: mockAnthropicCreate,
+        stream: mockAnthropicStream,
       };
     },
   };
@@ -23,6 +25,7 @@ vi.mock("@/lib/usageTracking", () => ({
 }));
 
 const { POST } = await import("@/app/api/knowledge-chat/route");
+const { readSSEStream } = await import("@/lib/sse");
 
 const makeRequest = (body: unknown) =>
   ({
@@ -54,4 +57,51 @@ describe("POST /api/knowledge-chat", () => {
     const payload = await res.json();
     expect(payload.response).toBe("response");
   });
+
+  it("codex: streams deltas, transparency and metadata as SSE events", async () => {
+    mockLogUsage.mockReset();
+    mockAnthropicStream.mockImplementation(() => {
+      let onText: (delta: string) => void = () => {};
+      return {
+        on: (event: string, cb: (delta: string) => void) => {
+          if (event === "text") onText = cb;
+        },
+        finalMessage: async () => {
+          onText("Per the Skill, ");
+          onText("yes.");
+          return { usage: { input_tokens: 10, output_tokens: 4 } };
+        },
+      };
+    });
+
+    const res = await POST(makeRequest({
+      message: "Hello",
+      skills: [{ id: "s1", title: "Skill", content: "Details", tags: [] }],
+      stream: true,
+    }));
+    expect(res.headers.get("Content-Type")).toContain("text/event-stream");
+
+    const events: { event: string; data: unknown }[] = [];
+    await readSSEStream(res as Response, (event) => events.push(event));
+
+    expect(events.map((e) => e.event)).toEqual(["transparency", "delta", "delta", "metadata", "done"]);
+    expect(events[3].data).toMatchObject({ skillsUsed: [{ id: "s1", title: "Skill" }] });
+    expect(events[4].data).toEqual({ response: "Per the Skill, yes." });
+    expect(mockLogUsage).toHaveBeenCalledWith(expect.objectContaining({ inputTokens: 10, outputTokens: 4 }));
+  });
+
+  it("codex: sends a generic SSE error without the provider's message", async () => {
+    mockAnthropicStream.mockImplementation(() => ({
+      on: () => {},
+      finalMessage: async () => {
+        throw new Error("401 invalid x-api-key sk-ant-123");
+      },
+    }));
+
+    const res = await POST(makeRequest({ message: "Hello", stream: true }));
+    const events: { event: string; data: unknown }[] = [];
+    await readSSEStream(res as Response, (event) => events.push(event));
+
+    expect(events.at(-1)).toEqual({ event: "error", data: { message: "Failed to process chat request" } });
+  });
 });
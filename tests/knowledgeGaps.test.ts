@@ -0,0 +1,142 @@
+// codex: tests for the knowledge gap report built from weakly answered questions
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { reportFindFirst, reportCreate, reportUpdate, rowFindMany, questionFindMany, createMessage } = vi.hoisted(() => ({
+  reportFindFirst: vi.fn(),
+  reportCreate: vi.fn(),
+  reportUpdate: vi.fn(),
+  rowFindMany: vi.fn(),
+  questionFindMany: vi.fn(),
+  createMessage: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    knowledgeGapReport: { findFirst: reportFindFirst, create: reportCreate, update: reportUpdate },
+    bulkRow: { findMany: rowFindMany },
+    questionHistory: { findMany: questionFindMany },
+  },
+  default: {},
+}));
+
+vi.mock("@/lib/llmProvider", () => ({
+  getLLMClient: async () => ({ messages: { create: createMessage } }),
+}));
+
+vi.mock("@/lib/loadSystemPrompt", () => ({ loadSystemPrompt: async () => "system" }));
+vi.mock("@/lib/usageTracking", () => ({ logUsage: vi.fn() }));
+
+import {
+  buildClusters,
+  getGapSignals,
+  groupDuplicateQuestions,
+  runKnowledgeGapReport,
+  startKnowledgeGapReport,
+  type WeakAnswer,
+} from "@/lib/knowledgeGaps";
+
+const answer = (question: string, signals: WeakAnswer["signals"]): WeakAnswer => ({
+  question,
+  source: "question",
+  href: "/projects/questions?id=q",
+  askedAt: "2025-06-01T00:00:00.000Z",
+  signals,
+});
+
+describe("knowledgeGaps", () => {
+  beforeEach(() => {
+    reportFindFirst.mockReset();
+    reportCreate.mockReset();
+    reportUpdate.mockReset();
+    rowFindMany.mockReset();
+    questionFindMany.mockReset();
+    createMessage.mockReset();
+  });
+
+  it("codex: classifies weak answers by confidence, skill match, flags and corrections", () => {
+    const base = { confidence: "High", skills: [{ id: "s1" }], flaggedForReview: false, reviewStatus: "NONE", userEditedAnswer: null };
+    expect(getGapSignals(base)).toEqual([]);
+    expect(getGapSignals({ ...base, confidence: "low - no source" })).toEqual(["lowConfidence"]);
+    expect(getGapSignals({ ...base, skills: [] })).toEqual(["noSkills"]);
+    expect(getGapSignals({ ...base, skills: null, flaggedForReview: true, reviewStatus: "CORRECTED" })).toEqual([
+      "noSkills",
+      "flagged",
+      "corrected",
+    ]);
+  });
+
+  it("codex: merges repeated questions and builds clusters with frequency, signals and examples", () => {
+    const questions = groupDuplicateQuestions([
+      answer("Where is EU data stored?", ["noSkills"]),
+      answer("where is  EU data stored", ["lowConfidence"]),
+      answer("Do you support data residency in Germany?", ["noSkills", "flagged"]),
+      answer("What is your SLA?", ["corrected"]),
+    ]);
+    expect(questions.map((q) => q.count)).toEqual([2, 1, 1]);
+
+    const { clusters, unclustered } = buildClusters(
+      [
+        { name: "EU data residency", description: "Where data lives", questionIndexes: [1, 2, 99] },
+        // Index 1 is already taken, so this cluster ends up empty and is dropped
+        { name: "Duplicate", questionIndexes: [1] },
+      ],
+      questions
+    );
+
+    expect(unclustered).toBe(1);
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0]).toMatchObject({
+      id: "gap-1",
+      name: "EU data residency",
+      suggestedSkillTitle: "EU data residency",
+      frequency: 3,
+      questionCount: 2,
+      signals: { noSkills: 2, lowConfidence: 1, flagged: 1, corrected: 0 },
+    });
+    expect(clusters[0].examples.map((e) => e.question)).toEqual([
+      "Where is EU data stored?",
+      "Do you support data residency in Germany?",
+    ]);
+  });
+
+  it("codex: reuses a running report and stores clusters when a run completes", async () => {
+    reportFindFirst.mockResolvedValue({ id: "r0", status: "RUNNING" });
+    const existing = await startKnowledgeGapReport(90);
+    expect(existing).toEqual({ report: { id: "r0", status: "RUNNING" }, alreadyRunning: true });
+    expect(reportCreate).not.toHaveBeenCalled();
+
+    reportUpdate.mockResolvedValue({ id: "r1", periodDays: 30 });
+    rowFindMany.mockResolvedValue([
+      {
+        id: "row1",
+        projectId: "p1",
+        question: "Is data encrypted at rest?",
+        confidence: "Low",
+        usedSkills: [{ id: "s1" }],
+        flaggedForReview: false,
+        reviewStatus: "NONE",
+        userEditedAnswer: null,
+        createdAt: new Date("2025-06-01"),
+        project: { name: "Acme RFP" },
+      },
+    ]);
+    questionFindMany.mockResolvedValue([]);
+    createMessage.mockResolvedValue({
+      content: [{ type: "text", text: JSON.stringify({ clusters: [{ name: "Encryption", questionIndexes: [1] }] }) }],
+      usage: { input_tokens: 10, output_tokens: 5 },
+    });
+
+    await runKnowledgeGapReport("r1");
+
+    // Reports are shared, so PRIVATE and TEAM projects stay out
+    expect(rowFindMany.mock.calls[0][0].where).toMatchObject({ project: { visibility: "ORG" } });
+
+    const completed = reportUpdate.mock.calls[reportUpdate.mock.calls.length - 1][0];
+    expect(completed.data).toMatchObject({ status: "COMPLETED", questionCount: 1, unclustered: 0 });
+    expect(completed.data.clusters[0]).toMatchObject({
+      name: "Encryption",
+      frequency: 1,
+      examples: [{ href: "/projects/p1#row-row1", projectName: "Acme RFP", source: "project" }],
+    });
+  });
+});
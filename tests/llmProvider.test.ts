@@ -0,0 +1,71 @@
+// codex: tests for the LLM provider abstraction
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+const mockFindUnique = vi.fn();
+
+vi.mock("@/lib/prisma", () => {
+  const client = { appSetting: { findUnique: mockFindUnique } };
+  return { __esModule: true, prisma: client, default: client };
+});
+
+const { getLLMProvider, createLLMClient } = await import("@/lib/llmProvider");
+const { getBedrockModelId, CLAUDE_MODEL, CLAUDE_MODEL_FAST, BEDROCK_MODEL, BEDROCK_MODEL_FAST } = await import("@/lib/config");
+
+describe("llmProvider", () => {
+  const originalProvider = process.env.LLM_PROVIDER;
+
+  beforeEach(() => {
+    mockFindUnique.mockReset();
+    delete process.env.LLM_PROVIDER;
+  });
+
+  afterEach(() => {
+    if (originalProvider === undefined) delete process.env.LLM_PROVIDER;
+    else process.env.LLM_PROVIDER = originalProvider;
+  });
+
+  it("codex: uses the admin setting when no env override is set", async () => {
+    mockFindUnique.mockResolvedValue({ key: "LLM_PROVIDER", value: "bedrock" });
+    expect(await getLLMProvider()).toBe("bedrock");
+  });
+
+  it("codex: env override wins and mock is never read from the database", async () => {
+    process.env.LLM_PROVIDER = "mock";
+    expect(await getLLMProvider()).toBe("mock");
+    expect(mockFindUnique).not.toHaveBeenCalled();
+
+    delete process.env.LLM_PROVIDER;
+    mockFindUnique.mockResolvedValue({ key: "LLM_PROVIDER", value: "mock" });
+    expect(await getLLMProvider()).toBe("anthropic");
+  });
+
+  it("codex: maps fast and quality models to Bedrock model IDs", () => {
+    expect(getBedrockModelId(CLAUDE_MODEL)).toBe(BEDROCK_MODEL);
+    expect(getBedrockModelId(CLAUDE_MODEL_FAST)).toBe(BEDROCK_MODEL_FAST);
+    expect(getBedrockModelId("us.anthropic.claude-x-v1:0")).toBe("us.anthropic.claude-x-v1:0");
+    expect(getBedrockModelId("claude-opus-4-20250514")).toBe("anthropic.claude-opus-4-20250514-v1:0");
+  });
+
+  it("codex: mock provider answers create and stream offline", async () => {
+    const client = createLLMClient("mock");
+    const params = {
+      model: "claude-test",
+      max_tokens: 100,
+      messages: [{ role: "user" as const, content: "Do you support SSO?" }],
+    };
+
+    const response = await client.messages.create(params);
+    const block = response.content[0];
+    expect(block.type === "text" && block.text).toContain("Do you support SSO?");
+    expect(response.usage.output_tokens).toBeGreaterThan(0);
+
+    let streamed = "";
+    const stream = client.messages.stream(params);
+    stream.on("text", (delta) => {
+      streamed += delta;
+    });
+    const final = await stream.finalMessage();
+    expect(streamed).toBe(block.type === "text" ? block.text : "");
+    expect(final.usage.output_tokens).toBe(response.usage.output_tokens);
+  });
+});
@@ -0,0 +1,150 @@
+// codex: tests for in-app notifications, preferences and digests
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+
+const {
+  requireAuth,
+  prefFindMany,
+  prefUpdate,
+  notificationCreate,
+  notificationCreateMany,
+  notificationUpdateMany,
+  notificationFindMany,
+  notificationCount,
+  notificationGroupBy,
+} = vi.hoisted(() => ({
+  requireAuth: vi.fn(),
+  prefFindMany: vi.fn(),
+  prefUpdate: vi.fn(),
+  notificationCreate: vi.fn(),
+  notificationCreateMany: vi.fn(),
+  notificationUpdateMany: vi.fn(),
+  notificationFindMany: vi.fn(),
+  notificationCount: vi.fn(),
+  notificationGroupBy: vi.fn(),
+}));
+
+vi.mock("@/lib/apiAuth", () => ({ requireAuth }));
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    userPreference: { findMany: prefFindMany, update: prefUpdate },
+    notification: {
+      create: notificationCreate,
+      createMany: notificationCreateMany,
+      updateMany: notificationUpdateMany,
+      findMany: notificationFindMany,
+      count: notificationCount,
+      groupBy: notificationGroupBy,
+    },
+    $transaction: (operations: unknown[]) => Promise.all(operations),
+  },
+  default: {},
+}));
+
+import { getNotificationSettings, notifyUsers, runNotificationDigests } from "@/lib/notifications";
+import { PATCH } from "@/app/api/notifications/route";
+
+describe("notifications", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    notificationCreateMany.mockImplementation(({ data }) => Promise.resolve({ count: data.length }));
+  });
+
+  it("codex: stores one notification per recipient, skipping the actor and muted types, and holds them for digest users", async () => {
+    prefFindMany.mockResolvedValue([
+      { userId: "muted", notificationSettings: { muted: ["FLAG_RAISED"], digest: "off" } },
+      { userId: "digest", notificationSettings: { muted: [], digest: "daily" } },
+    ]);
+
+    const stored = await notifyUsers(
+      ["owner", "owner", "actor", "muted", "digest", null, undefined],
+      { type: "FLAG_RAISED", title: "Ann flagged an answer in Acme RFP", link: "/projects/p1#row-r1", actorName: "Ann" },
+      { excludeUserId: "actor" }
+    );
+
+    expect(stored).toBe(2);
+    expect(prefFindMany).toHaveBeenCalledWith(expect.objectContaining({ where: { userId: { in: ["owner", "muted", "digest"] } } }));
+    const { data } = notificationCreateMany.mock.calls[0][0];
+    expect(data.map((n: { userId: string; pendingDigest: boolean }) => [n.userId, n.pendingDigest])).toEqual([
+      ["owner", false],
+      ["digest", true],
+    ]);
+    expect(data[0]).toMatchObject({ type: "FLAG_RAISED", link: "/projects/p1#row-r1", actorName: "Ann", body: null });
+
+    // Unknown types and digest values fall back to defaults
+    expect(getNotificationSettings({ muted: ["BOGUS", "COMMENT_MENTION"], digest: "hourly" })).toEqual({
+      muted: ["COMMENT_MENTION"],
+      digest: "off",
+    });
+
+    // Storage failures never reach the caller
+    notificationCreateMany.mockRejectedValueOnce(new Error("db down"));
+    prefFindMany.mockResolvedValue([]);
+    expect(await notifyUsers(["owner"], { type: "REVIEW_ASSIGNED", title: "Review" })).toBe(0);
+  });
+
+  it("codex: sends due digests, waits on the rest and releases held notifications when the digest is off", async () => {
+    const now = new Date("2026-01-10T09:00:00Z");
+    notificationGroupBy.mockResolvedValue([
+      { userId: "due", _min: { createdAt: new Date("2026-01-09T12:00:00Z") } },
+      { userId: "early", _min: { createdAt: new Date("2026-01-09T12:00:00Z") } },
+      { userId: "off", _min: { createdAt: new Date("2026-01-01T00:00:00Z") } },
+    ]);
+    prefFindMany.mockResolvedValue([
+      { userId: "due", notificationSettings: { muted: [], digest: "daily", lastDigestAt: "2026-01-09T08:00:00Z" } },
+      { userId: "early", notificationSettings: { muted: [], digest: "weekly", lastDigestAt: "2026-01-05T08:00:00Z" } },
+      { userId: "off", notificationSettings: { muted: [], digest: "off" } },
+    ]);
+    notificationFindMany.mockResolvedValue([
+      { id: "n1", type: "REVIEW_ASSIGNED", title: "Review in Acme" },
+      { id: "n2", type: "REVIEW_ASSIGNED", title: "Review in Globex" },
+      { id: "n3", type: "COMMENT_MENTION", title: "Bea mentioned you" },
+    ]);
+
+    expect(await runNotificationDigests(now)).toBe(1);
+
+    expect(notificationFindMany).toHaveBeenCalledTimes(1);
+    expect(notificationFindMany).toHaveBeenCalledWith(expect.objectContaining({ where: { userId: "due", pendingDigest: true } }));
+    expect(notificationUpdateMany).toHaveBeenCalledWith({
+      where: { id: { in: ["n1", "n2", "n3"] } },
+      data: { pendingDigest: false, readAt: now },
+    });
+    expect(notificationUpdateMany).toHaveBeenCalledWith({
+      where: { userId: "off", pendingDigest: true },
+      data: { pendingDigest: false },
+    });
+    const digest = notificationCreate.mock.calls[0][0].data;
+    expect(digest).toMatchObject({ userId: "due", type: "DIGEST", title: "Your daily digest: 3 updates" });
+    expect(digest.body).toContain("2 × Review assigned to you");
+    expect(digest.body).toContain("• Bea mentioned you");
+    expect(prefUpdate).toHaveBeenCalledWith({
+      where: { userId: "due" },
+      data: { notificationSettings: { muted: [], digest: "daily", lastDigestAt: now.toISOString() } },
+    });
+  });
+
+  it("codex: marks only the signed-in user's notifications read and returns the unread count", async () => {
+    requireAuth.mockResolvedValue({ authorized: true, session: { user: { id: "u1", role: "USER" } } });
+    notificationUpdateMany.mockResolvedValue({ count: 2 });
+    notificationCount.mockResolvedValue(4);
+
+    const response = await PATCH(
+      new NextRequest("http://localhost/api/notifications", { method: "PATCH", body: JSON.stringify({ ids: ["n1", "n2"] }) })
+    );
+    const json = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(json.data).toEqual({ updated: 2, unreadCount: 4 });
+    expect(notificationUpdateMany).toHaveBeenCalledWith({
+      where: { userId: "u1", id: { in: ["n1", "n2"] }, readAt: null },
+      data: { readAt: expect.any(Date) },
+    });
+    // Held digest notifications don't count as unread
+    expect(notificationCount).toHaveBeenCalledWith({ where: { userId: "u1", readAt: null, pendingDigest: false } });
+
+    const invalid = await PATCH(
+      new NextRequest("http://localhost/api/notifications", { method: "PATCH", body: JSON.stringify({ ids: "n1" }) })
+    );
+    expect(invalid.status).toBe(400);
+  });
+});
@@ -0,0 +1,123 @@
+// codex: tests for extracting questions from questionnaire PDFs
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+
+const mockCreate = vi.fn();
+const mockPages = vi.fn();
+const requireAuth = vi.fn();
+
+vi.mock("@/lib/llmProvider", () => ({
+  getLLMClient: async () => ({ messages: { create: mockCreate } }),
+}));
+vi.mock("@/lib/loadSystemPrompt", () => ({
+  loadSystemPrompt: async (_key: string, fallback: string) => fallback,
+}));
+vi.mock("@/lib/apiAuth", () => ({ requireAuth }));
+vi.mock("@/lib/rateLimit", () => ({
+  checkRateLimit: async () => ({ success: true }),
+  getRateLimitIdentifier: async () => "user:u1",
+}));
+vi.mock("@/lib/usageTracking", () => ({ logUsage: vi.fn() }));
+vi.mock("pdf-parse", () => ({
+  PDFParse: class {
+    async getText() {
+      return { pages: mockPages() };
+    }
+    async destroy() {}
+  },
+}));
+
+const { chunkPages, extractPdfQuestions } = await import("@/lib/pdfQuestionnaire");
+const { POST } = await import("@/app/api/projects/parse-document/route");
+
+const uploadPdf = () => {
+  const formData = new FormData();
+  formData.append("file", new File(["%PDF"], "questionnaire.pdf", { type: "application/pdf" }));
+  return POST(new NextRequest("http://localhost/api/projects/parse-document", { method: "POST", body: formData }));
+};
+
+const llmReply = (questions: unknown[]) => ({
+  content: [{ type: "text", text: "```json\n" + JSON.stringify({ questions }) + "\n```" }],
+  usage: { input_tokens: 100, output_tokens: 20 },
+});
+
+describe("pdfQuestionnaire", () => {
+  beforeEach(() => {
+    mockCreate.mockReset();
+    mockPages.mockReset();
+  });
+
+  it("codex: splits long documents on page boundaries", () => {
+    const chunks = chunkPages(
+      [
+        { num: 1, text: "a".repeat(40) },
+        { num: 2, text: "b".repeat(40) },
+        { num: 3, text: "" },
+        { num: 4, text: "c".repeat(40) },
+      ],
+      100
+    );
+    expect(chunks).toHaveLength(2);
+    expect(chunks[0]).toMatch(/^\[Page 1\]\na+\n\n\[Page 2\]\nb+$/);
+    expect(chunks[1]).toMatch(/^\[Page 4\]/);
+  });
+
+  it("codex: collects questions across chunks with IDs and carried-over sections", async () => {
+    mockPages.mockReturnValue([
+      { num: 1, text: "3.2 Access Control\nCC6.1 Do you enforce MFA?\nGuidance: " + "see the control catalogue. ".repeat(600) },
+      { num: 2, text: "CC6.2 How are access reviews performed?\nGuidance: " + "see the control catalogue. ".repeat(600) },
+    ]);
+    mockCreate
+      .mockResolvedValueOnce(llmReply([
+        { id: "CC6.1", section: "3.2 Access Control", question: "CC6.1 Do you enforce   MFA?" },
+        { id: null, section: null, question: "   " },
+      ]))
+      .mockResolvedValueOnce(llmReply([
+        { id: "CC6.2", section: null, question: "How are access reviews performed?" },
+      ]));
+
+    const result = await extractPdfQuestions(Buffer.from("%PDF"));
+
+    expect(result.questions).toEqual([
+      { question: "Do you enforce MFA?", questionId: "CC6.1", section: "3.2 Access Control" },
+      { question: "How are access reviews performed?", questionId: "CC6.2", section: "3.2 Access Control" },
+    ]);
+    expect(result.pageCount).toBe(2);
+    expect(result.usage).toMatchObject({ inputTokens: 200, outputTokens: 40 });
+    expect(mockCreate).toHaveBeenCalledTimes(2);
+    expect(mockCreate.mock.calls[1][0].messages[0].content).toContain(
+      "The previous part ended in section: 3.2 Access Control"
+    );
+  });
+
+  it("codex: reads PDFs without a text layer with the shared extractor and rejects them when it finds nothing", async () => {
+    mockPages.mockReturnValue([{ num: 1, text: "" }, { num: 2, text: "" }]);
+    mockCreate
+      .mockResolvedValueOnce({ content: [{ type: "text", text: "1. Do you encrypt data at rest?" }] })
+      .mockResolvedValueOnce(llmReply([{ id: "1", section: null, question: "Do you encrypt data at rest?" }]));
+
+    const result = await extractPdfQuestions(Buffer.from("%PDF"));
+    expect(result.questions).toEqual([{ question: "Do you encrypt data at rest?", questionId: "1", section: undefined }]);
+    expect(result.pageCount).toBe(2);
+    expect(mockCreate.mock.calls[0][0].messages[0].content[0]).toMatchObject({ type: "document" });
+    expect(mockCreate.mock.calls[1][0].messages[0].content).toContain("Do you encrypt data at rest?");
+
+    mockCreate.mockResolvedValueOnce({ content: [{ type: "text", text: "  " }] });
+    await expect(extractPdfQuestions(Buffer.from("%PDF"))).rejects.toThrow(/image-based/);
+  });
+
+  it("codex: returns 400 for PDFs that aren't questionnaires and a fixed message for other failures", async () => {
+    requireAuth.mockResolvedValue({ authorized: true, session: { user: { id: "u1", email: "u1@example.com" } } });
+    mockPages.mockReturnValue([{ num: 1, text: "Quarterly newsletter" }]);
+
+    mockCreate.mockResolvedValueOnce(llmReply([]));
+    const notQuestionnaire = await uploadPdf();
+    expect(notQuestionnaire.status).toBe(400);
+    expect((await notQuestionnaire.json()).error.message).toContain("No questions were found");
+
+    mockCreate.mockRejectedValueOnce(new Error("upstream 529: overloaded_error at https://internal.example/v1"));
+    const failed = await uploadPdf();
+    expect(failed.status).toBe(500);
+    expect((await failed.json()).error.message).toBe("Failed to extract questions from PDF");
+  });
+});
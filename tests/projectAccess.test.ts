@@ -0,0 +1,202 @@
+// codex: tests for project roles, visibility and collaborator management
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+
+const {
+  requireAuth,
+  projectFindUnique,
+  projectCount,
+  projectUpdate,
+  userFindUnique,
+  userFindMany,
+  userCount,
+  logProjectChange,
+} = vi.hoisted(() => ({
+  requireAuth: vi.fn(),
+  projectFindUnique: vi.fn(),
+  projectCount: vi.fn(),
+  projectUpdate: vi.fn(),
+  userFindUnique: vi.fn(),
+  userFindMany: vi.fn(),
+  userCount: vi.fn(),
+  logProjectChange: vi.fn(),
+}));
+
+vi.mock("@/lib/apiAuth", () => ({ requireAuth }));
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    bulkProject: { findUnique: projectFindUnique, count: projectCount, update: projectUpdate },
+    user: { findUnique: userFindUnique, findMany: userFindMany, count: userCount },
+  },
+  default: {},
+}));
+vi.mock("@/lib/auditLog", () => ({
+  logProjectChange,
+  getUserFromSession: (session: { user: { id: string } }) => ({ id: session.user.id }),
+  getRequestContext: () => ({}),
+}));
+
+import {
+  accessibleProjectsWhere,
+  getCollaborators,
+  getProjectRole,
+  hasProjectRole,
+  requireProjectAccess,
+} from "@/lib/projectAccess";
+import { PUT } from "@/app/api/projects/[id]/collaborators/route";
+
+const member = { id: "u1", role: "USER" as const, capabilities: ["ASK_QUESTIONS" as const] };
+
+const putCollaborators = (body: unknown) =>
+  PUT(
+    new NextRequest("http://localhost/api/projects/p1/collaborators", { method: "PUT", body: JSON.stringify(body) }),
+    { params: Promise.resolve({ id: "p1" }) }
+  );
+
+describe("projectAccess", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("codex: gives each user their highest role from ownership, collaborators, reviewing and visibility", () => {
+    const project = { ownerId: "owner", assignedUsers: null, visibility: "PRIVATE" as const, ownerGroups: ["sales"] };
+
+    expect(getProjectRole({ ...member, id: "owner" }, project)).toBe("OWNER");
+    expect(getProjectRole({ ...member, capabilities: ["ADMIN"] }, project)).toBe("OWNER");
+    expect(getProjectRole(member, project)).toBeNull();
+    expect(getProjectRole(member, { ...project, assignedUsers: [{ userId: "u1", role: "VIEWER" }] })).toBe("VIEWER");
+    // A collaborator role above what reviewing grants wins
+    expect(
+      getProjectRole({ ...member, capabilities: ["REVIEW_ANSWERS"] }, { ...project, assignedUsers: [{ userId: "u1", role: "EDITOR" }] })
+    ).toBe("EDITOR");
+    // Reviewers only see PRIVATE projects where review work is assigned to them
+    expect(getProjectRole({ ...member, capabilities: ["REVIEW_ANSWERS"] }, project)).toBeNull();
+    expect(getProjectRole({ ...member, capabilities: ["REVIEW_ANSWERS"] }, { ...project, hasAssignedReviews: true })).toBe(
+      "REVIEWER"
+    );
+    expect(getProjectRole({ ...member, capabilities: ["REVIEW_ANSWERS"] }, { ...project, visibility: "TEAM" })).toBe(
+      "REVIEWER"
+    );
+
+    expect(getProjectRole(member, { ...project, visibility: "ORG" })).toBe("VIEWER");
+    expect(getProjectRole(member, { ...project, visibility: "TEAM" }, ["support"])).toBeNull();
+    expect(getProjectRole(member, { ...project, visibility: "TEAM" }, ["sales"])).toBe("VIEWER");
+    // Ownerless projects are open for editing only when visible to everyone
+    expect(getProjectRole(member, { ...project, ownerId: null })).toBeNull();
+    expect(getProjectRole(member, { ...project, ownerId: null, visibility: "ORG" })).toBe("EDITOR");
+
+    expect(getCollaborators(["u2", { userId: "u3", role: "REVIEWER" }, { userId: "u4", role: "BOSS" }, 7])).toEqual([
+      { userId: "u2", role: "EDITOR" },
+      { userId: "u3", role: "REVIEWER" },
+      { userId: "u4", role: "VIEWER" },
+    ]);
+    expect(hasProjectRole("REVIEWER", "EDITOR")).toBe(false);
+    expect(hasProjectRole("OWNER", "EDITOR")).toBe(true);
+  });
+
+  it("codex: enforces the minimum role per action and checks SSO groups for team projects", async () => {
+    projectFindUnique.mockResolvedValue({
+      ownerId: "owner",
+      assignedUsers: [{ userId: "u1", role: "REVIEWER" }],
+      visibility: "PRIVATE",
+      owner: { ssoGroups: [] },
+    });
+    expect(await requireProjectAccess("p1", member, "REVIEWER")).toBeNull();
+    const denied = await requireProjectAccess("p1", member, "EDITOR");
+    expect(denied?.status).toBe(403);
+    expect((await denied?.json()).error.message).toContain("editor role");
+    expect(userFindUnique).not.toHaveBeenCalled();
+
+    projectFindUnique.mockResolvedValue({
+      ownerId: "owner",
+      assignedUsers: [],
+      visibility: "TEAM",
+      owner: { ssoGroups: ["sales", "emea"] },
+    });
+    userFindUnique.mockResolvedValueOnce({ ssoGroups: ["emea"] });
+    expect(await requireProjectAccess("p1", member)).toBeNull();
+    userFindUnique.mockResolvedValueOnce({ ssoGroups: ["emea"] });
+    expect((await requireProjectAccess("p1", member, "EDITOR"))?.status).toBe(403);
+    userFindUnique.mockResolvedValueOnce({ ssoGroups: [] });
+    expect((await requireProjectAccess("p1", member))?.status).toBe(403);
+  });
+
+  it("codex: keeps reviewers who aren't collaborators out of PRIVATE projects unless review work is assigned to them", async () => {
+    const reviewer = { ...member, capabilities: ["REVIEW_ANSWERS" as const] };
+    projectFindUnique.mockResolvedValue({
+      ownerId: "owner",
+      assignedUsers: [{ userId: "u9", role: "EDITOR" }],
+      visibility: "PRIVATE",
+      owner: { ssoGroups: [] },
+    });
+
+    projectCount.mockResolvedValueOnce(0);
+    expect((await requireProjectAccess("p1", reviewer))?.status).toBe(403);
+    expect(projectCount).toHaveBeenCalledWith({
+      where: {
+        id: "p1",
+        OR: [{ rows: { some: { assignedReviewerId: "u1" } } }, { sections: { some: { assignedReviewerId: "u1" } } }],
+      },
+    });
+
+    projectCount.mockResolvedValueOnce(1);
+    expect(await requireProjectAccess("p1", reviewer, "REVIEWER")).toBeNull();
+
+    // Project listings follow the same rules
+    expect(accessibleProjectsWhere(reviewer)).toEqual({
+      OR: [
+        { ownerId: "u1" },
+        { visibility: "ORG" },
+        { assignedUsers: { array_contains: [{ userId: "u1" }] } },
+        { assignedUsers: { array_contains: ["u1"] } },
+        { visibility: "TEAM" },
+        { rows: { some: { assignedReviewerId: "u1" } } },
+        { sections: { some: { assignedReviewerId: "u1" } } },
+      ],
+    });
+  });
+
+  it("codex: lets only the owner change collaborators and audits each change", async () => {
+    const project = {
+      id: "p1",
+      name: "Acme RFP",
+      ownerId: "owner",
+      visibility: "ORG",
+      assignedUsers: [{ userId: "u2", role: "EDITOR" }, { userId: "u3", role: "VIEWER" }],
+      owner: { ssoGroups: [] },
+    };
+    projectFindUnique.mockResolvedValue(project);
+
+    requireAuth.mockResolvedValue({ authorized: true, session: { user: { ...member, id: "u2" } } });
+    expect((await putCollaborators({ collaborators: [] })).status).toBe(403);
+    expect(projectUpdate).not.toHaveBeenCalled();
+
+    requireAuth.mockResolvedValue({ authorized: true, session: { user: { ...member, id: "owner" } } });
+    userCount.mockResolvedValue(2);
+    userFindMany.mockResolvedValue([{ id: "u3", name: "Ann", email: "ann@example.com" }]);
+    const res = await putCollaborators({
+      visibility: "PRIVATE",
+      collaborators: [
+        { userId: "u3", role: "REVIEWER" },
+        { userId: "u4", role: "VIEWER" },
+        { userId: "owner", role: "VIEWER" },
+      ],
+    });
+
+    expect(res.status).toBe(200);
+    expect(projectUpdate).toHaveBeenCalledWith({
+      where: { id: "p1" },
+      data: {
+        visibility: "PRIVATE",
+        assignedUsers: [{ userId: "u3", role: "REVIEWER" }, { userId: "u4", role: "VIEWER" }],
+      },
+    });
+    const audited = logProjectChange.mock.calls.map(([action, , , , changes, metadata]) => [action, changes, metadata]);
+    expect(audited).toEqual([
+      ["COLLABORATOR_ADDED", undefined, { userId: "u4", role: "VIEWER" }],
+      ["COLLABORATOR_REMOVED", undefined, { userId: "u2", role: "EDITOR" }],
+      ["UPDATED", { "collaborator:u3": { from: "VIEWER", to: "REVIEWER" } }, undefined],
+      ["UPDATED", { visibility: { from: "ORG", to: "PRIVATE" } }, undefined],
+    ]);
+  });
+});
@@ -0,0 +1,178 @@
+// codex: tests for the server-side project job runner
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+import { Prisma, type ProjectJob } from "@prisma/client";
+
+const mockRowFindMany = vi.fn();
+const mockRowUpdate = vi.fn();
+const mockRowUpdateMany = vi.fn();
+const mockJobUpdateMany = vi.fn();
+const mockJobFindFirst = vi.fn();
+const mockJobCreate = vi.fn();
+const mockRowCount = vi.fn();
+const mockProjectFindUnique = vi.fn().mockResolvedValue(null);
+const requireAuth = vi.fn();
+const mockSkillFindMany = vi.fn();
+const mockAnswerQuestionsBatch = vi.fn();
+
+vi.mock("@/lib/prisma", () => {
+  const client = {
+    bulkRow: { findMany: mockRowFindMany, count: mockRowCount, update: mockRowUpdate, updateMany: mockRowUpdateMany },
+    projectJob: { updateMany: mockJobUpdateMany, findFirst: mockJobFindFirst, create: mockJobCreate },
+    bulkProject: { findUnique: mockProjectFindUnique },
+    skill: { findMany: mockSkillFindMany },
+    referenceUrl: { findMany: vi.fn().mockResolvedValue([]) },
+    knowledgeDocument: { findMany: vi.fn().mockResolvedValue([]) },
+  };
+  return { __esModule: true, prisma: client, default: client };
+});
+vi.mock("@/lib/llm", () => ({
+  answerQuestionsBatch: mockAnswerQuestionsBatch,
+}));
+vi.mock("@/lib/appSettings", () => ({
+  loadRateLimitSettings: vi.fn().mockResolvedValue({
+    batchSize: 2,
+    batchDelayMs: 1000,
+    rateLimitRetryWaitMs: 5000,
+    rateLimitMaxRetries: 2,
+  }),
+}));
+vi.mock("@/lib/loadSystemPrompt", () => ({
+  loadSystemPrompt: vi.fn().mockResolvedValue("system prompt"),
+}));
+vi.mock("@/lib/usageTracking", () => ({
+  logUsage: vi.fn(),
+}));
+vi.mock("@/lib/apiAuth", () => ({ requireAuth }));
+vi.mock("@/lib/rateLimit", () => ({
+  checkRateLimit: vi.fn().mockResolvedValue({ success: true }),
+  getRateLimitIdentifier: vi.fn().mockResolvedValue("user:user-1"),
+}));
+vi.mock("@/lib/projectAccess", () => ({ requireProjectAccess: vi.fn().mockResolvedValue(null) }));
+vi.mock("@/lib/auditLog", () => ({ logProjectChange: vi.fn(), getUserFromSession: () => ({}) }));
+
+const { runJobStep } = await import("@/lib/projectJobs");
+const { POST: startJob } = await import("@/app/api/projects/[id]/jobs/route");
+
+const makeJob = (overrides: Partial<ProjectJob> = {}): ProjectJob =>
+  ({
+    id: "job-1",
+    projectId: "project-1",
+    type: "ANSWER_ROWS",
+    status: "RUNNING",
+    options: {},
+    totalRows: 2,
+    processedRows: 0,
+    failedRows: 0,
+    cursor: -1,
+    batchRetries: 0,
+    nextRunAt: new Date(),
+    lockedAt: new Date(),
+    lockedBy: "worker",
+    lastError: null,
+    createdById: "user-1",
+    createdByEmail: "user@example.com",
+    createdAt: new Date(),
+    startedAt: null,
+    completedAt: null,
+    updatedAt: new Date(),
+    ...overrides,
+  }) as ProjectJob;
+
+const rows = [
+  { id: "row-2", rowNumber: 2, question: "Do you encrypt data?" },
+  { id: "row-3", rowNumber: 3, question: "Do you have SSO?" },
+];
+
+describe("projectJobs.runJobStep", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSkillFindMany.mockResolvedValue([]);
+  });
+
+  it("codex: marks the job completed when no pending rows remain", async () => {
+    mockRowFindMany.mockResolvedValue([]);
+
+    await runJobStep(makeJob({ cursor: 3 }));
+
+    expect(mockRowFindMany.mock.calls[0][0].where.rowNumber).toEqual({ gt: 3 });
+    expect(mockJobUpdateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ id: "job-1", status: { in: ["QUEUED", "RUNNING"] } }),
+        data: expect.objectContaining({ status: "COMPLETED", lockedAt: null }),
+      })
+    );
+  });
+
+  it("codex: saves answers, flags missing ones and advances the cursor", async () => {
+    mockRowFindMany.mockResolvedValue(rows);
+    mockAnswerQuestionsBatch.mockResolvedValue({
+      answers: [{ questionIndex: 2, response: "Yes", confidence: "High", sources: "", reasoning: "", inference: "None", remarks: "" }],
+      usedFallback: false,
+    });
+
+    await runJobStep(makeJob());
+
+    expect(mockRowUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: "row-2" }, data: expect.objectContaining({ status: "COMPLETED", response: "Yes" }) })
+    );
+    expect(mockRowUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: "row-3" }, data: expect.objectContaining({ status: "ERROR" }) })
+    );
+    const data = mockJobUpdateMany.mock.calls[0][0].data;
+    expect(data.cursor).toBe(3);
+    expect(data.processedRows).toEqual({ increment: 2 });
+    expect(data.failedRows).toEqual({ increment: 1 });
+  });
+
+  it("codex: schedules a backoff retry when the batch fails", async () => {
+    mockRowFindMany.mockResolvedValue(rows);
+    mockAnswerQuestionsBatch.mockRejectedValue(new Error("429 rate_limit_error"));
+
+    const before = Date.now();
+    await runJobStep(makeJob({ batchRetries: 1 }));
+
+    const data = mockJobUpdateMany.mock.calls[0][0].data;
+    expect(data.batchRetries).toEqual({ increment: 1 });
+    expect(data.nextRunAt.getTime()).toBeGreaterThanOrEqual(before + 10000);
+    expect(mockRowUpdateMany).not.toHaveBeenCalled();
+  });
+
+  it("codex: marks the batch as failed once retries are exhausted", async () => {
+    mockRowFindMany.mockResolvedValue(rows);
+    mockAnswerQuestionsBatch.mockRejectedValue(new Error("boom"));
+
+    await runJobStep(makeJob({ batchRetries: 2 }));
+
+    expect(mockRowUpdateMany).toHaveBeenCalledWith({
+      where: { id: { in: ["row-2", "row-3"] } },
+      data: { status: "ERROR", error: "boom" },
+    });
+    const data = mockJobUpdateMany.mock.calls[0][0].data;
+    expect(data.cursor).toBe(3);
+    expect(data.failedRows).toEqual({ increment: 2 });
+  });
+});
+
+describe("POST /api/projects/[id]/jobs", () => {
+  it("codex: returns 409 when a concurrent request queued a job between the check and the insert", async () => {
+    requireAuth.mockResolvedValue({ authorized: true, session: { user: { id: "user-1", email: "user@example.com" } } });
+    mockProjectFindUnique.mockResolvedValueOnce({ id: "project-1", name: "Acme RFP", status: "DRAFT", locked: false });
+    mockJobFindFirst.mockResolvedValueOnce(null);
+    mockRowCount.mockResolvedValueOnce(2);
+    mockJobCreate.mockRejectedValueOnce(
+      new Prisma.PrismaClientKnownRequestError("Unique constraint failed on the fields: (`projectId`)", {
+        code: "P2002",
+        clientVersion: Prisma.prismaVersion.client,
+      })
+    );
+
+    const response = await startJob(
+      new NextRequest("http://localhost/api/projects/project-1/jobs", { method: "POST", body: JSON.stringify({}) }),
+      { params: Promise.resolve({ id: "project-1" }) }
+    );
+
+    expect(response.status).toBe(409);
+    expect((await response.json()).error.message).toBe("A job is already running for this project");
+  });
+});
@@ -0,0 +1,95 @@
+// codex: tests for building and grouping project section outlines
+import { describe, it, expect } from "vitest";
+import { collectSectionIds, groupRowsBySection, planProjectSections } from "@/lib/projectSections";
+import type { BulkRow, ProjectSection } from "@/types/bulkProject";
+
+const sequentialIds = () => {
+  let next = 0;
+  return () => `s${++next}`;
+};
+
+describe("projectSections", () => {
+  it("codex: uses Word heading paths and nests numbered PDF sections under their parent", () => {
+    const word = planProjectSections(
+      [
+        { sectionPath: ["Security", "Access Control"] },
+        { sectionPath: ["Security", "Access Control"] },
+        { sectionPath: ["Security", "Encryption"] },
+        {},
+      ],
+      sequentialIds()
+    );
+    expect(word.sections.map(({ id, parentId, title }) => ({ id, parentId, title }))).toEqual([
+      { id: "s1", parentId: null, title: "Security" },
+      { id: "s2", parentId: "s1", title: "Access Control" },
+      { id: "s3", parentId: "s1", title: "Encryption" },
+    ]);
+    expect(word.rowSectionIds).toEqual(["s2", "s2", "s3", null]);
+
+    const pdf = planProjectSections(
+      [
+        { section: "3 Security" },
+        { section: "3.2 Access Control" },
+        { section: "3.2.1 Passwords" },
+        { section: "4. Privacy" },
+        { section: "3.2 Access Control" },
+      ],
+      sequentialIds()
+    );
+    expect(pdf.sections.map(({ id, parentId, externalId }) => ({ id, parentId, externalId }))).toEqual([
+      { id: "s1", parentId: null, externalId: "3" },
+      { id: "s2", parentId: "s1", externalId: "3.2" },
+      { id: "s3", parentId: "s2", externalId: "3.2.1" },
+      { id: "s4", parentId: null, externalId: "4" },
+    ]);
+    expect(pdf.rowSectionIds).toEqual(["s1", "s2", "s3", "s4", "s2"]);
+  });
+
+  it("codex: makes each worksheet a top-level section for multi-tab uploads", () => {
+    const plan = planProjectSections(
+      [
+        { sourceTab: "Security", section: "Access" },
+        { sourceTab: "Security" },
+        { sourceTab: "Privacy", section: "Access" },
+      ],
+      sequentialIds()
+    );
+    expect(plan.sections.map(({ id, parentId, title, sourceTab }) => ({ id, parentId, title, sourceTab }))).toEqual([
+      { id: "s1", parentId: null, title: "Security", sourceTab: "Security" },
+      { id: "s2", parentId: "s1", title: "Access", sourceTab: "Security" },
+      { id: "s3", parentId: null, title: "Privacy", sourceTab: "Privacy" },
+      { id: "s4", parentId: "s3", title: "Access", sourceTab: "Privacy" },
+    ]);
+    expect(plan.rowSectionIds).toEqual(["s2", "s1", "s4"]);
+
+    const singleTab = planProjectSections([{ sourceTab: "Sheet1" }, { sourceTab: "Sheet1" }]);
+    expect(singleTab.sections).toEqual([]);
+  });
+
+  it("codex: groups rows depth-first with counts that include nested sections", () => {
+    const sections: ProjectSection[] = [
+      { id: "b", title: "4 Privacy", position: 2 },
+      { id: "a", title: "3 Security", position: 0 },
+      { id: "a1", parentId: "a", title: "3.2 Access Control", position: 1 },
+    ];
+    const row = (id: string, sectionId?: string, response = ""): BulkRow => ({
+      id,
+      rowNumber: Number(id.slice(1)),
+      question: `Question ${id}`,
+      response,
+      status: "pending",
+      sectionId,
+    });
+    const rows = [row("r1", "a1", "Yes"), row("r2", "a"), row("r3", "b", "No"), row("r4"), row("r5", "a1")];
+
+    const { groups, unsectioned } = groupRowsBySection(sections, rows);
+
+    expect(groups.map((g) => [g.section.id, g.depth, g.rows.map((r) => r.id), g.answeredRows, g.totalRows])).toEqual([
+      ["a", 0, ["r2"], 1, 3],
+      ["a1", 1, ["r1", "r5"], 1, 2],
+      ["b", 0, ["r3"], 1, 1],
+    ]);
+    expect(unsectioned.map((r) => r.id)).toEqual(["r4"]);
+    expect([...collectSectionIds(sections, "a")].sort()).toEqual(["a", "a1"]);
+  });
+});
@@ -0,0 +1,90 @@
+// codex: tests for BM25 skill retrieval
+import { describe, it, expect } from "vitest";
+import type { Skill } from "@/types/skill";
+import { chunkSkill, tokenize, SkillIndex, mergeSkillMatches, toRetrievedSkills, type RetrievalBackend } from "@/lib/retrieval";
+
+const makeSkill = (overrides: Partial<Skill>): Skill => ({
+  id: "skill",
+  title: "Skill",
+  content: "",
+  quickFacts: [],
+  edgeCases: [],
+  sourceUrls: [],
+  isActive: true,
+  createdAt: new Date().toISOString(),
+  ...overrides,
+});
+
+const skills = [
+  makeSkill({
+    id: "auth",
+    title: "Authentication",
+    content: "## Single Sign-On\n\nWe support single sign-on via SAML 2.0 and OIDC with Okta and Azure AD.\n\n## Passwords\n\nPasswords are hashed with bcrypt.",
+  }),
+  makeSkill({
+    id: "crypto",
+    title: "Data Encryption",
+    content: "Customer data is encrypted at rest with AES-256. Keys are rotated every 90 days.",
+    quickFacts: [{ question: "Do you offer MFA?", answer: "Yes, TOTP and WebAuthn are supported." }],
+  }),
+  makeSkill({
+    id: "old",
+    title: "Legacy SSO",
+    isActive: false,
+    content: "Inactive SSO notes.",
+  }),
+];
+
+describe("retrieval", () => {
+  it("codex: chunks content by heading and adds quick facts", () => {
+    const chunks = chunkSkill(skills[0]);
+    expect(chunks.map((c) => c.source)).toEqual(["title", "content", "content"]);
+    expect(chunks[1].text).toContain("Single Sign-On");
+
+    const factChunks = chunkSkill(skills[1]).filter((c) => c.source === "quickFact");
+    expect(factChunks).toHaveLength(1);
+    expect(factChunks[0].text).toContain("TOTP");
+  });
+
+  it("codex: normalizes acronyms and their expansions to the same token", () => {
+    expect(tokenize("Do you support SSO?")).toContain("syn:sso");
+    expect(tokenize("single sign-on via SAML")).toContain("syn:sso");
+    expect(tokenize("two-factor authentication")).toContain("syn:mfa");
+  });
+
+  it("codex: ranks by synonyms and returns scored chunks for active skills only", () => {
+    const index = new SkillIndex(skills);
+
+    const sso = index.rank("Is SSO available?");
+    expect(sso.map((m) => m.skill.id)).toEqual(["auth"]);
+    expect(sso[0].score).toBeGreaterThan(0);
+    expect(sso[0].chunks[0].text).toContain("SAML");
+
+    const mfa = index.rank("Is 2FA required?");
+    expect(mfa[0].skill.id).toBe("crypto");
+    expect(mfa[0].chunks[0].source).toBe("quickFact");
+
+    expect(index.rank("quarterly revenue")).toEqual([]);
+  });
+
+  it("codex: merges per-question rankings and fuses a backend via RRF", async () => {
+    const index = new SkillIndex(skills);
+    const [sso, rest, saml] = [index.rank("SSO"), index.rank("encryption at rest"), index.rank("SAML")];
+    const merged = mergeSkillMatches([sso, rest, saml]);
+    expect(merged.map((m) => m.skill.id).sort()).toEqual(["auth", "crypto"]);
+    expect(merged.find((m) => m.skill.id === "auth")?.score).toBeCloseTo(sso[0].score + saml[0].score);
+
+    // A semantic backend can surface a skill BM25 misses entirely
+    const backend: RetrievalBackend = {
+      name: "fake",
+      scoreChunks: async (_query, chunks) =>
+        new Map(chunks.filter((c) => c.skillId === "crypto").map((c) => [c.id, 0.9])),
+    };
+    const hybrid = await index.rankHybrid("How is data protected?", backend);
+    expect(hybrid[0].skill.id).toBe("crypto");
+
+    const summary = toRetrievedSkills(hybrid);
+    expect(summary[0]).toMatchObject({ id: "crypto", title: "Data Encryption" });
+    expect(summary[0].chunks?.length).toBeGreaterThan(0);
+  });
+});
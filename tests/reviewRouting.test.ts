@@ -0,0 +1,74 @@
+// codex: tests for choosing a reviewer from sections, skill owners and routing rules
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/lib/prisma", () => ({ prisma: {}, default: {} }));
+
+import { chooseReviewer, type RoutingContext, type RoutingRule } from "@/lib/reviewRouting";
+
+const rule = (overrides: Partial<RoutingRule>): RoutingRule => ({
+  id: "rule",
+  categoryName: null,
+  keywords: [],
+  reviewerId: "rule-reviewer",
+  reviewerName: "Rule Reviewer",
+  priority: 0,
+  ...overrides,
+});
+
+const makeContext = (overrides: Partial<RoutingContext> = {}): RoutingContext => ({
+  sections: new Map(),
+  skills: new Map(),
+  rules: [],
+  workloads: new Map(),
+  ...overrides,
+});
+
+describe("reviewRouting", () => {
+  it("codex: prefers a parent section's reviewer over skill owners", () => {
+    const context = makeContext({
+      sections: new Map([
+        ["parent", { parentId: null, reviewer: { id: "sme", name: "Section SME" } }],
+        ["child", { parentId: "parent", reviewer: null }],
+      ]),
+      skills: new Map([["skill-1", { owners: [{ id: "owner", name: "Owner" }], categories: [] }]]),
+    });
+
+    const decision = chooseReviewer({ question: "Do you encrypt data?", sectionId: "child", usedSkillIds: ["skill-1"] }, context);
+
+    expect(decision).toEqual({ reviewer: { id: "sme", name: "Section SME" }, reason: "section" });
+  });
+
+  it("codex: picks the least loaded owner of the skills used", () => {
+    const context = makeContext({
+      skills: new Map([
+        ["skill-1", { owners: [{ id: "busy", name: "Busy" }], categories: ["Security"] }],
+        ["skill-2", { owners: [{ id: "free", name: "Free" }], categories: [] }],
+      ]),
+      workloads: new Map([["busy", 5], ["free", 1]]),
+      rules: [rule({ categoryName: "Security" })],
+    });
+
+    const decision = chooseReviewer({ question: "Q", sectionId: null, usedSkillIds: ["skill-1", "skill-2"] }, context);
+
+    expect(decision?.reviewer.id).toBe("free");
+    expect(decision?.reason).toBe("skill-owner");
+  });
+
+  it("codex: falls back to the highest priority matching rule by category or keyword", () => {
+    const context = makeContext({
+      skills: new Map([["skill-1", { owners: [], categories: ["Security"] }]]),
+      rules: [
+        rule({ id: "low", categoryName: "security", reviewerId: "a", priority: 1 }),
+        rule({ id: "high", keywords: ["SOC 2"], reviewerId: "b", priority: 5 }),
+      ],
+    });
+
+    expect(
+      chooseReviewer({ question: "Share your soc 2 report", sectionId: null, usedSkillIds: ["skill-1"] }, context)
+    ).toMatchObject({ reviewer: { id: "b" }, reason: "rule", ruleId: "high" });
+    expect(
+      chooseReviewer({ question: "Describe access reviews", sectionId: null, usedSkillIds: ["skill-1"] }, context)
+    ).toMatchObject({ reviewer: { id: "a" }, ruleId: "low" });
+    expect(chooseReviewer({ question: "Pricing?", sectionId: null, usedSkillIds: [] }, context)).toBeNull();
+  });
+});
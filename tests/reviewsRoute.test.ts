@@ -0,0 +1,52 @@
+// codex: tests for the /api/reviews queue
+import { describe, it, expect, vi } from "vitest";
+import { NextRequest } from "next/server";
+
+const { requireAnyCapability, rowFindMany, rowGroupBy, rowCount } = vi.hoisted(() => ({
+  requireAnyCapability: vi.fn(),
+  rowFindMany: vi.fn().mockResolvedValue([]),
+  rowGroupBy: vi.fn().mockResolvedValue([]),
+  rowCount: vi.fn().mockResolvedValue(0),
+}));
+
+vi.mock("@/lib/apiAuth", () => ({ requireAnyCapability, requireAuth: vi.fn(), requireAdmin: vi.fn() }));
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    bulkRow: { findMany: rowFindMany, groupBy: rowGroupBy, count: rowCount },
+    questionHistory: {
+      findMany: vi.fn().mockResolvedValue([]),
+      groupBy: vi.fn().mockResolvedValue([]),
+      count: vi.fn().mockResolvedValue(0),
+    },
+    user: { findUnique: vi.fn().mockResolvedValue({ ssoGroups: [] }) },
+  },
+  default: {},
+}));
+
+import { GET } from "@/app/api/reviews/route";
+
+describe("GET /api/reviews", () => {
+  it("codex: lists and counts only rows from projects the reviewer can see", async () => {
+    requireAnyCapability.mockResolvedValue({
+      authorized: true,
+      session: { user: { id: "u1", role: "USER", capabilities: ["REVIEW_ANSWERS"] } },
+    });
+
+    const response = await GET(new NextRequest("http://localhost/api/reviews?type=flagged"));
+    expect(response.status).toBe(200);
+
+    const projectFilter = {
+      project: {
+        OR: expect.arrayContaining([
+          { visibility: "ORG" },
+          { visibility: "TEAM" },
+          { rows: { some: { assignedReviewerId: "u1" } } },
+        ]),
+      },
+    };
+    expect(rowFindMany.mock.calls[0][0].where).toMatchObject({ ...projectFilter, flaggedForReview: true });
+    for (const [args] of [...rowGroupBy.mock.calls, ...rowCount.mock.calls]) {
+      expect(args.where).toMatchObject(projectFilter);
+    }
+  });
+});
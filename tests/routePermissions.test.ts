@@ -0,0 +1,140 @@
+// codex: tests for the API route permission manifest and project access checks
+import { mkdirSync, mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest, NextResponse } from "next/server";
+
+const { requireAuth, requireAdmin, requireAnyCapability, projectFindUnique } = vi.hoisted(() => ({
+  requireAuth: vi.fn(),
+  requireAdmin: vi.fn(),
+  requireAnyCapability: vi.fn(),
+  projectFindUnique: vi.fn(),
+}));
+
+vi.mock("@/lib/apiAuth", () => ({ requireAuth, requireAdmin, requireAnyCapability }));
+vi.mock("@/lib/prisma", () => ({
+  prisma: { bulkProject: { findUnique: projectFindUnique } },
+  default: {},
+}));
+
+import { checkRoutePermission, requireRoutePermission } from "@/lib/routePermissions";
+import {
+  findStaleRoutePolicies,
+  findUndeclaredRoutes,
+  findUnenforcedHandlers,
+  listApiRouteHandlers,
+} from "@/lib/routePermissionsCheck";
+import { createRoute } from "@/lib/apiResponse";
+import { accessibleProjectsWhere, canAccessProject, requireProjectAccess } from "@/lib/projectAccess";
+
+// Write route files into a scratch src/app/api directory
+function writeRoutes(files: Record<string, string>): string {
+  const apiDir = path.join(mkdtempSync(path.join(tmpdir(), "routes-")), "app", "api");
+  for (const [route, source] of Object.entries(files)) {
+    mkdirSync(path.join(apiDir, route), { recursive: true });
+    writeFileSync(path.join(apiDir, route, "route.ts"), source);
+  }
+  return apiDir;
+}
+
+const signedIn = (capabilities: string[] = []) => ({
+  authorized: true,
+  session: { user: { id: "u1", role: "USER", capabilities } },
+});
+
+describe("routePermissions", () => {
+  beforeEach(() => {
+    requireAuth.mockReset();
+    requireAdmin.mockReset();
+    requireAnyCapability.mockReset();
+    projectFindUnique.mockReset();
+  });
+
+  it("codex: declares a policy for every exported API handler and enforces it in every non-public one", () => {
+    const handlers = listApiRouteHandlers();
+    expect(handlers.length).toBeGreaterThan(100);
+    expect(handlers).toContainEqual(expect.objectContaining({ route: "/api/auth/[...nextauth]", method: "POST" }));
+
+    expect(findUndeclaredRoutes(handlers).map((h) => `${h.method} ${h.route}`)).toEqual([]);
+    expect(findStaleRoutePolicies(handlers)).toEqual([]);
+    expect(findUnenforcedHandlers(handlers).map((h) => `${h.method} ${h.route}`)).toEqual([]);
+
+    // A weaker check than declared, another method's entry, or a direct session check are all caught
+    const apiDir = writeRoutes({
+      "knowledge-gaps": [
+        "export async function GET() { const auth = await requireAuth(); }",
+        'export async function POST() { const auth = await requireRoutePermission("/api/knowledge-gaps", "GET"); }',
+      ].join("\n"),
+      "knowledge-gaps/[id]": [
+        'export async function GET() {',
+        '  const auth = await requireRoutePermission("/api/knowledge-gaps/[id]", "GET");',
+        "  const session = await getServerSession(authOptions);",
+        "}",
+      ].join("\n"),
+      "reviews": 'export const GET = createRoute({ route: "/api/reviews" }, async () => ok());',
+      "setup": "export async function GET() {}",
+    });
+    expect(findUnenforcedHandlers(listApiRouteHandlers(apiDir)).map((h) => `${h.method} ${h.route}`)).toEqual([
+      "GET /api/knowledge-gaps",
+      "POST /api/knowledge-gaps",
+      "GET /api/knowledge-gaps/[id]",
+    ]);
+  });
+
+  it("codex: enforces the declared policy and refuses routes without one", async () => {
+    expect(await checkRoutePermission("/api/setup", "GET")).toEqual({ authorized: true, session: null });
+    // Handlers that need a session can't be declared public
+    const publicRoute = await requireRoutePermission("/api/setup", "GET");
+    expect(!publicRoute.authorized && publicRoute.response.status).toBe(403);
+
+    const undeclared = await requireRoutePermission("/api/not-a-route", "GET");
+    expect(undeclared.authorized).toBe(false);
+    expect(!undeclared.authorized && undeclared.response.status).toBe(403);
+
+    requireAnyCapability.mockResolvedValue(signedIn(["REVIEW_ANSWERS"]));
+    await requireRoutePermission("/api/reviews", "get");
+    expect(requireAnyCapability).toHaveBeenCalledWith(["REVIEW_ANSWERS", "VIEW_ORG_DATA"]);
+
+    // createRoute({ route }) checks the policy for the request's method before the handler runs
+    requireAnyCapability.mockResolvedValue({
+      authorized: false,
+      response: NextResponse.json({ error: "VIEW_ORG_DATA capability required" }, { status: 403 }),
+    });
+    const handler = vi.fn(async () => NextResponse.json({ ok: true }));
+    const GET = createRoute({ route: "/api/accuracy/stats" }, handler);
+    const res = await GET(new NextRequest("http://localhost/api/accuracy/stats"));
+    expect(res.status).toBe(403);
+    expect(requireAnyCapability).toHaveBeenLastCalledWith(["VIEW_ORG_DATA"]);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("codex: limits projects to owners, assigned users, visible projects and admins", async () => {
+    const user = { id: "u1", role: "USER" as const, capabilities: ["ASK_QUESTIONS" as const] };
+    const privateProject = { visibility: "PRIVATE" as const };
+    expect(canAccessProject(user, { ownerId: "u1", assignedUsers: null, ...privateProject })).toBe(true);
+    expect(canAccessProject(user, { ownerId: "u2", assignedUsers: ["u3", "u1"], ...privateProject })).toBe(true);
+    expect(canAccessProject(user, { ownerId: "u2", assignedUsers: ["u3"], ...privateProject })).toBe(false);
+    expect(canAccessProject(user, { ownerId: null, assignedUsers: null, ...privateProject })).toBe(false);
+    expect(
+      canAccessProject({ ...user, capabilities: ["REVIEW_ANSWERS"] }, { ownerId: "u2", assignedUsers: [], ...privateProject })
+    ).toBe(false);
+
+    expect(accessibleProjectsWhere({ ...user, capabilities: ["ADMIN"] })).toBeUndefined();
+    expect(accessibleProjectsWhere(user)).toEqual({
+      OR: [
+        { ownerId: "u1" },
+        { visibility: "ORG" },
+        { assignedUsers: { array_contains: [{ userId: "u1" }] } },
+        { assignedUsers: { array_contains: ["u1"] } },
+      ],
+    });
+
+    projectFindUnique.mockResolvedValueOnce(null);
+    expect((await requireProjectAccess("p0", user))?.status).toBe(404);
+    projectFindUnique.mockResolvedValueOnce({ ownerId: "u2", assignedUsers: ["u3"], ...privateProject });
+    expect((await requireProjectAccess("p1", user))?.status).toBe(403);
+    projectFindUnique.mockResolvedValueOnce({ ownerId: "u2", assignedUsers: ["u1"], ...privateProject });
+    expect(await requireProjectAccess("p2", user)).toBeNull();
+  });
+});
@@ -0,0 +1,132 @@
+// codex: tests for the Salesforce client against a local mock server and account-to-profile mapping
+import { describe, it, expect, vi, beforeAll, afterAll } from "vitest";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+
+const mocks = vi.hoisted(() => ({
+  findUnique: vi.fn(),
+  update: vi.fn(),
+  logCustomerChange: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => {
+  const prisma = { customerProfile: { findUnique: mocks.findUnique, update: mocks.update } };
+  return { prisma, default: prisma };
+});
+vi.mock("@/lib/auditLog", () => ({
+  logCustomerChange: (...args: unknown[]) => mocks.logCustomerChange(...args),
+}));
+
+import { createSalesforceClient, mapAccountToEnrichment, syncCustomerFromSalesforce } from "@/lib/salesforce";
+
+const account = {
+  Id: "001000000000001AAA",
+  Name: "Acme Corp",
+  Industry: "Manufacturing",
+  Website: "https://acme.test",
+  Type: "Customer",
+  NumberOfEmployees: 2500,
+  AnnualRevenue: 125000000,
+  BillingCity: "Berlin",
+  BillingCountry: "Germany",
+};
+
+let server: Server;
+let baseUrl: string;
+const received: { path: string; auth?: string }[] = [];
+let tokensIssued = 0;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const url = new URL(req.url || "/", "http://localhost");
+    received.push({ path: url.pathname + url.search, auth: req.headers.authorization });
+    res.setHeader("Content-Type", "application/json");
+
+    if (url.pathname === "/services/oauth2/token") {
+      tokensIssued++;
+      res.end(JSON.stringify({ access_token: `token-${tokensIssued}`, instance_url: baseUrl }));
+      return;
+    }
+    // The first token is treated as expired to exercise the refresh-and-retry path
+    if (req.headers.authorization === "Bearer token-1") {
+      res.statusCode = 401;
+      res.end(JSON.stringify([{ message: "Session expired", errorCode: "INVALID_SESSION_ID" }]));
+      return;
+    }
+    if (url.pathname === "/services/data/v59.0/query") {
+      res.end(JSON.stringify({ records: [account] }));
+      return;
+    }
+    if (url.pathname === `/services/data/v59.0/sobjects/Account/${account.Id}`) {
+      res.end(JSON.stringify(account));
+      return;
+    }
+    res.statusCode = 404;
+    res.end(JSON.stringify([{ message: "Not found" }]));
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+const client = () =>
+  createSalesforceClient({ clientId: "id", clientSecret: "secret", refreshToken: "refresh", instanceUrl: baseUrl });
+
+describe("salesforce", () => {
+  it("codex: searches accounts with an escaped SOQL query and refreshes an expired token", async () => {
+    const results = await client().searchAccounts("O'Brien 100%");
+
+    expect(results).toEqual([
+      { id: account.Id, name: "Acme Corp", industry: "Manufacturing", website: "https://acme.test", type: "Customer" },
+    ]);
+    const query = received.filter((r) => r.path.startsWith("/services/data/v59.0/query"));
+    expect(query.map((r) => r.auth)).toEqual(["Bearer token-1", "Bearer token-2"]);
+    const soql = new URL(query[1].path, baseUrl).searchParams.get("q");
+    expect(soql).toContain("WHERE Name LIKE '%O\\'Brien 100\\%%'");
+  });
+
+  it("codex: maps an account to profile fields, deriving region and tier when custom fields are absent", () => {
+    expect(mapAccountToEnrichment(account)).toMatchObject({
+      name: "Acme Corp",
+      salesforceId: account.Id,
+      region: "EMEA",
+      tier: "Enterprise",
+      employeeCount: 2500,
+      annualRevenue: 125000000,
+      accountType: "Customer",
+      billingLocation: "Berlin, Germany",
+    });
+    expect(mapAccountToEnrichment({ ...account, Region__c: "DACH", Tier__c: "Strategic" })).toMatchObject({
+      region: "DACH",
+      tier: "Strategic",
+    });
+  });
+
+  it("codex: re-sync updates static fields and records lastSalesforceSync", async () => {
+    mocks.findUnique.mockResolvedValue({
+      id: "c1",
+      name: "Acme Corp",
+      salesforceId: account.Id,
+      region: "EMEA",
+      tier: "Mid-Market",
+      employeeCount: 900,
+      annualRevenue: 125000000,
+      accountType: "Customer",
+      billingLocation: "Berlin, Germany",
+    });
+    mocks.update.mockImplementation(async ({ data }) => ({ id: "c1", ...data }));
+
+    await syncCustomerFromSalesforce("c1", client());
+
+    const { data } = mocks.update.mock.calls[0][0];
+    expect(data).toMatchObject({ tier: "Enterprise", employeeCount: 2500, region: "EMEA" });
+    expect(data.lastSalesforceSync).toBeInstanceOf(Date);
+    expect(mocks.logCustomerChange.mock.calls[0][4]).toEqual({
+      tier: { from: "Mid-Market", to: "Enterprise" },
+      employeeCount: { from: 900, to: 2500 },
+    });
+  });
+});
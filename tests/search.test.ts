@@ -0,0 +1,76 @@
+// codex: tests for global search query building, snippets and permission filters
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { Prisma } from "@prisma/client";
+
+const { queryRaw } = vi.hoisted(() => ({ queryRaw: vi.fn() }));
+
+vi.mock("@/lib/prisma", () => ({ prisma: { $queryRaw: queryRaw }, default: {} }));
+
+import { buildPrefixTsQuery, parseSnippet, searchAll } from "@/lib/search";
+
+const member = { id: "u1", role: "USER" as const, capabilities: [] };
+const admin = { id: "a1", role: "ADMIN" as const, capabilities: ["ADMIN" as const] };
+
+describe("search", () => {
+  beforeEach(() => {
+    queryRaw.mockReset();
+  });
+
+  it("codex: builds prefix queries from free text and splits highlighted snippets", () => {
+    expect(buildPrefixTsQuery("  SOC-2 pol'icy & | !")).toBe("soc:* & 2:* & pol:* & icy:*");
+    expect(buildPrefixTsQuery("&&& ()")).toBeNull();
+
+    expect(parseSnippet("We encrypt ⟦data⟧ at rest with\n ⟦AES⟧-256")).toEqual([
+      { text: "We encrypt ", highlighted: false },
+      { text: "data", highlighted: true },
+      { text: " at rest with ", highlighted: false },
+      { text: "AES", highlighted: true },
+      { text: "-256", highlighted: false },
+    ]);
+    expect(parseSnippet(null)).toEqual([]);
+  });
+
+  it("codex: limits project rows, questions and collateral to what the user may see", async () => {
+    queryRaw.mockResolvedValue([]);
+
+    await searchAll("encryption", member, { types: ["project-row", "question", "collateral", "skill"] });
+    const memberSql = queryRaw.mock.calls.map(([query]) => (query as Prisma.Sql).sql);
+    expect(memberSql[0]).toContain(`p."ownerId" = ?`);
+    expect(memberSql[0]).toContain(`p."assignedUsers"`);
+    expect(memberSql[1]).toContain(`"userId" = ?`);
+    expect(memberSql[2]).toContain(`"ownerId" = ?`);
+    expect(memberSql[3]).not.toContain("ownerId");
+    expect((queryRaw.mock.calls[0][0] as Prisma.Sql).values).toContain(JSON.stringify(["u1"]));
+
+    queryRaw.mockClear();
+    await searchAll("encryption", admin, { types: ["project-row", "question", "collateral"] });
+    for (const [query] of queryRaw.mock.calls) {
+      expect((query as Prisma.Sql).sql).not.toMatch(/"ownerId" = \?|"userId" = \?/);
+    }
+  });
+
+  it("codex: merges results across types by rank and links each to its page", async () => {
+    queryRaw.mockImplementation(async (query: Prisma.Sql) => {
+      if (query.sql.includes(`FROM "Skill"`)) {
+        return [{ id: "s1", title: "Encryption", subtitle: null, parentId: null, snippet: "⟦Encryption⟧ at rest", rank: 0.4 }];
+      }
+      if (query.sql.includes(`FROM "BulkRow"`)) {
+        return [{ id: "r1", title: "Do you encrypt data?", subtitle: "Acme RFP", parentId: "p1", snippet: "Yes", rank: 0.9 }];
+      }
+      if (query.sql.includes(`FROM "CustomerProfile"`)) {
+        return [{ id: "c1", title: "Acme", subtitle: "FinTech", parentId: null, snippet: null, rank: 0.1 }];
+      }
+      return [];
+    });
+
+    const results = await searchAll("encrypt", member, { limit: 2 });
+
+    expect(queryRaw).toHaveBeenCalledTimes(7);
+    expect(results.map((r) => [r.type, r.id, r.href])).toEqual([
+      ["project-row", "r1", "/projects/p1#row-r1"],
+      ["skill", "s1", "/knowledge?tab=skills&q=Encryption"],
+    ]);
+    expect(results[0].subtitle).toBe("Acme RFP");
+    expect(await searchAll("  ", member)).toEqual([]);
+  });
+});
@@ -0,0 +1,158 @@
+// codex: tests for skill update proposals generated from reviewer corrections
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const {
+  rowFindUnique,
+  questionFindUnique,
+  skillFindMany,
+  proposalUpdateMany,
+  proposalCreate,
+  proposalUpdate,
+  createMessage,
+  updateSkillWithVersion,
+  scheduleStaleAnswerCheck,
+} = vi.hoisted(() => ({
+  rowFindUnique: vi.fn(),
+  questionFindUnique: vi.fn(),
+  skillFindMany: vi.fn(),
+  proposalUpdateMany: vi.fn(),
+  proposalCreate: vi.fn(),
+  proposalUpdate: vi.fn(),
+  createMessage: vi.fn(),
+  updateSkillWithVersion: vi.fn(),
+  scheduleStaleAnswerCheck: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    bulkRow: { findUnique: rowFindUnique },
+    questionHistory: { findUnique: questionFindUnique },
+    skill: { findMany: skillFindMany },
+    skillProposal: { updateMany: proposalUpdateMany, create: proposalCreate, update: proposalUpdate },
+    $transaction: (operations: unknown[]) => Promise.all(operations),
+  },
+  default: {},
+}));
+
+vi.mock("@/lib/llmProvider", () => ({
+  getLLMClient: async () => ({ messages: { create: createMessage } }),
+}));
+
+vi.mock("@/lib/loadSystemPrompt", () => ({ loadSystemPrompt: async () => "system" }));
+vi.mock("@/lib/usageTracking", () => ({ logUsage: vi.fn() }));
+vi.mock("@/lib/cache", () => ({ invalidateSkillCache: vi.fn() }));
+vi.mock("@/lib/categoryStorageServer", () => ({ getCategoryNamesFromDb: async () => ["Security"] }));
+vi.mock("@/lib/auditLog", () => ({ logSkillChange: vi.fn() }));
+vi.mock("@/lib/skillVersions", () => ({ updateSkillWithVersion }));
+vi.mock("@/lib/staleAnswers", () => ({ scheduleStaleAnswerCheck }));
+
+import type { Skill, SkillProposal } from "@prisma/client";
+import { acceptSkillProposal, canReviewSkillProposal, loadCorrection, proposeFromCorrection } from "@/lib/skillProposals";
+
+const correctedRow = {
+  question: "Do you encrypt backups?",
+  response: "Yes, with AES-128.",
+  userEditedAnswer: "Yes, backups are encrypted with AES-256.",
+  reviewStatus: "CORRECTED",
+  reviewedBy: "reviewer@example.com",
+  usedSkills: [{ id: "s1", title: "Encryption" }],
+};
+
+describe("skillProposals", () => {
+  beforeEach(() => {
+    rowFindUnique.mockReset();
+    questionFindUnique.mockReset();
+    skillFindMany.mockReset();
+    proposalUpdateMany.mockReset();
+    proposalCreate.mockReset();
+    proposalUpdate.mockReset();
+    createMessage.mockReset();
+    updateSkillWithVersion.mockReset();
+    scheduleStaleAnswerCheck.mockReset();
+  });
+
+  it("codex: only treats corrected answers with a changed answer as corrections", async () => {
+    rowFindUnique.mockResolvedValueOnce(correctedRow);
+    expect(await loadCorrection({ type: "project", id: "r1" })).toEqual({
+      question: "Do you encrypt backups?",
+      originalAnswer: "Yes, with AES-128.",
+      correctedAnswer: "Yes, backups are encrypted with AES-256.",
+      usedSkillIds: ["s1"],
+      correctedBy: "reviewer@example.com",
+    });
+
+    rowFindUnique.mockResolvedValueOnce({ ...correctedRow, reviewStatus: "APPROVED" });
+    expect(await loadCorrection({ type: "project", id: "r1" })).toBeNull();
+
+    questionFindUnique.mockResolvedValueOnce({ ...correctedRow, userEditedAnswer: " Yes, with AES-128. ", skillsUsed: [] });
+    expect(await loadCorrection({ type: "question", id: "q1" })).toBeNull();
+  });
+
+  it("codex: stores update and new-skill proposals and supersedes earlier ones for the same row", async () => {
+    rowFindUnique.mockResolvedValue(correctedRow);
+    skillFindMany.mockResolvedValue([
+      { id: "s2", title: "Backups", content: "Daily backups.", categories: ["Security"], version: 1 },
+      { id: "s1", title: "Encryption", content: "We encrypt data.", categories: ["Security"], version: 4 },
+    ]);
+    createMessage.mockResolvedValue({
+      content: [{
+        type: "text",
+        text: JSON.stringify({
+          suggestions: [
+            { type: "update", skillId: "s1", suggestedAdditions: "Backups use AES-256." },
+            { type: "update", skillId: "unknown", skillTitle: "Key Rotation", category: "Security", suggestedAdditions: "Keys rotate yearly." },
+            { type: "new", skillTitle: "Empty", suggestedAdditions: "  " },
+          ],
+        }),
+      }],
+      usage: { input_tokens: 10, output_tokens: 5 },
+    });
+    proposalCreate.mockImplementation(({ data }) => Promise.resolve({ id: `p-${data.type}`, ...data }));
+
+    const created = await proposeFromCorrection({ type: "project", id: "r1" });
+
+    // The skill the answer used is listed first and marked
+    const prompt = createMessage.mock.calls[0][0].messages[0].content as string;
+    expect(prompt.indexOf('"Encryption"')).toBeLessThan(prompt.indexOf('"Backups"'));
+    expect(prompt).toContain("[USED FOR THE ORIGINAL ANSWER]");
+
+    expect(proposalUpdateMany).toHaveBeenCalledWith({
+      where: { bulkRowId: "r1", status: "PENDING" },
+      data: { status: "SUPERSEDED" },
+    });
+    expect(created).toHaveLength(2);
+    expect(created[0]).toMatchObject({ type: "UPDATE", skillId: "s1", baseVersion: 4, title: "Encryption", bulkRowId: "r1" });
+    expect(created[1]).toMatchObject({ type: "NEW", skillId: null, title: "Key Rotation", categories: ["Security"] });
+  });
+
+  it("codex: accepting an update appends the additions as a new skill version", async () => {
+    const skill = { id: "s1", title: "Encryption", content: "We encrypt data.", version: 4, history: [] } as unknown as Skill;
+    const proposal = {
+      id: "p1",
+      type: "UPDATE",
+      skillId: "s1",
+      additions: "Backups use AES-256.",
+      question: "Do you encrypt backups?",
+    } as SkillProposal;
+    updateSkillWithVersion.mockResolvedValue({ ...skill, version: 5 });
+
+    await acceptSkillProposal(proposal, skill, { id: "u1", email: "owner@example.com" });
+
+    const [, , data, action] = updateSkillWithVersion.mock.calls[0];
+    expect(action).toBe("updated");
+    expect(data.content).toBe("We encrypt data.\n\nBackups use AES-256.");
+    expect(scheduleStaleAnswerCheck).toHaveBeenCalled();
+    expect(proposalUpdate.mock.calls[0][0].data).toMatchObject({ status: "ACCEPTED", skillId: "s1", reviewedById: "u1" });
+  });
+
+  it("codex: needs skill ownership or knowledge management rights to accept a proposal", () => {
+    const user = { id: "u1", email: "dana@example.com", role: "USER" as const, capabilities: [] };
+    const manager = { ...user, capabilities: ["MANAGE_KNOWLEDGE" as const] };
+    const ownerless = { ownerId: null, owners: [] };
+
+    expect(canReviewSkillProposal(user, ownerless)).toBe(false);
+    expect(canReviewSkillProposal(user, null)).toBe(false);
+    expect(canReviewSkillProposal(manager, ownerless)).toBe(true);
+    expect(canReviewSkillProposal(user, { ownerId: "u1", owners: [] })).toBe(true);
+  });
+});
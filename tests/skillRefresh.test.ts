@@ -0,0 +1,119 @@
+// codex: tests for the scheduled skill refresh that queues drafts when source content changes
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { fetchUrlContent, streamMessage, skillFindUnique, skillUpdate, draftUpdateMany, draftCreate } = vi.hoisted(() => ({
+  fetchUrlContent: vi.fn(),
+  streamMessage: vi.fn(),
+  skillFindUnique: vi.fn(),
+  skillUpdate: vi.fn(),
+  draftUpdateMany: vi.fn(),
+  draftCreate: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    skill: { findUnique: skillFindUnique, update: skillUpdate },
+    skillRefreshDraft: { updateMany: draftUpdateMany, create: draftCreate },
+    $transaction: (operations: unknown[]) => Promise.all(operations),
+  },
+  default: {},
+}));
+
+vi.mock("@/lib/apiHelpers", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/apiHelpers")>()),
+  fetchUrlContent,
+}));
+
+vi.mock("@/lib/llmProvider", () => ({
+  getLLMClient: async () => ({ messages: { stream: () => ({ finalMessage: streamMessage }) } }),
+}));
+
+vi.mock("@/lib/loadSystemPrompt", () => ({ loadSystemPrompt: async () => "system" }));
+vi.mock("@/lib/usageTracking", () => ({ logUsage: vi.fn() }));
+vi.mock("@/lib/cache", () => ({ invalidateSkillCache: vi.fn() }));
+
+import {
+  canReviewRefreshDraft,
+  diffSourceHashes,
+  hashSourceContent,
+  refreshSkillFromSources,
+} from "@/lib/skillRefresh";
+
+const now = new Date("2025-08-01T00:00:00Z");
+
+describe("skillRefresh", () => {
+  beforeEach(() => {
+    fetchUrlContent.mockReset();
+    streamMessage.mockReset();
+    skillFindUnique.mockReset();
+    skillUpdate.mockReset();
+    draftUpdateMany.mockReset();
+    draftCreate.mockReset();
+  });
+
+  it("codex: detects changed sources by hash and records a baseline for unhashed ones", () => {
+    expect(hashSourceContent("SOC 2  Type II\n")).toBe(hashSourceContent("SOC 2 Type II"));
+
+    const result = diffSourceHashes(
+      [
+        { url: "https://a.example", addedAt: "2025-01-01", contentHash: hashSourceContent("old") },
+        { url: "https://b.example", addedAt: "2025-01-01" },
+        { url: "https://c.example", addedAt: "2025-01-01", contentHash: "kept", lastFetchedAt: "2025-02-01" },
+      ],
+      [
+        { url: "https://a.example", text: "new" },
+        { url: "https://b.example", text: "first fetch" },
+        { url: "https://c.example", text: null },
+      ],
+      now
+    );
+
+    expect(result.changedUrls).toEqual(["https://a.example"]);
+    expect(result.sourceUrls[0]).toMatchObject({ contentHash: hashSourceContent("new"), lastFetchedAt: now.toISOString() });
+    expect(result.sourceUrls[1].contentHash).toBe(hashSourceContent("first fetch"));
+    // A failed fetch keeps the previous hash so the next run still compares correctly
+    expect(result.sourceUrls[2]).toEqual({ url: "https://c.example", addedAt: "2025-01-01", contentHash: "kept", lastFetchedAt: "2025-02-01" });
+  });
+
+  it("codex: only calls the LLM when a source changed and queues the draft instead of applying it", async () => {
+    const skill = {
+      id: "s1",
+      title: "Encryption",
+      content: "AES-256",
+      version: 3,
+      sourceUrls: [{ url: "https://docs.example/security", addedAt: "2025-01-01", contentHash: hashSourceContent("AES-256 at rest") }],
+    };
+    skillFindUnique.mockResolvedValue({ sourceUrls: skill.sourceUrls });
+
+    fetchUrlContent.mockResolvedValue("AES-256   at rest");
+    expect(await refreshSkillFromSources(skill)).toBe("unchanged");
+    expect(streamMessage).not.toHaveBeenCalled();
+    expect(draftCreate).not.toHaveBeenCalled();
+
+    fetchUrlContent.mockResolvedValue("AES-256 at rest and TLS 1.3 in transit");
+    streamMessage.mockResolvedValue({
+      content: [{ type: "text", text: JSON.stringify({ hasChanges: true, summary: "Adds TLS", title: "Encryption", content: "AES-256 and TLS 1.3", changeHighlights: ["TLS 1.3"] }) }],
+      usage: { input_tokens: 10, output_tokens: 5 },
+    });
+
+    expect(await refreshSkillFromSources(skill)).toBe("drafted");
+    expect(draftUpdateMany).toHaveBeenCalledWith({ where: { skillId: "s1", status: "PENDING" }, data: { status: "SUPERSEDED" } });
+    expect(draftCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({ skillId: "s1", baseVersion: 3, content: "AES-256 and TLS 1.3", changedUrls: ["https://docs.example/security"] }),
+    });
+    // The skill's content is never touched; only the new source hash is saved
+    const saved = skillUpdate.mock.calls[skillUpdate.mock.calls.length - 1][0];
+    expect(saved.data).toEqual({ sourceUrls: [expect.objectContaining({ contentHash: hashSourceContent("AES-256 at rest and TLS 1.3 in transit") })] });
+  });
+
+  it("codex: lets owners and admins review drafts, and knowledge managers when the skill has no owners", () => {
+    const user = { id: "u1", email: "dana@example.com", role: "USER" as const, capabilities: [] };
+    const admin = { id: "u2", role: "ADMIN" as const, capabilities: ["ADMIN" as const] };
+
+    expect(canReviewRefreshDraft(user, { ownerId: null, owners: [] })).toBe(false);
+    expect(canReviewRefreshDraft({ ...user, capabilities: ["MANAGE_KNOWLEDGE"] }, { ownerId: null, owners: [] })).toBe(true);
+    expect(canReviewRefreshDraft(user, { ownerId: "u3", owners: [{ name: "Dana", email: "dana@example.com" }] })).toBe(true);
+    expect(canReviewRefreshDraft(user, { ownerId: "u3", owners: [{ name: "Sam", userId: "u3" }] })).toBe(false);
+    expect(canReviewRefreshDraft(admin, { ownerId: "u3", owners: [] })).toBe(true);
+  });
+});
@@ -0,0 +1,105 @@
+// codex: tests for skill version snapshots, rollback and version tracking on answers
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { skillUpdate, skillFindUnique, versionCreate, versionFindUnique } = vi.hoisted(() => ({
+  skillUpdate: vi.fn(),
+  skillFindUnique: vi.fn(),
+  versionCreate: vi.fn(),
+  versionFindUnique: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => {
+  const client = {
+    skill: { update: skillUpdate, findUnique: skillFindUnique },
+    skillVersion: { create: versionCreate, findUnique: versionFindUnique },
+    $transaction: (fn: (tx: unknown) => unknown) => fn(client),
+  };
+  return { prisma: client, default: client };
+});
+
+import { changesVersionedFields, rollbackSkill, updateSkillWithVersion } from "@/lib/skillVersions";
+import { toRetrievedSkills } from "@/lib/retrieval";
+
+const existing = {
+  version: 3,
+  title: "Encryption",
+  content: "AES-256 at rest",
+  quickFacts: null,
+  edgeCases: [],
+  categories: ["Security"],
+};
+
+describe("skillVersions", () => {
+  beforeEach(() => {
+    skillUpdate.mockReset();
+    skillFindUnique.mockReset();
+    versionCreate.mockReset();
+    versionFindUnique.mockReset();
+  });
+
+  it("codex: only snapshots updates that change what the skill says", async () => {
+    expect(changesVersionedFields(existing, { content: "AES-256 at rest" })).toBe(false);
+    expect(changesVersionedFields(existing, { categories: ["Security"], owners: [] })).toBe(false);
+    expect(changesVersionedFields(existing, { categories: ["Security", "Compliance"] })).toBe(true);
+
+    skillUpdate.mockResolvedValue({ id: "s1", ...existing });
+    await updateSkillWithVersion("s1", existing, { isActive: false }, "updated");
+    expect(skillUpdate).toHaveBeenCalledWith({ where: { id: "s1" }, data: { isActive: false } });
+    expect(versionCreate).not.toHaveBeenCalled();
+
+    skillUpdate.mockResolvedValue({ id: "s1", ...existing, version: 4, content: "AES-256 and TLS 1.3" });
+    await updateSkillWithVersion(
+      "s1",
+      existing,
+      { content: "AES-256 and TLS 1.3" },
+      "refreshed",
+      { id: "u1", email: "dana@example.com" },
+      "Added TLS"
+    );
+    expect(skillUpdate).toHaveBeenLastCalledWith({
+      where: { id: "s1" },
+      data: { content: "AES-256 and TLS 1.3", version: { increment: 1 } },
+    });
+    expect(versionCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        skillId: "s1",
+        version: 4,
+        content: "AES-256 and TLS 1.3",
+        action: "refreshed",
+        summary: "Added TLS",
+        createdBy: "dana@example.com",
+        createdById: "u1",
+      }),
+    });
+  });
+
+  it("codex: restores an earlier version as a new version and ignores unknown versions", async () => {
+    skillFindUnique.mockResolvedValue({ id: "s1", ...existing, history: [] });
+    versionFindUnique.mockResolvedValue(null);
+    expect(await rollbackSkill("s1", 9)).toBeNull();
+    expect(skillUpdate).not.toHaveBeenCalled();
+
+    versionFindUnique.mockResolvedValue({ ...existing, skillId: "s1", version: 1, content: "Original wording" });
+    skillUpdate.mockImplementation(async ({ data }) => ({ id: "s1", ...existing, ...data, version: 4 }));
+
+    const result = await rollbackSkill("s1", 1, { id: "u1", name: "Dana" });
+
+    expect(result?.skill.content).toBe("Original wording");
+    expect(result?.restored.version).toBe(1);
+    const data = skillUpdate.mock.calls[0][0].data;
+    expect(data.version).toEqual({ increment: 1 });
+    expect(data.history).toEqual([expect.objectContaining({ action: "updated", summary: "Rolled back to version 1" })]);
+    expect(versionCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({ version: 4, action: "rollback", content: "Original wording", createdBy: "Dana" }),
+    });
+  });
+
+  it("codex: keeps the skill version on retrieved skills so answers record it", () => {
+    const [withVersion, withoutVersion] = toRetrievedSkills([
+      { skill: { id: "s1", title: "Encryption", content: "AES", version: 4 }, score: 0.5, chunks: [] },
+      { skill: { id: "s2", title: "SSO", content: "SAML" }, score: 0.4, chunks: [] },
+    ] as never);
+    expect(withVersion).toMatchObject({ id: "s1", version: 4 });
+    expect(withoutVersion).not.toHaveProperty("version");
+  });
+});
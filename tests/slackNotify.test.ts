@@ -0,0 +1,49 @@
+// codex: tests for building and sending Slack notifications from server code
+import { describe, it, expect, vi, afterEach } from "vitest";
+
+import { sendSlackNotification, toAppUrl } from "@/lib/slackNotify";
+
+describe("slackNotify", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it("codex: posts escaped messages to the webhook, skips without one and links to the configured app URL", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response("ok"));
+    vi.stubGlobal("fetch", fetchMock);
+
+    vi.stubEnv("SLACK_WEBHOOK_URL", "");
+    const mention = {
+      type: "mention" as const,
+      projectName: "Acme <RFP>",
+      projectUrl: "https://app.example.com/projects/p1",
+      requesterName: "Ann & Co",
+      mentionedNames: ["<!channel>"],
+      comment: "Can you check this?",
+    };
+    expect(await sendSlackNotification(mention)).toBe("skipped");
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    vi.stubEnv("SLACK_WEBHOOK_URL", "https://hooks.slack.test/T1");
+    expect(await sendSlackNotification(mention)).toBe("sent");
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("https://hooks.slack.test/T1");
+    const sent = init.body as string;
+    expect(sent).toContain("Acme &lt;RFP&gt;");
+    expect(sent).toContain("Ann &amp; Co");
+    expect(sent).not.toContain("<!channel>");
+    expect(init.headers).not.toHaveProperty("cookie");
+
+    fetchMock.mockResolvedValueOnce(new Response("invalid_payload", { status: 400 }));
+    await expect(sendSlackNotification(mention)).rejects.toThrow("invalid_payload");
+
+    // Links never come from the request's Origin header
+    vi.stubEnv("NEXTAUTH_URL", "https://copilot.example.com");
+    expect(toAppUrl("/projects/p1?filter=flagged", "http://10.0.0.5:3000/api/x")).toBe(
+      "https://copilot.example.com/projects/p1?filter=flagged"
+    );
+    vi.stubEnv("NEXTAUTH_URL", "");
+    expect(toAppUrl("/projects/p1", "http://localhost:3000/api/x")).toBe("http://localhost:3000/projects/p1");
+  });
+});
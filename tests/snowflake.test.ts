@@ -0,0 +1,151 @@
+// codex: tests for Snowflake GTM queries, row mapping and the pluggable data source
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/lib/prisma", () => ({ prisma: {}, default: {} }));
+
+import {
+  buildGongCallsQuery,
+  DEFAULT_GTM_MAPPINGS,
+  fetchCustomerGTMData,
+  listTables,
+  mergeGtmMappings,
+  validateGtmMappings,
+  type GtmDataSource,
+  type QueryRow,
+  type SqlValue,
+} from "@/lib/snowflake";
+
+// In-memory source: answers each query from the first table name it mentions
+function fakeSource(tables: Record<string, QueryRow[]>, dialect: GtmDataSource["dialect"] = "snowflake") {
+  const queries: { sql: string; binds: SqlValue[] }[] = [];
+  const source: GtmDataSource = {
+    dialect,
+    async query(sql, binds = []) {
+      queries.push({ sql, binds });
+      const table = Object.keys(tables).find((name) => sql.includes(name));
+      return table ? tables[table] : [];
+    },
+    async close() {},
+  };
+  return { source, queries };
+}
+
+describe("snowflake", () => {
+  it("codex: builds bound, aliased queries from the mappings and rejects unsafe names", () => {
+    const mappings = mergeGtmMappings({
+      gongCalls: {
+        table: "GTM.GONG_CALLS",
+        columns: { ...DEFAULT_GTM_MAPPINGS.gongCalls.columns, transcript: "", topics: "" },
+      },
+    });
+
+    const query = buildGongCallsQuery(mappings, {
+      salesforceAccountId: "001ABC",
+      dateFrom: "2025-01-01",
+      limit: 5,
+    });
+
+    expect(query.sql).toBe(
+      'SELECT SALESFORCE_ACCOUNT_ID AS "accountId", CALL_ID AS "id", TITLE AS "title", STARTED_AT AS "date", ' +
+        'DURATION_SECONDS AS "duration", PARTICIPANTS AS "participants", SUMMARY AS "summary", SENTIMENT AS "sentiment" ' +
+        "FROM GTM.GONG_CALLS WHERE SALESFORCE_ACCOUNT_ID = ? AND STARTED_AT >= ? ORDER BY STARTED_AT DESC LIMIT 5"
+    );
+    expect(query.binds).toEqual(["001ABC", "2025-01-01"]);
+
+    expect(validateGtmMappings(mappings)).toEqual([]);
+    const unsafe = mergeGtmMappings({
+      hubspotActivities: {
+        table: "ACTIVITIES; DROP TABLE X",
+        columns: { ...DEFAULT_GTM_MAPPINGS.hubspotActivities.columns, subject: "" },
+      },
+    });
+    expect(validateGtmMappings(unsafe)).toEqual([
+      'hubspotActivities: invalid table name "ACTIVITIES; DROP TABLE X"',
+      "hubspotActivities: subject column is required",
+    ]);
+  });
+
+  it("codex: maps warehouse rows to Gong calls, HubSpot activities and Looker metrics", async () => {
+    const { source, queries } = fakeSource({
+      GONG_CALLS: [
+        {
+          id: 42,
+          title: "Security review",
+          date: new Date("2025-03-01T15:00:00Z"),
+          duration: 1800,
+          participants: '["Ana", "Raj"]',
+          summary: "Discussed SSO",
+          sentiment: 0.6,
+          topics: "SSO; SCIM",
+        },
+      ],
+      HUBSPOT_ACTIVITIES: [
+        { id: "a1", type: "INCOMING_EMAIL", date: "2025-02-10", subject: "RFP follow-up", owner: "Dana" },
+        { id: "a2", type: "LINKEDIN", date: "2025-02-11", subject: null },
+      ],
+      LOOKER_ACCOUNT_METRICS: [
+        { SALESFORCE_ACCOUNT_ID: "001ABC", PERIOD: "2025-Q1", accountId: "001ABC", period: "2025-Q1", ARR: BigInt(120000), HEALTH: "green", CHURN_RISK: null },
+      ],
+    });
+
+    const data = await fetchCustomerGTMData(source, DEFAULT_GTM_MAPPINGS, {
+      salesforceAccountId: "001ABC",
+      customerName: "Acme",
+      gongCallLimit: 500,
+    });
+
+    expect(data.gongCalls).toEqual([
+      {
+        id: "42",
+        salesforceAccountId: "001ABC",
+        title: "Security review",
+        date: "2025-03-01T15:00:00.000Z",
+        duration: 1800,
+        participants: ["Ana", "Raj"],
+        transcript: undefined,
+        summary: "Discussed SSO",
+        sentiment: "positive",
+        topics: ["SSO", "SCIM"],
+      },
+    ]);
+    expect(data.hubspotActivities.map((a) => [a.type, a.subject, a.owner])).toEqual([
+      ["email", "RFP follow-up", "Dana"],
+      ["note", "(no subject)", undefined],
+    ]);
+    expect(data.lookerMetrics).toEqual([
+      { salesforceAccountId: "001ABC", period: "2025-Q1", metrics: { ARR: 120000, HEALTH: "green" } },
+    ]);
+    expect(data.customerName).toBe("Acme");
+    // Limits are capped
+    expect(queries[0].sql).toMatch(/LIMIT 50$/);
+  });
+
+  it("codex: skips excluded sources and reads explorer metadata from either dialect", async () => {
+    const { source, queries } = fakeSource({});
+    const data = await fetchCustomerGTMData(source, DEFAULT_GTM_MAPPINGS, {
+      salesforceAccountId: "001ABC",
+      includeGongCalls: false,
+      includeLookerMetrics: false,
+    });
+    expect(queries).toHaveLength(1);
+    expect(queries[0].sql).toContain("FROM HUBSPOT_ACTIVITIES");
+    expect(data.gongCalls).toEqual([]);
+
+    const snowflake = fakeSource({
+      "information_schema.tables": [{ TABLE_NAME: "GONG_CALLS", TABLE_TYPE: "BASE TABLE", ROW_COUNT: 12 }],
+    });
+    expect(await listTables(snowflake.source, "GTM")).toEqual([
+      { tableName: "GONG_CALLS", tableType: "BASE TABLE", rowCount: 12 },
+    ]);
+    expect(snowflake.queries[0].sql).toContain("row_count");
+
+    const postgres = fakeSource(
+      { "information_schema.tables": [{ table_name: "gong_calls", table_type: "BASE TABLE" }] },
+      "postgres"
+    );
+    expect(await listTables(postgres.source, "public")).toEqual([
+      { tableName: "gong_calls", tableType: "BASE TABLE", rowCount: undefined },
+    ]);
+    expect(postgres.queries[0].binds).toEqual(["public"]);
+  });
+});
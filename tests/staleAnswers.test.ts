@@ -0,0 +1,119 @@
+// codex: tests for flagging answers whose source skills changed after they were generated
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Prisma } from "@prisma/client";
+
+const { skillFindMany, rowFindMany, rowUpdate, questionFindMany } = vi.hoisted(() => ({
+  skillFindMany: vi.fn(),
+  rowFindMany: vi.fn(),
+  rowUpdate: vi.fn(),
+  questionFindMany: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    skill: { findMany: skillFindMany },
+    bulkRow: { findMany: rowFindMany, update: rowUpdate },
+    questionHistory: { findMany: questionFindMany, update: vi.fn() },
+  },
+  default: {},
+}));
+
+import { checkStaleAnswers, findStaleSkills, getStaleUpdate, type SkillState } from "@/lib/staleAnswers";
+
+const answeredAt = new Date("2025-06-01T00:00:00Z");
+const skills = new Map<string, SkillState>([
+  ["s1", { id: "s1", title: "Encryption", version: 3, changedAt: new Date("2025-07-01T00:00:00Z") }],
+  ["s2", { id: "s2", title: "SSO", version: 1, changedAt: new Date("2025-05-01T00:00:00Z") }],
+  ["s3", { id: "s3", title: "Backups", version: 1, changedAt: new Date("2025-06-15T00:00:00Z") }],
+]);
+
+describe("staleAnswers", () => {
+  beforeEach(() => {
+    skillFindMany.mockReset();
+    rowFindMany.mockReset();
+    rowUpdate.mockReset();
+    questionFindMany.mockReset();
+  });
+
+  it("codex: compares recorded versions and falls back to change dates for older answers", () => {
+    expect(findStaleSkills([{ id: "s1", title: "Encryption", version: 3 }], answeredAt, skills)).toEqual([]);
+    expect(findStaleSkills([{ id: "s1", title: "Encryption", version: 2 }], answeredAt, skills)).toEqual([
+      { id: "s1", title: "Encryption", answeredVersion: 2, currentVersion: 3, changedAt: "2025-07-01T00:00:00.000Z" },
+    ]);
+
+    // No version recorded: stale only if the skill changed after the answer
+    const legacy = findStaleSkills(["s2", { id: "s3", title: "Backups" }, { id: "deleted" }], answeredAt, skills);
+    expect(legacy.map((skill) => skill.id)).toEqual(["s3"]);
+    expect(legacy[0]).not.toHaveProperty("answeredVersion");
+
+    expect(findStaleSkills(null, answeredAt, skills)).toEqual([]);
+  });
+
+  it("codex: sets, keeps and clears the stale flag only when it changes", () => {
+    const stale = findStaleSkills([{ id: "s1", version: 2 }], answeredAt, skills);
+
+    const flagged = getStaleUpdate({ possiblyStale: false, staleSkills: null }, stale);
+    expect(flagged).toMatchObject({ possiblyStale: true, staleSkills: stale });
+    expect(flagged?.staleDetectedAt).toBeInstanceOf(Date);
+
+    expect(getStaleUpdate({ possiblyStale: true, staleSkills: stale as Prisma.JsonValue }, stale)).toBeNull();
+    expect(getStaleUpdate({ possiblyStale: false, staleSkills: null }, [])).toBeNull();
+
+    // Still stale, but for a newer version: keep the original detection time
+    const newer = getStaleUpdate({ possiblyStale: true, staleSkills: [] }, stale);
+    expect(newer).not.toHaveProperty("staleDetectedAt");
+
+    expect(getStaleUpdate({ possiblyStale: true, staleSkills: stale as Prisma.JsonValue }, [])).toEqual({
+      possiblyStale: false,
+      staleSkills: Prisma.JsonNull,
+      staleDetectedAt: null,
+    });
+  });
+
+  it("codex: re-checks a project's answered rows against current skill versions", async () => {
+    skillFindMany.mockResolvedValue([
+      { id: "s1", title: "Encryption", version: 4, lastRefreshedAt: null, versions: [{ version: 4, createdAt: new Date("2025-07-01") }] },
+    ]);
+    rowFindMany.mockResolvedValue([
+      { id: "r1", usedSkills: [{ id: "s1", version: 3 }], createdAt: answeredAt, possiblyStale: false, staleSkills: null },
+      { id: "r2", usedSkills: [{ id: "s1", version: 4 }], createdAt: answeredAt, possiblyStale: true, staleSkills: [] },
+      { id: "r3", usedSkills: [{ id: "s1", version: 4 }], createdAt: answeredAt, possiblyStale: false, staleSkills: null },
+    ]);
+
+    const result = await checkStaleAnswers({ projectId: "p1" });
+
+    expect(result).toEqual({ checked: 3, flagged: 1, cleared: 1 });
+    expect(rowFindMany.mock.calls[0][0].where).toMatchObject({ projectId: "p1", status: "COMPLETED" });
+    expect(rowUpdate).toHaveBeenCalledTimes(2);
+    expect(rowUpdate).toHaveBeenCalledWith({
+      where: { id: "r1" },
+      data: expect.objectContaining({
+        possiblyStale: true,
+        staleSkills: [expect.objectContaining({ id: "s1", answeredVersion: 3, currentVersion: 4 })],
+      }),
+    });
+    expect(rowUpdate).toHaveBeenCalledWith({
+      where: { id: "r2" },
+      data: expect.objectContaining({ possiblyStale: false, staleDetectedAt: null }),
+    });
+    expect(questionFindMany).not.toHaveBeenCalled();
+  });
+
+  it("codex: compares legacy skills with when a row was answered, not uploaded", async () => {
+    skillFindMany.mockResolvedValue([
+      { id: "s3", title: "Backups", version: 1, lastRefreshedAt: new Date("2025-06-15"), versions: [] },
+    ]);
+    rowFindMany.mockResolvedValue([
+      // Uploaded before the skill changed, answered after it
+      { id: "r1", usedSkills: ["s3"], answeredAt: new Date("2025-07-01"), createdAt: answeredAt, possiblyStale: false, staleSkills: null },
+      // Answered before answer times were recorded: falls back to the upload time
+      { id: "r2", usedSkills: ["s3"], answeredAt: null, createdAt: answeredAt, possiblyStale: false, staleSkills: null },
+    ]);
+
+    const result = await checkStaleAnswers({ projectId: "p1" });
+
+    expect(result).toEqual({ checked: 2, flagged: 1, cleared: 0 });
+    expect(rowUpdate).toHaveBeenCalledTimes(1);
+    expect(rowUpdate.mock.calls[0][0].where).toEqual({ id: "r2" });
+  });
+});
@@ -0,0 +1,99 @@
+// codex: tests for filling answers into the original workbook
+import { describe, it, expect } from "vitest";
+import * as XLSX from "xlsx";
+import JSZip from "jszip";
+import { buildSheetFills, fillWorkbook } from "@/lib/xlsxFill";
+import type { SourceSheetMapping } from "@/types/bulkProject";
+
+const DATA_VALIDATION =
+  '<dataValidations count="1"><dataValidation type="list" sqref="C2:C10"><formula1>"Yes,No"</formula1></dataValidation></dataValidations>';
+
+// A customer workbook: styled answer cell, a data validation and an untouched second tab
+async function makeWorkbook(): Promise<Buffer> {
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(
+    wb,
+    XLSX.utils.aoa_to_sheet([
+      ["ID", "Question", "Answer", "Comments"],
+      ["1", "Do you support SSO?", "", ""],
+      [],
+      ["2", "Is data encrypted?", "TBD", ""],
+    ]),
+    "Security & Privacy"
+  );
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([["Instructions"]]), "Read Me");
+  const raw = XLSX.write(wb, { type: "buffer", bookType: "xlsx" }) as Buffer;
+
+  const zip = await JSZip.loadAsync(raw);
+  const sheet = await zip.file("xl/worksheets/sheet1.xml")!.async("string");
+  zip.file(
+    "xl/worksheets/sheet1.xml",
+    sheet
+      .replace('<c r="C2" t="str">', '<c r="C2" s="1" t="str">')
+      .replace("</sheetData>", `</sheetData>${DATA_VALIDATION}`)
+  );
+  return zip.generateAsync({ type: "nodebuffer" });
+}
+
+const mapping: SourceSheetMapping = {
+  sheetName: "Security & Privacy",
+  columns: ["ID", "Question", "Answer", "Comments"],
+  firstColumn: 0,
+  headerRow: 1,
+  questionColumn: 1,
+  answerColumn: 2,
+  commentColumn: 3,
+};
+
+describe("xlsxFill", () => {
+  it("codex: maps rows to their tab and sheet row, skipping unanswered rows", () => {
+    const fills = buildSheetFills(
+      [
+        { rowNumber: 1, sourceTab: "Security & Privacy", sourceRowNumber: 2, response: "Yes", remarks: "Via SAML" },
+        { rowNumber: 2, sourceTab: "Security & Privacy", sourceRowNumber: 4, response: "", remarks: null },
+        { rowNumber: 3, sourceTab: "Other Tab", sourceRowNumber: 2, response: "Ignored" },
+      ],
+      [mapping, { ...mapping, sheetName: "Unmapped", answerColumn: null, commentColumn: null }]
+    );
+
+    expect(fills).toEqual([
+      {
+        sheetName: "Security & Privacy",
+        cells: [
+          { row: 2, column: 2, value: "Yes" },
+          { row: 2, column: 3, value: "Via SAML" },
+        ],
+      },
+    ]);
+  });
+
+  it("codex: writes answers into the original file and keeps styles, validation and other tabs", async () => {
+    const source = await makeWorkbook();
+    const result = await fillWorkbook(source, [
+      {
+        sheetName: "Security & Privacy",
+        cells: [
+          { row: 2, column: 2, value: "Yes <SAML> & OIDC" },
+          { row: 4, column: 2, value: "AES-256" },
+          { row: 4, column: 3, value: "At rest and in transit" },
+        ],
+      },
+      { sheetName: "Deleted Tab", cells: [{ row: 2, column: 2, value: "x" }] },
+    ]);
+
+    expect(result.filledCells).toBe(3);
+    expect(result.missingSheets).toEqual(["Deleted Tab"]);
+
+    const zip = await JSZip.loadAsync(result.data);
+    const sheetXml = await zip.file("xl/worksheets/sheet1.xml")!.async("string");
+    expect(sheetXml).toContain(DATA_VALIDATION);
+    expect(sheetXml).toMatch(/<c r="C2" s="1" t="inlineStr">/);
+
+    const workbook = XLSX.read(result.data);
+    expect(workbook.SheetNames).toEqual(["Security & Privacy", "Read Me"]);
+    const rows = XLSX.utils.sheet_to_json<string[]>(workbook.Sheets["Security & Privacy"], { header: 1, defval: "" });
+    expect(rows[1]).toEqual(["1", "Do you support SSO?", "Yes <SAML> & OIDC", ""]);
+    expect(rows[3]).toEqual(["2", "Is data encrypted?", "AES-256", "At rest and in transit"]);
+    expect(XLSX.utils.sheet_to_json<string[]>(workbook.Sheets["Read Me"], { header: 1 })).toEqual([["Instructions"]]);
+  });
+});